@@ -0,0 +1,33 @@
+/**
+ * API: Retry a dead job
+ * POST /api/admin/jobs/[jobId]/retry - Requeue with fresh attempts, resuming from its checkpoint
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { retryJob } from '@/lib/jobs';
+
+export async function POST(
+  _request: NextRequest,
+  context: { params: Promise<{ jobId: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+  }
+
+  const { jobId } = await context.params;
+
+  const retried = await retryJob(jobId);
+  if (!retried) {
+    return NextResponse.json({ success: false, error: 'Job not found or not dead' }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true, jobId });
+}
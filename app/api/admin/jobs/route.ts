@@ -0,0 +1,91 @@
+/**
+ * API: Job Queue
+ * GET  /api/admin/jobs - List jobs (optional ?status=pending|running|completed|dead&type=...)
+ * POST /api/admin/jobs - Enqueue a discovery run, enrichment batch or rescore
+ *
+ * Enqueued jobs are processed by the worker (/api/jobs/worker or scripts/job-worker.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  JOB_STATUSES,
+  JOB_TYPES,
+  listJobs,
+  countJobsByStatus,
+  enqueueJob,
+  jobEnqueueSchema,
+  type JobStatus,
+  type JobType,
+} from '@/lib/jobs';
+
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+  }
+
+  const status = request.nextUrl.searchParams.get('status');
+  if (status && !(JOB_STATUSES as readonly string[]).includes(status)) {
+    return NextResponse.json({ success: false, error: `Unknown status: ${status}` }, { status: 400 });
+  }
+
+  const type = request.nextUrl.searchParams.get('type');
+  if (type && !(JOB_TYPES as readonly string[]).includes(type)) {
+    return NextResponse.json({ success: false, error: `Unknown job type: ${type}` }, { status: 400 });
+  }
+
+  const [jobs, counts] = await Promise.all([
+    listJobs({
+      status: (status as JobStatus | null) ?? undefined,
+      type: (type as JobType | null) ?? undefined,
+    }),
+    countJobsByStatus(),
+  ]);
+
+  return NextResponse.json({ success: true, jobs, counts });
+}
+
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+  }
+
+  const userId = (session.user as { id?: string }).id;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const validation = jobEnqueueSchema.safeParse(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      { success: false, error: 'Validation failed', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const { type, payload } = validation.data;
+  const { job } = await enqueueJob(
+    type,
+    type === 'discovery_run' ? { ...payload, triggeredBy: 'manual' } : payload,
+    { createdById: userId }
+  );
+
+  return NextResponse.json({ success: true, job }, { status: 201 });
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { canonicalDomain } from "@/lib/companies";
 import { z } from "zod";
 
 // Validation schema for company update
@@ -107,7 +108,13 @@ export async function PUT(
     // Update company
     const company = await prisma.company.update({
       where: { id },
-      data: validationResult.data,
+      data: {
+        ...validationResult.data,
+        // Keep the dedup domain in step with the website
+        ...(validationResult.data.website !== undefined
+          ? { canonicalDomain: canonicalDomain(validationResult.data.website) }
+          : {}),
+      },
     });
 
     return NextResponse.json({ company }, { status: 200 });
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { canonicalDomain } from "@/lib/companies";
 import { Prisma } from "@prisma/client";
 import { z } from "zod";
 
@@ -108,6 +109,7 @@ export async function POST(request: NextRequest) {
       data: {
         name,
         website: website || null,
+        canonicalDomain: canonicalDomain(website),
         industry: industry || null,
         country: country || null,
         size: size || null,
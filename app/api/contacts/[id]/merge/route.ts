@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { mergeContacts, mergeRequestSchema } from "@/lib/merge";
+
+// POST /api/contacts/[id]/merge - Merge another contact into this one
+// Body: { mergedId, fields: { [field]: "survivor" | "merged" } }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    // Validate request body
+    const validationResult = mergeRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { mergedId, fields } = validationResult.data;
+
+    if (mergedId === id) {
+      return NextResponse.json(
+        { error: "Cannot merge a contact into itself" },
+        { status: 400 }
+      );
+    }
+
+    const [survivor, merged] = await Promise.all([
+      prisma.contact.findUnique({ where: { id } }),
+      prisma.contact.findUnique({ where: { id: mergedId } }),
+    ]);
+
+    if (!survivor || !merged) {
+      return NextResponse.json(
+        { error: "Contact not found" },
+        { status: 404 }
+      );
+    }
+
+    const userId = (session.user as { id?: string }).id;
+    const result = await mergeContacts(survivor, merged, fields, userId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error("Error merging contacts:", error);
+    return NextResponse.json(
+      { error: "Failed to merge contacts" },
+      { status: 500 }
+    );
+  }
+}
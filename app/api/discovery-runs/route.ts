@@ -1,7 +1,9 @@
 /**
  * API route for fetching discovery runs
  * 
- * GET /api/discovery-runs?scope=manual|automated|archived|all&showArchived=true|false
+ * GET /api/discovery-runs?scope=manual|automated|archived|all&showArchived=true|false&active=true
+ * 
+ * active=true returns only pending and running runs (live progress on the discovery page)
  * 
  * Scope filtering:
  * - manual: triggeredBy === 'manual' OR mode === 'manual'
@@ -45,6 +47,7 @@ export async function GET(request: NextRequest) {
     const scope = searchParams.get('scope') || 'all'; // manual | automated | archived | all
     const showArchived = searchParams.get('showArchived') === 'true';
     const includeArchived = searchParams.get('includeArchived') === 'true';
+    const activeOnly = searchParams.get('active') === 'true';
 
     // Build where clause
     const where: Prisma.DiscoveryRunWhereInput = {};
@@ -81,6 +84,10 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    if (activeOnly) {
+      where.status = { in: ['pending', 'running'] };
+    }
+
     const runs = await prisma.discoveryRun.findMany({
       where,
       orderBy: { startedAt: 'desc' },
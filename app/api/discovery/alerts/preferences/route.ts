@@ -0,0 +1,80 @@
+/**
+ * API: Discovery alert subscriptions of the signed-in user
+ * GET /api/discovery/alerts/preferences - Current settings (defaults if never saved)
+ * PUT /api/discovery/alerts/preferences - Save alert types and destinations
+ *
+ * Subscribed alerts go to the user's email address (if enabled and SMTP is
+ * configured) and to their personal webhook / Slack webhook.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { alertPreferencesSchema } from '@/lib/discovery/alerts';
+import { getNotificationPreference, saveNotificationPreference } from '@/lib/notifications';
+
+function toResponse(preference: Awaited<ReturnType<typeof getNotificationPreference>>) {
+  return {
+    alertTypes: preference?.alertTypes ?? [],
+    emailEnabled: preference?.emailEnabled ?? true,
+    webhookUrl: preference?.webhookUrl ?? null,
+    slackWebhookUrl: preference?.slackWebhookUrl ?? null,
+  };
+}
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+  }
+
+  const userId = (session.user as { id?: string }).id;
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'User ID not found in session' }, { status: 401 });
+  }
+
+  const preference = await getNotificationPreference(userId);
+
+  return NextResponse.json({ success: true, preferences: toResponse(preference) });
+}
+
+export async function PUT(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+  }
+
+  const userId = (session.user as { id?: string }).id;
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'User ID not found in session' }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const validation = alertPreferencesSchema.safeParse(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      { success: false, error: 'Validation failed', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const preference = await saveNotificationPreference(userId, validation.data);
+
+  return NextResponse.json({ success: true, preferences: toResponse(preference) });
+}
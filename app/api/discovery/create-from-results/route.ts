@@ -3,13 +3,14 @@
  * POST /api/discovery/create-from-results
  * 
  * Creates Company records from selected discovery results (e.g., from a preview run).
- * Deduplicates by website domain first, then by company name.
+ * Deduplicates by canonical website domain first, then by similar company name.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { canonicalDomain, findMatchingCompany } from '@/lib/companies';
 
 interface ResultToCreate {
   name: string;
@@ -74,31 +75,8 @@ export async function POST(request: NextRequest) {
     }
 
     try {
-      // Check for existing company by website domain
-      let existingCompany = null;
-      
-      if (result.website) {
-        // Normalize website for comparison
-        const normalizedWebsite = result.website.toLowerCase().replace(/^https?:\/\//, '').replace(/\/$/, '');
-        
-        existingCompany = await prisma.company.findFirst({
-          where: {
-            OR: [
-              { website: result.website },
-              { website: { contains: normalizedWebsite, mode: 'insensitive' } },
-            ],
-          },
-        });
-      }
-
-      // Fallback: check by name
-      if (!existingCompany && result.name) {
-        existingCompany = await prisma.company.findFirst({
-          where: {
-            name: { equals: result.name, mode: 'insensitive' },
-          },
-        });
-      }
+      // Check for existing company by canonical domain, then similar name
+      const existingCompany = await findMatchingCompany({ name: result.name, website: result.website });
 
       if (existingCompany) {
         companiesSkipped++;
@@ -110,6 +88,7 @@ export async function POST(request: NextRequest) {
         data: {
           name: result.name || new URL(result.website!).hostname.replace('www.', ''),
           website: result.website || null,
+          canonicalDomain: canonicalDomain(result.website),
           industry: result.industry || null,
           score: result.relevanceScore ? Math.round(result.relevanceScore) : 0,
           discoveryMetadata: {
@@ -0,0 +1,73 @@
+/**
+ * API: Single Discovery Domain List Entry
+ * PATCH  /api/discovery/domains/[id] - Change list type or reason
+ * DELETE /api/discovery/domains/[id] - Remove the domain from the list
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { updateDomainEntry, deleteDomainEntry, domainEntryUpdateSchema } from '@/lib/discovery/domains';
+
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+  }
+
+  const { id } = await context.params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const validation = domainEntryUpdateSchema.safeParse(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      { success: false, error: 'Validation failed', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const entry = await updateDomainEntry(id, validation.data);
+  if (!entry) {
+    return NextResponse.json({ success: false, error: 'Domain entry not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true, entry });
+}
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+  }
+
+  const { id } = await context.params;
+
+  const deleted = await deleteDomainEntry(id);
+  if (!deleted) {
+    return NextResponse.json({ success: false, error: 'Domain entry not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true, message: 'Domain removed from the list' });
+}
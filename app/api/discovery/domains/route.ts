@@ -0,0 +1,84 @@
+/**
+ * API: Discovery Domain List
+ * GET  /api/discovery/domains - List entries (optional ?listType=block|allow|competitor|customer)
+ * POST /api/discovery/domains - Add a domain, or move a listed domain to another list
+ *
+ * Block / competitor / customer domains are skipped by discovery; allow-listed
+ * domains are always kept.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  DOMAIN_LIST_TYPES,
+  listDomainEntries,
+  saveDomainEntry,
+  domainEntryCreateSchema,
+  type DomainListType,
+} from '@/lib/discovery/domains';
+
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+  }
+
+  const listType = request.nextUrl.searchParams.get('listType');
+  if (listType && !(DOMAIN_LIST_TYPES as readonly string[]).includes(listType)) {
+    return NextResponse.json({ success: false, error: `Unknown list type: ${listType}` }, { status: 400 });
+  }
+
+  const entries = await listDomainEntries((listType as DomainListType | null) ?? undefined);
+
+  return NextResponse.json({ success: true, entries });
+}
+
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+  }
+
+  const userId = (session.user as { id?: string }).id;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const validation = domainEntryCreateSchema.safeParse(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      { success: false, error: 'Validation failed', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const input = validation.data;
+  const result = await saveDomainEntry({
+    domain: input.domain,
+    listType: input.listType,
+    reason: input.reason,
+    source: input.runId ? 'run' : 'manual',
+    runId: input.runId,
+    createdById: userId,
+  });
+  if (!result.success) {
+    return NextResponse.json({ success: false, error: result.error }, { status: 400 });
+  }
+
+  return NextResponse.json({ success: true, domain: result.domain, listType: input.listType }, { status: 201 });
+}
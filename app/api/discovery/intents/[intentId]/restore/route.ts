@@ -0,0 +1,57 @@
+/**
+ * API: Restore a Discovery Intent Version
+ * POST /api/discovery/intents/[intentId]/restore
+ *
+ * Body: { version: number }
+ * Restoring copies the old snapshot into a new version, so history is never rewritten.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { restoreIntentVersion } from '@/lib/discovery/intents';
+
+const restoreSchema = z.object({
+  version: z.number().int().min(1),
+});
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ intentId: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+  }
+
+  const { intentId } = await context.params;
+  const userId = (session.user as { id?: string }).id;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const validation = restoreSchema.safeParse(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      { success: false, error: 'Validation failed', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const result = await restoreIntentVersion(intentId, validation.data.version, userId);
+  if (!result.success) {
+    return NextResponse.json({ success: false, error: result.error }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true, intent: result.intent });
+}
@@ -0,0 +1,108 @@
+/**
+ * API: Single Discovery Intent
+ * GET    /api/discovery/intents/[intentId] - Intent with version history
+ * PUT    /api/discovery/intents/[intentId] - Update intent (records a new version)
+ * DELETE /api/discovery/intents/[intentId] - Delete intent and its history
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  getIntentById,
+  getIntentVersions,
+  updateIntent,
+  deleteIntent,
+  intentUpdateSchema,
+} from '@/lib/discovery/intents';
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ intentId: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+  }
+
+  const { intentId } = await context.params;
+
+  const intent = await getIntentById(intentId);
+  if (!intent) {
+    return NextResponse.json({ success: false, error: 'Intent not found' }, { status: 404 });
+  }
+
+  const versions = await getIntentVersions(intentId);
+
+  return NextResponse.json({ success: true, intent, versions });
+}
+
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ intentId: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+  }
+
+  const { intentId } = await context.params;
+  const userId = (session.user as { id?: string }).id;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const validation = intentUpdateSchema.safeParse(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      { success: false, error: 'Validation failed', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const { changeNote, ...fields } = validation.data;
+  const result = await updateIntent(intentId, fields, userId, changeNote);
+  if (!result.success) {
+    return NextResponse.json({ success: false, error: result.error }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true, intent: result.intent });
+}
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ intentId: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+  }
+
+  const { intentId } = await context.params;
+
+  const result = await deleteIntent(intentId);
+  if (!result.success) {
+    return NextResponse.json({ success: false, error: result.error }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true, message: 'Intent deleted' });
+}
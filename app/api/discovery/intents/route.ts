@@ -0,0 +1,64 @@
+/**
+ * API: Discovery Intents
+ * GET  /api/discovery/intents - List all intents (including inactive)
+ * POST /api/discovery/intents - Create a new intent
+ *
+ * Intents are stored in the database; the code catalog is only used as seed data.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { listIntents, createIntent, intentCreateSchema } from '@/lib/discovery/intents';
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+  }
+
+  const intents = await listIntents({ includeInactive: true });
+
+  return NextResponse.json({ success: true, intents });
+}
+
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+  }
+
+  const userId = (session.user as { id?: string }).id;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const validation = intentCreateSchema.safeParse(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      { success: false, error: 'Validation failed', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const result = await createIntent(validation.data, userId);
+  if (!result.success) {
+    return NextResponse.json({ success: false, error: result.error }, { status: 409 });
+  }
+
+  return NextResponse.json({ success: true, intent: result.intent }, { status: 201 });
+}
@@ -0,0 +1,197 @@
+/**
+ * LinkedIn Export Import API
+ *
+ * POST /api/discovery/linkedin/import
+ *
+ * Runs the linkedin discovery channel against an uploaded Sales Navigator /
+ * Recruiter CSV export or a pasted lead list. The run is tracked as a manual
+ * DiscoveryRun and results go through the normal dedupe and persistence path.
+ * Requires authentication + admin role.
+ *
+ * Form fields:
+ * - file: CSV export (optional if content is given)
+ * - content: pasted lead list (optional if file is given)
+ * - dryRun: "true" to preview without creating records
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { discoveryRunner } from '@/lib/discovery/runner';
+import {
+  LINKEDIN_EXPORT_MAX_ROWS,
+  parseLinkedInExport,
+  type LinkedInExport,
+} from '@/lib/discovery/channels/linkedin';
+
+// Maximum upload size: 5MB
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+export async function POST(request: NextRequest) {
+  // 1. Check authentication
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { success: false, error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  // 2. Check for admin role (case-insensitive)
+  const userId = (session.user as { id?: string }).id;
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+
+  if (userRole !== 'admin') {
+    return NextResponse.json(
+      { success: false, error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  // 3. Check if discovery is enabled
+  if (!discoveryRunner.isEnabled()) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Discovery runner is disabled. Set DISCOVERY_RUNNER_ENABLED=true to enable.',
+      },
+      { status: 403 }
+    );
+  }
+
+  // 4. Read export (file upload or pasted list)
+  let linkedInExport: LinkedInExport;
+  let dryRun = false;
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const pasted = formData.get('content');
+    dryRun = formData.get('dryRun') === 'true';
+
+    if (file instanceof File && file.size > 0) {
+      if (file.size > MAX_FILE_SIZE) {
+        return NextResponse.json(
+          { success: false, error: 'File size exceeds 5MB limit' },
+          { status: 400 }
+        );
+      }
+      if (!/\.(csv|txt|tsv)$/i.test(file.name)) {
+        return NextResponse.json(
+          { success: false, error: 'Only CSV, TSV or TXT exports are allowed' },
+          { status: 400 }
+        );
+      }
+      linkedInExport = { content: await file.text(), fileName: file.name };
+    } else if (typeof pasted === 'string' && pasted.trim()) {
+      linkedInExport = { content: pasted };
+    } else {
+      return NextResponse.json(
+        { success: false, error: 'Upload a LinkedIn export or paste a lead list' },
+        { status: 400 }
+      );
+    }
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid form data' },
+      { status: 400 }
+    );
+  }
+
+  // 5. Check the export is readable before creating a run
+  const parsed = parseLinkedInExport(linkedInExport.content);
+  if (parsed.rows.length === 0) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'No people found in the export. Expected a header row with a name column (e.g. "First Name", "Name") and a company, title, email or LinkedIn URL column.',
+        parsed: { format: parsed.format, rows: 0, skipped: parsed.skipped.slice(0, 20) },
+      },
+      { status: 400 }
+    );
+  }
+
+  const intentName = `LinkedIn export: ${linkedInExport.fileName || 'pasted list'}`;
+
+  console.log(
+    JSON.stringify({
+      event: 'linkedin_import_started',
+      userId,
+      dryRun,
+      fileName: linkedInExport.fileName ?? null,
+      format: parsed.format,
+      rows: parsed.rows.length,
+      skipped: parsed.skipped.length,
+      timestamp: new Date().toISOString(),
+    })
+  );
+
+  // 6. Execute discovery run with the linkedin channel only
+  try {
+    const result = await discoveryRunner.run({
+      dryRun,
+      mode: 'manual',
+      triggeredBy: 'manual',
+      triggeredById: userId,
+      intentName,
+      channels: ['linkedin'],
+      linkedInExport,
+      maxCompanies: LINKEDIN_EXPORT_MAX_ROWS,
+      maxLeads: LINKEDIN_EXPORT_MAX_ROWS,
+      enableScraping: false,
+    });
+
+    console.log(
+      JSON.stringify({
+        event: 'linkedin_import_completed',
+        runId: result.runId,
+        success: result.success,
+        durationMs: result.stats.durationMs,
+        companiesCreated: result.stats.companiesCreated,
+        contactsCreated: result.stats.contactsCreated,
+        leadsCreated: result.stats.leadsCreated,
+        timestamp: new Date().toISOString(),
+      })
+    );
+
+    return NextResponse.json({
+      success: result.success,
+      runId: result.runId,
+      intentName,
+      dryRun,
+      status: result.status,
+      parsed: {
+        format: parsed.format,
+        rows: parsed.rows.length,
+        skipped: parsed.skipped.slice(0, 20),
+        truncated: parsed.rows.length > LINKEDIN_EXPORT_MAX_ROWS,
+      },
+      stats: {
+        totalDiscovered: result.stats.totalDiscovered,
+        companiesCreated: result.stats.companiesCreated,
+        companiesSkipped: result.stats.companiesSkipped,
+        contactsCreated: result.stats.contactsCreated,
+        contactsSkipped: result.stats.contactsSkipped,
+        leadsCreated: result.stats.leadsCreated,
+        durationMs: result.stats.durationMs,
+        errors: result.stats.errors,
+      },
+      error: result.error,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    console.error(
+      JSON.stringify({
+        event: 'linkedin_import_error',
+        error: errorMessage,
+        timestamp: new Date().toISOString(),
+      })
+    );
+
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -54,7 +54,7 @@ export async function GET(): Promise<NextResponse> {
   }
 
   // Return available intents
-  const intents = getActiveIntents().map((intent) => ({
+  const intents = (await getActiveIntents()).map((intent) => ({
     id: intent.id,
     name: intent.name,
     description: intent.description,
@@ -122,7 +122,7 @@ export async function POST(
     );
   }
 
-  const { intentId, overrides, dryRun = false } = body;
+  const { intentId, overrides, dryRun = false, reviewMode } = body;
 
   // 5. Validate intent ID
   if (!intentId) {
@@ -132,7 +132,7 @@ export async function POST(
     );
   }
 
-  const validation = validateIntentId(intentId);
+  const validation = await validateIntentId(intentId);
   if (!validation.valid) {
     return NextResponse.json(
       { success: false, error: validation.error || 'Invalid intent' },
@@ -141,7 +141,7 @@ export async function POST(
   }
 
   // 6. Apply intent with overrides
-  const resolvedConfig = applyIntentById(intentId, overrides);
+  const resolvedConfig = await applyIntentById(intentId, overrides);
   if (!resolvedConfig) {
     return NextResponse.json(
       { success: false, error: `Failed to resolve intent: ${intentId}` },
@@ -150,7 +150,7 @@ export async function POST(
   }
 
   // 6.1 Get analysis config for web scraping
-  const intent = getIntentById(intentId);
+  const intent = await getIntentById(intentId);
   const analysisConfig = intent ? getAnalysisConfigForIntent(intent) : undefined;
 
   // 7. Log the run
@@ -163,6 +163,7 @@ export async function POST(
       dryRun,
       queriesCount: resolvedConfig.queries.length,
       channels: resolvedConfig.channels,
+      searchProviders: resolvedConfig.searchProviders,
       timestamp: new Date().toISOString(),
     })
   );
@@ -171,13 +172,19 @@ export async function POST(
   try {
     const result = await discoveryRunner.run({
       dryRun,
+      reviewMode: reviewMode ?? resolvedConfig.requireReview,
       mode: 'manual',
       triggeredBy: 'manual',
       triggeredById: userId,
       intentId: resolvedConfig.intentId,
       intentName: resolvedConfig.intentName,
       queries: resolvedConfig.queries,
+      maxQueries: resolvedConfig.limits.maxQueries,
+      priorityRegions: resolvedConfig.priorityRegions,
       channels: resolvedConfig.channels,
+      searchProviders: resolvedConfig.searchProviders,
+      searchCacheTtlHours: resolvedConfig.searchCacheTtlHours,
+      crawlExhibitorLists: resolvedConfig.crawlExhibitorLists,
       maxCompanies: resolvedConfig.limits.maxCompanies,
       maxLeads: resolvedConfig.limits.maxLeads,
       timeBudgetMs: resolvedConfig.limits.timeBudgetMs,
@@ -190,6 +197,7 @@ export async function POST(
       // Snapshot intent config for run record (include actual keywords for UI)
       intentConfig: {
         intentId: resolvedConfig.intentId,
+        intentVersion: resolvedConfig.intentVersion,
         intentName: resolvedConfig.intentName,
         targetCountries: resolvedConfig.targetCountries,
         queriesCount: resolvedConfig.queries.length,
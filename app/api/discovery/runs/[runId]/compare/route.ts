@@ -0,0 +1,41 @@
+/**
+ * API: Compare discovery runs
+ * GET /api/discovery/runs/[runId]/compare?base=<runId>
+ *
+ * Diffs the run's results against the base run, or against the previous run
+ * of the same intent when no base is given: new domains, disappeared domains
+ * and changed relevance scores.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { compareRuns } from '@/lib/discovery/diff';
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ runId: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+  }
+
+  const { runId } = await context.params;
+  const baseRunId = request.nextUrl.searchParams.get('base') || undefined;
+
+  const comparison = await compareRuns(runId, baseRunId);
+  if (!comparison.success) {
+    return NextResponse.json(
+      { success: false, error: comparison.error },
+      { status: comparison.notFound ? 404 : 400 }
+    );
+  }
+
+  return NextResponse.json(comparison);
+}
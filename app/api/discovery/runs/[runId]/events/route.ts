@@ -0,0 +1,105 @@
+/**
+ * API: Live progress of a discovery run (Server-Sent Events)
+ * GET /api/discovery/runs/[runId]/events
+ *
+ * Streams the run's status and progress (phase, queries done, URLs scraped,
+ * results kept/filtered, event log) as `progress` events whenever they change,
+ * then a `done` event once the run has finished. The stream closes after
+ * STREAM_MAX_MS; EventSource reconnects and gets the current state again.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getRunProgressSnapshot, isRunActive } from '@/lib/discovery/runner';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+/** How often the run record is read */
+const POLL_INTERVAL_MS = 1000;
+
+/** Comment line sent when nothing changed, so proxies keep the connection open */
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/** Stream lifetime (below maxDuration) */
+const STREAM_MAX_MS = 240000;
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ runId: string }> }
+) {
+  // Auth check
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+  }
+
+  const { runId } = await context.params;
+
+  const initial = await getRunProgressSnapshot(runId);
+  if (!initial) {
+    return NextResponse.json({ success: false, error: 'Discovery run not found' }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const closeAt = Date.now() + STREAM_MAX_MS;
+      let snapshot: typeof initial | null = initial;
+      let lastSent = '';
+      let lastSentAt = Date.now();
+
+      try {
+        while (snapshot && !request.signal.aborted) {
+          const serialized = JSON.stringify(snapshot);
+          if (serialized !== lastSent) {
+            send('progress', snapshot);
+            lastSent = serialized;
+            lastSentAt = Date.now();
+          } else if (Date.now() - lastSentAt >= HEARTBEAT_INTERVAL_MS) {
+            controller.enqueue(encoder.encode(': heartbeat\n\n'));
+            lastSentAt = Date.now();
+          }
+
+          if (!isRunActive(snapshot.status)) {
+            send('done', { runId, status: snapshot.status });
+            break;
+          }
+          if (Date.now() >= closeAt) {
+            break;
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+          snapshot = await getRunProgressSnapshot(runId);
+        }
+      } catch (error) {
+        console.error(`[DiscoveryRunEvents] Stream for run ${runId} failed:`, error);
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client disconnecting
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
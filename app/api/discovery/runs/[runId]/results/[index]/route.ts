@@ -0,0 +1,90 @@
+/**
+ * API: Review a Discovery Result
+ * PATCH /api/discovery/runs/[runId]/results/[index]
+ *
+ * Accept, reject or snooze one result of a review-mode run or dry run
+ * ([index] is the result's position in resultsJson).
+ *
+ * Body:
+ * - { action: 'accept', edits?: { name, website, industry } }
+ * - { action: 'reject', reason, blockDomain?, excludeKeyword? }
+ * - { action: 'snooze', days, reason? }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  acceptResult,
+  rejectResult,
+  snoozeResult,
+  resultReviewSchema,
+} from '@/lib/discovery/review';
+
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ runId: string; index: string }> }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+  }
+
+  const { runId, index: indexParam } = await context.params;
+  const index = Number(indexParam);
+  if (!Number.isInteger(index) || index < 0) {
+    return NextResponse.json({ success: false, error: 'Invalid result index' }, { status: 400 });
+  }
+
+  const userId = (session.user as { id?: string }).id;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const validation = resultReviewSchema.safeParse(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      { success: false, error: 'Validation failed', details: validation.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const input = validation.data;
+  try {
+    const result =
+      input.action === 'accept'
+        ? await acceptResult(runId, index, input.edits, userId)
+        : input.action === 'reject'
+          ? await rejectResult(
+              runId,
+              index,
+              { reason: input.reason, blockDomain: input.blockDomain, excludeKeyword: input.excludeKeyword },
+              userId
+            )
+          : await snoozeResult(runId, index, { days: input.days, reason: input.reason }, userId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.notFound ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error(`Error reviewing result ${index} of discovery run ${runId}:`, error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to review discovery result' },
+      { status: 500 }
+    );
+  }
+}
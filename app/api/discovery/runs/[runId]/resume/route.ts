@@ -0,0 +1,78 @@
+/**
+ * API: Resume a discovery run
+ * POST /api/discovery/runs/[runId]/resume
+ *
+ * Queues a continuation of a run that stopped on its time budget: the job
+ * worker runs the queries it did not reach and skips the sites it already
+ * scraped. A run is continued at most once; while a resume job for it is
+ * pending or running, another request returns 409.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getRunResumeState } from '@/lib/discovery/runner';
+import { enqueueRunResume } from '@/lib/jobs';
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ runId: string }> }
+) {
+  // Auth check
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+  }
+
+  const { runId } = await context.params;
+  const userId = (session.user as { id?: string }).id;
+
+  const state = await getRunResumeState(runId);
+  if (!state) {
+    return NextResponse.json({ success: false, error: 'Discovery run not found' }, { status: 404 });
+  }
+
+  if (!state.checkpoint) {
+    return NextResponse.json(
+      { success: false, error: 'This run has no queries left to resume' },
+      { status: 400 }
+    );
+  }
+
+  if (state.continuationRunId) {
+    return NextResponse.json(
+      { success: false, error: 'This run was already resumed', continuationRunId: state.continuationRunId },
+      { status: 400 }
+    );
+  }
+
+  const { job, queued } = await enqueueRunResume(runId, { triggeredBy: 'manual', createdById: userId });
+  if (!queued) {
+    return NextResponse.json(
+      { success: false, error: `A resume of this run is already ${job.status}`, jobId: job.id, jobStatus: job.status },
+      { status: 409 }
+    );
+  }
+
+  console.log(
+    JSON.stringify({
+      event: 'discovery_run_resume_requested',
+      runId,
+      jobId: job.id,
+      pendingQueries: state.checkpoint.pendingQueries.length,
+      requestedBy: userId,
+      timestamp: new Date().toISOString(),
+    })
+  );
+
+  return NextResponse.json({
+    success: true,
+    jobId: job.id,
+    message: 'Resume queued. The job worker will continue the run shortly.',
+  });
+}
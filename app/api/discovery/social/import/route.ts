@@ -0,0 +1,207 @@
+/**
+ * Social Event Page Import API
+ *
+ * POST /api/discovery/social/import
+ *
+ * Runs the social discovery channel against event / business pages saved as
+ * HTML (Facebook event pages, Facebook / Instagram business pages, expo
+ * exhibitor lists). The run is tracked as a manual DiscoveryRun and results
+ * go through the normal dedupe and persistence path.
+ * Requires authentication + admin role.
+ *
+ * Form fields:
+ * - files: one or more saved .html / .htm pages
+ * - dryRun: "true" to preview without creating records
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { discoveryRunner } from '@/lib/discovery/runner';
+import { parseEventListing, type SocialEventPage } from '@/lib/discovery/channels/social';
+
+// Maximum upload size per page: 5MB
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+// Maximum pages per upload
+const MAX_FILES = 20;
+
+// Maximum companies created per upload
+const MAX_COMPANIES = 500;
+
+export async function POST(request: NextRequest) {
+  // 1. Check authentication
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { success: false, error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  // 2. Check for admin role (case-insensitive)
+  const userId = (session.user as { id?: string }).id;
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+
+  if (userRole !== 'admin') {
+    return NextResponse.json(
+      { success: false, error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  // 3. Check if discovery is enabled
+  if (!discoveryRunner.isEnabled()) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Discovery runner is disabled. Set DISCOVERY_RUNNER_ENABLED=true to enable.',
+      },
+      { status: 403 }
+    );
+  }
+
+  // 4. Read saved pages
+  const pages: SocialEventPage[] = [];
+  let dryRun = false;
+  try {
+    const formData = await request.formData();
+    const files = formData.getAll('files').filter((file): file is File => file instanceof File && file.size > 0);
+    dryRun = formData.get('dryRun') === 'true';
+
+    if (files.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Upload at least one saved HTML page' },
+        { status: 400 }
+      );
+    }
+    if (files.length > MAX_FILES) {
+      return NextResponse.json(
+        { success: false, error: `Upload at most ${MAX_FILES} pages at a time` },
+        { status: 400 }
+      );
+    }
+
+    for (const file of files) {
+      if (file.size > MAX_FILE_SIZE) {
+        return NextResponse.json(
+          { success: false, error: `${file.name} exceeds 5MB limit` },
+          { status: 400 }
+        );
+      }
+      if (!/\.(html?|xhtml)$/i.test(file.name)) {
+        return NextResponse.json(
+          { success: false, error: `${file.name}: only saved HTML pages are allowed` },
+          { status: 400 }
+        );
+      }
+      pages.push({ html: await file.text(), name: file.name });
+    }
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid form data' },
+      { status: 400 }
+    );
+  }
+
+  // 5. Check the pages contain companies before creating a run
+  const parsedPages = pages.map((page) => {
+    const listing = parseEventListing(page.html, page.url);
+    return {
+      fileName: page.name,
+      pageType: listing.pageType,
+      eventName: listing.eventName,
+      eventDate: listing.eventDate,
+      companies: listing.companies.length,
+    };
+  });
+  const companiesFound = parsedPages.reduce((sum, page) => sum + page.companies, 0);
+
+  if (companiesFound === 0) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'No exhibitors, sponsors or organizers found in the uploaded pages.',
+        parsed: { pages: parsedPages, companies: 0 },
+      },
+      { status: 400 }
+    );
+  }
+
+  const intentName =
+    pages.length === 1
+      ? `Social import: ${parsedPages[0].eventName || pages[0].name}`
+      : `Social import: ${pages.length} pages`;
+
+  console.log(
+    JSON.stringify({
+      event: 'social_import_started',
+      userId,
+      dryRun,
+      pages: pages.length,
+      companiesFound,
+      timestamp: new Date().toISOString(),
+    })
+  );
+
+  // 6. Execute discovery run with the social channel only (configured sources are not fetched)
+  try {
+    const result = await discoveryRunner.run({
+      dryRun,
+      mode: 'manual',
+      triggeredBy: 'manual',
+      triggeredById: userId,
+      intentName,
+      channels: ['social'],
+      socialPages: pages,
+      maxCompanies: MAX_COMPANIES,
+      maxLeads: MAX_COMPANIES,
+      enableScraping: false,
+    });
+
+    console.log(
+      JSON.stringify({
+        event: 'social_import_completed',
+        runId: result.runId,
+        success: result.success,
+        durationMs: result.stats.durationMs,
+        companiesCreated: result.stats.companiesCreated,
+        companiesSkipped: result.stats.companiesSkipped,
+        timestamp: new Date().toISOString(),
+      })
+    );
+
+    return NextResponse.json({
+      success: result.success,
+      runId: result.runId,
+      intentName,
+      dryRun,
+      status: result.status,
+      parsed: { pages: parsedPages, companies: companiesFound },
+      stats: {
+        totalDiscovered: result.stats.totalDiscovered,
+        companiesCreated: result.stats.companiesCreated,
+        companiesSkipped: result.stats.companiesSkipped,
+        durationMs: result.stats.durationMs,
+        errors: result.stats.errors,
+      },
+      error: result.error,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    console.error(
+      JSON.stringify({
+        event: 'social_import_error',
+        error: errorMessage,
+        timestamp: new Date().toISOString(),
+      })
+    );
+
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { duplicateReviewSchema, reviewDuplicate } from "@/lib/duplicates";
+
+// PATCH /api/duplicates/[id] - Review a duplicate candidate
+// Body: { action: "not_duplicate" | "merge" }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    // Validate request body
+    const validationResult = duplicateReviewSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const userId = (session.user as { id?: string }).id;
+    const result = await reviewDuplicate(id, validationResult.data.action, userId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.notFound ? 404 : result.alreadyReviewed ? 409 : 500 }
+      );
+    }
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error("Error reviewing duplicate:", error);
+    return NextResponse.json(
+      { error: "Failed to review duplicate" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { detectDuplicates, duplicateScanSchema } from "@/lib/duplicates";
+
+// POST /api/duplicates/scan - Run duplicate detection now ("Scan now")
+// Body (optional): { entityTypes: ("company" | "contact" | "lead")[] }
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const text = await request.text();
+    const validationResult = duplicateScanSchema.safeParse(text ? JSON.parse(text) : {});
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: validationResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await detectDuplicates({ entityTypes: validationResult.data.entityTypes });
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error("Error scanning for duplicates:", error);
+    return NextResponse.json(
+      { error: "Failed to scan for duplicates" },
+      { status: 500 }
+    );
+  }
+}
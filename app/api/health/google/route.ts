@@ -4,11 +4,13 @@
  * GET /api/health/google
  * 
  * Returns Google CSE configuration status (safe, never returns secrets).
+ * Also reports the status of all search providers (Google CSE, Bing, Brave, SerpAPI).
  * Used for diagnostics and UI feedback.
  */
 
 import { NextResponse } from 'next/server';
 import { getConfigStatus } from '@/lib/discovery/google/googleConfig';
+import { getSearchProvidersStatus, isAnySearchProviderConfigured } from '@/lib/discovery/search';
 
 /**
  * GET - Check Google CSE configuration status
@@ -26,6 +28,8 @@ export async function GET(): Promise<NextResponse> {
       apiKeyPresent: status.apiKeyPresent,
       cseIdPresent: status.cseIdPresent,
       quotaStatus,
+      searchConfigured: isAnySearchProviderConfigured(),
+      searchProviders: getSearchProvidersStatus(),
     });
   } catch (error) {
     const errorMessage =
@@ -36,6 +40,7 @@ export async function GET(): Promise<NextResponse> {
         apiKeyPresent: false,
         cseIdPresent: false,
         quotaStatus: 'unknown' as const,
+        searchConfigured: false,
         error: errorMessage,
       },
       { status: 500 }
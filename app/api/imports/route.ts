@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { canonicalDomain, findMatchingCompany } from "@/lib/companies";
 import Papa from "papaparse";
 
 // Maximum file size: 10MB
@@ -110,29 +111,35 @@ export async function POST(request: NextRequest) {
               throw new Error("Company name is required");
             }
 
-            // Check if company exists (case-insensitive)
-            const existing = await prisma.company.findFirst({
-              where: {
-                name: {
-                  equals: row.name.trim(),
-                  mode: "insensitive",
-                },
-              },
+            // Check if company exists (same canonical domain, or similar name)
+            const existing = await findMatchingCompany({
+              name: row.name.trim(),
+              website: row.website?.trim(),
             });
 
             const companyData = {
               name: row.name.trim(),
               website: row.website?.trim() || null,
+              canonicalDomain: canonicalDomain(row.website),
               industry: row.industry?.trim() || null,
               country: row.country?.trim() || null,
               size: row.size?.trim() || null,
             };
 
             if (existing) {
-              // Update existing company
+              // Update existing company with the columns filled in the row only. It keeps its
+              // name ("ACME" must not rename "Acme (Pty) Ltd") and, for a name-similarity match,
+              // empty columns must not erase its website or details.
               await prisma.company.update({
-                where: { id: existing.id },
-                data: companyData,
+                where: { id: existing.company.id },
+                data: {
+                  ...(companyData.website
+                    ? { website: companyData.website, canonicalDomain: companyData.canonicalDomain }
+                    : {}),
+                  ...(companyData.industry ? { industry: companyData.industry } : {}),
+                  ...(companyData.country ? { country: companyData.country } : {}),
+                  ...(companyData.size ? { size: companyData.size } : {}),
+                },
               });
             } else {
               // Create new company
@@ -172,14 +179,9 @@ export async function POST(request: NextRequest) {
             // Find or create company
             let companyId: string | null = null;
             if (row.companyName && row.companyName.trim() !== "") {
-              let company = await prisma.company.findFirst({
-                where: {
-                  name: {
-                    equals: row.companyName.trim(),
-                    mode: "insensitive",
-                  },
-                },
-              });
+              // Similar names match an existing company
+              const match = await findMatchingCompany({ name: row.companyName.trim() });
+              let company = match?.company;
 
               if (!company) {
                 // Create company with just the name
@@ -276,14 +278,9 @@ export async function POST(request: NextRequest) {
             // Find or create company
             let companyId: string | null = null;
             if (row.companyName && row.companyName.trim() !== "") {
-              let company = await prisma.company.findFirst({
-                where: {
-                  name: {
-                    equals: row.companyName.trim(),
-                    mode: "insensitive",
-                  },
-                },
-              });
+              // Similar names match an existing company
+              const match = await findMatchingCompany({ name: row.companyName.trim() });
+              let company = match?.company;
 
               if (!company) {
                 // Create company with just the name
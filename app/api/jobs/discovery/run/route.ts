@@ -7,11 +7,14 @@
  * Can be called by Vercel Cron or manually with correct secret.
  * 
  * Daily runs execute multiple intents sequentially with per-intent limits.
+ * Runs that stop on their time budget with queries left get a continuation
+ * job queued (see lib/jobs), which resumes them from their checkpoint.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import {
   discoveryRunner,
+  runIntentDiscovery,
   type DiscoveryJobRequest,
   type DiscoveryJobResponse,
   type DiscoveryJobErrorResponse,
@@ -20,11 +23,9 @@ import {
   getDailyIntentIds,
   getDailyPerIntentLimits,
 } from '@/lib/discovery/runner/config';
-import {
-  getIntentById,
-  applyIntentById,
-  getAnalysisConfigForIntent,
-} from '@/lib/discovery/intents';
+import { getIntentById } from '@/lib/discovery/intents';
+import { purgeExpiredSearchResults } from '@/lib/discovery/search';
+import { enqueueRunContinuation } from '@/lib/jobs';
 
 /**
  * Verify request authentication
@@ -50,15 +51,15 @@ function isAuthorized(request: NextRequest): boolean {
 }
 
 /**
- * Run discovery for a single intent
+ * Run discovery for a single intent (skips missing/inactive intents)
  */
-async function runIntentDiscovery(
+async function runDailyIntent(
   intentId: string,
   dryRun: boolean,
   triggeredBy: string,
   perIntentLimits: ReturnType<typeof getDailyPerIntentLimits>
 ) {
-  const intent = getIntentById(intentId);
+  const intent = await getIntentById(intentId);
   if (!intent) {
     console.warn(`[DiscoveryJob] Intent not found: ${intentId}`);
     return null;
@@ -69,64 +70,7 @@ async function runIntentDiscovery(
     return null;
   }
 
-  const resolved = applyIntentById(intentId);
-  if (!resolved) {
-    console.warn(`[DiscoveryJob] Failed to resolve intent: ${intentId}`);
-    return null;
-  }
-
-  const analysisConfig = getAnalysisConfigForIntent(intent);
-
-  console.log(
-    JSON.stringify({
-      event: 'discovery_intent_started',
-      intentId,
-      intentName: resolved.intentName,
-      queriesCount: Math.min(resolved.queries.length, perIntentLimits.maxQueries),
-      dryRun,
-      timestamp: new Date().toISOString(),
-    })
-  );
-
-  const result = await discoveryRunner.run({
-    dryRun,
-    mode: 'daily',
-    triggeredBy,
-    intentId: resolved.intentId,
-    intentName: resolved.intentName,
-    queries: resolved.queries.slice(0, perIntentLimits.maxQueries),
-    channels: resolved.channels,
-    maxCompanies: perIntentLimits.maxCompanies,
-    maxLeads: perIntentLimits.maxLeads,
-    timeBudgetMs: 60000, // 60 seconds per intent
-    enableScraping: true,
-    analysisConfig,
-    includeKeywords: resolved.includeKeywords,
-    excludeKeywords: resolved.excludeKeywords,
-    intentConfig: {
-      intentId: resolved.intentId,
-      intentName: resolved.intentName,
-      targetCountries: resolved.targetCountries,
-      queriesCount: resolved.queries.length,
-      includeKeywordsCount: resolved.includeKeywords.length,
-      excludeKeywordsCount: resolved.excludeKeywords.length,
-    },
-  });
-
-  console.log(
-    JSON.stringify({
-      event: 'discovery_intent_completed',
-      intentId,
-      runId: result.runId,
-      success: result.success,
-      companiesCreated: result.stats.companiesCreated,
-      leadsCreated: result.stats.leadsCreated,
-      durationMs: result.stats.durationMs,
-      timestamp: new Date().toISOString(),
-    })
-  );
-
-  return result;
+  return runIntentDiscovery(intent, { dryRun, triggeredBy, perIntentLimits });
 }
 
 /**
@@ -208,14 +152,17 @@ export async function POST(
         totalLeadsCreated: 0,
         totalDiscovered: 0,
         totalDurationMs: 0,
+        searchCacheHits: 0,
+        searchPaidApiCalls: 0,
         runIds: [] as string[],
+        continuationJobIds: [] as string[],
         errors: [] as string[],
       };
 
       // Run each intent sequentially
       for (const intentId of intentIds) {
         try {
-          const result = await runIntentDiscovery(
+          const result = await runDailyIntent(
             intentId,
             dryRun,
             triggeredBy,
@@ -227,6 +174,18 @@ export async function POST(
             aggregatedStats.runIds.push(result.runId);
             aggregatedStats.totalDurationMs += result.stats.durationMs;
             aggregatedStats.totalDiscovered += result.stats.totalDiscovered;
+            aggregatedStats.searchCacheHits += result.stats.searchCache?.cacheHits ?? 0;
+            aggregatedStats.searchPaidApiCalls += result.stats.searchCache?.paidApiCalls ?? 0;
+
+            // Queries left on the time budget are continued by the job worker
+            try {
+              const jobId = await enqueueRunContinuation(result, triggeredBy);
+              if (jobId) {
+                aggregatedStats.continuationJobIds.push(jobId);
+              }
+            } catch (error) {
+              console.warn(`[DiscoveryJob] Could not queue continuation of run ${result.runId}:`, error instanceof Error ? error.message : error);
+            }
 
             if (result.success) {
               aggregatedStats.successfulRuns++;
@@ -248,6 +207,13 @@ export async function POST(
         }
       }
 
+      // Housekeeping: drop expired search cache entries
+      try {
+        await purgeExpiredSearchResults();
+      } catch (error) {
+        console.warn('[DiscoveryJob] Search cache purge failed:', error instanceof Error ? error.message : error);
+      }
+
       console.log(
         JSON.stringify({
           event: 'discovery_job_completed',
@@ -258,6 +224,9 @@ export async function POST(
           totalCompaniesCreated: aggregatedStats.totalCompaniesCreated,
           totalLeadsCreated: aggregatedStats.totalLeadsCreated,
           totalDurationMs: aggregatedStats.totalDurationMs,
+          searchCacheHits: aggregatedStats.searchCacheHits,
+          searchPaidApiCalls: aggregatedStats.searchPaidApiCalls,
+          continuationJobs: aggregatedStats.continuationJobIds.length,
           timestamp: new Date().toISOString(),
         })
       );
@@ -0,0 +1,135 @@
+/**
+ * Phase 5A - Discovery Scheduler Tick API Route
+ *
+ * GET/POST /api/jobs/discovery/tick
+ *
+ * Secured endpoint called frequently by Vercel Cron (see vercel.json).
+ * Launches only the intents whose schedule is due, within the global
+ * daily query budget (DISCOVERY_DAILY_QUERY_BUDGET). Intents skipped
+ * because of the budget are recorded as runs with status "skipped_budget".
+ * With DISCOVERY_USE_JOB_QUEUE=true due intents are queued as jobs for
+ * /api/jobs/worker instead of running inside this request.
+ *
+ * POST body (optional): { dryRun: true } evaluates schedules and budget
+ * without launching or recording anything.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { discoveryRunner } from '@/lib/discovery/runner';
+import { runSchedulerTick } from '@/lib/discovery/scheduler';
+import { purgeExpiredSearchResults } from '@/lib/discovery/search';
+
+/**
+ * Verify request authentication
+ * Accepts either Vercel Cron header or custom secret header
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const isVercelCron = request.headers.get('x-vercel-cron') === '1';
+  if (isVercelCron) {
+    return true;
+  }
+
+  const secretHeader = request.headers.get('x-job-secret');
+  const expectedSecret = process.env.CRON_JOB_SECRET;
+
+  if (!expectedSecret) {
+    console.error('[DiscoveryScheduler] CRON_JOB_SECRET not configured');
+    return false;
+  }
+
+  return secretHeader === expectedSecret;
+}
+
+async function handleTick(request: NextRequest, dryRun: boolean) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!discoveryRunner.isEnabled()) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Discovery runner is disabled. Set DISCOVERY_RUNNER_ENABLED=true to enable.',
+      },
+      { status: 403 }
+    );
+  }
+
+  const isVercelCron = request.headers.get('x-vercel-cron') === '1';
+
+  try {
+    const result = await runSchedulerTick({
+      dryRun,
+      triggeredBy: isVercelCron ? 'cron' : 'scheduler',
+    });
+
+    // Housekeeping: drop expired search cache entries
+    if (!dryRun) {
+      try {
+        await purgeExpiredSearchResults();
+      } catch (error) {
+        console.warn('[DiscoveryScheduler] Search cache purge failed:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    const launched = result.intents.filter((i) => i.action === 'launched').length;
+    const queued = result.intents.filter((i) => i.action === 'queued').length;
+    const skippedBudget = result.intents.filter((i) => i.action === 'skipped_budget').length;
+    const failed = result.intents.filter(
+      (i) => i.action === 'failed' || (i.action === 'launched' && i.success === false)
+    ).length;
+
+    console.log(
+      JSON.stringify({
+        event: 'discovery_scheduler_tick',
+        dryRun,
+        launched,
+        queued,
+        skippedBudget,
+        failed,
+        queryBudget: result.queryBudget,
+        queriesUsedBefore: result.queriesUsedBefore,
+        queriesUsedAfter: result.queriesUsedAfter,
+        timestamp: new Date().toISOString(),
+      })
+    );
+
+    return NextResponse.json({ success: failed === 0, ...result });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    console.error(
+      JSON.stringify({
+        event: 'discovery_scheduler_error',
+        error: errorMessage,
+        timestamp: new Date().toISOString(),
+      })
+    );
+
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
+
+/**
+ * GET handler (Vercel Cron issues GET requests)
+ */
+export async function GET(request: NextRequest) {
+  return handleTick(request, false);
+}
+
+/**
+ * POST handler (manual trigger, supports { dryRun })
+ */
+export async function POST(request: NextRequest) {
+  let dryRun = false;
+  try {
+    const text = await request.text();
+    if (text) {
+      dryRun = JSON.parse(text).dryRun === true;
+    }
+  } catch {
+    // Empty or invalid body: use defaults
+  }
+
+  return handleTick(request, dryRun);
+}
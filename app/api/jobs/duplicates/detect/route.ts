@@ -0,0 +1,92 @@
+/**
+ * Duplicate Detection Job API Route
+ *
+ * GET/POST /api/jobs/duplicates/detect
+ *
+ * Secured endpoint called by Vercel Cron (see vercel.json).
+ * Scans companies, contacts and leads for likely duplicates and updates the
+ * review queue at /dashboard/duplicates.
+ *
+ * POST body (optional): { dryRun: true } counts pairs without writing the queue.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { detectDuplicates } from '@/lib/duplicates';
+
+/**
+ * Verify request authentication
+ * Accepts either Vercel Cron header or custom secret header
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const isVercelCron = request.headers.get('x-vercel-cron') === '1';
+  if (isVercelCron) {
+    return true;
+  }
+
+  const secretHeader = request.headers.get('x-job-secret');
+  const expectedSecret = process.env.CRON_JOB_SECRET;
+
+  if (!expectedSecret) {
+    console.error('[DuplicateDetection] CRON_JOB_SECRET not configured');
+    return false;
+  }
+
+  return secretHeader === expectedSecret;
+}
+
+async function handleDetect(request: NextRequest, dryRun: boolean) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await detectDuplicates({ dryRun });
+
+    console.log(
+      JSON.stringify({
+        event: 'duplicates_detected',
+        dryRun,
+        byType: result.byType,
+        timestamp: new Date().toISOString(),
+      })
+    );
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    console.error(
+      JSON.stringify({
+        event: 'duplicates_detect_error',
+        error: errorMessage,
+        timestamp: new Date().toISOString(),
+      })
+    );
+
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
+
+/**
+ * GET handler (Vercel Cron issues GET requests)
+ */
+export async function GET(request: NextRequest) {
+  return handleDetect(request, false);
+}
+
+/**
+ * POST handler (manual trigger, supports { dryRun })
+ */
+export async function POST(request: NextRequest) {
+  let dryRun = false;
+  try {
+    const text = await request.text();
+    if (text) {
+      dryRun = JSON.parse(text).dryRun === true;
+    }
+  } catch {
+    // Empty or invalid body: use defaults
+  }
+
+  return handleDetect(request, dryRun);
+}
@@ -0,0 +1,93 @@
+/**
+ * Tender Deadline Job API Route
+ *
+ * GET/POST /api/jobs/leads/expire-tenders
+ *
+ * Secured endpoint called by Vercel Cron (see vercel.json).
+ * Moves tender leads whose closing date has passed without reaching
+ * 'proposal' to status 'lost'.
+ *
+ * POST body (optional): { dryRun: true } lists the leads that would be moved.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { expireClosedTenderLeads } from '@/lib/lead-management/expireTenderLeads';
+
+/**
+ * Verify request authentication
+ * Accepts either Vercel Cron header or custom secret header
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const isVercelCron = request.headers.get('x-vercel-cron') === '1';
+  if (isVercelCron) {
+    return true;
+  }
+
+  const secretHeader = request.headers.get('x-job-secret');
+  const expectedSecret = process.env.CRON_JOB_SECRET;
+
+  if (!expectedSecret) {
+    console.error('[TenderDeadlines] CRON_JOB_SECRET not configured');
+    return false;
+  }
+
+  return secretHeader === expectedSecret;
+}
+
+async function handleExpire(request: NextRequest, dryRun: boolean) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await expireClosedTenderLeads({ dryRun });
+
+    console.log(
+      JSON.stringify({
+        event: 'tender_leads_expired',
+        dryRun,
+        expired: result.expired.length,
+        leadIds: result.expired.map((lead) => lead.id),
+        timestamp: new Date().toISOString(),
+      })
+    );
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    console.error(
+      JSON.stringify({
+        event: 'tender_leads_expire_error',
+        error: errorMessage,
+        timestamp: new Date().toISOString(),
+      })
+    );
+
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
+
+/**
+ * GET handler (Vercel Cron issues GET requests)
+ */
+export async function GET(request: NextRequest) {
+  return handleExpire(request, false);
+}
+
+/**
+ * POST handler (manual trigger, supports { dryRun })
+ */
+export async function POST(request: NextRequest) {
+  let dryRun = false;
+  try {
+    const text = await request.text();
+    if (text) {
+      dryRun = JSON.parse(text).dryRun === true;
+    }
+  } catch {
+    // Empty or invalid body: use defaults
+  }
+
+  return handleExpire(request, dryRun);
+}
@@ -0,0 +1,103 @@
+/**
+ * Job Worker API Route
+ *
+ * GET/POST /api/jobs/worker
+ *
+ * Secured endpoint called by Vercel Cron (see vercel.json). Processes queued
+ * jobs (discovery runs, enrichment batches, rescoring) chunk by chunk until
+ * the queue is empty or JOB_WORKER_MAX_RUNTIME_SECONDS (default 240) is used
+ * up. Unfinished jobs keep their checkpoint and continue on the next call.
+ *
+ * POST body (optional): { types: ["rescore", ...] } only processes those job types.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { JOB_TYPES, getJobWorkerMaxRuntimeSeconds, runWorker, type JobType } from '@/lib/jobs';
+
+export const maxDuration = 300;
+
+/**
+ * Verify request authentication
+ * Accepts either Vercel Cron header or custom secret header
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const isVercelCron = request.headers.get('x-vercel-cron') === '1';
+  if (isVercelCron) {
+    return true;
+  }
+
+  const secretHeader = request.headers.get('x-job-secret');
+  const expectedSecret = process.env.CRON_JOB_SECRET;
+
+  if (!expectedSecret) {
+    console.error('[JobWorker] CRON_JOB_SECRET not configured');
+    return false;
+  }
+
+  return secretHeader === expectedSecret;
+}
+
+async function handleWorker(request: NextRequest, types?: JobType[]) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const summary = await runWorker({
+      workerId: `api-${randomUUID()}`,
+      maxRuntimeMs: getJobWorkerMaxRuntimeSeconds() * 1000,
+      types,
+      stopWhenIdle: true,
+    });
+
+    console.log(
+      JSON.stringify({
+        event: 'job_worker_completed',
+        ...summary,
+        timestamp: new Date().toISOString(),
+      })
+    );
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    console.error(
+      JSON.stringify({
+        event: 'job_worker_error',
+        error: errorMessage,
+        timestamp: new Date().toISOString(),
+      })
+    );
+
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
+
+/**
+ * GET handler (Vercel Cron issues GET requests)
+ */
+export async function GET(request: NextRequest) {
+  return handleWorker(request);
+}
+
+/**
+ * POST handler (manual trigger, supports { types })
+ */
+export async function POST(request: NextRequest) {
+  let types: JobType[] | undefined;
+  try {
+    const text = await request.text();
+    if (text) {
+      const requested = JSON.parse(text).types;
+      if (Array.isArray(requested)) {
+        types = requested.filter((type): type is JobType => (JOB_TYPES as readonly string[]).includes(type));
+      }
+    }
+  } catch {
+    // Empty or invalid body: use defaults
+  }
+
+  return handleWorker(request, types);
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
 import { z } from "zod";
 
 // Validation schema for lead update (all fields optional)
@@ -16,6 +17,11 @@ const leadUpdateSchema = z.object({
   source: z.string().optional().nullable(),
   companyId: z.string().optional().nullable(),
   contactId: z.string().optional().nullable(),
+  tenderNumber: z.string().optional().nullable(),
+  tenderIssuingBody: z.string().optional().nullable(),
+  tenderClosingDate: z.coerce.date().optional().nullable(),
+  tenderBriefingDate: z.coerce.date().optional().nullable(),
+  tenderDocumentUrls: z.array(z.string().url("Tender document links must be valid URLs")).optional().nullable(),
 });
 
 // GET /api/leads/[id] - Get single lead by ID
@@ -99,7 +105,7 @@ export async function PUT(
       );
     }
 
-    const updateData = validationResult.data;
+    const { tenderDocumentUrls, ...updateData } = validationResult.data;
 
     // Verify company exists if companyId provided
     if (updateData.companyId !== undefined && updateData.companyId !== null) {
@@ -132,7 +138,13 @@ export async function PUT(
     // Update lead
     const lead = await prisma.lead.update({
       where: { id },
-      data: updateData,
+      data: {
+        ...updateData,
+        ...(tenderDocumentUrls !== undefined && {
+          tenderDocumentUrls:
+            tenderDocumentUrls && tenderDocumentUrls.length > 0 ? tenderDocumentUrls : Prisma.JsonNull,
+        }),
+      },
       include: {
         companyRel: true,
         contactRel: true,
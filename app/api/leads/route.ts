@@ -17,6 +17,11 @@ const leadSchema = z.object({
   source: z.string().optional().nullable(),
   companyId: z.string().optional().nullable(),
   contactId: z.string().optional().nullable(),
+  tenderNumber: z.string().optional().nullable(),
+  tenderIssuingBody: z.string().optional().nullable(),
+  tenderClosingDate: z.coerce.date().optional().nullable(),
+  tenderBriefingDate: z.coerce.date().optional().nullable(),
+  tenderDocumentUrls: z.array(z.string().url("Tender document links must be valid URLs")).optional().nullable(),
 });
 
 // GET /api/leads - List all leads
@@ -136,7 +141,12 @@ export async function POST(request: NextRequest) {
       score, 
       source, 
       companyId, 
-      contactId 
+      contactId,
+      tenderNumber,
+      tenderIssuingBody,
+      tenderClosingDate,
+      tenderBriefingDate,
+      tenderDocumentUrls,
     } = validationResult.data;
 
     // Verify company exists if companyId provided
@@ -180,6 +190,11 @@ export async function POST(request: NextRequest) {
         source: source || null,
         companyId: companyId || null,
         contactId: contactId || null,
+        tenderNumber: tenderNumber || null,
+        tenderIssuingBody: tenderIssuingBody || null,
+        tenderClosingDate: tenderClosingDate || null,
+        tenderBriefingDate: tenderBriefingDate || null,
+        tenderDocumentUrls: tenderDocumentUrls && tenderDocumentUrls.length > 0 ? tenderDocumentUrls : Prisma.JsonNull,
       },
       include: {
         companyRel: true,
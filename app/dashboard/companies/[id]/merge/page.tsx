@@ -0,0 +1,174 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import MergeRecordsForm, { type MergeRecordSide } from "../../../components/MergeRecordsForm";
+import { findSimilarCompanies } from "@/lib/companies";
+import { COMPANY_MERGE_FIELDS, defaultFieldChoices, formatMergeValue } from "@/lib/merge";
+
+// Suggestions are looser than the automatic matching threshold
+const SUGGESTION_THRESHOLD = 0.75;
+
+export default async function MergeCompanyPage(props: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ with?: string; q?: string }>;
+}) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  // Await params to get the id
+  const { id } = await props.params;
+  const { with: otherId, q } = await props.searchParams;
+
+  const company = await prisma.company.findUnique({
+    where: { id },
+    include: { _count: { select: { contacts: true, leads: true } } },
+  });
+
+  if (!company) {
+    notFound();
+  }
+
+  const other = otherId && otherId !== id
+    ? await prisma.company.findUnique({
+        where: { id: otherId },
+        include: { _count: { select: { contacts: true, leads: true } } },
+      })
+    : null;
+
+  const toSide = (record: NonNullable<typeof other>): MergeRecordSide => ({
+    id: record.id,
+    title: record.name,
+    href: `/dashboard/companies/${record.id}`,
+    values: Object.fromEntries(
+      COMPANY_MERGE_FIELDS.map((field) => [
+        field.key,
+        formatMergeValue(record[field.key as keyof typeof record], field.kind),
+      ])
+    ),
+    related: `${record._count.contacts} contacts, ${record._count.leads} leads`,
+  });
+
+  // Candidates: similar companies, or a name / website search
+  const suggestions = other
+    ? []
+    : await findSimilarCompanies(
+        { name: company.name, website: company.website },
+        { excludeId: company.id, threshold: SUGGESTION_THRESHOLD }
+      );
+  const searchResults = !other && q
+    ? await prisma.company.findMany({
+        where: {
+          id: { not: company.id },
+          OR: [
+            { name: { contains: q, mode: "insensitive" } },
+            { website: { contains: q, mode: "insensitive" } },
+          ],
+        },
+        orderBy: { name: "asc" },
+        take: 20,
+      })
+    : [];
+
+  return (
+    <div className="p-8">
+      <div className="max-w-5xl mx-auto">
+        <div className="mb-6">
+          <Link
+            href={`/dashboard/companies/${company.id}`}
+            className="text-[#1B7A7A] hover:text-[#155555] text-sm"
+          >
+            ← Back to Company
+          </Link>
+        </div>
+
+        {other ? (
+          <MergeRecordsForm
+            entityLabel="company"
+            apiPath={`/api/companies/${company.id}/merge`}
+            fields={COMPANY_MERGE_FIELDS}
+            survivor={toSide(company)}
+            merged={toSide(other)}
+            initialChoices={defaultFieldChoices(COMPANY_MERGE_FIELDS, company, other)}
+            swapHref={`/dashboard/companies/${other.id}/merge?with=${company.id}`}
+          />
+        ) : (
+          <div className="bg-white rounded-lg shadow p-6">
+            <h1 className="text-2xl font-bold text-gray-900 mb-1">Merge duplicates of {company.name}</h1>
+            <p className="text-sm text-gray-600 mb-6">
+              Choose the duplicate to merge into this company. Its contacts and leads move here.
+            </p>
+
+            <h2 className="text-lg font-semibold text-gray-900 mb-3">Possible duplicates</h2>
+            {suggestions.length === 0 ? (
+              <p className="text-sm text-gray-600 mb-6">No similar companies found.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 mb-6">
+                {suggestions.map((match) => (
+                  <li key={match.company.id} className="py-3 flex justify-between items-center">
+                    <div>
+                      <p className="font-medium text-gray-900">{match.company.name}</p>
+                      <p className="text-sm text-gray-600">
+                        {match.company.website || "No website"} ·{" "}
+                        {match.matchedBy === "domain"
+                          ? "same domain"
+                          : `name ${Math.round(match.similarity * 100)}% similar`}
+                      </p>
+                    </div>
+                    <Link
+                      href={`/dashboard/companies/${company.id}/merge?with=${match.company.id}`}
+                      className="text-[#1B7A7A] hover:text-[#155555] text-sm font-medium"
+                    >
+                      Compare
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <h2 className="text-lg font-semibold text-gray-900 mb-3">Find another company</h2>
+            <form className="flex gap-3 mb-4">
+              <input
+                type="text"
+                name="q"
+                defaultValue={q ?? ""}
+                placeholder="Name or website"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#1B7A7A]"
+              />
+              <button
+                type="submit"
+                className="bg-[#1B7A7A] text-white px-4 py-2 rounded-md hover:bg-[#155555] font-medium"
+              >
+                Search
+              </button>
+            </form>
+            {q && searchResults.length === 0 && (
+              <p className="text-sm text-gray-600">No companies match &quot;{q}&quot;.</p>
+            )}
+            <ul className="divide-y divide-gray-200">
+              {searchResults.map((result) => (
+                <li key={result.id} className="py-3 flex justify-between items-center">
+                  <div>
+                    <p className="font-medium text-gray-900">{result.name}</p>
+                    <p className="text-sm text-gray-600">{result.website || "No website"}</p>
+                  </div>
+                  <Link
+                    href={`/dashboard/companies/${company.id}/merge?with=${result.id}`}
+                    className="text-[#1B7A7A] hover:text-[#155555] text-sm font-medium"
+                  >
+                    Compare
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,7 +5,10 @@ import { prisma } from "@/lib/prisma";
 import Link from "next/link";
 import { notFound } from "next/navigation";
 import CompanyEnrichment from "../components/CompanyEnrichment";
+import CompanyWebsiteDetails, { companyStructuredData } from "../components/CompanyWebsiteDetails";
 import { rollupCompanyScore } from "@/lib/scoring/rollupCompanyScore";
+import MergeHistory from "../../components/MergeHistory";
+import { COMPANY_MERGE_FIELDS } from "@/lib/merge";
 
 export default async function CompanyDetailPage(props: { params: Promise<{ id: string }> }) {
   const session = await getServerSession(authOptions);
@@ -42,6 +45,15 @@ export default async function CompanyDetailPage(props: { params: Promise<{ id: s
   // Compute rollup score (computed on-read, not persisted)
   const rollupScore = await rollupCompanyScore(id);
 
+  // Companies merged into this one
+  const mergeAudits = await prisma.mergeAudit.findMany({
+    where: { entityType: "company", survivorId: id },
+    orderBy: { createdAt: "desc" },
+  });
+
+  // Structured data (JSON-LD, microdata, OpenGraph) from discovery scraping
+  const structuredData = companyStructuredData(company.discoveryMetadata);
+
   return (
     <div className="p-8">
       <div className="max-w-7xl mx-auto">
@@ -70,6 +82,12 @@ export default async function CompanyDetailPage(props: { params: Promise<{ id: s
               )}
             </div>
             <div className="flex gap-3">
+              <Link
+                href={`/dashboard/companies/${company.id}/merge`}
+                className="border border-[#1B7A7A] text-[#1B7A7A] px-4 py-2 rounded-lg hover:bg-[#E6F5F5] font-medium"
+              >
+                Merge
+              </Link>
               <Link
                 href={`/dashboard/companies/${company.id}/edit`}
                 className="bg-[#1B7A7A] text-white px-4 py-2 rounded-lg hover:bg-[#155555] font-medium"
@@ -174,6 +192,8 @@ export default async function CompanyDetailPage(props: { params: Promise<{ id: s
           )}
         </div>
 
+        {structuredData && <CompanyWebsiteDetails data={structuredData} />}
+
         {/* Enrichment Panel */}
         <div className="mb-6">
           <CompanyEnrichment company={company} />
@@ -237,6 +257,12 @@ export default async function CompanyDetailPage(props: { params: Promise<{ id: s
             )}
           </div>
         </div>
+
+        <MergeHistory
+          audits={mergeAudits}
+          fields={COMPANY_MERGE_FIELDS}
+          describe={(snapshot) => String(snapshot.name ?? "Unnamed company")}
+        />
       </div>
     </div>
   );
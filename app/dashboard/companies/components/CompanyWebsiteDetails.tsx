@@ -0,0 +1,132 @@
+/**
+ * Company Website Details
+ *
+ * Organization details the discovery scraper read from the company website's
+ * structured data (JSON-LD, microdata, OpenGraph). Each value shows where it
+ * came from: the markup type and the page it was found on.
+ */
+
+import { formatStructuredAddress } from "@/lib/discovery/scraper/structuredData";
+import type {
+  StructuredDataField,
+  StructuredDataSource,
+  WebsiteSignalStructuredData,
+} from "@/lib/discovery/types";
+
+const SOURCE_LABELS: Record<StructuredDataSource, string> = {
+  "json-ld": "JSON-LD",
+  microdata: "Microdata",
+  opengraph: "OpenGraph",
+};
+
+function Provenance({ field }: { field: StructuredDataField<unknown> }) {
+  return (
+    <p className="text-xs text-gray-500 mt-0.5">
+      {SOURCE_LABELS[field.source] ?? field.source} ·{" "}
+      <a
+        href={field.pageUrl}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="hover:text-[#155555] break-all"
+      >
+        {field.pageUrl}
+      </a>
+    </p>
+  );
+}
+
+function Detail({ label, field, children }: { label: string; field: StructuredDataField<unknown>; children: React.ReactNode }) {
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-500">{label}</h3>
+      <div className="mt-1 text-gray-900 break-words">{children}</div>
+      <Provenance field={field} />
+    </div>
+  );
+}
+
+/**
+ * Structured data stored with the company's discovery metadata, if any
+ */
+export function companyStructuredData(discoveryMetadata: unknown): WebsiteSignalStructuredData | null {
+  if (!discoveryMetadata || typeof discoveryMetadata !== "object") {
+    return null;
+  }
+  const structuredData = (discoveryMetadata as { structuredData?: unknown }).structuredData;
+  return structuredData && typeof structuredData === "object"
+    ? (structuredData as WebsiteSignalStructuredData)
+    : null;
+}
+
+export default function CompanyWebsiteDetails({ data }: { data: WebsiteSignalStructuredData }) {
+  const address = data.address;
+  const hasDetails = address || data.telephone || data.email || data.sameAs?.value.length || data.logo;
+
+  if (!hasDetails) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <h2 className="text-xl font-bold text-gray-900 mb-1">Website Details</h2>
+      <p className="text-xs text-gray-500 mb-4">
+        From the structured data on the company website{data.types?.length ? ` (${data.types.join(", ")})` : ""}
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {address && (
+          <Detail label="Address" field={address}>
+            {formatStructuredAddress(address.value) || "-"}
+          </Detail>
+        )}
+        {address?.value.postalCode && (
+          <Detail label="Postal Code" field={address}>
+            {address.value.postalCode}
+          </Detail>
+        )}
+        {data.telephone && (
+          <Detail label="Phone" field={data.telephone}>
+            {data.telephone.value}
+          </Detail>
+        )}
+        {data.email && (
+          <Detail label="Email" field={data.email}>
+            <a href={`mailto:${data.email.value}`} className="text-[#1B7A7A] hover:text-[#155555]">
+              {data.email.value}
+            </a>
+          </Detail>
+        )}
+        {data.sameAs && data.sameAs.value.length > 0 && (
+          <Detail label="Social Profiles" field={data.sameAs}>
+            <ul className="space-y-1">
+              {data.sameAs.value.map((url) => (
+                <li key={url}>
+                  <a
+                    href={url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-[#1B7A7A] hover:text-[#155555] text-sm break-all"
+                  >
+                    {url}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </Detail>
+        )}
+        {data.logo && (
+          <Detail label="Logo" field={data.logo}>
+            <a
+              href={data.logo.value}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-[#1B7A7A] hover:text-[#155555] text-sm break-all"
+            >
+              {data.logo.value}
+            </a>
+          </Detail>
+        )}
+      </div>
+    </div>
+  );
+}
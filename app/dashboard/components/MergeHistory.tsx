@@ -0,0 +1,56 @@
+/**
+ * Merge History
+ *
+ * Records merged into this company / contact (from MergeAudit), so a merge
+ * can be explained later: what was merged, when, which fields were taken
+ * from the merged record and what moved over.
+ */
+
+import type { MergeAudit } from "@prisma/client";
+import type { MergeField, MergeFieldChoices, MergeMovedCounts } from "@/lib/merge";
+
+interface Props {
+  audits: MergeAudit[];
+  fields: MergeField[];
+  /** Title of the merged record from its snapshot */
+  describe: (snapshot: Record<string, unknown>) => string;
+}
+
+export default function MergeHistory({ audits, fields, describe }: Props) {
+  if (audits.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mt-6">
+      <h2 className="text-xl font-bold text-gray-900 mb-4">Merge History</h2>
+      <ul className="space-y-3">
+        {audits.map((audit) => {
+          const choices = audit.fieldChoices as MergeFieldChoices;
+          const moved = audit.movedCounts as unknown as MergeMovedCounts;
+          const taken = fields.filter((field) => choices[field.key] === "merged").map((field) => field.label);
+          const movedParts = [
+            moved.contacts > 0 ? `${moved.contacts} contacts` : null,
+            moved.leads > 0 ? `${moved.leads} leads` : null,
+            moved.leadNotes > 0 ? `${moved.leadNotes} lead notes` : null,
+            moved.outreachDrafts > 0 ? `${moved.outreachDrafts} outreach drafts` : null,
+          ].filter(Boolean);
+
+          return (
+            <li key={audit.id} className="border-b border-gray-200 pb-3 last:border-0">
+              <p className="text-sm text-gray-900">
+                Merged <span className="font-medium">{describe(audit.mergedSnapshot as Record<string, unknown>)}</span>{" "}
+                <span className="text-gray-500">({audit.mergedId})</span>
+              </p>
+              <p className="text-xs text-gray-500 mt-1">
+                {new Date(audit.createdAt).toLocaleString()} · Values taken from merged record:{" "}
+                {taken.length > 0 ? taken.join(", ") : "none"} · Moved:{" "}
+                {movedParts.length > 0 ? movedParts.join(", ") : "nothing"}
+              </p>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
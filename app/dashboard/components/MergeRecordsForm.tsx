@@ -0,0 +1,182 @@
+'use client';
+
+/**
+ * Merge Records Form
+ *
+ * Side-by-side view of two duplicate records (company or contact) with a
+ * choice per field. Submits to the entity's merge endpoint; the left record
+ * is kept and the right one is merged into it and deleted.
+ */
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import type { FieldChoice, MergeField, MergeFieldChoices } from '@/lib/merge/fields';
+
+export interface MergeRecordSide {
+  id: string;
+  title: string;
+  href: string;
+  /** Display value per field key */
+  values: Record<string, string>;
+  /** Related records summary, e.g. "3 contacts, 5 leads" */
+  related: string;
+}
+
+interface Props {
+  entityLabel: string;
+  /** POST endpoint, e.g. /api/companies/<survivor id>/merge */
+  apiPath: string;
+  fields: MergeField[];
+  survivor: MergeRecordSide;
+  merged: MergeRecordSide;
+  initialChoices: MergeFieldChoices;
+  /** Same comparison with the records swapped */
+  swapHref: string;
+}
+
+export default function MergeRecordsForm({
+  entityLabel,
+  apiPath,
+  fields,
+  survivor,
+  merged,
+  initialChoices,
+  swapHref,
+}: Props) {
+  const router = useRouter();
+  const [choices, setChoices] = useState<MergeFieldChoices>(initialChoices);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const setChoice = (key: string, choice: FieldChoice) => {
+    setChoices((current) => ({ ...current, [key]: choice }));
+  };
+
+  const handleMerge = async () => {
+    if (!confirm(`Merge "${merged.title}" into "${survivor.title}"? "${merged.title}" will be deleted.`)) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(apiPath, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mergedId: merged.id, fields: choices }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Merge failed');
+      }
+
+      router.push(survivor.href);
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'An error occurred while merging');
+      setLoading(false);
+    }
+  };
+
+  const renderCell = (side: MergeRecordSide, field: MergeField, choice: FieldChoice) => {
+    const selected = (choices[field.key] ?? 'survivor') === choice;
+    return (
+      <td className={`px-4 py-3 align-top ${selected ? 'bg-[#E6F5F5]' : ''}`}>
+        <label className="flex items-start gap-2 cursor-pointer">
+          <input
+            type="radio"
+            name={field.key}
+            checked={selected}
+            onChange={() => setChoice(field.key, choice)}
+            className="mt-1"
+          />
+          <span className="text-sm text-gray-900 break-all">{side.values[field.key] || '-'}</span>
+        </label>
+      </td>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Merge duplicate {entityLabel}</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Pick the value to keep for each field. Combined fields merge both records; the selected
+            side wins where they conflict.
+          </p>
+        </div>
+        <Link href={swapHref} className="text-[#1B7A7A] hover:text-[#155555] text-sm font-medium whitespace-nowrap">
+          ⇄ Keep the other record
+        </Link>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase w-40">Field</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                Keep:{' '}
+                <Link href={survivor.href} className="text-[#1B7A7A] hover:text-[#155555] normal-case">
+                  {survivor.title}
+                </Link>
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                Merge in and delete:{' '}
+                <Link href={merged.href} className="text-[#1B7A7A] hover:text-[#155555] normal-case">
+                  {merged.title}
+                </Link>
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {fields.map((field) => (
+              <tr key={field.key}>
+                <td className="px-4 py-3 text-sm font-medium text-gray-700 align-top">
+                  {field.label}
+                  {field.kind === 'json' && <span className="block text-xs font-normal text-gray-500">combined</span>}
+                </td>
+                {renderCell(survivor, field, 'survivor')}
+                {renderCell(merged, field, 'merged')}
+              </tr>
+            ))}
+            <tr>
+              <td className="px-4 py-3 text-sm font-medium text-gray-700">Related records</td>
+              <td className="px-4 py-3 text-sm text-gray-600">{survivor.related}</td>
+              <td className="px-4 py-3 text-sm text-gray-600">{merged.related} (moved to the kept record)</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="mt-6 flex justify-end gap-3">
+        <Link
+          href={survivor.href}
+          className="px-4 py-2 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 font-medium"
+        >
+          Cancel
+        </Link>
+        <button
+          onClick={handleMerge}
+          disabled={loading}
+          className={`px-4 py-2 rounded-md font-medium text-white ${
+            loading ? 'bg-gray-400 cursor-not-allowed' : 'bg-[#1B7A7A] hover:bg-[#155555]'
+          }`}
+        >
+          {loading ? 'Merging...' : 'Merge'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -62,6 +62,24 @@ const navItems: NavItem[] = [
       </svg>
     ),
   },
+  {
+    name: 'Duplicates',
+    href: '/dashboard/duplicates',
+    icon: (
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+      </svg>
+    ),
+  },
+  {
+    name: 'Jobs',
+    href: '/dashboard/jobs',
+    icon: (
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 6h16M4 12h16M4 18h7m4 0l2 2 4-4" />
+      </svg>
+    ),
+  },
 ];
 
 // Discovery section with sub-items
@@ -91,6 +109,42 @@ const discoverySection: NavSection = {
         </svg>
       ),
     },
+    {
+      name: 'Intents',
+      href: '/dashboard/discovery/intents',
+      icon: (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+        </svg>
+      ),
+    },
+    {
+      name: 'Domains',
+      href: '/dashboard/discovery/domains',
+      icon: (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+        </svg>
+      ),
+    },
+    {
+      name: 'Usage',
+      href: '/dashboard/discovery/usage',
+      icon: (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+        </svg>
+      ),
+    },
+    {
+      name: 'Alerts',
+      href: '/dashboard/discovery/alerts',
+      icon: (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+      ),
+    },
     {
       name: 'Archived Runs',
       href: '/dashboard/discovery/archived',
@@ -217,6 +271,7 @@ export default function Sidebar({ userEmail }: { userEmail?: string }) {
                 const isActive = pathname === item.href || 
                   (item.href === '/dashboard/discovery' && pathname === '/dashboard/discovery') ||
                   (item.href === '/dashboard/discovery-runs' && pathname?.startsWith('/dashboard/discovery-runs')) ||
+                  (item.href === '/dashboard/discovery/intents' && pathname?.startsWith('/dashboard/discovery/intents')) ||
                   (item.href === '/dashboard/discovery' && pathname?.startsWith('/dashboard/discovery/runs'));
                 return (
                   <Link
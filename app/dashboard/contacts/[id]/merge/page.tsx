@@ -0,0 +1,180 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import MergeRecordsForm, { type MergeRecordSide } from "../../../components/MergeRecordsForm";
+import { CONTACT_MERGE_FIELDS, defaultFieldChoices, findSimilarContacts, formatMergeValue } from "@/lib/merge";
+
+const MATCHED_BY_LABEL = {
+  email: "same email",
+  linkedin: "same LinkedIn profile",
+  name: "same name",
+} as const;
+
+export default async function MergeContactPage(props: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ with?: string; q?: string }>;
+}) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  // Await params to get the id
+  const { id } = await props.params;
+  const { with: otherId, q } = await props.searchParams;
+
+  const contact = await prisma.contact.findUnique({
+    where: { id },
+    include: { company: { select: { name: true } }, _count: { select: { leads: true } } },
+  });
+
+  if (!contact) {
+    notFound();
+  }
+
+  const other = otherId && otherId !== id
+    ? await prisma.contact.findUnique({
+        where: { id: otherId },
+        include: { company: { select: { name: true } }, _count: { select: { leads: true } } },
+      })
+    : null;
+
+  const fullName = (record: { firstName: string | null; lastName: string | null; email: string | null }) =>
+    [record.firstName, record.lastName].filter(Boolean).join(" ") || record.email || "Unnamed contact";
+
+  const toSide = (record: NonNullable<typeof other>): MergeRecordSide => ({
+    id: record.id,
+    title: fullName(record),
+    href: `/dashboard/contacts/${record.id}`,
+    values: Object.fromEntries(
+      CONTACT_MERGE_FIELDS.map((field) => [
+        field.key,
+        field.key === "companyId"
+          ? record.company?.name ?? ""
+          : formatMergeValue(record[field.key as keyof typeof record], field.kind),
+      ])
+    ),
+    related: `${record._count.leads} leads`,
+  });
+
+  // Candidates: same email / LinkedIn / name, or a search
+  const suggestions = other ? [] : await findSimilarContacts(contact);
+  const searchResults = !other && q
+    ? await prisma.contact.findMany({
+        where: {
+          id: { not: contact.id },
+          OR: [
+            { firstName: { contains: q, mode: "insensitive" } },
+            { lastName: { contains: q, mode: "insensitive" } },
+            { email: { contains: q, mode: "insensitive" } },
+          ],
+        },
+        include: { company: { select: { name: true } } },
+        orderBy: { lastName: "asc" },
+        take: 20,
+      })
+    : [];
+
+  return (
+    <div className="p-8">
+      <div className="max-w-5xl mx-auto">
+        <div className="mb-6">
+          <Link
+            href={`/dashboard/contacts/${contact.id}`}
+            className="text-[#1B7A7A] hover:text-[#155555] text-sm"
+          >
+            ← Back to Contact
+          </Link>
+        </div>
+
+        {other ? (
+          <MergeRecordsForm
+            entityLabel="contact"
+            apiPath={`/api/contacts/${contact.id}/merge`}
+            fields={CONTACT_MERGE_FIELDS}
+            survivor={toSide(contact)}
+            merged={toSide(other)}
+            initialChoices={defaultFieldChoices(CONTACT_MERGE_FIELDS, contact, other)}
+            swapHref={`/dashboard/contacts/${other.id}/merge?with=${contact.id}`}
+          />
+        ) : (
+          <div className="bg-white rounded-lg shadow p-6">
+            <h1 className="text-2xl font-bold text-gray-900 mb-1">Merge duplicates of {fullName(contact)}</h1>
+            <p className="text-sm text-gray-600 mb-6">
+              Choose the duplicate to merge into this contact. Its leads move here.
+            </p>
+
+            <h2 className="text-lg font-semibold text-gray-900 mb-3">Possible duplicates</h2>
+            {suggestions.length === 0 ? (
+              <p className="text-sm text-gray-600 mb-6">No similar contacts found.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 mb-6">
+                {suggestions.map((match) => (
+                  <li key={match.contact.id} className="py-3 flex justify-between items-center">
+                    <div>
+                      <p className="font-medium text-gray-900">{fullName(match.contact)}</p>
+                      <p className="text-sm text-gray-600">
+                        {match.contact.email || "No email"}
+                        {match.contact.company ? ` · ${match.contact.company.name}` : ""} ·{" "}
+                        {MATCHED_BY_LABEL[match.matchedBy]}
+                      </p>
+                    </div>
+                    <Link
+                      href={`/dashboard/contacts/${contact.id}/merge?with=${match.contact.id}`}
+                      className="text-[#1B7A7A] hover:text-[#155555] text-sm font-medium"
+                    >
+                      Compare
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <h2 className="text-lg font-semibold text-gray-900 mb-3">Find another contact</h2>
+            <form className="flex gap-3 mb-4">
+              <input
+                type="text"
+                name="q"
+                defaultValue={q ?? ""}
+                placeholder="Name or email"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#1B7A7A]"
+              />
+              <button
+                type="submit"
+                className="bg-[#1B7A7A] text-white px-4 py-2 rounded-md hover:bg-[#155555] font-medium"
+              >
+                Search
+              </button>
+            </form>
+            {q && searchResults.length === 0 && (
+              <p className="text-sm text-gray-600">No contacts match &quot;{q}&quot;.</p>
+            )}
+            <ul className="divide-y divide-gray-200">
+              {searchResults.map((result) => (
+                <li key={result.id} className="py-3 flex justify-between items-center">
+                  <div>
+                    <p className="font-medium text-gray-900">{fullName(result)}</p>
+                    <p className="text-sm text-gray-600">
+                      {result.email || "No email"}
+                      {result.company ? ` · ${result.company.name}` : ""}
+                    </p>
+                  </div>
+                  <Link
+                    href={`/dashboard/contacts/${contact.id}/merge?with=${result.id}`}
+                    className="text-[#1B7A7A] hover:text-[#155555] text-sm font-medium"
+                  >
+                    Compare
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { redirect } from "next/navigation";
 import { prisma } from "@/lib/prisma";
 import Link from "next/link";
 import { notFound } from "next/navigation";
+import MergeHistory from "../../components/MergeHistory";
+import { CONTACT_MERGE_FIELDS } from "@/lib/merge";
 
 export default async function ContactDetailPage(props: { params: Promise<{ id: string }> }) {
   const session = await getServerSession(authOptions);
@@ -35,6 +37,12 @@ export default async function ContactDetailPage(props: { params: Promise<{ id: s
     notFound();
   }
 
+  // Contacts merged into this one
+  const mergeAudits = await prisma.mergeAudit.findMany({
+    where: { entityType: "contact", survivorId: id },
+    orderBy: { createdAt: "desc" },
+  });
+
   return (
     <div className="p-8">
       <div className="max-w-7xl mx-auto">
@@ -56,6 +64,12 @@ export default async function ContactDetailPage(props: { params: Promise<{ id: s
               <p className="text-gray-600 mt-1">{contact.email}</p>
             </div>
             <div className="flex gap-3">
+              <Link
+                href={`/dashboard/contacts/${contact.id}/merge`}
+                className="border border-[#1B7A7A] text-[#1B7A7A] px-4 py-2 rounded-md hover:bg-[#E6F5F5] font-medium"
+              >
+                Merge
+              </Link>
               <Link
                 href={`/dashboard/contacts/${contact.id}/edit`}
                 className="bg-[#1B7A7A] text-white px-4 py-2 rounded-md hover:bg-[#155555] font-medium"
@@ -125,6 +139,14 @@ export default async function ContactDetailPage(props: { params: Promise<{ id: s
             </div>
           )}
         </div>
+
+        <MergeHistory
+          audits={mergeAudits}
+          fields={CONTACT_MERGE_FIELDS}
+          describe={(snapshot) =>
+            [snapshot.firstName, snapshot.lastName].filter(Boolean).join(" ") || String(snapshot.email ?? "Unnamed contact")
+          }
+        />
       </div>
     </div>
   );
@@ -0,0 +1,158 @@
+'use client';
+
+import { useState } from 'react';
+import type { DiscoveryAlertType } from '@/lib/discovery/alerts';
+
+export interface AlertPreferences {
+  alertTypes: DiscoveryAlertType[];
+  emailEnabled: boolean;
+  webhookUrl: string | null;
+  slackWebhookUrl: string | null;
+}
+
+/**
+ * The signed-in user's alert subscriptions: alert types and where they go
+ */
+export default function AlertPreferencesForm({
+  initialPreferences,
+  alertTypes,
+  email,
+  emailConfigured,
+}: {
+  initialPreferences: AlertPreferences;
+  alertTypes: Array<{ value: DiscoveryAlertType; label: string; description: string }>;
+  email: string;
+  emailConfigured: boolean;
+}) {
+  const [selected, setSelected] = useState<DiscoveryAlertType[]>(initialPreferences.alertTypes);
+  const [emailEnabled, setEmailEnabled] = useState(initialPreferences.emailEnabled);
+  const [webhookUrl, setWebhookUrl] = useState(initialPreferences.webhookUrl ?? '');
+  const [slackWebhookUrl, setSlackWebhookUrl] = useState(initialPreferences.slackWebhookUrl ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const toggleType = (type: DiscoveryAlertType) => {
+    setSaved(false);
+    setSelected((prev) => (prev.includes(type) ? prev.filter((t) => t !== type) : [...prev, type]));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    setSaved(false);
+
+    try {
+      const res = await fetch('/api/discovery/alerts/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ alertTypes: selected, emailEnabled, webhookUrl, slackWebhookUrl }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        setError(data.details?.[0]?.message || data.error || 'Failed to save alert settings');
+        return;
+      }
+      setSaved(true);
+    } catch {
+      setError('Failed to save alert settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-5">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Your Subscriptions</h2>
+        <p className="text-sm text-gray-500 mt-1">Alerts you receive, and where they are sent.</p>
+      </div>
+
+      <div className="space-y-3">
+        {alertTypes.map((type) => (
+          <label key={type.value} className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={selected.includes(type.value)}
+              onChange={() => toggleType(type.value)}
+              className="mt-1 h-4 w-4 text-teal-600 border-gray-300 rounded focus:ring-teal-500"
+            />
+            <span>
+              <span className="block text-sm font-medium text-gray-900">{type.label}</span>
+              <span className="block text-xs text-gray-500">{type.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div className="border-t border-gray-200 pt-4 space-y-4">
+        <label className="flex items-start gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={emailEnabled}
+            onChange={(e) => {
+              setSaved(false);
+              setEmailEnabled(e.target.checked);
+            }}
+            className="mt-1 h-4 w-4 text-teal-600 border-gray-300 rounded focus:ring-teal-500"
+          />
+          <span>
+            <span className="block text-sm font-medium text-gray-900">Email to {email}</span>
+            {!emailConfigured && (
+              <span className="block text-xs text-yellow-700">SMTP is not configured, emails cannot be sent yet</span>
+            )}
+          </span>
+        </label>
+
+        <div>
+          <label htmlFor="slackWebhookUrl" className="block text-sm font-medium text-gray-700 mb-1">
+            Slack webhook
+          </label>
+          <input
+            id="slackWebhookUrl"
+            type="url"
+            value={slackWebhookUrl}
+            onChange={(e) => {
+              setSaved(false);
+              setSlackWebhookUrl(e.target.value);
+            }}
+            placeholder="https://hooks.slack.com/services/..."
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="webhookUrl" className="block text-sm font-medium text-gray-700 mb-1">
+            Webhook
+          </label>
+          <input
+            id="webhookUrl"
+            type="url"
+            value={webhookUrl}
+            onChange={(e) => {
+              setSaved(false);
+              setWebhookUrl(e.target.value);
+            }}
+            placeholder="https://example.com/alerts"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+          />
+          <p className="text-xs text-gray-500 mt-1">Receives each alert as a JSON POST</p>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 bg-teal-600 text-white text-sm font-medium rounded-lg hover:bg-teal-700 disabled:opacity-50 transition-colors"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+        {saved && <span className="text-sm text-green-600">Saved</span>}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,180 @@
+import { getServerSession } from 'next-auth';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { authOptions } from '@/lib/auth';
+import {
+  DISCOVERY_ALERT_TYPES,
+  DISCOVERY_ALERT_LABELS,
+  getChannelErrorRunThreshold,
+  type DiscoveryAlertType,
+} from '@/lib/discovery/alerts';
+import {
+  getNotificationPreference,
+  getSmtpConfig,
+  getTeamDestinations,
+  describeDestination,
+  getAlertDedupeHours,
+  listRecentAlerts,
+  type NotificationDelivery,
+} from '@/lib/notifications';
+import PageContainer from '@/app/dashboard/components/PageContainer';
+import Breadcrumbs from '@/app/dashboard/components/Breadcrumbs';
+import AlertPreferencesForm from './components/AlertPreferencesForm';
+
+export const dynamic = 'force-dynamic';
+
+const SINK_LABELS: Record<string, string> = {
+  email: 'Email',
+  webhook: 'Webhook',
+  slack: 'Slack',
+};
+
+function formatDateTime(value: Date) {
+  return value.toLocaleString('en-ZA', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export default async function DiscoveryAlertsPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    redirect('/login');
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    redirect('/dashboard');
+  }
+
+  const userId = (session.user as { id?: string }).id;
+  const [preference, alerts] = await Promise.all([
+    userId ? getNotificationPreference(userId) : null,
+    listRecentAlerts(50),
+  ]);
+  const teamDestinations = getTeamDestinations();
+  const emailConfigured = getSmtpConfig() !== null;
+
+  return (
+    <PageContainer>
+      <div className="mb-6">
+        <Breadcrumbs
+          items={[
+            { label: 'Dashboard', href: '/dashboard' },
+            { label: 'Discovery', href: '/dashboard/discovery' },
+            { label: 'Alerts' },
+          ]}
+        />
+        <h1 className="text-3xl font-bold text-gray-900">Discovery Alerts</h1>
+        <p className="text-gray-600 mt-1">
+          Alerts for failed runs, runs that found nothing, exhausted quotas and channels that keep failing. An alert
+          that repeats within {getAlertDedupeHours()} hours is counted but not sent again.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        <AlertPreferencesForm
+          initialPreferences={{
+            alertTypes: (preference?.alertTypes ?? []) as DiscoveryAlertType[],
+            emailEnabled: preference?.emailEnabled ?? true,
+            webhookUrl: preference?.webhookUrl ?? null,
+            slackWebhookUrl: preference?.slackWebhookUrl ?? null,
+          }}
+          alertTypes={DISCOVERY_ALERT_TYPES.map((type) => ({ value: type, ...DISCOVERY_ALERT_LABELS[type] }))}
+          email={session.user.email ?? ''}
+          emailConfigured={emailConfigured}
+        />
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">Team Destinations</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Receive every alert (ALERT_EMAIL_TO, ALERT_WEBHOOK_URL, ALERT_SLACK_WEBHOOK_URL)
+          </p>
+          {teamDestinations.length === 0 ? (
+            <p className="text-sm text-gray-500">No team-wide destinations configured</p>
+          ) : (
+            <ul className="space-y-2">
+              {teamDestinations.map((destination) => (
+                <li key={`${destination.sink}-${destination.address}`} className="flex items-center gap-2 text-sm">
+                  <span className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded text-xs font-medium">
+                    {SINK_LABELS[destination.sink]}
+                  </span>
+                  <span className="text-gray-900 font-mono text-xs">{describeDestination(destination)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <dl className="mt-6 space-y-2 text-sm">
+            <div className="flex justify-between">
+              <dt className="text-gray-500">Email (SMTP)</dt>
+              <dd className={emailConfigured ? 'text-green-700' : 'text-gray-500'}>
+                {emailConfigured ? 'Configured' : 'Not configured'}
+              </dd>
+            </div>
+            <div className="flex justify-between">
+              <dt className="text-gray-500">Channel errors alerted after</dt>
+              <dd className="text-gray-900">{getChannelErrorRunThreshold()} failed runs in a row</dd>
+            </div>
+          </dl>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Recent Alerts</h2>
+        </div>
+        {alerts.length === 0 ? (
+          <p className="px-6 py-8 text-sm text-gray-500 text-center">No alerts raised yet</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {alerts.map((alert) => {
+              const deliveries = (alert.deliveries as NotificationDelivery[] | null) ?? [];
+              const failed = deliveries.filter((delivery) => !delivery.success);
+              return (
+                <li key={alert.id} className="px-6 py-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span
+                          className={`px-2 py-0.5 rounded text-xs font-medium ${
+                            alert.severity === 'critical' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                          }`}
+                        >
+                          {alert.severity}
+                        </span>
+                        <p className="text-sm font-medium text-gray-900">{alert.title}</p>
+                        {alert.occurrences > 1 && (
+                          <span className="text-xs text-gray-500">repeated {alert.occurrences - 1}×</span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600">{alert.message}</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {deliveries.length === 0
+                          ? 'No destinations'
+                          : `Delivered to ${deliveries.length - failed.length} of ${deliveries.length} destinations`}
+                        {failed.map((delivery) => (
+                          <span key={`${delivery.sink}-${delivery.destination}`} className="block text-red-600">
+                            {SINK_LABELS[delivery.sink]} {delivery.destination}: {delivery.error}
+                          </span>
+                        ))}
+                      </p>
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                      <p className="text-xs text-gray-500">{formatDateTime(alert.createdAt)}</p>
+                      {alert.runId && (
+                        <Link
+                          href={`/dashboard/discovery/runs/${alert.runId}`}
+                          className="text-xs text-teal-600 hover:text-teal-800 font-medium"
+                        >
+                          View run →
+                        </Link>
+                      )}
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </PageContainer>
+  );
+}
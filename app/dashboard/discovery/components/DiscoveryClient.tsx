@@ -3,6 +3,9 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import ManualRunHistory from './ManualRunHistory';
+import LiveRunPanel from './LiveRunPanel';
+import LinkedInImportCard from './LinkedInImportCard';
+import SocialImportCard from './SocialImportCard';
 
 interface DiscoveryIntent {
   id: string;
@@ -115,6 +118,8 @@ function RunDetailsModal({
         return 'bg-blue-100 text-blue-800';
       case 'cancelled':
         return 'bg-gray-100 text-gray-600';
+      case 'skipped_budget':
+        return 'bg-orange-100 text-orange-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -571,6 +576,10 @@ export default function DiscoveryClient(_props: Props) {
   const [overrideMaxLeads, setOverrideMaxLeads] = useState<number | undefined>(undefined);
   const [overrideMaxQueries, setOverrideMaxQueries] = useState<number | undefined>(undefined);
 
+  // Runs in progress, shown with live progress (kept after they finish until dismissed)
+  const [liveRuns, setLiveRuns] = useState<Array<{ id: string; intentName: string | null }>>([]);
+  const [historyVersion, setHistoryVersion] = useState(0);
+
   // Load intents and Google config status on mount
   useEffect(() => {
     async function loadIntents() {
@@ -597,7 +606,8 @@ export default function DiscoveryClient(_props: Props) {
       try {
         const res = await fetch('/api/health/google');
         const data = await res.json();
-        setGoogleConfigured(data.configured || false);
+        // Any configured search provider (Google CSE, Bing, Brave, SerpAPI) enables discovery
+        setGoogleConfigured(data.searchConfigured ?? data.configured ?? false);
       } catch {
         setGoogleConfigured(false);
       }
@@ -607,6 +617,34 @@ export default function DiscoveryClient(_props: Props) {
     checkGoogleConfig();
   }, []);
 
+  // Pick up active runs on load, and the run started here while its request is in flight
+  useEffect(() => {
+    async function loadActiveRuns() {
+      try {
+        const res = await fetch('/api/discovery-runs?active=true');
+        if (res.ok) {
+          const data = await res.json();
+          const active: DiscoveryRun[] = data.runs;
+          setLiveRuns((current) => [
+            ...current,
+            ...active
+              .filter((run) => !current.some((live) => live.id === run.id))
+              .map((run) => ({ id: run.id, intentName: run.intentName })),
+          ]);
+        }
+      } catch {
+        // Ignore errors (the run history still shows the run)
+      }
+    }
+
+    loadActiveRuns();
+    if (!isLoading) {
+      return;
+    }
+    const interval = setInterval(loadActiveRuns, 2000);
+    return () => clearInterval(interval);
+  }, [isLoading]);
+
 
   const runDiscovery = async (dryRun: boolean) => {
     if (!selectedIntentId) {
@@ -698,6 +736,7 @@ export default function DiscoveryClient(_props: Props) {
       running: 'bg-blue-100 text-blue-800',
       pending: 'bg-yellow-100 text-yellow-800',
       cancelled: 'bg-gray-100 text-gray-600',
+      skipped_budget: 'bg-orange-100 text-orange-800',
     };
     return (
       <span className={`${baseClasses} ${statusClasses[status] || 'bg-gray-100 text-gray-800'}`}>
@@ -769,7 +808,10 @@ export default function DiscoveryClient(_props: Props) {
               </p>
               <p className="text-red-700 text-sm mt-1">
                 Configure <code className="bg-red-100 px-1 rounded">GOOGLE_CSE_API_KEY</code> and{' '}
-                <code className="bg-red-100 px-1 rounded">GOOGLE_CSE_ID</code> environment variables to enable Google discovery.
+                <code className="bg-red-100 px-1 rounded">GOOGLE_CSE_ID</code> environment variables to enable Google discovery,
+                or set <code className="bg-red-100 px-1 rounded">BING_SEARCH_API_KEY</code>,{' '}
+                <code className="bg-red-100 px-1 rounded">BRAVE_SEARCH_API_KEY</code> or{' '}
+                <code className="bg-red-100 px-1 rounded">SERPAPI_API_KEY</code> to use an alternative search provider.
               </p>
             </div>
           </div>
@@ -984,12 +1026,34 @@ export default function DiscoveryClient(_props: Props) {
         </div>
       </div>
 
+      {/* Runs in Progress */}
+      {liveRuns.length > 0 && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900">Live Runs</h3>
+          {liveRuns.map((run) => (
+            <LiveRunPanel
+              key={run.id}
+              runId={run.id}
+              intentName={run.intentName}
+              onFinished={() => setHistoryVersion((version) => version + 1)}
+              onDismiss={() => setLiveRuns((current) => current.filter((live) => live.id !== run.id))}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* LinkedIn Export Import */}
+      <LinkedInImportCard runnerEnabled={runnerEnabled} />
+
+      {/* Event & Social Page Import */}
+      <SocialImportCard runnerEnabled={runnerEnabled} />
+
       {/* Manual Run History */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">
           Manual Run History
         </h3>
-        <ManualRunHistory />
+        <ManualRunHistory key={historyVersion} />
       </div>
     </div>
   );
@@ -0,0 +1,169 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+
+interface ImportResponse {
+  success: boolean;
+  runId?: string;
+  dryRun?: boolean;
+  error?: string;
+  parsed?: {
+    format: 'csv' | 'list';
+    rows: number;
+    skipped: Array<{ line: number; reason: string }>;
+    truncated?: boolean;
+  };
+  stats?: {
+    companiesCreated: number;
+    companiesSkipped: number;
+    contactsCreated: number;
+    contactsSkipped: number;
+    leadsCreated: number;
+  };
+}
+
+/**
+ * Upload a LinkedIn Sales Navigator / Recruiter export (or paste a lead list)
+ * and run it through the linkedin discovery channel.
+ */
+export default function LinkedInImportCard({ runnerEnabled }: { runnerEnabled: boolean }) {
+  const [source, setSource] = useState<'file' | 'paste'>('file');
+  const [file, setFile] = useState<File | null>(null);
+  const [pasted, setPasted] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [result, setResult] = useState<ImportResponse | null>(null);
+
+  const hasInput = source === 'file' ? !!file : pasted.trim().length > 0;
+
+  const runImport = async (dryRun: boolean) => {
+    setIsLoading(true);
+    setResult(null);
+
+    const formData = new FormData();
+    if (source === 'file' && file) {
+      formData.append('file', file);
+    } else {
+      formData.append('content', pasted);
+    }
+    formData.append('dryRun', String(dryRun));
+
+    try {
+      const res = await fetch('/api/discovery/linkedin/import', {
+        method: 'POST',
+        body: formData,
+      });
+      setResult(await res.json());
+    } catch {
+      setResult({ success: false, error: 'Failed to import LinkedIn export' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">
+        Import LinkedIn Export
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Upload a Sales Navigator or Recruiter CSV export (or LinkedIn&apos;s Connections.csv), or paste a lead list.
+        People become contacts with their LinkedIn profile, their companies are created, and people with an email also become leads.
+      </p>
+
+      <div className="flex gap-2 mb-4">
+        <button
+          type="button"
+          onClick={() => setSource('file')}
+          className={`px-3 py-1.5 text-sm rounded-lg border ${
+            source === 'file' ? 'bg-teal-50 border-teal-300 text-teal-800' : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+          }`}
+        >
+          Upload CSV
+        </button>
+        <button
+          type="button"
+          onClick={() => setSource('paste')}
+          className={`px-3 py-1.5 text-sm rounded-lg border ${
+            source === 'paste' ? 'bg-teal-50 border-teal-300 text-teal-800' : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+          }`}
+        >
+          Paste List
+        </button>
+      </div>
+
+      {source === 'file' ? (
+        <div className="mb-4">
+          <input
+            type="file"
+            accept=".csv,.tsv,.txt"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            disabled={isLoading}
+            className="block w-full text-sm text-gray-600 file:mr-3 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+          />
+        </div>
+      ) : (
+        <div className="mb-4">
+          <textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            rows={6}
+            disabled={isLoading}
+            placeholder={'Paste rows from a spreadsheet (with a header row), or one person per line:\nJane Doe - Procurement Manager at Acme Ltd - linkedin.com/in/janedoe'}
+            className="w-full px-3 py-2 text-sm font-mono border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+          />
+        </div>
+      )}
+
+      {result && !result.success && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+          {result.error || 'Import failed'}
+        </div>
+      )}
+      {result?.success && result.stats && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg text-green-700 text-sm">
+          {result.dryRun ? 'Preview' : 'Import'} completed: {result.parsed?.rows ?? 0} people read
+          {result.dryRun
+            ? '.'
+            : ` - ${result.stats.companiesCreated} companies, ${result.stats.contactsCreated} contacts and ${result.stats.leadsCreated} leads created (${result.stats.contactsSkipped} contacts already existed).`}{' '}
+          {result.runId && (
+            <Link href={`/dashboard/discovery/runs/${result.runId}`} className="underline font-medium">
+              View results
+            </Link>
+          )}
+        </div>
+      )}
+      {result?.parsed && result.parsed.skipped.length > 0 && (
+        <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800 text-xs">
+          <p className="font-medium mb-1">Skipped lines:</p>
+          <ul className="space-y-0.5">
+            {result.parsed.skipped.map((skipped) => (
+              <li key={skipped.line}>
+                Line {skipped.line}: {skipped.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          onClick={() => runImport(true)}
+          disabled={isLoading || !runnerEnabled || !hasInput}
+          className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          title="Preview results without creating records"
+        >
+          {isLoading ? 'Importing...' : 'Preview Only'}
+        </button>
+        <button
+          onClick={() => runImport(false)}
+          disabled={isLoading || !runnerEnabled || !hasInput}
+          className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          title="Create companies, contacts and leads"
+        >
+          {isLoading ? 'Importing...' : 'Import'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import type { DiscoveryRunProgress, RunProgressSnapshot } from '@/lib/discovery/runner';
+
+const PHASE_LABELS: Record<DiscoveryRunProgress['phase'], string> = {
+  starting: 'Starting',
+  searching: 'Searching and scraping',
+  storing: 'Storing results',
+  finished: 'Finished',
+};
+
+function isActive(status: string) {
+  return status === 'pending' || status === 'running';
+}
+
+/**
+ * Live progress of a discovery run, streamed from /api/discovery/runs/[runId]/events:
+ * phase, progress bar over the run's queries, counters and the run's event log.
+ * The run can be stopped while it is active.
+ */
+export default function LiveRunPanel({
+  runId,
+  intentName,
+  onFinished,
+  onDismiss,
+}: {
+  runId: string;
+  intentName?: string | null;
+  /** Called once when the run reaches a final status */
+  onFinished?: (status: string) => void;
+  onDismiss?: () => void;
+}) {
+  const [snapshot, setSnapshot] = useState<RunProgressSnapshot | null>(null);
+  const [connectionLost, setConnectionLost] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [cancelError, setCancelError] = useState<string | null>(null);
+  const logRef = useRef<HTMLDivElement>(null);
+  const onFinishedRef = useRef(onFinished);
+
+  useEffect(() => {
+    onFinishedRef.current = onFinished;
+  }, [onFinished]);
+
+  useEffect(() => {
+    const source = new EventSource(`/api/discovery/runs/${runId}/events`);
+
+    source.addEventListener('progress', (event) => {
+      setSnapshot(JSON.parse((event as MessageEvent).data));
+      setConnectionLost(false);
+    });
+    source.addEventListener('done', (event) => {
+      source.close();
+      onFinishedRef.current?.(JSON.parse((event as MessageEvent).data).status);
+    });
+    // EventSource reconnects on its own; a closed source means the run could not be loaded
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        setConnectionLost(true);
+      }
+    };
+
+    return () => source.close();
+  }, [runId]);
+
+  // Keep the newest log line in view
+  useEffect(() => {
+    logRef.current?.scrollTo({ top: logRef.current.scrollHeight });
+  }, [snapshot?.progress?.log.length]);
+
+  const handleStopRun = async () => {
+    setIsCancelling(true);
+    setCancelError(null);
+    try {
+      const res = await fetch(`/api/discovery/runs/${runId}/cancel`, {
+        method: 'POST',
+      });
+      const data = await res.json();
+      if (!data.success) {
+        setCancelError(data.error || 'Failed to cancel run');
+      }
+    } catch (error) {
+      setCancelError(error instanceof Error ? error.message : 'Failed to cancel run');
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const progress = snapshot?.progress;
+  const status = snapshot?.status ?? 'pending';
+  const active = isActive(status);
+  const percent = progress && progress.queriesTotal > 0
+    ? Math.round((progress.queriesCompleted / progress.queriesTotal) * 100)
+    : 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+      <div className="flex items-start justify-between gap-4 mb-3">
+        <div className="min-w-0">
+          <h3 className="text-sm font-semibold text-gray-900">
+            {intentName || 'Discovery run'}
+            <span className="ml-2 text-xs font-normal text-gray-500">
+              {active
+                ? snapshot?.cancelRequested
+                  ? 'Stopping...'
+                  : PHASE_LABELS[progress?.phase ?? 'starting']
+                : status}
+            </span>
+          </h3>
+          <p className="text-xs text-gray-500 font-mono truncate">{runId}</p>
+        </div>
+        <div className="flex items-center gap-3 flex-shrink-0">
+          {active ? (
+            <button
+              onClick={handleStopRun}
+              disabled={isCancelling || snapshot?.cancelRequested}
+              className="px-3 py-1.5 bg-red-600 text-white text-sm font-medium rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+            >
+              {isCancelling || snapshot?.cancelRequested ? 'Stopping...' : 'Stop Run'}
+            </button>
+          ) : (
+            <>
+              <Link
+                href={`/dashboard/discovery/runs/${runId}`}
+                className="text-sm text-teal-600 hover:text-teal-800 font-medium"
+              >
+                View Results →
+              </Link>
+              {onDismiss && (
+                <button onClick={onDismiss} className="text-sm text-gray-500 hover:text-gray-700">
+                  Dismiss
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {cancelError && <p className="text-sm text-red-600 mb-3">{cancelError}</p>}
+      {connectionLost && <p className="text-sm text-red-600 mb-3">Lost connection to the run&apos;s progress</p>}
+
+      {/* Progress bar over the run's queries */}
+      <div className="mb-3">
+        <div className="flex justify-between text-xs text-gray-600 mb-1">
+          <span>
+            {progress?.queriesCompleted ?? 0} of {progress?.queriesTotal ?? 0} queries
+            {active && progress?.currentQuery && (
+              <span className="text-gray-500"> · &quot;{progress.currentQuery}&quot;</span>
+            )}
+          </span>
+          <span>{percent}%</span>
+        </div>
+        <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+          <div
+            className={`h-full transition-all ${active ? 'bg-teal-500' : 'bg-gray-400'}`}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mb-3">
+        <div className="text-center p-2 bg-gray-50 rounded-lg">
+          <p className="text-lg font-bold text-gray-700">{progress?.urlsScraped ?? 0}</p>
+          <p className="text-xs text-gray-500">Sites Scraped</p>
+        </div>
+        <div className="text-center p-2 bg-green-50 rounded-lg">
+          <p className="text-lg font-bold text-green-600">{progress?.resultsKept ?? 0}</p>
+          <p className="text-xs text-green-700">Kept</p>
+        </div>
+        <div className="text-center p-2 bg-yellow-50 rounded-lg">
+          <p className="text-lg font-bold text-yellow-600">{progress?.resultsFiltered ?? 0}</p>
+          <p className="text-xs text-yellow-700">Filtered Out</p>
+        </div>
+      </div>
+
+      {/* Live log */}
+      <div ref={logRef} className="max-h-48 overflow-y-auto bg-gray-50 rounded-lg p-3 font-mono text-xs text-gray-700 space-y-1">
+        {progress && progress.log.length > 0 ? (
+          progress.log.map((entry, idx) => (
+            <p key={idx}>
+              <span className="text-gray-400">{new Date(entry.at).toLocaleTimeString('en-GB')}</span> {entry.message}
+            </p>
+          ))
+        ) : (
+          <p className="text-gray-400">Waiting for the run to start...</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -63,6 +63,7 @@ function getStatusBadge(status: string, dryRun: boolean) {
     running: 'bg-blue-100 text-blue-800',
     pending: 'bg-yellow-100 text-yellow-800',
     cancelled: 'bg-gray-100 text-gray-600',
+    skipped_budget: 'bg-orange-100 text-orange-800',
   };
   return (
     <span className={`${baseClasses} ${statusClasses[status] || 'bg-gray-100 text-gray-800'}`}>
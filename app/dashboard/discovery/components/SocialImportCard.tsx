@@ -0,0 +1,128 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+
+interface ImportResponse {
+  success: boolean;
+  runId?: string;
+  dryRun?: boolean;
+  error?: string;
+  parsed?: {
+    pages: Array<{
+      fileName?: string;
+      pageType: 'event' | 'profile';
+      eventName?: string;
+      eventDate?: string;
+      companies: number;
+    }>;
+    companies: number;
+  };
+  stats?: {
+    companiesCreated: number;
+    companiesSkipped: number;
+  };
+}
+
+/**
+ * Upload saved event pages (Facebook events, expo exhibitor lists) or
+ * Facebook / Instagram business pages and run them through the social
+ * discovery channel.
+ */
+export default function SocialImportCard({ runnerEnabled }: { runnerEnabled: boolean }) {
+  const [files, setFiles] = useState<File[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [result, setResult] = useState<ImportResponse | null>(null);
+
+  const runImport = async (dryRun: boolean) => {
+    setIsLoading(true);
+    setResult(null);
+
+    const formData = new FormData();
+    files.forEach((file) => formData.append('files', file));
+    formData.append('dryRun', String(dryRun));
+
+    try {
+      const res = await fetch('/api/discovery/social/import', {
+        method: 'POST',
+        body: formData,
+      });
+      setResult(await res.json());
+    } catch {
+      setResult({ success: false, error: 'Failed to import pages' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">
+        Import Event &amp; Social Pages
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Upload pages saved from the browser (File → Save Page As): Facebook event pages, expo exhibitor or sponsor lists,
+        or Facebook / Instagram business pages. Exhibitors, sponsors and organizers become companies with their social handles.
+      </p>
+
+      <div className="mb-4">
+        <input
+          type="file"
+          accept=".html,.htm,.xhtml"
+          multiple
+          onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+          disabled={isLoading}
+          className="block w-full text-sm text-gray-600 file:mr-3 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+        />
+      </div>
+
+      {result && !result.success && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+          {result.error || 'Import failed'}
+        </div>
+      )}
+      {result?.success && result.stats && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg text-green-700 text-sm">
+          {result.dryRun ? 'Preview' : 'Import'} completed: {result.parsed?.companies ?? 0} companies found
+          {result.dryRun
+            ? '.'
+            : ` - ${result.stats.companiesCreated} created (${result.stats.companiesSkipped} already existed).`}{' '}
+          {result.runId && (
+            <Link href={`/dashboard/discovery/runs/${result.runId}`} className="underline font-medium">
+              View results
+            </Link>
+          )}
+        </div>
+      )}
+      {result?.parsed && result.parsed.pages.length > 0 && (
+        <ul className="mb-4 space-y-0.5 text-xs text-gray-600">
+          {result.parsed.pages.map((page, index) => (
+            <li key={`${page.fileName}-${index}`}>
+              {page.fileName}: {page.pageType === 'profile' ? 'business page' : page.eventName || 'event page'}
+              {page.eventDate ? ` (${page.eventDate})` : ''} - {page.companies} {page.companies === 1 ? 'company' : 'companies'}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          onClick={() => runImport(true)}
+          disabled={isLoading || !runnerEnabled || files.length === 0}
+          className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          title="Preview results without creating records"
+        >
+          {isLoading ? 'Importing...' : 'Preview Only'}
+        </button>
+        <button
+          onClick={() => runImport(false)}
+          disabled={isLoading || !runnerEnabled || files.length === 0}
+          className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          title="Create companies"
+        >
+          {isLoading ? 'Importing...' : 'Import'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import type { DomainListType } from '@/lib/discovery/domains';
+
+export interface DomainEntryRow {
+  id: string;
+  domain: string;
+  listType: DomainListType;
+  reason: string | null;
+  source: string | null;
+  runId: string | null;
+  hitCount: number;
+  lastHitAt: string | null;
+  createdAt: string;
+}
+
+const LIST_TYPES: Array<{ value: DomainListType; label: string; badge: string }> = [
+  { value: 'block', label: 'Blocked', badge: 'bg-red-100 text-red-800' },
+  { value: 'competitor', label: 'Competitor', badge: 'bg-amber-100 text-amber-800' },
+  { value: 'customer', label: 'Existing customer', badge: 'bg-blue-100 text-blue-800' },
+  { value: 'allow', label: 'Allowed', badge: 'bg-emerald-100 text-emerald-800' },
+];
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-ZA', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+export default function DomainListClient({ initialEntries }: { initialEntries: DomainEntryRow[] }) {
+  const [entries, setEntries] = useState<DomainEntryRow[]>(initialEntries);
+  const [filter, setFilter] = useState<DomainListType | 'all'>('all');
+  const [domain, setDomain] = useState('');
+  const [listType, setListType] = useState<DomainListType>('block');
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const counts = useMemo(() => {
+    const byType: Record<string, number> = {};
+    for (const entry of entries) byType[entry.listType] = (byType[entry.listType] || 0) + 1;
+    return byType;
+  }, [entries]);
+
+  const visible = filter === 'all' ? entries : entries.filter((entry) => entry.listType === filter);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/discovery/domains', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ domain, listType, reason: reason.trim() || undefined }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        setError(data.error || 'Failed to add domain');
+        return;
+      }
+
+      // Reload so hit counts and moved entries are current
+      const listRes = await fetch('/api/discovery/domains');
+      const listData = await listRes.json();
+      if (listRes.ok && listData.success) {
+        setEntries(listData.entries);
+      }
+      setDomain('');
+      setReason('');
+    } catch {
+      setError('Failed to add domain');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleChangeType = async (entry: DomainEntryRow, value: DomainListType) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/discovery/domains/${entry.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ listType: value }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        setError(data.error || 'Failed to update domain');
+        return;
+      }
+      setEntries((prev) => prev.map((e) => (e.id === entry.id ? { ...e, listType: value } : e)));
+    } catch {
+      setError('Failed to update domain');
+    }
+  };
+
+  const handleRemove = async (entry: DomainEntryRow) => {
+    if (!confirm(`Remove ${entry.domain} from the list? Discovery will treat it like any other domain.`)) {
+      return;
+    }
+
+    setError(null);
+    try {
+      const res = await fetch(`/api/discovery/domains/${entry.id}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        setError(data.error || 'Failed to remove domain');
+        return;
+      }
+      setEntries((prev) => prev.filter((e) => e.id !== entry.id));
+    } catch {
+      setError('Failed to remove domain');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <form
+        onSubmit={handleAdd}
+        className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 flex flex-wrap items-end gap-3"
+      >
+        <div className="flex-1 min-w-48">
+          <label className="block text-xs font-medium text-gray-700 mb-1">Domain or URL</label>
+          <input
+            value={domain}
+            onChange={(e) => setDomain(e.target.value)}
+            placeholder="e.g. yellowpages.co.za"
+            className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">List</label>
+          <select
+            value={listType}
+            onChange={(e) => setListType(e.target.value as DomainListType)}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg"
+          >
+            {LIST_TYPES.map((type) => (
+              <option key={type.value} value={type.value}>
+                {type.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1 min-w-48">
+          <label className="block text-xs font-medium text-gray-700 mb-1">Reason</label>
+          <input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Optional"
+            className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isSaving || !domain.trim()}
+          className="px-4 py-1.5 bg-teal-600 text-white text-sm font-medium rounded-lg hover:bg-teal-700 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Add Domain'}
+        </button>
+      </form>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">{error}</div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {[{ value: 'all' as const, label: 'All' }, ...LIST_TYPES].map((tab) => (
+          <button
+            key={tab.value}
+            onClick={() => setFilter(tab.value)}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium ${
+              filter === tab.value
+                ? 'bg-teal-600 text-white'
+                : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {tab.label} ({tab.value === 'all' ? entries.length : counts[tab.value] || 0})
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        {visible.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500">No domains listed.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Domain</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">List</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Hits</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Hit</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Added</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {visible.map((entry) => (
+                <tr key={entry.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-sm font-mono text-gray-900">{entry.domain}</td>
+                  <td className="px-4 py-3">
+                    <select
+                      value={entry.listType}
+                      onChange={(e) => handleChangeType(entry, e.target.value as DomainListType)}
+                      className={`px-2 py-0.5 text-xs rounded-full border-0 ${
+                        LIST_TYPES.find((type) => type.value === entry.listType)?.badge ?? 'bg-gray-100 text-gray-700'
+                      }`}
+                    >
+                      {LIST_TYPES.map((type) => (
+                        <option key={type.value} value={type.value}>
+                          {type.label}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{entry.reason || '—'}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{entry.hitCount}</td>
+                  <td className="px-4 py-3 text-sm text-gray-600">{entry.lastHitAt ? formatDate(entry.lastHitAt) : '—'}</td>
+                  <td className="px-4 py-3 text-xs text-gray-600">
+                    {formatDate(entry.createdAt)}
+                    {entry.runId ? (
+                      <>
+                        {' '}·{' '}
+                        <Link href={`/dashboard/discovery/runs/${entry.runId}`} className="text-teal-600 hover:underline">
+                          {entry.source === 'review' ? 'review' : 'run'}
+                        </Link>
+                      </>
+                    ) : (
+                      entry.source && <> · {entry.source}</>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <button onClick={() => handleRemove(entry)} className="text-xs text-red-600 hover:text-red-800">
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
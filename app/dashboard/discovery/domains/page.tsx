@@ -0,0 +1,57 @@
+import { getServerSession } from 'next-auth';
+import { redirect } from 'next/navigation';
+import { authOptions } from '@/lib/auth';
+import { listDomainEntries, type DomainListType } from '@/lib/discovery/domains';
+import PageContainer from '@/app/dashboard/components/PageContainer';
+import Breadcrumbs from '@/app/dashboard/components/Breadcrumbs';
+import DomainListClient from './components/DomainListClient';
+
+export const dynamic = 'force-dynamic';
+
+export default async function DiscoveryDomainsPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    redirect('/login');
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    redirect('/dashboard');
+  }
+
+  const entries = await listDomainEntries();
+
+  return (
+    <PageContainer>
+      <div className="mb-6">
+        <Breadcrumbs
+          items={[
+            { label: 'Dashboard', href: '/dashboard' },
+            { label: 'Discovery', href: '/dashboard/discovery' },
+            { label: 'Domains' },
+          ]}
+        />
+        <h1 className="text-3xl font-bold text-gray-900">Discovery Domains</h1>
+        <p className="text-gray-600 mt-1">
+          Blocked, competitor and existing-customer domains are skipped before scraping and never created as
+          records. Allowed domains are always kept, even when URL filtering or relevance scoring would drop them.
+        </p>
+      </div>
+
+      <DomainListClient
+        initialEntries={entries.map((entry) => ({
+          id: entry.id,
+          domain: entry.domain,
+          listType: entry.listType as DomainListType,
+          reason: entry.reason,
+          source: entry.source,
+          runId: entry.runId,
+          hitCount: entry.hitCount,
+          lastHitAt: entry.lastHitAt?.toISOString() ?? null,
+          createdAt: entry.createdAt.toISOString(),
+        }))}
+      />
+    </PageContainer>
+  );
+}
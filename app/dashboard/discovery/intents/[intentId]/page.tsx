@@ -0,0 +1,139 @@
+import { getServerSession } from 'next-auth';
+import { redirect, notFound } from 'next/navigation';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getIntentById, getIntentVersions, applyIntent } from '@/lib/discovery/intents';
+import { getIntentNoveltyHistory, averageNoveltyRate, LOW_NOVELTY_RATE } from '@/lib/discovery/diff';
+import {
+  buildQueryPool,
+  loadQueryStats,
+  selectQueries,
+  querySpecKey,
+  queryYieldRate,
+  isLowYield,
+} from '@/lib/discovery/queries';
+import { loadConfig, getDailyPerIntentLimits } from '@/lib/discovery/runner/config';
+import PageContainer from '@/app/dashboard/components/PageContainer';
+import Breadcrumbs from '@/app/dashboard/components/Breadcrumbs';
+import IntentForm from '../components/IntentForm';
+import IntentVersionHistory from '../components/IntentVersionHistory';
+import IntentNoveltyPanel from '../components/IntentNoveltyPanel';
+import IntentQueryYieldPanel from '../components/IntentQueryYieldPanel';
+
+export const dynamic = 'force-dynamic';
+
+export default async function EditDiscoveryIntentPage(
+  props: { params: Promise<{ intentId: string }> }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    redirect('/login');
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    redirect('/dashboard');
+  }
+
+  const { intentId } = await props.params;
+
+  const intent = await getIntentById(intentId);
+  if (!intent) {
+    notFound();
+  }
+
+  const versions = await getIntentVersions(intentId);
+  const noveltyHistory = await getIntentNoveltyHistory(intentId);
+
+  // Query pool the runner rotates through, and the yield of the queries run so far
+  const resolved = applyIntent(intent);
+  const queryPool = buildQueryPool(resolved.queries, {
+    priorityRegions: resolved.priorityRegions,
+    maxPages: loadConfig().maxPagesPerQuery,
+  });
+  const queryStats = await loadQueryStats(intentId);
+  const nextQueries = selectQueries(queryPool, queryStats, getDailyPerIntentLimits().maxQueries);
+  const queryYields = queryPool
+    .flatMap((spec) => {
+      const stat = queryStats.get(querySpecKey(spec));
+      return stat && stat.runs > 0 ? [stat] : [];
+    })
+    .sort((a, b) => queryYieldRate(b) - queryYieldRate(a))
+    .map((stat) => ({
+      query: stat.query,
+      start: stat.start,
+      runs: stat.runs,
+      lastRunAt: stat.lastRunAt?.toISOString() ?? null,
+      resultsFound: stat.resultsFound,
+      resultsKept: stat.resultsKept,
+      newResults: stat.newResults,
+      newPerRun: queryYieldRate(stat),
+      lowYield: isLowYield(stat),
+    }));
+
+  // Resolve editor emails for the history list
+  const userIds = [...new Set(versions.map((v) => v.changedById).filter((id): id is string => Boolean(id)))];
+  const users = userIds.length
+    ? await prisma.user.findMany({
+        where: { id: { in: userIds } },
+        select: { id: true, email: true },
+      })
+    : [];
+  const emailById = new Map(users.map((u) => [u.id, u.email]));
+
+  const serializedVersions = versions.map((v) => ({
+    version: v.version,
+    changeNote: v.changeNote,
+    changedByEmail: v.changedById ? emailById.get(v.changedById) ?? null : null,
+    createdAt: v.createdAt.toISOString(),
+    snapshot: v.snapshot,
+  }));
+
+  return (
+    <PageContainer>
+      <div className="mb-6">
+        <Breadcrumbs
+          items={[
+            { label: 'Dashboard', href: '/dashboard' },
+            { label: 'Discovery', href: '/dashboard/discovery' },
+            { label: 'Intents', href: '/dashboard/discovery/intents' },
+            { label: intent.name },
+          ]}
+        />
+        <h1 className="text-3xl font-bold text-gray-900">{intent.name}</h1>
+        <p className="text-gray-600 mt-1">
+          <span className="font-mono">{intent.id}</span> · version {intent.version ?? 1}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        <div className="xl:col-span-2">
+          {/* Re-mount the form when the version changes so it picks up restored values */}
+          <IntentForm key={intent.version} intent={intent} />
+        </div>
+        <div>
+          <IntentNoveltyPanel
+            history={noveltyHistory.map((point) => ({
+              runId: point.runId,
+              startedAt: point.startedAt.toISOString(),
+              ...point.novelty,
+            }))}
+            averageRate={averageNoveltyRate(noveltyHistory)}
+            lowRate={LOW_NOVELTY_RATE}
+          />
+          <IntentQueryYieldPanel
+            poolSize={queryPool.length}
+            nextQueries={nextQueries.map((spec) => ({ query: spec.query, start: spec.start }))}
+            stats={queryYields}
+          />
+          <IntentVersionHistory
+            intentId={intent.id}
+            currentVersion={intent.version ?? 1}
+            versions={serializedVersions}
+          />
+        </div>
+      </div>
+    </PageContainer>
+  );
+}
@@ -0,0 +1,583 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { DiscoveryIntent, QuietPeriod } from '@/lib/discovery/intents/types';
+import {
+  COUNTRY_CODES,
+  INTENT_CATEGORIES,
+  INTENT_CHANNELS,
+} from '@/lib/discovery/intents/validation';
+import { SEARCH_PROVIDER_TYPES } from '@/lib/discovery/search/config';
+
+interface Props {
+  // Existing intent when editing; omitted when creating
+  intent?: DiscoveryIntent;
+}
+
+// Multi-line textarea value <-> list helpers
+function toLines(values: string[] | undefined): string {
+  return (values || []).join('\n');
+}
+
+function fromLines(value: string): string[] {
+  return value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+// Quiet periods are edited as "start, end, note" lines
+function quietPeriodsToLines(periods: QuietPeriod[] | undefined): string {
+  return (periods || [])
+    .map((p) => [p.start, p.end, p.note].filter(Boolean).join(', '))
+    .join('\n');
+}
+
+function quietPeriodsFromLines(value: string): QuietPeriod[] {
+  return fromLines(value).map((line) => {
+    const [start = '', end = '', ...note] = line.split(',').map((part) => part.trim());
+    return { start, end: end || start, note: note.join(', ') || undefined };
+  });
+}
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function toOptionalInt(value: string): number | undefined {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500';
+const smallInputClass =
+  'w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-teal-500 focus:border-teal-500';
+
+export default function IntentForm({ intent }: Props) {
+  const router = useRouter();
+  const isEdit = Boolean(intent);
+
+  const [id, setId] = useState(intent?.id ?? '');
+  const [name, setName] = useState(intent?.name ?? '');
+  const [description, setDescription] = useState(intent?.description ?? '');
+  const [category, setCategory] = useState<string>(intent?.category ?? 'custom');
+  const [targetCountries, setTargetCountries] = useState<string[]>(intent?.targetCountries ?? ['ZA']);
+  const [channels, setChannels] = useState<string[]>(intent?.channels ?? ['google']);
+  const [seedQueries, setSeedQueries] = useState(toLines(intent?.seedQueries));
+  const [includeKeywords, setIncludeKeywords] = useState(toLines(intent?.includeKeywords));
+  const [excludeKeywords, setExcludeKeywords] = useState(toLines(intent?.excludeKeywords));
+  const [maxCompanies, setMaxCompanies] = useState(intent?.limits?.maxCompanies?.toString() ?? '');
+  const [maxLeads, setMaxLeads] = useState(intent?.limits?.maxLeads?.toString() ?? '');
+  const [maxQueries, setMaxQueries] = useState(intent?.limits?.maxQueries?.toString() ?? '');
+  const [primaryCountry, setPrimaryCountry] = useState(intent?.geography?.primaryCountry ?? '');
+  const [priorityRegions, setPriorityRegions] = useState(toLines(intent?.geography?.priorityRegions));
+  const [regionBoost, setRegionBoost] = useState(intent?.geography?.regionBoost?.toString() ?? '');
+  const [searchProviders, setSearchProviders] = useState<string[]>(intent?.searchProviders ?? []);
+  const [searchCacheTtlHours, setSearchCacheTtlHours] = useState(
+    intent?.searchCacheTtlHours?.toString() ?? ''
+  );
+  const [crawlExhibitorLists, setCrawlExhibitorLists] = useState(intent?.crawlExhibitorLists ?? false);
+  const [requireReview, setRequireReview] = useState(intent?.requireReview ?? false);
+  const [scheduleEnabled, setScheduleEnabled] = useState(intent?.schedule?.enabled ?? false);
+  const [scheduleCron, setScheduleCron] = useState(intent?.schedule?.cron ?? '');
+  const [scheduleDays, setScheduleDays] = useState<number[]>(intent?.schedule?.daysOfWeek ?? []);
+  const [quietPeriods, setQuietPeriods] = useState(quietPeriodsToLines(intent?.schedule?.quietPeriods));
+  const [active, setActive] = useState(intent?.active ?? true);
+  const [changeNote, setChangeNote] = useState('');
+
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const buildPayload = () => {
+    const limits = {
+      maxCompanies: toOptionalInt(maxCompanies),
+      maxLeads: toOptionalInt(maxLeads),
+      maxQueries: toOptionalInt(maxQueries),
+      timeBudgetMs: intent?.limits?.timeBudgetMs,
+    };
+    const hasLimits = Object.values(limits).some((v) => v !== undefined);
+    const boost = parseFloat(regionBoost);
+
+    return {
+      ...(isEdit ? { changeNote: changeNote || undefined } : { id }),
+      name,
+      description,
+      category,
+      targetCountries,
+      seedQueries: fromLines(seedQueries),
+      includeKeywords: fromLines(includeKeywords),
+      excludeKeywords: fromLines(excludeKeywords),
+      channels,
+      limits: hasLimits ? limits : undefined,
+      geography: primaryCountry
+        ? {
+            primaryCountry,
+            priorityRegions: fromLines(priorityRegions),
+            regionBoost: Number.isFinite(boost) ? boost : undefined,
+          }
+        : undefined,
+      searchProviders: searchProviders.length > 0 ? searchProviders : undefined,
+      searchCacheTtlHours: toOptionalInt(searchCacheTtlHours),
+      crawlExhibitorLists,
+      requireReview,
+      schedule: scheduleCron.trim()
+        ? {
+            enabled: scheduleEnabled,
+            cron: scheduleCron.trim(),
+            daysOfWeek: scheduleDays.length > 0 ? [...scheduleDays].sort() : undefined,
+            quietPeriods: quietPeriods.trim() ? quietPeriodsFromLines(quietPeriods) : undefined,
+          }
+        : undefined,
+      active,
+    };
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch(
+        isEdit ? `/api/discovery/intents/${intent!.id}` : '/api/discovery/intents',
+        {
+          method: isEdit ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(buildPayload()),
+        }
+      );
+      const data = await res.json();
+
+      if (!res.ok || !data.success) {
+        const details = Array.isArray(data.details)
+          ? data.details
+              .map((issue: { path?: (string | number)[]; message: string }) =>
+                `${issue.path?.join('.') || 'field'}: ${issue.message}`
+              )
+              .join('; ')
+          : '';
+        setError(details ? `${data.error}: ${details}` : data.error || 'Failed to save intent');
+        return;
+      }
+
+      if (isEdit) {
+        setChangeNote('');
+        router.refresh();
+      } else {
+        router.push(`/dashboard/discovery/intents/${data.intent.id}`);
+      }
+    } catch {
+      setError('Failed to save intent');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-6">
+      {/* Basics */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="intentId" className="block text-sm font-medium text-gray-700 mb-1">
+            ID
+          </label>
+          <input
+            id="intentId"
+            value={id}
+            onChange={(e) => setId(e.target.value)}
+            disabled={isEdit}
+            placeholder="e.g. agencies_cape_town"
+            className={`${inputClass} disabled:bg-gray-50 disabled:text-gray-500`}
+            required
+          />
+        </div>
+        <div>
+          <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">
+            Name
+          </label>
+          <input
+            id="name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={inputClass}
+            required
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">
+            Description
+          </label>
+          <textarea
+            id="description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-1">
+            Category
+          </label>
+          <select
+            id="category"
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            className={inputClass}
+          >
+            {INTENT_CATEGORIES.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-end">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={active}
+              onChange={(e) => setActive(e.target.checked)}
+              className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+            />
+            Active (available for manual and daily runs)
+          </label>
+        </div>
+      </div>
+
+      {/* Countries & Channels */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 mb-2">Target Countries</legend>
+          <div className="flex flex-wrap gap-3">
+            {COUNTRY_CODES.map((code) => (
+              <label key={code} className="flex items-center gap-1 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={targetCountries.includes(code)}
+                  onChange={() => setTargetCountries(toggle(targetCountries, code))}
+                  className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+                />
+                {code}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 mb-2">Channels</legend>
+          <div className="flex flex-wrap gap-3">
+            {INTENT_CHANNELS.map((channel) => (
+              <label key={channel} className="flex items-center gap-1 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={channels.includes(channel)}
+                  onChange={() => setChannels(toggle(channels, channel))}
+                  className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+                />
+                {channel}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      </div>
+
+      {/* Queries & Keywords */}
+      <div>
+        <label htmlFor="seedQueries" className="block text-sm font-medium text-gray-700 mb-1">
+          Seed Queries <span className="text-xs text-gray-500 font-normal">(one per line)</span>
+        </label>
+        <textarea
+          id="seedQueries"
+          value={seedQueries}
+          onChange={(e) => setSeedQueries(e.target.value)}
+          rows={6}
+          className={`${inputClass} font-mono text-sm`}
+        />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="includeKeywords" className="block text-sm font-medium text-gray-700 mb-1">
+            Include Keywords <span className="text-xs text-gray-500 font-normal">(one per line)</span>
+          </label>
+          <textarea
+            id="includeKeywords"
+            value={includeKeywords}
+            onChange={(e) => setIncludeKeywords(e.target.value)}
+            rows={6}
+            className={`${inputClass} font-mono text-sm`}
+          />
+        </div>
+        <div>
+          <label htmlFor="excludeKeywords" className="block text-sm font-medium text-gray-700 mb-1">
+            Exclude Keywords <span className="text-xs text-gray-500 font-normal">(one per line)</span>
+          </label>
+          <textarea
+            id="excludeKeywords"
+            value={excludeKeywords}
+            onChange={(e) => setExcludeKeywords(e.target.value)}
+            rows={6}
+            className={`${inputClass} font-mono text-sm`}
+          />
+        </div>
+      </div>
+
+      {/* Limits */}
+      <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+        <p className="text-xs text-gray-500 mb-3">
+          Default limits for this intent. Leave blank to use the runner defaults.
+        </p>
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <label htmlFor="maxCompanies" className="block text-xs font-medium text-gray-700 mb-1">
+              Max Companies
+            </label>
+            <input
+              type="number"
+              id="maxCompanies"
+              min={1}
+              value={maxCompanies}
+              onChange={(e) => setMaxCompanies(e.target.value)}
+              className={smallInputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="maxLeads" className="block text-xs font-medium text-gray-700 mb-1">
+              Max Leads
+            </label>
+            <input
+              type="number"
+              id="maxLeads"
+              min={1}
+              value={maxLeads}
+              onChange={(e) => setMaxLeads(e.target.value)}
+              className={smallInputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="maxQueries" className="block text-xs font-medium text-gray-700 mb-1">
+              Max Queries
+            </label>
+            <input
+              type="number"
+              id="maxQueries"
+              min={1}
+              value={maxQueries}
+              onChange={(e) => setMaxQueries(e.target.value)}
+              className={smallInputClass}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Geography */}
+      <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+        <p className="text-xs text-gray-500 mb-3">
+          Optional geographic prioritisation. Priority regions are boosted, not required.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div>
+            <label htmlFor="primaryCountry" className="block text-xs font-medium text-gray-700 mb-1">
+              Primary Country
+            </label>
+            <select
+              id="primaryCountry"
+              value={primaryCountry}
+              onChange={(e) => setPrimaryCountry(e.target.value)}
+              className={smallInputClass}
+            >
+              <option value="">None</option>
+              {COUNTRY_CODES.map((code) => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="priorityRegions" className="block text-xs font-medium text-gray-700 mb-1">
+              Priority Regions (one per line)
+            </label>
+            <textarea
+              id="priorityRegions"
+              value={priorityRegions}
+              onChange={(e) => setPriorityRegions(e.target.value)}
+              rows={3}
+              disabled={!primaryCountry}
+              className={smallInputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="regionBoost" className="block text-xs font-medium text-gray-700 mb-1">
+              Region Boost (0-1)
+            </label>
+            <input
+              type="number"
+              id="regionBoost"
+              min={0}
+              max={1}
+              step={0.05}
+              value={regionBoost}
+              onChange={(e) => setRegionBoost(e.target.value)}
+              disabled={!primaryCountry}
+              className={smallInputClass}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Search */}
+      <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+        <p className="text-xs text-gray-500 mb-3">
+          Search providers to use (in order of selection). Leave empty for the environment default.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="flex flex-wrap gap-3">
+            {SEARCH_PROVIDER_TYPES.map((provider) => (
+              <label key={provider} className="flex items-center gap-1 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={searchProviders.includes(provider)}
+                  onChange={() => setSearchProviders(toggle(searchProviders, provider))}
+                  className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+                />
+                {provider}
+              </label>
+            ))}
+          </div>
+          <div>
+            <label htmlFor="searchCacheTtlHours" className="block text-xs font-medium text-gray-700 mb-1">
+              Search Cache TTL (hours)
+            </label>
+            <input
+              type="number"
+              id="searchCacheTtlHours"
+              min={0}
+              value={searchCacheTtlHours}
+              onChange={(e) => setSearchCacheTtlHours(e.target.value)}
+              className={smallInputClass}
+            />
+          </div>
+        </div>
+        <label className="mt-3 flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={crawlExhibitorLists}
+            onChange={(e) => setCrawlExhibitorLists(e.target.checked)}
+            className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+          />
+          Crawl exhibitor lists (follow exhibitors / sponsors / partners links on event sites found by search)
+        </label>
+        <label className="mt-3 flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={requireReview}
+            onChange={(e) => setRequireReview(e.target.checked)}
+            className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+          />
+          Review results before creating records (runs fill the review queue instead of creating companies and leads)
+        </label>
+      </div>
+
+      {/* Schedule */}
+      <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+        <p className="text-xs text-gray-500 mb-3">
+          Automatic runs via the scheduler tick. Cron uses 5 fields (minute hour day month weekday) in South African time,
+          e.g. <span className="font-mono">0 7 * * 1-5</span> = weekdays at 07:00. Leave the cron blank for manual-only intents.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-3">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={scheduleEnabled}
+                onChange={(e) => setScheduleEnabled(e.target.checked)}
+                className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+              />
+              Schedule enabled
+            </label>
+            <div>
+              <label htmlFor="scheduleCron" className="block text-xs font-medium text-gray-700 mb-1">
+                Cron Expression
+              </label>
+              <input
+                id="scheduleCron"
+                value={scheduleCron}
+                onChange={(e) => setScheduleCron(e.target.value)}
+                placeholder="0 6 * * *"
+                className={`${smallInputClass} font-mono`}
+              />
+            </div>
+            <fieldset>
+              <legend className="block text-xs font-medium text-gray-700 mb-1">
+                Only on these days (optional)
+              </legend>
+              <div className="flex flex-wrap gap-3">
+                {DAY_NAMES.map((day, index) => (
+                  <label key={day} className="flex items-center gap-1 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={scheduleDays.includes(index)}
+                      onChange={() => setScheduleDays(toggle(scheduleDays, index))}
+                      className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+                    />
+                    {day}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          </div>
+          <div>
+            <label htmlFor="quietPeriods" className="block text-xs font-medium text-gray-700 mb-1">
+              Quiet Periods (one per line: start, end, note)
+            </label>
+            <textarea
+              id="quietPeriods"
+              value={quietPeriods}
+              onChange={(e) => setQuietPeriods(e.target.value)}
+              rows={4}
+              placeholder={'12-15, 01-05, Festive shutdown\n2026-06-26, 2026-07-20, Winter holidays'}
+              className={`${smallInputClass} font-mono`}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Use MM-DD for ranges that repeat every year, or YYYY-MM-DD for one-off ranges.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {isEdit && (
+        <div>
+          <label htmlFor="changeNote" className="block text-sm font-medium text-gray-700 mb-1">
+            Change Note <span className="text-xs text-gray-500 font-normal">(optional, stored with the new version)</span>
+          </label>
+          <input
+            id="changeNote"
+            value={changeNote}
+            onChange={(e) => setChangeNote(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isSaving ? 'Saving...' : isEdit ? 'Save New Version' : 'Create Intent'}
+        </button>
+      </div>
+    </form>
+  );
+}
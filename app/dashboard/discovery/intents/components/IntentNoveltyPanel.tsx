@@ -0,0 +1,71 @@
+import Link from 'next/link';
+
+export interface IntentNoveltyItem {
+  runId: string;
+  startedAt: string;
+  newCount: number;
+  totalCount: number;
+  rate: number;
+  comparedRuns: number;
+}
+
+/**
+ * Novelty rate of the intent's recent runs: the share of results no earlier
+ * run of the intent returned. A low average means the seed queries keep
+ * finding the same companies and need new terms.
+ */
+export default function IntentNoveltyPanel({
+  history,
+  averageRate,
+  lowRate,
+}: {
+  history: IntentNoveltyItem[];
+  averageRate: number | null;
+  lowRate: number;
+}) {
+  const isExhausted = averageRate !== null && averageRate < lowRate;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">Novelty</h2>
+      <p className="text-xs text-gray-500 mb-4">Share of each run&apos;s results not found by earlier runs of this intent.</p>
+
+      {averageRate !== null && (
+        <div
+          className={`mb-4 p-3 rounded-lg text-sm ${
+            isExhausted ? 'bg-amber-50 border border-amber-200 text-amber-800' : 'bg-gray-50 text-gray-700'
+          }`}
+        >
+          Last 3 runs: <span className="font-semibold">{Math.round(averageRate * 100)}%</span> new
+          {isExhausted && ' — the seed queries look exhausted; consider new queries or keywords.'}
+        </div>
+      )}
+
+      {history.length === 0 ? (
+        <p className="text-sm text-gray-500">No completed runs with novelty stats yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {history.map((point) => (
+            <li key={point.runId} className="py-2 flex items-center justify-between gap-3 text-sm">
+              <Link href={`/dashboard/discovery/runs/${point.runId}/compare`} className="text-teal-700 hover:text-teal-900">
+                {new Date(point.startedAt).toLocaleDateString()}
+              </Link>
+              <span className="text-gray-700">
+                {point.comparedRuns === 0 ? (
+                  'First run'
+                ) : (
+                  <>
+                    <span className="font-medium">{Math.round(point.rate * 100)}%</span>{' '}
+                    <span className="text-xs text-gray-500">
+                      ({point.newCount}/{point.totalCount})
+                    </span>
+                  </>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+export interface IntentQueryYieldItem {
+  query: string;
+  start: number;
+  runs: number;
+  lastRunAt: string | null;
+  resultsFound: number;
+  resultsKept: number;
+  newResults: number;
+  newPerRun: number;
+  lowYield: boolean;
+}
+
+function pageLabel(start: number): string | null {
+  return start > 1 ? `results from ${start}` : null;
+}
+
+/**
+ * Query rotation of the intent: runs rotate through the seed queries, their
+ * priority region variants and later result pages. Queries that keep
+ * returning nothing new are picked last.
+ */
+export default function IntentQueryYieldPanel({
+  poolSize,
+  nextQueries,
+  stats,
+}: {
+  poolSize: number;
+  nextQueries: Array<{ query: string; start: number }>;
+  stats: IntentQueryYieldItem[];
+}) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">Query Rotation</h2>
+      <p className="text-xs text-gray-500 mb-4">
+        {poolSize} queries in the pool (seed queries, region variants and later result pages) · {stats.length} run so far
+      </p>
+
+      {nextQueries.length > 0 && (
+        <div className="mb-4 p-3 rounded-lg bg-gray-50 text-sm text-gray-700">
+          <p className="text-xs font-medium text-gray-500 mb-1">Next scheduled run</p>
+          <ul className="space-y-0.5">
+            {nextQueries.map((next) => (
+              <li key={`${next.start}:${next.query}`}>
+                {next.query}
+                {pageLabel(next.start) && <span className="text-xs text-gray-500"> ({pageLabel(next.start)})</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {stats.length === 0 ? (
+        <p className="text-sm text-gray-500">No queries run yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 max-h-96 overflow-y-auto">
+          {stats.map((stat) => (
+            <li key={`${stat.start}:${stat.query}`} className="py-2 text-sm">
+              <div className="flex items-start justify-between gap-3">
+                <p className="text-gray-900 min-w-0">
+                  {stat.query}
+                  {pageLabel(stat.start) && <span className="text-xs text-gray-500"> ({pageLabel(stat.start)})</span>}
+                </p>
+                {stat.lowYield && (
+                  <span className="flex-shrink-0 px-2 py-0.5 text-xs rounded-full bg-amber-100 text-amber-800">Low yield</span>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-0.5">
+                {stat.runs} run{stat.runs === 1 ? '' : 's'} · {stat.newPerRun.toFixed(1)} new per run · {stat.resultsKept} kept of{' '}
+                {stat.resultsFound} found
+                {stat.lastRunAt && <> · last {new Date(stat.lastRunAt).toLocaleDateString()}</>}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
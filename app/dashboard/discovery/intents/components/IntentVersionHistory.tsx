@@ -0,0 +1,112 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { DiscoveryIntent } from '@/lib/discovery/intents/types';
+
+export interface IntentVersionItem {
+  version: number;
+  changeNote: string | null;
+  changedByEmail: string | null;
+  createdAt: string;
+  snapshot: DiscoveryIntent;
+}
+
+export default function IntentVersionHistory({
+  intentId,
+  currentVersion,
+  versions,
+}: {
+  intentId: string;
+  currentVersion: number;
+  versions: IntentVersionItem[];
+}) {
+  const router = useRouter();
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRestore = async (version: number) => {
+    if (!confirm(`Restore version ${version}? This creates a new version with its settings.`)) {
+      return;
+    }
+
+    setRestoring(version);
+    setError(null);
+    try {
+      const res = await fetch(`/api/discovery/intents/${intentId}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        setError(data.error || 'Failed to restore version');
+        return;
+      }
+      router.refresh();
+    } catch {
+      setError('Failed to restore version');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Version History</h2>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+          {error}
+        </div>
+      )}
+
+      <ul className="divide-y divide-gray-100">
+        {versions.map((entry) => (
+          <li key={entry.version} className="py-3">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  v{entry.version}
+                  {entry.version === currentVersion && (
+                    <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-emerald-100 text-emerald-800">
+                      Current
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {new Date(entry.createdAt).toLocaleString()}
+                  {entry.changedByEmail && ` · ${entry.changedByEmail}`}
+                </p>
+                {entry.changeNote && <p className="text-sm text-gray-700 mt-1">{entry.changeNote}</p>}
+              </div>
+              <div className="flex gap-3 flex-shrink-0">
+                <button
+                  onClick={() => setExpanded(expanded === entry.version ? null : entry.version)}
+                  className="text-xs text-teal-700 hover:text-teal-900"
+                >
+                  {expanded === entry.version ? 'Hide' : 'View'}
+                </button>
+                {entry.version !== currentVersion && (
+                  <button
+                    onClick={() => handleRestore(entry.version)}
+                    disabled={restoring !== null}
+                    className="text-xs text-teal-700 hover:text-teal-900 disabled:opacity-50"
+                  >
+                    {restoring === entry.version ? 'Restoring...' : 'Restore'}
+                  </button>
+                )}
+              </div>
+            </div>
+            {expanded === entry.version && (
+              <pre className="mt-2 p-3 bg-gray-50 rounded text-xs text-gray-700 overflow-x-auto">
+                {JSON.stringify(entry.snapshot, null, 2)}
+              </pre>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
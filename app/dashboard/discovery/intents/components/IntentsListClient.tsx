@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import type { DiscoveryIntent } from '@/lib/discovery/intents/types';
+import { describeSchedule } from '@/lib/discovery/scheduler/schedule';
+
+export default function IntentsListClient({
+  initialIntents,
+}: {
+  initialIntents: DiscoveryIntent[];
+}) {
+  const [intents, setIntents] = useState<DiscoveryIntent[]>(initialIntents);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDelete = async (intent: DiscoveryIntent) => {
+    if (!confirm(`Delete intent "${intent.name}"? Its version history will also be deleted.`)) {
+      return;
+    }
+
+    setError(null);
+    try {
+      const res = await fetch(`/api/discovery/intents/${intent.id}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        setError(data.error || 'Failed to delete intent');
+        return;
+      }
+      setIntents((prev) => prev.filter((i) => i.id !== intent.id));
+    } catch {
+      setError('Failed to delete intent');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      {error && (
+        <div className="m-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+          {error}
+        </div>
+      )}
+
+      {intents.length === 0 ? (
+        <p className="p-6 text-sm text-gray-500">No intents defined yet.</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Intent</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Countries</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Queries</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Schedule</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Version</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {intents.map((intent) => (
+              <tr key={intent.id} className="hover:bg-gray-50">
+                <td className="px-4 py-3">
+                  <Link
+                    href={`/dashboard/discovery/intents/${intent.id}`}
+                    className="text-sm font-medium text-teal-700 hover:text-teal-900"
+                  >
+                    {intent.name}
+                  </Link>
+                  <p className="text-xs text-gray-500 font-mono">{intent.id}</p>
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-700">{intent.category}</td>
+                <td className="px-4 py-3 text-sm text-gray-700">{intent.targetCountries.join(', ')}</td>
+                <td className="px-4 py-3 text-sm text-gray-700">{intent.seedQueries.length}</td>
+                <td className="px-4 py-3 text-xs text-gray-600 font-mono">{describeSchedule(intent.schedule)}</td>
+                <td className="px-4 py-3 text-sm text-gray-700">v{intent.version ?? 1}</td>
+                <td className="px-4 py-3">
+                  <span
+                    className={`px-2 py-0.5 text-xs rounded-full ${
+                      intent.active ? 'bg-emerald-100 text-emerald-800' : 'bg-gray-100 text-gray-600'
+                    }`}
+                  >
+                    {intent.active ? 'Active' : 'Inactive'}
+                  </span>
+                </td>
+                <td className="px-4 py-3 text-right">
+                  <button
+                    onClick={() => handleDelete(intent)}
+                    className="text-xs text-red-600 hover:text-red-800"
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { getServerSession } from 'next-auth';
+import { redirect } from 'next/navigation';
+import { authOptions } from '@/lib/auth';
+import PageContainer from '@/app/dashboard/components/PageContainer';
+import Breadcrumbs from '@/app/dashboard/components/Breadcrumbs';
+import IntentForm from '../components/IntentForm';
+
+export const dynamic = 'force-dynamic';
+
+export default async function NewDiscoveryIntentPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    redirect('/login');
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    redirect('/dashboard');
+  }
+
+  return (
+    <PageContainer>
+      <div className="mb-6">
+        <Breadcrumbs
+          items={[
+            { label: 'Dashboard', href: '/dashboard' },
+            { label: 'Discovery', href: '/dashboard/discovery' },
+            { label: 'Intents', href: '/dashboard/discovery/intents' },
+            { label: 'New' },
+          ]}
+        />
+        <h1 className="text-3xl font-bold text-gray-900">New Discovery Intent</h1>
+      </div>
+
+      <IntentForm />
+    </PageContainer>
+  );
+}
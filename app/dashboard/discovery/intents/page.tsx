@@ -0,0 +1,53 @@
+import { getServerSession } from 'next-auth';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { authOptions } from '@/lib/auth';
+import { listIntents } from '@/lib/discovery/intents';
+import PageContainer from '@/app/dashboard/components/PageContainer';
+import Breadcrumbs from '@/app/dashboard/components/Breadcrumbs';
+import IntentsListClient from './components/IntentsListClient';
+
+export const dynamic = 'force-dynamic';
+
+export default async function DiscoveryIntentsPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    redirect('/login');
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    redirect('/dashboard');
+  }
+
+  const intents = await listIntents({ includeInactive: true });
+
+  return (
+    <PageContainer>
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <Breadcrumbs
+            items={[
+              { label: 'Dashboard', href: '/dashboard' },
+              { label: 'Discovery', href: '/dashboard/discovery' },
+              { label: 'Intents' },
+            ]}
+          />
+          <h1 className="text-3xl font-bold text-gray-900">Discovery Intents</h1>
+          <p className="text-gray-600 mt-1">
+            Edit the queries, keywords and limits used by manual and daily discovery. Every change is versioned.
+          </p>
+        </div>
+        <Link
+          href="/dashboard/discovery/intents/new"
+          className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors text-sm whitespace-nowrap"
+        >
+          New Intent
+        </Link>
+      </div>
+
+      <IntentsListClient initialIntents={intents} />
+    </PageContainer>
+  );
+}
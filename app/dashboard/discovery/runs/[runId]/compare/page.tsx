@@ -0,0 +1,242 @@
+import { getServerSession } from 'next-auth';
+import { redirect, notFound } from 'next/navigation';
+import Link from 'next/link';
+import { authOptions } from '@/lib/auth';
+import PageContainer from '@/app/dashboard/components/PageContainer';
+import Breadcrumbs from '@/app/dashboard/components/Breadcrumbs';
+import {
+  compareRuns,
+  listComparableRuns,
+  SCORE_CHANGE_THRESHOLD,
+  type RunDiffEntry,
+  type ComparedRun,
+} from '@/lib/discovery/diff';
+
+export const dynamic = 'force-dynamic';
+
+function describeRun(run: ComparedRun): string {
+  return `${run.startedAt.toLocaleString()} · ${run.resultCount} results${run.dryRun ? ' (preview)' : ''}`;
+}
+
+function DiffList({
+  title,
+  entries,
+  emptyText,
+  tone,
+}: {
+  title: string;
+  entries: RunDiffEntry[];
+  emptyText: string;
+  tone: string;
+}) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="px-4 py-3 border-b border-gray-200">
+        <h2 className={`text-sm font-semibold ${tone}`}>
+          {title} ({entries.length})
+        </h2>
+      </div>
+      {entries.length === 0 ? (
+        <p className="p-4 text-sm text-gray-500">{emptyText}</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 max-h-[32rem] overflow-y-auto">
+          {entries.map((entry) => (
+            <li key={entry.key} className="px-4 py-2 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{entry.name}</p>
+                {entry.domain && <p className="text-xs text-gray-500 font-mono truncate">{entry.domain}</p>}
+              </div>
+              {entry.score !== undefined && (
+                <span className="flex-shrink-0 text-xs text-gray-600">Score {Math.round(entry.score)}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default async function DiscoveryRunComparePage(props: {
+  params: Promise<{ runId: string }>;
+  searchParams: Promise<{ base?: string }>;
+}) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    redirect('/login');
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    redirect('/dashboard');
+  }
+
+  const { runId } = await props.params;
+  const { base } = await props.searchParams;
+
+  const comparison = await compareRuns(runId, base);
+  if (comparison.notFound && !base) {
+    notFound();
+  }
+
+  const run = comparison.run;
+  const baseRun = comparison.baseRun;
+  const diff = comparison.diff;
+  const comparableRuns = run ? await listComparableRuns(run) : [];
+
+  return (
+    <PageContainer>
+      <div className="mb-6">
+        <Breadcrumbs
+          items={[
+            { label: 'Dashboard', href: '/dashboard' },
+            { label: 'Discovery', href: '/dashboard/discovery' },
+            { label: 'Results', href: `/dashboard/discovery/runs/${runId}` },
+            { label: 'Compare' },
+          ]}
+        />
+        <h1 className="text-3xl font-bold text-gray-900">What&apos;s New Since the Last Run</h1>
+        {run && (
+          <p className="text-sm text-gray-600 mt-1">
+            {run.intentName || run.intentId || 'Discovery run'} · {describeRun(run)}
+          </p>
+        )}
+      </div>
+
+      {!comparison.success ? (
+        <div className="bg-white rounded-lg shadow p-6 text-red-700">{comparison.error}</div>
+      ) : (
+        <div className="space-y-6">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 flex flex-wrap items-end justify-between gap-4">
+            <form method="GET" className="flex flex-wrap items-end gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Compare with</label>
+                <select
+                  name="base"
+                  defaultValue={baseRun?.id ?? ''}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                >
+                  <option value="">Previous run of this intent</option>
+                  {comparableRuns.map((other) => (
+                    <option key={other.id} value={other.id}>
+                      {describeRun(other)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button
+                type="submit"
+                className="px-4 py-2 bg-teal-600 text-white text-sm font-medium rounded-lg hover:bg-teal-700"
+              >
+                Compare
+              </button>
+            </form>
+            {baseRun && (
+              <Link href={`/dashboard/discovery/runs/${baseRun.id}`} className="text-sm text-teal-600 hover:underline">
+                View base run
+              </Link>
+            )}
+          </div>
+
+          {!baseRun ? (
+            <div className="bg-white rounded-lg shadow p-6 text-gray-600">
+              {run?.intentId
+                ? 'This is the first completed run of its intent, so every result is new.'
+                : 'This run has no intent, so there is no previous run to compare with. Pick a run above.'}
+            </div>
+          ) : (
+            diff && (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                  <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                    <p className="text-xs text-gray-500">Novelty</p>
+                    <p className="text-2xl font-bold text-gray-900">{Math.round(diff.noveltyRate * 100)}%</p>
+                  </div>
+                  <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                    <p className="text-xs text-gray-500">New</p>
+                    <p className="text-2xl font-bold text-emerald-700">{diff.added.length}</p>
+                  </div>
+                  <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                    <p className="text-xs text-gray-500">Disappeared</p>
+                    <p className="text-2xl font-bold text-red-700">{diff.removed.length}</p>
+                  </div>
+                  <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                    <p className="text-xs text-gray-500">In both runs</p>
+                    <p className="text-2xl font-bold text-gray-900">{diff.unchangedCount}</p>
+                  </div>
+                  <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                    <p className="text-xs text-gray-500">Score changes</p>
+                    <p className="text-2xl font-bold text-amber-700">{diff.scoreChanges.length}</p>
+                  </div>
+                </div>
+
+                <p className="text-sm text-gray-600">
+                  Compared with the run of {describeRun(baseRun)}. Results are matched by domain (by name when
+                  there is no website).
+                </p>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <DiffList
+                    title="New domains"
+                    entries={diff.added}
+                    emptyText="Nothing new since the base run."
+                    tone="text-emerald-800"
+                  />
+                  <DiffList
+                    title="Disappeared domains"
+                    entries={diff.removed}
+                    emptyText="Every result of the base run came back."
+                    tone="text-red-800"
+                  />
+                </div>
+
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+                  <div className="px-4 py-3 border-b border-gray-200">
+                    <h2 className="text-sm font-semibold text-amber-800">
+                      Relevance score changes of {SCORE_CHANGE_THRESHOLD} or more ({diff.scoreChanges.length})
+                    </h2>
+                  </div>
+                  {diff.scoreChanges.length === 0 ? (
+                    <p className="p-4 text-sm text-gray-500">No significant score changes.</p>
+                  ) : (
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Result</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Before</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Now</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Change</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {diff.scoreChanges.map((change) => (
+                          <tr key={change.key}>
+                            <td className="px-4 py-2">
+                              <p className="text-sm font-medium text-gray-900">{change.name}</p>
+                              {change.domain && <p className="text-xs text-gray-500 font-mono">{change.domain}</p>}
+                            </td>
+                            <td className="px-4 py-2 text-sm text-gray-700">{Math.round(change.previousScore)}</td>
+                            <td className="px-4 py-2 text-sm text-gray-700">{Math.round(change.score ?? 0)}</td>
+                            <td
+                              className={`px-4 py-2 text-sm font-medium ${
+                                change.delta > 0 ? 'text-emerald-700' : 'text-red-700'
+                              }`}
+                            >
+                              {change.delta > 0 ? '+' : ''}
+                              {Math.round(change.delta)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              </>
+            )
+          )}
+        </div>
+      )}
+    </PageContainer>
+  );
+}
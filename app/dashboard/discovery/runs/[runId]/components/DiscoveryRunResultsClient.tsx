@@ -1,7 +1,10 @@
 'use client';
 
 import { useState, useMemo } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
+import type { RelevanceScore } from '@/lib/discovery/scraper/ContentAnalyzer';
+import RelevanceBreakdown from './RelevanceBreakdown';
 
 /**
  * Raw result as stored in resultsJson (matches lib/discovery/types.ts)
@@ -20,6 +23,9 @@ interface RawDiscoveryResult {
   lastName?: string;
   role?: string;
   linkedInUrl?: string;
+  contactChannels?: {
+    other?: string[];
+  };
   source?: string;
   discoveryTimestamp?: string;
   company?: RawDiscoveryResult;
@@ -32,6 +38,8 @@ interface RawDiscoveryResult {
     additionalMetadata?: {
       relevanceScore?: number;
       relevanceReasons?: string[];
+      /** Full relevance breakdown (google channel results) */
+      relevance?: RelevanceScore;
       detectedIndustry?: string;
       confidence?: string;
       channel?: string;
@@ -51,6 +59,10 @@ interface DiscoveryResult {
   name?: string;
   companyName?: string;
   website?: string;
+  linkedInUrl?: string;
+  /** First social profile (social channel companies) */
+  socialUrl?: string;
+  role?: string;
   email?: string;
   phone?: string;
   description?: string;
@@ -59,9 +71,23 @@ interface DiscoveryResult {
   channel?: string;
   industry?: string;
   relevanceReasons?: string[];
+  relevance?: RelevanceScore;
   confidence?: string;
 }
 
+/**
+ * Domain of a result website (as listed on the discovery domain list)
+ */
+function websiteDomain(website?: string): string | null {
+  if (!website) return null;
+  try {
+    const url = new URL(website.includes('://') ? website : `https://${website}`);
+    return url.hostname.toLowerCase().replace(/^www\./, '') || null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Normalize raw results from storage to flat UI structure
  */
@@ -78,12 +104,15 @@ function normalizeResults(rawResults: RawDiscoveryResult[]): DiscoveryResult[] {
           : company?.name,
         companyName: company?.name,
         website: company?.website,
+        linkedInUrl: contact?.linkedInUrl,
+        role: contact?.role,
         email: contact?.email || company?.email,
         phone: contact?.phone || company?.phone,
         description: company?.description,
         industry: company?.industry,
         relevanceScore: company?.discoveryMetadata?.additionalMetadata?.relevanceScore as number | undefined,
         relevanceReasons: company?.discoveryMetadata?.additionalMetadata?.relevanceReasons as string[] | undefined,
+        relevance: company?.discoveryMetadata?.additionalMetadata?.relevance,
         confidence: company?.discoveryMetadata?.additionalMetadata?.confidence as string | undefined,
         discoverySource: raw.source || company?.discoveryMetadata?.discoverySource,
         channel: raw.source || company?.discoveryMetadata?.discoverySource,
@@ -99,12 +128,16 @@ function normalizeResults(rawResults: RawDiscoveryResult[]): DiscoveryResult[] {
       name: raw.name || (raw.firstName ? `${raw.firstName} ${raw.lastName || ''}`.trim() : undefined),
       companyName: raw.companyName,
       website: raw.website,
+      linkedInUrl: raw.linkedInUrl,
+      socialUrl: raw.contactChannels?.other?.find((link) => link.startsWith('http')),
+      role: raw.role,
       email: raw.email,
       phone: raw.phone,
       description: raw.description,
       industry: raw.industry,
       relevanceScore: additionalMeta?.relevanceScore as number | undefined,
       relevanceReasons: additionalMeta?.relevanceReasons as string[] | undefined,
+      relevance: additionalMeta?.relevance,
       confidence: additionalMeta?.confidence as string | undefined,
       discoverySource: metadata?.discoverySource,
       channel: metadata?.discoverySource || additionalMeta?.channel,
@@ -119,6 +152,21 @@ interface RunStats {
   contactsCreated?: number;
   leadsCreated?: number;
   channelResults?: Record<string, number>;
+  searchProviderCounts?: Record<string, number>;
+  searchCache?: {
+    cacheHits?: number;
+    cacheMisses?: number;
+    paidApiCalls?: number;
+  };
+  blockedUrls?: Array<{ url: string; reason: string; status?: number }>;
+  blockedUrlCounts?: Record<string, number>;
+  domainListHits?: Record<string, { listType: string; count: number }>;
+  novelty?: {
+    newCount: number;
+    totalCount: number;
+    rate: number;
+    comparedRuns: number;
+  };
   intentConfig?: {
     intentId?: string;
     intentName?: string;
@@ -151,10 +199,16 @@ interface Props {
     createdLeadsCount?: number;
   };
   results: RawDiscoveryResult[];
+  /** Results not in the previous run of the same intent (null when there is none) */
+  newSinceLastRun?: { baseRunId: string; indexes: number[] } | null;
 }
 
-export default function DiscoveryRunResultsClient({ run, results: rawResults }: Props) {
+export default function DiscoveryRunResultsClient({ run, results: rawResults, newSinceLastRun }: Props) {
   const results = useMemo(() => normalizeResults(rawResults), [rawResults]);
+  const newIds = useMemo(
+    () => new Set((newSinceLastRun?.indexes ?? []).map((idx) => `result-${idx}`)),
+    [newSinceLastRun]
+  );
   const router = useRouter();
   
   // Modal states
@@ -169,12 +223,18 @@ export default function DiscoveryRunResultsClient({ run, results: rawResults }:
   const [createError, setCreateError] = useState<string | null>(null);
   const [createSuccess, setCreateSuccess] = useState<string | null>(null);
 
+  // Domains blocked from this page (one click, added to the discovery domain list)
+  const [blockedDomains, setBlockedDomains] = useState<Set<string>>(new Set());
+  const [blockingDomain, setBlockingDomain] = useState<string | null>(null);
+  const [blockError, setBlockError] = useState<string | null>(null);
+
   // Filters - defaults: minScore=0, channel=all, hasEmail=all, sort by score desc
   const [minScore, setMinScore] = useState<string>('0');
   const [selectedChannel, setSelectedChannel] = useState<string>('');
   const [hasEmail, setHasEmail] = useState<boolean | null>(null);
   const [sortBy, setSortBy] = useState<'score' | 'name'>('score');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [newOnly, setNewOnly] = useState(false);
 
   // Filter and sort results
   const filteredAndSortedResults = useMemo(() => {
@@ -199,6 +259,10 @@ export default function DiscoveryRunResultsClient({ run, results: rawResults }:
       filtered = filtered.filter((r) => !!r.email === hasEmail);
     }
 
+    if (newOnly) {
+      filtered = filtered.filter((r) => newIds.has(r.id));
+    }
+
     filtered.sort((a, b) => {
       let aValue: string | number;
       let bValue: string | number;
@@ -219,7 +283,7 @@ export default function DiscoveryRunResultsClient({ run, results: rawResults }:
     });
 
     return filtered;
-  }, [results, minScore, selectedChannel, hasEmail, sortBy, sortOrder]);
+  }, [results, minScore, selectedChannel, hasEmail, sortBy, sortOrder, newOnly, newIds]);
 
   const channels = useMemo(() => {
     const channelSet = new Set<string>();
@@ -294,6 +358,49 @@ export default function DiscoveryRunResultsClient({ run, results: rawResults }:
     }
   };
 
+  // Add a result's domain to the block list so future runs skip it
+  const handleBlockDomain = async (domain: string) => {
+    setBlockingDomain(domain);
+    setBlockError(null);
+
+    try {
+      const res = await fetch('/api/discovery/domains', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ domain, listType: 'block', runId: run.id }),
+      });
+      const data = await res.json();
+
+      if (!res.ok || !data.success) {
+        setBlockError(data.error || `Failed to block ${domain}`);
+        return;
+      }
+      setBlockedDomains((prev) => new Set(prev).add(domain));
+    } catch (error) {
+      setBlockError(error instanceof Error ? error.message : `Failed to block ${domain}`);
+    } finally {
+      setBlockingDomain(null);
+    }
+  };
+
+  const renderBlockDomain = (result: DiscoveryResult, className: string) => {
+    const domain = websiteDomain(result.website);
+    if (!domain) return null;
+    if (blockedDomains.has(domain)) {
+      return <span className="text-xs text-gray-500">Blocked</span>;
+    }
+    return (
+      <button
+        onClick={() => handleBlockDomain(domain)}
+        disabled={blockingDomain !== null}
+        title={`Skip ${domain} in future discovery runs`}
+        className={className}
+      >
+        {blockingDomain === domain ? 'Blocking...' : 'Block domain'}
+      </button>
+    );
+  };
+
   const handleRerunAsReal = async () => {
     setIsRerunning(true);
     setRerunError(null);
@@ -365,6 +472,7 @@ export default function DiscoveryRunResultsClient({ run, results: rawResults }:
       case 'failed': return 'bg-red-100 text-red-800';
       case 'running': return 'bg-blue-100 text-blue-800';
       case 'cancelled': return 'bg-gray-100 text-gray-600';
+      case 'skipped_budget': return 'bg-orange-100 text-orange-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -400,6 +508,13 @@ export default function DiscoveryRunResultsClient({ run, results: rawResults }:
                 <> • Finished: {new Date(run.finishedAt).toLocaleString()}</>
               )}
             </p>
+            {run.stats.novelty && run.stats.novelty.comparedRuns > 0 && (
+              <p className="text-sm text-gray-700 mt-1">
+                Novelty: <span className="font-semibold">{Math.round(run.stats.novelty.rate * 100)}%</span>{' '}
+                ({run.stats.novelty.newCount} of {run.stats.novelty.totalCount} results not found by the previous{' '}
+                {run.stats.novelty.comparedRuns} run{run.stats.novelty.comparedRuns === 1 ? '' : 's'} of this intent)
+              </p>
+            )}
           </div>
           {run.dryRun && run.intentId && (
             <button
@@ -517,6 +632,80 @@ export default function DiscoveryRunResultsClient({ run, results: rawResults }:
             </div>
           </div>
         )}
+
+        {run.stats.searchProviderCounts && Object.keys(run.stats.searchProviderCounts).length > 0 && (
+          <div className="mt-4 p-4 bg-gray-50 rounded-lg">
+            <h3 className="text-sm font-medium text-gray-900 mb-2">Search Providers (queries served)</h3>
+            <div className="flex flex-wrap gap-3">
+              {Object.entries(run.stats.searchProviderCounts).map(([provider, count]) => (
+                <div key={provider} className="bg-white rounded-lg px-3 py-2 border border-gray-200">
+                  <span className="text-xs text-gray-500">{provider}:</span>{' '}
+                  <span className="font-semibold text-gray-900">{count as number}</span>
+                </div>
+              ))}
+              {run.stats.searchCache && (
+                <>
+                  <div className="bg-white rounded-lg px-3 py-2 border border-emerald-200">
+                    <span className="text-xs text-gray-500">Cache hits:</span>{' '}
+                    <span className="font-semibold text-emerald-700">{run.stats.searchCache.cacheHits ?? 0}</span>
+                  </div>
+                  <div className="bg-white rounded-lg px-3 py-2 border border-amber-200">
+                    <span className="text-xs text-gray-500">Paid API calls:</span>{' '}
+                    <span className="font-semibold text-amber-700">{run.stats.searchCache.paidApiCalls ?? 0}</span>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        {run.stats.blockedUrls && run.stats.blockedUrls.length > 0 && (
+          <div className="mt-4 p-4 bg-gray-50 rounded-lg">
+            <h3 className="text-sm font-medium text-gray-900 mb-2">
+              Blocked URLs (not fetched)
+              {run.stats.blockedUrlCounts && (
+                <span className="ml-2 text-xs font-normal text-gray-500">
+                  {Object.entries(run.stats.blockedUrlCounts)
+                    .map(([reason, count]) => `${reason.replace(/_/g, ' ')}: ${count}`)
+                    .join(', ')}
+                </span>
+              )}
+            </h3>
+            <ul className="space-y-0.5 text-xs text-gray-600 max-h-40 overflow-y-auto">
+              {run.stats.blockedUrls.map((blocked, index) => (
+                <li key={`${blocked.url}-${index}`} className="truncate">
+                  <span className="text-gray-500">{blocked.reason.replace(/_/g, ' ')}</span>{' '}
+                  <a href={blocked.url} target="_blank" rel="noopener noreferrer" className="text-teal-600 hover:underline">
+                    {blocked.url}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {run.stats.domainListHits && Object.keys(run.stats.domainListHits).length > 0 && (
+          <div className="mt-4 p-4 bg-gray-50 rounded-lg">
+            <h3 className="text-sm font-medium text-gray-900 mb-2">
+              Domain list hits
+              <Link href="/dashboard/discovery/domains" className="ml-2 text-xs font-normal text-teal-600 hover:underline">
+                Manage domains
+              </Link>
+            </h3>
+            <ul className="space-y-0.5 text-xs text-gray-600 max-h-40 overflow-y-auto">
+              {Object.entries(run.stats.domainListHits)
+                .sort(([, a], [, b]) => b.count - a.count)
+                .map(([domain, hit]) => (
+                  <li key={domain}>
+                    <span className="font-mono text-gray-900">{domain}</span>{' '}
+                    <span className="text-gray-500">
+                      {hit.listType === 'allow' ? 'allowed' : `skipped (${hit.listType})`} × {hit.count}
+                    </span>
+                  </li>
+                ))}
+            </ul>
+          </div>
+        )}
       </div>
 
       {/* Action Bar */}
@@ -609,11 +798,31 @@ export default function DiscoveryRunResultsClient({ run, results: rawResults }:
             </select>
           </div>
         </div>
-        <div className="mt-3 text-sm text-gray-600">
-          Showing {filteredAndSortedResults.length} of {results.length} results
+        <div className="mt-3 flex flex-wrap items-center gap-4 text-sm text-gray-600">
+          <span>Showing {filteredAndSortedResults.length} of {results.length} results</span>
+          {newSinceLastRun && (
+            <>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={newOnly}
+                  onChange={(e) => setNewOnly(e.target.checked)}
+                  className="w-4 h-4 text-teal-600 border-gray-300 rounded focus:ring-teal-500"
+                />
+                Only new since last run ({newIds.size})
+              </label>
+              <Link href={`/dashboard/discovery/runs/${run.id}/compare`} className="text-teal-600 hover:underline">
+                Compare with previous run
+              </Link>
+            </>
+          )}
         </div>
       </div>
 
+      {blockError && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">{blockError}</div>
+      )}
+
       {/* Results Table */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
         <div className="overflow-x-auto">
@@ -669,13 +878,30 @@ export default function DiscoveryRunResultsClient({ run, results: rawResults }:
                       )}
                     </td>
                     <td className="px-4 py-3">
-                      <div className="font-medium text-gray-900">{result.name || result.companyName || '-'}</div>
-                      {result.industry && (
-                        <div className="text-xs text-gray-500 mt-0.5">{result.industry}</div>
+                      <div className="font-medium text-gray-900">
+                        {result.name || result.companyName || '-'}
+                        {newIds.has(result.id) && (
+                          <span className="ml-2 px-1.5 py-0.5 text-xs font-medium rounded bg-emerald-100 text-emerald-800">New</span>
+                        )}
+                      </div>
+                      {(result.role || result.industry) && (
+                        <div className="text-xs text-gray-500 mt-0.5">
+                          {result.role && result.companyName ? `${result.role} at ${result.companyName}` : result.role || result.industry}
+                        </div>
                       )}
                     </td>
                     <td className="px-4 py-3 text-sm">
-                      {result.website ? (
+                      {(result.linkedInUrl || result.socialUrl) && !result.website ? (
+                        <a
+                          href={result.linkedInUrl || result.socialUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-teal-600 hover:text-teal-800 hover:underline truncate block max-w-[180px]"
+                          title={result.linkedInUrl || result.socialUrl}
+                        >
+                          {(result.linkedInUrl || result.socialUrl)!.replace(/^https?:\/\/(www\.)?/, '')}
+                        </a>
+                      ) : result.website ? (
                         <a
                           href={result.website}
                           target="_blank"
@@ -725,12 +951,15 @@ export default function DiscoveryRunResultsClient({ run, results: rawResults }:
                       {result.channel || result.discoverySource || '-'}
                     </td>
                     <td className="px-4 py-3 text-sm">
-                      <button
-                        onClick={() => setSelectedDetail(result)}
-                        className="text-teal-600 hover:text-teal-800 font-medium"
-                      >
-                        View
-                      </button>
+                      <div className="flex flex-col items-start gap-1">
+                        <button
+                          onClick={() => setSelectedDetail(result)}
+                          className="text-teal-600 hover:text-teal-800 font-medium"
+                        >
+                          View
+                        </button>
+                        {renderBlockDomain(result, 'text-xs text-red-600 hover:text-red-800 whitespace-nowrap disabled:opacity-50')}
+                      </div>
                     </td>
                   </tr>
                 ))
@@ -812,7 +1041,14 @@ export default function DiscoveryRunResultsClient({ run, results: rawResults }:
                 </div>
               )}
 
-              {selectedDetail.relevanceReasons && selectedDetail.relevanceReasons.length > 0 && (
+              {selectedDetail.relevance ? (
+                <div>
+                  <dt className="text-sm font-medium text-gray-500 mb-2">Relevance Breakdown</dt>
+                  <dd>
+                    <RelevanceBreakdown relevance={selectedDetail.relevance} />
+                  </dd>
+                </div>
+              ) : selectedDetail.relevanceReasons && selectedDetail.relevanceReasons.length > 0 && (
                 <div>
                   <dt className="text-sm font-medium text-gray-500 mb-2">Relevance Reasons</dt>
                   <dd className="flex flex-wrap gap-2">
@@ -825,7 +1061,11 @@ export default function DiscoveryRunResultsClient({ run, results: rawResults }:
                 </div>
               )}
             </div>
-            <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+            <div className="px-6 py-4 border-t border-gray-200 flex justify-end items-center gap-3">
+              {renderBlockDomain(
+                selectedDetail,
+                'px-4 py-2 text-sm font-medium text-red-700 border border-red-300 rounded-lg hover:bg-red-50 disabled:opacity-50'
+              )}
               <button
                 onClick={() => setSelectedDetail(null)}
                 className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
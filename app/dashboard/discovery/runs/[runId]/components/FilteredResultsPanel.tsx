@@ -0,0 +1,88 @@
+'use client';
+
+import { useState } from 'react';
+import type { FilteredOutResult } from '@/lib/discovery/scraper/ContentAnalyzer';
+import RelevanceBreakdown from './RelevanceBreakdown';
+
+/**
+ * "Why was this filtered out": sites the run scraped but dropped because their
+ * relevance score fell below the intent's threshold, closest to it first.
+ */
+export default function FilteredResultsPanel({
+  results,
+  totalCount,
+}: {
+  results: FilteredOutResult[];
+  /** Filtered-out sites in the run (more than results when the stored list was capped) */
+  totalCount?: number;
+}) {
+  const [open, setOpen] = useState(false);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  if (results.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center justify-between text-left">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Filtered Out ({totalCount ?? results.length})</h2>
+          <p className="text-xs text-gray-500 mt-0.5">
+            Sites scraped but scored below the relevance threshold
+            {totalCount !== undefined && totalCount > results.length && ` (top ${results.length} by score shown)`}
+          </p>
+        </div>
+        <span className="text-sm text-teal-600 font-medium">{open ? 'Hide' : 'Show'}</span>
+      </button>
+
+      {open && (
+        <ul className="mt-4 divide-y divide-gray-100">
+          {results.map((result, idx) => (
+            <li key={`${result.website}-${idx}`} className="py-3">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900">{result.name}</p>
+                  <a
+                    href={result.website}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-teal-600 hover:underline break-all"
+                  >
+                    {result.website.replace(/^https?:\/\//, '')}
+                  </a>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    Query: {result.query}
+                    {result.start && result.start > 1 && ` (from result ${result.start})`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  <span className="px-2.5 py-1 rounded-full text-sm font-semibold text-gray-600 bg-gray-50">
+                    {result.relevance.score}
+                    {result.relevance.threshold !== undefined && (
+                      <span className="font-normal text-gray-400"> / {result.relevance.threshold}</span>
+                    )}
+                  </span>
+                  <button
+                    onClick={() => setExpanded(expanded === idx ? null : idx)}
+                    className="text-sm text-teal-600 hover:text-teal-800 font-medium"
+                  >
+                    {expanded === idx ? 'Hide' : 'Why?'}
+                  </button>
+                </div>
+              </div>
+              {expanded === idx && (
+                <div className="mt-3 p-4 bg-gray-50 rounded-lg">
+                  {result.searchResultSnippet && (
+                    <p className="text-xs text-gray-500 mb-3">Search snippet: {result.searchResultSnippet}</p>
+                  )}
+                  <RelevanceBreakdown relevance={result.relevance} />
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import type { RelevanceScore } from '@/lib/discovery/scraper/ContentAnalyzer';
+
+/** Component scores and their maximum points (see ContentAnalyzer) */
+const COMPONENTS: Array<{ key: keyof RelevanceScore['breakdown']; label: string; max: number }> = [
+  { key: 'keywordScore', label: 'Keywords', max: 30 },
+  { key: 'serviceScore', label: 'Services', max: 25 },
+  { key: 'businessTypeScore', label: 'Business type', max: 30 },
+  { key: 'contentQualityScore', label: 'Content quality', max: 15 },
+  { key: 'geographyBoostScore', label: 'Priority region', max: 15 },
+];
+
+/**
+ * Relevance score of a scraped site: component scores against the threshold,
+ * matched intent keywords with the text they were found in, and reasons
+ */
+export default function RelevanceBreakdown({ relevance }: { relevance: RelevanceScore }) {
+  const positive = relevance.matchedKeywords?.positive ?? [];
+  const negative = relevance.matchedKeywords?.negative ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="text-sm text-gray-700 mb-2">
+          Score <span className="font-semibold">{relevance.score}</span>
+          {relevance.threshold !== undefined && (
+            <>
+              {' '}of threshold <span className="font-semibold">{relevance.threshold}</span>
+              {relevance.score < relevance.threshold && (
+                <span className="text-red-600"> ({relevance.threshold - relevance.score} short)</span>
+              )}
+            </>
+          )}
+          {' · '}
+          {relevance.confidence} confidence
+          {relevance.detectedIndustry && <> · {relevance.detectedIndustry}</>}
+        </p>
+        <dl className="space-y-1.5">
+          {COMPONENTS.map(({ key, label, max }) => {
+            const value = relevance.breakdown[key] ?? 0;
+            return (
+              <div key={key} className="flex items-center gap-3 text-xs">
+                <dt className="w-28 flex-shrink-0 text-gray-600">{label}</dt>
+                <dd className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-teal-500" style={{ width: `${Math.min(100, (value / max) * 100)}%` }} />
+                </dd>
+                <dd className="w-12 text-right text-gray-700">
+                  {value}/{max}
+                </dd>
+              </div>
+            );
+          })}
+        </dl>
+      </div>
+
+      {(positive.length > 0 || negative.length > 0) && (
+        <div>
+          <dt className="text-sm font-medium text-gray-500 mb-2">Matched Keywords</dt>
+          <dd>
+            <ul className="space-y-1.5 text-xs">
+              {positive.map((match) => (
+                <li key={`positive-${match.keyword}`}>
+                  <span className="px-2 py-0.5 rounded-full bg-green-100 text-green-800 font-medium">+ {match.keyword}</span>
+                  {match.snippet && <span className="ml-2 text-gray-500">{match.snippet}</span>}
+                </li>
+              ))}
+              {negative.map((match) => (
+                <li key={`negative-${match.keyword}`}>
+                  <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-800 font-medium">− {match.keyword}</span>
+                  {match.snippet && <span className="ml-2 text-gray-500">{match.snippet}</span>}
+                </li>
+              ))}
+            </ul>
+          </dd>
+        </div>
+      )}
+
+      {relevance.reasons.length > 0 && (
+        <div>
+          <dt className="text-sm font-medium text-gray-500 mb-2">Reasons</dt>
+          <dd className="flex flex-wrap gap-2">
+            {relevance.reasons.map((reason, idx) => (
+              <span key={idx} className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded-full">
+                {reason}
+              </span>
+            ))}
+          </dd>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,350 @@
+'use client';
+
+/**
+ * Discovery Result Review Queue
+ *
+ * Accept (after optional edits), reject with a reason (optionally blocking the
+ * domain or excluding a keyword from the intent) or snooze each result of a
+ * review-mode run or dry run.
+ */
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+
+type ReviewStatus = 'pending' | 'accepted' | 'rejected' | 'snoozed';
+
+export interface ReviewItem {
+  index: number;
+  type: 'company' | 'contact' | 'lead';
+  name: string;
+  website: string;
+  industry: string;
+  contactName?: string;
+  companyName?: string;
+  email?: string;
+  phone?: string;
+  description?: string;
+  channel?: string;
+  relevanceScore?: number;
+  relevanceReasons?: string[];
+  domain: string | null;
+  status: ReviewStatus;
+  reason: string | null;
+  snoozedUntil: string | null;
+  feedback: { blockedDomain?: string; excludedKeyword?: string } | null;
+  companyId: string | null;
+  previous?: { runId: string; status: string; reason: string | null; reviewedAt: string };
+}
+
+interface Props {
+  runId: string;
+  intentId: string | null;
+  items: ReviewItem[];
+}
+
+const STATUS_TABS: Array<{ status: ReviewStatus; label: string }> = [
+  { status: 'pending', label: 'Pending' },
+  { status: 'snoozed', label: 'Snoozed' },
+  { status: 'accepted', label: 'Accepted' },
+  { status: 'rejected', label: 'Rejected' },
+];
+
+const SNOOZE_DAYS = [7, 30, 90];
+
+const inputClass =
+  'w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500';
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-ZA', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+function ReviewCard({ runId, intentId, item }: { runId: string; intentId: string | null; item: ReviewItem }) {
+  const router = useRouter();
+  const [name, setName] = useState(item.name);
+  const [website, setWebsite] = useState(item.website);
+  const [industry, setIndustry] = useState(item.industry);
+  const [mode, setMode] = useState<'reject' | 'snooze' | null>(null);
+  const [reason, setReason] = useState('');
+  const [blockDomain, setBlockDomain] = useState(false);
+  const [excludeKeyword, setExcludeKeyword] = useState('');
+  const [snoozeDays, setSnoozeDays] = useState(SNOOZE_DAYS[0]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canEditCompany = item.type !== 'contact';
+  const isOpen = item.status === 'pending' || item.status === 'snoozed';
+
+  const submit = async (body: Record<string, unknown>) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/discovery/runs/${runId}/results/${item.index}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Review failed');
+      }
+
+      setMode(null);
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Review failed');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAccept = () => {
+    const edits: Record<string, string> = {};
+    if (name.trim() !== item.name) edits.name = name;
+    if (canEditCompany && website.trim() !== item.website) edits.website = website;
+    if (canEditCompany && industry.trim() !== item.industry) edits.industry = industry;
+    submit({ action: 'accept', edits });
+  };
+
+  const handleReject = () => {
+    submit({
+      action: 'reject',
+      reason,
+      blockDomain,
+      excludeKeyword: excludeKeyword.trim() || undefined,
+    });
+  };
+
+  const handleSnooze = () => {
+    submit({ action: 'snooze', days: snoozeDays, reason: reason.trim() || undefined });
+  };
+
+  return (
+    <li className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+      <div className="flex items-start justify-between gap-4 mb-3">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 text-xs text-gray-500 mb-1">
+            <span className="px-2 py-0.5 rounded bg-gray-100 capitalize">{item.type}</span>
+            {item.channel && <span className="capitalize">{item.channel}</span>}
+            {item.relevanceScore !== undefined && <span>Score {Math.round(item.relevanceScore)}</span>}
+            {item.domain && <span className="font-mono">{item.domain}</span>}
+          </div>
+          {item.contactName && <p className="text-sm text-gray-700">{item.contactName}</p>}
+          <p className="text-sm text-gray-600">
+            {[item.companyName, item.email, item.phone].filter(Boolean).join(' · ')}
+          </p>
+          {item.description && <p className="text-sm text-gray-500 mt-1 line-clamp-2">{item.description}</p>}
+          {item.relevanceReasons && item.relevanceReasons.length > 0 && (
+            <p className="text-xs text-gray-500 mt-1">{item.relevanceReasons.slice(0, 3).join(' · ')}</p>
+          )}
+        </div>
+        {item.previous && (
+          <div
+            className={`flex-shrink-0 text-xs px-2 py-1 rounded ${
+              item.previous.status === 'rejected' ? 'bg-red-50 text-red-700' : 'bg-emerald-50 text-emerald-700'
+            }`}
+          >
+            {item.previous.status === 'rejected' ? 'Rejected' : 'Accepted'} in an earlier run ({formatDate(item.previous.reviewedAt)})
+            {item.previous.reason && <>: {item.previous.reason}</>}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Name</label>
+          <input value={name} onChange={(e) => setName(e.target.value)} disabled={!isOpen} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Website</label>
+          <input
+            value={website}
+            onChange={(e) => setWebsite(e.target.value)}
+            disabled={!isOpen || !canEditCompany}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Industry</label>
+          <input
+            value={industry}
+            onChange={(e) => setIndustry(e.target.value)}
+            disabled={!isOpen || !canEditCompany}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {item.status === 'accepted' && (
+        <p className="text-sm text-emerald-700">
+          Accepted
+          {item.companyId && (
+            <>
+              {' '}·{' '}
+              <Link href={`/dashboard/companies/${item.companyId}`} className="text-teal-600 hover:underline">
+                View company
+              </Link>
+            </>
+          )}
+        </p>
+      )}
+
+      {item.status === 'rejected' && (
+        <p className="text-sm text-red-700">
+          Rejected: {item.reason}
+          {item.feedback?.blockedDomain && <> · blocked {item.feedback.blockedDomain}</>}
+          {item.feedback?.excludedKeyword && <> · excluded &quot;{item.feedback.excludedKeyword}&quot;</>}
+        </p>
+      )}
+
+      {item.status === 'snoozed' && item.snoozedUntil && (
+        <p className="text-sm text-amber-700 mb-3">
+          Snoozed until {formatDate(item.snoozedUntil)}
+          {item.reason && <>: {item.reason}</>}
+        </p>
+      )}
+
+      {isOpen && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handleAccept}
+              disabled={isSaving || !name.trim()}
+              className="px-3 py-1.5 bg-emerald-600 text-white text-sm font-medium rounded-lg hover:bg-emerald-700 disabled:opacity-50"
+            >
+              {isSaving && mode === null ? 'Saving...' : 'Accept'}
+            </button>
+            <button
+              onClick={() => setMode(mode === 'reject' ? null : 'reject')}
+              disabled={isSaving}
+              className="px-3 py-1.5 border border-red-300 text-red-700 text-sm font-medium rounded-lg hover:bg-red-50 disabled:opacity-50"
+            >
+              Reject…
+            </button>
+            <button
+              onClick={() => setMode(mode === 'snooze' ? null : 'snooze')}
+              disabled={isSaving}
+              className="px-3 py-1.5 border border-gray-300 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              Snooze…
+            </button>
+          </div>
+
+          {mode === 'reject' && (
+            <div className="p-3 bg-red-50 rounded-lg space-y-2">
+              <input
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Reason (e.g. directory site, competitor, wrong country)"
+                className={inputClass}
+              />
+              {item.domain && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={blockDomain}
+                    onChange={(e) => setBlockDomain(e.target.checked)}
+                    className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+                  />
+                  Block <span className="font-mono">{item.domain}</span> in future runs
+                </label>
+              )}
+              {intentId && (
+                <input
+                  value={excludeKeyword}
+                  onChange={(e) => setExcludeKeyword(e.target.value)}
+                  placeholder="Add an exclude keyword to the intent (optional)"
+                  className={inputClass}
+                />
+              )}
+              <button
+                onClick={handleReject}
+                disabled={isSaving || !reason.trim()}
+                className="px-3 py-1.5 bg-red-600 text-white text-sm font-medium rounded-lg hover:bg-red-700 disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Reject'}
+              </button>
+            </div>
+          )}
+
+          {mode === 'snooze' && (
+            <div className="p-3 bg-amber-50 rounded-lg flex flex-wrap items-center gap-2">
+              <select
+                value={snoozeDays}
+                onChange={(e) => setSnoozeDays(Number(e.target.value))}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg"
+              >
+                {SNOOZE_DAYS.map((days) => (
+                  <option key={days} value={days}>
+                    {days} days
+                  </option>
+                ))}
+              </select>
+              <input
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Reason (optional)"
+                className="flex-1 min-w-48 px-3 py-1.5 text-sm border border-gray-300 rounded-lg"
+              />
+              <button
+                onClick={handleSnooze}
+                disabled={isSaving}
+                className="px-3 py-1.5 bg-amber-600 text-white text-sm font-medium rounded-lg hover:bg-amber-700 disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Snooze'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </li>
+  );
+}
+
+export default function ResultReviewClient({ runId, intentId, items }: Props) {
+  const [status, setStatus] = useState<ReviewStatus>('pending');
+
+  const counts = useMemo(() => {
+    const byStatus: Record<ReviewStatus, number> = { pending: 0, accepted: 0, rejected: 0, snoozed: 0 };
+    for (const item of items) byStatus[item.status]++;
+    return byStatus;
+  }, [items]);
+
+  const visible = items.filter((item) => item.status === status);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        {STATUS_TABS.map((tab) => (
+          <button
+            key={tab.status}
+            onClick={() => setStatus(tab.status)}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium ${
+              status === tab.status
+                ? 'bg-teal-600 text-white'
+                : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {tab.label} ({counts[tab.status]})
+          </button>
+        ))}
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 text-center text-gray-600">
+          {status === 'pending' ? 'Nothing left to review.' : `No ${status} results.`}
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {visible.map((item) => (
+            <ReviewCard key={`${item.index}-${item.status}`} runId={runId} intentId={intentId} item={item} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
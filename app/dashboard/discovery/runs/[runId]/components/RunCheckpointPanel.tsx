@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import type { DiscoveryRunCheckpoint } from '@/lib/discovery/runner';
+
+/**
+ * Where a run stopped on its time budget, with a Resume action that queues
+ * a continuation run for the job worker
+ */
+export default function RunCheckpointPanel({
+  runId,
+  checkpoint,
+  continuationRunId,
+}: {
+  runId: string;
+  checkpoint: DiscoveryRunCheckpoint;
+  /** Continuation run, once the run has been resumed */
+  continuationRunId: string | null;
+}) {
+  const [isQueuing, setIsQueuing] = useState(false);
+  const [queuedJobId, setQueuedJobId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleResume = async () => {
+    setIsQueuing(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/discovery/runs/${runId}/resume`, { method: 'POST' });
+      const data = await res.json();
+      if (data.success) {
+        setQueuedJobId(data.jobId);
+      } else {
+        setError(data.error || 'Failed to resume run');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resume run');
+    } finally {
+      setIsQueuing(false);
+    }
+  };
+
+  const completed = checkpoint.completedQueries.length;
+  const pending = checkpoint.pendingQueries.length;
+
+  return (
+    <div className="mb-6 bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-1">Stopped on Time Budget</h3>
+          <p className="text-sm text-gray-600">
+            {completed} of {completed + pending} queries run
+            {checkpoint.continuation > 0 && ` across ${checkpoint.continuation + 1} runs`}, {pending} left.{' '}
+            {checkpoint.scrapedUrls.length} sites scraped and {checkpoint.resultsSoFar} results stored so far.
+          </p>
+          {pending > 0 && (
+            <p className="text-xs text-gray-500 mt-1">
+              Next: {checkpoint.pendingQueries.slice(0, 3).map((spec) => spec.query).join(', ')}
+              {pending > 3 && ` and ${pending - 3} more`}
+            </p>
+          )}
+          {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+        </div>
+        <div className="flex-shrink-0">
+          {continuationRunId ? (
+            <Link
+              href={`/dashboard/discovery/runs/${continuationRunId}`}
+              className="text-sm text-teal-600 hover:text-teal-800 font-medium"
+            >
+              View continuation →
+            </Link>
+          ) : queuedJobId ? (
+            <Link href="/dashboard/jobs" className="text-sm text-teal-600 hover:text-teal-800 font-medium">
+              Resume queued · view jobs
+            </Link>
+          ) : (
+            <button
+              onClick={handleResume}
+              disabled={isQueuing}
+              className="px-4 py-2 bg-teal-600 text-white text-sm font-medium rounded-lg hover:bg-teal-700 disabled:opacity-50"
+            >
+              {isQueuing ? 'Queuing...' : 'Resume'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,10 +2,16 @@ import { getServerSession } from 'next-auth';
 import { redirect, notFound } from 'next/navigation';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import Link from 'next/link';
 import { Prisma } from '@prisma/client';
+import { compareRuns } from '@/lib/discovery/diff';
 import PageContainer from '@/app/dashboard/components/PageContainer';
 import Breadcrumbs from '@/app/dashboard/components/Breadcrumbs';
 import DiscoveryRunResultsClient from './components/DiscoveryRunResultsClient';
+import FilteredResultsPanel from './components/FilteredResultsPanel';
+import RunCheckpointPanel from './components/RunCheckpointPanel';
+import type { FilteredOutResult } from '@/lib/discovery/scraper';
+import { getRunResumeState } from '@/lib/discovery/runner';
 
 export const dynamic = 'force-dynamic';
 
@@ -91,6 +97,20 @@ export default async function DiscoveryRunResultsPage(
 
   const stats = (run.stats as Record<string, unknown>) || {};
 
+  // Sites dropped below the relevance threshold ("why was this filtered out")
+  const filteredResults = Array.isArray(run.filteredResultsJson)
+    ? (run.filteredResultsJson as unknown as FilteredOutResult[])
+    : [];
+
+  // Checkpoint of a run that stopped on its time budget, and its continuation
+  const resumeState = await getRunResumeState(run.id);
+
+  // Results new since the previous run of the same intent
+  const comparison = run.intentId && Array.isArray(resultsJson) ? await compareRuns(run.id) : null;
+  const newSinceLastRun = comparison?.baseRun && comparison.diff
+    ? { baseRunId: comparison.baseRun.id, indexes: comparison.diff.added.map((entry) => entry.index) }
+    : null;
+
   return (
     <PageContainer>
       <div className="mb-6">
@@ -105,10 +125,47 @@ export default async function DiscoveryRunResultsPage(
         <h1 className="text-3xl font-bold text-gray-900">
           Discovery Run Results
         </h1>
+        {run.resumedFromRunId && (
+          <p className="text-sm text-gray-600 mt-1">
+            Continues{' '}
+            <Link href={`/dashboard/discovery/runs/${run.resumedFromRunId}`} className="text-teal-600 hover:underline">
+              an earlier run
+            </Link>{' '}
+            that stopped on its time budget.
+          </p>
+        )}
       </div>
 
-      {/* Banner explaining preview vs saved results */}
-      {run.dryRun ? (
+      {resumeState?.checkpoint && (
+        <RunCheckpointPanel
+          runId={run.id}
+          checkpoint={resumeState.checkpoint}
+          continuationRunId={resumeState.continuationRunId}
+        />
+      )}
+
+      {/* Banner explaining preview vs held for review vs saved results */}
+      {run.reviewMode ? (
+        <div className="mb-6 bg-sky-50 border border-sky-200 rounded-lg p-4">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h3 className="text-sm font-semibold text-sky-900 mb-1">
+                Held for Review
+              </h3>
+              <p className="text-sm text-sky-800">
+                This intent requires review: results are not saved until they are accepted in the review queue.
+                So far {run.createdCompaniesCount} companies, {run.createdContactsCount} contacts, and {run.createdLeadsCount} leads have been created from accepted results.
+              </p>
+            </div>
+            <Link
+              href={`/dashboard/discovery/runs/${run.id}/review`}
+              className="flex-shrink-0 px-4 py-2 bg-teal-600 text-white text-sm font-medium rounded-lg hover:bg-teal-700"
+            >
+              Review results
+            </Link>
+          </div>
+        </div>
+      ) : run.dryRun ? (
         <div className="mb-6 bg-amber-50 border border-amber-200 rounded-lg p-4">
           <div className="flex items-start">
             <svg className="w-5 h-5 text-amber-600 mt-0.5 mr-3 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -120,7 +177,11 @@ export default async function DiscoveryRunResultsPage(
               </h3>
               <p className="text-sm text-amber-800">
                 This is a preview of discovered results. No records have been created in the database. 
-                You can select results and create companies manually, or re-run this discovery as a real run to create records automatically.
+                You can select results and create companies manually, accept or reject them one by one in the{' '}
+                <Link href={`/dashboard/discovery/runs/${run.id}/review`} className="font-medium underline">
+                  review queue
+                </Link>
+                , or re-run this discovery as a real run to create records automatically.
               </p>
             </div>
           </div>
@@ -158,7 +219,17 @@ export default async function DiscoveryRunResultsPage(
           createdLeadsCount: run.createdLeadsCount,
         }}
         results={results}
+        newSinceLastRun={newSinceLastRun}
       />
+
+      {filteredResults.length > 0 && (
+        <div className="mt-6">
+          <FilteredResultsPanel
+            results={filteredResults}
+            totalCount={typeof stats.filteredOutCount === 'number' ? stats.filteredOutCount : undefined}
+          />
+        </div>
+      )}
     </PageContainer>
   );
 }
@@ -0,0 +1,105 @@
+import { getServerSession } from 'next-auth';
+import { redirect, notFound } from 'next/navigation';
+import Link from 'next/link';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import PageContainer from '@/app/dashboard/components/PageContainer';
+import Breadcrumbs from '@/app/dashboard/components/Breadcrumbs';
+import { getReviewQueue, isReviewableRun, type ReviewQueueItem, type RejectionFeedback } from '@/lib/discovery/review';
+import ResultReviewClient, { type ReviewItem } from '../components/ResultReviewClient';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Flatten a queue item for the client (company fields of company and lead results)
+ */
+function toReviewItem(item: ReviewQueueItem): ReviewItem {
+  const { result } = item;
+  const company = result.type === 'company' ? result : result.type === 'lead' ? result.company : undefined;
+  const contact = result.type === 'contact' ? result : result.type === 'lead' ? result.contact : undefined;
+  const metadata = (company ?? contact)?.discoveryMetadata;
+  const additional = metadata?.additionalMetadata as { relevanceScore?: number; relevanceReasons?: string[] } | undefined;
+
+  return {
+    index: item.index,
+    type: result.type,
+    name: company?.name ?? contact?.name ?? 'Unnamed result',
+    website: company?.website ?? '',
+    industry: company?.industry ?? '',
+    contactName: result.type === 'lead' ? contact?.name : undefined,
+    companyName: contact?.companyName,
+    email: contact?.email ?? company?.email,
+    phone: contact?.phone ?? company?.phone,
+    description: company?.description,
+    channel: result.type === 'lead' ? result.source : metadata?.discoverySource,
+    relevanceScore: additional?.relevanceScore,
+    relevanceReasons: additional?.relevanceReasons,
+    domain: item.domain,
+    status: item.status,
+    reason: item.review?.reason ?? null,
+    snoozedUntil: item.review?.snoozedUntil?.toISOString() ?? null,
+    feedback: (item.review?.feedback as RejectionFeedback | null) ?? null,
+    companyId: item.review?.companyId ?? null,
+    previous: item.previous
+      ? { ...item.previous, reviewedAt: item.previous.reviewedAt.toISOString() }
+      : undefined,
+  };
+}
+
+export default async function DiscoveryRunReviewPage(
+  props: { params: Promise<{ runId: string }> }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    redirect('/login');
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    redirect('/dashboard');
+  }
+
+  const { runId } = await props.params;
+
+  const run = await prisma.discoveryRun.findUnique({
+    where: { id: runId },
+    select: { id: true, dryRun: true, reviewMode: true, intentId: true, intentName: true, startedAt: true },
+  });
+
+  if (!run) {
+    notFound();
+  }
+
+  const queue = (await getReviewQueue(runId)) ?? [];
+
+  return (
+    <PageContainer>
+      <div className="mb-6">
+        <Breadcrumbs
+          items={[
+            { label: 'Dashboard', href: '/dashboard' },
+            { label: 'Discovery', href: '/dashboard/discovery' },
+            { label: 'Results', href: `/dashboard/discovery/runs/${run.id}` },
+            { label: 'Review' },
+          ]}
+        />
+        <h1 className="text-3xl font-bold text-gray-900">Review Discovery Results</h1>
+        <p className="text-sm text-gray-600 mt-1">
+          {run.intentName || run.intentId || 'Discovery run'} · {run.startedAt.toLocaleString()}
+        </p>
+      </div>
+
+      {isReviewableRun(run) ? (
+        <ResultReviewClient runId={run.id} intentId={run.intentId} items={queue.map(toReviewItem)} />
+      ) : (
+        <div className="bg-white rounded-lg shadow p-6 text-gray-600">
+          Records for this run were created when it ran, so there is nothing to review.{' '}
+          <Link href={`/dashboard/discovery/runs/${run.id}`} className="text-teal-600 hover:underline">
+            Back to results
+          </Link>
+        </div>
+      )}
+    </PageContainer>
+  );
+}
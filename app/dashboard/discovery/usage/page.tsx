@@ -0,0 +1,167 @@
+import { getServerSession } from 'next-auth';
+import { redirect } from 'next/navigation';
+import { authOptions } from '@/lib/auth';
+import {
+  SCRAPER_USAGE_PROVIDER,
+  emptyUsageTotals,
+  getUsageDay,
+  getUsageQuotas,
+  listUsageHistory,
+} from '@/lib/discovery/usage';
+import { getSearchProvidersStatus } from '@/lib/discovery/search';
+import PageContainer from '@/app/dashboard/components/PageContainer';
+import Breadcrumbs from '@/app/dashboard/components/Breadcrumbs';
+
+export const dynamic = 'force-dynamic';
+
+/** Days of history shown */
+const HISTORY_DAYS = 14;
+
+const PROVIDER_LABELS: Record<string, string> = {
+  google_cse: 'Google CSE',
+  bing: 'Bing',
+  brave: 'Brave',
+  serpapi: 'SerpAPI',
+  [SCRAPER_USAGE_PROVIDER]: 'Website fetches',
+};
+
+function formatMegabytes(bytes: number) {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Usage against a daily quota (0 = unlimited)
+ */
+function QuotaBar({ label, used, quota, format = String }: {
+  label: string;
+  used: number;
+  quota: number;
+  format?: (value: number) => string;
+}) {
+  const percent = quota > 0 ? Math.min(100, Math.round((used / quota) * 100)) : 0;
+  const color = percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-yellow-500' : 'bg-teal-500';
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <span className="text-gray-700">{label}</span>
+        <span className="text-gray-900 font-medium">
+          {format(used)}
+          <span className="text-gray-500 font-normal"> / {quota > 0 ? format(quota) : 'unlimited'}</span>
+        </span>
+      </div>
+      <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+        {quota > 0 && <div className={`h-full ${color}`} style={{ width: `${percent}%` }} />}
+      </div>
+    </div>
+  );
+}
+
+export default async function DiscoveryUsagePage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    redirect('/login');
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    redirect('/dashboard');
+  }
+
+  const history = await listUsageHistory(HISTORY_DAYS);
+  const quotas = getUsageQuotas();
+  const { providers } = getSearchProvidersStatus();
+  const today = getUsageDay();
+  const todayUsage = (provider: string) =>
+    history.find((record) => record.day === today && record.provider === provider) ?? emptyUsageTotals();
+  const scraped = todayUsage(SCRAPER_USAGE_PROVIDER);
+
+  return (
+    <PageContainer>
+      <div className="mb-6">
+        <Breadcrumbs
+          items={[
+            { label: 'Dashboard', href: '/dashboard' },
+            { label: 'Discovery', href: '/dashboard/discovery' },
+            { label: 'Usage' },
+          ]}
+        />
+        <h1 className="text-3xl font-bold text-gray-900">Discovery Usage</h1>
+        <p className="text-gray-600 mt-1">
+          Search API requests and website fetches per day against the daily quotas. A run the remaining quota
+          cannot cover is downsized to the queries it can afford, or skipped when nothing is left.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">Search Requests Today</h2>
+          <p className="text-xs text-gray-500 mb-4">{today} · cache hits cost nothing</p>
+          <div className="space-y-4">
+            {providers.map(({ provider, configured }) => {
+              const usage = todayUsage(provider);
+              return (
+                <div key={provider}>
+                  <QuotaBar
+                    label={`${PROVIDER_LABELS[provider] ?? provider}${configured ? '' : ' (not configured)'}`}
+                    used={usage.apiCalls}
+                    quota={quotas.search[provider]}
+                  />
+                  {usage.cacheHits > 0 && (
+                    <p className="text-xs text-gray-500 mt-1">{usage.cacheHits} served from cache</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">Website Fetches Today</h2>
+          <p className="text-xs text-gray-500 mb-4">Pages scraped, exhibitor lists, tender notices, social pages and enrichment</p>
+          <div className="space-y-4">
+            <QuotaBar label="Pages" used={scraped.pagesFetched} quota={quotas.scrapePages} />
+            <QuotaBar label="Data" used={scraped.bytesFetched} quota={quotas.scrapeBytes} format={formatMegabytes} />
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Last {HISTORY_DAYS} Days</h2>
+        </div>
+        {history.length === 0 ? (
+          <p className="px-6 py-8 text-sm text-gray-500 text-center">No usage recorded yet</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Day</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Provider</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Requests</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Cache Hits</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Pages</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Data</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {history.map((record) => (
+                <tr key={`${record.day}-${record.provider}`}>
+                  <td className="px-6 py-3 text-sm text-gray-900">{record.day}</td>
+                  <td className="px-6 py-3 text-sm text-gray-700">{PROVIDER_LABELS[record.provider] ?? record.provider}</td>
+                  <td className="px-6 py-3 text-sm text-gray-900 text-right">{record.apiCalls || '-'}</td>
+                  <td className="px-6 py-3 text-sm text-gray-500 text-right">{record.cacheHits || '-'}</td>
+                  <td className="px-6 py-3 text-sm text-gray-900 text-right">{record.pagesFetched || '-'}</td>
+                  <td className="px-6 py-3 text-sm text-gray-500 text-right">
+                    {record.bytesFetched ? formatMegabytes(record.bytesFetched) : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </PageContainer>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+
+/**
+ * Duplicate Review Actions
+ *
+ * "Merge" (keeps the older record) and "Not a duplicate" for one candidate
+ * pair on the review queue.
+ */
+
+import Link from 'next/link';
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface Props {
+  candidateId: string;
+  /** Link to the side-by-side merge page, when the entity has one */
+  compareHref?: string;
+}
+
+export default function DuplicateReviewActions({ candidateId, compareHref }: Props) {
+  const router = useRouter();
+  const [loading, setLoading] = useState<'merge' | 'not_duplicate' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const review = async (action: 'merge' | 'not_duplicate') => {
+    if (action === 'merge' && !confirm('Merge the newer record into the older one? This cannot be undone.')) {
+      return;
+    }
+
+    setLoading(action);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/duplicates/${candidateId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Review failed');
+      }
+
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Review failed');
+      setLoading(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      <div className="flex gap-2">
+        {compareHref && (
+          <Link
+            href={compareHref}
+            className="px-3 py-1.5 text-sm font-medium text-[#1B7A7A] hover:text-[#155555]"
+          >
+            Compare…
+          </Link>
+        )}
+        <button
+          onClick={() => review('not_duplicate')}
+          disabled={loading !== null}
+          className="px-3 py-1.5 text-sm font-medium border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          {loading === 'not_duplicate' ? 'Saving...' : 'Not a duplicate'}
+        </button>
+        <button
+          onClick={() => review('merge')}
+          disabled={loading !== null}
+          className="px-3 py-1.5 text-sm font-medium bg-[#1B7A7A] text-white rounded-md hover:bg-[#155555] disabled:opacity-50"
+        >
+          {loading === 'merge' ? 'Merging...' : 'Merge'}
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
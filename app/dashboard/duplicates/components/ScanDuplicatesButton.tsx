@@ -0,0 +1,62 @@
+'use client';
+
+/**
+ * "Scan now" for the duplicate review queue (the scan also runs nightly)
+ */
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface Props {
+  /** Limit the scan to one table */
+  entityType?: 'company' | 'contact' | 'lead';
+}
+
+export default function ScanDuplicatesButton({ entityType }: Props) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleScan = async () => {
+    setLoading(true);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/duplicates/scan', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(entityType ? { entityTypes: [entityType] } : {}),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Scan failed');
+      }
+
+      const totals = Object.values(data.byType as Record<string, { created: number }>);
+      const created = totals.reduce((sum, type) => sum + type.created, 0);
+      setMessage(`Scan complete: ${created} new possible duplicate${created === 1 ? '' : 's'}`);
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Scan failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      {message && <span className="text-sm text-gray-600">{message}</span>}
+      {error && <span className="text-sm text-red-600">{error}</span>}
+      <button
+        onClick={handleScan}
+        disabled={loading}
+        className="bg-[#1B7A7A] text-white px-4 py-2 rounded-md hover:bg-[#155555] font-medium disabled:opacity-50"
+      >
+        {loading ? 'Scanning...' : 'Scan now'}
+      </button>
+    </div>
+  );
+}
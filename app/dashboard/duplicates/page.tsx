@@ -0,0 +1,212 @@
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import Link from "next/link";
+import type { DuplicateEntityType, DuplicateReason } from "@/lib/duplicates";
+import DuplicateReviewActions from "./components/DuplicateReviewActions";
+import ScanDuplicatesButton from "./components/ScanDuplicatesButton";
+
+export const dynamic = 'force-dynamic';
+
+const PAGE_SIZE = 100;
+
+const TYPE_LABELS: Record<DuplicateEntityType, string> = {
+  company: "Companies",
+  contact: "Contacts",
+  lead: "Leads",
+};
+
+const REASON_LABELS: Record<DuplicateReason["type"], string> = {
+  same_domain: "Same domain",
+  same_email: "Same email",
+  same_phone: "Same phone",
+  similar_name: "Similar name",
+};
+
+interface RecordSummary {
+  title: string;
+  details: string[];
+  href: string;
+  createdAt: Date;
+}
+
+/**
+ * Display summaries for the records referenced by the candidates
+ */
+async function loadSummaries(
+  ids: Record<DuplicateEntityType, string[]>
+): Promise<Map<string, RecordSummary>> {
+  const [companies, contacts, leads] = await Promise.all([
+    ids.company.length > 0
+      ? prisma.company.findMany({ where: { id: { in: ids.company } } })
+      : [],
+    ids.contact.length > 0
+      ? prisma.contact.findMany({ where: { id: { in: ids.contact } }, include: { company: true } })
+      : [],
+    ids.lead.length > 0
+      ? prisma.lead.findMany({ where: { id: { in: ids.lead } }, include: { companyRel: true } })
+      : [],
+  ]);
+
+  const summaries = new Map<string, RecordSummary>();
+  for (const company of companies) {
+    summaries.set(company.id, {
+      title: company.name,
+      details: [company.website, company.country, company.industry].filter((value): value is string => Boolean(value)),
+      href: `/dashboard/companies/${company.id}`,
+      createdAt: company.createdAt,
+    });
+  }
+  for (const contact of contacts) {
+    summaries.set(contact.id, {
+      title: [contact.firstName, contact.lastName].filter(Boolean).join(" ") || contact.email || "Unnamed contact",
+      details: [contact.email, contact.phone, contact.role, contact.company?.name].filter((value): value is string => Boolean(value)),
+      href: `/dashboard/contacts/${contact.id}`,
+      createdAt: contact.createdAt,
+    });
+  }
+  for (const lead of leads) {
+    summaries.set(lead.id, {
+      title: [lead.firstName, lead.lastName].filter(Boolean).join(" ") || lead.email,
+      details: [lead.email, lead.phone, lead.companyRel?.name ?? lead.company, lead.country].filter((value): value is string => Boolean(value)),
+      href: `/dashboard/leads/${lead.id}`,
+      createdAt: lead.createdAt,
+    });
+  }
+  return summaries;
+}
+
+export default async function DuplicatesPage(props: {
+  searchParams: Promise<{ type?: string }>;
+}) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  const { type } = await props.searchParams;
+  const entityType = type && type in TYPE_LABELS ? (type as DuplicateEntityType) : undefined;
+
+  const [candidates, counts] = await Promise.all([
+    prisma.duplicateCandidate.findMany({
+      where: { status: "pending", ...(entityType ? { entityType } : {}) },
+      orderBy: [{ confidence: "desc" }, { createdAt: "asc" }],
+      take: PAGE_SIZE,
+    }),
+    prisma.duplicateCandidate.groupBy({
+      by: ["entityType"],
+      where: { status: "pending" },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const countByType = Object.fromEntries(counts.map((row) => [row.entityType, row._count._all]));
+  const totalPending = counts.reduce((sum, row) => sum + row._count._all, 0);
+
+  const ids: Record<DuplicateEntityType, string[]> = { company: [], contact: [], lead: [] };
+  for (const candidate of candidates) {
+    ids[candidate.entityType as DuplicateEntityType]?.push(candidate.recordAId, candidate.recordBId);
+  }
+  const summaries = await loadSummaries(ids);
+
+  const renderRecord = (summary: RecordSummary | undefined, label: string) => (
+    <div className="flex-1 min-w-0">
+      <p className="text-xs font-medium text-gray-500 uppercase mb-1">{label}</p>
+      {summary ? (
+        <>
+          <Link href={summary.href} className="font-medium text-[#1B7A7A] hover:text-[#155555]">
+            {summary.title}
+          </Link>
+          <p className="text-sm text-gray-600 truncate">{summary.details.join(" · ") || "No details"}</p>
+          <p className="text-xs text-gray-400">Added {summary.createdAt.toLocaleDateString()}</p>
+        </>
+      ) : (
+        <p className="text-sm text-gray-400">Record no longer exists</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Possible Duplicates</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              Found by the nightly scan. Merging keeps the older record; &quot;Not a duplicate&quot; hides the pair for good.
+            </p>
+          </div>
+          <ScanDuplicatesButton entityType={entityType} />
+        </div>
+
+        <div className="flex gap-2 mb-6">
+          <Link
+            href="/dashboard/duplicates"
+            className={`px-3 py-1.5 rounded-md text-sm font-medium ${
+              !entityType ? "bg-[#1B7A7A] text-white" : "bg-white text-gray-700 border border-gray-300 hover:bg-gray-50"
+            }`}
+          >
+            All ({totalPending})
+          </Link>
+          {(Object.keys(TYPE_LABELS) as DuplicateEntityType[]).map((key) => (
+            <Link
+              key={key}
+              href={`/dashboard/duplicates?type=${key}`}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium ${
+                entityType === key ? "bg-[#1B7A7A] text-white" : "bg-white text-gray-700 border border-gray-300 hover:bg-gray-50"
+              }`}
+            >
+              {TYPE_LABELS[key]} ({countByType[key] ?? 0})
+            </Link>
+          ))}
+        </div>
+
+        {candidates.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-6 text-center text-gray-600">
+            No possible duplicates to review.
+          </div>
+        ) : (
+          <ul className="space-y-4">
+            {candidates.map((candidate) => {
+              const reasons = (candidate.reasons ?? []) as unknown as DuplicateReason[];
+              const compareHref = candidate.entityType === "company"
+                ? `/dashboard/companies/${candidate.recordAId}/merge?with=${candidate.recordBId}`
+                : candidate.entityType === "contact"
+                  ? `/dashboard/contacts/${candidate.recordAId}/merge?with=${candidate.recordBId}`
+                  : undefined;
+
+              return (
+                <li key={candidate.id} className="bg-white rounded-lg shadow p-5">
+                  <div className="flex justify-between items-center mb-4">
+                    <div className="flex items-center gap-3">
+                      <span className="px-2 py-0.5 rounded text-xs font-medium bg-[#E6F5F5] text-[#155555]">
+                        {TYPE_LABELS[candidate.entityType as DuplicateEntityType] ?? candidate.entityType}
+                      </span>
+                      <span className="text-sm font-semibold text-gray-900">
+                        {Math.round(candidate.confidence * 100)}% confidence
+                      </span>
+                    </div>
+                    <DuplicateReviewActions candidateId={candidate.id} compareHref={compareHref} />
+                  </div>
+                  <div className="flex gap-6 mb-3">
+                    {renderRecord(summaries.get(candidate.recordAId), "Kept (older)")}
+                    {renderRecord(summaries.get(candidate.recordBId), "Merged in")}
+                  </div>
+                  <ul className="flex flex-wrap gap-2">
+                    {reasons.map((reason) => (
+                      <li key={reason.type} className="text-xs px-2 py-1 rounded bg-gray-100 text-gray-700">
+                        {REASON_LABELS[reason.type] ?? reason.type}: {reason.value}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import { useState } from 'react';
+import type { JobStatus } from '@/lib/jobs';
+
+export interface JobRow {
+  id: string;
+  type: string;
+  status: string;
+  payload: Record<string, unknown> | null;
+  checkpoint: Record<string, unknown> | null;
+  result: Record<string, unknown> | null;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lastError: string | null;
+  createdAt: string;
+  finishedAt: string | null;
+}
+
+const STATUSES: Array<{ value: JobStatus; label: string; badge: string }> = [
+  { value: 'pending', label: 'Pending', badge: 'bg-gray-100 text-gray-700' },
+  { value: 'running', label: 'Running', badge: 'bg-blue-100 text-blue-800' },
+  { value: 'completed', label: 'Completed', badge: 'bg-emerald-100 text-emerald-800' },
+  { value: 'dead', label: 'Dead', badge: 'bg-red-100 text-red-800' },
+];
+
+const TYPE_LABELS: Record<string, string> = {
+  discovery_run: 'Discovery run',
+  enrichment_batch: 'Enrichment batch',
+  rescore: 'Rescore',
+};
+
+/** One-click jobs; finer-grained payloads can be posted to /api/admin/jobs */
+const QUICK_JOBS: Array<{ label: string; body: { type: string; payload: Record<string, unknown> } }> = [
+  { label: 'Run daily discovery', body: { type: 'discovery_run', payload: { mode: 'daily' } } },
+  { label: 'Enrich unenriched companies', body: { type: 'enrichment_batch', payload: { limit: 100, onlyMissing: true } } },
+  { label: 'Rescore leads and companies', body: { type: 'rescore', payload: { scope: 'all' } } },
+];
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('en-ZA', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function itemCount(value: unknown): number | null {
+  return Array.isArray(value) ? value.length : null;
+}
+
+/**
+ * Progress from the job's checkpoint (or result once completed)
+ */
+function describeProgress(job: JobRow): string {
+  const state = job.result ?? job.checkpoint;
+  if (!state) {
+    return '—';
+  }
+
+  if (job.type === 'rescore') {
+    return `${state.leadsUpdated ?? 0} leads, ${state.companiesUpdated ?? 0} companies`;
+  }
+
+  if (job.type === 'enrichment_batch') {
+    const total = itemCount(state.companyIds) ?? state.attempted;
+    return `${state.succeeded ?? 0} enriched, ${state.failed ?? 0} failed of ${total ?? '?'}`;
+  }
+
+  if (job.type === 'discovery_run') {
+    const total = itemCount(state.intentIds) ?? state.intents;
+    const runs = itemCount(state.runIds) ?? 0;
+    return total !== undefined ? `${runs} run(s) of ${total} intent(s)` : `${runs} run(s)`;
+  }
+
+  return '—';
+}
+
+export default function JobQueueClient({
+  initialJobs,
+  initialCounts,
+}: {
+  initialJobs: JobRow[];
+  initialCounts: Record<JobStatus, number>;
+}) {
+  const [jobs, setJobs] = useState<JobRow[]>(initialJobs);
+  const [counts, setCounts] = useState(initialCounts);
+  const [filter, setFilter] = useState<JobStatus | 'all'>('all');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const visible = filter === 'all' ? jobs : jobs.filter((job) => job.status === filter);
+
+  const reload = async () => {
+    const res = await fetch('/api/admin/jobs');
+    const data = await res.json();
+    if (res.ok && data.success) {
+      setJobs(data.jobs);
+      setCounts(data.counts);
+    }
+  };
+
+  const handleEnqueue = async (body: (typeof QUICK_JOBS)[number]['body']) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/admin/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        setError(data.error || 'Failed to queue job');
+        return;
+      }
+      await reload();
+    } catch {
+      setError('Failed to queue job');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRetry = async (job: JobRow) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/jobs/${job.id}/retry`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        setError(data.error || 'Failed to retry job');
+        return;
+      }
+      await reload();
+    } catch {
+      setError('Failed to retry job');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-gray-700">Queue:</span>
+        {QUICK_JOBS.map((quick) => (
+          <button
+            key={quick.label}
+            onClick={() => handleEnqueue(quick.body)}
+            disabled={isBusy}
+            className="px-4 py-1.5 bg-teal-600 text-white text-sm font-medium rounded-lg hover:bg-teal-700 disabled:opacity-50"
+          >
+            {quick.label}
+          </button>
+        ))}
+        <button onClick={reload} className="ml-auto text-sm text-teal-600 hover:text-teal-800 font-medium">
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">{error}</div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {[{ value: 'all' as const, label: 'All' }, ...STATUSES].map((tab) => (
+          <button
+            key={tab.value}
+            onClick={() => setFilter(tab.value)}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium ${
+              filter === tab.value
+                ? 'bg-teal-600 text-white'
+                : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {tab.label}
+            {tab.value !== 'all' && ` (${counts[tab.value] ?? 0})`}
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        {visible.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500">No jobs.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Job</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Progress</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Attempts</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {visible.map((job) => (
+                <tr key={job.id} className="hover:bg-gray-50 align-top">
+                  <td className="px-4 py-3 text-sm text-gray-900">
+                    {TYPE_LABELS[job.type] ?? job.type}
+                    <p className="text-xs font-mono text-gray-400">{job.id}</p>
+                  </td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={`px-2 py-0.5 text-xs rounded-full ${
+                        STATUSES.find((status) => status.value === job.status)?.badge ?? 'bg-gray-100 text-gray-700'
+                      }`}
+                    >
+                      {job.status}
+                    </span>
+                    {job.status === 'pending' && new Date(job.runAt) > new Date() && (
+                      <p className="text-xs text-gray-500 mt-1">Retry at {formatDateTime(job.runAt)}</p>
+                    )}
+                    {job.lastError && (
+                      <p className="text-xs text-red-600 mt-1 max-w-xs break-words">{job.lastError}</p>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{describeProgress(job)}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700">
+                    {job.attempts}/{job.maxAttempts}
+                  </td>
+                  <td className="px-4 py-3 text-xs text-gray-600">
+                    {formatDateTime(job.createdAt)}
+                    {job.finishedAt && <> · finished {formatDateTime(job.finishedAt)}</>}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {job.status === 'dead' && (
+                      <button
+                        onClick={() => handleRetry(job)}
+                        className="text-xs text-teal-600 hover:text-teal-800 font-medium"
+                      >
+                        Retry
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
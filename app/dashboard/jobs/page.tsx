@@ -0,0 +1,58 @@
+import { getServerSession } from 'next-auth';
+import { redirect } from 'next/navigation';
+import { authOptions } from '@/lib/auth';
+import { listJobs, countJobsByStatus } from '@/lib/jobs';
+import PageContainer from '@/app/dashboard/components/PageContainer';
+import Breadcrumbs from '@/app/dashboard/components/Breadcrumbs';
+import JobQueueClient, { type JobRow } from './components/JobQueueClient';
+
+export const dynamic = 'force-dynamic';
+
+export default async function JobsPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    redirect('/login');
+  }
+
+  const userRole = (session.user as { role?: string }).role?.toLowerCase();
+  if (userRole !== 'admin') {
+    redirect('/dashboard');
+  }
+
+  const [jobs, counts] = await Promise.all([listJobs(), countJobsByStatus()]);
+
+  return (
+    <PageContainer>
+      <div className="mb-6">
+        <Breadcrumbs items={[{ label: 'Dashboard', href: '/dashboard' }, { label: 'Jobs' }]} />
+        <h1 className="text-3xl font-bold text-gray-900">Jobs</h1>
+        <p className="text-gray-600 mt-1">
+          Discovery runs, enrichment batches and rescoring queued for the background worker. Long jobs run in
+          chunks and resume from their last checkpoint; failed attempts are retried with backoff and end up as
+          dead after their last attempt.
+        </p>
+      </div>
+
+      <JobQueueClient
+        initialCounts={counts}
+        initialJobs={jobs.map(
+          (job): JobRow => ({
+            id: job.id,
+            type: job.type,
+            status: job.status,
+            payload: job.payload as Record<string, unknown> | null,
+            checkpoint: job.checkpoint as Record<string, unknown> | null,
+            result: job.result as Record<string, unknown> | null,
+            attempts: job.attempts,
+            maxAttempts: job.maxAttempts,
+            runAt: job.runAt.toISOString(),
+            lastError: job.lastError,
+            createdAt: job.createdAt.toISOString(),
+            finishedAt: job.finishedAt?.toISOString() ?? null,
+          })
+        )}
+      />
+    </PageContainer>
+  );
+}
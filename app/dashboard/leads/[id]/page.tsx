@@ -8,6 +8,9 @@ import LeadStatusManager from "./components/LeadStatusManager";
 import LeadOwnerManager from "./components/LeadOwnerManager";
 import LeadNotes from "./components/LeadNotes";
 import OutreachSection from "./components/OutreachSection";
+import { getTenderUrgency } from "@/lib/lead-management/tenders";
+import MergeHistory from "../../components/MergeHistory";
+import { LEAD_MERGE_FIELDS } from "@/lib/merge";
 
 export default async function LeadDetailPage(props: { params: Promise<{ id: string }> }) {
   const session = await getServerSession(authOptions);
@@ -46,6 +49,12 @@ export default async function LeadDetailPage(props: { params: Promise<{ id: stri
     notFound();
   }
 
+  // Leads merged into this one (duplicate review queue)
+  const mergeAudits = await prisma.mergeAudit.findMany({
+    where: { entityType: "lead", survivorId: id },
+    orderBy: { createdAt: "desc" },
+  });
+
   // Fetch users for owner assignment
   const users = await prisma.user.findMany({
     select: {
@@ -79,6 +88,17 @@ export default async function LeadDetailPage(props: { params: Promise<{ id: stri
     return colors[status] || "bg-gray-100 text-gray-800";
   };
 
+  const tenderUrgency = getTenderUrgency(lead.tenderClosingDate);
+  const tenderUrgencyLabel: Record<string, { label: string; className: string }> = {
+    closed: { label: "Closed", className: "bg-gray-100 text-gray-800" },
+    urgent: { label: "Closes within 3 days", className: "bg-red-100 text-red-800" },
+    soon: { label: "Closes within 7 days", className: "bg-yellow-100 text-yellow-800" },
+    open: { label: "Open", className: "bg-green-100 text-green-800" },
+  };
+  const tenderDocumentUrls = Array.isArray(lead.tenderDocumentUrls)
+    ? lead.tenderDocumentUrls.filter((url): url is string => typeof url === "string")
+    : [];
+
   return (
     <div className="p-8">
       <div className="max-w-4xl mx-auto">
@@ -207,6 +227,70 @@ export default async function LeadDetailPage(props: { params: Promise<{ id: stri
               </div>
             </div>
 
+            {/* Tender details (leads from tender discovery) */}
+            {(lead.tenderNumber || lead.tenderClosingDate) && (
+              <div className="mt-8 pt-6 border-t border-gray-200">
+                <div className="flex items-center gap-3 mb-4">
+                  <h3 className="text-lg font-semibold text-gray-900">Tender</h3>
+                  {tenderUrgency && (
+                    <span
+                      className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${tenderUrgencyLabel[tenderUrgency].className}`}
+                    >
+                      {tenderUrgencyLabel[tenderUrgency].label}
+                    </span>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500 mb-1">Tender Number</h3>
+                    <p className="text-gray-900">{lead.tenderNumber || "-"}</p>
+                  </div>
+
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500 mb-1">Issuing Body</h3>
+                    <p className="text-gray-900">{lead.tenderIssuingBody || "-"}</p>
+                  </div>
+
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500 mb-1">Closing Date</h3>
+                    <p className="text-gray-900">
+                      {lead.tenderClosingDate ? new Date(lead.tenderClosingDate).toLocaleString() : "-"}
+                    </p>
+                  </div>
+
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500 mb-1">Briefing Date</h3>
+                    <p className="text-gray-900">
+                      {lead.tenderBriefingDate ? new Date(lead.tenderBriefingDate).toLocaleString() : "-"}
+                    </p>
+                  </div>
+
+                  <div className="md:col-span-2">
+                    <h3 className="text-sm font-medium text-gray-500 mb-1">Documents</h3>
+                    {tenderDocumentUrls.length > 0 ? (
+                      <ul className="space-y-1">
+                        {tenderDocumentUrls.map((url) => (
+                          <li key={url}>
+                            <a
+                              href={url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-[#1B7A7A] hover:text-[#155555] text-sm break-all"
+                            >
+                              {url}
+                            </a>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-gray-900">-</p>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Phase 4A: Lead Management */}
             <div className="mt-8 pt-6 border-t border-gray-200">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Lead Management</h3>
@@ -275,6 +359,14 @@ export default async function LeadDetailPage(props: { params: Promise<{ id: stri
               )}
           </div>
         </div>
+
+        <MergeHistory
+          audits={mergeAudits}
+          fields={LEAD_MERGE_FIELDS}
+          describe={(snapshot) =>
+            [snapshot.firstName, snapshot.lastName].filter(Boolean).join(" ") || String(snapshot.email ?? "Unnamed lead")
+          }
+        />
       </div>
     </div>
   );
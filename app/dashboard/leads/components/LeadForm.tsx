@@ -16,10 +16,23 @@ interface LeadFormProps {
     source: string | null;
     companyId: string | null;
     contactId: string | null;
+    tenderNumber?: string | null;
+    tenderIssuingBody?: string | null;
+    tenderClosingDate?: Date | null;
+    tenderBriefingDate?: Date | null;
+    tenderDocumentUrls?: unknown;
   };
   mode: "create" | "edit";
 }
 
+// Format a date for a datetime-local input (local time, minute precision)
+const toDateTimeLocal = (date: Date | null | undefined) => {
+  if (!date) return "";
+  const d = new Date(date);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
 interface Company {
   id: string;
   name: string;
@@ -46,6 +59,11 @@ export default function LeadForm({ lead, mode }: LeadFormProps) {
     source: lead?.source || "",
     companyId: lead?.companyId || "",
     contactId: lead?.contactId || "",
+    tenderNumber: lead?.tenderNumber || "",
+    tenderIssuingBody: lead?.tenderIssuingBody || "",
+    tenderClosingDate: toDateTimeLocal(lead?.tenderClosingDate),
+    tenderBriefingDate: toDateTimeLocal(lead?.tenderBriefingDate),
+    tenderDocumentUrls: Array.isArray(lead?.tenderDocumentUrls) ? lead.tenderDocumentUrls.join("\n") : "",
   });
   const [companies, setCompanies] = useState<Company[]>([]);
   const [contacts, setContacts] = useState<Contact[]>([]);
@@ -125,6 +143,15 @@ export default function LeadForm({ lead, mode }: LeadFormProps) {
         companyId: formData.companyId || null,
         contactId: formData.contactId || null,
         score: parseInt(formData.score.toString()),
+        tenderNumber: formData.tenderNumber || null,
+        tenderIssuingBody: formData.tenderIssuingBody || null,
+        tenderClosingDate: formData.tenderClosingDate ? new Date(formData.tenderClosingDate).toISOString() : null,
+        tenderBriefingDate: formData.tenderBriefingDate ? new Date(formData.tenderBriefingDate).toISOString() : null,
+        // One link per line
+        tenderDocumentUrls: formData.tenderDocumentUrls
+          .split("\n")
+          .map((url) => url.trim())
+          .filter(Boolean),
       };
 
       const response = await fetch(url, {
@@ -150,7 +177,7 @@ export default function LeadForm({ lead, mode }: LeadFormProps) {
     }
   };
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     setFormData({
       ...formData,
       [e.target.name]: e.target.value,
@@ -343,6 +370,88 @@ export default function LeadForm({ lead, mode }: LeadFormProps) {
         </div>
       </div>
 
+      <div className="border-t border-gray-200 pt-6">
+        <h2 className="text-sm font-semibold text-gray-900">Tender Details</h2>
+        <p className="text-xs text-gray-500 mt-1">
+          Only for tender leads. Leads still before Proposal are moved to Lost once the closing date passes.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="tenderNumber" className="block text-sm font-medium text-gray-700">
+            Tender Number
+          </label>
+          <input
+            type="text"
+            id="tenderNumber"
+            name="tenderNumber"
+            value={formData.tenderNumber}
+            onChange={handleChange}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="tenderIssuingBody" className="block text-sm font-medium text-gray-700">
+            Issuing Body
+          </label>
+          <input
+            type="text"
+            id="tenderIssuingBody"
+            name="tenderIssuingBody"
+            value={formData.tenderIssuingBody}
+            onChange={handleChange}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="tenderClosingDate" className="block text-sm font-medium text-gray-700">
+            Closing Date
+          </label>
+          <input
+            type="datetime-local"
+            id="tenderClosingDate"
+            name="tenderClosingDate"
+            value={formData.tenderClosingDate}
+            onChange={handleChange}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="tenderBriefingDate" className="block text-sm font-medium text-gray-700">
+            Briefing Date
+          </label>
+          <input
+            type="datetime-local"
+            id="tenderBriefingDate"
+            name="tenderBriefingDate"
+            value={formData.tenderBriefingDate}
+            onChange={handleChange}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="tenderDocumentUrls" className="block text-sm font-medium text-gray-700">
+          Tender Documents
+        </label>
+        <textarea
+          id="tenderDocumentUrls"
+          name="tenderDocumentUrls"
+          rows={3}
+          value={formData.tenderDocumentUrls}
+          onChange={handleChange}
+          placeholder="One link per line"
+          className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+      </div>
+
       <div className="flex gap-4">
         <button
           type="submit"
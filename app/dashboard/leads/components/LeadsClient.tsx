@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import { useState, useMemo } from 'react';
 import type { LeadFilters, LeadSort } from '@/lib/lead-management/filters';
 import { ALLOWED_STATUSES } from '@/lib/lead-management/types';
+import { TENDER_CLOSING_SOON_DAYS, getTenderUrgency } from '@/lib/lead-management/tenders';
 
 interface Lead {
   id: string;
@@ -19,6 +20,9 @@ interface Lead {
   classification: string | null;
   source: string | null;
   businessSource: string | null;
+  tenderNumber: string | null;
+  tenderClosingDate: Date | null;
+  tenderBriefingDate: Date | null;
   createdAt: Date;
   updatedAt: Date;
   companyRel: {
@@ -104,6 +108,19 @@ export default function LeadsClient({
     return colors[status] || 'bg-gray-100 text-gray-600';
   };
 
+  const getClosingDateColor = (closingDate: Date | null) => {
+    switch (getTenderUrgency(closingDate)) {
+      case 'closed':
+        return 'text-gray-400 line-through';
+      case 'urgent':
+        return 'text-red-700 font-semibold';
+      case 'soon':
+        return 'text-amber-700 font-medium';
+      default:
+        return 'text-gray-600';
+    }
+  };
+
   const getClassificationColor = (classification: string | null) => {
     switch (classification) {
       case 'hot':
@@ -161,6 +178,9 @@ export default function LeadsClient({
     if (newFilters.companySize && newFilters.companySize.length > 0) {
       newFilters.companySize.forEach(cs => params.append('companySize', cs));
     }
+    if (newFilters.closingWithinDays !== undefined) {
+      params.append('closingWithinDays', newFilters.closingWithinDays.toString());
+    }
 
     // Add sort
     params.append('sortBy', newSort.sortBy);
@@ -189,6 +209,22 @@ export default function LeadsClient({
     updateURL(emptyFilters, defaultSort);
   };
 
+  // "Closing soon" view: open tenders closing in the next TENDER_CLOSING_SOON_DAYS, soonest first
+  const showClosingSoon = (enabled: boolean) => {
+    const newFilters: LeadFilters = {
+      ...localFilters,
+      closingWithinDays: enabled ? TENDER_CLOSING_SOON_DAYS : undefined,
+    };
+    const newSort: LeadSort = enabled
+      ? { sortBy: 'tenderClosingDate', sortOrder: 'asc' }
+      : { sortBy: 'createdAt', sortOrder: 'desc' };
+    setLocalFilters(newFilters);
+    setLocalSort(newSort);
+    updateURL(newFilters, newSort);
+  };
+
+  const isClosingSoonView = localFilters.closingWithinDays !== undefined;
+
   const handleSelectAll = (checked: boolean) => {
     if (checked) {
       setSelectedLeadIds(new Set(leads.map(l => l.id)));
@@ -322,6 +358,30 @@ export default function LeadsClient({
               </Link>
             </div>
           </div>
+          <div className="inline-flex rounded-md border border-gray-200 bg-white p-0.5 mt-2">
+            <button
+              onClick={() => showClosingSoon(false)}
+              className={`px-3 py-1.5 text-sm font-medium rounded ${
+                !isClosingSoonView ? 'bg-emerald-50 text-emerald-700' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              All Leads
+            </button>
+            <button
+              onClick={() => showClosingSoon(true)}
+              className={`px-3 py-1.5 text-sm font-medium rounded ${
+                isClosingSoonView ? 'bg-emerald-50 text-emerald-700' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              Closing Soon
+            </button>
+          </div>
+          {isClosingSoonView && (
+            <p className="text-xs text-gray-500 mt-2">
+              Open tenders closing in the next {localFilters.closingWithinDays} days. Tenders that close
+              before reaching Proposal are moved to Lost automatically.
+            </p>
+          )}
         </div>
 
         {/* Advanced Filters */}
@@ -496,6 +556,7 @@ export default function LeadsClient({
                 <option value="score">Score</option>
                 <option value="updatedAt">Last Updated</option>
                 <option value="createdAt">Created Date</option>
+                <option value="tenderClosingDate">Tender Closing Date</option>
               </select>
             </div>
 
@@ -730,6 +791,9 @@ export default function LeadsClient({
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Created
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Closing
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Actions
                     </th>
@@ -803,6 +867,25 @@ export default function LeadsClient({
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
                         {new Date(lead.createdAt).toLocaleDateString()}
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {lead.tenderClosingDate ? (
+                          <div>
+                            <span className={getClosingDateColor(lead.tenderClosingDate)}>
+                              {new Date(lead.tenderClosingDate).toLocaleString([], {
+                                dateStyle: 'medium',
+                                timeStyle: 'short',
+                              })}
+                            </span>
+                            <div className="text-xs text-gray-500">
+                              {lead.tenderNumber || 'Tender'}
+                              {lead.tenderBriefingDate &&
+                                ` · Briefing ${new Date(lead.tenderBriefingDate).toLocaleDateString()}`}
+                            </div>
+                          </div>
+                        ) : (
+                          <span className="text-gray-400">-</span>
+                        )}
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm">
                         <Link
                           href={`/dashboard/leads/${lead.id}/edit`}
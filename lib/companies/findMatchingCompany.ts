@@ -0,0 +1,142 @@
+/**
+ * Company Matching
+ *
+ * Finds an existing Company for an incoming name / website, so discovery
+ * persistence, create-from-results and CSV import do not create duplicates:
+ * 1. Same canonical domain
+ * 2. Otherwise the most similar name at or above the threshold
+ *    (COMPANY_MATCH_THRESHOLD, default 0.9)
+ *
+ * A name match is ignored when both companies have a website on different
+ * domains - "Acme" on acme.co.za and "Acme" on acme-events.com stay apart.
+ */
+
+import type { Company } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { canonicalDomain, companyNameSimilarity, normalizeCompanyName } from './normalizeCompany';
+
+/** Default name similarity needed for a match (0-1) */
+export const DEFAULT_COMPANY_MATCH_THRESHOLD = 0.9;
+
+/** Name candidates compared per lookup */
+const MAX_NAME_CANDIDATES = 200;
+
+export interface CompanyMatchInput {
+  name?: string | null;
+  website?: string | null;
+}
+
+export interface CompanyMatchOptions {
+  /** Name similarity needed for a match (default: COMPANY_MATCH_THRESHOLD or 0.9) */
+  threshold?: number;
+}
+
+export interface CompanyMatch {
+  company: Company;
+  matchedBy: 'domain' | 'name';
+  /** Name similarity (1 for domain matches) */
+  similarity: number;
+}
+
+/**
+ * Name similarity threshold from COMPANY_MATCH_THRESHOLD (0-1)
+ */
+export function getCompanyMatchThreshold(): number {
+  const value = Number(process.env.COMPANY_MATCH_THRESHOLD);
+  return process.env.COMPANY_MATCH_THRESHOLD && Number.isFinite(value) && value > 0 && value <= 1
+    ? value
+    : DEFAULT_COMPANY_MATCH_THRESHOLD;
+}
+
+/**
+ * Find the existing company matching a name and/or website
+ *
+ * Returns null when nothing matches.
+ */
+export async function findMatchingCompany(
+  input: CompanyMatchInput,
+  options: CompanyMatchOptions = {}
+): Promise<CompanyMatch | null> {
+  const domain = canonicalDomain(input.website);
+
+  if (domain) {
+    const company = await prisma.company.findFirst({
+      where: { canonicalDomain: domain },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (company) {
+      return { company, matchedBy: 'domain', similarity: 1 };
+    }
+  }
+
+  const nameMatches = await findNameMatches(input.name, domain, options.threshold ?? getCompanyMatchThreshold());
+  return nameMatches[0] ?? null;
+}
+
+/**
+ * Find all companies that look like the same company (merge / duplicate review)
+ *
+ * Domain matches first, then name matches by similarity. The company itself
+ * (excludeId) is left out.
+ */
+export async function findSimilarCompanies(
+  input: CompanyMatchInput,
+  options: CompanyMatchOptions & { excludeId?: string; limit?: number } = {}
+): Promise<CompanyMatch[]> {
+  const domain = canonicalDomain(input.website);
+  const limit = options.limit ?? 10;
+
+  const domainMatches: CompanyMatch[] = domain
+    ? (
+        await prisma.company.findMany({
+          where: { canonicalDomain: domain, ...(options.excludeId ? { id: { not: options.excludeId } } : {}) },
+          orderBy: { createdAt: 'asc' },
+          take: limit,
+        })
+      ).map((company) => ({ company, matchedBy: 'domain' as const, similarity: 1 }))
+    : [];
+
+  const seen = new Set([options.excludeId, ...domainMatches.map((match) => match.company.id)]);
+  const nameMatches = (
+    await findNameMatches(input.name, domain, options.threshold ?? getCompanyMatchThreshold())
+  ).filter((match) => !seen.has(match.company.id));
+
+  return [...domainMatches, ...nameMatches].slice(0, limit);
+}
+
+/**
+ * Companies whose name is at least threshold-similar, most similar first
+ *
+ * Candidates share the name's longest word; similarity decides. Candidates on
+ * a different domain than ours are skipped.
+ */
+async function findNameMatches(
+  name: string | null | undefined,
+  domain: string | null,
+  threshold: number
+): Promise<CompanyMatch[]> {
+  const normalizedName = normalizeCompanyName(name);
+  if (!normalizedName) {
+    return [];
+  }
+
+  const keyword = normalizedName.split(' ').sort((a, b) => b.length - a.length)[0];
+  const candidates = await prisma.company.findMany({
+    where: { name: { contains: keyword, mode: 'insensitive' } },
+    orderBy: { createdAt: 'asc' },
+    take: MAX_NAME_CANDIDATES,
+  });
+
+  const matches: CompanyMatch[] = [];
+  for (const company of candidates) {
+    if (domain && company.canonicalDomain && company.canonicalDomain !== domain) continue;
+
+    const similarity = companyNameSimilarity(name, company.name);
+    if (similarity >= threshold) {
+      matches.push({ company, matchedBy: 'name', similarity });
+    }
+  }
+
+  // Stable sort keeps the oldest company first among equals
+  return matches.sort((a, b) => b.similarity - a.similarity);
+}
@@ -0,0 +1,12 @@
+/**
+ * Company matching and normalisation - Main Export
+ */
+
+export { canonicalDomain, normalizeCompanyName, companyNameSimilarity, bigramSimilarity } from './normalizeCompany';
+export {
+  findMatchingCompany,
+  findSimilarCompanies,
+  getCompanyMatchThreshold,
+  DEFAULT_COMPANY_MATCH_THRESHOLD,
+} from './findMatchingCompany';
+export type { CompanyMatch, CompanyMatchInput, CompanyMatchOptions } from './findMatchingCompany';
@@ -0,0 +1,124 @@
+/**
+ * Unit Tests for company normalisation (canonical domains, names, similarity)
+ *
+ * Simple test runner compatible with repo conventions.
+ * Run with: tsx lib/companies/normalizeCompany.test.ts
+ */
+
+import { canonicalDomain, normalizeCompanyName, companyNameSimilarity } from './normalizeCompany';
+import { DEFAULT_COMPANY_MATCH_THRESHOLD } from './findMatchingCompany';
+
+// Simple assertion helper
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string): void {
+  if (actual !== expected) {
+    throw new Error(`Assertion failed: ${message}. Expected: ${expected}, Actual: ${actual}`);
+  }
+}
+
+// Test cases
+function testCanonicalDomain() {
+  console.log('Test 1: Canonical domains');
+
+  assertEqual(canonicalDomain('https://www.acme.co.za/'), 'acme.co.za', 'Scheme, www and slash should be stripped');
+  assertEqual(canonicalDomain('acme.co.za'), 'acme.co.za', 'Bare domain should be kept');
+  assertEqual(canonicalDomain('HTTP://WWW.Acme.co.za:8080/contact?x=1#top'), 'acme.co.za', 'Case, port, path and query should be stripped');
+  assertEqual(canonicalDomain('www2.acme.co.za.'), 'acme.co.za', 'Numbered www and trailing dot should be stripped');
+  assertEqual(canonicalDomain('https://events.acme.co.za'), 'events.acme.co.za', 'Other subdomains should be kept');
+  assertEqual(canonicalDomain('https://bücher.de'), 'xn--bcher-kva.de', 'IDNs should become punycode');
+  assertEqual(canonicalDomain('localhost'), null, 'Host without a dot should be rejected');
+  assertEqual(canonicalDomain('  '), null, 'Empty value should be rejected');
+  assertEqual(canonicalDomain(undefined), null, 'Missing value should be rejected');
+
+  console.log('  ✅ Domains canonicalised');
+}
+
+function testNameNormalisation() {
+  console.log('Test 2: Legal-suffix-aware name normalisation');
+
+  assertEqual(normalizeCompanyName('Acme (Pty) Ltd'), 'acme', '(Pty) Ltd should be dropped');
+  assertEqual(normalizeCompanyName('ACME'), 'acme', 'Case should be ignored');
+  assertEqual(normalizeCompanyName('Smith & Sons Inc.'), 'smith and sons', '& and Inc. should be handled');
+  assertEqual(normalizeCompanyName('The Décor Company'), 'decor', 'Leading The, accents and Company should be handled');
+  assertEqual(normalizeCompanyName('Green Leaf Catering CC'), 'green leaf catering', 'CC should be dropped');
+  assertEqual(normalizeCompanyName('Pty Ltd'), 'pty', 'First word should always be kept');
+  assertEqual(normalizeCompanyName(''), '', 'Empty name should stay empty');
+
+  console.log('  ✅ Names normalised');
+}
+
+function testSimilarity() {
+  console.log('Test 3: Name similarity against the default threshold');
+
+  const threshold = DEFAULT_COMPANY_MATCH_THRESHOLD;
+  const same: Array<[string, string]> = [
+    ['Acme (Pty) Ltd', 'ACME'],
+    ['Greenleaf Catering', 'Green Leaf Catering CC'],
+    ['Acme Events', 'Acme Event'],
+  ];
+  const different: Array<[string, string]> = [
+    ['Acme Events', 'Apex Events'],
+    ['ABC Printing', 'ABD Printing'],
+    ['Event Solutions', 'Event Systems'],
+  ];
+
+  for (const [a, b] of same) {
+    const score = companyNameSimilarity(a, b);
+    assert(score >= threshold, `"${a}" / "${b}" should match (${score.toFixed(2)})`);
+  }
+  for (const [a, b] of different) {
+    const score = companyNameSimilarity(a, b);
+    assert(score < threshold, `"${a}" / "${b}" should not match (${score.toFixed(2)})`);
+  }
+  assertEqual(companyNameSimilarity('Acme', ''), 0, 'Empty name should never match');
+
+  console.log('  ✅ Similar names match, different names do not');
+}
+
+function runTests() {
+  console.log('='.repeat(60));
+  console.log('Company Normalisation Unit Tests');
+  console.log('='.repeat(60));
+  console.log('');
+
+  const tests = [
+    testCanonicalDomain,
+    testNameNormalisation,
+    testSimilarity,
+  ];
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const test of tests) {
+    try {
+      test();
+      passed++;
+      console.log('');
+    } catch (error) {
+      failed++;
+      console.error(`  ❌ Test failed: ${error instanceof Error ? error.message : String(error)}`);
+      console.log('');
+    }
+  }
+
+  console.log('='.repeat(60));
+  console.log(`Tests: ${passed} passed, ${failed} failed (total: ${tests.length})`);
+  console.log('='.repeat(60));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
@@ -0,0 +1,131 @@
+/**
+ * Company Normalisation
+ *
+ * Canonical domains and legal-suffix-aware names used to recognise the same
+ * company across discovery, create-from-results and CSV import:
+ * - "https://www.acme.co.za/contact" and "acme.co.za" -> "acme.co.za"
+ * - "Acme (Pty) Ltd" and "ACME" -> "acme"
+ *
+ * Pure functions (no database access); matching lives in findMatchingCompany.
+ */
+
+/**
+ * Legal-form words dropped from the end of a company name
+ * ("(Pty) Ltd", "Inc.", "GmbH", "CC", "NPC", ...)
+ */
+const LEGAL_SUFFIX_TOKENS = new Set([
+  'pty', 'proprietary', 'ltd', 'limited', 'inc', 'incorporated', 'corp', 'corporation',
+  'co', 'company', 'llc', 'llp', 'lp', 'plc', 'cc', 'npc', 'soc', 'rf',
+  'gmbh', 'ag', 'bv', 'nv', 'sa', 'sarl', 'srl', 'spa', 'ab', 'oy', 'as', 'aps',
+]);
+
+/**
+ * Canonical domain for a website: scheme, "www.", port, path, query and
+ * trailing dot stripped; lowercase; internationalised names as punycode
+ *
+ * Returns null when the value is empty or not a host name with a dot.
+ */
+export function canonicalDomain(website: string | null | undefined): string | null {
+  const value = website?.trim();
+  if (!value) {
+    return null;
+  }
+
+  let host: string;
+  try {
+    // URL lowercases the host and converts IDNs to punycode
+    host = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `http://${value}`).hostname;
+  } catch {
+    return null;
+  }
+
+  host = host.replace(/\.$/, '').replace(/^www\d*\./, '');
+  return host.includes('.') ? host : null;
+}
+
+/**
+ * Normalised company name for matching
+ *
+ * Lowercase, accents and punctuation removed, "&" read as "and", a leading
+ * "The" and trailing legal-form words dropped ("Acme (Pty) Ltd" -> "acme").
+ * The first word is always kept ("Pty Ltd" -> "pty").
+ */
+export function normalizeCompanyName(name: string | null | undefined): string {
+  const tokens = (name ?? '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+
+  if (tokens.length > 1 && tokens[0] === 'the') {
+    tokens.shift();
+  }
+  while (tokens.length > 1 && LEGAL_SUFFIX_TOKENS.has(tokens[tokens.length - 1])) {
+    tokens.pop();
+  }
+
+  return tokens.join(' ');
+}
+
+/**
+ * Character bigrams of a name with spaces removed
+ */
+function bigrams(value: string): string[] {
+  const compact = value.replace(/ /g, '');
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2));
+  }
+  return result;
+}
+
+/**
+ * Similarity of two company names (0-1) after normalisation
+ *
+ * Dice coefficient over character bigrams, so "Acme Events" / "Acme Event"
+ * score high while "Acme Events" / "Apex Events" do not. Spacing is ignored
+ * ("Green Leaf" = "Greenleaf").
+ */
+export function companyNameSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  return bigramSimilarity(normalizeCompanyName(a), normalizeCompanyName(b));
+}
+
+/**
+ * Dice coefficient over character bigrams of two already-normalised strings
+ * (spaces ignored; 0 when either is empty)
+ */
+export function bigramSimilarity(left: string, right: string): number {
+  if (!left || !right) {
+    return 0;
+  }
+  if (left.replace(/ /g, '') === right.replace(/ /g, '')) {
+    return 1;
+  }
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  if (leftBigrams.length === 0 || rightBigrams.length === 0) {
+    return 0;
+  }
+
+  const remaining = new Map<string, number>();
+  for (const gram of rightBigrams) {
+    remaining.set(gram, (remaining.get(gram) ?? 0) + 1);
+  }
+
+  let shared = 0;
+  for (const gram of leftBigrams) {
+    const count = remaining.get(gram) ?? 0;
+    if (count > 0) {
+      shared++;
+      remaining.set(gram, count - 1);
+    }
+  }
+
+  return (2 * shared) / (leftBigrams.length + rightBigrams.length);
+}
@@ -10,19 +10,26 @@
 
 import type {
   DiscoveryChannelInput,
+  DiscoveryProgressEvent,
   DiscoveryResult,
 } from './types';
 import type { IDiscoveryChannel } from './channels/IDiscoveryChannel';
 import { GoogleDiscoveryChannel } from './channels/google/GoogleDiscoveryChannel';
 import { KeywordDiscoveryChannel } from './channels/keyword/KeywordDiscoveryChannel';
-import type { AnalysisConfig } from './scraper';
+import { TenderDiscoveryChannel } from './channels/tenders/TenderDiscoveryChannel';
+import { LinkedInDiscoveryChannel, type LinkedInExport } from './channels/linkedin/LinkedInDiscoveryChannel';
+import { SocialDiscoveryChannel, type SocialEventPage } from './channels/social/SocialDiscoveryChannel';
+import type { AnalysisConfig, FilteredOutResult } from './scraper';
+import type { SearchProviderType, SearchQueryRecord } from './search';
+import type { BlockedFetch } from './fetch';
+import { mergeDomainListHits, type DomainList, type DomainListHits } from './domains';
 
 /**
  * Discovery Aggregator Configuration
  */
 export interface DiscoveryAggregatorConfig {
-  /** Enabled channels to execute (Google, Keyword for MVP) */
-  enabledChannels?: Array<'google' | 'keyword'>;
+  /** Enabled channels to execute (Google, Keyword, Tenders, LinkedIn, Social) */
+  enabledChannels?: Array<'google' | 'keyword' | 'tenders' | 'linkedin' | 'social'>;
   
   /** Input configuration for discovery execution */
   input: DiscoveryChannelInput;
@@ -39,6 +46,42 @@ export interface DiscoveryAggregatorConfig {
    */
   enableScraping?: boolean;
 
+  /**
+   * Search providers for search-backed channels, in fallback order
+   * Default: DISCOVERY_SEARCH_PROVIDERS env var, then google_cse, bing, brave, serpapi
+   */
+  searchProviders?: SearchProviderType[];
+
+  /**
+   * Search result cache TTL in hours for search-backed channels
+   * Default: DISCOVERY_SEARCH_CACHE_TTL_HOURS (168). 0 disables the cache.
+   */
+  searchCacheTtlHours?: number;
+
+  /**
+   * Whether the google channel follows exhibitor / sponsor / partner links on
+   * event sites it finds and returns the listed companies
+   * Default: false
+   */
+  crawlExhibitorLists?: boolean;
+
+  /**
+   * Uploaded LinkedIn export for the linkedin channel
+   * The channel is disabled without one.
+   */
+  linkedInExport?: LinkedInExport;
+
+  /**
+   * Saved event / business pages for the social channel
+   * When supplied, only these pages are read (DISCOVERY_SOCIAL_SOURCES is not fetched).
+   */
+  socialPages?: SocialEventPage[];
+
+  /**
+   * Managed domain list checked by the google channel before scraping
+   */
+  domainList?: DomainList;
+
   // Legacy options (deprecated - use analysisConfig instead)
   /** @deprecated Use analysisConfig.positiveKeywords instead */
   includeKeywords?: string[];
@@ -50,6 +93,15 @@ export interface DiscoveryAggregatorConfig {
    * Called between channels and query batches
    */
   cancelCheck?: () => Promise<boolean>;
+
+  /** Epoch ms after which search-backed channels start no new query (run time budget) */
+  deadline?: number;
+
+  /** Websites already scraped by the run being resumed (not scraped again) */
+  skipUrls?: string[];
+
+  /** Progress reported by the channels (query started / completed) */
+  onProgress?: (event: DiscoveryProgressEvent) => void;
 }
 
 /**
@@ -65,6 +117,21 @@ export interface DiscoveryAggregatorResult {
   /** Channel-specific errors (partial failures) */
   channelErrors?: Record<string, string>;
   
+  /** Search provider used for each query (search-backed channels) */
+  searchQueries?: SearchQueryRecord[];
+
+  /** URLs the fetch layer refused (robots.txt disallowed, rate limited) */
+  blockedUrls?: BlockedFetch[];
+
+  /** Search results matched against the domain list, per listed domain */
+  domainListHits?: DomainListHits;
+
+  /** Scraped sites below the relevance threshold (not in results) */
+  filteredOut?: FilteredOutResult[];
+
+  /** Websites scraped (kept in the run's checkpoint so a resumed run skips them) */
+  scrapedUrls?: string[];
+
   /** Total results before deduplication */
   totalBeforeDedupe: number;
   
@@ -100,12 +167,33 @@ export class DiscoveryAggregator {
         return new GoogleDiscoveryChannel({
           enableScraping,
           analysisConfig: config.analysisConfig,
+          searchProviders: config.searchProviders,
+          searchCacheTtlHours: config.searchCacheTtlHours,
+          crawlExhibitorLists: config.crawlExhibitorLists,
+          domainList: config.domainList,
           // Legacy support
           includeKeywords: config.includeKeywords,
           excludeKeywords: config.excludeKeywords,
         });
       case 'keyword':
-        return new KeywordDiscoveryChannel();
+        return new KeywordDiscoveryChannel({
+          searchProviders: config.searchProviders,
+          searchCacheTtlHours: config.searchCacheTtlHours,
+        });
+      case 'tenders':
+        return new TenderDiscoveryChannel({
+          commodityKeywords: config.includeKeywords,
+          excludeKeywords: config.analysisConfig?.negativeKeywords ?? config.excludeKeywords,
+        });
+      case 'linkedin':
+        return new LinkedInDiscoveryChannel({
+          export: config.linkedInExport,
+        });
+      case 'social':
+        return new SocialDiscoveryChannel({
+          pages: config.socialPages,
+          sources: config.socialPages?.length ? [] : undefined,
+        });
       default:
         return null;
     }
@@ -129,6 +217,11 @@ export class DiscoveryAggregator {
       const allResults: DiscoveryResult[] = [];
       const channelResults: Record<string, number> = {};
       const channelErrors: Record<string, string> = {};
+      const searchQueries: SearchQueryRecord[] = [];
+      const blockedUrls: BlockedFetch[] = [];
+      const domainListHits: DomainListHits = {};
+      const filteredOut: FilteredOutResult[] = [];
+      const scrapedUrls: string[] = [];
 
       for (const channelType of channelsToExecute) {
         // Check for cancellation between channels
@@ -149,7 +242,7 @@ export class DiscoveryAggregator {
           channelResults[channelType] = 0;
           // For Google channel, record configuration error
           if (channelType === 'google') {
-            channelErrors[channelType] = 'Google Custom Search is not configured';
+            channelErrors[channelType] = 'Google Custom Search is not configured (no search provider available)';
           }
           continue;
         }
@@ -159,8 +252,29 @@ export class DiscoveryAggregator {
           const channelInput = {
             ...config.input,
             cancelCheck: config.cancelCheck,
+            deadline: config.deadline,
+            skipUrls: config.skipUrls,
+            onProgress: config.onProgress,
           };
           const output = await channel.discover(channelInput);
+
+          const channelQueries = output.metadata?.searchQueries as SearchQueryRecord[] | undefined;
+          if (channelQueries) {
+            searchQueries.push(...channelQueries);
+          }
+          const channelBlocked = output.metadata?.blockedUrls as BlockedFetch[] | undefined;
+          if (channelBlocked) {
+            blockedUrls.push(...channelBlocked);
+          }
+          mergeDomainListHits(domainListHits, output.metadata?.domainListHits as DomainListHits | undefined);
+          const channelFiltered = output.metadata?.filteredOut as FilteredOutResult[] | undefined;
+          if (channelFiltered) {
+            filteredOut.push(...channelFiltered);
+          }
+          const channelScraped = output.metadata?.scrapedUrls as string[] | undefined;
+          if (channelScraped) {
+            scrapedUrls.push(...channelScraped);
+          }
           
           if (output.success && output.results.length > 0) {
             allResults.push(...output.results);
@@ -188,6 +302,11 @@ export class DiscoveryAggregator {
         results: uniqueResults,
         channelResults,
         channelErrors: Object.keys(channelErrors).length > 0 ? channelErrors : undefined,
+        searchQueries: searchQueries.length > 0 ? searchQueries : undefined,
+        blockedUrls: blockedUrls.length > 0 ? blockedUrls : undefined,
+        domainListHits: Object.keys(domainListHits).length > 0 ? domainListHits : undefined,
+        filteredOut: filteredOut.length > 0 ? filteredOut : undefined,
+        scrapedUrls: scrapedUrls.length > 0 ? scrapedUrls : undefined,
         totalBeforeDedupe: allResults.length,
         totalAfterDedupe: uniqueResults.length,
         success: true,
@@ -239,13 +358,19 @@ export class DiscoveryAggregator {
           }
         }
       } else if (result.type === 'contact') {
-        // Deduplicate contacts by email if available, otherwise by name
+        // Deduplicate contacts by email, then LinkedIn profile URL, otherwise by name
         if (result.email) {
           const emailKey = result.email.toLowerCase().trim();
           if (!seen.has(`email:${emailKey}`)) {
             seen.add(`email:${emailKey}`);
             unique.push(result);
           }
+        } else if (result.linkedInUrl) {
+          const urlKey = result.linkedInUrl.toLowerCase().trim();
+          if (!seen.has(`linkedin:${urlKey}`)) {
+            seen.add(`linkedin:${urlKey}`);
+            unique.push(result);
+          }
         } else {
           const nameKey = (result.name || `${result.firstName || ''} ${result.lastName || ''}`.trim()).toLowerCase();
           if (nameKey && !seen.has(`contact:${nameKey}`)) {
@@ -254,8 +379,15 @@ export class DiscoveryAggregator {
           }
         }
       } else {
-        // For leads, deduplicate by associated contact email or company website
-        if (result.contact?.email) {
+        // For leads, deduplicate by tender number, associated contact email or company website
+        const tenderNumber = result.additionalMetadata?.tenderNumber;
+        if (typeof tenderNumber === 'string' && tenderNumber) {
+          const tenderKey = tenderNumber.toLowerCase().replace(/\s+/g, '');
+          if (!seen.has(`lead:tender:${tenderKey}`)) {
+            seen.add(`lead:tender:${tenderKey}`);
+            unique.push(result);
+          }
+        } else if (result.contact?.email) {
           const emailKey = result.contact.email.toLowerCase().trim();
           if (!seen.has(`lead:${emailKey}`)) {
             seen.add(`lead:${emailKey}`);
@@ -283,6 +415,6 @@ export class DiscoveryAggregator {
    * @returns Array of available channel types
    */
   getAvailableChannels(): string[] {
-    return ['google', 'keyword'];
+    return ['google', 'keyword', 'tenders', 'linkedin', 'social'];
   }
 }
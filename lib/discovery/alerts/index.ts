@@ -0,0 +1,20 @@
+/**
+ * Discovery Alerts Module
+ *
+ * Alerts for failed or degraded discovery runs (failed, zero results,
+ * quota exhausted, repeated channel errors), delivered by lib/notifications.
+ */
+
+export {
+  DISCOVERY_ALERT_TYPES,
+  DISCOVERY_ALERT_LABELS,
+  DEFAULT_CHANNEL_ERROR_RUNS,
+  getChannelErrorRunThreshold,
+  countChannelErrorStreaks,
+  buildRunAlerts,
+  notifyRunResult,
+} from './runAlerts';
+export type { DiscoveryAlertType, RunAlertContext } from './runAlerts';
+
+export { alertPreferencesSchema } from './validation';
+export type { AlertPreferencesRequest } from './validation';
@@ -0,0 +1,178 @@
+/**
+ * Unit Tests for discovery run alerts
+ *
+ * Simple test runner compatible with repo conventions.
+ * Run with: tsx lib/discovery/alerts/runAlerts.test.ts
+ */
+
+import { buildRunAlerts, countChannelErrorStreaks, type RunAlertContext } from './runAlerts';
+import type { RunResult, DiscoveryRunStats } from '../runner/types';
+
+// Simple assertion helper
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string): void {
+  if (actual !== expected) {
+    throw new Error(`Assertion failed: ${message}. Expected: ${expected}, Actual: ${actual}`);
+  }
+}
+
+function runResult(overrides: Partial<RunResult> = {}, stats: Partial<DiscoveryRunStats> = {}): RunResult {
+  return {
+    success: true,
+    runId: 'run-1',
+    status: 'completed',
+    dryRun: false,
+    stats: {
+      channelResults: { google: 12 },
+      channelErrors: {},
+      totalDiscovered: 12,
+      totalAfterDedupe: 10,
+      companiesCreated: 4,
+      companiesSkipped: 6,
+      contactsCreated: 0,
+      contactsSkipped: 0,
+      leadsCreated: 4,
+      leadsSkipped: 0,
+      errors: [],
+      durationMs: 1000,
+      stoppedEarly: false,
+      limitsUsed: {
+        maxCompanies: 30,
+        maxLeads: 30,
+        maxQueries: 10,
+        maxPagesPerQuery: 1,
+        maxRuntimeSeconds: 60,
+        channels: ['google'],
+      },
+      ...stats,
+    },
+    ...overrides,
+  };
+}
+
+const context: RunAlertContext = {
+  mode: 'daily',
+  dryRun: false,
+  intentId: 'intent-1',
+  intentName: 'Tenders',
+  channelErrorStreaks: {},
+  channelErrorThreshold: 3,
+  baseUrl: 'https://leads.example.com',
+  day: '2026-10-19',
+};
+
+// Test cases
+function testRunAlertRules() {
+  console.log('Test 1: Failed, zero-result and quota-refused runs raise their alerts');
+
+  assertEqual(buildRunAlerts(runResult(), context).length, 0, 'Healthy run raises nothing');
+
+  const failed = buildRunAlerts(runResult({ success: false, status: 'failed', error: 'Database unreachable' }), context);
+  assertEqual(failed.length, 1, 'Failed run raises one alert');
+  assertEqual(failed[0].type, 'run_failed', 'Failed run alert type');
+  assertEqual(failed[0].severity, 'critical', 'Failed runs are critical');
+  assertEqual(failed[0].dedupeKey, 'run_failed:intent-1', 'Repeated failures of an intent share a key');
+  assertEqual(failed[0].message, 'Database unreachable', 'Run error is the message');
+  assertEqual(failed[0].url, 'https://leads.example.com/dashboard/discovery/runs/run-1', 'Links to the run');
+
+  const empty = buildRunAlerts(runResult({}, { totalDiscovered: 0, searchQueries: [] }), context);
+  assertEqual(empty.length, 1, 'Zero-result run raises one alert');
+  assertEqual(empty[0].type, 'zero_results', 'Zero-result alert type');
+  assert(empty[0].message.includes('0 queries searched'), 'Zero-result message counts queries');
+
+  const refused = buildRunAlerts(
+    runResult(
+      { success: false, status: 'skipped_budget', error: 'Daily discovery quota exhausted: 0 search requests left' },
+      {
+        totalDiscovered: 0,
+        quota: { plannedQueries: 10, allowedQueries: 0, searchRemaining: 0, pagesRemaining: null, bytesRemaining: null },
+      }
+    ),
+    context
+  );
+  assertEqual(refused.length, 1, 'Refused run raises only the quota alert');
+  assertEqual(refused[0].dedupeKey, 'quota_exhausted:2026-10-19', 'Quota alerts repeat at most daily');
+  assertEqual(refused[0].url, 'https://leads.example.com/dashboard/discovery/usage', 'Links to the usage page');
+
+  const dryRun = buildRunAlerts(runResult({ success: false, status: 'failed', error: 'x' }), { ...context, dryRun: true });
+  assertEqual(dryRun.length, 0, 'Dry runs raise nothing');
+  const testRun = buildRunAlerts(runResult({ success: false, status: 'failed', error: 'x' }), { ...context, mode: 'test' });
+  assertEqual(testRun.length, 0, 'Test runs raise nothing');
+
+  console.log('  ✅ Run alerts raised');
+}
+
+function testChannelErrorStreaks() {
+  console.log('Test 2: Channel errors alert only after consecutive failing runs');
+
+  const streaks = countChannelErrorStreaks([
+    { channelResults: { google: 0, tenders: 0 }, channelErrors: { google: 'quota exceeded', tenders: 'timeout' } },
+    { channelResults: { tenders: 4 }, channelErrors: {} },
+    { channelResults: { google: 0, tenders: 0 }, channelErrors: { google: 'quota exceeded', tenders: 'timeout' } },
+    null,
+    { channelResults: { google: 0 }, channelErrors: { google: 'quota exceeded' } },
+    { channelResults: { google: 12 }, channelErrors: {} },
+  ]);
+  assertEqual(streaks.google, 3, 'Runs without the channel neither extend nor break its streak');
+  assertEqual(streaks.tenders, 1, 'Streak broken by a run that executed the channel without error');
+  assertEqual(Object.keys(countChannelErrorStreaks([])).length, 0, 'No runs, no streaks');
+
+  const result = runResult(
+    { status: 'completed_with_errors' },
+    { channelErrors: { google: 'quota exceeded', tenders: 'timeout' } }
+  );
+  const alerts = buildRunAlerts(result, { ...context, channelErrorStreaks: streaks });
+  assertEqual(alerts.length, 1, 'Only the channel over the threshold is alerted');
+  assertEqual(alerts[0].type, 'channel_errors', 'Channel alert type');
+  assertEqual(alerts[0].dedupeKey, 'channel_errors:google', 'Keyed by channel across intents');
+  assert(alerts[0].message.includes('last 3 runs that used it'), 'Message states the streak');
+
+  console.log('  ✅ Channel error streaks counted');
+}
+
+function runTests() {
+  console.log('='.repeat(60));
+  console.log('Discovery Run Alert Unit Tests');
+  console.log('='.repeat(60));
+  console.log('');
+
+  const tests = [
+    testRunAlertRules,
+    testChannelErrorStreaks,
+  ];
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const test of tests) {
+    try {
+      test();
+      passed++;
+      console.log('');
+    } catch (error) {
+      failed++;
+      console.error(`  ❌ Test failed: ${error instanceof Error ? error.message : String(error)}`);
+      console.log('');
+    }
+  }
+
+  console.log('='.repeat(60));
+  console.log(`Tests: ${passed} passed, ${failed} failed (total: ${tests.length})`);
+  console.log('='.repeat(60));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
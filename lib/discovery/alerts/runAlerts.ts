@@ -0,0 +1,219 @@
+/**
+ * Phase 5A - Discovery Run Alerts
+ *
+ * Alerts raised when a discovery run ends failed or degraded:
+ * - run_failed: the run failed
+ * - zero_results: the run completed without discovering anything
+ * - quota_exhausted: the run was refused because today's quota is used up
+ * - channel_errors: a channel failed in several consecutive runs of the intent
+ *   that executed it (DISCOVERY_ALERT_CHANNEL_ERROR_RUNS, default 3)
+ *
+ * Dry runs and test runs raise no alerts. Delivery and de-duplication are
+ * handled by lib/notifications.
+ */
+
+import { prisma } from '../../prisma';
+import { dispatchAlert, type AlertInput } from '../../notifications';
+import { getUsageDay } from '../usage';
+import type { RunResult, DiscoveryRunStats } from '../runner/types';
+
+export const DISCOVERY_ALERT_TYPES = ['run_failed', 'zero_results', 'quota_exhausted', 'channel_errors'] as const;
+
+export type DiscoveryAlertType = (typeof DISCOVERY_ALERT_TYPES)[number];
+
+/**
+ * Alert types as shown on the subscription form
+ */
+export const DISCOVERY_ALERT_LABELS: Record<DiscoveryAlertType, { label: string; description: string }> = {
+  run_failed: { label: 'Failed runs', description: 'A discovery run failed with an error' },
+  zero_results: { label: 'Zero-result runs', description: 'A run completed without discovering anything' },
+  quota_exhausted: { label: 'Quota exhausted', description: "A run was refused because today's quota is used up" },
+  channel_errors: { label: 'Repeated channel errors', description: 'A channel failed in several consecutive runs' },
+};
+
+/** Consecutive runs a channel must fail in before it is alerted */
+export const DEFAULT_CHANNEL_ERROR_RUNS = 3;
+
+/** Latest runs read per threshold run (runs without the channel are skipped) */
+const CHANNEL_STREAK_WINDOW_FACTOR = 4;
+
+export function getChannelErrorRunThreshold(): number {
+  const runs = parseInt(process.env.DISCOVERY_ALERT_CHANNEL_ERROR_RUNS || String(DEFAULT_CHANNEL_ERROR_RUNS), 10);
+  return Number.isFinite(runs) && runs >= 1 ? runs : DEFAULT_CHANNEL_ERROR_RUNS;
+}
+
+/**
+ * Run details the alerts refer to
+ */
+export interface RunAlertContext {
+  mode: 'daily' | 'manual' | 'test';
+  dryRun: boolean;
+  intentId?: string;
+  intentName?: string;
+  /** Latest finished runs of the intent executing each channel (this one included) that failed in a row */
+  channelErrorStreaks: Record<string, number>;
+  channelErrorThreshold: number;
+  /** App URL for links (NEXTAUTH_URL) */
+  baseUrl?: string;
+  /** Ledger day, so quota alerts repeat at most once a day */
+  day: string;
+}
+
+/**
+ * Failures in a row per channel, counted from the newest run
+ *
+ * Only runs that executed the channel count: a run without it (other channel
+ * set, or failed before reaching it) neither extends nor breaks the streak.
+ *
+ * @param runs - Stats of finished runs, newest first
+ */
+export function countChannelErrorStreaks(
+  runs: Array<Partial<Pick<DiscoveryRunStats, 'channelResults' | 'channelErrors'>> | null | undefined>
+): Record<string, number> {
+  const streaks: Record<string, number> = {};
+  for (const channel of Object.keys(runs[0]?.channelErrors ?? {})) {
+    let streak = 0;
+    for (const run of runs) {
+      const errors = run?.channelErrors ?? {};
+      if (!(channel in errors) && !(channel in (run?.channelResults ?? {}))) continue;
+      if (errors[channel] === undefined) break;
+      streak++;
+    }
+    streaks[channel] = streak;
+  }
+  return streaks;
+}
+
+/**
+ * Alerts a finished run raises (none for dry and test runs)
+ */
+export function buildRunAlerts(result: RunResult, context: RunAlertContext): AlertInput[] {
+  if (context.dryRun || context.mode === 'test') {
+    return [];
+  }
+
+  const intentKey = context.intentId ?? 'default';
+  const intentLabel = context.intentName ?? 'Default discovery';
+  const runUrl = context.baseUrl ? `${context.baseUrl}/dashboard/discovery/runs/${result.runId}` : undefined;
+  const details = { Intent: intentLabel, Mode: context.mode, Run: result.runId };
+  const alerts: AlertInput[] = [];
+
+  if (result.status === 'failed') {
+    alerts.push({
+      type: 'run_failed',
+      severity: 'critical',
+      dedupeKey: `run_failed:${intentKey}`,
+      title: `Discovery run failed: ${intentLabel}`,
+      message: result.error || 'The run failed without an error message',
+      url: runUrl,
+      runId: result.runId,
+      details,
+    });
+  }
+
+  if (
+    (result.status === 'completed' || result.status === 'completed_with_errors') &&
+    result.stats.totalDiscovered === 0
+  ) {
+    const queries = result.stats.searchQueries?.length;
+    alerts.push({
+      type: 'zero_results',
+      severity: 'warning',
+      dedupeKey: `zero_results:${intentKey}`,
+      title: `Discovery run found nothing: ${intentLabel}`,
+      message:
+        `The ${context.mode} run completed without discovering any companies` +
+        (queries !== undefined ? ` (${queries} queries searched).` : '.'),
+      url: runUrl,
+      runId: result.runId,
+      details,
+    });
+  }
+
+  if (result.status === 'skipped_budget' && result.stats.quota) {
+    alerts.push({
+      type: 'quota_exhausted',
+      severity: 'warning',
+      dedupeKey: `quota_exhausted:${context.day}`,
+      title: 'Discovery quota exhausted',
+      message: result.error || "Today's discovery quota is used up",
+      url: context.baseUrl ? `${context.baseUrl}/dashboard/discovery/usage` : undefined,
+      runId: result.runId,
+      details,
+    });
+  }
+
+  for (const [channel, error] of Object.entries(result.stats.channelErrors)) {
+    const streak = context.channelErrorStreaks[channel] ?? 0;
+    if (streak >= context.channelErrorThreshold) {
+      alerts.push({
+        type: 'channel_errors',
+        severity: 'warning',
+        dedupeKey: `channel_errors:${channel}`,
+        title: `Discovery channel failing: ${channel}`,
+        message: `The ${channel} channel failed in the last ${streak} runs that used it. Latest error: ${error}`,
+        url: runUrl,
+        runId: result.runId,
+        details: { ...details, Channel: channel },
+      });
+    }
+  }
+
+  return alerts;
+}
+
+/**
+ * Channel failure streaks over the latest finished runs of an intent
+ * (runs without an intent form their own series)
+ */
+async function loadChannelErrorStreaks(threshold: number, intentId?: string): Promise<Record<string, number>> {
+  const runs = await prisma.discoveryRun.findMany({
+    where: {
+      dryRun: false,
+      intentId: intentId ?? null,
+      status: { in: ['completed', 'completed_with_errors', 'failed'] },
+    },
+    // Postgres sorts NULLs first in descending order
+    orderBy: { finishedAt: { sort: 'desc', nulls: 'last' } },
+    take: threshold * CHANNEL_STREAK_WINDOW_FACTOR,
+    select: { stats: true },
+  });
+  return countChannelErrorStreaks(runs.map((run) => run.stats as DiscoveryRunStats | null));
+}
+
+/**
+ * Raise the alerts of a finished run
+ * Never fails the run: errors are logged.
+ */
+export async function notifyRunResult(
+  result: RunResult,
+  run: { mode: RunAlertContext['mode']; dryRun: boolean; intentId?: string; intentName?: string }
+): Promise<void> {
+  if (run.dryRun || run.mode === 'test') {
+    return;
+  }
+
+  try {
+    const channelErrorThreshold = getChannelErrorRunThreshold();
+    const channelErrorStreaks = Object.keys(result.stats.channelErrors).length > 0
+      ? await loadChannelErrorStreaks(channelErrorThreshold, run.intentId)
+      : {};
+    const baseUrl = process.env.NEXTAUTH_URL || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : undefined);
+
+    const alerts = buildRunAlerts(result, {
+      ...run,
+      channelErrorStreaks,
+      channelErrorThreshold,
+      baseUrl: baseUrl?.replace(/\/+$/, ''),
+      day: getUsageDay(),
+    });
+    for (const alert of alerts) {
+      await dispatchAlert(alert);
+    }
+  } catch (error) {
+    console.warn(
+      `[DiscoveryAlerts] Could not raise alerts for run ${result.runId}:`,
+      error instanceof Error ? error.message : error
+    );
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Discovery Alerts - Request validation
+ */
+
+import { z } from 'zod';
+import { DISCOVERY_ALERT_TYPES } from './runAlerts';
+
+const webhookUrlSchema = z.preprocess(
+  (value) => (typeof value === 'string' && value.trim() === '' ? null : value),
+  z
+    .string()
+    .trim()
+    .max(500)
+    .url('Webhook must be a valid URL')
+    .refine((value) => /^https?:\/\//i.test(value), 'Webhook must be an http(s) URL')
+    .nullable()
+    .optional()
+);
+
+/**
+ * Body of PUT /api/discovery/alerts/preferences
+ */
+export const alertPreferencesSchema = z.object({
+  alertTypes: z.array(z.enum(DISCOVERY_ALERT_TYPES)).default([]),
+  emailEnabled: z.boolean().default(true),
+  webhookUrl: webhookUrlSchema,
+  slackWebhookUrl: webhookUrlSchema,
+});
+
+export type AlertPreferencesRequest = z.infer<typeof alertPreferencesSchema>;
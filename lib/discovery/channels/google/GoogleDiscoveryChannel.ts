@@ -8,6 +8,8 @@
  * - Returns DiscoveryResult objects (no database writes)
  * 
  * Enhanced with web scraping for better accuracy.
+ * Optionally crawls event sites found by search for their exhibitor lists.
+ * Search results on the managed domain list are checked before scraping.
  */
 
 import type { IGoogleDiscoveryChannel } from './IGoogleDiscoveryChannel';
@@ -17,26 +19,33 @@ import type {
   DiscoveryResult,
   DiscoveryCompanyResult,
   DiscoveryMetadata,
+  DiscoverySearchQuery,
 } from '../../types';
-import { webScraper, contentAnalyzer, type AnalysisConfig } from '../../scraper';
-import { isConfigured, getConfigOrThrow } from '../../../discovery/google/googleConfig';
-
-/**
- * Google CSE API Response Structure
- */
-interface GoogleCSEResponse {
-  searchInformation?: {
-    totalResults?: string;
-    searchTime?: number;
-    formattedSearchTime?: string;
-  };
-  items?: Array<{
-    title: string;
-    link: string;
-    snippet: string;
-    displayLink?: string;
-    formattedUrl?: string;
-  }>;
+import { webScraper, contentAnalyzer, type AnalysisConfig, type FilteredOutResult } from '../../scraper';
+import {
+  SearchProviderChain,
+  isAnySearchProviderConfigured,
+  type SearchProviderType,
+  type SearchQueryRecord,
+} from '../../search';
+import { ExhibitorListCrawler, type ExhibitorCrawlTarget, type ExhibitorCrawlResult } from '../social/ExhibitorListCrawler';
+import type { BlockedFetch } from '../../fetch';
+import {
+  matchDomainList,
+  isSkippedListType,
+  recordDomainListHit,
+  type DomainList,
+  type DomainListHits,
+} from '../../domains';
+
+/** Search results that look like event / expo sites (crawled for exhibitor lists) */
+const EVENT_SITE_PATTERN =
+  /\b(?:expos?|exhibitions?|exhibitors?|conferences?|summit|trade[\s-]?shows?|fairs?|festival|indaba|congress|show\s+20\d\d)\b/i;
+
+/** Sites already scraped by the run being resumed (skipped), and the sites this run scraped */
+interface ScrapeTracking {
+  skip: Set<string>;
+  scraped: Set<string>;
 }
 
 /**
@@ -72,6 +81,38 @@ export interface GoogleDiscoveryChannelOptions {
    */
   maxSitesToScrape?: number;
 
+  /**
+   * Search providers to use, in fallback order (e.g. per-intent selection)
+   * Default: DISCOVERY_SEARCH_PROVIDERS env var, then google_cse, bing, brave, serpapi
+   */
+  searchProviders?: SearchProviderType[];
+
+  /**
+   * Search result cache TTL in hours (e.g. per-intent)
+   * Default: DISCOVERY_SEARCH_CACHE_TTL_HOURS (168). 0 disables the cache.
+   */
+  searchCacheTtlHours?: number;
+
+  /**
+   * Whether to follow exhibitor / sponsor / partner links on event sites found
+   * by search and return the listed companies (e.g. events intents)
+   * Default: false
+   */
+  crawlExhibitorLists?: boolean;
+
+  /**
+   * Maximum event sites crawled per run (when crawlExhibitorLists is enabled)
+   * Default: 3
+   */
+  maxEventSitesToCrawl?: number;
+
+  /**
+   * Managed domain list (loaded once per run)
+   * Block / competitor / customer domains are dropped before scraping;
+   * allow-listed domains skip URL filtering and the relevance threshold.
+   */
+  domainList?: DomainList;
+
   // Legacy options (kept for backward compatibility but deprecated)
   /** @deprecated Use analysisConfig.positiveKeywords instead */
   includeKeywords?: string[];
@@ -94,6 +135,8 @@ export class GoogleDiscoveryChannel implements IGoogleDiscoveryChannel {
       enableScraping: true, // Enable scraping for better results
       scrapeTimeout: 8000,
       maxSitesToScrape: 10,
+      crawlExhibitorLists: false,
+      maxEventSitesToCrawl: 3,
       ...options,
     };
   }
@@ -111,8 +154,8 @@ export class GoogleDiscoveryChannel implements IGoogleDiscoveryChannel {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   isEnabled(_config: DiscoveryChannelInput['config']): boolean {
     // Google is a Day 1 enabled channel - always active
-    // Only check if Google CSE is configured
-    return isConfigured();
+    // Only check if at least one search provider is configured
+    return isAnySearchProviderConfigured(this.options.searchProviders);
   }
 
   /**
@@ -121,14 +164,14 @@ export class GoogleDiscoveryChannel implements IGoogleDiscoveryChannel {
    * Input: Search queries from input.searchCriteria
    * Output: DiscoveryResult objects with companies found via Google search
    * 
-   * HARD FAILURE: If Google is not configured, returns error immediately.
+   * HARD FAILURE: If no search provider is configured, returns error immediately.
    * Discovery runs will be marked as completed_with_errors.
    */
   async discover(input: DiscoveryChannelInput): Promise<DiscoveryChannelOutput> {
-    // Check if channel is enabled (Google CSE configured)
+    // Check if channel is enabled (at least one search provider configured)
     // HARD FAILURE: Do not silently return empty results
     if (!this.isEnabled(input.config)) {
-      const errorMessage = 'Google Custom Search is not configured';
+      const errorMessage = 'Google Custom Search is not configured (no search provider available)';
       return {
         channelType: 'google',
         results: [],
@@ -137,6 +180,17 @@ export class GoogleDiscoveryChannel implements IGoogleDiscoveryChannel {
       };
     }
 
+    // Per-query provider records (kept on failure for run stats)
+    const queryRecords: SearchQueryRecord[] = [];
+    // URLs the fetch layer refused (robots.txt, rate limits), kept on failure for run stats
+    const blockedUrls: BlockedFetch[] = [];
+    // Search results matched against the domain list, kept on failure for run stats
+    const domainListHits: DomainListHits = {};
+    // Scraped sites below the relevance threshold, kept on failure for the run's filtered-out view
+    const filteredOut: FilteredOutResult[] = [];
+    // Websites scraped by this run, and those an earlier run already scraped (resumed runs)
+    const scrapes: ScrapeTracking = { skip: new Set(input.skipUrls ?? []), scraped: new Set() };
+
     try {
       // Extract search queries from input
       const searchQueries = this.extractSearchQueries(input);
@@ -153,18 +207,73 @@ export class GoogleDiscoveryChannel implements IGoogleDiscoveryChannel {
       }
 
       // Execute searches for all queries and aggregate results
+      // One provider chain per run, so an exhausted provider is not retried for every query
+      const searchChain = new SearchProviderChain({
+        providers: this.options.searchProviders,
+        cacheTtlHours: this.options.searchCacheTtlHours,
+      });
       const allResults: DiscoveryResult[] = [];
+      const eventSites: ExhibitorCrawlTarget[] = [];
       
+      let queriesExecuted = 0;
       for (const query of searchQueries) {
         // Check for cancellation between query batches
         if (input.cancelCheck && await input.cancelCheck()) {
           throw new Error('Discovery cancelled by user request');
         }
-        
-        const queryResults = await this.executeSearch(query);
+
+        // Time budget used up: the remaining queries are left for a resumed run
+        if (input.deadline && Date.now() >= input.deadline) {
+          console.log(`[GoogleDiscovery] Time budget reached after ${queriesExecuted} of ${searchQueries.length} queries`);
+          input.onProgress?.({
+            type: 'message',
+            channel: 'google',
+            message: `Time budget reached, ${searchQueries.length - queriesExecuted} queries left`,
+          });
+          break;
+        }
+
+        input.onProgress?.({
+          type: 'query_started',
+          channel: 'google',
+          query: query.query,
+          start: query.start,
+          index: queriesExecuted,
+          total: searchQueries.length,
+        });
+        const scrapedBefore = scrapes.scraped.size;
+        const filteredBefore = filteredOut.length;
+
+        const queryResults = await this.executeSearch(
+          query.query,
+          query.start,
+          searchChain,
+          queryRecords,
+          eventSites,
+          blockedUrls,
+          domainListHits,
+          filteredOut,
+          scrapes
+        );
         allResults.push(...queryResults);
+        queriesExecuted++;
+
+        input.onProgress?.({
+          type: 'query_completed',
+          channel: 'google',
+          query: query.query,
+          start: query.start,
+          urlsScraped: scrapes.scraped.size - scrapedBefore,
+          resultsKept: queryResults.length,
+          resultsFiltered: filteredOut.length - filteredBefore,
+        });
       }
 
+      // Exhibitors listed on event sites found by the searches
+      const exhibitorLists = this.options.crawlExhibitorLists
+        ? await this.crawlExhibitorLists(eventSites, input, allResults, blockedUrls)
+        : undefined;
+
       // Remove duplicates based on website URL (basic deduplication)
       const uniqueResults = this.deduplicateResults(allResults);
 
@@ -173,8 +282,14 @@ export class GoogleDiscoveryChannel implements IGoogleDiscoveryChannel {
         results: uniqueResults,
         success: true,
         metadata: {
-          queriesExecuted: searchQueries.length,
+          queriesExecuted,
           resultsFound: uniqueResults.length,
+          searchQueries: queryRecords,
+          ...(exhibitorLists ? { exhibitorLists } : {}),
+          ...(blockedUrls.length > 0 ? { blockedUrls } : {}),
+          ...(Object.keys(domainListHits).length > 0 ? { domainListHits } : {}),
+          ...(filteredOut.length > 0 ? { filteredOut } : {}),
+          ...(scrapes.scraped.size > 0 ? { scrapedUrls: [...scrapes.scraped] } : {}),
         },
       };
     } catch (error: unknown) {
@@ -185,82 +300,168 @@ export class GoogleDiscoveryChannel implements IGoogleDiscoveryChannel {
         results: [],
         success: false,
         error: errorMessage,
+        metadata: {
+          searchQueries: queryRecords,
+          ...(blockedUrls.length > 0 ? { blockedUrls } : {}),
+          ...(Object.keys(domainListHits).length > 0 ? { domainListHits } : {}),
+          ...(filteredOut.length > 0 ? { filteredOut } : {}),
+          ...(scrapes.scraped.size > 0 ? { scrapedUrls: [...scrapes.scraped] } : {}),
+        },
       };
     }
   }
 
+  /**
+   * Crawl event sites for exhibitor / sponsor / partner lists
+   *
+   * Listed companies are appended to results. A failing site is recorded in
+   * the returned stats and the remaining sites are still crawled.
+   */
+  private async crawlExhibitorLists(
+    eventSites: ExhibitorCrawlTarget[],
+    input: DiscoveryChannelInput,
+    results: DiscoveryResult[],
+    blockedUrls: BlockedFetch[]
+  ): Promise<Array<Record<string, unknown>>> {
+    const crawler = new ExhibitorListCrawler();
+    const stats: Array<Record<string, unknown>> = [];
+
+    for (const site of eventSites.slice(0, this.options.maxEventSitesToCrawl)) {
+      // Check for cancellation between event sites
+      if (input.cancelCheck && await input.cancelCheck()) {
+        throw new Error('Discovery cancelled by user request');
+      }
+
+      input.onProgress?.({ type: 'message', channel: 'google', message: `Crawling exhibitor list on ${site.url}` });
+      let crawl: ExhibitorCrawlResult;
+      try {
+        crawl = await crawler.crawl(site, input.cancelCheck);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        if (errorMessage.includes('cancelled')) {
+          throw error;
+        }
+        // One broken event site must not cost the run its search results
+        console.warn(`[GoogleDiscovery] Exhibitor list crawl of ${site.url} failed: ${errorMessage}`);
+        stats.push({ eventUrl: site.url, eventName: site.name, companiesFound: 0, errors: { [site.url]: errorMessage } });
+        continue;
+      }
+      results.push(...crawl.companies);
+      blockedUrls.push(...crawl.blocked);
+      stats.push({
+        eventUrl: crawl.eventUrl,
+        eventName: crawl.eventName,
+        eventDate: crawl.eventDate,
+        listPages: crawl.listPages,
+        pagesFetched: crawl.pagesFetched,
+        companiesFound: crawl.companies.length,
+        ...(Object.keys(crawl.errors).length > 0 ? { errors: crawl.errors } : {}),
+      });
+
+      console.log(`[GoogleDiscovery] Exhibitor list crawl of ${crawl.eventUrl}: ${crawl.companies.length} companies from ${crawl.listPages.length} list pages`);
+    }
+
+    return stats;
+  }
+
   /**
    * Extract search queries from input
-   * Supports string or array of strings
+   * Supports string or array of strings / queries with a result page offset
    */
-  private extractSearchQueries(input: DiscoveryChannelInput): string[] {
+  private extractSearchQueries(input: DiscoveryChannelInput): DiscoverySearchQuery[] {
     if (!input.searchCriteria) {
       return [];
     }
 
     if (typeof input.searchCriteria === 'string') {
-      return [input.searchCriteria];
+      return [{ query: input.searchCriteria }];
     }
 
     if (Array.isArray(input.searchCriteria)) {
-      return input.searchCriteria.filter((q): q is string => typeof q === 'string');
+      return input.searchCriteria
+        .map((q) => (typeof q === 'string' ? { query: q } : q))
+        .filter((q) => typeof q?.query === 'string');
     }
 
     return [];
   }
 
   /**
-   * Execute a single Google search query
+   * Execute a single search query through the provider chain
    * Returns DiscoveryResult objects (Company results)
    */
-  private async executeSearch(query: string): Promise<DiscoveryCompanyResult[]> {
-    // Use centralized config validation (will throw if not configured)
-    const config = getConfigOrThrow();
-    const apiKey = config.apiKey;
-    const searchEngineId = config.cseId;
-
+  private async executeSearch(
+    query: string,
+    start: number | undefined,
+    searchChain: SearchProviderChain,
+    searchQueries: SearchQueryRecord[],
+    eventSites: ExhibitorCrawlTarget[],
+    blockedUrls: BlockedFetch[],
+    domainListHits: DomainListHits,
+    filteredOut: FilteredOutResult[],
+    scrapes: ScrapeTracking
+  ): Promise<DiscoveryCompanyResult[]> {
     // Build search query - don't add "company" as it may limit results
     const searchQuery = query.trim();
 
-    // Construct Google CSE API URL
-    const url = new URL('https://www.googleapis.com/customsearch/v1');
-    url.searchParams.set('key', apiKey);
-    url.searchParams.set('cx', searchEngineId);
-    url.searchParams.set('q', searchQuery);
-    url.searchParams.set('num', '10'); // Get more results for discovery
-
-    // Make API request
-    const response = await fetch(url.toString(), {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
+    const search = await searchChain.search({ query: searchQuery, num: 10, start }); // Get more results for discovery
+
+    // Record which provider served the query (and which ones failed first)
+    const fallbackFrom = search.attempts
+      .filter(attempt => !attempt.success)
+      .map(attempt => ({ provider: attempt.provider, errorType: attempt.errorType }));
+    searchQueries.push({
+      query: searchQuery,
+      start: start && start > 1 ? start : undefined,
+      provider: search.provider,
+      fallbackFrom: fallbackFrom.length > 0 ? fallbackFrom : undefined,
+      resultsCount: search.items.length,
+      cached: search.cached,
+      apiCalls: search.apiCalls,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Google CSE API error: ${response.status} - ${errorText}`);
+    if (!search.success || !search.provider) {
+      throw new Error(search.error || 'Search failed');
     }
 
-    const data: GoogleCSEResponse = await response.json();
-    const items = data.items || [];
+    const items = search.items;
+    const provider = search.provider;
 
-    console.log(`[GoogleDiscovery] Query "${searchQuery}" returned ${items.length} results`);
+    console.log(`[GoogleDiscovery] Query "${searchQuery}"${start && start > 1 ? ` (from result ${start})` : ''} returned ${items.length} results (${provider}${search.cached ? ', cached' : ''})`);
 
-    // Step 1: Filter out obvious non-company URLs
-    const filteredItems = this.options.filterNonCompanyWebsites
-      ? items.filter(item => this.isLikelyCompanyUrl(item.link))
-      : items;
+    // Step 1: Drop listed domains, then obvious non-company URLs (allow-listed domains are always kept)
+    const allowListed = new Set<string>();
+    const filteredItems = items.filter(item => {
+      const match = this.options.domainList ? matchDomainList(item.link, this.options.domainList) : null;
+      if (match) {
+        recordDomainListHit(domainListHits, match);
+        if (isSkippedListType(match.listType)) {
+          return false;
+        }
+        allowListed.add(item.link);
+        return true;
+      }
+      return !this.options.filterNonCompanyWebsites || this.isLikelyCompanyUrl(item.link);
+    });
 
     console.log(`[GoogleDiscovery] After URL filtering: ${filteredItems.length} results`);
 
+    // Collect event sites before relevance filtering (organiser sites rarely match the ICP themselves)
+    if (this.options.crawlExhibitorLists) {
+      for (const item of filteredItems) {
+        if (EVENT_SITE_PATTERN.test(`${item.title} ${item.link}`) && !eventSites.some((site) => site.url === item.link)) {
+          eventSites.push({ url: item.link, name: this.extractCompanyName(item.title, item.snippet), foundVia: query });
+        }
+      }
+    }
+
     // Step 2: Scrape and analyze if enabled
     if (this.options.enableScraping && this.options.analysisConfig) {
-      return this.scrapeAndAnalyze(filteredItems, query);
+      return this.scrapeAndAnalyze(filteredItems, query, start, provider, blockedUrls, allowListed, filteredOut, scrapes);
     }
 
     // Fallback: Convert results without scraping
-    return this.convertToResults(filteredItems, query);
+    return this.convertToResults(filteredItems, query, start, provider, allowListed);
   }
 
   /**
@@ -268,15 +469,24 @@ export class GoogleDiscoveryChannel implements IGoogleDiscoveryChannel {
    */
   private async scrapeAndAnalyze(
     items: Array<{ title: string; link: string; snippet: string; displayLink?: string }>,
-    query: string
+    query: string,
+    start: number | undefined,
+    provider: SearchProviderType,
+    blockedUrls: BlockedFetch[],
+    allowListed: Set<string>,
+    filteredOut: FilteredOutResult[],
+    scrapes: ScrapeTracking
   ): Promise<DiscoveryCompanyResult[]> {
     const results: DiscoveryCompanyResult[] = [];
     const maxSites = this.options.maxSitesToScrape || 10;
     const timeout = this.options.scrapeTimeout || 8000;
     const analysisConfig = this.options.analysisConfig!;
 
-    // Limit sites to scrape
-    const sitesToScrape = items.slice(0, maxSites);
+    // Limit sites to scrape (skipping sites the resumed run already scraped)
+    const sitesToScrape = items.filter((item) => !scrapes.skip.has(item.link)).slice(0, maxSites);
+    for (const item of sitesToScrape) {
+      scrapes.scraped.add(item.link);
+    }
     console.log(`[GoogleDiscovery] Scraping ${sitesToScrape.length} sites...`);
 
     // Scrape in parallel (with concurrency of 3)
@@ -289,14 +499,15 @@ export class GoogleDiscoveryChannel implements IGoogleDiscoveryChannel {
     for (let i = 0; i < scrapedContent.length; i++) {
       const content = scrapedContent[i];
       const item = sitesToScrape[i];
+      blockedUrls.push(...(content.blockedUrls ?? []));
 
       // Analyze content
       const relevance = contentAnalyzer.analyze(content, analysisConfig);
       
       console.log(`[GoogleDiscovery] ${item.displayLink}: score=${relevance.score}, relevant=${relevance.isRelevant}`);
 
-      // Only include relevant companies
-      if (relevance.isRelevant) {
+      // Only include relevant companies (or allow-listed domains)
+      if (relevance.isRelevant || allowListed.has(item.link)) {
         const discoveryMetadata: DiscoveryMetadata = {
           discoverySource: 'google',
           discoveryTimestamp: new Date(),
@@ -305,15 +516,23 @@ export class GoogleDiscoveryChannel implements IGoogleDiscoveryChannel {
             searchResultTitle: item.title,
             searchResultSnippet: item.snippet,
             displayLink: item.displayLink,
+            searchProvider: provider,
             // Include scraping results
             scrapedTitle: content.title,
             scrapedDescription: content.description,
             relevanceScore: relevance.score,
             relevanceReasons: relevance.reasons,
+            // Full breakdown (component scores, matched keywords with snippets)
+            relevance,
             detectedIndustry: relevance.detectedIndustry,
             confidence: relevance.confidence,
             hasContact: !!content.contact,
             hasLinkedIn: !!content.socialLinks?.linkedin,
+            pagesVisited: content.pagesVisited,
+            // Organization details from JSON-LD / microdata / OpenGraph, with provenance
+            ...(content.structuredData ? { structuredData: content.structuredData } : {}),
+            ...(start && start > 1 ? { searchStart: start } : {}),
+            ...(allowListed.has(item.link) ? { allowListed: true } : {}),
           },
         };
 
@@ -336,8 +555,21 @@ export class GoogleDiscoveryChannel implements IGoogleDiscoveryChannel {
         if (content.contact?.phone) {
           companyResult.phone = content.contact.phone;
         }
+        if (content.structuredData?.address?.value.country) {
+          companyResult.country = content.structuredData.address.value.country;
+        }
 
         results.push(companyResult);
+      } else {
+        filteredOut.push({
+          name: content.companyName || this.extractCompanyName(item.title, item.snippet),
+          website: item.link,
+          query,
+          ...(start && start > 1 ? { start } : {}),
+          searchResultTitle: item.title,
+          searchResultSnippet: item.snippet,
+          relevance,
+        });
       }
     }
 
@@ -350,13 +582,16 @@ export class GoogleDiscoveryChannel implements IGoogleDiscoveryChannel {
    */
   private convertToResults(
     items: Array<{ title: string; link: string; snippet: string; displayLink?: string }>,
-    query: string
+    query: string,
+    start: number | undefined,
+    provider: SearchProviderType,
+    allowListed: Set<string>
   ): DiscoveryCompanyResult[] {
     const results: DiscoveryCompanyResult[] = [];
 
     for (const item of items) {
       // Legacy keyword filtering (if configured)
-      if (!this.passesKeywordFilter(item.title, item.snippet)) {
+      if (!allowListed.has(item.link) && !this.passesKeywordFilter(item.title, item.snippet)) {
         continue;
       }
 
@@ -370,6 +605,8 @@ export class GoogleDiscoveryChannel implements IGoogleDiscoveryChannel {
           searchResultTitle: item.title,
           searchResultSnippet: item.snippet,
           displayLink: item.displayLink,
+          searchProvider: provider,
+          ...(start && start > 1 ? { searchStart: start } : {}),
         },
       };
 
@@ -18,6 +18,11 @@ import type {
   DiscoveryMetadata,
 } from '../../types';
 import { GoogleDiscoveryChannel } from '../google/GoogleDiscoveryChannel';
+import {
+  isAnySearchProviderConfigured,
+  type SearchProviderType,
+  type SearchQueryRecord,
+} from '../../search';
 
 /**
  * Keyword Discovery Channel Configuration Options
@@ -28,6 +33,18 @@ export interface KeywordDiscoveryChannelOptions {
    * Default: false (no transformation - search strategy is UNDEFINED)
    */
   addCompanySuffix?: boolean;
+
+  /**
+   * Search providers passed to the delegated Google channel, in fallback order
+   * Default: DISCOVERY_SEARCH_PROVIDERS env var, then google_cse, bing, brave, serpapi
+   */
+  searchProviders?: SearchProviderType[];
+
+  /**
+   * Search result cache TTL in hours passed to the delegated Google channel
+   * Default: DISCOVERY_SEARCH_CACHE_TTL_HOURS (168). 0 disables the cache.
+   */
+  searchCacheTtlHours?: number;
 }
 
 /**
@@ -63,10 +80,7 @@ export class KeywordDiscoveryChannel implements IKeywordDiscoveryChannel {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   isEnabled(_config: DiscoveryChannelInput['config']): boolean {
     // Check if Google discovery is available (required for delegation)
-    const apiKey = process.env.GOOGLE_CSE_API_KEY;
-    const searchEngineId = process.env.GOOGLE_CSE_ID;
-    
-    return !!(apiKey && searchEngineId);
+    return isAnySearchProviderConfigured(this.options.searchProviders);
   }
 
   /**
@@ -84,7 +98,7 @@ export class KeywordDiscoveryChannel implements IKeywordDiscoveryChannel {
         channelType: 'keyword',
         results: [],
         success: false,
-        error: 'Google Custom Search not configured. Keyword discovery requires Google discovery to be available.',
+        error: 'No search provider configured. Keyword discovery requires Google discovery to be available.',
       };
     }
 
@@ -105,7 +119,10 @@ export class KeywordDiscoveryChannel implements IKeywordDiscoveryChannel {
 
       // Initialize Google channel if not already done
       if (!this.googleChannel) {
-        this.googleChannel = new GoogleDiscoveryChannel();
+        this.googleChannel = new GoogleDiscoveryChannel({
+          searchProviders: this.options.searchProviders,
+          searchCacheTtlHours: this.options.searchCacheTtlHours,
+        });
       }
 
       // Transform keywords into search queries
@@ -115,6 +132,7 @@ export class KeywordDiscoveryChannel implements IKeywordDiscoveryChannel {
 
       // Execute searches for all keyword-derived queries
       const allResults: DiscoveryResult[] = [];
+      const queryRecords: SearchQueryRecord[] = [];
       
       for (const query of searchQueries) {
         // Delegate to Google discovery channel
@@ -127,6 +145,10 @@ export class KeywordDiscoveryChannel implements IKeywordDiscoveryChannel {
         };
 
         const googleOutput = await this.googleChannel.discover(googleInput);
+        const googleQueryRecords = googleOutput.metadata?.searchQueries as SearchQueryRecord[] | undefined;
+        if (googleQueryRecords) {
+          queryRecords.push(...googleQueryRecords);
+        }
         
         if (googleOutput.success && googleOutput.results.length > 0) {
           // Update discovery metadata to reflect keyword source
@@ -148,6 +170,7 @@ export class KeywordDiscoveryChannel implements IKeywordDiscoveryChannel {
           keywordsUsed: keywords.length,
           queriesExecuted: searchQueries.length,
           resultsFound: uniqueResults.length,
+          searchQueries: queryRecords,
         },
       };
     } catch (error: unknown) {
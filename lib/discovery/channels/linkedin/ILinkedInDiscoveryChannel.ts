@@ -2,7 +2,7 @@
  * Phase 1 Discovery - LinkedIn Profile Discovery Channel Interface
  * 
  * Interface for LinkedIn Profile Discovery (CORE Channel - GATED)
- * Defines input/output contract only - no implementation.
+ * Defines input/output contract only - see LinkedInDiscoveryChannel.
  * 
  * Based on PHASE_1_Discovery_MVP_Definition.md
  * 
@@ -18,38 +18,37 @@ import type {
 /**
  * LinkedIn Discovery Channel Interface
  * 
- * CORE Channel - GATED by UNDEFINED access constraints
+ * CORE Channel - GATED
  * - Activation Status: Gated (must not block build if disabled)
  * - If disabled: Phase 1 continues with other channels
  * 
  * Function:
- * - Discover LinkedIn profiles for companies and contacts
- * - Extract LinkedIn profile information
+ * - Ingest LinkedIn Sales Navigator / Recruiter exports (CSV) or pasted lead lists
+ * - Map each person to a contact (with LinkedIn profile URL) and their company
  * 
  * Note: 
- * - LinkedIn access type is UNDEFINED (API vs scraping)
- * - Access credentials/permissions are UNDEFINED
- * - Must gracefully degrade if access unavailable
+ * - LinkedIn is NOT scraped or called - the export is uploaded via the dashboard
+ * - The channel is disabled when no export is supplied
  */
 export interface ILinkedInDiscoveryChannel extends IDiscoveryChannel {
   /**
-   * Execute LinkedIn profile discovery
+   * Execute LinkedIn export discovery
    * 
    * Input:
-   * - Discovery criteria (company names, contact names, etc.)
-   * - Search parameters (UNDEFINED - depends on LinkedIn access method)
+   * - Export content (from channel options)
+   * - Optional parameters.maxResults to cap the number of people returned
    * 
    * Output:
-   * - Company LinkedIn profiles discovered
-   * - Contact LinkedIn profiles discovered
-   * - Profile information extracted
+   * - Company results (current company of each person)
+   * - Contact results with linkedInUrl populated
+   * - Lead results for people with an email address
    * 
    * Behavior:
-   * - If channel is disabled (activationStatus: 'disabled'), returns empty results
+   * - If channel is disabled (no export), returns empty results
    * - Does not throw errors that would block other channels
    * 
    * @param input - LinkedIn discovery channel input
-   * @returns Discovery results with LinkedIn profiles (or empty if disabled)
+   * @returns Discovery results from the export (or empty if disabled)
    */
   discover(input: DiscoveryChannelInput): Promise<DiscoveryChannelOutput>;
   
@@ -63,12 +62,11 @@ export interface ILinkedInDiscoveryChannel extends IDiscoveryChannel {
   /**
    * Check if LinkedIn channel is enabled
    * 
-   * Note: Activation is gated by UNDEFINED access constraints
    * - Checks activation status from config
-   * - Verifies access credentials/permissions (UNDEFINED implementation)
+   * - Requires an uploaded export
    * 
    * @param config - Channel configuration
-   * @returns True if LinkedIn is enabled and access is available
+   * @returns True if LinkedIn is enabled and an export is available
    */
   isEnabled(config: DiscoveryChannelInput['config']): boolean;
 }
@@ -0,0 +1,288 @@
+/**
+ * LinkedIn Discovery Channel Implementation
+ *
+ * - Ingests LinkedIn Sales Navigator / Recruiter CSV exports or pasted lead lists
+ *   uploaded via the dashboard (LinkedIn itself is never scraped or called)
+ * - Maps each person to a DiscoveryContactResult (linkedInUrl populated) and
+ *   their current company to a DiscoveryCompanyResult
+ * - People with an email address also produce a DiscoveryLeadResult
+ * - Returns results only (no database writes)
+ */
+
+import type { ILinkedInDiscoveryChannel } from './ILinkedInDiscoveryChannel';
+import type {
+  DiscoveryChannelInput,
+  DiscoveryChannelOutput,
+  DiscoveryCompanyResult,
+  DiscoveryContactResult,
+  DiscoveryMetadata,
+  DiscoveryResult,
+} from '../../types';
+import { parseLinkedInExport, type LinkedInExportRow } from './parseLinkedInExport';
+
+/**
+ * Maximum people ingested from one export
+ */
+export const LINKEDIN_EXPORT_MAX_ROWS = 500;
+
+/**
+ * Uploaded LinkedIn export
+ */
+export interface LinkedInExport {
+  /** Raw CSV or pasted text */
+  content: string;
+
+  /** Uploaded file name (absent for pasted lists) */
+  fileName?: string;
+}
+
+/**
+ * LinkedIn Discovery Channel Configuration Options
+ */
+export interface LinkedInDiscoveryChannelOptions {
+  /**
+   * Export to ingest
+   * The channel is disabled without one.
+   */
+  export?: LinkedInExport;
+
+  /**
+   * Maximum people ingested
+   * Default: LINKEDIN_EXPORT_MAX_ROWS (500)
+   */
+  maxRows?: number;
+}
+
+/**
+ * Normalise a company website from an export ("acme.co.za" -> "https://acme.co.za")
+ */
+function normaliseWebsite(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  try {
+    const url = new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+    return url.hostname.includes('.') ? `${url.protocol}//${url.hostname}` : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * LinkedIn Discovery Channel Implementation
+ *
+ * Turns an uploaded LinkedIn export into company, contact and lead results.
+ * Does NOT write to database - only returns results.
+ */
+export class LinkedInDiscoveryChannel implements ILinkedInDiscoveryChannel {
+  private options: LinkedInDiscoveryChannelOptions;
+
+  constructor(options: LinkedInDiscoveryChannelOptions = {}) {
+    this.options = {
+      maxRows: LINKEDIN_EXPORT_MAX_ROWS,
+      ...options,
+    };
+  }
+
+  /**
+   * Get channel type identifier
+   */
+  getChannelType(): 'linkedin' {
+    return 'linkedin';
+  }
+
+  /**
+   * Check if channel is enabled
+   * Requires an export with content (and not explicitly disabled)
+   */
+  isEnabled(config: DiscoveryChannelInput['config']): boolean {
+    return config.activationStatus !== 'disabled' && !!this.options.export?.content.trim();
+  }
+
+  /**
+   * Execute LinkedIn export discovery
+   *
+   * Duplicate people within the export (same profile URL, email, or name and
+   * company) are collapsed; each company is emitted once.
+   */
+  async discover(input: DiscoveryChannelInput): Promise<DiscoveryChannelOutput> {
+    const linkedInExport = this.options.export;
+    if (!linkedInExport?.content.trim()) {
+      return {
+        channelType: 'linkedin',
+        results: [],
+        success: false,
+        error: 'No LinkedIn export supplied (upload a CSV export or paste a lead list)',
+      };
+    }
+
+    try {
+      const parsed = parseLinkedInExport(linkedInExport.content);
+      const maxResults = typeof input.parameters?.maxResults === 'number' ? input.parameters.maxResults : undefined;
+      const maxRows = Math.min(maxResults ?? Infinity, this.options.maxRows!);
+
+      const discoveryTimestamp = new Date();
+      const discoveryMethod = `linkedin_export:${linkedInExport.fileName || 'pasted list'}`;
+      const results: DiscoveryResult[] = [];
+      const companies = new Map<string, DiscoveryCompanyResult>();
+      const seenPeople = new Set<string>();
+      let duplicates = 0;
+      let people = 0;
+      let truncated = false;
+
+      for (const row of parsed.rows) {
+        if (people >= maxRows) {
+          truncated = true;
+          break;
+        }
+
+        const keys = this.getPersonKeys(row);
+        if (keys.some((key) => seenPeople.has(key))) {
+          duplicates++;
+          continue;
+        }
+        keys.forEach((key) => seenPeople.add(key));
+        people++;
+
+        // Company first so persistence can link the contact to it
+        let company: DiscoveryCompanyResult | undefined;
+        if (row.companyName) {
+          const companyKey = row.companyName.toLowerCase();
+          company = companies.get(companyKey);
+          if (!company) {
+            company = this.toCompanyResult(row, discoveryTimestamp, discoveryMethod, parsed.format);
+            companies.set(companyKey, company);
+            results.push(company);
+          }
+        }
+
+        const contact = this.toContactResult(row, discoveryTimestamp, discoveryMethod, parsed.format);
+        results.push(contact);
+
+        // Leads require an email address
+        if (row.email) {
+          results.push({
+            type: 'lead',
+            source: 'linkedin',
+            discoveryTimestamp,
+            company,
+            contact,
+            additionalMetadata: {
+              discoveryMethod,
+              linkedInUrl: row.linkedInUrl,
+              title: row.title,
+              location: row.location,
+            },
+          });
+        }
+      }
+
+      return {
+        channelType: 'linkedin',
+        results,
+        success: people > 0,
+        error: people > 0 ? undefined : 'No people found in LinkedIn export',
+        metadata: {
+          fileName: linkedInExport.fileName,
+          format: parsed.format,
+          mappedColumns: parsed.mappedColumns,
+          rowsParsed: parsed.rows.length,
+          rowsSkipped: parsed.skipped.length,
+          skippedLines: parsed.skipped.slice(0, 20),
+          duplicates,
+          truncated,
+          peopleFound: people,
+          companiesFound: companies.size,
+          resultsFound: results.length,
+        },
+      };
+    } catch (error: unknown) {
+      // Return error but don't throw (graceful degradation)
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred while reading LinkedIn export';
+      return {
+        channelType: 'linkedin',
+        results: [],
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Identity keys for in-export deduplication
+   */
+  private getPersonKeys(row: LinkedInExportRow): string[] {
+    const keys: string[] = [];
+    if (row.linkedInUrl) keys.push(`url:${row.linkedInUrl}`);
+    if (row.email) keys.push(`email:${row.email}`);
+    if (keys.length === 0) {
+      keys.push(`name:${row.fullName.toLowerCase()}|${(row.companyName ?? '').toLowerCase()}`);
+    }
+    return keys;
+  }
+
+  /**
+   * Build discovery metadata for an export row
+   */
+  private toDiscoveryMetadata(
+    discoveryTimestamp: Date,
+    discoveryMethod: string,
+    additionalMetadata: Record<string, unknown>
+  ): DiscoveryMetadata {
+    return {
+      discoverySource: 'linkedin',
+      discoveryTimestamp,
+      discoveryMethod,
+      additionalMetadata,
+    };
+  }
+
+  /**
+   * Convert an export row into the person's company
+   */
+  private toCompanyResult(
+    row: LinkedInExportRow,
+    discoveryTimestamp: Date,
+    discoveryMethod: string,
+    format: 'csv' | 'list'
+  ): DiscoveryCompanyResult {
+    return {
+      type: 'company',
+      name: row.companyName!,
+      website: normaliseWebsite(row.companyWebsite),
+      industry: row.industry,
+      locations: row.location ? [row.location] : undefined,
+      discoveryMetadata: this.toDiscoveryMetadata(discoveryTimestamp, discoveryMethod, {
+        exportFormat: format,
+      }),
+    };
+  }
+
+  /**
+   * Convert an export row into a contact
+   */
+  private toContactResult(
+    row: LinkedInExportRow,
+    discoveryTimestamp: Date,
+    discoveryMethod: string,
+    format: 'csv' | 'list'
+  ): DiscoveryContactResult {
+    return {
+      type: 'contact',
+      name: row.fullName,
+      firstName: row.firstName,
+      lastName: row.lastName,
+      email: row.email,
+      phone: row.phone,
+      role: row.title,
+      linkedInUrl: row.linkedInUrl,
+      companyName: row.companyName,
+      discoveryMetadata: this.toDiscoveryMetadata(discoveryTimestamp, discoveryMethod, {
+        exportFormat: format,
+        exportLine: row.line,
+        location: row.location,
+      }),
+    };
+  }
+}
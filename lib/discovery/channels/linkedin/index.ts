@@ -0,0 +1,20 @@
+/**
+ * LinkedIn Discovery Channel
+ *
+ * Exports for LinkedIn export-file discovery channel implementation
+ */
+
+export type { ILinkedInDiscoveryChannel } from './ILinkedInDiscoveryChannel';
+export {
+  LinkedInDiscoveryChannel,
+  LINKEDIN_EXPORT_MAX_ROWS,
+  type LinkedInDiscoveryChannelOptions,
+  type LinkedInExport,
+} from './LinkedInDiscoveryChannel';
+export {
+  parseLinkedInExport,
+  normaliseLinkedInUrl,
+  splitPersonName,
+  type LinkedInExportRow,
+  type LinkedInExportParseResult,
+} from './parseLinkedInExport';
@@ -0,0 +1,204 @@
+/**
+ * Unit Tests for LinkedIn export parsing
+ *
+ * Simple test runner compatible with repo conventions.
+ * Run with: tsx lib/discovery/channels/linkedin/parseLinkedInExport.test.ts
+ */
+
+import { normaliseLinkedInUrl, parseLinkedInExport } from './parseLinkedInExport';
+
+// Simple assertion helper
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string): void {
+  if (actual !== expected) {
+    throw new Error(`Assertion failed: ${message}. Expected: ${expected}, Actual: ${actual}`);
+  }
+}
+
+// Test cases
+function testSalesNavigatorExport() {
+  console.log('Test 1: Sales Navigator CSV with aliased headers');
+
+  const csv = [
+    'Full Name,Job Title,Account Name,Person Linkedin Url,Geography,Work Email',
+    '"Sipho Naidoo, CA(SA)",Head of Procurement,Acme Ltd,https://za.linkedin.com/in/Sipho-Naidoo/?trk=x,"Johannesburg, Gauteng",Sipho@Acme.co.za',
+    'Thandi Mokoena,Buyer,Beta Corp,linkedin.com/in/thandim,Cape Town,',
+    ',Analyst,Gamma Holdings,,,',
+  ].join('\r\n');
+
+  const result = parseLinkedInExport(csv);
+  assertEqual(result.format, 'csv', 'Header row recognised');
+  assertEqual(result.rows.length, 2, 'Two people parsed');
+  assertEqual(result.mappedColumns?.linkedInUrl, 'Person Linkedin Url', 'LinkedIn URL column mapped');
+  assertEqual(result.mappedColumns?.companyName, 'Account Name', 'Company column mapped');
+
+  const [sipho, thandi] = result.rows;
+  assertEqual(sipho.fullName, 'Sipho Naidoo, CA(SA)', 'Full name kept as exported');
+  assertEqual(sipho.firstName, 'Sipho', 'First name split off');
+  assertEqual(sipho.lastName, 'Naidoo', 'Credentials dropped from last name');
+  assertEqual(sipho.title, 'Head of Procurement', 'Title');
+  assertEqual(sipho.companyName, 'Acme Ltd', 'Company');
+  assertEqual(sipho.location, 'Johannesburg, Gauteng', 'Quoted location kept whole');
+  assertEqual(sipho.linkedInUrl, 'https://www.linkedin.com/in/sipho-naidoo', 'Country subdomain and query stripped');
+  assertEqual(sipho.email, 'sipho@acme.co.za', 'Email lowercased');
+  assertEqual(thandi.linkedInUrl, 'https://www.linkedin.com/in/thandim', 'Bare URL gets https://www.');
+  assertEqual(thandi.email, undefined, 'Empty email cell left out');
+
+  assertEqual(result.skipped.length, 1, 'Row without a name skipped');
+  assertEqual(result.skipped[0].line, 4, 'Skipped row line number');
+  assertEqual(result.skipped[0].reason, 'Missing name', 'Skip reason');
+
+  console.log('  ✅ Sales Navigator export parsed');
+}
+
+function testConnectionsPreamble() {
+  console.log('Test 2: Connections.csv with its Notes preamble');
+
+  const csv = [
+    'Notes:',
+    '"When exporting your connection data, you may notice that some of the email addresses are missing."',
+    '',
+    'First Name,Last Name,URL,Email Address,Company,Position,Connected On',
+    'Jane,Doe,https://www.linkedin.com/in/JaneDoe,,Acme Ltd,Procurement Manager,12 Jan 2026',
+    'John,van der Merwe,https://www.linkedin.com/in/jvdm,john@beta.co.za,Beta Corp,Buyer,03 Feb 2026',
+  ].join('\n');
+
+  const result = parseLinkedInExport(csv);
+  assertEqual(result.format, 'csv', 'Header found after the preamble');
+  assertEqual(result.rows.length, 2, 'Two connections parsed');
+  assertEqual(result.skipped.length, 0, 'Preamble not reported as skipped rows');
+
+  const [jane, john] = result.rows;
+  assertEqual(jane.line, 5, 'Line number counts the preamble');
+  assertEqual(jane.fullName, 'Jane Doe', 'Full name built from first and last name');
+  assertEqual(jane.title, 'Procurement Manager', 'Position mapped to title');
+  assertEqual(jane.linkedInUrl, 'https://www.linkedin.com/in/janedoe', 'Generic URL column mapped');
+  assertEqual(john.lastName, 'van der Merwe', 'Multi-word last name kept');
+  assertEqual(john.email, 'john@beta.co.za', 'Email Address column mapped');
+
+  console.log('  ✅ Connections.csv parsed past the preamble');
+}
+
+function testPastedTsvWithoutHeader() {
+  console.log('Test 3: Tab-separated paste without a header row');
+
+  const pasted = [
+    'Jane Doe\tProcurement Manager\tAcme Ltd\thttps://www.linkedin.com/in/janedoe',
+    'John Smith\tBuyer at Beta Corp',
+  ].join('\n');
+
+  const result = parseLinkedInExport(pasted);
+  assertEqual(result.format, 'list', 'No header row: parsed as a list');
+  assertEqual(result.rows.length, 2, 'Both lines parsed');
+
+  const [jane, john] = result.rows;
+  assertEqual(jane.fullName, 'Jane Doe', 'Name from the first column');
+  assertEqual(jane.title, 'Procurement Manager', 'Title from the second column');
+  assertEqual(jane.companyName, 'Acme Ltd', 'Company from the third column');
+  assertEqual(jane.linkedInUrl, 'https://www.linkedin.com/in/janedoe', 'URL found in any column');
+  assertEqual(john.title, 'Buyer', '"Title at Company" split: title');
+  assertEqual(john.companyName, 'Beta Corp', '"Title at Company" split: company');
+  assertEqual(john.line, 2, 'Line number');
+
+  console.log('  ✅ Pasted spreadsheet rows parsed');
+}
+
+function testFreeFormLines() {
+  console.log('Test 4: Free-form pasted lines');
+
+  const pasted = [
+    'Jane Doe - Procurement Manager at Acme Ltd - linkedin.com/in/janedoe',
+    '',
+    'Peter Pan | peter@Neverland.co.za',
+    'Just A Name',
+  ].join('\n');
+
+  const result = parseLinkedInExport(pasted);
+  assertEqual(result.format, 'list', 'Parsed as a list');
+  assertEqual(result.rows.length, 2, 'Two people parsed');
+
+  const [jane, peter] = result.rows;
+  assertEqual(jane.firstName, 'Jane', 'First name');
+  assertEqual(jane.lastName, 'Doe', 'Last name');
+  assertEqual(jane.title, 'Procurement Manager', 'Title before "at"');
+  assertEqual(jane.companyName, 'Acme Ltd', 'Company after "at"');
+  assertEqual(jane.linkedInUrl, 'https://www.linkedin.com/in/janedoe', 'URL normalised');
+  assertEqual(peter.email, 'peter@neverland.co.za', 'Email found on the line');
+  assertEqual(peter.line, 3, 'Blank lines counted in line numbers');
+
+  assertEqual(result.skipped.length, 1, 'Name-only line skipped');
+  assertEqual(result.skipped[0].line, 4, 'Skipped line number');
+  assertEqual(result.skipped[0].reason, 'No LinkedIn URL, email, title or company', 'Skip reason');
+
+  console.log('  ✅ Free-form lines parsed');
+}
+
+function testUrlNormalisation() {
+  console.log('Test 5: LinkedIn URL normalisation');
+
+  assertEqual(
+    normaliseLinkedInUrl('https://www.linkedin.com/sales/lead/ACwAAB123?x=1'),
+    'https://www.linkedin.com/sales/lead/ACwAAB123',
+    'Sales Navigator link kept (path only)'
+  );
+  assertEqual(
+    normaliseLinkedInUrl('Profile: http://linkedin.com/in/J%C3%BCrgen-M/#about'),
+    'https://www.linkedin.com/in/jürgen-m',
+    'Encoded slug decoded, fragment dropped'
+  );
+  assertEqual(normaliseLinkedInUrl('https://example.com/in/jane'), undefined, 'Other sites rejected');
+  assertEqual(normaliseLinkedInUrl(undefined), undefined, 'Missing value');
+  assert(!normaliseLinkedInUrl('linkedin.com'), 'Bare domain is not a profile');
+
+  console.log('  ✅ LinkedIn URLs normalised');
+}
+
+function runTests() {
+  console.log('='.repeat(60));
+  console.log('LinkedIn Export Parsing Unit Tests');
+  console.log('='.repeat(60));
+  console.log('');
+
+  const tests = [
+    testSalesNavigatorExport,
+    testConnectionsPreamble,
+    testPastedTsvWithoutHeader,
+    testFreeFormLines,
+    testUrlNormalisation,
+  ];
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const test of tests) {
+    try {
+      test();
+      passed++;
+      console.log('');
+    } catch (error) {
+      failed++;
+      console.error(`  ❌ Test failed: ${error instanceof Error ? error.message : String(error)}`);
+      console.log('');
+    }
+  }
+
+  console.log('='.repeat(60));
+  console.log(`Tests: ${passed} passed, ${failed} failed (total: ${tests.length})`);
+  console.log('='.repeat(60));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
@@ -0,0 +1,312 @@
+/**
+ * LinkedIn Export Parsing
+ *
+ * Parses lead lists exported from LinkedIn tools into rows:
+ * - Sales Navigator / Recruiter CSV exports (and third-party Sales Navigator exporters)
+ * - LinkedIn "Connections.csv" data export (has a "Notes:" preamble before the header)
+ * - Lists pasted from a spreadsheet (tab-separated, with or without a header row)
+ * - Free-form pasted lines, e.g. "Jane Doe - Procurement Manager at Acme Ltd - linkedin.com/in/janedoe"
+ *
+ * Pure functions - no network or database access.
+ */
+
+import Papa from 'papaparse';
+
+/**
+ * One person from a LinkedIn export
+ */
+export interface LinkedInExportRow {
+  /** Line number in the uploaded content (1-based, for error reporting) */
+  line: number;
+  fullName: string;
+  firstName?: string;
+  lastName?: string;
+  title?: string;
+  companyName?: string;
+  companyWebsite?: string;
+  /** Normalised profile URL (https://www.linkedin.com/in/<slug>) */
+  linkedInUrl?: string;
+  email?: string;
+  phone?: string;
+  location?: string;
+  industry?: string;
+}
+
+/**
+ * Parsed LinkedIn export
+ */
+export interface LinkedInExportParseResult {
+  /** 'csv' when a header row was recognised, 'list' for free-form lines */
+  format: 'csv' | 'list';
+  rows: LinkedInExportRow[];
+  /** Lines that could not be turned into a person */
+  skipped: Array<{ line: number; reason: string }>;
+  /** Header columns that were mapped to a field (csv format) */
+  mappedColumns?: Partial<Record<LinkedInExportField, string>>;
+}
+
+type LinkedInExportField = Exclude<keyof LinkedInExportRow, 'line'>;
+
+/**
+ * Header aliases per field (lowercased, punctuation stripped)
+ * Covers Sales Navigator, Recruiter, Connections.csv and common exporter tools.
+ */
+const COLUMN_ALIASES: Record<LinkedInExportField, string[]> = {
+  fullName: ['name', 'full name', 'fullname', 'lead name', 'candidate name', 'person name', 'contact name'],
+  firstName: ['first name', 'firstname', 'given name'],
+  lastName: ['last name', 'lastname', 'surname', 'family name'],
+  title: ['title', 'job title', 'current title', 'position', 'current position', 'headline', 'role', 'current role'],
+  companyName: ['company', 'company name', 'current company', 'account', 'account name', 'organization', 'organisation', 'employer'],
+  companyWebsite: ['company website', 'website', 'company domain', 'domain', 'company url'],
+  linkedInUrl: [
+    'linkedin url',
+    'linkedin',
+    'linkedin profile',
+    'linkedin profile url',
+    'profile url',
+    'public profile url',
+    'person linkedin url',
+    'sales navigator url',
+    'url',
+  ],
+  email: ['email', 'email address', 'e-mail', 'work email', 'business email'],
+  phone: ['phone', 'phone number', 'mobile', 'mobile phone', 'work phone'],
+  location: ['location', 'geography', 'region', 'city'],
+  industry: ['industry', 'company industry'],
+};
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i;
+const LINKEDIN_URL_PATTERN = /(?:https?:\/\/)?(?:[a-z]{2,3}\.)?linkedin\.com\/[^\s,;|"'<>]+/i;
+
+/**
+ * Normalise a header cell for alias matching
+ */
+function normaliseHeader(header: string): string {
+  return header
+    .replace(/^\uFEFF/, '')
+    .toLowerCase()
+    .replace(/[_\-]+/g, ' ')
+    .replace(/[^a-z0-9@ ]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Normalise a LinkedIn profile URL
+ *
+ * - Adds https:// and www., strips query string, fragment and trailing slash
+ * - Public profiles become https://www.linkedin.com/in/<slug>
+ * - Sales Navigator / Recruiter profile links are kept (path only)
+ *
+ * @returns Normalised URL, or undefined if the value is not a LinkedIn URL
+ */
+export function normaliseLinkedInUrl(value: string | undefined): string | undefined {
+  const match = value?.match(LINKEDIN_URL_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+
+  try {
+    const url = new URL(match[0].startsWith('http') ? match[0] : `https://${match[0]}`);
+    const path = decodeURIComponent(url.pathname).replace(/\/+$/, '');
+    const profile = path.match(/^\/in\/([^/]+)/i);
+    if (profile) {
+      return `https://www.linkedin.com/in/${profile[1].toLowerCase()}`;
+    }
+    return path ? `https://www.linkedin.com${path}` : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Split a full name into first and last name (best effort)
+ * Drops LinkedIn decorations such as credentials after a comma and emoji.
+ */
+export function splitPersonName(fullName: string): { firstName?: string; lastName?: string } {
+  const cleaned = fullName
+    .split(',')[0]
+    .replace(/[^\p{L}\p{M}\s'.-]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  const parts = cleaned.split(' ').filter(Boolean);
+  return {
+    firstName: parts[0],
+    lastName: parts.length > 1 ? parts.slice(1).join(' ') : undefined,
+  };
+}
+
+/**
+ * Map header cells to fields
+ * Returns null when the row does not look like a LinkedIn export header.
+ */
+function mapHeader(cells: string[]): Map<LinkedInExportField, number> | null {
+  const mapping = new Map<LinkedInExportField, number>();
+  const normalised = cells.map(normaliseHeader);
+
+  for (const field of Object.keys(COLUMN_ALIASES) as LinkedInExportField[]) {
+    // Earlier aliases win (e.g. "linkedin url" before a generic "url" column)
+    for (const alias of COLUMN_ALIASES[field]) {
+      const index = normalised.indexOf(alias);
+      if (index !== -1 && ![...mapping.values()].includes(index)) {
+        mapping.set(field, index);
+        break;
+      }
+    }
+  }
+
+  const hasName = mapping.has('fullName') || mapping.has('firstName');
+  const hasDetail = mapping.has('companyName') || mapping.has('linkedInUrl') || mapping.has('title') || mapping.has('email');
+  return hasName && hasDetail ? mapping : null;
+}
+
+/**
+ * Build a row from mapped CSV cells
+ */
+function rowFromCells(
+  cells: string[],
+  mapping: Map<LinkedInExportField, number>,
+  line: number
+): LinkedInExportRow | { line: number; reason: string } {
+  const get = (field: LinkedInExportField) => {
+    const index = mapping.get(field);
+    const value = index !== undefined ? cells[index]?.trim() : undefined;
+    return value ? value : undefined;
+  };
+
+  let firstName = get('firstName');
+  let lastName = get('lastName');
+  const fullName = get('fullName') || [firstName, lastName].filter(Boolean).join(' ');
+  if (!fullName) {
+    return { line, reason: 'Missing name' };
+  }
+  if (!firstName && !lastName) {
+    ({ firstName, lastName } = splitPersonName(fullName));
+  }
+
+  const emailCell = get('email');
+  return {
+    line,
+    fullName,
+    firstName,
+    lastName,
+    title: get('title'),
+    companyName: get('companyName'),
+    companyWebsite: get('companyWebsite'),
+    linkedInUrl: normaliseLinkedInUrl(get('linkedInUrl')),
+    email: emailCell?.match(EMAIL_PATTERN)?.[0].toLowerCase(),
+    phone: get('phone'),
+    location: get('location'),
+    industry: get('industry'),
+  };
+}
+
+/**
+ * Parse one free-form pasted line
+ *
+ * Recognises the LinkedIn URL and email anywhere on the line; the remaining
+ * segments (split on tab, |, ;, " - ", " – " or ",") are read as
+ * name, title, company - with "Title at Company" also understood.
+ */
+function rowFromListLine(text: string, line: number): LinkedInExportRow | { line: number; reason: string } {
+  const linkedInMatch = text.match(LINKEDIN_URL_PATTERN);
+  const emailMatch = text.match(EMAIL_PATTERN);
+
+  let rest = text;
+  if (linkedInMatch) rest = rest.replace(linkedInMatch[0], ' ');
+  if (emailMatch) rest = rest.replace(emailMatch[0], ' ');
+
+  const segments = rest
+    .split(/\t|\||;|\s[-–—]\s|,/)
+    .map((segment) => segment.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  const fullName = segments.shift();
+  if (!fullName || !/\p{L}/u.test(fullName)) {
+    return { line, reason: 'Missing name' };
+  }
+  if (!linkedInMatch && !emailMatch && segments.length === 0) {
+    return { line, reason: 'No LinkedIn URL, email, title or company' };
+  }
+
+  let title = segments.shift();
+  let companyName = segments.shift();
+  const atCompany = title?.match(/^(.+?)\s+(?:at|@)\s+(.+)$/i);
+  if (atCompany && !companyName) {
+    title = atCompany[1].trim();
+    companyName = atCompany[2].trim();
+  }
+
+  return {
+    line,
+    fullName,
+    ...splitPersonName(fullName),
+    title,
+    companyName,
+    linkedInUrl: normaliseLinkedInUrl(linkedInMatch?.[0]),
+    email: emailMatch?.[0].toLowerCase(),
+  };
+}
+
+/**
+ * Parse an uploaded or pasted LinkedIn export
+ *
+ * The header row is searched for in the first 10 lines so preambles such as
+ * the "Notes:" block in Connections.csv are skipped. Without a recognisable
+ * header every non-empty line is parsed as a free-form entry.
+ */
+export function parseLinkedInExport(content: string): LinkedInExportParseResult {
+  const text = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const parsed = Papa.parse<string[]>(text, { header: false, skipEmptyLines: 'greedy' });
+  const records = parsed.data;
+
+  // Line numbers of each record (for error reporting)
+  const lineNumbers: number[] = [];
+  const lines = text.split('\n');
+  let recordIndex = 0;
+  for (let i = 0; i < lines.length && recordIndex < records.length; i++) {
+    if (lines[i].trim()) {
+      lineNumbers[recordIndex++] = i + 1;
+    }
+  }
+  const lineOf = (index: number) => lineNumbers[index] ?? index + 1;
+
+  for (let headerIndex = 0; headerIndex < Math.min(records.length, 10); headerIndex++) {
+    const mapping = mapHeader(records[headerIndex]);
+    if (!mapping) continue;
+
+    const rows: LinkedInExportRow[] = [];
+    const skipped: LinkedInExportParseResult['skipped'] = [];
+    for (let i = headerIndex + 1; i < records.length; i++) {
+      const result = rowFromCells(records[i], mapping, lineOf(i));
+      if ('reason' in result) {
+        skipped.push(result);
+      } else {
+        rows.push(result);
+      }
+    }
+
+    const header = records[headerIndex];
+    const mappedColumns: LinkedInExportParseResult['mappedColumns'] = {};
+    for (const [field, index] of mapping) {
+      mappedColumns[field] = header[index].replace(/^\uFEFF/, '').trim();
+    }
+
+    return { format: 'csv', rows, skipped, mappedColumns };
+  }
+
+  // No header: free-form pasted list
+  const rows: LinkedInExportRow[] = [];
+  const skipped: LinkedInExportParseResult['skipped'] = [];
+  lines.forEach((lineText, index) => {
+    if (!lineText.trim()) return;
+    const result = rowFromListLine(lineText, index + 1);
+    if ('reason' in result) {
+      skipped.push(result);
+    } else {
+      rows.push(result);
+    }
+  });
+
+  return { format: 'list', rows, skipped };
+}
@@ -0,0 +1,348 @@
+/**
+ * Exhibitor List Crawler
+ *
+ * Given an event / expo website found by search, follows its "Exhibitors",
+ * "Sponsors" and "Partners" links (same site only) and returns the companies
+ * listed there, tagged with the event name and date.
+ *
+ * Used by GoogleDiscoveryChannel for intents with crawlExhibitorLists enabled,
+ * so outreach can reference the event via {{eventContext}} / {{exhibitorRole}}.
+ * Page fetching is injectable for tests.
+ */
+
+import type { DiscoveryCompanyResult } from '../../types';
+import { parseEventListing, type EventCompanyRole, type EventListing } from './parseEventListing';
+import { createHttpPageFetcher, type SocialPageFetcher } from './SocialDiscoveryChannel';
+import type { BlockedFetch } from '../../fetch';
+
+/**
+ * Exhibitor List Crawler Configuration Options
+ */
+export interface ExhibitorListCrawlerOptions {
+  /**
+   * Maximum pages fetched per event site (home page, list pages and their next pages)
+   * Default: 6
+   */
+  maxPagesPerEvent?: number;
+
+  /**
+   * Maximum companies returned per event site
+   * Default: 300
+   */
+  maxCompaniesPerEvent?: number;
+
+  /**
+   * Timeout for fetching individual pages (ms)
+   * Default: 10000
+   */
+  fetchTimeout?: number;
+
+  /**
+   * Page fetcher (tests pass a fixture reader)
+   * Default: HTTP fetch
+   */
+  fetchPage?: SocialPageFetcher;
+}
+
+/**
+ * Event site to crawl
+ */
+export interface ExhibitorCrawlTarget {
+  /** Event page URL (e.g. a search result link) */
+  url: string;
+
+  /** Fallback event name (e.g. the search result's company name) */
+  name?: string;
+
+  /** How the event site was found (search query), kept in metadata */
+  foundVia?: string;
+}
+
+/**
+ * Crawl result for one event site
+ */
+export interface ExhibitorCrawlResult {
+  eventUrl: string;
+  eventName?: string;
+  eventDate?: string;
+  /** Exhibitor / sponsor / partner pages that were read */
+  listPages: string[];
+  pagesFetched: number;
+  companies: DiscoveryCompanyResult[];
+  /** Fetch errors by URL */
+  errors: Record<string, string>;
+  /** URLs not fetched (robots.txt disallowed, rate limited) */
+  blocked: BlockedFetch[];
+}
+
+/** Link texts / paths that lead to exhibitor, sponsor or partner lists */
+const LIST_LINK_PATTERN =
+  /\b(?:exhibitors?|exhibitor[\s-]*(?:list|directory|catalogue|catalog)|who'?s[\s-]+exhibiting|sponsors?|partners?|vendors?|participating[\s-]+companies|brands?[\s-]+on[\s-]+show|floor[\s-]*plan)\b/i;
+
+/** Links on list pages that lead to the next page of the same list */
+const NEXT_PAGE_PATTERN = /^(?:next|next page|more|load more|›|»|>|\d{1,2})$/i;
+
+/** Links that are never list pages (become/apply to exhibit, sponsorship packages) */
+const EXCLUDED_LINK_PATTERN =
+  /\b(?:become|book|apply|enquire|register|application|packages?|opportunit(?:y|ies)|prospectus|why[\s-]+exhibit|login|portal|manual)\b/i;
+
+const EXHIBITOR_ROLE_TEXT: Record<EventCompanyRole, string> = {
+  exhibitor: 'an exhibitor',
+  sponsor: 'a sponsor',
+  organizer: 'the organiser',
+  page: 'a participant',
+};
+
+/**
+ * Human-readable event reference for outreach ("Decorex Joburg 2026 (6 August 2026)")
+ */
+export function formatEventContext(eventName: string, eventDate?: string): string {
+  if (!eventDate) {
+    return eventName;
+  }
+
+  const date = new Date(`${eventDate.slice(0, 10)}T00:00:00Z`);
+  if (Number.isNaN(date.getTime())) {
+    return eventName;
+  }
+
+  const formatted = date.toLocaleDateString('en-ZA', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' });
+  return eventName.includes(formatted) ? eventName : `${eventName} (${formatted})`;
+}
+
+/**
+ * Host without "www." for same-site checks
+ */
+function siteHost(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Decoded URL path, or the raw path if it holds a malformed escape (e.g. "100%-cotton")
+ */
+function decodePathname(url: URL): string {
+  try {
+    return decodeURIComponent(url.pathname);
+  } catch {
+    return url.pathname;
+  }
+}
+
+/**
+ * Find links to exhibitor / sponsor / partner lists on a page (same site only)
+ *
+ * Links whose text names the list are preferred over links that only match by path.
+ */
+export function findExhibitorListLinks(html: string, pageUrl: string): string[] {
+  const host = siteHost(pageUrl);
+  const byText: string[] = [];
+  const byPath: string[] = [];
+
+  for (const match of html.matchAll(/<a\b[^>]*href\s*=\s*["']([^"'#]+)[^"']*["'][^>]*>([\s\S]*?)<\/a>/gi)) {
+    let url: URL;
+    try {
+      url = new URL(match[1].trim(), pageUrl);
+    } catch {
+      continue;
+    }
+    if (!['http:', 'https:'].includes(url.protocol) || siteHost(url.toString()) !== host) continue;
+    if (/\.(?:pdf|jpe?g|png|gif|zip|docx?|xlsx?)$/i.test(url.pathname)) continue;
+
+    const text = match[2].replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+    const path = decodePathname(url).replace(/[-_/]+/g, ' ');
+    if (EXCLUDED_LINK_PATTERN.test(text) || EXCLUDED_LINK_PATTERN.test(path)) continue;
+
+    const link = url.toString();
+    if (text.length <= 60 && LIST_LINK_PATTERN.test(text)) {
+      if (!byText.includes(link)) byText.push(link);
+    } else if (LIST_LINK_PATTERN.test(path)) {
+      if (!byPath.includes(link)) byPath.push(link);
+    }
+  }
+
+  return [...byText, ...byPath.filter((link) => !byText.includes(link))];
+}
+
+/**
+ * Find "next page" links on a paginated list page (same path, different query/page)
+ */
+function findNextPageLinks(html: string, pageUrl: string): string[] {
+  const current = new URL(pageUrl);
+  const links: string[] = [];
+
+  for (const match of html.matchAll(/<a\b[^>]*href\s*=\s*["']([^"'#]+)["'][^>]*>([\s\S]*?)<\/a>/gi)) {
+    const text = match[2].replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+    const isNextRel = /\brel\s*=\s*["']next["']/i.test(match[0]);
+    if (!isNextRel && !NEXT_PAGE_PATTERN.test(text)) continue;
+
+    try {
+      const url = new URL(match[1].trim(), pageUrl);
+      const samePath = url.pathname.replace(/\/page\/\d+\/?$/, '/') === current.pathname.replace(/\/page\/\d+\/?$/, '/');
+      if (url.host === current.host && samePath && url.toString() !== current.toString() && !links.includes(url.toString())) {
+        links.push(url.toString());
+      }
+    } catch {
+      continue;
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Exhibitor List Crawler
+ *
+ * Reads the event page, then the exhibitor / sponsor / partner pages it links
+ * to (one level deep, plus pagination), within a per-event page budget.
+ * Exhibitor detail pages are not followed.
+ */
+export class ExhibitorListCrawler {
+  private options: ExhibitorListCrawlerOptions;
+
+  constructor(options: ExhibitorListCrawlerOptions = {}) {
+    this.options = {
+      maxPagesPerEvent: 6,
+      maxCompaniesPerEvent: 300,
+      fetchTimeout: 10000,
+      ...options,
+    };
+  }
+
+  /**
+   * Crawl one event site
+   *
+   * Never throws for fetch failures: errors are returned per URL. The event
+   * site's own company (its organiser) is excluded - it is already a search result.
+   */
+  async crawl(target: ExhibitorCrawlTarget, cancelCheck?: () => Promise<boolean>): Promise<ExhibitorCrawlResult> {
+    const blocked: BlockedFetch[] = [];
+    const fetchPage = this.options.fetchPage ?? createHttpPageFetcher(this.options.fetchTimeout!, blocked);
+    const maxPages = this.options.maxPagesPerEvent!;
+    const errors: Record<string, string> = {};
+    const visited = new Set<string>();
+    const listPages: string[] = [];
+    const listings: EventListing[] = [];
+    let pagesFetched = 0;
+
+    const fetchListing = async (url: string): Promise<{ listing: EventListing; html: string; url: string } | null> => {
+      visited.add(url);
+      try {
+        const page = await fetchPage(url);
+        pagesFetched++;
+        visited.add(page.url);
+        return { listing: parseEventListing(page.html, page.url), html: page.html, url: page.url };
+      } catch (error) {
+        errors[url] = error instanceof Error ? error.message : 'Unknown error';
+        return null;
+      }
+    };
+
+    const home = await fetchListing(target.url);
+    if (!home) {
+      return { eventUrl: target.url, eventName: target.name, listPages, pagesFetched, companies: [], errors, blocked };
+    }
+    listings.push(home.listing);
+
+    // Exhibitor / sponsor / partner pages linked from the event page, then their next pages
+    const queue = findExhibitorListLinks(home.html, home.url);
+    while (queue.length > 0 && pagesFetched < maxPages) {
+      if (cancelCheck && await cancelCheck()) {
+        throw new Error('Discovery cancelled by user request');
+      }
+
+      const url = queue.shift()!;
+      if (visited.has(url)) continue;
+
+      const page = await fetchListing(url);
+      if (!page) continue;
+      listPages.push(page.url);
+      listings.push(page.listing);
+
+      if (page.listing.companies.length > 0) {
+        for (const next of findNextPageLinks(page.html, page.url)) {
+          if (!visited.has(next) && !queue.includes(next)) queue.unshift(next);
+        }
+      }
+    }
+
+    const eventName = home.listing.eventName || listings.find((listing) => listing.eventName)?.eventName || target.name;
+    const eventDate = home.listing.eventDate || listings.find((listing) => listing.eventDate)?.eventDate;
+    const companies = this.toCompanyResults(listings, target, home.url, eventName, eventDate);
+
+    return { eventUrl: home.url, eventName, eventDate, listPages, pagesFetched, companies, errors, blocked };
+  }
+
+  /**
+   * Convert listed companies into company results tagged with the event
+   */
+  private toCompanyResults(
+    listings: EventListing[],
+    target: ExhibitorCrawlTarget,
+    eventUrl: string,
+    eventName: string | undefined,
+    eventDate: string | undefined
+  ): DiscoveryCompanyResult[] {
+    const eventHost = siteHost(eventUrl);
+    const seen = new Set<string>();
+    const results: DiscoveryCompanyResult[] = [];
+    const discoveryTimestamp = new Date();
+    const eventContext = eventName ? formatEventContext(eventName, eventDate) : undefined;
+
+    for (const listing of listings) {
+      for (const company of listing.companies) {
+        if (results.length >= this.options.maxCompaniesPerEvent!) {
+          return results;
+        }
+        // The organiser's own site is the event site itself
+        if (company.role === 'page' || (company.website && siteHost(company.website) === eventHost)) continue;
+        if (eventName && company.name.toLowerCase() === eventName.toLowerCase()) continue;
+
+        const key = company.website ?? company.name.toLowerCase();
+        if (seen.has(key) || seen.has(company.name.toLowerCase())) continue;
+        seen.add(key);
+        seen.add(company.name.toLowerCase());
+
+        const additionalMetadata: Record<string, unknown> = {
+          eventName,
+          eventDate,
+          eventUrl,
+          eventContext,
+          exhibitorRole: EXHIBITOR_ROLE_TEXT[company.role],
+          role: company.role,
+          exhibitorListUrl: listing.pageUrl,
+          standNumber: company.standNumber,
+          socialLinks: company.socialLinks.length > 0 ? company.socialLinks : undefined,
+          foundVia: target.foundVia,
+        };
+
+        results.push({
+          type: 'company',
+          name: company.name,
+          website: company.website,
+          description: company.description,
+          email: company.email,
+          phone: company.phone,
+          contactChannels: {
+            emails: company.email ? [company.email] : [],
+            phones: company.phone ? [company.phone] : [],
+            other: company.socialLinks,
+          },
+          discoveryMetadata: {
+            discoverySource: 'google',
+            discoveryTimestamp,
+            discoveryMethod: `exhibitor_list:${eventName ?? eventUrl}`,
+            additionalMetadata: Object.fromEntries(
+              Object.entries(additionalMetadata).filter(([, value]) => value !== undefined)
+            ),
+          },
+        });
+      }
+    }
+
+    return results;
+  }
+}
@@ -2,7 +2,7 @@
  * Phase 1 Discovery - Social Platform Monitoring Channel Interface
  * 
  * Interface for Social Platform Monitoring (CORE Channel - GATED)
- * Defines input/output contract only - no implementation.
+ * Defines input/output contract only - see SocialDiscoveryChannel.
  * 
  * Based on PHASE_1_Discovery_MVP_Definition.md
  * 
@@ -18,40 +18,37 @@ import type {
 /**
  * Social Platform Discovery Channel Interface
  * 
- * CORE Channel - GATED by UNDEFINED access constraints
+ * CORE Channel - GATED
  * - Activation Status: Gated (must not block build if disabled)
  * - If disabled: Phase 1 continues with other channels
  * 
  * Function:
- * - Monitor social platforms for prospect activity and mentions
- * - Search for mentions, posts, or profiles matching discovery criteria
+ * - Read public event listing pages (expo exhibitor lists, sponsor pages)
+ * - Read Facebook event pages and Facebook / Instagram business pages saved as HTML
+ * - Extract exhibitor, sponsor and organizer companies with their social handles
  * 
  * Note:
- * - Which specific platforms to monitor is UNDEFINED
- * - Platform access methods are UNDEFINED
- * - Access credentials are UNDEFINED
- * - Must gracefully degrade if access unavailable
+ * - Social platforms are NOT crawled or called - only listed pages and uploaded HTML are read
+ * - The channel is disabled when no sources are configured and no pages are supplied
  */
 export interface ISocialDiscoveryChannel extends IDiscoveryChannel {
   /**
-   * Execute social platform monitoring
+   * Execute social event discovery
    * 
    * Input:
-   * - Discovery criteria (keywords, company names, etc.)
-   * - Platform identifiers (UNDEFINED - which platforms)
-   * - Search parameters (UNDEFINED - depends on platform APIs)
+   * - Listing sources (DISCOVERY_SOCIAL_SOURCES) and/or saved pages (from channel options)
+   * - Optional parameters.maxResults to cap the number of companies returned
    * 
    * Output:
-   * - Companies mentioned on social platforms
-   * - Contacts active on social platforms
-   * - Social activity relevant to prospects
+   * - Company results with social profile links in contactChannels.other
+   * - Event name, date and the company's role in discovery metadata
    * 
    * Behavior:
    * - If channel is disabled (activationStatus: 'disabled'), returns empty results
    * - Does not throw errors that would block other channels
    * 
    * @param input - Social discovery channel input
-   * @returns Discovery results from social platforms (or empty if disabled)
+   * @returns Discovery results from event pages (or empty if disabled)
    */
   discover(input: DiscoveryChannelInput): Promise<DiscoveryChannelOutput>;
   
@@ -63,14 +60,13 @@ export interface ISocialDiscoveryChannel extends IDiscoveryChannel {
   getChannelType(): 'social';
   
   /**
-   * Check if social platform channel is enabled
+   * Check if social channel is enabled
    * 
-   * Note: Activation is gated by UNDEFINED access constraints
    * - Checks activation status from config
-   * - Verifies platform access (UNDEFINED - which platforms, how to access)
+   * - Requires at least one listing source or saved page
    * 
    * @param config - Channel configuration
-   * @returns True if social monitoring is enabled and platforms are accessible
+   * @returns True if social discovery is enabled and has pages to read
    */
   isEnabled(config: DiscoveryChannelInput['config']): boolean;
 }
@@ -0,0 +1,335 @@
+/**
+ * Social Discovery Channel Implementation
+ *
+ * - Fetches configured public event listing pages (DISCOVERY_SOCIAL_SOURCES),
+ *   e.g. expo exhibitor lists and sponsor pages
+ * - Also reads pages supplied as HTML (Facebook event pages and Facebook /
+ *   Instagram business pages saved from the browser and uploaded)
+ * - Extracts exhibitor, sponsor and organizer companies with their social handles
+ * - Returns DiscoveryCompanyResult objects with contactChannels.other populated
+ *   (no database writes)
+ *
+ * Social platforms themselves are never crawled or called; only the listed
+ * pages and the uploaded HTML are read. Page fetching is injectable for tests.
+ */
+
+import type { ISocialDiscoveryChannel } from './ISocialDiscoveryChannel';
+import type {
+  DiscoveryChannelInput,
+  DiscoveryChannelOutput,
+  DiscoveryCompanyResult,
+} from '../../types';
+import { parseEventListing, type EventListing, type EventListingCompany } from './parseEventListing';
+import { politeFetch, type BlockedFetch } from '../../fetch';
+import { recordFetchUsage } from '../../usage/ledger';
+
+/**
+ * Public event listing page to read
+ */
+export interface SocialEventSource {
+  /** Display name (e.g. "Decorex Joburg exhibitors") */
+  name: string;
+
+  /** Listing page URL */
+  url: string;
+}
+
+/**
+ * Event or business page supplied as HTML (saved from the browser)
+ */
+export interface SocialEventPage {
+  html: string;
+
+  /** Page URL, if known (og:url / canonical link is used otherwise) */
+  url?: string;
+
+  /** Display name (e.g. the uploaded file name) */
+  name?: string;
+}
+
+/**
+ * Fetch a page's HTML by URL (throws on failure)
+ */
+export type SocialPageFetcher = (url: string) => Promise<{ url: string; html: string }>;
+
+/**
+ * Social Discovery Channel Configuration Options
+ */
+export interface SocialDiscoveryChannelOptions {
+  /**
+   * Listing pages to fetch
+   * Default: DISCOVERY_SOCIAL_SOURCES env var
+   */
+  sources?: SocialEventSource[];
+
+  /**
+   * Pages supplied as HTML (read in addition to sources)
+   */
+  pages?: SocialEventPage[];
+
+  /**
+   * Maximum companies taken from one page
+   * Default: 200
+   */
+  maxCompaniesPerPage?: number;
+
+  /**
+   * Timeout for fetching individual pages (ms)
+   * Default: 10000
+   */
+  fetchTimeout?: number;
+
+  /**
+   * Page fetcher (tests pass a fixture reader)
+   * Default: HTTP fetch
+   */
+  fetchPage?: SocialPageFetcher;
+}
+
+/**
+ * Parse DISCOVERY_SOCIAL_SOURCES
+ *
+ * Format: comma-separated URLs, each optionally prefixed with a name:
+ * "Decorex|https://www.decorex.co.za/exhibitors,https://www.weddingexpo.co.za/exhibitors"
+ */
+export function getSocialSourcesFromEnv(value = process.env.DISCOVERY_SOCIAL_SOURCES): SocialEventSource[] {
+  if (!value) {
+    return [];
+  }
+
+  const sources: SocialEventSource[] = [];
+  for (const entry of value.split(',').map((e) => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf('|');
+    const name = separator > 0 ? entry.slice(0, separator).trim() : '';
+    const url = (separator > 0 ? entry.slice(separator + 1) : entry).trim();
+    try {
+      const parsed = new URL(url);
+      sources.push({ name: name || parsed.hostname, url: parsed.toString() });
+    } catch {
+      console.warn(`[SocialDiscovery] Ignoring invalid social source URL: ${url}`);
+    }
+  }
+
+  return sources;
+}
+
+/**
+ * Default HTTP page fetcher (polite fetch layer)
+ * URLs refused by robots.txt or rate limits are added to blocked and throw.
+ */
+export function createHttpPageFetcher(timeoutMs: number, blocked?: BlockedFetch[]): SocialPageFetcher {
+  return async (url: string) => {
+    const result = await politeFetch(url, { timeout: timeoutMs });
+    if (!result.success) {
+      blocked?.push(result.blocked);
+      throw new Error(result.error);
+    }
+
+    const response = result.response;
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType && !contentType.includes('text/html') && !contentType.includes('application/xhtml')) {
+      throw new Error(`Not an HTML page: ${contentType}`);
+    }
+
+    await recordFetchUsage(result.body.length);
+
+    return { url: response.url || url, html: result.body.toString('utf8') };
+  };
+}
+
+/**
+ * Social Discovery Channel Implementation
+ *
+ * Reads event listing pages and returns one company result per exhibitor,
+ * sponsor or organizer found.
+ * Does NOT write to database - only returns results.
+ */
+export class SocialDiscoveryChannel implements ISocialDiscoveryChannel {
+  private options: SocialDiscoveryChannelOptions;
+
+  constructor(options: SocialDiscoveryChannelOptions = {}) {
+    this.options = {
+      maxCompaniesPerPage: 200,
+      fetchTimeout: 10000,
+      ...options,
+    };
+  }
+
+  /**
+   * Get channel type identifier
+   */
+  getChannelType(): 'social' {
+    return 'social';
+  }
+
+  /**
+   * Check if channel is enabled
+   * Requires at least one listing source or supplied page (and not explicitly disabled)
+   */
+  isEnabled(config: DiscoveryChannelInput['config']): boolean {
+    return config.activationStatus !== 'disabled' && (this.getSources().length > 0 || (this.options.pages?.length ?? 0) > 0);
+  }
+
+  /**
+   * Execute social event discovery
+   *
+   * Supplied pages are read first, then sources are fetched sequentially; a
+   * failing page or source is recorded in metadata.sourceErrors and the
+   * remaining ones are still processed. Companies are deduplicated by name across pages.
+   */
+  async discover(input: DiscoveryChannelInput): Promise<DiscoveryChannelOutput> {
+    const sources = this.getSources();
+    const pages = this.options.pages ?? [];
+    if (sources.length === 0 && pages.length === 0) {
+      return {
+        channelType: 'social',
+        results: [],
+        success: false,
+        error: 'No social event sources configured (set DISCOVERY_SOCIAL_SOURCES or upload saved pages)',
+      };
+    }
+
+    const blockedUrls: BlockedFetch[] = [];
+    const fetchPage = this.options.fetchPage ?? createHttpPageFetcher(this.options.fetchTimeout!, blockedUrls);
+    const maxResults = typeof input.parameters?.maxResults === 'number' ? input.parameters.maxResults : undefined;
+    const sourceErrors: Record<string, string> = {};
+    const listings: Array<{ listing: EventListing; sourceName: string }> = [];
+
+    try {
+      pages.forEach((page, index) => {
+        try {
+          const listing = parseEventListing(page.html, page.url);
+          listings.push({ listing, sourceName: page.name || listing.eventName || `page ${index + 1}` });
+        } catch (error) {
+          sourceErrors[page.name || page.url || `page ${index + 1}`] =
+            error instanceof Error ? error.message : 'Unknown error';
+        }
+      });
+
+      for (const source of sources) {
+        // Check for cancellation between sources
+        if (input.cancelCheck && await input.cancelCheck()) {
+          throw new Error('Discovery cancelled by user request');
+        }
+
+        try {
+          const page = await fetchPage(source.url);
+          listings.push({ listing: parseEventListing(page.html, page.url), sourceName: source.name });
+        } catch (error) {
+          sourceErrors[source.url] = error instanceof Error ? error.message : 'Unknown error';
+        }
+      }
+
+      const seen = new Set<string>();
+      const results: DiscoveryCompanyResult[] = [];
+      const discoveryTimestamp = new Date();
+      const roles: Record<string, number> = {};
+      let companiesParsed = 0;
+
+      for (const { listing, sourceName } of listings) {
+        for (const company of listing.companies.slice(0, this.options.maxCompaniesPerPage!)) {
+          companiesParsed++;
+          const key = company.website ?? company.name.toLowerCase();
+          if (seen.has(key) || seen.has(company.name.toLowerCase())) continue;
+          seen.add(key);
+          seen.add(company.name.toLowerCase());
+
+          results.push(this.toCompanyResult(company, listing, sourceName, discoveryTimestamp));
+          roles[company.role] = (roles[company.role] ?? 0) + 1;
+          if (maxResults !== undefined && results.length >= maxResults) break;
+        }
+        if (maxResults !== undefined && results.length >= maxResults) break;
+      }
+
+      // Every page and source either yields a listing or records an error
+      const allSourcesFailed = listings.length === 0;
+
+      return {
+        channelType: 'social',
+        results,
+        success: !allSourcesFailed,
+        error: allSourcesFailed ? 'All social event pages and sources failed to load' : undefined,
+        metadata: {
+          sourcesFetched: sources.length,
+          pagesSupplied: pages.length,
+          events: listings.map(({ listing, sourceName }) => ({
+            source: sourceName,
+            pageUrl: listing.pageUrl,
+            pageType: listing.pageType,
+            eventName: listing.eventName,
+            eventDate: listing.eventDate,
+            companiesFound: listing.companies.length,
+          })),
+          companiesParsed,
+          companiesByRole: roles,
+          resultsFound: results.length,
+          ...(Object.keys(sourceErrors).length > 0 ? { sourceErrors } : {}),
+          ...(blockedUrls.length > 0 ? { blockedUrls } : {}),
+        },
+      };
+    } catch (error: unknown) {
+      // Return error but don't throw (graceful degradation)
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred during social discovery';
+      return {
+        channelType: 'social',
+        results: [],
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Resolve listing sources (options, then environment)
+   */
+  private getSources(): SocialEventSource[] {
+    return this.options.sources ?? getSocialSourcesFromEnv();
+  }
+
+  /**
+   * Convert an event company into a company result
+   * Social handles go into contactChannels.other; event details into discovery metadata.
+   */
+  private toCompanyResult(
+    company: EventListingCompany,
+    listing: EventListing,
+    sourceName: string,
+    discoveryTimestamp: Date
+  ): DiscoveryCompanyResult {
+    const additionalMetadata: Record<string, unknown> = {
+      role: company.role,
+      eventName: listing.eventName,
+      eventDate: listing.eventDate,
+      eventVenue: listing.venue,
+      eventUrl: listing.pageUrl,
+      standNumber: company.standNumber,
+      socialLinks: company.socialLinks.length > 0 ? company.socialLinks : undefined,
+    };
+
+    return {
+      type: 'company',
+      name: company.name,
+      website: company.website,
+      description: company.description,
+      email: company.email,
+      phone: company.phone,
+      contactChannels: {
+        emails: company.email ? [company.email] : [],
+        phones: company.phone ? [company.phone] : [],
+        other: company.socialLinks,
+      },
+      discoveryMetadata: {
+        discoverySource: 'social',
+        discoveryTimestamp,
+        discoveryMethod: `social:${sourceName}`,
+        additionalMetadata: Object.fromEntries(
+          Object.entries(additionalMetadata).filter(([, value]) => value !== undefined)
+        ),
+      },
+    };
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Social Discovery Channel
+ *
+ * Exports for social / event listing discovery channel implementation
+ */
+
+export type { ISocialDiscoveryChannel } from './ISocialDiscoveryChannel';
+export {
+  SocialDiscoveryChannel,
+  getSocialSourcesFromEnv,
+  type SocialDiscoveryChannelOptions,
+  type SocialEventSource,
+  type SocialEventPage,
+  type SocialPageFetcher,
+} from './SocialDiscoveryChannel';
+export {
+  parseEventListing,
+  normaliseSocialUrl,
+  type EventListing,
+  type EventListingCompany,
+  type EventCompanyRole,
+  type SocialPlatform,
+} from './parseEventListing';
+export {
+  ExhibitorListCrawler,
+  findExhibitorListLinks,
+  formatEventContext,
+  type ExhibitorListCrawlerOptions,
+  type ExhibitorCrawlTarget,
+  type ExhibitorCrawlResult,
+} from './ExhibitorListCrawler';
@@ -0,0 +1,782 @@
+/**
+ * Social Discovery - Event Listing Parsing
+ *
+ * Pure functions that turn public event pages into the companies taking part:
+ * - Expo / trade show exhibitor and sponsor lists (cards, lists, tables, logo walls)
+ * - Facebook event pages saved as HTML ("Event by ..." organizers)
+ * - Facebook / Instagram business pages saved as HTML (the page owner)
+ * - schema.org Event / ItemList JSON-LD (organizer, sponsor, performer, list items)
+ *
+ * Social profile links and @handles are collected per company.
+ * No network access - the channel fetches pages and passes the HTML in.
+ */
+
+import { htmlToText, normaliseTenderDate } from '../tenders/parseTenderNotice';
+
+/**
+ * Social platforms whose profile links are collected
+ */
+export type SocialPlatform = 'facebook' | 'instagram' | 'linkedin' | 'x' | 'youtube' | 'tiktok';
+
+/**
+ * How a company takes part in the event
+ * 'page' is the owner of a saved Facebook/Instagram business page.
+ */
+export type EventCompanyRole = 'organizer' | 'exhibitor' | 'sponsor' | 'page';
+
+/**
+ * Company found on an event page
+ */
+export interface EventListingCompany {
+  name: string;
+  role: EventCompanyRole;
+  website?: string;
+  /** Normalised social profile URLs, or "@handle" when the platform is unknown */
+  socialLinks: string[];
+  email?: string;
+  phone?: string;
+  /** Stand / booth number on exhibitor lists */
+  standNumber?: string;
+  description?: string;
+}
+
+/**
+ * Parsed event page
+ */
+export interface EventListing {
+  /** Canonical page URL (og:url / canonical link, else the fetched URL) */
+  pageUrl?: string;
+  /** 'profile' for a saved Facebook/Instagram business page */
+  pageType: 'event' | 'profile';
+  eventName?: string;
+  /** Start date (YYYY-MM-DD) */
+  eventDate?: string;
+  venue?: string;
+  companies: EventListingCompany[];
+}
+
+const SOCIAL_HOSTS: Array<{ platform: SocialPlatform; host: RegExp }> = [
+  { platform: 'facebook', host: /(?:^|\.)(?:facebook|fb)\.com$/ },
+  { platform: 'instagram', host: /(?:^|\.)instagram\.com$/ },
+  { platform: 'linkedin', host: /(?:^|\.)linkedin\.com$/ },
+  { platform: 'x', host: /(?:^|\.)(?:twitter|x)\.com$/ },
+  { platform: 'youtube', host: /(?:^|\.)youtube\.com$|^youtu\.be$/ },
+  { platform: 'tiktok', host: /(?:^|\.)tiktok\.com$/ },
+];
+
+/** First path segments that are share widgets, posts or app pages rather than profiles */
+const NON_PROFILE_PATHS =
+  /^\/(?:sharer|share|sharing|dialog|plugins|tr|login|signup|help|policies|privacy|legal|about|hashtag|search|explore|intent|home|watch|embed|shorts|p|reel|reels|tv|stories|events|photo|photos|video|videos|posts|permalink\.php|story\.php|sharer\.php|shareArticle|feed|jobs|accounts|i)(?:[/.?#]|$)/i;
+
+/** Hosts that are links but not company websites */
+const NON_WEBSITE_HOSTS =
+  /(?:^|\.)(?:google\.[a-z.]+|goo\.gl|maps\.app\.goo\.gl|wa\.me|whatsapp\.com|bit\.ly|eventbrite\.[a-z.]+|quicket\.co\.za|webtickets\.co\.za|computicket\.com|apple\.com|w3\.org|schema\.org|gstatic\.com|fbcdn\.net|cdninstagram\.com)$/i;
+
+/** Classes/ids of elements that hold one participating company */
+const ITEM_CLASS_PATTERN =
+  /(?:exhibitor|sponsor|partner|vendor|brand|stand|booth|organi[sz]er|participant|company|supplier)/i;
+
+/** Headings that introduce a list of participating companies */
+const LIST_HEADING_PATTERN =
+  /\b(?:exhibitors?|exhibitor list|sponsors?|partners?|vendors?|brands?|suppliers?|participating companies|organi[sz]ers?|hosted by|stands?)\b/i;
+
+/** Link and heading texts that are never a company name */
+const GENERIC_NAME_PATTERN =
+  /^(?:read more|more|more info|view(?: profile| details| more)?|website|visit(?: website| site)?|learn more|details|profile|contact(?: us)?|email|call|book(?: now)?|register(?: now)?|buy tickets|tickets|get directions|directions|map|share|follow(?: us)?|like|facebook|instagram|twitter|x|linkedin|youtube|tiktok|logo|image|home|menu|exhibitors?|sponsors?|partners?|vendors?|organi[sz]ers?|stand|booth)$/i;
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i;
+const STAND_PATTERN = /\b(?:stand|booth|stall)\s*(?:no\.?|number|#)?\s*:?\s*([A-Z]{0,2}\s?\d{1,4}[A-Z]?)\b/i;
+const HANDLE_PATTERN = /(^|[\s(,:;])@([A-Za-z0-9_](?:[A-Za-z0-9_.]{0,28}[A-Za-z0-9_])?)/g;
+
+/**
+ * Normalise a social profile link
+ *
+ * - Lowercases the host and drops m./web./mobile. prefixes
+ * - Strips query string (except Facebook profile.php?id=), fragment and trailing slash
+ * - Keeps the profile segment only (e.g. instagram.com/acme/reels -> instagram.com/acme)
+ *
+ * @returns Normalised profile URL, or undefined for share widgets, posts and non-social links
+ */
+export function normaliseSocialUrl(value: string | undefined, baseUrl?: string): { platform: SocialPlatform; url: string } | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^(?:https?:)?\/\//i.test(value) || !/^[a-z0-9.-]+\.[a-z]{2,}\//i.test(value) ? value : `https://${value}`, baseUrl);
+  } catch {
+    return undefined;
+  }
+  if (!['http:', 'https:'].includes(url.protocol)) {
+    return undefined;
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^(?:www|m|web|mobile|business)\./, '');
+  const social = SOCIAL_HOSTS.find((entry) => entry.host.test(host));
+  if (!social) {
+    return undefined;
+  }
+
+  let path: string;
+  try {
+    path = decodeURIComponent(url.pathname).replace(/\/+$/, '');
+  } catch {
+    // Malformed escape (e.g. "/%zz"): keep the raw path
+    path = url.pathname.replace(/\/+$/, '');
+  }
+  if (social.platform === 'facebook' && /^\/profile\.php$/i.test(path)) {
+    const id = url.searchParams.get('id');
+    return id ? { platform: 'facebook', url: `https://www.facebook.com/profile.php?id=${id}` } : undefined;
+  }
+  if (!path || NON_PROFILE_PATHS.test(path)) {
+    return undefined;
+  }
+
+  const segments = path.split('/').filter(Boolean);
+  let profilePath: string;
+  if (social.platform === 'linkedin') {
+    // Company pages and personal profiles: /company/<slug>, /in/<slug>, /showcase/<slug>
+    if (!/^(?:company|in|showcase|school)$/i.test(segments[0]) || !segments[1]) {
+      return undefined;
+    }
+    profilePath = `/${segments[0].toLowerCase()}/${segments[1].toLowerCase()}`;
+  } else if (social.platform === 'youtube') {
+    // Channels: /@handle, /channel/<id>, /c/<name>, /user/<name>
+    if (segments[0].startsWith('@')) {
+      profilePath = `/${segments[0]}`;
+    } else if (/^(?:channel|c|user)$/i.test(segments[0]) && segments[1]) {
+      profilePath = `/${segments[0].toLowerCase()}/${segments[1]}`;
+    } else {
+      return undefined;
+    }
+  } else if (social.platform === 'facebook' && /^(?:pg|pages)$/i.test(segments[0]) && segments[1]) {
+    // Old-style page URLs: /pages/<name>/<id>, /pg/<name>
+    profilePath = `/${segments.slice(1, segments[0].toLowerCase() === 'pages' ? 3 : 2).join('/')}`;
+  } else {
+    profilePath = `/${segments[0]}`;
+  }
+
+  const canonicalHost: Record<SocialPlatform, string> = {
+    facebook: 'www.facebook.com',
+    instagram: 'www.instagram.com',
+    linkedin: 'www.linkedin.com',
+    x: 'x.com',
+    youtube: 'www.youtube.com',
+    tiktok: 'www.tiktok.com',
+  };
+  const caseInsensitive = social.platform !== 'youtube' || profilePath.startsWith('/@');
+
+  return {
+    platform: social.platform,
+    url: `https://${canonicalHost[social.platform]}${caseInsensitive ? profilePath.toLowerCase() : profilePath}`,
+  };
+}
+
+/**
+ * Normalise a company website to its origin ("acme.co.za/about" -> "https://acme.co.za")
+ */
+function normaliseWebsite(value: string, baseUrl?: string): string | undefined {
+  try {
+    const url = new URL(value, baseUrl);
+    if (!['http:', 'https:'].includes(url.protocol) || !url.hostname.includes('.')) {
+      return undefined;
+    }
+    return `${url.protocol}//${url.hostname.toLowerCase()}`;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Host without "www." for same-site comparisons
+ */
+function siteHost(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  try {
+    return new URL(value).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Text content of an HTML fragment on one line
+ */
+function inlineText(html: string): string {
+  return htmlToText(html).replace(/\n+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Read an attribute from an opening tag
+ */
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  const value = match ? match[1] ?? match[2] ?? match[3] : undefined;
+  return value !== undefined ? htmlToText(value).trim() || undefined : undefined;
+}
+
+/**
+ * Read a <meta> value by property or name
+ */
+function getMeta(html: string, key: string): string | undefined {
+  for (const tag of html.match(/<meta\b[^>]*>/gi) ?? []) {
+    const property = getAttribute(tag, 'property') ?? getAttribute(tag, 'name');
+    if (property?.toLowerCase() === key) {
+      return getAttribute(tag, 'content');
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Normalise an event date to YYYY-MM-DD (ISO-style inputs only)
+ */
+function toEventDate(value: string | undefined): string | undefined {
+  return value?.match(/^\s*(\d{4}-\d{2}-\d{2})/)?.[1];
+}
+
+/**
+ * Extract the element starting at `start` (balanced on its own tag name)
+ *
+ * Unclosed elements run to the end of the document.
+ */
+function extractElement(html: string, start: number): { outer: string; inner: string; end: number } | null {
+  const open = html.slice(start).match(/^<([a-z][a-z0-9]*)\b[^>]*>/i);
+  if (!open) {
+    return null;
+  }
+
+  const tag = open[1].toLowerCase();
+  const innerStart = start + open[0].length;
+  const pattern = new RegExp(`<(/?)${tag}\\b[^>]*>`, 'gi');
+  pattern.lastIndex = innerStart;
+  let depth = 1;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(html)) !== null) {
+    if (match[0].endsWith('/>')) continue;
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) {
+      return { outer: html.slice(start, pattern.lastIndex), inner: html.slice(innerStart, match.index), end: pattern.lastIndex };
+    }
+  }
+
+  return { outer: html.slice(start), inner: html.slice(innerStart), end: html.length };
+}
+
+/**
+ * Clean a candidate company name, returning undefined for generic or unusable text
+ */
+function cleanCompanyName(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const name = value
+    .replace(/\s+/g, ' ')
+    .replace(/\s*[-–|]?\s*\b(?:logo|company logo)$/i, '')
+    .replace(/^(?:logo(?: of)?|exhibitor|sponsor|partner)\s*[:-]\s*/i, '')
+    .replace(STAND_PATTERN, '')
+    .replace(/[\s|:–-]+$/, '')
+    .trim();
+
+  if (name.length < 2 || name.length > 100 || !/\p{L}/u.test(name) || GENERIC_NAME_PATTERN.test(name)) {
+    return undefined;
+  }
+  if (EMAIL_PATTERN.test(name) || /^(?:https?:\/\/|www\.)/i.test(name) || name.startsWith('@')) {
+    return undefined;
+  }
+  return name;
+}
+
+/**
+ * Work out the role of a company from a class name or heading text
+ */
+function roleFromText(text: string | undefined): EventCompanyRole | undefined {
+  if (!text) return undefined;
+  if (/sponsor|partner/i.test(text)) return 'sponsor';
+  if (/organi[sz]er|hosted by|\bhost\b/i.test(text)) return 'organizer';
+  if (/exhibitor|vendor|stand|booth|participating|brand|supplier/i.test(text)) return 'exhibitor';
+  return undefined;
+}
+
+/**
+ * Collect @handles from text, resolving the platform from the words just before them
+ */
+function extractHandles(text: string): string[] {
+  const handles: string[] = [];
+  for (const match of text.matchAll(HANDLE_PATTERN)) {
+    const handle = match[2];
+    const before = text.slice(Math.max(0, (match.index ?? 0) - 20), match.index).toLowerCase();
+    let url: string | undefined;
+    if (/instagram|insta\b|\big\b/.test(before)) url = `https://www.instagram.com/${handle.toLowerCase()}`;
+    else if (/twitter|\bx\b/.test(before)) url = `https://x.com/${handle.toLowerCase()}`;
+    else if (/tiktok/.test(before)) url = `https://www.tiktok.com/@${handle.toLowerCase()}`;
+    else if (/facebook|\bfb\b/.test(before)) url = `https://www.facebook.com/${handle.toLowerCase()}`;
+    handles.push(url ?? `@${handle}`);
+  }
+  return handles;
+}
+
+/**
+ * Parse one list item / card / table row into a company
+ *
+ * The name is read from (in order) an element whose class mentions "name" or
+ * "title", a heading, bold text, the first link text, a logo's alt text, or
+ * the first line of text.
+ */
+function parseCompanyItem(itemHtml: string, role: EventCompanyRole, pageUrl?: string): EventListingCompany | undefined {
+  const pageHost = siteHost(pageUrl);
+  const socialLinks: string[] = [];
+  let website: string | undefined;
+  let email: string | undefined;
+  let phone: string | undefined;
+  const linkTexts: string[] = [];
+
+  for (const match of itemHtml.matchAll(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi)) {
+    const href = getAttribute(match[1], 'href');
+    if (!href) continue;
+
+    if (/^mailto:/i.test(href)) {
+      email ??= href.replace(/^mailto:/i, '').split('?')[0].trim().toLowerCase() || undefined;
+      continue;
+    }
+    if (/^tel:/i.test(href)) {
+      phone ??= href.replace(/^tel:/i, '').trim() || undefined;
+      continue;
+    }
+
+    const social = normaliseSocialUrl(href, pageUrl);
+    if (social) {
+      if (!socialLinks.includes(social.url)) socialLinks.push(social.url);
+      continue;
+    }
+
+    const candidate = normaliseWebsite(href, pageUrl);
+    const host = siteHost(candidate);
+    if (candidate && host && host !== pageHost && !NON_WEBSITE_HOSTS.test(host) && !SOCIAL_HOSTS.some((entry) => entry.host.test(host))) {
+      website ??= candidate;
+    }
+    linkTexts.push(inlineText(match[2]));
+  }
+
+  const text = htmlToText(itemHtml);
+  const flatText = text.replace(/\n+/g, ' ');
+  email ??= flatText.match(EMAIL_PATTERN)?.[0].toLowerCase();
+  for (const handle of extractHandles(flatText)) {
+    if (!socialLinks.includes(handle)) socialLinks.push(handle);
+  }
+
+  const named = itemHtml.match(/<([a-z][a-z0-9]*)\b[^>]*\bclass\s*=\s*["'][^"']*(?:name|title)[^"']*["'][^>]*>/i);
+  const nameCandidates = [
+    named ? inlineText(extractElement(itemHtml, named.index!)?.inner ?? '') : undefined,
+    itemHtml.match(/<h[1-6]\b[^>]*>([\s\S]*?)<\/h[1-6]>/i)?.[1],
+    itemHtml.match(/<(?:strong|b)\b[^>]*>([\s\S]*?)<\/(?:strong|b)>/i)?.[1],
+    /^<tr\b/i.test(itemHtml) ? itemHtml.match(/<t[dh]\b[^>]*>([\s\S]*?)<\/t[dh]>/i)?.[1] : undefined,
+    ...linkTexts,
+    ...[...itemHtml.matchAll(/<img\b([^>]*)>/gi)].map((match) => getAttribute(match[1], 'alt') ?? getAttribute(match[1], 'title')),
+    text.split('\n')[0],
+  ];
+
+  let name: string | undefined;
+  for (const candidate of nameCandidates) {
+    name = cleanCompanyName(candidate ? inlineText(candidate) : undefined);
+    if (name) break;
+  }
+  if (!name) {
+    return undefined;
+  }
+
+  const description = itemHtml.match(/<p\b[^>]*>([\s\S]*?)<\/p>/i)?.[1];
+  const descriptionText = description ? inlineText(description) : undefined;
+
+  return {
+    name,
+    role,
+    website,
+    socialLinks,
+    email,
+    phone,
+    standNumber: flatText.match(STAND_PATTERN)?.[1].replace(/\s+/g, '').toUpperCase(),
+    description: descriptionText && descriptionText !== name && descriptionText.length > 10 ? descriptionText.slice(0, 300) : undefined,
+  };
+}
+
+/**
+ * Headings in document order with their role (if any)
+ */
+function findHeadings(html: string): Array<{ index: number; end: number; role?: EventCompanyRole; isList: boolean }> {
+  const headings: Array<{ index: number; end: number; role?: EventCompanyRole; isList: boolean }> = [];
+  for (const match of html.matchAll(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi)) {
+    const text = inlineText(match[2]);
+    headings.push({
+      index: match.index!,
+      end: match.index! + match[0].length,
+      role: roleFromText(text),
+      isList: LIST_HEADING_PATTERN.test(text) && text.length <= 80,
+    });
+  }
+  return headings;
+}
+
+/**
+ * Companies from elements whose class/id marks them as an exhibitor, sponsor, etc.
+ *
+ * Containers (elements repeating the same item class, e.g. a grid of
+ * "exhibitor-card" divs) are descended into rather than parsed as one company.
+ */
+function parseClassItems(html: string, pageUrl: string | undefined, headings: ReturnType<typeof findHeadings>): EventListingCompany[] {
+  const companies: EventListingCompany[] = [];
+  const pattern = /<(li|tr|article|div|section|figure|a)\b([^>]*)>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(html)) !== null) {
+    const className = `${getAttribute(match[2], 'class') ?? ''} ${getAttribute(match[2], 'id') ?? ''}`;
+    if (!ITEM_CLASS_PATTERN.test(className)) continue;
+
+    const element = extractElement(html, match.index);
+    if (!element) continue;
+
+    const nestedClasses = [...element.inner.matchAll(/<(?:li|tr|article|div|section|figure|a)\b([^>]*)>/gi)]
+      .map((nested) => getAttribute(nested[1], 'class'))
+      .filter((value): value is string => !!value && ITEM_CLASS_PATTERN.test(value));
+    const isContainer = nestedClasses.some((value, index) => nestedClasses.indexOf(value) !== index);
+    if (isContainer) continue;
+
+    const heading = [...headings].reverse().find((entry) => entry.end <= match!.index && entry.role);
+    const role = roleFromText(className) ?? heading?.role ?? 'exhibitor';
+    const company = parseCompanyItem(element.outer, role, pageUrl);
+    if (company) {
+      companies.push(company);
+    }
+    pattern.lastIndex = element.end;
+  }
+
+  return companies;
+}
+
+/**
+ * Companies from plain lists and tables under an "Exhibitors" / "Sponsors" style heading
+ */
+function parseHeadingLists(html: string, pageUrl: string | undefined, headings: ReturnType<typeof findHeadings>): EventListingCompany[] {
+  const companies: EventListingCompany[] = [];
+
+  headings.forEach((heading, index) => {
+    if (!heading.isList) return;
+
+    const sectionEnd = headings[index + 1]?.index ?? html.length;
+    const section = html.slice(heading.end, sectionEnd);
+    const list = section.match(/<(ul|ol|table)\b[^>]*>/i);
+    if (!list) return;
+
+    const element = extractElement(section, list.index!);
+    if (!element) return;
+
+    const itemTag = list[1].toLowerCase() === 'table' ? 'tr' : 'li';
+    const itemPattern = new RegExp(`<${itemTag}\\b[^>]*>`, 'gi');
+    let item: RegExpExecArray | null;
+    while ((item = itemPattern.exec(element.inner)) !== null) {
+      const itemElement = extractElement(element.inner, item.index);
+      if (!itemElement) continue;
+      itemPattern.lastIndex = itemElement.end;
+
+      // Skip table header rows
+      if (itemTag === 'tr' && /<th\b/i.test(itemElement.inner) && !/<td\b/i.test(itemElement.inner)) continue;
+
+      const company = parseCompanyItem(itemElement.outer, heading.role ?? 'exhibitor', pageUrl);
+      if (company) {
+        companies.push(company);
+      }
+    }
+  });
+
+  return companies;
+}
+
+/**
+ * Read JSON-LD blocks, flattening @graph containers and arrays
+ */
+function readJsonLd(html: string): Array<Record<string, unknown>> {
+  const nodes: Array<Record<string, unknown>> = [];
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      const node = value as Record<string, unknown>;
+      nodes.push(node);
+      if (node['@graph']) visit(node['@graph']);
+    }
+  };
+
+  for (const match of html.matchAll(/<script\b[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)) {
+    try {
+      visit(JSON.parse(match[1].trim()));
+    } catch {
+      // Malformed JSON-LD is common; ignore the block
+    }
+  }
+
+  return nodes;
+}
+
+function hasType(node: Record<string, unknown>, pattern: RegExp): boolean {
+  const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+  return types.some((type) => typeof type === 'string' && pattern.test(type));
+}
+
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Company from a schema.org Organization (or Person acting as organizer)
+ */
+function companyFromJsonLd(value: unknown, role: EventCompanyRole, pageUrl?: string): EventListingCompany | undefined {
+  if (typeof value === 'string') {
+    const name = cleanCompanyName(value);
+    return name ? { name, role, socialLinks: [] } : undefined;
+  }
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const node = value as Record<string, unknown>;
+  const name = cleanCompanyName(asString(node.name) ? htmlToText(asString(node.name)!) : undefined);
+  if (!name) {
+    return undefined;
+  }
+
+  const socialLinks: string[] = [];
+  let website: string | undefined;
+  for (const link of [node.url, ...asArray(node.sameAs)]) {
+    const href = asString(link);
+    if (!href) continue;
+    const social = normaliseSocialUrl(href, pageUrl);
+    if (social) {
+      if (!socialLinks.includes(social.url)) socialLinks.push(social.url);
+    } else {
+      website ??= normaliseWebsite(href, pageUrl);
+    }
+  }
+
+  return {
+    name,
+    role,
+    website,
+    socialLinks,
+    email: asString(node.email)?.replace(/^mailto:/i, '').toLowerCase(),
+    phone: asString(node.telephone),
+    description: asString(node.description)?.slice(0, 300),
+  };
+}
+
+/**
+ * Event details and companies from JSON-LD
+ */
+function parseJsonLdEvent(html: string, pageUrl?: string): {
+  eventName?: string;
+  eventDate?: string;
+  venue?: string;
+  companies: EventListingCompany[];
+} {
+  const nodes = readJsonLd(html);
+  const companies: EventListingCompany[] = [];
+  const event = nodes.find((node) => hasType(node, /Event$/));
+  const push = (company: EventListingCompany | undefined) => {
+    if (company) companies.push(company);
+  };
+
+  if (event) {
+    asArray(event.organizer).forEach((organizer) => push(companyFromJsonLd(organizer, 'organizer', pageUrl)));
+    [...asArray(event.sponsor), ...asArray(event.funder)].forEach((sponsor) => push(companyFromJsonLd(sponsor, 'sponsor', pageUrl)));
+    asArray(event.performer)
+      .filter((performer) => performer && typeof performer === 'object' && hasType(performer as Record<string, unknown>, /Organization|Business|Corporation/))
+      .forEach((performer) => push(companyFromJsonLd(performer, 'exhibitor', pageUrl)));
+  }
+
+  // Exhibitor directories published as an ItemList of organizations
+  for (const list of nodes.filter((node) => hasType(node, /^ItemList$/))) {
+    for (const element of asArray(list.itemListElement)) {
+      const item = element && typeof element === 'object' && (element as Record<string, unknown>).item
+        ? (element as Record<string, unknown>).item
+        : element;
+      if (item && typeof item === 'object' && hasType(item as Record<string, unknown>, /Organization|Business|Corporation|Store/)) {
+        push(companyFromJsonLd(item, 'exhibitor', pageUrl));
+      }
+    }
+  }
+
+  const location = asArray(event?.location)[0];
+  return {
+    eventName: asString(event?.name) ? htmlToText(asString(event!.name)!) : undefined,
+    eventDate: toEventDate(asString(event?.startDate)),
+    venue:
+      typeof location === 'string'
+        ? location
+        : asString((location as Record<string, unknown> | undefined)?.name),
+    companies,
+  };
+}
+
+/**
+ * Organizers from Facebook-style "Event by ..." / "Hosted by ..." markup
+ */
+function parseHostedBy(html: string, pageUrl?: string): EventListingCompany[] {
+  const companies: EventListingCompany[] = [];
+  const linked =
+    /(?:event by|hosted by|organi[sz]ed by|presented by)\s*:?\s*(?:<(?!\/?a\b)[^>]*>\s*)*<a\b([^>]*)>([\s\S]*?)<\/a>/gi;
+
+  for (const match of html.matchAll(linked)) {
+    const name = cleanCompanyName(inlineText(match[2]));
+    if (!name) continue;
+    const href = getAttribute(match[1], 'href');
+    const social = normaliseSocialUrl(href, pageUrl);
+    const website = !social && href ? normaliseWebsite(href, pageUrl) : undefined;
+    companies.push({
+      name,
+      role: 'organizer',
+      socialLinks: social ? [social.url] : [],
+      website: website && siteHost(website) !== siteHost(pageUrl) ? website : undefined,
+    });
+  }
+
+  if (companies.length === 0) {
+    const text = htmlToText(html);
+    const plain = text.match(/(?:event by|hosted by|organi[sz]ed by|presented by)\s*:?\s*([^\n|]{2,100})/i);
+    const name = cleanCompanyName(plain?.[1].split(/\s+(?:and|&|·)\s+|,/)[0]);
+    if (name) {
+      companies.push({ name, role: 'organizer', socialLinks: [] });
+    }
+  }
+
+  return companies;
+}
+
+/**
+ * Owner of a saved Facebook / Instagram business page
+ * e.g. og:title "Acme Events (@acmeevents) • Instagram photos and videos"
+ */
+function parseProfilePage(html: string, profileUrl: string): EventListingCompany | undefined {
+  const title = getMeta(html, 'og:title') ?? html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const name = cleanCompanyName(
+    title &&
+      htmlToText(title)
+        .replace(/\s*\(@[^)]*\).*$/, '')
+        .replace(/\s*[|•·-]\s*(?:facebook|instagram).*$/i, '')
+  );
+  if (!name) {
+    return undefined;
+  }
+
+  const description = getMeta(html, 'og:description') ?? getMeta(html, 'description');
+  return {
+    name,
+    role: 'page',
+    socialLinks: [profileUrl],
+    email: description?.match(EMAIL_PATTERN)?.[0].toLowerCase(),
+    phone: description?.match(/(?:\+27|\b0)[\s\-()]*\d{2}[\s\-)]*\d{3}[\s-]*\d{4}\b/)?.[0],
+    description: description?.slice(0, 300),
+  };
+}
+
+/**
+ * Merge companies with the same name (links and details are combined)
+ * Organizer beats sponsor beats exhibitor when roles differ.
+ */
+function mergeCompanies(companies: EventListingCompany[]): EventListingCompany[] {
+  const rank: Record<EventCompanyRole, number> = { page: 3, organizer: 2, sponsor: 1, exhibitor: 0 };
+  const merged = new Map<string, EventListingCompany>();
+
+  for (const company of companies) {
+    const key = company.name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...company, socialLinks: [...company.socialLinks] });
+      continue;
+    }
+
+    existing.role = rank[company.role] > rank[existing.role] ? company.role : existing.role;
+    existing.website ??= company.website;
+    existing.email ??= company.email;
+    existing.phone ??= company.phone;
+    existing.standNumber ??= company.standNumber;
+    existing.description ??= company.description;
+    for (const link of company.socialLinks) {
+      if (!existing.socialLinks.includes(link)) existing.socialLinks.push(link);
+    }
+  }
+
+  return [...merged.values()];
+}
+
+/**
+ * Parse an event listing page (or saved Facebook/Instagram page)
+ *
+ * @param html - Page HTML
+ * @param pageUrl - URL the page was fetched from (optional for saved pages;
+ *   og:url or the canonical link is used when present)
+ */
+export function parseEventListing(html: string, pageUrl?: string): EventListing {
+  const canonical =
+    getMeta(html, 'og:url') ??
+    html.match(/<link\b[^>]*rel\s*=\s*["']canonical["'][^>]*>/i)?.[0].match(/href\s*=\s*["']([^"']+)["']/i)?.[1];
+  let resolvedUrl = pageUrl;
+  if (canonical && (!pageUrl || /^file:/i.test(pageUrl))) {
+    try {
+      resolvedUrl = new URL(canonical).toString();
+    } catch {
+      // Keep the fetched URL
+    }
+  }
+
+  const jsonLd = parseJsonLdEvent(html, resolvedUrl);
+  const body = html.replace(/<(script|style|noscript|head)[^>]*>[\s\S]*?<\/\1>/gi, ' ').replace(/<!--[\s\S]*?-->/g, ' ');
+  const headings = findHeadings(body);
+
+  const companies = mergeCompanies([
+    ...jsonLd.companies,
+    ...parseHostedBy(body, resolvedUrl),
+    ...parseClassItems(body, resolvedUrl, headings),
+    ...parseHeadingLists(body, resolvedUrl, headings),
+  ]);
+
+  // A saved business page with no event content: the page owner is the company
+  const profile = normaliseSocialUrl(resolvedUrl);
+  const isEventUrl = !!resolvedUrl && /\/events?\//i.test(resolvedUrl);
+  if (profile && !isEventUrl && !jsonLd.eventName && companies.length === 0) {
+    const owner = parseProfilePage(html, profile.url);
+    return {
+      pageUrl: resolvedUrl,
+      pageType: 'profile',
+      companies: owner ? [owner] : [],
+    };
+  }
+
+  const title = getMeta(html, 'og:title') ?? html.match(/<h1\b[^>]*>([\s\S]*?)<\/h1>/i)?.[1] ?? html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const eventName =
+    jsonLd.eventName ??
+    (title ? inlineText(title).replace(/\s*[|•·-]\s*(?:facebook|instagram)\s*$/i, '') || undefined : undefined);
+  const timeTag = html.match(/<time\b[^>]*datetime\s*=\s*["']([^"']+)["']/i)?.[1];
+  // Expo sites usually print the dates near the top of the page ("6 - 8 August 2026" -> start date)
+  const topText = htmlToText(body)
+    .slice(0, 2000)
+    .replace(/\b(\d{1,2})(?:st|nd|rd|th)?\s*(?:-|–|—|to|&|and)\s*\d{1,2}(?:st|nd|rd|th)?(?=\s+[a-z]{3,})/gi, '$1');
+  const textDate = normaliseTenderDate(topText)?.slice(0, 10);
+
+  return {
+    pageUrl: resolvedUrl,
+    pageType: 'event',
+    eventName,
+    eventDate: jsonLd.eventDate ?? toEventDate(getMeta(html, 'event:start_time')) ?? toEventDate(timeTag) ?? textDate,
+    venue: jsonLd.venue ?? getMeta(html, 'event:location'),
+    companies,
+  };
+}
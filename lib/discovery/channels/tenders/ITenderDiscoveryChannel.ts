@@ -0,0 +1,43 @@
+/**
+ * Tender Discovery Channel Interface
+ *
+ * Interface for tender portal discovery.
+ * Defines input/output contract only - no implementation.
+ */
+
+import type { IDiscoveryChannel } from '../IDiscoveryChannel';
+import type {
+  DiscoveryChannelInput,
+  DiscoveryChannelOutput,
+} from '../../types';
+
+/**
+ * Tender Discovery Channel Interface
+ *
+ * - Fetches configured tender listing pages (eTenders, municipal and entity portals)
+ * - Follows links to tender notices (HTML pages and PDF documents)
+ * - Extracts tender number, issuing organ, closing date, briefing date,
+ *   commodity description and contact person
+ */
+export interface ITenderDiscoveryChannel extends IDiscoveryChannel {
+  /**
+   * Execute tender discovery
+   *
+   * Input:
+   * - Tender sources (from channel options or DISCOVERY_TENDER_SOURCES)
+   * - Optional parameters.maxResults to cap the number of notices returned
+   *
+   * Output:
+   * - Lead results (issuing organ as company, contact person as contact)
+   * - Tender fields in additionalMetadata
+   *
+   * @param input - Tender discovery channel input
+   * @returns Discovery results with one lead per open tender notice
+   */
+  discover(input: DiscoveryChannelInput): Promise<DiscoveryChannelOutput>;
+
+  /**
+   * @returns Channel type 'tenders'
+   */
+  getChannelType(): 'tenders';
+}
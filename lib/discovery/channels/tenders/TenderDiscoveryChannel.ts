@@ -0,0 +1,468 @@
+/**
+ * Tender Discovery Channel Implementation
+ *
+ * - Fetches configured tender listing pages (DISCOVERY_TENDER_SOURCES)
+ * - Parses listing tables and follows links to notices (HTML and PDF)
+ * - Extracts tender number, issuing organ, closing/briefing dates,
+ *   commodity description and contact person
+ * - Returns DiscoveryLeadResult objects (no database writes)
+ *
+ * Document fetching is injectable so the channel can run against saved fixture pages.
+ */
+
+import type { ITenderDiscoveryChannel } from './ITenderDiscoveryChannel';
+import type {
+  DiscoveryChannelInput,
+  DiscoveryChannelOutput,
+  DiscoveryLeadResult,
+  DiscoveryMetadata,
+} from '../../types';
+import {
+  parseTenderListing,
+  parseTenderNoticeHtml,
+  parseTenderText,
+  mergeTenderNotices,
+  type TenderNotice,
+} from './parseTenderNotice';
+import { extractPdfText, isPdfDocument } from './extractPdfText';
+import { politeFetch, type BlockedFetch } from '../../fetch';
+import { recordFetchUsage } from '../../usage/ledger';
+
+/**
+ * Tender portal or listing page to crawl
+ */
+export interface TenderSource {
+  /** Display name (e.g. "eTenders", "City of Tshwane") */
+  name: string;
+
+  /** Listing page URL */
+  url: string;
+}
+
+/**
+ * Fetched tender document
+ */
+export interface TenderDocument {
+  url: string;
+  contentType: string;
+  body: Buffer;
+}
+
+/**
+ * Fetch a tender document by URL (throws on failure)
+ */
+export type TenderDocumentFetcher = (url: string) => Promise<TenderDocument>;
+
+/**
+ * Tender Discovery Channel Configuration Options
+ */
+export interface TenderDiscoveryChannelOptions {
+  /**
+   * Listing pages to crawl
+   * Default: DISCOVERY_TENDER_SOURCES env var
+   */
+  sources?: TenderSource[];
+
+  /**
+   * Maximum notice documents fetched per source
+   * Default: 20
+   */
+  maxNoticesPerSource?: number;
+
+  /**
+   * Keep only notices whose commodity description contains one of these keywords
+   * Default: none (keep all)
+   */
+  commodityKeywords?: string[];
+
+  /**
+   * Drop notices whose commodity description contains one of these keywords
+   */
+  excludeKeywords?: string[];
+
+  /**
+   * Whether to return notices whose closing date has passed
+   * Default: false
+   */
+  includeClosed?: boolean;
+
+  /**
+   * Timeout for fetching individual documents (ms)
+   * Default: 10000
+   */
+  fetchTimeout?: number;
+
+  /**
+   * Document fetcher (tests pass a fixture reader)
+   * Default: HTTP fetch
+   */
+  fetchDocument?: TenderDocumentFetcher;
+
+  /**
+   * Current time, used for the closed-notice filter
+   * Default: new Date()
+   */
+  now?: Date;
+}
+
+/**
+ * Parse DISCOVERY_TENDER_SOURCES
+ *
+ * Format: comma-separated URLs, each optionally prefixed with a name:
+ * "eTenders|https://www.etenders.gov.za/Home/opportunities?id=1,https://www.tshwane.gov.za/?page_id=2194"
+ */
+export function getTenderSourcesFromEnv(value = process.env.DISCOVERY_TENDER_SOURCES): TenderSource[] {
+  if (!value) {
+    return [];
+  }
+
+  const sources: TenderSource[] = [];
+  for (const entry of value.split(',').map((e) => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf('|');
+    const name = separator > 0 ? entry.slice(0, separator).trim() : '';
+    const url = (separator > 0 ? entry.slice(separator + 1) : entry).trim();
+    try {
+      const parsed = new URL(url);
+      sources.push({ name: name || parsed.hostname, url: parsed.toString() });
+    } catch {
+      console.warn(`[TenderDiscovery] Ignoring invalid tender source URL: ${url}`);
+    }
+  }
+
+  return sources;
+}
+
+/**
+ * Default HTTP document fetcher (polite fetch layer)
+ * URLs refused by robots.txt or rate limits are added to blocked and throw.
+ */
+function createHttpFetcher(timeoutMs: number, blocked?: BlockedFetch[]): TenderDocumentFetcher {
+  return async (url: string) => {
+    const result = await politeFetch(url, {
+      timeout: timeoutMs,
+      accept: 'text/html,application/xhtml+xml,application/pdf;q=0.9,*/*;q=0.8',
+    });
+    if (!result.success) {
+      blocked?.push(result.blocked);
+      throw new Error(result.error);
+    }
+
+    const response = result.response;
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const body = result.body;
+    await recordFetchUsage(body.length);
+
+    return {
+      url: response.url || url,
+      contentType: response.headers.get('content-type') || '',
+      body,
+    };
+  };
+}
+
+/**
+ * Parse a fetched notice document (HTML page or PDF)
+ */
+export function parseTenderDocument(document: TenderDocument): TenderNotice & { documentType: 'html' | 'pdf' } {
+  if (isPdfDocument(document.body, document.contentType)) {
+    return {
+      ...parseTenderText(extractPdfText(document.body)),
+      noticeUrl: document.url,
+      documentType: 'pdf',
+    };
+  }
+
+  return {
+    ...parseTenderNoticeHtml(document.body.toString('utf8'), document.url),
+    documentType: 'html',
+  };
+}
+
+/**
+ * Tender Discovery Channel Implementation
+ *
+ * Crawls tender listing pages and returns one lead per open tender notice.
+ * Does NOT write to database - only returns results.
+ */
+export class TenderDiscoveryChannel implements ITenderDiscoveryChannel {
+  private options: TenderDiscoveryChannelOptions;
+
+  constructor(options: TenderDiscoveryChannelOptions = {}) {
+    this.options = {
+      maxNoticesPerSource: 20,
+      includeClosed: false,
+      fetchTimeout: 10000,
+      ...options,
+    };
+  }
+
+  /**
+   * Get channel type identifier
+   */
+  getChannelType(): 'tenders' {
+    return 'tenders';
+  }
+
+  /**
+   * Check if channel is enabled
+   * Requires at least one tender source
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  isEnabled(_config: DiscoveryChannelInput['config']): boolean {
+    return this.getSources().length > 0;
+  }
+
+  /**
+   * Execute tender discovery
+   *
+   * Sources are crawled sequentially; a failing source or notice is recorded
+   * in metadata.sourceErrors and the remaining sources are still processed.
+   */
+  async discover(input: DiscoveryChannelInput): Promise<DiscoveryChannelOutput> {
+    const sources = this.getSources();
+    if (sources.length === 0) {
+      return {
+        channelType: 'tenders',
+        results: [],
+        success: false,
+        error: 'No tender sources configured (set DISCOVERY_TENDER_SOURCES)',
+      };
+    }
+
+    const blockedUrls: BlockedFetch[] = [];
+    const fetchDocument = this.options.fetchDocument ?? createHttpFetcher(this.options.fetchTimeout!, blockedUrls);
+    const maxResults = typeof input.parameters?.maxResults === 'number' ? input.parameters.maxResults : undefined;
+    const sourceErrors: Record<string, string> = {};
+    const filtered = { closed: 0, excluded: 0, noKeywordMatch: 0, incomplete: 0 };
+    let documentsFetched = 0;
+
+    try {
+      const collected: Array<{ notice: TenderNotice & { documentType?: 'html' | 'pdf' }; source: TenderSource }> = [];
+
+      for (const source of sources) {
+        // Check for cancellation between sources
+        if (input.cancelCheck && await input.cancelCheck()) {
+          throw new Error('Discovery cancelled by user request');
+        }
+
+        try {
+          const listingDocument = await fetchDocument(source.url);
+          documentsFetched++;
+
+          // A source may point straight at a single notice PDF
+          if (isPdfDocument(listingDocument.body, listingDocument.contentType)) {
+            collected.push({ notice: parseTenderDocument(listingDocument), source });
+            continue;
+          }
+
+          const listing = parseTenderListing(listingDocument.body.toString('utf8'), listingDocument.url);
+          let budget = this.options.maxNoticesPerSource!;
+
+          // Listing rows: fetch the notice only when the row lacks detail
+          for (const row of listing.notices) {
+            let notice: TenderNotice & { documentType?: 'html' | 'pdf' } = row;
+            const needsDetail = !row.contactPerson || !row.closingDate || !row.issuingOrgan;
+            if (needsDetail && row.noticeUrl && budget > 0) {
+              budget--;
+              try {
+                const detail = parseTenderDocument(await fetchDocument(row.noticeUrl));
+                documentsFetched++;
+                notice = { ...mergeTenderNotices(row, detail), documentType: detail.documentType };
+              } catch (error) {
+                sourceErrors[row.noticeUrl] = error instanceof Error ? error.message : 'Unknown error';
+              }
+            }
+            collected.push({ notice, source });
+          }
+
+          // Links to notices not listed in a table
+          for (const link of listing.noticeLinks) {
+            if (budget <= 0) break;
+            if (input.cancelCheck && await input.cancelCheck()) {
+              throw new Error('Discovery cancelled by user request');
+            }
+            budget--;
+            try {
+              collected.push({ notice: parseTenderDocument(await fetchDocument(link)), source });
+              documentsFetched++;
+            } catch (error) {
+              sourceErrors[link] = error instanceof Error ? error.message : 'Unknown error';
+            }
+          }
+        } catch (error) {
+          if (error instanceof Error && error.message.includes('cancelled')) {
+            throw error;
+          }
+          sourceErrors[source.url] = error instanceof Error ? error.message : 'Unknown error';
+        }
+      }
+
+      // Filter and deduplicate notices
+      const seen = new Set<string>();
+      const results: DiscoveryLeadResult[] = [];
+      const discoveryTimestamp = new Date();
+
+      for (const { notice, source } of collected) {
+        if (!notice.tenderNumber && !notice.commodityDescription) {
+          filtered.incomplete++;
+          continue;
+        }
+
+        const reason = this.getFilterReason(notice);
+        if (reason) {
+          filtered[reason]++;
+          continue;
+        }
+
+        const key = notice.tenderNumber
+          ? `tender:${notice.tenderNumber.toLowerCase().replace(/\s+/g, '')}`
+          : `url:${notice.noticeUrl ?? notice.commodityDescription}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        results.push(this.toLeadResult(notice, source, discoveryTimestamp));
+        if (maxResults !== undefined && results.length >= maxResults) break;
+      }
+
+      const allSourcesFailed = sources.every((source) => sourceErrors[source.url] !== undefined);
+
+      return {
+        channelType: 'tenders',
+        results,
+        success: !allSourcesFailed,
+        error: allSourcesFailed ? 'All tender sources failed to load' : undefined,
+        metadata: {
+          sourcesCrawled: sources.length,
+          documentsFetched,
+          noticesParsed: collected.length,
+          noticesFiltered: filtered,
+          resultsFound: results.length,
+          ...(Object.keys(sourceErrors).length > 0 ? { sourceErrors } : {}),
+          ...(blockedUrls.length > 0 ? { blockedUrls } : {}),
+        },
+      };
+    } catch (error: unknown) {
+      // Return error but don't throw (graceful degradation)
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred during tender discovery';
+      return {
+        channelType: 'tenders',
+        results: [],
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Resolve tender sources (options, then environment)
+   */
+  private getSources(): TenderSource[] {
+    return this.options.sources ?? getTenderSourcesFromEnv();
+  }
+
+  /**
+   * Decide whether a notice should be dropped
+   */
+  private getFilterReason(notice: TenderNotice): 'closed' | 'excluded' | 'noKeywordMatch' | null {
+    if (!this.options.includeClosed && notice.closingDate) {
+      const today = (this.options.now ?? new Date()).toISOString().slice(0, 10);
+      if (notice.closingDate.slice(0, 10) < today) {
+        return 'closed';
+      }
+    }
+
+    const description = (notice.commodityDescription ?? '').toLowerCase();
+    if (!description) {
+      return null;
+    }
+
+    const excludeKeywords = this.options.excludeKeywords ?? [];
+    if (excludeKeywords.some((keyword) => description.includes(keyword.toLowerCase()))) {
+      return 'excluded';
+    }
+
+    const commodityKeywords = this.options.commodityKeywords ?? [];
+    if (
+      commodityKeywords.length > 0 &&
+      !commodityKeywords.some((keyword) => description.includes(keyword.toLowerCase()))
+    ) {
+      return 'noKeywordMatch';
+    }
+
+    return null;
+  }
+
+  /**
+   * Convert a tender notice into a lead result
+   * Issuing organ becomes the company, the contact person the contact.
+   */
+  private toLeadResult(
+    notice: TenderNotice & { documentType?: 'html' | 'pdf' },
+    source: TenderSource,
+    discoveryTimestamp: Date
+  ): DiscoveryLeadResult {
+    const issuingOrgan = notice.issuingOrgan || source.name;
+    const discoveryMetadata: DiscoveryMetadata = {
+      discoverySource: 'tenders',
+      discoveryTimestamp,
+      discoveryMethod: `tender:${source.name}`,
+      additionalMetadata: {
+        tenderNumber: notice.tenderNumber,
+        noticeUrl: notice.noticeUrl,
+      },
+    };
+
+    const tenderFields: Record<string, unknown> = {
+      tenderNumber: notice.tenderNumber,
+      issuingOrgan,
+      commodityDescription: notice.commodityDescription,
+      closingDate: notice.closingDate,
+      closingDateText: notice.closingDateText,
+      briefingDate: notice.briefingDate,
+      briefingDetails: notice.briefingDetails,
+      contactPerson: notice.contactPerson,
+      contactEmail: notice.contactEmail,
+      contactPhone: notice.contactPhone,
+      noticeUrl: notice.noticeUrl,
+      documentUrls: notice.documentUrls,
+      documentType: notice.documentType,
+      sourcePortal: source.name,
+      sourceUrl: source.url,
+    };
+
+    return {
+      type: 'lead',
+      source: 'tenders',
+      discoveryTimestamp,
+      company: {
+        type: 'company',
+        name: issuingOrgan,
+        contactChannels:
+          notice.contactEmail || notice.contactPhone
+            ? {
+                emails: notice.contactEmail ? [notice.contactEmail] : [],
+                phones: notice.contactPhone ? [notice.contactPhone] : [],
+              }
+            : undefined,
+        discoveryMetadata,
+      },
+      contact: notice.contactPerson
+        ? {
+            type: 'contact',
+            name: notice.contactPerson,
+            email: notice.contactEmail,
+            phone: notice.contactPhone,
+            companyName: issuingOrgan,
+            discoveryMetadata,
+          }
+        : undefined,
+      additionalMetadata: {
+        discoveryMethod: `tender:${source.name}`,
+        ...Object.fromEntries(Object.entries(tenderFields).filter(([, value]) => value !== undefined)),
+      },
+    };
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * Tender Discovery - PDF Text Extraction
+ *
+ * Minimal text extraction for tender notices published as PDFs.
+ * Inflates FlateDecode content streams and reads the text-showing operators
+ * (Tj, TJ, ', "), starting new lines on text positioning operators.
+ *
+ * Limitations: fonts with custom encodings (CID/Identity-H without a
+ * simple byte mapping) and scanned notices produce little or no text.
+ * Such notices are still reported from their listing row.
+ */
+
+import { inflateSync } from 'zlib';
+
+/** Inflated bytes allowed per document (guards against compression bombs) */
+const MAX_INFLATED_BYTES = 8 * 1024 * 1024;
+
+/**
+ * Check whether a fetched document is a PDF
+ */
+export function isPdfDocument(body: Buffer, contentType?: string): boolean {
+  if (contentType && contentType.toLowerCase().includes('application/pdf')) {
+    return true;
+  }
+  return body.subarray(0, 5).toString('latin1') === '%PDF-';
+}
+
+/**
+ * Extract the raw content streams of a PDF, inflating FlateDecode streams
+ */
+function extractContentStreams(data: Buffer): string[] {
+  const raw = data.toString('latin1');
+  const streams: string[] = [];
+  let inflatedBudget = MAX_INFLATED_BYTES;
+  const streamRegex = /\bobj\b([\s\S]*?)\bstream\r?\n/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = streamRegex.exec(raw)) !== null) {
+    // Lazy match can span earlier objects without streams - keep the last one
+    const dictionary = match[1].split(/\bobj\b/).pop() ?? '';
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end === -1) break;
+    streamRegex.lastIndex = end;
+
+    // Skip images and embedded fonts
+    if (/\/Subtype\s*\/Image|\/Length1|\/FontFile/.test(dictionary)) continue;
+
+    // The EOL before "endstream" is not part of the data
+    let bodyEnd = end;
+    if (raw[bodyEnd - 1] === '\n') bodyEnd--;
+    if (raw[bodyEnd - 1] === '\r') bodyEnd--;
+    const body = data.subarray(start, bodyEnd);
+
+    if (/\/FlateDecode/.test(dictionary)) {
+      if (inflatedBudget <= 0) continue;
+      try {
+        const inflated = inflateSync(body, { maxOutputLength: inflatedBudget });
+        inflatedBudget -= inflated.length;
+        streams.push(inflated.toString('latin1'));
+      } catch {
+        // Unreadable stream, or larger than the remaining budget - ignore
+      }
+    } else if (!/\/Filter/.test(dictionary)) {
+      streams.push(body.toString('latin1'));
+    }
+  }
+
+  return streams.filter((stream) => /\bBT\b/.test(stream));
+}
+
+/**
+ * Read a literal string "( ... )" starting at index, returning its value and end index
+ */
+function readLiteralString(content: string, index: number): [string, number] {
+  let depth = 1;
+  let value = '';
+  let i = index + 1;
+
+  while (i < content.length && depth > 0) {
+    const char = content[i];
+    if (char === '\\') {
+      const next = content[i + 1];
+      const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '(': '(', ')': ')', '\\': '\\' };
+      if (next in escapes) {
+        value += escapes[next];
+        i += 2;
+      } else if (/[0-7]/.test(next)) {
+        const octal = content.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+        value += String.fromCharCode(parseInt(octal, 8));
+        i += 1 + octal.length;
+      } else {
+        // Line continuation or unknown escape
+        i += next === '\r' && content[i + 2] === '\n' ? 3 : 2;
+      }
+      continue;
+    }
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (depth > 0) value += char;
+    i++;
+  }
+
+  return [value, i];
+}
+
+/**
+ * Extract text from a single content stream
+ */
+function extractStreamText(content: string): string {
+  const operands: Array<string | number | Array<string | number>> = [];
+  let array: Array<string | number> | null = null;
+  let output = '';
+  let lastY: number | null = null;
+  const tokenRegex = /[+-]?(?:\d+\.?\d*|\.\d+)|\/[^\s/[\]()<>]+|[A-Za-z'"*]+|<<|>>/y;
+
+  const newLine = () => {
+    if (output && !output.endsWith('\n')) output += '\n';
+  };
+  const space = () => {
+    if (output && !/[\s]$/.test(output)) output += ' ';
+  };
+
+  let i = 0;
+  while (i < content.length) {
+    const char = content[i];
+
+    if (char === '(') {
+      const [value, end] = readLiteralString(content, i);
+      (array ?? operands).push(value);
+      i = end;
+      continue;
+    }
+
+    if (char === '<' && content[i + 1] !== '<') {
+      const end = content.indexOf('>', i);
+      const hex = content.slice(i + 1, end === -1 ? content.length : end).replace(/\s+/g, '');
+      const padded = hex.length % 2 === 0 ? hex : `${hex}0`;
+      (array ?? operands).push(Buffer.from(padded, 'hex').toString('latin1'));
+      i = end === -1 ? content.length : end + 1;
+      continue;
+    }
+
+    if (char === '[') {
+      array = [];
+      i++;
+      continue;
+    }
+
+    if (char === ']') {
+      if (array) operands.push(array);
+      array = null;
+      i++;
+      continue;
+    }
+
+    if (char === '%') {
+      const end = content.indexOf('\n', i);
+      i = end === -1 ? content.length : end + 1;
+      continue;
+    }
+
+    tokenRegex.lastIndex = i;
+    const tokenMatch = tokenRegex.exec(content);
+    if (!tokenMatch) {
+      i++;
+      continue;
+    }
+
+    const token = tokenMatch[0];
+    i += token.length;
+
+    if (/^[+-]?(?:\d|\.\d)/.test(token)) {
+      (array ?? operands).push(Number(token));
+      continue;
+    }
+    if (token.startsWith('/') || token === '<<' || token === '>>') {
+      operands.push(token);
+      continue;
+    }
+
+    // Operator
+    switch (token) {
+      case 'Tj': {
+        const value = operands[operands.length - 1];
+        if (typeof value === 'string') output += value;
+        break;
+      }
+      case "'":
+      case '"': {
+        newLine();
+        const value = operands[operands.length - 1];
+        if (typeof value === 'string') output += value;
+        break;
+      }
+      case 'TJ': {
+        const value = operands[operands.length - 1];
+        if (Array.isArray(value)) {
+          for (const part of value) {
+            if (typeof part === 'string') {
+              output += part;
+            } else if (part < -200) {
+              // Large negative adjustment is a word gap
+              space();
+            }
+          }
+        }
+        break;
+      }
+      case 'Td':
+      case 'TD': {
+        const ty = operands[operands.length - 1];
+        if (typeof ty === 'number' && ty !== 0) {
+          newLine();
+        } else {
+          space();
+        }
+        break;
+      }
+      case 'Tm': {
+        const y = operands[operands.length - 1];
+        if (typeof y === 'number' && lastY !== null && y === lastY) {
+          space();
+        } else {
+          newLine();
+        }
+        lastY = typeof y === 'number' ? y : null;
+        break;
+      }
+      case 'T*':
+        newLine();
+        break;
+      case 'ET':
+        space();
+        break;
+      default:
+        break;
+    }
+    operands.length = 0;
+  }
+
+  return output;
+}
+
+/**
+ * Extract text from a PDF document
+ *
+ * @param data - Raw PDF bytes
+ * @returns Line-oriented text (empty string if no text could be read)
+ */
+export function extractPdfText(data: Buffer): string {
+  return extractContentStreams(data)
+    .map(extractStreamText)
+    .join('\n')
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter((line) => line.length > 0)
+    .join('\n');
+}
@@ -0,0 +1,27 @@
+/**
+ * Tender Discovery Channel
+ *
+ * Exports for tender portal discovery channel implementation
+ */
+
+export type { ITenderDiscoveryChannel } from './ITenderDiscoveryChannel';
+export {
+  TenderDiscoveryChannel,
+  getTenderSourcesFromEnv,
+  parseTenderDocument,
+  type TenderDiscoveryChannelOptions,
+  type TenderSource,
+  type TenderDocument,
+  type TenderDocumentFetcher,
+} from './TenderDiscoveryChannel';
+export {
+  parseTenderListing,
+  parseTenderNoticeHtml,
+  parseTenderText,
+  normaliseTenderDate,
+  mergeTenderNotices,
+  htmlToText,
+  type TenderNotice,
+  type TenderListing,
+} from './parseTenderNotice';
+export { extractPdfText, isPdfDocument } from './extractPdfText';
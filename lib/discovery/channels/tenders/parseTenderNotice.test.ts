@@ -0,0 +1,273 @@
+/**
+ * Unit Tests for tender notice parsing and the tender discovery channel
+ *
+ * Runs against saved fixture pages in ./fixtures (no network access).
+ * Simple test runner compatible with repo conventions.
+ * Run with: tsx lib/discovery/channels/tenders/parseTenderNotice.test.ts
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { deflateSync } from 'zlib';
+import {
+  normaliseTenderDate,
+  parseTenderListing,
+  parseTenderNoticeHtml,
+  parseTenderText,
+} from './parseTenderNotice';
+import { extractPdfText, isPdfDocument } from './extractPdfText';
+import { TenderDiscoveryChannel, getTenderSourcesFromEnv, type TenderDocument } from './TenderDiscoveryChannel';
+
+// Simple assertion helper
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string): void {
+  if (actual !== expected) {
+    throw new Error(`Assertion failed: ${message}. Expected: ${expected}, Actual: ${actual}`);
+  }
+}
+
+const FIXTURES_DIR = join(__dirname, 'fixtures');
+const LISTING_URL = 'https://www.tshwane.gov.za/tenders/';
+
+function readFixture(name: string): string {
+  return readFileSync(join(FIXTURES_DIR, name), 'utf8');
+}
+
+/**
+ * Wrap a saved content stream in a minimal single-page PDF (FlateDecode)
+ */
+function buildPdf(content: string): Buffer {
+  const stream = deflateSync(Buffer.from(content, 'latin1'));
+  return Buffer.concat([
+    Buffer.from(
+      '%PDF-1.4\n' +
+        '1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n' +
+        '2 0 obj\n<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj\n' +
+        '3 0 obj\n<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>\nendobj\n' +
+        `4 0 obj\n<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`,
+      'latin1'
+    ),
+    stream,
+    Buffer.from('\nendstream\nendobj\ntrailer\n<< /Root 1 0 R >>\n%%EOF\n', 'latin1'),
+  ]);
+}
+
+/**
+ * Fixture-backed document fetcher
+ */
+function fixtureFetcher(fetched: string[]) {
+  const documents: Record<string, () => TenderDocument> = {
+    [LISTING_URL]: () => ({
+      url: LISTING_URL,
+      contentType: 'text/html; charset=utf-8',
+      body: Buffer.from(readFixture('municipal-listing.html')),
+    }),
+    [`${LISTING_URL}notice-uniforms.html`]: () => ({
+      url: `${LISTING_URL}notice-uniforms.html`,
+      contentType: 'text/html',
+      body: Buffer.from(readFixture('notice-uniforms.html')),
+    }),
+    [`${LISTING_URL}rfq-ppe-2026.pdf`]: () => ({
+      url: `${LISTING_URL}rfq-ppe-2026.pdf`,
+      contentType: 'application/pdf',
+      body: buildPdf(readFixture('rfq-ppe-notice.content.txt')),
+    }),
+  };
+
+  return async (url: string): Promise<TenderDocument> => {
+    fetched.push(url);
+    const document = documents[url];
+    if (!document) {
+      throw new Error('HTTP 404: Not Found');
+    }
+    return document();
+  };
+}
+
+// Test cases
+function testDateNormalisation() {
+  console.log('Test 1: Tender date normalisation');
+
+  assertEqual(normaliseTenderDate('14 November 2026 at 11:00'), '2026-11-14T11:00', 'Written date with time');
+  assertEqual(normaliseTenderDate('15/09/2026'), '2026-09-15', 'Day-first numeric date');
+  assertEqual(normaliseTenderDate('2026-11-20 12h00'), '2026-11-20T12:00', 'ISO date with 12h00 time');
+  assertEqual(normaliseTenderDate('Nov 5, 2026 10am'), '2026-11-05T10:00', 'Month-first date with am time');
+  assertEqual(normaliseTenderDate('Non-compulsory: 28 October 2026 at 10h00, Tshwane House'), '2026-10-28T10:00', 'Date inside briefing details');
+  assertEqual(normaliseTenderDate('N/A'), undefined, 'No date');
+
+  console.log('  ✅ Dates normalised');
+}
+
+function testListingParsing() {
+  console.log('Test 2: Listing page (table rows and notice links)');
+
+  const listing = parseTenderListing(readFixture('municipal-listing.html'), LISTING_URL);
+
+  assertEqual(listing.notices.length, 3, 'Three table rows should be parsed');
+  const [uniforms, ppe, hall] = listing.notices;
+  assertEqual(uniforms.tenderNumber, 'COT 45/2026', 'Tender number from Bid Number column');
+  assert(!!uniforms.commodityDescription?.startsWith('Supply and delivery of corporate clothing'), 'Description from Bid Description column');
+  assertEqual(uniforms.closingDate, '2026-11-14T11:00', 'Closing date normalised');
+  assertEqual(uniforms.briefingDate, '2026-10-28T10:00', 'Briefing date normalised');
+  assertEqual(uniforms.noticeUrl, `${LISTING_URL}notice-uniforms.html`, 'Row link resolved against listing URL');
+  assertEqual(ppe.closingDate, '2026-09-15', 'Second row closing date');
+  assertEqual(hall.noticeUrl, 'https://www.tshwane.gov.za/tenders/docs/cot-50-2026.pdf', 'Root-relative link resolved');
+
+  assertEqual(listing.noticeLinks.length, 1, 'Only the RFQ link is an extra notice link');
+  assertEqual(listing.noticeLinks[0], `${LISTING_URL}rfq-ppe-2026.pdf`, 'RFQ PDF link collected');
+
+  console.log('  ✅ Listing parsed; navigation and closed-tender links ignored');
+}
+
+function testHtmlNoticeParsing() {
+  console.log('Test 3: HTML notice page');
+
+  const notice = parseTenderNoticeHtml(readFixture('notice-uniforms.html'), `${LISTING_URL}notice-uniforms.html`);
+
+  assertEqual(notice.tenderNumber, 'COT 45/2026', 'Tender number');
+  assertEqual(notice.issuingOrgan, 'City of Tshwane Metropolitan Municipality', 'Issuing organ');
+  assertEqual(notice.closingDate, '2026-11-14T11:00', 'Closing date');
+  assertEqual(notice.briefingDate, '2026-10-28T10:00', 'Briefing date');
+  assertEqual(notice.contactPerson, 'N. Dlamini', 'Contact person without title or phone');
+  assertEqual(notice.contactEmail, 'n.dlamini@tshwane.gov.za', 'Contact email');
+  assertEqual(notice.contactPhone, '012 358 1234', 'Contact phone');
+  assertEqual(notice.documentUrls?.[0], 'https://www.tshwane.gov.za/tenders/docs/cot-45-2026.pdf', 'Bid document link');
+
+  console.log('  ✅ HTML notice fields extracted');
+}
+
+function testPdfNoticeParsing() {
+  console.log('Test 4: PDF notice text extraction');
+
+  const pdf = buildPdf(readFixture('rfq-ppe-notice.content.txt'));
+  assert(isPdfDocument(pdf), 'PDF detected from magic bytes');
+
+  const text = extractPdfText(pdf);
+  assert(text.includes('RFQ Number: GDH/RFQ/0457/2026'), 'TJ array with word gap joined');
+  assert(text.includes('(gloves, masks and overalls)'), 'Escaped parentheses decoded');
+
+  const oversized = buildPdf(`BT (Padded notice) Tj ET\n%${' '.repeat(9 * 1024 * 1024)}`);
+  assertEqual(extractPdfText(oversized), '', 'Stream inflating past the size cap skipped');
+
+  const notice = parseTenderText(text);
+  assertEqual(notice.tenderNumber, 'GDH/RFQ/0457/2026', 'RFQ number');
+  assertEqual(notice.issuingOrgan, 'GAUTENG DEPARTMENT OF HEALTH', 'Issuing organ from unlabelled heading');
+  assertEqual(notice.closingDate, '2026-11-05T11:00', 'Closing date');
+  assertEqual(notice.briefingDetails, 'None', 'Briefing details kept as written');
+  assertEqual(notice.briefingDate, undefined, 'No briefing date');
+  assertEqual(notice.contactPerson, 'S. Naidoo', 'Contact person from Enquiries line');
+  assertEqual(notice.contactEmail, 'rfq@gauteng.gov.za', 'Contact email');
+
+  console.log('  ✅ PDF notice fields extracted');
+}
+
+async function testChannelAgainstFixtures() {
+  console.log('Test 5: Tender channel end-to-end against fixtures');
+
+  const fetched: string[] = [];
+  const channel = new TenderDiscoveryChannel({
+    sources: [{ name: 'City of Tshwane', url: LISTING_URL }],
+    commodityKeywords: ['uniform', 'clothing', 'ppe'],
+    fetchDocument: fixtureFetcher(fetched),
+    now: new Date('2026-10-19T08:00:00Z'),
+  });
+
+  const output = await channel.discover({
+    config: { channelType: 'tenders', activationStatus: 'enabled' },
+  });
+
+  assert(output.success, 'Channel should succeed');
+  assertEqual(output.channelType, 'tenders', 'Channel type');
+  assertEqual(output.results.length, 2, 'Open uniform tender and PPE RFQ should be returned');
+
+  const [uniforms, rfq] = output.results;
+  assert(uniforms.type === 'lead' && rfq.type === 'lead', 'Results are leads');
+  if (uniforms.type !== 'lead' || rfq.type !== 'lead') return;
+
+  assertEqual(uniforms.source, 'tenders', 'Lead source');
+  assertEqual(uniforms.additionalMetadata?.tenderNumber, 'COT 45/2026', 'Tender number in metadata');
+  assertEqual(uniforms.additionalMetadata?.issuingOrgan, 'City of Tshwane Metropolitan Municipality', 'Issuing organ merged from notice page');
+  assertEqual(uniforms.additionalMetadata?.contactPerson, 'N. Dlamini', 'Contact person merged from notice page');
+  assertEqual(uniforms.additionalMetadata?.closingDate, '2026-11-14T11:00', 'Closing date in metadata');
+  assertEqual(uniforms.additionalMetadata?.briefingDate, '2026-10-28T10:00', 'Briefing date in metadata');
+  assertEqual(uniforms.company?.name, 'City of Tshwane Metropolitan Municipality', 'Issuing organ is the company');
+  assertEqual(uniforms.contact?.email, 'n.dlamini@tshwane.gov.za', 'Contact person is the contact');
+
+  assertEqual(rfq.additionalMetadata?.tenderNumber, 'GDH/RFQ/0457/2026', 'RFQ from PDF notice');
+  assertEqual(rfq.additionalMetadata?.documentType, 'pdf', 'Document type recorded');
+
+  const filtered = output.metadata?.noticesFiltered as Record<string, number>;
+  assertEqual(filtered.closed, 1, 'Closed tender filtered');
+  assertEqual(filtered.noKeywordMatch, 1, 'Construction tender filtered by commodity keywords');
+
+  const sourceErrors = output.metadata?.sourceErrors as Record<string, string>;
+  assert(!!sourceErrors['https://www.tshwane.gov.za/tenders/docs/cot-50-2026.pdf'], 'Failed notice fetch recorded, run continues');
+  assert(!fetched.includes('https://www.tshwane.gov.za/tenders/closed'), 'Closed tenders link not followed');
+
+  console.log('  ✅ Leads emitted with tender fields in additionalMetadata');
+}
+
+function testSourcesFromEnv() {
+  console.log('Test 6: DISCOVERY_TENDER_SOURCES parsing');
+
+  const sources = getTenderSourcesFromEnv('eTenders|https://www.etenders.gov.za/Home/opportunities?id=1, https://www.tshwane.gov.za/tenders/, not a url');
+  assertEqual(sources.length, 2, 'Invalid entries ignored');
+  assertEqual(sources[0].name, 'eTenders', 'Named source');
+  assertEqual(sources[1].name, 'www.tshwane.gov.za', 'Unnamed source uses hostname');
+
+  const disabled = new TenderDiscoveryChannel({ sources: [] });
+  assert(!disabled.isEnabled({ channelType: 'tenders', activationStatus: 'enabled' }), 'Channel disabled without sources');
+
+  console.log('  ✅ Sources parsed');
+}
+
+async function runTests() {
+  console.log('='.repeat(60));
+  console.log('Tender Discovery: Notice Parsing Unit Tests');
+  console.log('='.repeat(60));
+  console.log('');
+
+  const tests: Array<() => void | Promise<void>> = [
+    testDateNormalisation,
+    testListingParsing,
+    testHtmlNoticeParsing,
+    testPdfNoticeParsing,
+    testChannelAgainstFixtures,
+    testSourcesFromEnv,
+  ];
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const test of tests) {
+    try {
+      await test();
+      passed++;
+      console.log('');
+    } catch (error) {
+      failed++;
+      console.error(`  ❌ Test failed: ${error instanceof Error ? error.message : String(error)}`);
+      console.log('');
+    }
+  }
+
+  console.log('='.repeat(60));
+  console.log(`Tests: ${passed} passed, ${failed} failed (total: ${tests.length})`);
+  console.log('='.repeat(60));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
@@ -0,0 +1,513 @@
+/**
+ * Tender Discovery - Notice Parsing
+ *
+ * Pure functions that turn tender listing pages and tender notices
+ * (HTML, or text extracted from PDF notices) into structured TenderNotice records.
+ * No network access - the channel fetches documents and passes the content in,
+ * which keeps parsing testable against saved fixture pages.
+ */
+
+/**
+ * Structured tender notice
+ */
+export interface TenderNotice {
+  /** Tender / bid / RFQ number as published */
+  tenderNumber?: string;
+
+  /** Organ of state or entity issuing the tender */
+  issuingOrgan?: string;
+
+  /** Commodity or description of goods/services required */
+  commodityDescription?: string;
+
+  /** Normalised closing date (YYYY-MM-DD or YYYY-MM-DDTHH:mm, portal local time) */
+  closingDate?: string;
+
+  /** Closing date as written in the notice */
+  closingDateText?: string;
+
+  /** Normalised briefing session date (YYYY-MM-DD or YYYY-MM-DDTHH:mm) */
+  briefingDate?: string;
+
+  /** Briefing session details as written (venue, compulsory or not, "N/A") */
+  briefingDetails?: string;
+
+  /** Contact person for enquiries */
+  contactPerson?: string;
+
+  /** Contact email for enquiries */
+  contactEmail?: string;
+
+  /** Contact phone number for enquiries */
+  contactPhone?: string;
+
+  /** URL of the notice page or document */
+  noticeUrl?: string;
+
+  /** Further documents linked from the notice (bid documents, PDFs) */
+  documentUrls?: string[];
+}
+
+/**
+ * Parsed tender listing page
+ */
+export interface TenderListing {
+  /** Notices parsed directly from listing table rows */
+  notices: TenderNotice[];
+
+  /** Links to individual notice pages/documents not covered by table rows */
+  noticeLinks: string[];
+}
+
+type LabelledField =
+  | 'tenderNumber'
+  | 'issuingOrgan'
+  | 'commodityDescription'
+  | 'closingDate'
+  | 'briefingDate'
+  | 'contactPerson';
+
+/**
+ * Label patterns per field, most specific first.
+ * Matched at the start of a line (notices) or against table headers (listings).
+ */
+const FIELD_LABELS: Record<LabelledField, string[]> = {
+  tenderNumber: [
+    '(?:tender|bid|rfq|rfp|quotation)\\s*(?:no\\.?|number|ref(?:erence)?(?:\\s*(?:no\\.?|number))?)',
+    'reference\\s*(?:no\\.?|number)',
+  ],
+  issuingOrgan: [
+    'organ\\s*of\\s*state',
+    'issuing\\s*(?:organ|entity|department|institution)',
+    'procuring\\s*entity',
+    'issued\\s*by',
+    'department',
+    'institution',
+    'municipality',
+    'entity',
+  ],
+  commodityDescription: [
+    'commodity(?:\\s*description)?',
+    '(?:tender|bid|rfq|rfp)\\s*description',
+    'description(?:\\s*of\\s*(?:goods|services|requirements?))?',
+    'subject',
+  ],
+  closingDate: [
+    '(?:bid\\s*)?closing\\s*date(?:\\s*(?:and|&)\\s*time)?',
+    'bid\\s*closing',
+    'closing\\s*time',
+    'closes',
+  ],
+  briefingDate: [
+    '(?:compulsory\\s*|non[-\\s]?compulsory\\s*)?briefing(?:\\s*session)?(?:\\s*(?:date|details))?',
+    'site\\s*(?:meeting|inspection)',
+    'clarification\\s*meeting',
+  ],
+  contactPerson: [
+    'contact\\s*(?:person|name|officer)',
+    '(?:technical\\s*|bid\\s*)?enquiries(?:\\s*contact)?',
+    'contact',
+  ],
+};
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i;
+const PHONE_PATTERN = /(?:\+27|\b0)[\s\-()]*\d{2}[\s\-)]*\d{3}[\s-]*\d{4}\b/;
+
+/** Lines that look like an issuing organ when no label is present */
+const ORGAN_PATTERN =
+  /\b(?:department of|municipality|metropolitan|city of|district|agency|authority|council|board|university|college|hospital|soc ltd|public entity)\b/i;
+
+/** Lines that look like a commodity description when no label is present */
+const COMMODITY_PATTERN =
+  /^(?:the\s+)?(?:supply|provision|procurement|appointment|delivery|manufactur(?:e|ing)|purchase)\b/i;
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const MONTH_NAMES =
+  'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+};
+
+/**
+ * Decode the HTML entities found on tender portals
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#')) {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCharCode(code) : match;
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Convert HTML to line-oriented text
+ *
+ * Table cells and definition list entries are joined with " | " so that
+ * two-column "Label | Value" layouts parse like "Label: Value" lines.
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<(script|style|noscript|head)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<\/t[dh]>\s*<t[dh][^>]*>/gi, ' | ')
+    .replace(/<\/dt>\s*<dd[^>]*>/gi, ' | ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(?:p|div|tr|li|ul|ol|table|tbody|thead|h[1-6]|dt|dd|dl|section|article|header|footer)\b[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map((line) => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .filter((line) => line.length > 0)
+    .join('\n');
+}
+
+/**
+ * Normalise a tender date string
+ *
+ * Supports ISO (2026-11-15), South African day-first numeric (15/11/2026,
+ * 15.11.2026) and written dates (15 November 2026, November 15, 2026),
+ * with an optional time shortly after the date (11:00, 11h00, 11am).
+ *
+ * @returns YYYY-MM-DD or YYYY-MM-DDTHH:mm, or undefined if no date found
+ */
+export function normaliseTenderDate(text: string): string | undefined {
+  const patterns: Array<{ regex: RegExp; parts: (m: RegExpMatchArray) => [number, number, number] }> = [
+    {
+      regex: /\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/,
+      parts: (m) => [Number(m[1]), Number(m[2]), Number(m[3])],
+    },
+    {
+      regex: /\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})\b/,
+      parts: (m) => [Number(m[3]), Number(m[2]), Number(m[1])],
+    },
+    {
+      regex: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?[\\s-]+(${MONTH_NAMES})\\.?[\\s,-]+(\\d{4})\\b`, 'i'),
+      parts: (m) => [Number(m[3]), MONTHS[m[2].toLowerCase().slice(0, 3)], Number(m[1])],
+    },
+    {
+      regex: new RegExp(`\\b(${MONTH_NAMES})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'i'),
+      parts: (m) => [Number(m[3]), MONTHS[m[1].toLowerCase().slice(0, 3)], Number(m[2])],
+    },
+  ];
+
+  let best: { index: number; end: number; year: number; month: number; day: number } | null = null;
+  for (const { regex, parts } of patterns) {
+    const match = text.match(regex);
+    if (!match || match.index === undefined) continue;
+    const [year, month, day] = parts(match);
+    if (!year || month < 1 || month > 12 || day < 1 || day > 31) continue;
+    if (!best || match.index < best.index) {
+      best = { index: match.index, end: match.index + match[0].length, year, month, day };
+    }
+  }
+
+  if (!best) {
+    return undefined;
+  }
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const date = `${best.year}-${pad(best.month)}-${pad(best.day)}`;
+
+  // Time must follow the date closely ("15 November 2026 at 11:00")
+  const afterDate = text.slice(best.end, best.end + 25);
+  const timeMatch = afterDate.match(/\b(\d{1,2})\s*(?:[:h]\s*(\d{2}))?\s*(am|pm)?\b/i);
+  if (timeMatch && (timeMatch[2] !== undefined || timeMatch[3] !== undefined)) {
+    let hour = Number(timeMatch[1]);
+    const minute = Number(timeMatch[2] ?? 0);
+    const meridiem = timeMatch[3]?.toLowerCase();
+    if (meridiem === 'pm' && hour < 12) hour += 12;
+    if (meridiem === 'am' && hour === 12) hour = 0;
+    if (hour <= 23 && minute <= 59) {
+      return `${date}T${pad(hour)}:${pad(minute)}`;
+    }
+  }
+
+  return date;
+}
+
+/**
+ * Build a regex matching any label for a field at the start of a string
+ */
+function labelRegex(field: LabelledField, requireSeparator: boolean): RegExp {
+  const labels = FIELD_LABELS[field].join('|');
+  const separator = requireSeparator ? '\\s*[:|–-]\\s*' : '\\s*[:|–-]?\\s*';
+  return new RegExp(`^(?:${labels})\\b\\.?${separator}(.*)$`, 'i');
+}
+
+/**
+ * Check whether a table header names a field
+ */
+function headerMatches(header: string, field: LabelledField): boolean {
+  const labels = FIELD_LABELS[field].join('|');
+  return new RegExp(`^(?:${labels})\\b`, 'i').test(header.trim());
+}
+
+/**
+ * Find the value for a labelled field in line-oriented text
+ * An empty value after the label takes the following line.
+ */
+function findLabelledValue(lines: string[], field: LabelledField): string | undefined {
+  const isDate = field === 'closingDate' || field === 'briefingDate';
+  const regex = labelRegex(field, !isDate);
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(regex);
+    if (!match) continue;
+
+    // First cell after the label (later cells belong to other columns)
+    let value = match[1].split(' | ')[0].trim();
+    if (!value && i + 1 < lines.length) {
+      value = lines[i + 1].split(' | ')[0].trim();
+    }
+    if (value) {
+      return value;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Clean a tender number value ("RFQ 12/2026 (Re-advert)" -> "RFQ 12/2026")
+ */
+function cleanTenderNumber(value: string): string | undefined {
+  const cleaned = value
+    .replace(/\(.*?\)/g, ' ')
+    .split(/\s{2,}|[;,]/)[0]
+    .replace(/[.:\s]+$/, '')
+    .trim();
+  return cleaned && /\d/.test(cleaned) && cleaned.length <= 60 ? cleaned : undefined;
+}
+
+/**
+ * Clean a contact person value ("Ms T. Mokoena, Tel: 012 ..." -> "T. Mokoena")
+ */
+function cleanContactPerson(value: string): string | undefined {
+  const cleaned = value
+    .split(/[,;|]|\b(?:tel(?:ephone)?|phone|cell|fax|e-?mail|at)\b|@|\+?\d{3}/i)[0]
+    .replace(/[:\-–\s]+$/, '')
+    .replace(/^(?:mr|mrs|ms|miss|dr|prof)\.?\s+/i, '')
+    .trim();
+  return cleaned && /[a-z]/i.test(cleaned) && cleaned.length <= 80 ? cleaned : undefined;
+}
+
+/**
+ * Remove undefined fields so merged notices keep earlier values
+ */
+function definedFields(notice: TenderNotice): TenderNotice {
+  return Object.fromEntries(
+    Object.entries(notice).filter(([, value]) => value !== undefined && value !== '')
+  ) as TenderNotice;
+}
+
+/**
+ * Merge two notices for the same tender
+ * Values in `primary` win; `secondary` fills the gaps.
+ */
+export function mergeTenderNotices(primary: TenderNotice, secondary: TenderNotice): TenderNotice {
+  return { ...definedFields(secondary), ...definedFields(primary) };
+}
+
+/**
+ * Parse a tender notice from line-oriented text
+ * Used for HTML notices (after htmlToText) and text extracted from PDF notices.
+ */
+export function parseTenderText(text: string): TenderNotice {
+  const lines = text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  const notice: TenderNotice = {};
+
+  const tenderNumber = findLabelledValue(lines, 'tenderNumber');
+  if (tenderNumber) {
+    notice.tenderNumber = cleanTenderNumber(tenderNumber);
+  }
+
+  notice.issuingOrgan =
+    findLabelledValue(lines, 'issuingOrgan') ??
+    lines.slice(0, 15).find((line) => ORGAN_PATTERN.test(line) && line.length <= 120 && !line.includes(' | '));
+
+  notice.commodityDescription =
+    findLabelledValue(lines, 'commodityDescription') ??
+    lines.find((line) => COMMODITY_PATTERN.test(line) && line.length <= 300);
+
+  const closing = findLabelledValue(lines, 'closingDate');
+  if (closing) {
+    notice.closingDateText = closing;
+    notice.closingDate = normaliseTenderDate(closing);
+  }
+
+  const briefing = findLabelledValue(lines, 'briefingDate');
+  if (briefing) {
+    notice.briefingDetails = briefing;
+    notice.briefingDate = normaliseTenderDate(briefing);
+  }
+
+  const contactLine = findLabelledValue(lines, 'contactPerson');
+  if (contactLine) {
+    notice.contactPerson = cleanContactPerson(contactLine);
+  }
+
+  // Prefer email/phone on the contact line, fall back to the whole notice
+  notice.contactEmail = (contactLine?.match(EMAIL_PATTERN) ?? text.match(EMAIL_PATTERN))?.[0].toLowerCase();
+  notice.contactPhone = (contactLine?.match(PHONE_PATTERN) ?? text.match(PHONE_PATTERN))?.[0].trim();
+
+  return definedFields(notice);
+}
+
+/**
+ * Parse a tender notice HTML page
+ */
+export function parseTenderNoticeHtml(html: string, pageUrl?: string): TenderNotice {
+  const notice = parseTenderText(htmlToText(html));
+  const documentUrls = pageUrl
+    ? extractLinks(html, pageUrl)
+        .filter((link) => /\.pdf(?:$|[?#])/i.test(link.href))
+        .map((link) => link.href)
+    : [];
+
+  return definedFields({
+    ...notice,
+    noticeUrl: pageUrl,
+    documentUrls: documentUrls.length > 0 ? Array.from(new Set(documentUrls)) : undefined,
+  });
+}
+
+/**
+ * Extract absolute http(s) links with their anchor text
+ */
+function extractLinks(html: string, baseUrl: string): Array<{ href: string; text: string }> {
+  const links: Array<{ href: string; text: string }> = [];
+  const anchorRegex = /<a\b[^>]*\bhref\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = anchorRegex.exec(html)) !== null) {
+    try {
+      const url = new URL(decodeEntities(match[1].trim()), baseUrl);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') continue;
+      url.hash = '';
+      links.push({
+        href: url.toString(),
+        text: decodeEntities(match[2].replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim(),
+      });
+    } catch {
+      // Ignore malformed hrefs
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Parse listing tables whose headers name tender fields
+ */
+function parseListingTables(html: string, pageUrl: string): TenderNotice[] {
+  const notices: TenderNotice[] = [];
+  const tableRegex = /<table\b[^>]*>([\s\S]*?)<\/table>/gi;
+  const rowRegex = /<tr\b[^>]*>([\s\S]*?)<\/tr>/gi;
+  const cellRegex = /<t[hd]\b[^>]*>([\s\S]*?)<\/t[hd]>/gi;
+  const cellText = (cell: string) => decodeEntities(cell.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+  let tableMatch: RegExpExecArray | null;
+  while ((tableMatch = tableRegex.exec(html)) !== null) {
+    const rows = Array.from(tableMatch[1].matchAll(rowRegex)).map((row) => ({
+      html: row[1],
+      cells: Array.from(row[1].matchAll(cellRegex)).map((cell) => cell[1]),
+    }));
+    if (rows.length < 2) continue;
+
+    // Map columns from the header row
+    const headers = rows[0].cells.map(cellText);
+    const columns: Partial<Record<LabelledField, number>> = {};
+    (Object.keys(FIELD_LABELS) as LabelledField[]).forEach((field) => {
+      const index = headers.findIndex((header) => headerMatches(header, field));
+      if (index >= 0) columns[field] = index;
+    });
+
+    const mappedCount = Object.keys(columns).length;
+    if (columns.tenderNumber === undefined && columns.commodityDescription === undefined) continue;
+    if (mappedCount < 2) continue;
+
+    for (const row of rows.slice(1)) {
+      const values = row.cells.map(cellText);
+      if (values.length === 0 || values.every((value) => !value)) continue;
+      const valueFor = (field: LabelledField) =>
+        columns[field] !== undefined ? values[columns[field]!] || undefined : undefined;
+
+      const links = extractLinks(row.html, pageUrl);
+      const closing = valueFor('closingDate');
+      const briefing = valueFor('briefingDate');
+      const contact = valueFor('contactPerson');
+      const tenderNumber = valueFor('tenderNumber');
+
+      notices.push(
+        definedFields({
+          tenderNumber: tenderNumber ? cleanTenderNumber(tenderNumber) : undefined,
+          issuingOrgan: valueFor('issuingOrgan'),
+          commodityDescription: valueFor('commodityDescription'),
+          closingDate: closing ? normaliseTenderDate(closing) : undefined,
+          closingDateText: closing,
+          briefingDate: briefing ? normaliseTenderDate(briefing) : undefined,
+          briefingDetails: briefing,
+          contactPerson: contact ? cleanContactPerson(contact) : undefined,
+          contactEmail: values.join(' ').match(EMAIL_PATTERN)?.[0].toLowerCase(),
+          contactPhone: values.join(' ').match(PHONE_PATTERN)?.[0].trim(),
+          noticeUrl: links[0]?.href,
+          documentUrls: links.length > 1 ? links.slice(1).map((link) => link.href) : undefined,
+        })
+      );
+    }
+  }
+
+  return notices;
+}
+
+/**
+ * Parse a tender listing page
+ *
+ * Rows of listing tables with recognisable headers (Tender No, Description,
+ * Closing Date, ...) become notices directly. Other links that look like
+ * tender notices (PDFs, "tender"/"bid"/"RFQ" links) are returned for fetching.
+ */
+export function parseTenderListing(html: string, pageUrl: string): TenderListing {
+  const notices = parseListingTables(html, pageUrl);
+  const covered = new Set<string>();
+  for (const notice of notices) {
+    if (notice.noticeUrl) covered.add(notice.noticeUrl);
+    notice.documentUrls?.forEach((url) => covered.add(url));
+  }
+
+  const noticeLinks: string[] = [];
+  for (const link of extractLinks(html, pageUrl)) {
+    if (covered.has(link.href) || noticeLinks.includes(link.href) || link.href === pageUrl) continue;
+    if (/\b(?:closed|awarded|cancelled|archived?)\b/i.test(link.text)) continue;
+    const isPdf = /\.pdf(?:$|[?#])/i.test(link.href);
+    const looksLikeNotice =
+      /\b(?:tender|bid|rfq|rfp|quotation|notice|advert)s?\b/i.test(link.text) ||
+      /(?:tender|bid|rfq|rfp|quotation)[-_/]?(?:no|notice|detail|\d)/i.test(link.href);
+    if (isPdf || looksLikeNotice) {
+      noticeLinks.push(link.href);
+    }
+  }
+
+  return { notices, noticeLinks };
+}
@@ -0,0 +1,225 @@
+/**
+ * Discovery Run Comparison
+ *
+ * Loads runs for the run diff ("what's new since last run") and tracks each
+ * intent's novelty rate: the share of a run's results that no earlier run of
+ * the same intent returned. A falling novelty rate means the intent's seed
+ * queries keep finding the same companies.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../prisma';
+import type { DiscoveryResult } from '../types';
+import { diffRunResults, indexRunResults, runNovelty, type RunDiff, type RunNovelty } from './runDiff';
+
+/** Statuses of runs whose results are compared */
+const COMPARABLE_STATUSES = ['completed', 'completed_with_errors'];
+
+/** Earlier runs of an intent checked when computing novelty */
+const NOVELTY_LOOKBACK_RUNS = 30;
+
+/** Novelty rate below which an intent's seed queries look exhausted */
+export const LOW_NOVELTY_RATE = 0.1;
+
+/**
+ * Run details shown next to a diff
+ */
+export interface ComparedRun {
+  id: string;
+  intentId: string | null;
+  intentName: string | null;
+  startedAt: Date;
+  dryRun: boolean;
+  resultCount: number;
+}
+
+export interface RunComparison {
+  success: boolean;
+  error?: string;
+  notFound?: boolean;
+  run?: ComparedRun;
+  /** Older run compared against (null when the run is the intent's first) */
+  baseRun?: ComparedRun | null;
+  diff?: RunDiff;
+}
+
+/**
+ * A point in an intent's novelty history
+ */
+export interface IntentNoveltyPoint {
+  runId: string;
+  startedAt: Date;
+  novelty: RunNovelty;
+}
+
+function storedResults(resultsJson: Prisma.JsonValue | null): DiscoveryResult[] {
+  return Array.isArray(resultsJson) ? (resultsJson as unknown as DiscoveryResult[]) : [];
+}
+
+function toComparedRun(run: {
+  id: string;
+  intentId: string | null;
+  intentName: string | null;
+  startedAt: Date;
+  dryRun: boolean;
+  resultsJson: Prisma.JsonValue | null;
+}): ComparedRun {
+  return {
+    id: run.id,
+    intentId: run.intentId,
+    intentName: run.intentName,
+    startedAt: run.startedAt,
+    dryRun: run.dryRun,
+    resultCount: storedResults(run.resultsJson).length,
+  };
+}
+
+const runSelect = {
+  id: true,
+  intentId: true,
+  intentName: true,
+  startedAt: true,
+  dryRun: true,
+  resultsJson: true,
+} as const;
+
+/**
+ * Latest earlier run of the same intent with stored results
+ */
+export async function findPreviousRun(run: { id: string; intentId: string | null; startedAt: Date }) {
+  if (!run.intentId) {
+    return null;
+  }
+  return prisma.discoveryRun.findFirst({
+    where: {
+      intentId: run.intentId,
+      id: { not: run.id },
+      startedAt: { lt: run.startedAt },
+      status: { in: COMPARABLE_STATUSES },
+      resultsJson: { not: Prisma.DbNull },
+    },
+    orderBy: { startedAt: 'desc' },
+    select: runSelect,
+  });
+}
+
+/**
+ * Runs a run can be compared against (other runs of the same intent, newest first)
+ */
+export async function listComparableRuns(run: { id: string; intentId: string | null }, limit = 20): Promise<ComparedRun[]> {
+  if (!run.intentId) {
+    return [];
+  }
+  const runs = await prisma.discoveryRun.findMany({
+    where: {
+      intentId: run.intentId,
+      id: { not: run.id },
+      status: { in: COMPARABLE_STATUSES },
+      resultsJson: { not: Prisma.DbNull },
+    },
+    orderBy: { startedAt: 'desc' },
+    take: limit,
+    select: runSelect,
+  });
+  return runs.map(toComparedRun);
+}
+
+/**
+ * Compare a run with another run, or with the previous run of its intent
+ */
+export async function compareRuns(runId: string, baseRunId?: string): Promise<RunComparison> {
+  const run = await prisma.discoveryRun.findUnique({ where: { id: runId }, select: runSelect });
+  if (!run) {
+    return { success: false, error: 'Discovery run not found', notFound: true };
+  }
+
+  let baseRun;
+  if (baseRunId) {
+    if (baseRunId === runId) {
+      return { success: false, error: 'Cannot compare a run with itself' };
+    }
+    baseRun = await prisma.discoveryRun.findUnique({ where: { id: baseRunId }, select: runSelect });
+    if (!baseRun) {
+      return { success: false, error: 'Base run not found', notFound: true };
+    }
+  } else {
+    baseRun = await findPreviousRun(run);
+  }
+
+  return {
+    success: true,
+    run: toComparedRun(run),
+    baseRun: baseRun ? toComparedRun(baseRun) : null,
+    diff: diffRunResults(storedResults(baseRun?.resultsJson ?? null), storedResults(run.resultsJson)),
+  };
+}
+
+/**
+ * Result keys returned by the latest earlier runs of an intent (null for
+ * runs without an intent)
+ */
+export async function loadSeenResultKeys(
+  intentId: string | null,
+  runId: string
+): Promise<{ keys: Set<string>; comparedRuns: number }> {
+  const earlierRuns = await prisma.discoveryRun.findMany({
+    where: {
+      intentId,
+      id: { not: runId },
+      status: { in: COMPARABLE_STATUSES },
+      resultsJson: { not: Prisma.DbNull },
+    },
+    orderBy: { startedAt: 'desc' },
+    take: NOVELTY_LOOKBACK_RUNS,
+    select: { resultsJson: true },
+  });
+
+  const keys = new Set<string>();
+  for (const earlier of earlierRuns) {
+    for (const key of indexRunResults(storedResults(earlier.resultsJson)).keys()) {
+      keys.add(key);
+    }
+  }
+
+  return { keys, comparedRuns: earlierRuns.length };
+}
+
+/**
+ * Novelty of a run's results against the intent's earlier runs
+ */
+export async function computeRunNovelty(
+  intentId: string,
+  runId: string,
+  results: DiscoveryResult[]
+): Promise<RunNovelty> {
+  const seen = await loadSeenResultKeys(intentId, runId);
+  return runNovelty(results, seen.keys, seen.comparedRuns);
+}
+
+/**
+ * Novelty rates of an intent's recent runs, newest first (from run stats)
+ */
+export async function getIntentNoveltyHistory(intentId: string, limit = 10): Promise<IntentNoveltyPoint[]> {
+  const runs = await prisma.discoveryRun.findMany({
+    where: { intentId, status: { in: COMPARABLE_STATUSES } },
+    orderBy: { startedAt: 'desc' },
+    take: limit,
+    select: { id: true, startedAt: true, stats: true },
+  });
+
+  return runs.flatMap((run) => {
+    const novelty = (run.stats as { novelty?: RunNovelty } | null)?.novelty;
+    return novelty ? [{ runId: run.id, startedAt: run.startedAt, novelty }] : [];
+  });
+}
+
+/**
+ * Average novelty rate of the latest runs (null without enough history)
+ */
+export function averageNoveltyRate(history: IntentNoveltyPoint[], runs = 3): number | null {
+  const latest = history.filter((point) => point.novelty.comparedRuns > 0).slice(0, runs);
+  if (latest.length < runs) {
+    return null;
+  }
+  return latest.reduce((sum, point) => sum + point.novelty.rate, 0) / latest.length;
+}
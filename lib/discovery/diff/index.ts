@@ -0,0 +1,26 @@
+/**
+ * Discovery Run Diff Module
+ *
+ * Run comparison ("what's new since last run") and per-intent novelty rates.
+ */
+
+export {
+  SCORE_CHANGE_THRESHOLD,
+  resultDiffKey,
+  indexRunResults,
+  diffRunResults,
+  runNovelty,
+} from './runDiff';
+export type { RunDiffEntry, RunScoreChange, RunDiff, RunNovelty } from './runDiff';
+
+export {
+  LOW_NOVELTY_RATE,
+  findPreviousRun,
+  listComparableRuns,
+  compareRuns,
+  loadSeenResultKeys,
+  computeRunNovelty,
+  getIntentNoveltyHistory,
+  averageNoveltyRate,
+} from './compareRuns';
+export type { ComparedRun, RunComparison, IntentNoveltyPoint } from './compareRuns';
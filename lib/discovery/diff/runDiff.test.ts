@@ -0,0 +1,137 @@
+/**
+ * Unit Tests for discovery run diffing and novelty
+ *
+ * Simple test runner compatible with repo conventions.
+ * Run with: tsx lib/discovery/diff/runDiff.test.ts
+ */
+
+import { diffRunResults, runNovelty } from './runDiff';
+import type { DiscoveryCompanyResult, DiscoveryContactResult } from '../types';
+
+// Simple assertion helper
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string): void {
+  if (actual !== expected) {
+    throw new Error(`Assertion failed: ${message}. Expected: ${expected}, Actual: ${actual}`);
+  }
+}
+
+function company(name: string, website: string | undefined, relevanceScore?: number): DiscoveryCompanyResult {
+  return {
+    type: 'company',
+    name,
+    website,
+    discoveryMetadata: {
+      discoverySource: 'google',
+      discoveryTimestamp: new Date(),
+      additionalMetadata: relevanceScore !== undefined ? { relevanceScore } : undefined,
+    },
+  };
+}
+
+function contact(name: string): DiscoveryContactResult {
+  return {
+    type: 'contact',
+    name,
+    discoveryMetadata: { discoverySource: 'linkedin', discoveryTimestamp: new Date() },
+  };
+}
+
+// Test cases
+function testDiffRunResults() {
+  console.log('Test 1: New, disappeared and re-scored domains');
+
+  const previous = [
+    company('Acme Events', 'https://www.acme.co.za', 60),
+    company('Old Venue', 'https://oldvenue.co.za', 70),
+    company('Steady Co', 'https://steady.co.za', 50),
+    contact('Jane Doe'),
+  ];
+  const current = [
+    company('Acme Events (Pty) Ltd', 'https://acme.co.za/about', 75),
+    company('Steady Co', 'https://steady.co.za', 52),
+    company('New Caterer', 'https://newcaterer.co.za', 80),
+    company('New Caterer again', 'https://newcaterer.co.za/contact', 40),
+    contact('jane doe'),
+  ];
+
+  const diff = diffRunResults(previous, current);
+
+  assertEqual(diff.added.length, 1, 'Only the new domain should be added (repeat domains count once)');
+  assertEqual(diff.added[0].domain, 'newcaterer.co.za', 'Added entry should carry its domain');
+  assertEqual(diff.added[0].index, 2, 'Added entry should point at its first result');
+  assertEqual(diff.removed.length, 1, 'One domain should have disappeared');
+  assertEqual(diff.removed[0].name, 'Old Venue', 'Disappeared entry should come from the older run');
+  assertEqual(diff.scoreChanges.length, 1, 'Only the change above the threshold should be reported');
+  assertEqual(diff.scoreChanges[0].delta, 15, 'Score change should be new minus old');
+  assertEqual(diff.unchangedCount, 3, 'Same domain with another URL or name, and same contact name, should match');
+  assertEqual(diff.totalCount, 4, 'Distinct results should be counted');
+  assert(Math.abs(diff.noveltyRate - 0.25) < 1e-9, `Novelty should be 1 of 4 (${diff.noveltyRate})`);
+
+  console.log('  ✅ Runs diffed by domain');
+}
+
+function testRunNovelty() {
+  console.log('Test 2: Novelty against earlier runs');
+
+  const results = [company('A', 'https://a.co.za'), company('B', 'https://b.co.za'), company('No Site', undefined)];
+
+  const first = runNovelty(results, new Set(), 0);
+  assertEqual(first.rate, 1, 'First run should be entirely new');
+
+  const later = runNovelty(results, new Set(['a.co.za', 'name:no site']), 4);
+  assertEqual(later.newCount, 1, 'Only the unseen domain should be new');
+  assertEqual(later.totalCount, 3, 'All distinct results should be counted');
+  assertEqual(later.comparedRuns, 4, 'Compared run count should be kept');
+
+  assertEqual(runNovelty([], new Set(), 2).rate, 0, 'A run without results should have no novelty');
+
+  console.log('  ✅ Novelty computed');
+}
+
+function runTests() {
+  console.log('='.repeat(60));
+  console.log('Discovery Run Diff Unit Tests');
+  console.log('='.repeat(60));
+  console.log('');
+
+  const tests = [
+    testDiffRunResults,
+    testRunNovelty,
+  ];
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const test of tests) {
+    try {
+      test();
+      passed++;
+      console.log('');
+    } catch (error) {
+      failed++;
+      console.error(`  ❌ Test failed: ${error instanceof Error ? error.message : String(error)}`);
+      console.log('');
+    }
+  }
+
+  console.log('='.repeat(60));
+  console.log(`Tests: ${passed} passed, ${failed} failed (total: ${tests.length})`);
+  console.log('='.repeat(60));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
@@ -0,0 +1,160 @@
+/**
+ * Discovery Run Diff
+ *
+ * Compares the results of two discovery runs by domain (results without a
+ * website fall back to their name):
+ * - added: in the newer run only
+ * - removed: in the older run only ("disappeared")
+ * - scoreChanges: in both runs, relevance score moved by SCORE_CHANGE_THRESHOLD or more
+ *
+ * Pure functions (no database access); see compareRuns.ts for loading runs.
+ */
+
+import { discoveryResultDomain } from '../domains';
+import type { DiscoveryResult } from '../types';
+
+/** Smallest relevance score change reported */
+export const SCORE_CHANGE_THRESHOLD = 5;
+
+/**
+ * A result in a run diff
+ */
+export interface RunDiffEntry {
+  /** Domain, or "name:<name>" for results without a website */
+  key: string;
+  domain: string | null;
+  name: string;
+  /** Position in the run's resultsJson */
+  index: number;
+  score?: number;
+}
+
+export interface RunScoreChange extends RunDiffEntry {
+  previousScore: number;
+  /** Position in the older run's resultsJson */
+  previousIndex: number;
+  delta: number;
+}
+
+export interface RunDiff {
+  added: RunDiffEntry[];
+  removed: RunDiffEntry[];
+  scoreChanges: RunScoreChange[];
+  /** Results in both runs (including score changes) */
+  unchangedCount: number;
+  /** Distinct results in the newer run */
+  totalCount: number;
+  /** Share of the newer run's results not in the older run (0-1) */
+  noveltyRate: number;
+}
+
+/**
+ * Novelty of a run against every earlier run of its intent (stored in run stats)
+ */
+export interface RunNovelty {
+  /** Results not seen in any earlier run of the intent */
+  newCount: number;
+  totalCount: number;
+  /** newCount / totalCount (0-1); 1 for the intent's first run */
+  rate: number;
+  /** Earlier runs compared against */
+  comparedRuns: number;
+}
+
+/**
+ * Display name of a result (company name, or the contact's name)
+ */
+function resultName(result: DiscoveryResult): string {
+  if (result.type === 'lead') {
+    return result.company?.name || result.contact?.name || 'Unnamed result';
+  }
+  return result.name || 'Unnamed result';
+}
+
+/**
+ * Relevance score recorded by the channel, if any
+ */
+function resultScore(result: DiscoveryResult): number | undefined {
+  const metadata = result.type === 'lead' ? result.company?.discoveryMetadata : result.discoveryMetadata;
+  const score = metadata?.additionalMetadata?.relevanceScore;
+  return typeof score === 'number' ? score : undefined;
+}
+
+/**
+ * Key a result is compared by (canonical domain, else lower-cased name)
+ */
+export function resultDiffKey(result: DiscoveryResult): string {
+  return discoveryResultDomain(result) ?? `name:${resultName(result).trim().toLowerCase()}`;
+}
+
+/**
+ * Distinct results of a run by key (first occurrence wins)
+ */
+export function indexRunResults(results: DiscoveryResult[]): Map<string, RunDiffEntry> {
+  const entries = new Map<string, RunDiffEntry>();
+  results.forEach((result, index) => {
+    const key = resultDiffKey(result);
+    if (!entries.has(key)) {
+      entries.set(key, {
+        key,
+        domain: discoveryResultDomain(result),
+        name: resultName(result),
+        index,
+        score: resultScore(result),
+      });
+    }
+  });
+  return entries;
+}
+
+/**
+ * Diff an older run's results against a newer run's results
+ */
+export function diffRunResults(previous: DiscoveryResult[], current: DiscoveryResult[]): RunDiff {
+  const before = indexRunResults(previous);
+  const after = indexRunResults(current);
+
+  const added: RunDiffEntry[] = [];
+  const scoreChanges: RunScoreChange[] = [];
+  let unchangedCount = 0;
+
+  for (const entry of after.values()) {
+    const earlier = before.get(entry.key);
+    if (!earlier) {
+      added.push(entry);
+      continue;
+    }
+    unchangedCount++;
+    if (entry.score !== undefined && earlier.score !== undefined) {
+      const delta = entry.score - earlier.score;
+      if (Math.abs(delta) >= SCORE_CHANGE_THRESHOLD) {
+        scoreChanges.push({ ...entry, previousScore: earlier.score, previousIndex: earlier.index, delta });
+      }
+    }
+  }
+
+  const removed = [...before.values()].filter((entry) => !after.has(entry.key));
+
+  return {
+    added: added.sort((a, b) => (b.score ?? 0) - (a.score ?? 0)),
+    removed: removed.sort((a, b) => (b.score ?? 0) - (a.score ?? 0)),
+    scoreChanges: scoreChanges.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta)),
+    unchangedCount,
+    totalCount: after.size,
+    noveltyRate: after.size > 0 ? added.length / after.size : 0,
+  };
+}
+
+/**
+ * Novelty of a run's results against the keys seen in earlier runs
+ */
+export function runNovelty(current: DiscoveryResult[], seenKeys: Set<string>, comparedRuns: number): RunNovelty {
+  const keys = [...indexRunResults(current).keys()];
+  const newCount = keys.filter((key) => !seenKeys.has(key)).length;
+  return {
+    newCount,
+    totalCount: keys.length,
+    rate: keys.length > 0 ? newCount / keys.length : 0,
+    comparedRuns,
+  };
+}
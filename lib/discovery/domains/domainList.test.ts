@@ -0,0 +1,121 @@
+/**
+ * Unit Tests for the discovery domain list (matching, skipping, hit counts)
+ *
+ * Simple test runner compatible with repo conventions.
+ * Run with: tsx lib/discovery/domains/domainList.test.ts
+ */
+
+import { matchDomainList, filterListedResults, mergeDomainListHits, type DomainList } from './domainList';
+import type { DiscoveryCompanyResult } from '../types';
+
+// Simple assertion helper
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string): void {
+  if (actual !== expected) {
+    throw new Error(`Assertion failed: ${message}. Expected: ${expected}, Actual: ${actual}`);
+  }
+}
+
+const list: DomainList = new Map([
+  ['yellowpages.co.za', 'block'],
+  ['rival.co.za', 'competitor'],
+  ['shop.rival.co.za', 'allow'],
+  ['client.com', 'customer'],
+]);
+
+function company(name: string, website?: string): DiscoveryCompanyResult {
+  return {
+    type: 'company',
+    name,
+    website,
+    discoveryMetadata: { discoverySource: 'google', discoveryTimestamp: new Date() },
+  };
+}
+
+// Test cases
+function testMatchDomainList() {
+  console.log('Test 1: Matching URLs, subdomains and the most specific entry');
+
+  assertEqual(matchDomainList('https://www.yellowpages.co.za/listing/123', list)?.listType, 'block', 'URL should match its domain');
+  assertEqual(matchDomainList('https://events.client.com', list)?.domain, 'client.com', 'Subdomain should match the parent entry');
+  assertEqual(matchDomainList('shop.rival.co.za', list)?.listType, 'allow', 'Most specific entry should win');
+  assertEqual(matchDomainList('https://rival.co.za', list)?.listType, 'competitor', 'Parent entry should still apply to itself');
+  assertEqual(matchDomainList('https://notrival.co.za', list), null, 'Similar domains should not match');
+  assertEqual(matchDomainList(undefined, list), null, 'Missing website should not match');
+
+  console.log('  ✅ Domains matched');
+}
+
+function testFilterListedResults() {
+  console.log('Test 2: Skipping listed results and counting hits');
+
+  const filtered = filterListedResults(
+    [
+      company('Yellow Pages', 'https://www.yellowpages.co.za/a'),
+      company('Yellow Pages B', 'https://yellowpages.co.za/b'),
+      company('Rival Shop', 'https://shop.rival.co.za'),
+      company('Existing Client', 'https://client.com'),
+      company('New Prospect', 'https://prospect.co.za'),
+      company('No Website'),
+    ],
+    list
+  );
+
+  assertEqual(filtered.results.length, 3, 'Allowed, unlisted and website-less results should be kept');
+  assert(filtered.results.some((result) => result.name === 'Rival Shop'), 'Allow-listed subdomain should be kept');
+  assertEqual(filtered.hits['yellowpages.co.za']?.count, 2, 'Both blocked results should be counted');
+  assertEqual(filtered.hits['client.com']?.listType, 'customer', 'Customer hit should keep its list type');
+  assertEqual(filtered.hits['shop.rival.co.za'], undefined, 'Kept results should not be counted as skipped');
+
+  const merged = mergeDomainListHits({ 'yellowpages.co.za': { listType: 'block', count: 3 } }, filtered.hits);
+  assertEqual(merged['yellowpages.co.za'].count, 5, 'Hits from both stages should be added');
+
+  console.log('  ✅ Listed results skipped and counted');
+}
+
+function runTests() {
+  console.log('='.repeat(60));
+  console.log('Discovery Domain List Unit Tests');
+  console.log('='.repeat(60));
+  console.log('');
+
+  const tests = [
+    testMatchDomainList,
+    testFilterListedResults,
+  ];
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const test of tests) {
+    try {
+      test();
+      passed++;
+      console.log('');
+    } catch (error) {
+      failed++;
+      console.error(`  ❌ Test failed: ${error instanceof Error ? error.message : String(error)}`);
+      console.log('');
+    }
+  }
+
+  console.log('='.repeat(60));
+  console.log(`Tests: ${passed} passed, ${failed} failed (total: ${tests.length})`);
+  console.log('='.repeat(60));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
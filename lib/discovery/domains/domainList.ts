@@ -0,0 +1,241 @@
+/**
+ * Discovery Domain List
+ *
+ * Managed list of domains (discovery_domain_list) checked by discovery:
+ * - block: directories, news sites and other non-company sites
+ * - competitor: competitors (never created as leads)
+ * - customer: existing customers (already in the CRM)
+ * - allow: always kept, even when URL filtering or relevance scoring would
+ *   drop them
+ *
+ * Block, competitor and customer domains are skipped by the google channel
+ * before scraping, by the runner before storing results and by
+ * persistDiscoveryResults before creating records. A listed domain also
+ * covers its subdomains. Hits are counted per run and on the entry.
+ *
+ * Entries are managed on /dashboard/discovery/domains and added from the
+ * result review queue and the run results page ("block this domain").
+ */
+
+import type { DiscoveryDomainEntry } from '@prisma/client';
+import { prisma } from '../../prisma';
+import { canonicalDomain } from '../../companies';
+import type { DiscoveryResult } from '../types';
+
+export const DOMAIN_LIST_TYPES = ['block', 'allow', 'competitor', 'customer'] as const;
+
+export type DomainListType = (typeof DOMAIN_LIST_TYPES)[number];
+
+/**
+ * List types whose domains discovery skips
+ */
+export const SKIPPED_LIST_TYPES: DomainListType[] = ['block', 'competitor', 'customer'];
+
+/**
+ * Listed domains (canonical) and their list type, loaded once per run
+ */
+export type DomainList = Map<string, DomainListType>;
+
+/**
+ * A domain matched against the list
+ */
+export interface DomainListMatch {
+  /** Listed domain (the matched domain or one of its parents) */
+  domain: string;
+  listType: DomainListType;
+}
+
+/**
+ * Hits per listed domain during a run (for run stats)
+ */
+export type DomainListHits = Record<string, { listType: DomainListType; count: number }>;
+
+export interface DomainEntryInput {
+  /** Domain or URL (canonicalised before saving) */
+  domain: string;
+  listType?: DomainListType;
+  reason?: string | null;
+  source?: 'review' | 'manual' | 'run';
+  runId?: string | null;
+  createdById?: string | null;
+}
+
+export interface DomainEntryResult {
+  success: boolean;
+  domain?: string;
+  error?: string;
+}
+
+/**
+ * Canonical domain of a discovery result (the company website), if any
+ *
+ * Accepts results as stored in resultsJson as well as in-memory results.
+ */
+export function discoveryResultDomain(result: DiscoveryResult): string | null {
+  if (result.type === 'company') {
+    return canonicalDomain(result.website);
+  }
+  if (result.type === 'lead') {
+    return canonicalDomain(result.company?.website);
+  }
+  return null;
+}
+
+/**
+ * Find the entry covering a domain or URL (most specific entry wins)
+ */
+export function matchDomainList(domainOrUrl: string | null | undefined, list: DomainList): DomainListMatch | null {
+  const domain = canonicalDomain(domainOrUrl);
+  if (!domain || list.size === 0) {
+    return null;
+  }
+  const labels = domain.split('.');
+  for (let i = 0; i < labels.length - 1; i++) {
+    const candidate = labels.slice(i).join('.');
+    const listType = list.get(candidate);
+    if (listType) {
+      return { domain: candidate, listType };
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether discovery skips matches of this list type
+ */
+export function isSkippedListType(listType: DomainListType): boolean {
+  return SKIPPED_LIST_TYPES.includes(listType);
+}
+
+/**
+ * Count a hit on a listed domain
+ */
+export function recordDomainListHit(hits: DomainListHits, match: DomainListMatch): void {
+  const existing = hits[match.domain];
+  hits[match.domain] = { listType: match.listType, count: (existing?.count ?? 0) + 1 };
+}
+
+/**
+ * Add the hits of one run stage to another
+ */
+export function mergeDomainListHits(target: DomainListHits, source: DomainListHits | undefined): DomainListHits {
+  for (const [domain, hit] of Object.entries(source ?? {})) {
+    const existing = target[domain];
+    target[domain] = { listType: hit.listType, count: (existing?.count ?? 0) + hit.count };
+  }
+  return target;
+}
+
+/**
+ * Load every listed domain
+ */
+export async function loadDomainList(): Promise<DomainList> {
+  const entries = await prisma.discoveryDomainEntry.findMany({
+    select: { domain: true, listType: true },
+  });
+  return new Map(
+    entries
+      .filter((entry) => (DOMAIN_LIST_TYPES as readonly string[]).includes(entry.listType))
+      .map((entry) => [entry.domain, entry.listType as DomainListType])
+  );
+}
+
+/**
+ * Drop results whose website is on a skipped list (block, competitor, customer)
+ */
+export function filterListedResults<T extends DiscoveryResult>(
+  results: T[],
+  list: DomainList
+): { results: T[]; hits: DomainListHits } {
+  const hits: DomainListHits = {};
+  const kept = results.filter((result) => {
+    const match = matchDomainList(discoveryResultDomain(result), list);
+    if (match && isSkippedListType(match.listType)) {
+      recordDomainListHit(hits, match);
+      return false;
+    }
+    return true;
+  });
+  return { results: kept, hits };
+}
+
+/**
+ * Add a run's hits to the entries' hit counts
+ */
+export async function recordDomainListHits(hits: DomainListHits): Promise<void> {
+  const now = new Date();
+  for (const [domain, hit] of Object.entries(hits)) {
+    await prisma.discoveryDomainEntry.updateMany({
+      where: { domain },
+      data: { hitCount: { increment: hit.count }, lastHitAt: now },
+    });
+  }
+}
+
+/**
+ * Add a domain to the list, or move it to another list type
+ */
+export async function saveDomainEntry(input: DomainEntryInput): Promise<DomainEntryResult> {
+  const domain = canonicalDomain(input.domain);
+  if (!domain) {
+    return { success: false, error: `Not a valid domain: "${input.domain}"` };
+  }
+  const listType = input.listType ?? 'block';
+
+  await prisma.discoveryDomainEntry.upsert({
+    where: { domain },
+    create: {
+      domain,
+      listType,
+      reason: input.reason || null,
+      source: input.source ?? 'manual',
+      runId: input.runId ?? null,
+      createdById: input.createdById ?? null,
+    },
+    update: {
+      listType,
+      ...(input.reason ? { reason: input.reason } : {}),
+    },
+  });
+
+  return { success: true, domain };
+}
+
+/**
+ * Add a domain to the block list
+ */
+export async function blockDomain(input: Omit<DomainEntryInput, 'listType'>): Promise<DomainEntryResult> {
+  return saveDomainEntry({ ...input, listType: 'block' });
+}
+
+/**
+ * Listed domains, most hits first
+ */
+export async function listDomainEntries(listType?: DomainListType): Promise<DiscoveryDomainEntry[]> {
+  return prisma.discoveryDomainEntry.findMany({
+    where: listType ? { listType } : undefined,
+    orderBy: [{ hitCount: 'desc' }, { domain: 'asc' }],
+  });
+}
+
+/**
+ * Change an entry's list type or reason
+ */
+export async function updateDomainEntry(
+  id: string,
+  data: { listType?: DomainListType; reason?: string | null }
+): Promise<DiscoveryDomainEntry | null> {
+  const existing = await prisma.discoveryDomainEntry.findUnique({ where: { id } });
+  if (!existing) {
+    return null;
+  }
+  return prisma.discoveryDomainEntry.update({ where: { id }, data });
+}
+
+/**
+ * Remove an entry (discovery no longer checks the domain)
+ */
+export async function deleteDomainEntry(id: string): Promise<boolean> {
+  const result = await prisma.discoveryDomainEntry.deleteMany({ where: { id } });
+  return result.count > 0;
+}
@@ -0,0 +1,35 @@
+/**
+ * Discovery Domains Module
+ *
+ * Managed block / allow / competitor / customer domain list checked by
+ * discovery before scraping, storing and creating records.
+ */
+
+export {
+  DOMAIN_LIST_TYPES,
+  SKIPPED_LIST_TYPES,
+  discoveryResultDomain,
+  matchDomainList,
+  isSkippedListType,
+  recordDomainListHit,
+  mergeDomainListHits,
+  loadDomainList,
+  filterListedResults,
+  recordDomainListHits,
+  saveDomainEntry,
+  blockDomain,
+  listDomainEntries,
+  updateDomainEntry,
+  deleteDomainEntry,
+} from './domainList';
+export type {
+  DomainListType,
+  DomainList,
+  DomainListMatch,
+  DomainListHits,
+  DomainEntryInput,
+  DomainEntryResult,
+} from './domainList';
+
+export { domainEntryCreateSchema, domainEntryUpdateSchema } from './validation';
+export type { DomainEntryCreateRequest, DomainEntryUpdateRequest } from './validation';
@@ -0,0 +1,31 @@
+/**
+ * Discovery Domain List - Request validation
+ */
+
+import { z } from 'zod';
+import { DOMAIN_LIST_TYPES } from './domainList';
+
+/**
+ * Body of POST /api/discovery/domains
+ */
+export const domainEntryCreateSchema = z.object({
+  domain: z.string().trim().min(1, 'A domain is required').max(255),
+  listType: z.enum(DOMAIN_LIST_TYPES).default('block'),
+  reason: z.string().trim().max(500).optional(),
+  runId: z.string().optional(),
+});
+
+/**
+ * Body of PATCH /api/discovery/domains/[id]
+ */
+export const domainEntryUpdateSchema = z
+  .object({
+    listType: z.enum(DOMAIN_LIST_TYPES).optional(),
+    reason: z.string().trim().max(500).nullable().optional(),
+  })
+  .refine((data) => data.listType !== undefined || data.reason !== undefined, {
+    message: 'Nothing to update',
+  });
+
+export type DomainEntryCreateRequest = z.infer<typeof domainEntryCreateSchema>;
+export type DomainEntryUpdateRequest = z.infer<typeof domainEntryUpdateSchema>;
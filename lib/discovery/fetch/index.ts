@@ -0,0 +1,21 @@
+/**
+ * Discovery Fetch Module
+ *
+ * Polite shared HTTP fetch (robots.txt, crawl delay, per-host concurrency,
+ * 429/503 backoff) for reading third-party websites.
+ */
+
+export {
+  politeFetch,
+  getUserAgent,
+  countBlockedFetches,
+  resetPoliteFetchState,
+} from './politeFetch';
+export type {
+  BlockedFetch,
+  BlockedReason,
+  PoliteFetchOptions,
+  PoliteFetchResult,
+} from './politeFetch';
+export { parseRobotsTxt, isAllowedByRobots, ALLOW_ALL } from './robotsTxt';
+export type { RobotsRule, RobotsRules } from './robotsTxt';
@@ -0,0 +1,263 @@
+/**
+ * Unit Tests for robots.txt parsing and the polite fetch layer
+ *
+ * Fetch tests run against a local HTTP server (no external network access).
+ * Simple test runner compatible with repo conventions.
+ * Run with: tsx lib/discovery/fetch/politeFetch.test.ts
+ */
+
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { isAllowedByRobots, parseRobotsTxt } from './robotsTxt';
+import { countBlockedFetches, politeFetch, resetPoliteFetchState } from './politeFetch';
+
+// Simple assertion helper
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string): void {
+  if (actual !== expected) {
+    throw new Error(`Assertion failed: ${message}. Expected: ${expected}, Actual: ${actual}`);
+  }
+}
+
+const ROBOTS_TXT = `
+# Example robots.txt
+User-agent: *
+Disallow: /private/
+Disallow: /*.pdf$
+Allow: /private/press/
+Crawl-delay: 0.2
+
+User-agent: BadBot
+User-agent: CCSLeadAgentBot
+Disallow: /members
+`;
+
+/**
+ * Start a local server; handler returns [status, body, headers]
+ */
+async function startServer(
+  handler: (path: string) => [number, string, Record<string, string>?]
+): Promise<{ server: Server; baseUrl: string }> {
+  const server = createServer((req, res) => {
+    const [status, body, headers] = handler(req.url || '/');
+    res.writeHead(status, { 'content-type': 'text/html', ...headers });
+    res.end(body);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return { server, baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+}
+
+function testRobotsParsing() {
+  console.log('Test 1: robots.txt groups, wildcards and precedence');
+
+  const generic = parseRobotsTxt(ROBOTS_TXT, 'SomeOtherBot');
+  assertEqual(generic.crawlDelay, 0.2, 'Crawl-delay read from the * group');
+  assert(!isAllowedByRobots(generic, 'https://acme.co.za/private/team'), '/private/ disallowed');
+  assert(isAllowedByRobots(generic, 'https://acme.co.za/private/press/2026'), 'Longer Allow wins');
+  assert(!isAllowedByRobots(generic, 'https://acme.co.za/docs/profile.pdf'), '$ anchors the wildcard rule');
+  assert(isAllowedByRobots(generic, 'https://acme.co.za/docs/profile.pdf?v=2'), '$ does not match with a query');
+  assert(isAllowedByRobots(generic, 'https://acme.co.za/members'), '* group does not have the /members rule');
+
+  const ours = parseRobotsTxt(ROBOTS_TXT, 'CCSLeadAgentBot');
+  assertEqual(ours.crawlDelay, undefined, 'Our own group has no crawl delay');
+  assert(!isAllowedByRobots(ours, 'https://acme.co.za/members/list'), 'Our group (shared user-agent lines) applies');
+  assert(isAllowedByRobots(ours, 'https://acme.co.za/private/team'), 'The * group is ignored when ours exists');
+
+  const empty = parseRobotsTxt('User-agent: *\nDisallow:\n', 'CCSLeadAgentBot');
+  assert(isAllowedByRobots(empty, 'https://acme.co.za/anything'), 'Empty Disallow allows everything');
+
+  console.log('  ✅ Groups, wildcards and longest-match precedence handled');
+}
+
+async function testDisallowedUrlsAreBlocked() {
+  console.log('Test 2: Disallowed URLs are not fetched');
+  resetPoliteFetchState();
+  process.env.DISCOVERY_CRAWL_DELAY_MS = '0';
+
+  const requested: string[] = [];
+  const { server, baseUrl } = await startServer((path) => {
+    requested.push(path);
+    if (path === '/robots.txt') return [200, 'User-agent: *\nDisallow: /private/', { 'content-type': 'text/plain' }];
+    return [200, '<html><title>ok</title></html>'];
+  });
+
+  try {
+    const allowed = await politeFetch(`${baseUrl}/about`);
+    assert(allowed.success && allowed.response.ok, 'Allowed URL fetched');
+
+    const blocked = await politeFetch(`${baseUrl}/private/contact`);
+    assert(!blocked.success, 'Disallowed URL not fetched');
+    assertEqual(!blocked.success && blocked.blocked.reason, 'robots_disallowed', 'Blocked reason');
+    assert(!requested.includes('/private/contact'), 'No request sent for the disallowed URL');
+    assertEqual(requested.filter((path) => path === '/robots.txt').length, 1, 'robots.txt fetched once (cached)');
+
+    const counts = countBlockedFetches(!blocked.success ? [blocked.blocked] : []);
+    assertEqual(counts?.robots_disallowed, 1, 'Blocked URLs counted by reason');
+  } finally {
+    server.close();
+  }
+
+  console.log('  ✅ Disallowed URL reported as blocked, robots.txt cached');
+}
+
+async function testRetriesOn429() {
+  console.log('Test 3: 429 retried with Retry-After, then reported');
+  resetPoliteFetchState();
+  process.env.DISCOVERY_CRAWL_DELAY_MS = '0';
+
+  let attempts = 0;
+  const { server, baseUrl } = await startServer((path) => {
+    if (path === '/robots.txt') return [404, ''];
+    if (path === '/busy') return [429, 'Too many', { 'retry-after': '0' }];
+    attempts++;
+    return attempts < 2 ? [503, 'Busy', { 'retry-after': '0' }] : [200, '<html>ok</html>'];
+  });
+
+  try {
+    const recovered = await politeFetch(`${baseUrl}/services`);
+    assert(recovered.success && recovered.response.ok, '503 retried until success');
+    assertEqual(attempts, 2, 'Second attempt succeeded');
+
+    const limited = await politeFetch(`${baseUrl}/busy`, { maxRetries: 1 });
+    assert(!limited.success, 'Persistent 429 reported as blocked');
+    assertEqual(!limited.success && limited.blocked.reason, 'rate_limited', 'Blocked reason');
+    assertEqual(!limited.success && limited.blocked.status, 429, 'Final status recorded');
+  } finally {
+    server.close();
+  }
+
+  console.log('  ✅ 503 retried; persistent 429 reported as rate_limited');
+}
+
+async function testCrawlDelay() {
+  console.log('Test 4: Requests to one host are spaced by the crawl delay');
+  resetPoliteFetchState();
+  process.env.DISCOVERY_CRAWL_DELAY_MS = '150';
+
+  const { server, baseUrl } = await startServer((path) =>
+    path === '/robots.txt' ? [404, ''] : [200, '<html>ok</html>']
+  );
+
+  try {
+    const start = Date.now();
+    await Promise.all([politeFetch(`${baseUrl}/a`), politeFetch(`${baseUrl}/b`), politeFetch(`${baseUrl}/c`)]);
+    const elapsed = Date.now() - start;
+    assert(elapsed >= 300, `Three requests took at least two delays (${elapsed}ms)`);
+  } finally {
+    server.close();
+    delete process.env.DISCOVERY_CRAWL_DELAY_MS;
+  }
+
+  console.log('  ✅ Per-host crawl delay applied');
+}
+
+async function testBodyByteLimit() {
+  console.log('Test 5: Response body read up to a byte limit');
+  resetPoliteFetchState();
+  process.env.DISCOVERY_CRAWL_DELAY_MS = '0';
+
+  const large = `<html>${'é'.repeat(200000)}</html>`;
+  const { server, baseUrl } = await startServer((path) =>
+    path === '/robots.txt' ? [404, ''] : path === '/large' ? [200, large] : [200, '<html>ok</html>']
+  );
+
+  try {
+    const limited = await politeFetch(`${baseUrl}/large`, { maxBytes: 1000 });
+    assert(limited.success, 'Large page fetched');
+    assertEqual(limited.success && limited.body.length, 1000, 'Body cut off at the byte limit');
+    assertEqual(limited.success && limited.truncated, true, 'Cut-off body reported as truncated');
+
+    const whole = await politeFetch(`${baseUrl}/small`, { maxBytes: 15 });
+    assertEqual(whole.success && whole.body.toString('utf8'), '<html>ok</html>', 'Body of exactly the limit read whole');
+    assertEqual(whole.success && whole.truncated, false, 'Whole body not reported as truncated');
+  } finally {
+    server.close();
+    delete process.env.DISCOVERY_CRAWL_DELAY_MS;
+  }
+
+  console.log('  ✅ Body reading stops at the byte limit');
+}
+
+async function testHostSlotHeldWhileReading() {
+  console.log('Test 6: Host slot held until the body is read');
+  resetPoliteFetchState();
+  process.env.DISCOVERY_CRAWL_DELAY_MS = '0';
+
+  // Headers at once, body 150ms later
+  const server = createServer((req, res) => {
+    if (req.url === '/robots.txt') {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+    res.writeHead(200, { 'content-type': 'text/html' });
+    res.write('<html>');
+    setTimeout(() => res.end('ok</html>'), 150);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  try {
+    const start = Date.now();
+    const results = await Promise.all([politeFetch(`${baseUrl}/a`), politeFetch(`${baseUrl}/b`)]);
+    const elapsed = Date.now() - start;
+    assert(results.every((result) => result.success && result.body.toString() === '<html>ok</html>'), 'Bodies read');
+    assert(elapsed >= 300, `Second download waited for the first (${elapsed}ms)`);
+  } finally {
+    server.close();
+    delete process.env.DISCOVERY_CRAWL_DELAY_MS;
+  }
+
+  console.log('  ✅ Per-host concurrency covers the body download');
+}
+
+async function runTests() {
+  console.log('='.repeat(60));
+  console.log('Discovery Fetch: robots.txt and Politeness Unit Tests');
+  console.log('='.repeat(60));
+  console.log('');
+
+  const tests: Array<() => void | Promise<void>> = [
+    testRobotsParsing,
+    testDisallowedUrlsAreBlocked,
+    testRetriesOn429,
+    testCrawlDelay,
+    testBodyByteLimit,
+    testHostSlotHeldWhileReading,
+  ];
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const test of tests) {
+    try {
+      await test();
+      passed++;
+      console.log('');
+    } catch (error) {
+      failed++;
+      console.error(`  ❌ Test failed: ${error instanceof Error ? error.message : String(error)}`);
+      console.log('');
+    }
+  }
+
+  console.log('='.repeat(60));
+  console.log(`Tests: ${passed} passed, ${failed} failed (total: ${tests.length})`);
+  console.log('='.repeat(60));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
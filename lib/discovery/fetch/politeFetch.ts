@@ -0,0 +1,319 @@
+/**
+ * Polite Fetch Layer for Discovery
+ *
+ * Shared HTTP fetch used by everything that reads third-party websites
+ * (WebScraper / SiteCrawler, WebsiteSignalExtractor, WebsiteEnricher and the
+ * tender, social and exhibitor list fetchers):
+ * - Identifies as DISCOVERY_USER_AGENT
+ * - Reads, caches (24h) and honours robots.txt, including Crawl-delay
+ * - Spaces requests to the same host (DISCOVERY_CRAWL_DELAY_MS) and caps
+ *   concurrent requests per host (DISCOVERY_MAX_CONCURRENCY_PER_DOMAIN);
+ *   the body is read before the host slot is released
+ * - Retries 429 / 503 responses with backoff (Retry-After when given)
+ *
+ * Disallowed and rate-limited URLs are returned as `blocked` results so
+ * callers can report them (DiscoveryRunStats.blockedUrls).
+ * Robots cache and per-host state are process-wide.
+ */
+
+import { ALLOW_ALL, isAllowedByRobots, parseRobotsTxt, type RobotsRules } from './robotsTxt';
+
+/**
+ * Why a URL was not fetched
+ */
+export type BlockedReason =
+  | 'robots_disallowed' // Disallowed by the site's robots.txt
+  | 'rate_limited'      // Still 429 after retries
+  | 'unavailable';      // Still 503 after retries
+
+/**
+ * URL that was not fetched (reported in run stats)
+ */
+export interface BlockedFetch {
+  url: string;
+  reason: BlockedReason;
+  /** Final HTTP status (rate_limited / unavailable) */
+  status?: number;
+}
+
+export interface PoliteFetchOptions {
+  /** Timeout per attempt in milliseconds (default: 10000) */
+  timeout?: number;
+  /** Accept header (default: HTML) */
+  accept?: string;
+  /** Whether to follow redirects (default: true) */
+  followRedirects?: boolean;
+  /** Retries after a 429 / 503 response (default: 2) */
+  maxRetries?: number;
+  /** Body bytes read; the rest is not downloaded (default: 10MB) */
+  maxBytes?: number;
+}
+
+/**
+ * The response body is already read: use body, not response.text()
+ */
+export type PoliteFetchResult =
+  | { success: true; response: Response; body: Buffer; truncated: boolean }
+  | { success: false; blocked: BlockedFetch; error: string };
+
+/** Robots cache lifetime */
+const ROBOTS_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** robots.txt that failed to load (network / 5xx) is retried sooner */
+const ROBOTS_ERROR_TTL_MS = 60 * 60 * 1000;
+
+/** Upper bound for Crawl-delay and Retry-After waits */
+const MAX_WAIT_MS = 30000;
+
+const DEFAULT_USER_AGENT = 'Mozilla/5.0 (compatible; CCSLeadAgentBot/1.0)';
+
+const DEFAULT_MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+const robotsCache = new Map<string, { robots: RobotsRules; expiresAt: number; pending?: Promise<RobotsRules> }>();
+const hostState = new Map<string, { active: number; nextStartAt: number }>();
+
+/**
+ * User-Agent sent with every request
+ */
+export function getUserAgent(): string {
+  return process.env.DISCOVERY_USER_AGENT?.trim() || DEFAULT_USER_AGENT;
+}
+
+/**
+ * Product token matched against robots.txt user-agent lines ("CCSLeadAgentBot")
+ */
+function getUserAgentToken(userAgent: string): string {
+  const compatible = userAgent.match(/compatible;\s*([^/;\s)]+)/i);
+  return (compatible?.[1] ?? userAgent.split(/[/\s]/)[0]) || '*';
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Load robots.txt for an origin (cached; concurrent callers share one request)
+ *
+ * A missing robots.txt (4xx) allows everything, as does one that cannot be
+ * loaded (network error, 5xx) - the latter is retried after an hour.
+ */
+async function getRobots(origin: string, userAgent: string): Promise<RobotsRules> {
+  const cached = robotsCache.get(origin);
+  if (cached?.pending) {
+    return cached.pending;
+  }
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.robots;
+  }
+
+  const pending = (async () => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 5000);
+    try {
+      const response = await fetch(`${origin}/robots.txt`, {
+        headers: { 'User-Agent': userAgent, 'Accept': 'text/plain,*/*;q=0.5' },
+        redirect: 'follow',
+        signal: controller.signal,
+      });
+      if (response.ok) {
+        const robots = parseRobotsTxt(await response.text(), getUserAgentToken(userAgent));
+        robotsCache.set(origin, { robots, expiresAt: Date.now() + ROBOTS_TTL_MS });
+        return robots;
+      }
+      robotsCache.set(origin, {
+        robots: ALLOW_ALL,
+        expiresAt: Date.now() + (response.status >= 500 ? ROBOTS_ERROR_TTL_MS : ROBOTS_TTL_MS),
+      });
+      return ALLOW_ALL;
+    } catch {
+      robotsCache.set(origin, { robots: ALLOW_ALL, expiresAt: Date.now() + ROBOTS_ERROR_TTL_MS });
+      return ALLOW_ALL;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  })();
+
+  robotsCache.set(origin, { robots: ALLOW_ALL, expiresAt: 0, pending });
+  return pending;
+}
+
+/**
+ * Wait for a request slot on a host (crawl delay and concurrency cap)
+ * Returns a release function.
+ */
+async function acquireHostSlot(host: string, delayMs: number): Promise<() => void> {
+  const maxConcurrency = Math.max(1, readNumberEnv('DISCOVERY_MAX_CONCURRENCY_PER_DOMAIN', 1));
+  let state = hostState.get(host);
+  if (!state) {
+    state = { active: 0, nextStartAt: 0 };
+    hostState.set(host, state);
+  }
+
+  while (state.active >= maxConcurrency || Date.now() < state.nextStartAt) {
+    await sleep(state.active >= maxConcurrency ? 50 : state.nextStartAt - Date.now());
+  }
+
+  state.active++;
+  state.nextStartAt = Date.now() + delayMs;
+
+  let released = false;
+  return () => {
+    if (!released) {
+      released = true;
+      state.active--;
+    }
+  };
+}
+
+/**
+ * Wait before retrying a 429 / 503 (Retry-After seconds or date, else exponential backoff)
+ */
+function retryDelayMs(response: Response, attempt: number): number {
+  const retryAfter = response.headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = Number.isFinite(seconds) ? seconds * 1000 : new Date(retryAfter).getTime() - Date.now();
+    if (Number.isFinite(ms)) {
+      return Math.min(Math.max(ms, 0), MAX_WAIT_MS);
+    }
+  }
+  return Math.min(1000 * 2 ** attempt, MAX_WAIT_MS);
+}
+
+/**
+ * Read a response body, stopping once maxBytes have arrived
+ *
+ * The rest of the body is not downloaded (the stream is cancelled).
+ */
+async function readResponseBody(
+  response: Response,
+  maxBytes: number
+): Promise<{ body: Buffer; truncated: boolean }> {
+  if (!response.body) {
+    return { body: Buffer.alloc(0), truncated: false };
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let length = 0;
+
+  try {
+    // Past maxBytes (not at it), so a body of exactly maxBytes is not reported as truncated
+    while (length <= maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(Buffer.from(value));
+      length += value.byteLength;
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+
+  return { body: Buffer.concat(chunks).subarray(0, maxBytes), truncated: length > maxBytes };
+}
+
+/**
+ * Fetch a URL politely
+ *
+ * Returns the response and its body for any status except a disallowed URL
+ * or a 429 / 503 that persists after retries (returned as blocked). Network
+ * errors and timeouts (which include reading the body) throw, as with fetch;
+ * timeouts throw "Timeout after <n>ms".
+ */
+export async function politeFetch(url: string, options: PoliteFetchOptions = {}): Promise<PoliteFetchResult> {
+  const timeout = options.timeout ?? 10000;
+  const maxRetries = options.maxRetries ?? 2;
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const userAgent = getUserAgent();
+  const parsed = new URL(url);
+
+  const respectRobots = process.env.DISCOVERY_RESPECT_ROBOTS !== 'false';
+  const robots = respectRobots ? await getRobots(parsed.origin, userAgent) : ALLOW_ALL;
+  if (!isAllowedByRobots(robots, parsed)) {
+    return {
+      success: false,
+      blocked: { url, reason: 'robots_disallowed' },
+      error: `Disallowed by robots.txt: ${url}`,
+    };
+  }
+
+  const delayMs = Math.min(
+    Math.max(readNumberEnv('DISCOVERY_CRAWL_DELAY_MS', 1000), (robots.crawlDelay ?? 0) * 1000),
+    MAX_WAIT_MS
+  );
+
+  for (let attempt = 0; ; attempt++) {
+    const release = await acquireHostSlot(parsed.host, delayMs);
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          'User-Agent': userAgent,
+          'Accept': options.accept ?? 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+          'Accept-Language': 'en-US,en;q=0.5',
+        },
+        redirect: options.followRedirects === false ? 'manual' : 'follow',
+        signal: controller.signal,
+      });
+
+      if (response.status !== 429 && response.status !== 503) {
+        const { body, truncated } = await readResponseBody(response, maxBytes);
+        return { success: true, response, body, truncated };
+      }
+      // Not read: free the connection
+      await response.body?.cancel().catch(() => undefined);
+    } catch (error) {
+      if (error instanceof Error && (error.name === 'AbortError' || error.message.includes('abort'))) {
+        throw new Error(`Timeout after ${timeout}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      release();
+    }
+
+    if (attempt >= maxRetries) {
+      return {
+        success: false,
+        blocked: { url, reason: response.status === 429 ? 'rate_limited' : 'unavailable', status: response.status },
+        error: `HTTP ${response.status}: ${response.statusText} (after ${attempt + 1} attempts)`,
+      };
+    }
+
+    const waitMs = retryDelayMs(response, attempt);
+    console.warn(`[PoliteFetch] ${url} returned ${response.status}, retrying in ${waitMs}ms`);
+    await sleep(waitMs);
+  }
+}
+
+/**
+ * Count blocked URLs by reason (for run stats)
+ */
+export function countBlockedFetches(blocked: BlockedFetch[] | undefined): Partial<Record<BlockedReason, number>> | undefined {
+  if (!blocked || blocked.length === 0) {
+    return undefined;
+  }
+
+  const counts: Partial<Record<BlockedReason, number>> = {};
+  for (const entry of blocked) {
+    counts[entry.reason] = (counts[entry.reason] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Clear robots cache and per-host state (tests)
+ */
+export function resetPoliteFetchState(): void {
+  robotsCache.clear();
+  hostState.clear();
+}
@@ -0,0 +1,123 @@
+/**
+ * robots.txt Parsing
+ *
+ * Parses robots.txt into the rule group that applies to our user agent and
+ * checks URLs against it (Google / RFC 9309 semantics: the most specific
+ * group wins, the longest matching rule wins, Allow wins ties, `*` and `$`
+ * wildcards are supported).
+ */
+
+export interface RobotsRule {
+  allow: boolean;
+  /** Path pattern as written (may contain * and $) */
+  path: string;
+}
+
+export interface RobotsRules {
+  rules: RobotsRule[];
+  /** Crawl-delay in seconds, if set for our group */
+  crawlDelay?: number;
+}
+
+/** Rules that allow everything (missing or unreadable robots.txt) */
+export const ALLOW_ALL: RobotsRules = { rules: [] };
+
+/**
+ * Parse robots.txt for a user agent token (e.g. "CCSLeadAgentBot")
+ *
+ * The group naming our token is used; otherwise the `*` group; otherwise
+ * everything is allowed.
+ */
+export function parseRobotsTxt(text: string, userAgentToken: string): RobotsRules {
+  const token = userAgentToken.toLowerCase();
+  const groups: Array<{ agents: string[]; rules: RobotsRule[]; crawlDelay?: number }> = [];
+  let current: (typeof groups)[number] | undefined;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow allows everything
+      if (value) current.rules.push({ allow: field === 'allow', path: value });
+    } else if (field === 'crawl-delay') {
+      const delay = Number(value);
+      if (Number.isFinite(delay) && delay >= 0) current.crawlDelay = delay;
+    }
+  }
+
+  const matching = groups.filter((group) => group.agents.some((agent) => agent !== '*' && token.includes(agent)));
+  const selected = matching.length > 0 ? matching : groups.filter((group) => group.agents.includes('*'));
+  if (selected.length === 0) {
+    return ALLOW_ALL;
+  }
+
+  const crawlDelay = selected.find((group) => group.crawlDelay !== undefined)?.crawlDelay;
+  return {
+    rules: selected.flatMap((group) => group.rules),
+    ...(crawlDelay !== undefined ? { crawlDelay } : {}),
+  };
+}
+
+/**
+ * Convert a rule path into a regular expression anchored at the path start
+ */
+function ruleToRegExp(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Check whether a URL may be fetched under the given rules
+ */
+export function isAllowedByRobots(robots: RobotsRules, url: string | URL): boolean {
+  const parsed = typeof url === 'string' ? new URL(url) : url;
+  const target = `${parsed.pathname}${parsed.search}`;
+  if (target === '/robots.txt') {
+    return true;
+  }
+
+  let best: RobotsRule | undefined;
+  for (const rule of robots.rules) {
+    let matches: boolean;
+    try {
+      matches = ruleToRegExp(rule.path).test(target) || ruleToRegExp(rule.path).test(decodeURIComponent(target));
+    } catch {
+      matches = false;
+    }
+    if (!matches) continue;
+
+    if (
+      !best ||
+      rule.path.length > best.path.length ||
+      (rule.path.length === best.path.length && rule.allow && !best.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  return best ? best.allow : true;
+}
@@ -10,9 +10,15 @@ export type * from './types';
 // Channels
 export { GoogleDiscoveryChannel, type GoogleDiscoveryChannelOptions } from './channels/google';
 export { KeywordDiscoveryChannel, type KeywordDiscoveryChannelOptions } from './channels/keyword';
+export { TenderDiscoveryChannel, type TenderDiscoveryChannelOptions } from './channels/tenders';
+export { LinkedInDiscoveryChannel, type LinkedInDiscoveryChannelOptions, type LinkedInExport } from './channels/linkedin';
+export { SocialDiscoveryChannel, type SocialDiscoveryChannelOptions, type SocialEventPage } from './channels/social';
 export type { IDiscoveryChannel } from './channels/IDiscoveryChannel';
 export type { IGoogleDiscoveryChannel } from './channels/google/IGoogleDiscoveryChannel';
 export type { IKeywordDiscoveryChannel } from './channels/keyword/IKeywordDiscoveryChannel';
+export type { ITenderDiscoveryChannel } from './channels/tenders/ITenderDiscoveryChannel';
+export type { ILinkedInDiscoveryChannel } from './channels/linkedin/ILinkedInDiscoveryChannel';
+export type { ISocialDiscoveryChannel } from './channels/social/ISocialDiscoveryChannel';
 
 // Signals
 export { WebsiteSignalExtractor } from './signals';
@@ -23,3 +29,7 @@ export { DiscoveryAggregator, type DiscoveryAggregatorConfig, type DiscoveryAggr
 
 // Persistence
 export { persistDiscoveryResults, type PersistenceResult } from './persistDiscoveryResults';
+
+// Search Providers
+export { SearchProviderChain, getSearchProvidersStatus } from './search';
+export type { SearchProviderType, SearchQueryRecord } from './search';
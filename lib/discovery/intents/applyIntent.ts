@@ -11,7 +11,8 @@ import type {
   ResolvedIntentConfig,
   CountryCode,
 } from './types';
-import { getIntentById, COUNTRY_NAMES } from './catalog';
+import { COUNTRY_NAMES } from './catalog';
+import { getIntentById } from './intentStore';
 
 /**
  * Default limits if not specified in intent or overrides
@@ -83,25 +84,31 @@ export function applyIntent(
 
   return {
     intentId: intent.id,
+    intentVersion: intent.version,
     intentName: intent.name,
     targetCountries,
     queries,
+    priorityRegions: intent.geography?.priorityRegions,
     includeKeywords,
     excludeKeywords,
     channels,
+    searchProviders: intent.searchProviders,
+    searchCacheTtlHours: intent.searchCacheTtlHours,
+    crawlExhibitorLists: intent.crawlExhibitorLists ?? false,
+    requireReview: intent.requireReview ?? false,
     limits,
   };
 }
 
 /**
  * Apply intent by ID with optional overrides
- * Returns null if intent not found
+ * Resolves the intent from the database. Returns null if intent not found.
  */
-export function applyIntentById(
+export async function applyIntentById(
   intentId: string,
   overrides?: IntentOverrides
-): ResolvedIntentConfig | null {
-  const intent = getIntentById(intentId);
+): Promise<ResolvedIntentConfig | null> {
+  const intent = await getIntentById(intentId);
   if (!intent) {
     return null;
   }
@@ -136,11 +143,11 @@ function buildQueriesWithCountries(
 /**
  * Validate that an intent ID exists and is active
  */
-export function validateIntentId(intentId: string): {
+export async function validateIntentId(intentId: string): Promise<{
   valid: boolean;
   error?: string;
-} {
-  const intent = getIntentById(intentId);
+}> {
+  const intent = await getIntentById(intentId);
 
   if (!intent) {
     return {
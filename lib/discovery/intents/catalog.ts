@@ -3,6 +3,10 @@
  *
  * Code-first templates for different discovery strategies.
  * Each intent targets a specific type of prospect for CCS Apparel.
+ *
+ * NOTE: This catalog is seed data only. Runtime lookups resolve from the
+ * discovery_intents table (see intentStore.ts), which is seeded from here
+ * and edited via /dashboard/discovery/intents.
  * 
  * Business Context (CCS Apparel targets):
  * - Marketing/branding/event agencies
@@ -187,6 +191,11 @@ export const AGENCIES_ALL: DiscoveryIntent = {
   },
   category: 'agency',
   active: true,
+  // Daily at 06:00 (previous global cron time)
+  schedule: {
+    enabled: true,
+    cron: '0 6 * * *',
+  },
 };
 
 /**
@@ -245,6 +254,13 @@ export const SCHOOLS_ALL: DiscoveryIntent = {
   },
   category: 'schools',
   active: true,
+  // Weekly in the months before school terms start (Jan, Apr, Jul, Oct),
+  // quiet over the festive shutdown
+  schedule: {
+    enabled: true,
+    cron: '0 6 * 3,6,9,11,12 1',
+    quietPeriods: [{ start: '12-15', end: '01-05', note: 'Festive season shutdown' }],
+  },
 };
 
 /**
@@ -312,15 +328,21 @@ export const TENDERS_UNIFORMS_MERCH: DiscoveryIntent = {
     'vehicle tender',
     'stationery tender',
   ],
-  channels: ['google', 'keyword'],
+  channels: ['google', 'keyword', 'tenders'],
   limits: {
     maxCompanies: 10,
     maxLeads: 10,
     maxQueries: 5,  // More queries for tender sourcing
     timeBudgetMs: 120000,
   },
+  searchCacheTtlHours: 12, // New tenders are published daily
   category: 'tenders',
   active: true,
+  // Every weekday morning - new tenders are published on business days
+  schedule: {
+    enabled: true,
+    cron: '0 7 * * 1-5',
+  },
 };
 
 /**
@@ -382,6 +404,11 @@ export const BUSINESSES_SME_CEO_AND_CORPORATE_MARKETING: DiscoveryIntent = {
   },
   category: 'business',
   active: true,
+  // Daily at 06:00 (previous global cron time)
+  schedule: {
+    enabled: true,
+    cron: '0 6 * * *',
+  },
 };
 
 /**
@@ -458,11 +485,12 @@ export const EVENTS_EXHIBITIONS_SA: DiscoveryIntent = {
   ],
   channels: ['google', 'keyword'],
   limits: {
-    maxCompanies: 10,
+    maxCompanies: 50, // Room for exhibitors listed on the event sites found
     maxLeads: 10,
     maxQueries: 3,
     timeBudgetMs: 120000,
   },
+  crawlExhibitorLists: true,
   category: 'event',
   active: true,
 };
@@ -646,11 +674,12 @@ export const EVENTS_CONFERENCES_EXPOS: DiscoveryIntent = {
   ],
   channels: ['google', 'keyword'],
   limits: {
-    maxCompanies: 10,
+    maxCompanies: 50, // Room for exhibitors listed on the event sites found
     maxLeads: 10,
     maxQueries: 3,
     timeBudgetMs: 120000,
   },
+  crawlExhibitorLists: true,
   category: 'event',
   active: true,
 };
@@ -688,23 +717,23 @@ export const DEFAULT_DAILY_INTENTS = [
 ];
 
 /**
- * Get intent by ID
+ * Get catalog (seed) intent by ID
  */
-export function getIntentById(id: string): DiscoveryIntent | undefined {
+export function getCatalogIntentById(id: string): DiscoveryIntent | undefined {
   return INTENT_CATALOG.find((intent) => intent.id === id);
 }
 
 /**
- * Get all active intents
+ * Get all active catalog (seed) intents
  */
-export function getActiveIntents(): DiscoveryIntent[] {
+export function getActiveCatalogIntents(): DiscoveryIntent[] {
   return INTENT_CATALOG.filter((intent) => intent.active);
 }
 
 /**
- * Get intents by category
+ * Get catalog (seed) intents by category
  */
-export function getIntentsByCategory(
+export function getCatalogIntentsByCategory(
   category: IntentCategory
 ): DiscoveryIntent[] {
   return INTENT_CATALOG.filter((intent) => intent.category === category);
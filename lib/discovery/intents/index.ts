@@ -13,6 +13,8 @@ export type {
   ManualDiscoveryResponse,
   IntentCategory,
   GeographyConfig,
+  IntentSchedule,
+  QuietPeriod,
 } from './types';
 
 // Catalog - New intents
@@ -30,9 +32,9 @@ export {
   AGENCIES_MARKETING_BRANDING,
   CORPORATE_UNIFORMS_WORKWEAR_BUYERS,
   EVENTS_CONFERENCES_EXPOS,
-  getIntentById,
-  getActiveIntents,
-  getIntentsByCategory,
+  getCatalogIntentById,
+  getActiveCatalogIntents,
+  getCatalogIntentsByCategory,
   getAnalysisConfigForIntent,
   COUNTRY_NAMES,
 } from './catalog';
@@ -47,5 +49,34 @@ export {
   getGautengBoostScore,
 } from './catalog';
 
+// Intent Store (database-backed, catalog used as seed)
+export {
+  getIntentById,
+  getActiveIntents,
+  getIntentsByCategory,
+  listIntents,
+  createIntent,
+  updateIntent,
+  deleteIntent,
+  getIntentVersions,
+  restoreIntentVersion,
+  ensureIntentsSeeded,
+  getScheduledIntents,
+  claimScheduledRun,
+} from './intentStore';
+export type { IntentInput, IntentVersionEntry, IntentWriteResult } from './intentStore';
+export { seedIntentsFromCatalog } from './seedIntents';
+
+// Validation
+export {
+  intentCreateSchema,
+  intentUpdateSchema,
+  intentScheduleSchema,
+  COUNTRY_CODES,
+  INTENT_CATEGORIES,
+  INTENT_CHANNELS,
+} from './validation';
+export type { IntentCreateInput, IntentUpdateInput } from './validation';
+
 // Apply Intent
 export { applyIntent, applyIntentById, validateIntentId } from './applyIntent';
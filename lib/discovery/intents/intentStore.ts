@@ -0,0 +1,310 @@
+/**
+ * Phase 5A - Discovery Intent Store
+ *
+ * Database-backed intents (discovery_intents table) with version history.
+ * The code catalog is used only as seed data: if the table is empty on first
+ * access it is seeded automatically.
+ *
+ * Every edit increments the intent version and stores a full snapshot in
+ * discovery_intent_versions so changes can be reviewed and restored.
+ */
+
+import { Prisma, type Intent as IntentRecord } from '@prisma/client';
+import { prisma } from '../../prisma';
+import type {
+  DiscoveryIntent,
+  DiscoveryChannel,
+  CountryCode,
+  IntentCategory,
+  GeographyConfig,
+  IntentSchedule,
+} from './types';
+import type { SearchProviderType } from '../search';
+import { seedIntentsFromCatalog, intentToData } from './seedIntents';
+
+/**
+ * Intent fields accepted on create/update (version is managed by the store)
+ */
+export type IntentInput = Omit<DiscoveryIntent, 'version'>;
+
+/**
+ * Intent version history entry
+ */
+export interface IntentVersionEntry {
+  version: number;
+  changeNote: string | null;
+  changedById: string | null;
+  createdAt: Date;
+  snapshot: DiscoveryIntent;
+}
+
+/**
+ * Result of a write operation
+ */
+export interface IntentWriteResult {
+  success: boolean;
+  intent?: DiscoveryIntent;
+  error?: string;
+}
+
+// Seeding is checked once per process
+let seedChecked = false;
+
+/**
+ * Seed the intents table from the code catalog if it is empty
+ */
+export async function ensureIntentsSeeded(): Promise<void> {
+  if (seedChecked) {
+    return;
+  }
+
+  const count = await prisma.intent.count();
+  if (count === 0) {
+    const created = await seedIntentsFromCatalog(prisma);
+    console.log(`[IntentStore] Seeded ${created} intents from code catalog`);
+  }
+  seedChecked = true;
+}
+
+/**
+ * Convert a database record to a DiscoveryIntent
+ */
+function recordToIntent(record: IntentRecord): DiscoveryIntent {
+  return {
+    id: record.id,
+    name: record.name,
+    description: record.description,
+    category: record.category as IntentCategory,
+    targetCountries: (record.targetCountries as CountryCode[]) || [],
+    seedQueries: (record.seedQueries as string[]) || [],
+    includeKeywords: (record.includeKeywords as string[]) || [],
+    excludeKeywords: (record.excludeKeywords as string[]) || [],
+    channels: (record.channels as DiscoveryChannel[]) || [],
+    limits: (record.limits as DiscoveryIntent['limits']) || undefined,
+    geography: (record.geography as unknown as GeographyConfig) || undefined,
+    searchProviders: (record.searchProviders as SearchProviderType[]) || undefined,
+    searchCacheTtlHours: record.searchCacheTtlHours ?? undefined,
+    crawlExhibitorLists: record.crawlExhibitorLists,
+    requireReview: record.requireReview,
+    schedule: (record.schedule as unknown as IntentSchedule) || undefined,
+    active: record.active,
+    version: record.version,
+  };
+}
+
+/**
+ * Get intent by ID (from database)
+ */
+export async function getIntentById(id: string): Promise<DiscoveryIntent | undefined> {
+  await ensureIntentsSeeded();
+  const record = await prisma.intent.findUnique({ where: { id } });
+  return record ? recordToIntent(record) : undefined;
+}
+
+/**
+ * List intents (active first, then by name)
+ */
+export async function listIntents(
+  options: { includeInactive?: boolean } = {}
+): Promise<DiscoveryIntent[]> {
+  await ensureIntentsSeeded();
+  const records = await prisma.intent.findMany({
+    where: options.includeInactive ? undefined : { active: true },
+    orderBy: [{ active: 'desc' }, { name: 'asc' }],
+  });
+  return records.map(recordToIntent);
+}
+
+/**
+ * Get all active intents
+ */
+export async function getActiveIntents(): Promise<DiscoveryIntent[]> {
+  return listIntents();
+}
+
+/**
+ * Get active intents by category
+ */
+export async function getIntentsByCategory(
+  category: IntentCategory
+): Promise<DiscoveryIntent[]> {
+  await ensureIntentsSeeded();
+  const records = await prisma.intent.findMany({
+    where: { category, active: true },
+    orderBy: { name: 'asc' },
+  });
+  return records.map(recordToIntent);
+}
+
+/**
+ * Active intents that have a schedule, with the time the scheduler last launched them
+ */
+export async function getScheduledIntents(): Promise<
+  Array<{ intent: DiscoveryIntent; lastScheduledRunAt: Date | null }>
+> {
+  await ensureIntentsSeeded();
+  const records = await prisma.intent.findMany({
+    where: { active: true, NOT: { schedule: { equals: Prisma.DbNull } } },
+    orderBy: { name: 'asc' },
+  });
+  return records.map((record) => ({
+    intent: recordToIntent(record),
+    lastScheduledRunAt: record.lastScheduledRunAt,
+  }));
+}
+
+/**
+ * Claim a scheduled slot for an intent
+ *
+ * Only succeeds if lastScheduledRunAt is unchanged since it was read, so
+ * overlapping scheduler ticks cannot launch the same intent twice.
+ */
+export async function claimScheduledRun(
+  id: string,
+  previousRunAt: Date | null,
+  runAt: Date
+): Promise<boolean> {
+  const result = await prisma.intent.updateMany({
+    where: { id, lastScheduledRunAt: previousRunAt },
+    data: { lastScheduledRunAt: runAt },
+  });
+  return result.count === 1;
+}
+
+/**
+ * Create a new intent (version 1)
+ */
+export async function createIntent(
+  input: IntentInput,
+  userId?: string
+): Promise<IntentWriteResult> {
+  await ensureIntentsSeeded();
+
+  const existing = await prisma.intent.findUnique({
+    where: { id: input.id },
+    select: { id: true },
+  });
+  if (existing) {
+    return { success: false, error: `Intent "${input.id}" already exists` };
+  }
+
+  const record = await prisma.intent.create({
+    data: {
+      id: input.id,
+      ...intentToData(input),
+      version: 1,
+      createdById: userId,
+      updatedById: userId,
+      versions: {
+        create: {
+          version: 1,
+          snapshot: { ...input, version: 1 } as unknown as Prisma.InputJsonValue,
+          changeNote: 'Created',
+          changedById: userId,
+        },
+      },
+    },
+  });
+
+  return { success: true, intent: recordToIntent(record) };
+}
+
+/**
+ * Update an intent, recording a new version
+ */
+export async function updateIntent(
+  id: string,
+  input: Omit<IntentInput, 'id'>,
+  userId?: string,
+  changeNote?: string
+): Promise<IntentWriteResult> {
+  const record = await prisma.$transaction(async (tx) => {
+    const existing = await tx.intent.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return null;
+    }
+
+    // Incrementing in the UPDATE locks the row, so concurrent edits get distinct versions
+    const updated = await tx.intent.update({
+      where: { id },
+      data: {
+        ...intentToData(input),
+        version: { increment: 1 },
+        updatedById: userId,
+      },
+    });
+
+    await tx.intentVersion.create({
+      data: {
+        intentId: id,
+        version: updated.version,
+        snapshot: { ...input, id, version: updated.version } as unknown as Prisma.InputJsonValue,
+        changeNote: changeNote || null,
+        changedById: userId,
+      },
+    });
+
+    return updated;
+  });
+
+  if (!record) {
+    return { success: false, error: `Intent "${id}" not found` };
+  }
+
+  return { success: true, intent: recordToIntent(record) };
+}
+
+/**
+ * Delete an intent and its version history
+ * Past DiscoveryRuns keep their intentId/intentName snapshot.
+ */
+export async function deleteIntent(id: string): Promise<IntentWriteResult> {
+  const existing = await prisma.intent.findUnique({
+    where: { id },
+    select: { id: true },
+  });
+  if (!existing) {
+    return { success: false, error: `Intent "${id}" not found` };
+  }
+
+  await prisma.intent.delete({ where: { id } });
+  return { success: true };
+}
+
+/**
+ * Get version history for an intent (newest first)
+ */
+export async function getIntentVersions(id: string): Promise<IntentVersionEntry[]> {
+  const versions = await prisma.intentVersion.findMany({
+    where: { intentId: id },
+    orderBy: { version: 'desc' },
+  });
+
+  return versions.map((entry) => ({
+    version: entry.version,
+    changeNote: entry.changeNote,
+    changedById: entry.changedById,
+    createdAt: entry.createdAt,
+    snapshot: entry.snapshot as unknown as DiscoveryIntent,
+  }));
+}
+
+/**
+ * Restore an earlier version (recorded as a new version)
+ */
+export async function restoreIntentVersion(
+  id: string,
+  version: number,
+  userId?: string
+): Promise<IntentWriteResult> {
+  const entry = await prisma.intentVersion.findUnique({
+    where: { intentId_version: { intentId: id, version } },
+  });
+  if (!entry) {
+    return { success: false, error: `Version ${version} of intent "${id}" not found` };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { id: _id, version: _version, ...snapshot } = entry.snapshot as unknown as DiscoveryIntent;
+  return updateIntent(id, snapshot, userId, `Restored version ${version}`);
+}
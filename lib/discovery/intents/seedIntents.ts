@@ -0,0 +1,75 @@
+/**
+ * Phase 5A - Discovery Intent Seeding
+ *
+ * Seeds the discovery_intents table from the code catalog.
+ * Only missing intents are created - edits made in the dashboard are never overwritten.
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { DiscoveryIntent } from './types';
+import { INTENT_CATALOG } from './catalog';
+
+/**
+ * Convert an intent to Prisma column data (excluding id/version)
+ */
+export function intentToData(intent: Omit<DiscoveryIntent, 'id' | 'version'>) {
+  return {
+    name: intent.name,
+    description: intent.description,
+    category: intent.category,
+    targetCountries: intent.targetCountries as Prisma.InputJsonValue,
+    seedQueries: intent.seedQueries as Prisma.InputJsonValue,
+    includeKeywords: intent.includeKeywords as Prisma.InputJsonValue,
+    excludeKeywords: intent.excludeKeywords as Prisma.InputJsonValue,
+    channels: intent.channels as Prisma.InputJsonValue,
+    limits: intent.limits ? (intent.limits as Prisma.InputJsonValue) : Prisma.JsonNull,
+    geography: intent.geography ? (intent.geography as unknown as Prisma.InputJsonValue) : Prisma.JsonNull,
+    searchProviders: intent.searchProviders
+      ? (intent.searchProviders as Prisma.InputJsonValue)
+      : Prisma.JsonNull,
+    searchCacheTtlHours: intent.searchCacheTtlHours ?? null,
+    crawlExhibitorLists: intent.crawlExhibitorLists ?? false,
+    requireReview: intent.requireReview ?? false,
+    schedule: intent.schedule ? (intent.schedule as unknown as Prisma.InputJsonValue) : Prisma.JsonNull,
+    active: intent.active,
+  };
+}
+
+/**
+ * Seed missing catalog intents into the database
+ *
+ * @param prisma - Prisma client
+ * @returns Number of intents created
+ */
+export async function seedIntentsFromCatalog(prisma: PrismaClient): Promise<number> {
+  let created = 0;
+
+  for (const intent of INTENT_CATALOG) {
+    const existing = await prisma.intent.findUnique({
+      where: { id: intent.id },
+      select: { id: true },
+    });
+
+    if (existing) {
+      continue;
+    }
+
+    await prisma.intent.create({
+      data: {
+        id: intent.id,
+        ...intentToData(intent),
+        version: 1,
+        versions: {
+          create: {
+            version: 1,
+            snapshot: { ...intent, version: 1 } as unknown as Prisma.InputJsonValue,
+            changeNote: 'Seeded from code catalog',
+          },
+        },
+      },
+    });
+    created++;
+  }
+
+  return created;
+}
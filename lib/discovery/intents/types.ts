@@ -6,10 +6,12 @@
  * specific types of prospects.
  */
 
+import type { SearchProviderType } from '../search';
+
 /**
  * Supported discovery channels
  */
-export type DiscoveryChannel = 'google' | 'keyword';
+export type DiscoveryChannel = 'google' | 'keyword' | 'tenders' | 'social';
 
 /**
  * Country codes supported for discovery
@@ -41,6 +43,32 @@ export interface GeographyConfig {
   regionBoost?: number;
 }
 
+/**
+ * Date range during which a scheduled intent does not run
+ *
+ * Dates are either absolute (YYYY-MM-DD) or recurring every year (MM-DD).
+ * Recurring ranges may wrap the year end (e.g. 12-15 to 01-10).
+ */
+export interface QuietPeriod {
+  start: string;
+  end: string;
+  note?: string;
+}
+
+/**
+ * Schedule for automatic (scheduler tick) runs
+ */
+export interface IntentSchedule {
+  /** Whether the scheduler should launch this intent */
+  enabled: boolean;
+  /** Standard 5-field cron expression, evaluated in DISCOVERY_SCHEDULE_TIMEZONE */
+  cron: string;
+  /** Restrict to these days of week (0 = Sunday ... 6 = Saturday), optional */
+  daysOfWeek?: number[];
+  /** Date ranges to skip (e.g. school holidays, festive shutdown) */
+  quietPeriods?: QuietPeriod[];
+}
+
 /**
  * Discovery intent definition
  *
@@ -92,6 +120,37 @@ export interface DiscoveryIntent {
 
   /** Geography targeting configuration (optional, for Gauteng-first bias etc.) */
   geography?: GeographyConfig;
+
+  /**
+   * Search providers to use, in fallback order (optional)
+   * Default: DISCOVERY_SEARCH_PROVIDERS env var, then google_cse, bing, brave, serpapi
+   */
+  searchProviders?: SearchProviderType[];
+
+  /**
+   * Search result cache TTL in hours (optional, 0 = always query live)
+   * Default: DISCOVERY_SEARCH_CACHE_TTL_HOURS (168)
+   */
+  searchCacheTtlHours?: number;
+
+  /**
+   * Follow exhibitor / sponsor / partner links on event sites found by search
+   * and discover the listed companies (optional, for events intents)
+   * Default: false
+   */
+  crawlExhibitorLists?: boolean;
+
+  /**
+   * Hold run results for the review queue instead of creating records
+   * Default: false
+   */
+  requireReview?: boolean;
+
+  /** Schedule for automatic runs (optional, unscheduled intents only run manually) */
+  schedule?: IntentSchedule;
+
+  /** Version number (set for intents loaded from the database) */
+  version?: number;
 }
 
 /**
@@ -126,6 +185,9 @@ export interface ResolvedIntentConfig {
   /** Original intent ID */
   intentId: string;
 
+  /** Intent version the config was resolved from (database intents) */
+  intentVersion?: number;
+
   /** Intent name (for display) */
   intentName: string;
 
@@ -135,6 +197,9 @@ export interface ResolvedIntentConfig {
   /** Final seed queries (with country substitutions) */
   queries: string[];
 
+  /** Regions combined with the seed queries into query variants (from geography) */
+  priorityRegions?: string[];
+
   /** Final include keywords */
   includeKeywords: string[];
 
@@ -144,6 +209,18 @@ export interface ResolvedIntentConfig {
   /** Final channels to use */
   channels: DiscoveryChannel[];
 
+  /** Search providers in fallback order (undefined = env/default order) */
+  searchProviders?: SearchProviderType[];
+
+  /** Search result cache TTL in hours (undefined = env default) */
+  searchCacheTtlHours?: number;
+
+  /** Whether event sites found by search are crawled for exhibitor lists */
+  crawlExhibitorLists: boolean;
+
+  /** Whether run results are held for review instead of creating records */
+  requireReview: boolean;
+
   /** Final limits */
   limits: {
     maxLeads: number;
@@ -165,6 +242,9 @@ export interface ManualDiscoveryRequest {
 
   /** Whether this is a dry run */
   dryRun?: boolean;
+
+  /** Hold results for the review queue (default: the intent's requireReview) */
+  reviewMode?: boolean;
 }
 
 /**
@@ -176,7 +256,7 @@ export interface ManualDiscoveryResponse {
   intentId: string;
   intentName: string;
   dryRun: boolean;
-  status: 'completed' | 'completed_with_errors' | 'failed' | 'cancelled';
+  status: 'completed' | 'completed_with_errors' | 'failed' | 'cancelled' | 'skipped_budget';
   stats?: {
     totalDiscovered: number;
     companiesCreated: number;
@@ -0,0 +1,132 @@
+/**
+ * Phase 5A - Discovery Intent Validation
+ *
+ * Schemas for creating and editing database-backed intents.
+ * Option lists are also used by the intent editor UI.
+ */
+
+import { z } from 'zod';
+import type { CountryCode, DiscoveryChannel, IntentCategory } from './types';
+import type { SearchProviderType } from '../search/types';
+import { SEARCH_PROVIDER_TYPES } from '../search/config';
+import { isValidCronExpression } from '../scheduler/cron';
+
+/**
+ * Supported country codes
+ */
+export const COUNTRY_CODES: CountryCode[] = ['ZA', 'BW', 'NA', 'MZ', 'ZW', 'KE', 'NG', 'GH'];
+
+/**
+ * Supported intent categories
+ */
+export const INTENT_CATEGORIES: IntentCategory[] = [
+  'referral',
+  'agency',
+  'buyer',
+  'event',
+  'schools',
+  'tenders',
+  'business',
+  'custom',
+];
+
+/**
+ * Discovery channels selectable on an intent
+ */
+export const INTENT_CHANNELS: DiscoveryChannel[] = ['google', 'keyword', 'tenders', 'social'];
+
+const keywordList = z.array(z.string().trim().min(1).max(200)).max(200);
+
+// YYYY-MM-DD (absolute) or MM-DD (recurring every year)
+const quietPeriodDate = z
+  .string()
+  .trim()
+  .regex(/^(\d{4}-)?\d{2}-\d{2}$/, 'Use YYYY-MM-DD or MM-DD');
+
+/**
+ * Schema for an intent schedule (cron syntax is checked separately)
+ */
+export const intentScheduleSchema = z.object({
+  enabled: z.boolean().default(true),
+  cron: z.string().trim().min(1, 'Cron expression is required').max(100),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).max(7).optional(),
+  quietPeriods: z
+    .array(
+      z.object({
+        start: quietPeriodDate,
+        end: quietPeriodDate,
+        note: z.string().trim().max(200).optional(),
+      })
+    )
+    .max(50)
+    .optional(),
+});
+
+/**
+ * Schema for intent fields (shared by create and update)
+ */
+export const intentFieldsSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200),
+  description: z.string().trim().max(2000).default(''),
+  category: z.enum(INTENT_CATEGORIES as [IntentCategory, ...IntentCategory[]]),
+  targetCountries: z
+    .array(z.enum(COUNTRY_CODES as [CountryCode, ...CountryCode[]]))
+    .min(1, 'At least one target country is required'),
+  seedQueries: z
+    .array(z.string().trim().min(1).max(500))
+    .min(1, 'At least one seed query is required')
+    .max(100),
+  includeKeywords: keywordList.default([]),
+  excludeKeywords: keywordList.default([]),
+  channels: z
+    .array(z.enum(INTENT_CHANNELS as [DiscoveryChannel, ...DiscoveryChannel[]]))
+    .min(1, 'At least one channel is required'),
+  limits: z
+    .object({
+      maxLeads: z.number().int().min(1).max(500).optional(),
+      maxCompanies: z.number().int().min(1).max(500).optional(),
+      maxQueries: z.number().int().min(1).max(100).optional(),
+      timeBudgetMs: z.number().int().min(10000).max(900000).optional(),
+    })
+    .optional(),
+  geography: z
+    .object({
+      primaryCountry: z.enum(COUNTRY_CODES as [CountryCode, ...CountryCode[]]),
+      priorityRegions: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+      regionBoost: z.number().min(0).max(1).optional(),
+    })
+    .optional(),
+  searchProviders: z.array(z.enum(SEARCH_PROVIDER_TYPES as [SearchProviderType, ...SearchProviderType[]])).optional(),
+  searchCacheTtlHours: z.number().int().min(0).max(24 * 90).optional(),
+  crawlExhibitorLists: z.boolean().optional(),
+  requireReview: z.boolean().optional(),
+  schedule: intentScheduleSchema
+    .refine((schedule) => isValidCronExpression(schedule.cron), {
+      message: 'Invalid cron expression (expected 5 fields: minute hour day-of-month month day-of-week)',
+      path: ['cron'],
+    })
+    .optional(),
+  active: z.boolean().default(true),
+});
+
+/**
+ * Schema for creating an intent
+ */
+export const intentCreateSchema = intentFieldsSchema.extend({
+  id: z
+    .string()
+    .trim()
+    .min(3, 'ID must be at least 3 characters')
+    .max(80)
+    .regex(/^[a-z0-9_]+$/, 'ID must be snake_case (lowercase letters, digits, underscores)'),
+});
+
+/**
+ * Schema for updating an intent (creates a new version)
+ */
+export const intentUpdateSchema = intentFieldsSchema.extend({
+  changeNote: z.string().trim().max(500).optional(),
+});
+
+export type IntentCreateInput = z.infer<typeof intentCreateSchema>;
+export type IntentUpdateInput = z.infer<typeof intentUpdateSchema>;
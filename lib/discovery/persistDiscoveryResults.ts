@@ -2,7 +2,9 @@
  * Phase 1 Discovery - Persistence Layer
  * 
  * Writes discovery results to Company, Contact, and Lead records.
- * Performs basic existence checks (exact match only).
+ * Companies are matched by canonical domain or similar name (findMatchingCompany);
+ * contacts and leads by exact match.
+ * Results on listed domains (block, competitor, customer) are skipped.
  * Links records correctly and attaches discovery metadata.
  * 
  * Based on PHASE_1_Discovery_MVP_Definition.md
@@ -16,6 +18,17 @@ import type {
   DiscoveryContactResult,
   DiscoveryLeadResult,
 } from './types';
+import { getLeadTenderFields } from '../lead-management/tenders';
+import { canonicalDomain, findMatchingCompany } from '../companies';
+import {
+  discoveryResultDomain,
+  matchDomainList,
+  isSkippedListType,
+  recordDomainListHit,
+  loadDomainList,
+  type DomainList,
+  type DomainListHits,
+} from './domains';
 
 /**
  * Persistence Result
@@ -38,6 +51,9 @@ export interface PersistenceResult {
   
   /** Leads skipped (already existed) */
   leadsSkipped: number;
+
+  /** Results skipped because their domain is listed, per listed domain */
+  domainListHits?: DomainListHits;
   
   /** Errors encountered */
   errors: Array<{
@@ -53,15 +69,23 @@ export interface PersistenceResult {
  * Persist discovery results to database
  * 
  * Writes DiscoveryResult objects to Company, Contact, and Lead records.
- * Performs exact match existence checks before creating records.
+ * Checks for existing records before creating them (companies by canonical
+ * domain or similar name, contacts and leads by exact match).
  * Links records correctly (Contact->Company, Lead->Company/Contact).
  * Attaches discovery metadata to records.
  * 
+ * Timestamps may be Dates or ISO strings (results read back from resultsJson).
+ * 
+ * Company and lead results whose website is on the block, competitor or
+ * customer list are skipped before anything is created.
+ * 
  * @param results - Discovery results to persist
+ * @param options - Domain list already loaded for the run (loaded here otherwise)
  * @returns Persistence result with counts and errors
  */
 export async function persistDiscoveryResults(
-  results: DiscoveryResult[]
+  results: DiscoveryResult[],
+  options: { domainList?: DomainList } = {}
 ): Promise<PersistenceResult> {
   const persistenceResult: PersistenceResult = {
     companiesCreated: 0,
@@ -79,10 +103,20 @@ export async function persistDiscoveryResults(
   const contactIdMap = new Map<string, string>(); // email -> id
 
   try {
+    const domainList = options.domainList ?? await loadDomainList();
+    const domainListHits: DomainListHits = {};
+
     // Process results: first companies, then contacts, then leads
     // This ensures we can link contacts to companies and leads to both
     
     for (const result of results) {
+      // Skip results on listed domains (block, competitor, customer)
+      const listed = matchDomainList(discoveryResultDomain(result), domainList);
+      if (listed && isSkippedListType(listed.listType)) {
+        recordDomainListHit(domainListHits, listed);
+        continue;
+      }
+
       try {
         if (result.type === 'company') {
           await processCompanyResult(result, persistenceResult, companyIdMap);
@@ -100,6 +134,10 @@ export async function persistDiscoveryResults(
         persistenceResult.success = false;
       }
     }
+
+    if (Object.keys(domainListHits).length > 0) {
+      persistenceResult.domainListHits = domainListHits;
+    }
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error during persistence';
     persistenceResult.errors.push({
@@ -120,33 +158,13 @@ async function processCompanyResult(
   persistenceResult: PersistenceResult,
   companyIdMap: Map<string, string>
 ): Promise<void> {
-  // Check if company exists (exact match by website or name)
-  let existingCompany = null;
-  
-  if (result.website) {
-    existingCompany = await prisma.company.findFirst({
-      where: {
-        website: result.website,
-      },
-    });
-  }
-  
-  // Fallback: check by name if no website match
-  if (!existingCompany) {
-    existingCompany = await prisma.company.findFirst({
-      where: {
-        name: {
-          equals: result.name,
-          mode: 'insensitive',
-        },
-      },
-    });
-  }
+  // Check if company exists (same canonical domain, or similar name)
+  const existingCompany = await findMatchingCompany({ name: result.name, website: result.website });
 
   if (existingCompany) {
     // Company exists - skip creation but track ID for linking
     const key = result.website || result.name.toLowerCase();
-    companyIdMap.set(key, existingCompany.id);
+    companyIdMap.set(key, existingCompany.company.id);
     persistenceResult.companiesSkipped++;
     return;
   }
@@ -154,7 +172,7 @@ async function processCompanyResult(
   // Prepare discovery metadata to store in dedicated discoveryMetadata field
   const discoveryData = {
     discoverySource: result.discoveryMetadata.discoverySource,
-    discoveryTimestamp: result.discoveryMetadata.discoveryTimestamp.toISOString(),
+    discoveryTimestamp: new Date(result.discoveryMetadata.discoveryTimestamp).toISOString(),
     discoveryMethod: result.discoveryMetadata.discoveryMethod || null,
     ...(result.discoveryMetadata.additionalMetadata || {}),
   };
@@ -163,6 +181,7 @@ async function processCompanyResult(
   const companyData: Prisma.CompanyCreateInput = {
     name: result.name,
     website: result.website || null,
+    canonicalDomain: canonicalDomain(result.website),
     industry: result.industry || null,
     country: result.country || null,
     // Store discovery metadata in dedicated discoveryMetadata field
@@ -215,16 +234,9 @@ async function processContactResult(
     // Find company ID first
     let companyIdForDedup: string | null = null;
     if (result.companyName) {
-      const company = await prisma.company.findFirst({
-        where: {
-          name: {
-            equals: result.companyName,
-            mode: 'insensitive',
-          },
-        },
-      });
-      if (company) {
-        companyIdForDedup = company.id;
+      const match = await findMatchingCompany({ name: result.companyName });
+      if (match) {
+        companyIdForDedup = match.company.id;
       } else {
         companyIdForDedup = companyIdMap.get(result.companyName.toLowerCase()) || null;
       }
@@ -268,17 +280,10 @@ async function processContactResult(
   // Find company ID if company name is provided
   let companyId: string | null = null;
   if (result.companyName) {
-    // Try to find company by name (case-insensitive)
-    const company = await prisma.company.findFirst({
-      where: {
-        name: {
-          equals: result.companyName,
-          mode: 'insensitive',
-        },
-      },
-    });
-    if (company) {
-      companyId = company.id;
+    // Try to find company by name (similar names match)
+    const match = await findMatchingCompany({ name: result.companyName });
+    if (match) {
+      companyId = match.company.id;
     } else {
       // Check if company was created earlier in this batch
       companyId = companyIdMap.get(result.companyName.toLowerCase()) || null;
@@ -302,7 +307,7 @@ async function processContactResult(
   // Prepare discovery metadata
   const discoveryData = {
     discoverySource: result.discoveryMetadata.discoverySource,
-    discoveryTimestamp: result.discoveryMetadata.discoveryTimestamp.toISOString(),
+    discoveryTimestamp: new Date(result.discoveryMetadata.discoveryTimestamp).toISOString(),
     discoveryMethod: result.discoveryMetadata.discoveryMethod || null,
     ...(result.discoveryMetadata.additionalMetadata || {}),
   };
@@ -360,11 +365,14 @@ async function processLeadResult(
     return;
   }
 
-  // Check if lead exists (exact match by email)
+  // Tender leads: one lead per tender, even when the buyer contact repeats
+  const tenderFields = getLeadTenderFields(result.additionalMetadata);
+
+  // Check if lead exists (exact match by tender number, otherwise by email)
   const existingLead = await prisma.lead.findFirst({
-    where: {
-      email: email,
-    },
+    where: tenderFields?.tenderNumber
+      ? { tenderNumber: { equals: tenderFields.tenderNumber, mode: 'insensitive' } }
+      : { email: email },
   });
 
   if (existingLead) {
@@ -377,34 +385,16 @@ async function processLeadResult(
   if (result.company) {
     const website = result.company.website;
     const companyName = result.company.name;
-    
-    if (website) {
-      // Try to find by website first
-      const company = await prisma.company.findFirst({
-        where: { website },
-      });
-      if (company) {
-        companyId = company.id;
-      } else {
-        companyId = companyIdMap.get(website) || null;
-      }
+
+    // Same canonical domain, or similar name
+    const match = await findMatchingCompany({ name: companyName, website });
+    if (match) {
+      companyId = match.company.id;
+    } else if (website) {
+      companyId = companyIdMap.get(website) || null;
     }
-    
-    // Fallback: find by name
     if (!companyId && companyName) {
-      const company = await prisma.company.findFirst({
-        where: {
-          name: {
-            equals: companyName,
-            mode: 'insensitive',
-          },
-        },
-      });
-      if (company) {
-        companyId = company.id;
-      } else {
-        companyId = companyIdMap.get(companyName.toLowerCase()) || null;
-      }
+      companyId = companyIdMap.get(companyName.toLowerCase()) || null;
     }
   }
 
@@ -444,16 +434,16 @@ async function processLeadResult(
   // Prepare discovery metadata
   const discoveryData = {
     discoverySource: result.source,
-    discoveryTimestamp: result.discoveryTimestamp.toISOString(),
+    discoveryTimestamp: new Date(result.discoveryTimestamp).toISOString(),
     discoveryMethod: result.additionalMetadata?.discoveryMethod || null,
     ...(result.additionalMetadata || {}),
   };
 
   // Set lead source only if it's a valid discovery channel type
-  // Valid discovery channel types: 'google', 'keyword', 'linkedin', 'social'
+  // Valid discovery channel types: 'google', 'keyword', 'linkedin', 'social', 'tenders'
   // Do not overload source field beyond discovery channel types
   let leadSource: string | null = null;
-  if (result.source && ['google', 'keyword', 'linkedin', 'social'].includes(result.source)) {
+  if (result.source && ['google', 'keyword', 'linkedin', 'social', 'tenders'].includes(result.source)) {
     leadSource = result.source;
   }
 
@@ -474,6 +464,16 @@ async function processLeadResult(
     contactRel: contactId ? { connect: { id: contactId } } : undefined,
     // Store discovery metadata in dedicated discoveryMetadata field
     discoveryMetadata: discoveryData,
+    // Structured tender fields (closing date drives "Closing soon" and auto-expiry)
+    ...(tenderFields
+      ? {
+          tenderNumber: tenderFields.tenderNumber,
+          tenderClosingDate: tenderFields.tenderClosingDate,
+          tenderBriefingDate: tenderFields.tenderBriefingDate,
+          tenderIssuingBody: tenderFields.tenderIssuingBody,
+          tenderDocumentUrls: tenderFields.tenderDocumentUrls ?? Prisma.JsonNull,
+        }
+      : {}),
   };
 
   await prisma.lead.create({
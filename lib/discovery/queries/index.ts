@@ -0,0 +1,28 @@
+/**
+ * Discovery Queries Module
+ *
+ * Query expansion (region and result page variants) and rotation through an
+ * intent's query pool, with per-query yield tracking.
+ */
+
+export {
+  RESULTS_PER_PAGE,
+  LOW_YIELD_MIN_RUNS,
+  LOW_YIELD_NEW_PER_RUN,
+  querySpecKey,
+  regionVariants,
+  buildQueryPool,
+  queryYieldRate,
+  isLowYield,
+  selectQueries,
+} from './queryPool';
+export type { QuerySpec, QueryYield } from './queryPool';
+
+export {
+  DEFAULT_QUERY_POOL,
+  loadQueryStats,
+  selectPoolQueries,
+  measureQueryYield,
+  recordQueryYield,
+  listQueryStats,
+} from './queryStats';
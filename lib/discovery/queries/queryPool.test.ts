@@ -0,0 +1,117 @@
+/**
+ * Unit Tests for the discovery query pool (variants and rotation)
+ *
+ * Simple test runner compatible with repo conventions.
+ * Run with: tsx lib/discovery/queries/queryPool.test.ts
+ */
+
+import { buildQueryPool, selectQueries, querySpecKey, type QueryYield } from './queryPool';
+
+// Simple assertion helper
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string): void {
+  if (actual !== expected) {
+    throw new Error(`Assertion failed: ${message}. Expected: ${expected}, Actual: ${actual}`);
+  }
+}
+
+function stat(query: string, runs: number, newResults: number, lastRunAt: string, start = 1): QueryYield {
+  return {
+    query,
+    start,
+    runs,
+    lastRunAt: new Date(lastRunAt),
+    resultsFound: runs * 10,
+    resultsKept: newResults,
+    newResults,
+  };
+}
+
+// Test cases
+function testBuildQueryPool() {
+  console.log('Test 1: Region and result page variants');
+
+  const pool = buildQueryPool(['branding agency Johannesburg', 'marketing agency'], {
+    priorityRegions: ['Johannesburg', 'Sandton', 'Pretoria'],
+    maxPages: 2,
+  });
+  const queries = pool.map((spec) => `${spec.start}:${spec.query}`);
+
+  assertEqual(queries[0], '1:branding agency Johannesburg', 'Seeds should come first');
+  assert(queries.includes('1:branding agency Sandton'), 'Region in the seed should be swapped');
+  assert(!queries.includes('1:branding agency Johannesburg Johannesburg'), 'Seed region should not be repeated');
+  assert(queries.includes('1:marketing agency Pretoria'), 'Seed without a region should get it appended');
+  assert(queries.includes('11:marketing agency'), 'Seeds should get a second result page');
+  assert(!queries.includes('11:marketing agency Pretoria'), 'Region variants should not be paginated');
+  assertEqual(pool.length, 2 + 2 + 3 + 2, 'Pool should hold seeds, variants and pages without duplicates');
+
+  console.log('  ✅ Pool expanded');
+}
+
+function testSelectQueries() {
+  console.log('Test 2: Rotation prefers unrun, then least recently run, low-yield last');
+
+  const pool = buildQueryPool(['a', 'b', 'c', 'd']);
+  const stats = new Map<string, QueryYield>(
+    [
+      stat('a', 4, 0, '2026-10-01'), // low yield, oldest
+      stat('b', 2, 6, '2026-10-10'),
+      stat('c', 2, 6, '2026-10-05'),
+    ].map((entry) => [querySpecKey(entry), entry])
+  );
+
+  const picked = selectQueries(pool, stats, 3).map((spec) => spec.query);
+  assertEqual(picked.join(','), 'd,c,b', 'Unrun query first, then the least recently run');
+
+  const all = selectQueries(pool, stats, 10).map((spec) => spec.query);
+  assertEqual(all[all.length - 1], 'a', 'Low-yield query should be picked last');
+
+  console.log('  ✅ Queries rotated');
+}
+
+function runTests() {
+  console.log('='.repeat(60));
+  console.log('Discovery Query Pool Unit Tests');
+  console.log('='.repeat(60));
+  console.log('');
+
+  const tests = [
+    testBuildQueryPool,
+    testSelectQueries,
+  ];
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const test of tests) {
+    try {
+      test();
+      passed++;
+      console.log('');
+    } catch (error) {
+      failed++;
+      console.error(`  ❌ Test failed: ${error instanceof Error ? error.message : String(error)}`);
+      console.log('');
+    }
+  }
+
+  console.log('='.repeat(60));
+  console.log(`Tests: ${passed} passed, ${failed} failed (total: ${tests.length})`);
+  console.log('='.repeat(60));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
@@ -0,0 +1,156 @@
+/**
+ * Discovery Query Pool
+ *
+ * Expands a run's seed queries into a pool of search queries and picks the
+ * queries a run executes, so runs rotate through the pool instead of always
+ * issuing the first maxQueries seeds:
+ * - region variants: each seed combined with the intent's priority regions
+ *   (a region already in the seed is swapped, otherwise the region is appended)
+ * - page variants: later result pages of the seeds (start offsets 11, 21, ...)
+ *
+ * Queries never run come first, then the least recently run. Queries whose
+ * yield stays low (few new results per run) are only picked when nothing
+ * else is left.
+ *
+ * Pure functions (no database access); see queryStats.ts for stored yield.
+ */
+
+/** Results requested per search (one result page) */
+export const RESULTS_PER_PAGE = 10;
+
+/** Runs before a query's yield is judged */
+export const LOW_YIELD_MIN_RUNS = 3;
+
+/** New results per run below which a query is low-yield */
+export const LOW_YIELD_NEW_PER_RUN = 0.5;
+
+/**
+ * A query in the pool (start is the 1-based offset of the result page)
+ */
+export interface QuerySpec {
+  query: string;
+  start: number;
+}
+
+/**
+ * Yield recorded for a query (DiscoveryQueryStat)
+ */
+export interface QueryYield {
+  query: string;
+  start: number;
+  runs: number;
+  lastRunAt: Date | null;
+  /** Search results returned */
+  resultsFound: number;
+  /** Results kept after filtering and scoring */
+  resultsKept: number;
+  /** Kept results no earlier run returned */
+  newResults: number;
+}
+
+/**
+ * Key of a query in the pool and in the stats
+ */
+export function querySpecKey(spec: { query: string; start: number }): string {
+  return `${spec.start}:${spec.query.trim().toLowerCase()}`;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function regionPattern(region: string): RegExp {
+  return new RegExp(`\\b${escapeRegExp(region)}\\b`, 'i');
+}
+
+/**
+ * Variants of a query for each region
+ *
+ * A region named in the query is replaced by each other region; a query
+ * without one gets the region appended.
+ */
+export function regionVariants(query: string, regions: string[]): string[] {
+  const present = regions.find((region) => regionPattern(region).test(query));
+  return regions
+    .filter((region) => region !== present)
+    .map((region) =>
+      present ? query.replace(regionPattern(present), region) : `${query} ${region}`
+    );
+}
+
+/**
+ * Build a run's query pool: the seeds, their region variants, then later
+ * result pages of the seeds (up to maxPages per seed)
+ */
+export function buildQueryPool(
+  seedQueries: string[],
+  options: { priorityRegions?: string[]; maxPages?: number } = {}
+): QuerySpec[] {
+  const seeds = seedQueries.map((query) => query.trim()).filter((query) => query.length > 0);
+  const regions = (options.priorityRegions ?? []).map((region) => region.trim()).filter(Boolean);
+  const maxPages = Math.max(1, options.maxPages ?? 1);
+
+  const specs: QuerySpec[] = [
+    ...seeds.map((query) => ({ query, start: 1 })),
+    ...seeds.flatMap((query) => regionVariants(query, regions).map((variant) => ({ query: variant, start: 1 }))),
+  ];
+  for (let page = 2; page <= maxPages; page++) {
+    specs.push(...seeds.map((query) => ({ query, start: (page - 1) * RESULTS_PER_PAGE + 1 })));
+  }
+
+  const seen = new Set<string>();
+  return specs.filter((spec) => {
+    const key = querySpecKey(spec);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * New results per run (0 before the first run)
+ */
+export function queryYieldRate(stat: QueryYield): number {
+  return stat.runs > 0 ? stat.newResults / stat.runs : 0;
+}
+
+/**
+ * Whether a query has run often enough with too few new results
+ */
+export function isLowYield(stat: QueryYield): boolean {
+  return stat.runs >= LOW_YIELD_MIN_RUNS && queryYieldRate(stat) < LOW_YIELD_NEW_PER_RUN;
+}
+
+/**
+ * Pick the queries a run executes
+ *
+ * Order: never run (in pool order), then the least recently run, with
+ * low-yield queries last. Ties go to the higher yield.
+ */
+export function selectQueries(
+  pool: QuerySpec[],
+  stats: Map<string, QueryYield>,
+  maxQueries: number
+): QuerySpec[] {
+  const ranked = pool.map((spec, position) => {
+    const stat = stats.get(querySpecKey(spec));
+    const tier = !stat || stat.runs === 0 ? 0 : isLowYield(stat) ? 2 : 1;
+    return {
+      spec,
+      position,
+      tier,
+      lastRunAt: stat?.lastRunAt?.getTime() ?? 0,
+      rate: stat ? queryYieldRate(stat) : 0,
+    };
+  });
+
+  ranked.sort(
+    (a, b) =>
+      a.tier - b.tier ||
+      a.lastRunAt - b.lastRunAt ||
+      b.rate - a.rate ||
+      a.position - b.position
+  );
+
+  return ranked.slice(0, Math.max(0, maxQueries)).map((entry) => entry.spec);
+}
@@ -0,0 +1,150 @@
+/**
+ * Discovery Query Stats
+ *
+ * Per-query yield of each query pool (discovery_query_stats), recorded after
+ * every completed run and read when the next run picks its queries:
+ * - resultsFound: search results the provider returned
+ * - resultsKept: results the run kept (google channel results of the query)
+ * - newResults: kept results no earlier run of the intent returned
+ *
+ * The pool is the run's intent ID, or DEFAULT_QUERY_POOL for runs without one.
+ */
+
+import type { DiscoveryQueryStat } from '@prisma/client';
+import { prisma } from '../../prisma';
+import { resultDiffKey } from '../diff';
+import type { SearchQueryRecord } from '../search';
+import type { DiscoveryMetadata, DiscoveryResult } from '../types';
+import { querySpecKey, selectQueries, type QuerySpec, type QueryYield } from './queryPool';
+
+/** Pool of runs without an intent (the runner's default queries) */
+export const DEFAULT_QUERY_POOL = 'default';
+
+/**
+ * Yield of one query in one run
+ */
+interface QueryRunYield {
+  resultsFound: number;
+  resultsKept: number;
+  newResults: number;
+}
+
+/**
+ * Discovery metadata of a result (a lead's company for leads)
+ */
+function resultMetadata(result: DiscoveryResult): DiscoveryMetadata | undefined {
+  return result.type === 'lead' ? result.company?.discoveryMetadata : result.discoveryMetadata;
+}
+
+/**
+ * Query (and result page) a result was found by, if any
+ */
+function resultQueryKey(result: DiscoveryResult): string | null {
+  const metadata = resultMetadata(result);
+  if (!metadata?.discoveryMethod) {
+    return null;
+  }
+  const start = metadata.additionalMetadata?.searchStart;
+  return querySpecKey({ query: metadata.discoveryMethod, start: typeof start === 'number' ? start : 1 });
+}
+
+/**
+ * Stored yield of a pool's queries by querySpecKey
+ */
+export async function loadQueryStats(pool: string): Promise<Map<string, QueryYield>> {
+  const stats = await prisma.discoveryQueryStat.findMany({ where: { pool } });
+  return new Map(stats.map((stat) => [querySpecKey(stat), stat]));
+}
+
+/**
+ * Pick the queries a run of this pool executes
+ */
+export async function selectPoolQueries(pool: string, specs: QuerySpec[], maxQueries: number): Promise<QuerySpec[]> {
+  return selectQueries(specs, await loadQueryStats(pool), maxQueries);
+}
+
+/**
+ * Yield of each executed query in a run
+ */
+export function measureQueryYield(
+  executed: QuerySpec[],
+  searchQueries: SearchQueryRecord[] | undefined,
+  results: DiscoveryResult[],
+  seenKeys: Set<string>
+): Map<string, QueryRunYield> {
+  const yields = new Map<string, QueryRunYield>(
+    executed.map((spec) => [querySpecKey(spec), { resultsFound: 0, resultsKept: 0, newResults: 0 }])
+  );
+
+  for (const record of searchQueries ?? []) {
+    const entry = yields.get(querySpecKey({ query: record.query, start: record.start ?? 1 }));
+    if (entry) {
+      entry.resultsFound += record.resultsCount;
+    }
+  }
+
+  const counted = new Set<string>();
+  for (const result of results) {
+    const queryKey = resultQueryKey(result);
+    const entry = queryKey ? yields.get(queryKey) : undefined;
+    const key = resultDiffKey(result);
+    if (!entry || counted.has(key)) {
+      continue;
+    }
+    counted.add(key);
+    entry.resultsKept++;
+    if (!seenKeys.has(key)) {
+      entry.newResults++;
+    }
+  }
+
+  return yields;
+}
+
+/**
+ * Add a run's yield to the stats of the queries it searched
+ */
+export async function recordQueryYield(
+  pool: string,
+  runId: string,
+  executed: QuerySpec[],
+  searchQueries: SearchQueryRecord[] | undefined,
+  results: DiscoveryResult[],
+  seenKeys: Set<string>
+): Promise<void> {
+  const yields = measureQueryYield(executed, searchQueries, results, seenKeys);
+  const searched = new Set(
+    (searchQueries ?? []).map((record) => querySpecKey({ query: record.query, start: record.start ?? 1 }))
+  );
+  const now = new Date();
+
+  for (const spec of executed) {
+    // Queries the run never reached (time budget, no google channel) keep their stats
+    if (!searched.has(querySpecKey(spec))) {
+      continue;
+    }
+    const runYield = yields.get(querySpecKey(spec))!;
+    await prisma.discoveryQueryStat.upsert({
+      where: { pool_query_start: { pool, query: spec.query, start: spec.start } },
+      create: { pool, query: spec.query, start: spec.start, runs: 1, lastRunAt: now, lastRunId: runId, ...runYield },
+      update: {
+        runs: { increment: 1 },
+        lastRunAt: now,
+        lastRunId: runId,
+        resultsFound: { increment: runYield.resultsFound },
+        resultsKept: { increment: runYield.resultsKept },
+        newResults: { increment: runYield.newResults },
+      },
+    });
+  }
+}
+
+/**
+ * A pool's query stats, most recently run first
+ */
+export async function listQueryStats(pool: string): Promise<DiscoveryQueryStat[]> {
+  return prisma.discoveryQueryStat.findMany({
+    where: { pool },
+    orderBy: [{ lastRunAt: 'desc' }, { query: 'asc' }],
+  });
+}
@@ -0,0 +1,24 @@
+/**
+ * Discovery Result Review Module
+ *
+ * Accept / reject / snooze queue for results held in DiscoveryRun.resultsJson
+ * (review-mode runs and dry runs).
+ */
+
+export {
+  getReviewQueue,
+  acceptResult,
+  rejectResult,
+  snoozeResult,
+  applyResultEdits,
+  isReviewableRun,
+} from './resultReview';
+export type {
+  ResultReviewStatus,
+  ResultEdits,
+  RejectionFeedback,
+  ReviewQueueItem,
+  ResultReviewOutcome,
+} from './resultReview';
+export { resultReviewSchema } from './validation';
+export type { ResultReviewRequest } from './validation';
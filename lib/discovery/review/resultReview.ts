@@ -0,0 +1,377 @@
+/**
+ * Discovery Result Review Queue
+ *
+ * Results of review-mode runs (and dry runs) stay in DiscoveryRun.resultsJson
+ * until a reviewer decides on each one:
+ * - accept: create the records (optionally after editing name / website /
+ *   industry) through persistDiscoveryResults
+ * - reject: with a reason; optionally block the result's domain or add a
+ *   keyword to the intent's exclude list so it does not come back
+ * - snooze: hide it for a number of days, then it is pending again
+ *
+ * Decisions are stored in DiscoveryResultReview, keyed by the result's
+ * position in resultsJson.
+ */
+
+import { Prisma, type DiscoveryResultReview } from '@prisma/client';
+import { prisma } from '../../prisma';
+import { findMatchingCompany } from '../../companies';
+import { persistDiscoveryResults, type PersistenceResult } from '../persistDiscoveryResults';
+import { blockDomain, discoveryResultDomain } from '../domains';
+import { getIntentById, updateIntent } from '../intents/intentStore';
+import type { DiscoveryCompanyResult, DiscoveryResult } from '../types';
+
+export type ResultReviewStatus = 'pending' | 'accepted' | 'rejected' | 'snoozed';
+
+/**
+ * Reviewer edits applied before accepting (company fields)
+ */
+export interface ResultEdits {
+  name?: string;
+  website?: string;
+  industry?: string;
+}
+
+/**
+ * Rejection feedback applied when rejecting
+ */
+export interface RejectionFeedback {
+  /** Domain added to the discovery block list */
+  blockedDomain?: string;
+  /** Keyword added to the run intent's exclude list */
+  excludedKeyword?: string;
+}
+
+export interface ReviewQueueItem {
+  /** Position in resultsJson */
+  index: number;
+  result: DiscoveryResult;
+  domain: string | null;
+  status: ResultReviewStatus;
+  review?: DiscoveryResultReview;
+  /** Latest decision on the same domain in another run */
+  previous?: { runId: string; status: string; reason: string | null; reviewedAt: Date };
+}
+
+export interface ResultReviewOutcome {
+  success: boolean;
+  error?: string;
+  /** Run or result does not exist */
+  notFound?: boolean;
+  review?: DiscoveryResultReview;
+  /** Records created on accept */
+  persistence?: PersistenceResult;
+  feedback?: RejectionFeedback;
+}
+
+/**
+ * Whether a run's results go through the review queue
+ * (materialized dry runs and normal runs already created their records)
+ */
+export function isReviewableRun(run: { dryRun: boolean; reviewMode: boolean }): boolean {
+  return run.dryRun || run.reviewMode;
+}
+
+/**
+ * Effective status of a stored decision (expired snoozes are pending again)
+ */
+function reviewStatus(review: DiscoveryResultReview | undefined, now: Date): ResultReviewStatus {
+  if (!review) return 'pending';
+  if (review.status === 'snoozed' && review.snoozedUntil && review.snoozedUntil <= now) return 'pending';
+  return review.status as ResultReviewStatus;
+}
+
+/**
+ * Company part of a result (the result itself, or a lead's company)
+ */
+function companyOf(result: DiscoveryResult): DiscoveryCompanyResult | undefined {
+  if (result.type === 'company') return result;
+  if (result.type === 'lead') return result.company;
+  return undefined;
+}
+
+/**
+ * Copy of a result with the reviewer's edits applied
+ */
+export function applyResultEdits(result: DiscoveryResult, edits: ResultEdits = {}): DiscoveryResult {
+  const company = companyOf(result);
+  const trimmed = {
+    name: edits.name?.trim() || undefined,
+    website: edits.website?.trim() || undefined,
+    industry: edits.industry?.trim() || undefined,
+  };
+
+  if (result.type === 'contact') {
+    return trimmed.name ? { ...result, name: trimmed.name } : result;
+  }
+  if (!company) {
+    return result;
+  }
+
+  const edited: DiscoveryCompanyResult = {
+    ...company,
+    name: trimmed.name ?? company.name,
+    website: edits.website !== undefined ? trimmed.website : company.website,
+    industry: edits.industry !== undefined ? trimmed.industry : company.industry,
+  };
+  return result.type === 'company' ? edited : { ...result, company: edited };
+}
+
+/**
+ * Load a run and one of its stored results
+ */
+async function loadRunResult(runId: string, index: number) {
+  const run = await prisma.discoveryRun.findUnique({
+    where: { id: runId },
+    select: { id: true, dryRun: true, reviewMode: true, intentId: true, resultsJson: true },
+  });
+  const results = Array.isArray(run?.resultsJson) ? (run.resultsJson as unknown as DiscoveryResult[]) : [];
+  const result = results[index];
+  return { run, result };
+}
+
+/**
+ * Decision already stored for a result
+ */
+async function findReview(runId: string, index: number): Promise<DiscoveryResultReview | null> {
+  return prisma.discoveryResultReview.findUnique({
+    where: { runId_resultIndex: { runId, resultIndex: index } },
+  });
+}
+
+/**
+ * Save a decision for a result (replacing any earlier one)
+ */
+async function saveReview(
+  runId: string,
+  index: number,
+  data: {
+    status: Exclude<ResultReviewStatus, 'pending'>;
+    domain: string | null;
+    reviewedById: string | null;
+    reason?: string | null;
+    edits?: Prisma.InputJsonValue;
+    feedback?: Prisma.InputJsonValue;
+    snoozedUntil?: Date | null;
+    companyId?: string | null;
+  }
+): Promise<DiscoveryResultReview> {
+  const fields = {
+    reason: null,
+    snoozedUntil: null,
+    companyId: null,
+    ...data,
+    edits: data.edits ?? Prisma.DbNull,
+    feedback: data.feedback ?? Prisma.DbNull,
+  };
+  return prisma.discoveryResultReview.upsert({
+    where: { runId_resultIndex: { runId, resultIndex: index } },
+    create: { runId, resultIndex: index, ...fields },
+    update: { ...fields, reviewedAt: new Date() },
+  });
+}
+
+/**
+ * Review queue for a run: every stored result with its decision
+ */
+export async function getReviewQueue(runId: string): Promise<ReviewQueueItem[] | null> {
+  const run = await prisma.discoveryRun.findUnique({
+    where: { id: runId },
+    select: { resultsJson: true, resultReviews: true },
+  });
+  if (!run) {
+    return null;
+  }
+
+  const now = new Date();
+  const results = Array.isArray(run.resultsJson) ? (run.resultsJson as unknown as DiscoveryResult[]) : [];
+  const reviewsByIndex = new Map(run.resultReviews.map((review) => [review.resultIndex, review]));
+  const domains = results.map((result) => discoveryResultDomain(result));
+
+  // Earlier decisions on the same domains, newest first
+  const uniqueDomains = [...new Set(domains.filter((domain): domain is string => Boolean(domain)))];
+  const previousReviews = uniqueDomains.length > 0
+    ? await prisma.discoveryResultReview.findMany({
+        where: { domain: { in: uniqueDomains }, runId: { not: runId }, status: { in: ['accepted', 'rejected'] } },
+        orderBy: { reviewedAt: 'desc' },
+      })
+    : [];
+  const previousByDomain = new Map<string, DiscoveryResultReview>();
+  for (const review of previousReviews) {
+    if (review.domain && !previousByDomain.has(review.domain)) {
+      previousByDomain.set(review.domain, review);
+    }
+  }
+
+  return results.map((result, index) => {
+    const review = reviewsByIndex.get(index);
+    const previous = domains[index] ? previousByDomain.get(domains[index]!) : undefined;
+    return {
+      index,
+      result,
+      domain: domains[index],
+      status: reviewStatus(review, now),
+      review,
+      previous: previous
+        ? { runId: previous.runId, status: previous.status, reason: previous.reason, reviewedAt: previous.reviewedAt }
+        : undefined,
+    };
+  });
+}
+
+/**
+ * Accept a result: create its records and mark it accepted
+ */
+export async function acceptResult(
+  runId: string,
+  index: number,
+  edits: ResultEdits = {},
+  reviewedById?: string | null
+): Promise<ResultReviewOutcome> {
+  const { run, result } = await loadRunResult(runId, index);
+  if (!run || !result) {
+    return { success: false, error: 'Discovery result not found', notFound: true };
+  }
+  if (!isReviewableRun(run)) {
+    return { success: false, error: 'Records for this run were already created' };
+  }
+
+  const existing = await findReview(runId, index);
+  if (existing?.status === 'accepted') {
+    return { success: false, error: 'Result was already accepted' };
+  }
+
+  const edited = applyResultEdits(result, edits);
+  const persistence = await persistDiscoveryResults([edited]);
+  if (!persistence.success) {
+    return {
+      success: false,
+      error: persistence.errors.map((error) => error.error).join('; ') || 'Failed to create records',
+      persistence,
+    };
+  }
+  if (persistence.domainListHits) {
+    const [domain, hit] = Object.entries(persistence.domainListHits)[0];
+    return { success: false, error: `${domain} is on the ${hit.listType} list`, persistence };
+  }
+
+  const company = companyOf(edited);
+  const match = company ? await findMatchingCompany({ name: company.name, website: company.website }) : null;
+
+  const review = await saveReview(runId, index, {
+    status: 'accepted',
+    domain: discoveryResultDomain(edited),
+    edits: Object.keys(edits).length > 0 ? { ...edits } : undefined,
+    companyId: match?.company.id ?? null,
+    reviewedById: reviewedById ?? null,
+  });
+
+  await prisma.discoveryRun.update({
+    where: { id: runId },
+    data: {
+      createdCompaniesCount: { increment: persistence.companiesCreated },
+      createdContactsCount: { increment: persistence.contactsCreated },
+      createdLeadsCount: { increment: persistence.leadsCreated },
+    },
+  });
+
+  return { success: true, review, persistence };
+}
+
+/**
+ * Reject a result, optionally feeding the rejection back into discovery
+ */
+export async function rejectResult(
+  runId: string,
+  index: number,
+  options: { reason: string; blockDomain?: boolean; excludeKeyword?: string },
+  reviewedById?: string | null
+): Promise<ResultReviewOutcome> {
+  const { run, result } = await loadRunResult(runId, index);
+  if (!run || !result) {
+    return { success: false, error: 'Discovery result not found', notFound: true };
+  }
+
+  if ((await findReview(runId, index))?.status === 'accepted') {
+    return { success: false, error: 'Result was already accepted' };
+  }
+
+  const domain = discoveryResultDomain(result);
+  const feedback: RejectionFeedback = {};
+
+  if (options.blockDomain) {
+    if (!domain) {
+      return { success: false, error: 'Result has no website domain to block' };
+    }
+    const blocked = await blockDomain({
+      domain,
+      reason: options.reason,
+      source: 'review',
+      runId,
+      createdById: reviewedById,
+    });
+    if (!blocked.success) {
+      return { success: false, error: blocked.error };
+    }
+    feedback.blockedDomain = blocked.domain;
+  }
+
+  const keyword = options.excludeKeyword?.trim();
+  if (keyword) {
+    const intent = run.intentId ? await getIntentById(run.intentId) : undefined;
+    if (!intent) {
+      return { success: false, error: 'Run has no intent to add the exclude keyword to' };
+    }
+    const alreadyExcluded = intent.excludeKeywords.some((existing) => existing.toLowerCase() === keyword.toLowerCase());
+    if (!alreadyExcluded) {
+      const updated = await updateIntent(
+        intent.id,
+        { ...intent, excludeKeywords: [...intent.excludeKeywords, keyword] },
+        reviewedById ?? undefined,
+        `Excluded "${keyword}" while reviewing run ${runId}`
+      );
+      if (!updated.success) {
+        return { success: false, error: updated.error };
+      }
+    }
+    feedback.excludedKeyword = keyword;
+  }
+
+  const review = await saveReview(runId, index, {
+    status: 'rejected',
+    reason: options.reason,
+    domain,
+    feedback: Object.keys(feedback).length > 0 ? { ...feedback } : undefined,
+    reviewedById: reviewedById ?? null,
+  });
+
+  return { success: true, review, feedback };
+}
+
+/**
+ * Snooze a result for a number of days
+ */
+export async function snoozeResult(
+  runId: string,
+  index: number,
+  options: { days: number; reason?: string },
+  reviewedById?: string | null
+): Promise<ResultReviewOutcome> {
+  const { run, result } = await loadRunResult(runId, index);
+  if (!run || !result) {
+    return { success: false, error: 'Discovery result not found', notFound: true };
+  }
+  if ((await findReview(runId, index))?.status === 'accepted') {
+    return { success: false, error: 'Result was already accepted' };
+  }
+
+  const review = await saveReview(runId, index, {
+    status: 'snoozed',
+    reason: options.reason || null,
+    domain: discoveryResultDomain(result),
+    snoozedUntil: new Date(Date.now() + options.days * 24 * 60 * 60 * 1000),
+    reviewedById: reviewedById ?? null,
+  });
+
+  return { success: true, review };
+}
@@ -0,0 +1,34 @@
+/**
+ * Discovery Result Review - Request validation
+ */
+
+import { z } from 'zod';
+
+/**
+ * Body of PATCH /api/discovery/runs/[runId]/results/[index]
+ */
+export const resultReviewSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('accept'),
+    edits: z
+      .object({
+        name: z.string().max(200).optional(),
+        website: z.string().max(500).optional(),
+        industry: z.string().max(200).optional(),
+      })
+      .optional(),
+  }),
+  z.object({
+    action: z.literal('reject'),
+    reason: z.string().trim().min(1, 'A reason is required').max(500),
+    blockDomain: z.boolean().optional(),
+    excludeKeyword: z.string().trim().max(100).optional(),
+  }),
+  z.object({
+    action: z.literal('snooze'),
+    days: z.number().int().min(1).max(365),
+    reason: z.string().trim().max(500).optional(),
+  }),
+]);
+
+export type ResultReviewRequest = z.infer<typeof resultReviewSchema>;
@@ -5,17 +5,54 @@
  * - Kill switch via DISCOVERY_RUNNER_ENABLED
  * - Time budget enforcement with graceful stop
  * - Max limits (companies, leads, queries)
+ * - Query rotation through the seed, region and result page variants (low-yield queries last)
  * - Dry-run mode (no DB writes)
- * - Full run tracking with stats, limits, intent config
+ * - Review mode (results held for the review queue, no records created)
+ * - Domain list (block / competitor / customer) checked before scraping and persisting
+ * - Full run tracking with stats, limits, intent config, novelty vs earlier intent runs
+ * - Sites filtered out below the relevance threshold kept with their relevance breakdown
+ * - Checkpoint when the time budget runs out, resumed by a continuation run
  * - Safe channel error handling (partial failures)
+ * - Alerts for failed or degraded runs (see ../alerts)
  */
 
 import { prisma } from '../../prisma';
 import { DiscoveryAggregator } from '../DiscoveryAggregator';
 import { persistDiscoveryResults } from '../persistDiscoveryResults';
 import type { DiscoveryChannelInput } from '../types';
-import { loadConfig, getDiscoveryQueries, TimeBudget, getLimitsForMode } from './config';
+import type { LinkedInExport } from '../channels/linkedin';
+import type { SocialEventPage } from '../channels/social';
+import {
+  getSearchProviderOrder,
+  type SearchProviderType,
+  type SearchQueryRecord,
+  type SearchCacheStats,
+} from '../search';
+import { countBlockedFetches, type BlockedFetch } from '../fetch';
+import {
+  loadDomainList,
+  filterListedResults,
+  mergeDomainListHits,
+  recordDomainListHits,
+  type DomainList,
+  type DomainListHits,
+} from '../domains';
+import { loadSeenResultKeys, runNovelty, type RunNovelty } from '../diff';
+import {
+  DEFAULT_QUERY_POOL,
+  buildQueryPool,
+  selectPoolQueries,
+  recordQueryYield,
+  type QuerySpec,
+} from '../queries';
+import type { FilteredOutResult } from '../scraper';
+import { loadConfig, TimeBudget, getLimitsForMode, DEFAULT_DISCOVERY_QUERIES } from './config';
+import { buildRunCheckpoint, parseRunCheckpoint } from './checkpoint';
+import { RunProgressTracker } from './progress';
+import { checkRunQuota, type RunQuotaPlan } from '../usage';
+import { notifyRunResult } from '../alerts';
 import type {
+  DiscoveryRunCheckpoint,
   DiscoveryRunnerConfig,
   RunOptions,
   RunResult,
@@ -24,6 +61,9 @@ import type {
   IntentConfigSnapshot,
 } from './types';
 
+/** Filtered-out sites stored per run (highest relevance score first) */
+const MAX_FILTERED_RESULTS_STORED = 200;
+
 export class DailyDiscoveryRunner {
   private config: DiscoveryRunnerConfig;
   private aggregator: DiscoveryAggregator;
@@ -48,13 +88,31 @@ export class DailyDiscoveryRunner {
   }
 
   /**
-   * Execute a discovery run with full safety guardrails
+   * Execute a discovery run with full safety guardrails, then alert
+   * subscribers if it failed or degraded
    */
   async run(options: RunOptions = {}): Promise<RunResult> {
+    const result = await this.executeRun(options);
+
+    await notifyRunResult(result, {
+      mode: options.mode ?? 'daily',
+      dryRun: options.dryRun ?? false,
+      intentId: options.intentId,
+      intentName: options.intentName,
+    });
+
+    return result;
+  }
+
+  /**
+   * Execute a discovery run
+   */
+  private async executeRun(options: RunOptions): Promise<RunResult> {
     const startTime = Date.now();
 
     // Extract options with defaults
     const dryRun = options.dryRun ?? false;
+    const reviewMode = !dryRun && (options.reviewMode ?? false);
     const mode = options.mode ?? 'daily';
     const triggeredBy = options.triggeredBy ?? 'unknown';
     const triggeredById = options.triggeredById;
@@ -65,6 +123,12 @@ export class DailyDiscoveryRunner {
     const excludeKeywords = options.excludeKeywords;
     const analysisConfig = options.analysisConfig;
     const enableScraping = options.enableScraping ?? !!analysisConfig;
+    const searchProviders = getSearchProviderOrder(options.searchProviders);
+    const searchCacheTtlHours = options.searchCacheTtlHours;
+    const crawlExhibitorLists = options.crawlExhibitorLists;
+    const linkedInExport = options.linkedInExport;
+    const socialPages = options.socialPages;
+    const resumeFromRunId = options.resumeFromRunId;
 
     // Get mode-specific limits (manual = 10, daily = 30)
     const modeLimits = getLimitsForMode(mode);
@@ -73,10 +137,19 @@ export class DailyDiscoveryRunner {
     // Priority: explicit options > mode-specific limits > config defaults
     const maxCompanies = options.maxCompanies ?? modeLimits.maxCompanies;
     const maxLeads = options.maxLeads ?? modeLimits.maxLeads;
-    const maxQueries = options.queries?.length 
-      ? Math.min(options.queries.length, modeLimits.maxQueries)
-      : modeLimits.maxQueries;
     const maxPagesPerQuery = this.config.maxPagesPerQuery;
+
+    // Query pool: seed queries (intent or defaults) plus region and result page variants
+    const queryPool = buildQueryPool(
+      options.queries && options.queries.length > 0 ? options.queries : DEFAULT_DISCOVERY_QUERIES,
+      { priorityRegions: options.priorityRegions, maxPages: maxPagesPerQuery }
+    );
+    const queryPoolKey = intentId ?? DEFAULT_QUERY_POOL;
+    const maxQueries = Math.min(
+      options.maxQueries ?? modeLimits.maxQueries,
+      modeLimits.maxQueries,
+      queryPool.length
+    );
     const timeBudgetSeconds = options.timeBudgetMs
       ? Math.ceil(options.timeBudgetMs / 1000)
       : this.config.maxRuntimeSeconds;
@@ -95,39 +168,82 @@ export class DailyDiscoveryRunner {
       maxPagesPerQuery,
       maxRuntimeSeconds: timeBudgetSeconds,
       channels: channelsToUse,
+      searchProviders,
     };
 
     // Create run record first (for tracking even if we fail early)
     const run = await this.createRunRecord({
       dryRun,
+      reviewMode,
       mode,
       triggeredBy,
       triggeredById,
       intentId,
       intentName,
+      resumeFromRunId,
     });
 
     let stoppedEarly = false;
     let stoppedReason: DiscoveryRunStats['stoppedReason'];
     const channelErrors: Record<string, string> = {};
 
+    // Live progress for the dashboard (phases, per-query counts, event log)
+    const progress = new RunProgressTracker(run.id);
+
     try {
       // Update status to running
       await this.updateRunStatus(run.id, 'running');
+      await progress.phase('starting', resumeFromRunId ? `Resuming run ${resumeFromRunId}` : 'Run started');
 
       // Check for cancel before starting
       if (await this.isCancelRequested(run.id)) {
+        await progress.phase('finished', 'Run cancelled by user request');
         return this.handleCancellation(run.id, startTime, limitsUsed, intentConfig, channelErrors);
       }
 
+      // Domain list checked by channels and before persisting (loaded once per run)
+      const domainList = await loadDomainList();
+
       // Create time budget tracker
       const timeBudget = new TimeBudget(timeBudgetSeconds);
 
-      // Get queries to execute
-      const queries =
-        options.queries && options.queries.length > 0
-          ? options.queries.slice(0, maxQueries)
-          : getDiscoveryQueries(maxQueries);
+      // Resumed run: the queries the earlier run did not reach, skipping the sites it scraped
+      const previousCheckpoint = resumeFromRunId ? await this.loadCheckpoint(resumeFromRunId) : null;
+      if (resumeFromRunId && !previousCheckpoint) {
+        throw new Error(`Run ${resumeFromRunId} has no checkpoint to resume`);
+      }
+
+      // Get queries to execute (rotated through the pool across runs)
+      const plannedQueries = previousCheckpoint
+        ? previousCheckpoint.pendingQueries
+        : await this.selectQueries(queryPoolKey, queryPool, maxQueries);
+
+      // Pre-flight: refuse or downsize the run if today's remaining quota cannot cover it
+      const quota = channelsToUse.includes('google')
+        ? await this.checkQuota(plannedQueries.length, searchProviders, enableScraping)
+        : undefined;
+      if (quota && quota.allowedQueries === 0 && plannedQueries.length > 0) {
+        await progress.phase('finished', quota.reason ?? 'Daily discovery quota exhausted');
+        return this.refuseRun(
+          run.id,
+          dryRun,
+          startTime,
+          limitsUsed,
+          intentConfig,
+          quota,
+          resumeFromRunId,
+          // A refused continuation stays resumable
+          previousCheckpoint ? buildRunCheckpoint(plannedQueries, [], [], 0, previousCheckpoint) : undefined
+        );
+      }
+      const queries = quota && quota.allowedQueries < plannedQueries.length
+        ? plannedQueries.slice(0, quota.allowedQueries)
+        : plannedQueries;
+      if (queries.length < plannedQueries.length) {
+        console.log(`[DiscoveryRunner] Run ${run.id}: ${quota?.reason}`);
+        await progress.phase('starting', quota?.reason ?? `Downsized to ${queries.length} queries`);
+      }
+      await progress.phase('searching', `Searching ${queries.length} queries on ${channelsToUse.join(', ')}`, queries.length);
 
       // Execute discovery with safe channel handling (with scraping if configured)
       // Pass cancel check function for periodic cancellation checks
@@ -139,6 +255,11 @@ export class DailyDiscoveryRunner {
         success: boolean;
         error?: string;
         channelErrors?: Record<string, string>;
+        searchQueries?: SearchQueryRecord[];
+        blockedUrls?: BlockedFetch[];
+        domainListHits?: DomainListHits;
+        filteredOut?: FilteredOutResult[];
+        scrapedUrls?: string[];
       } | undefined;
       
       try {
@@ -152,7 +273,15 @@ export class DailyDiscoveryRunner {
           excludeKeywords,
           analysisConfig,
           enableScraping,
-          run.id // Pass runId for cancel checks
+          run.id, // Pass runId for cancel checks
+          searchProviders,
+          searchCacheTtlHours,
+          linkedInExport,
+          socialPages,
+          crawlExhibitorLists,
+          domainList,
+          previousCheckpoint?.scrapedUrls,
+          progress
         );
       } catch (error) {
         // Check if this is a cancellation error
@@ -164,6 +293,7 @@ export class DailyDiscoveryRunner {
             maxCompanies,
             maxLeads
           ) : undefined;
+          await progress.phase('finished', 'Run cancelled by user request');
           return this.handleCancellation(
             run.id, 
             startTime, 
@@ -180,6 +310,7 @@ export class DailyDiscoveryRunner {
 
       // Check for cancel after discovery
       if (await this.isCancelRequested(run.id)) {
+        await progress.phase('finished', 'Run cancelled by user request');
         // Save partial results before cancelling
         const partialResults = this.capResultsForStorage(
           discoveryResults.results,
@@ -203,7 +334,8 @@ export class DailyDiscoveryRunner {
       }
 
       // Check if we stopped due to time budget
-      if (timeBudget.isExpired()) {
+      const timeBudgetExpired = timeBudget.isExpired();
+      if (timeBudgetExpired) {
         stoppedEarly = true;
         stoppedReason = 'time_budget';
         console.log(
@@ -211,13 +343,26 @@ export class DailyDiscoveryRunner {
         );
       }
 
-      // Persist results (unless dry run)
-      const persistResult = dryRun
+      // Drop results on listed domains from every channel (block, competitor, customer)
+      const listed = filterListedResults(discoveryResults.results, domainList);
+      discoveryResults.results = listed.results;
+      const domainListHits = mergeDomainListHits({ ...discoveryResults.domainListHits }, listed.hits);
+
+      await progress.phase(
+        'storing',
+        dryRun || reviewMode
+          ? `Keeping ${discoveryResults.results.length} results for ${dryRun ? 'preview' : 'review'}`
+          : `Saving ${discoveryResults.results.length} results`
+      );
+
+      // Persist results (unless dry run, or held for review)
+      const persistResult = dryRun || reviewMode
         ? this.simulatePersistence(discoveryResults.results.length)
         : await this.persistWithLimits(
             discoveryResults.results,
             maxCompanies,
             maxLeads,
+            domainList,
             (reason) => {
               stoppedEarly = true;
               stoppedReason = reason;
@@ -233,10 +378,41 @@ export class DailyDiscoveryRunner {
         maxLeads
       );
 
+      // Queries the time budget (or, for a resumed run, the quota) left over, for a continuation run
+      const checkpointQueries = previousCheckpoint ? plannedQueries : queries;
+      const checkpoint = timeBudgetExpired || queries.length < checkpointQueries.length
+        ? buildRunCheckpoint(
+            checkpointQueries,
+            discoveryResults.searchQueries,
+            discoveryResults.scrapedUrls,
+            resultsToStore.length,
+            previousCheckpoint
+          )
+        : undefined;
+
+      // Novelty against earlier runs of the same intent, and the yield of each query
+      const novelty = await this.trackRunYield(
+        run.id,
+        intentId,
+        queryPoolKey,
+        queries,
+        discoveryResults.searchQueries,
+        resultsToStore
+      );
+
       // Build comprehensive stats
       const stats: DiscoveryRunStats = {
         channelResults: discoveryResults.channelResults,
         channelErrors,
+        searchQueries: discoveryResults.searchQueries,
+        queryPoolSize: queryPool.length,
+        searchProviderCounts: this.countSearchProviders(discoveryResults.searchQueries),
+        searchCache: this.summarizeSearchCache(discoveryResults.searchQueries),
+        blockedUrls: discoveryResults.blockedUrls?.slice(0, 100),
+        blockedUrlCounts: countBlockedFetches(discoveryResults.blockedUrls),
+        domainListHits: Object.keys(domainListHits).length > 0 ? domainListHits : undefined,
+        filteredOutCount: discoveryResults.filteredOut?.length ?? 0,
+        novelty,
         totalDiscovered: discoveryResults.totalBeforeDedupe,
         totalAfterDedupe: discoveryResults.totalAfterDedupe,
         companiesCreated: persistResult.companiesCreated,
@@ -252,6 +428,9 @@ export class DailyDiscoveryRunner {
         durationMs: Date.now() - startTime,
         stoppedEarly,
         stoppedReason,
+        queriesPending: checkpoint?.pendingQueries.length,
+        resumedFromRunId: resumeFromRunId,
+        quota,
         limitsUsed,
         intentConfig,
       };
@@ -266,8 +445,30 @@ export class DailyDiscoveryRunner {
           ? 'completed' 
           : 'completed';
 
+      // Count the hits on the listed domains
+      await recordDomainListHits(domainListHits);
+
+      await progress.phase(
+        'finished',
+        `Run completed: ${persistResult.companiesCreated} companies, ${persistResult.leadsCreated} leads created` +
+          (checkpoint ? ` (${checkpoint.pendingQueries.length} queries left for a continuation)` : '')
+      );
+
       // Update run record with results
-      await this.completeRun(run.id, stats, finalStatus, resultsToStore);
+      await this.completeRun(
+        run.id,
+        stats,
+        finalStatus,
+        resultsToStore,
+        this.capFilteredForStorage(discoveryResults.filteredOut),
+        checkpoint
+      );
+
+      if (checkpoint) {
+        console.log(
+          `[DiscoveryRunner] Run ${run.id} checkpointed: ${checkpoint.pendingQueries.length} of ${queries.length} queries left`
+        );
+      }
 
       return {
         success: true,
@@ -275,6 +476,7 @@ export class DailyDiscoveryRunner {
         status: finalStatus as 'completed' | 'completed_with_errors',
         dryRun,
         stats,
+        checkpoint,
       };
     } catch (error) {
       const errorMessage =
@@ -297,10 +499,13 @@ export class DailyDiscoveryRunner {
         errors: [{ type: 'fatal', message: errorMessage }],
         durationMs: Date.now() - startTime,
         stoppedEarly: false,
+        resumedFromRunId: resumeFromRunId,
         limitsUsed,
         intentConfig,
       };
 
+      await progress.phase('finished', `Run failed: ${errorMessage}`);
+
       // Mark run as failed (no results to store on failure)
       await this.failRun(run.id, errorMessage, failureStats);
 
@@ -340,6 +545,9 @@ export class DailyDiscoveryRunner {
       channelResults: Record<string, number>;
       totalBeforeDedupe: number;
       totalAfterDedupe: number;
+      searchQueries?: SearchQueryRecord[];
+      blockedUrls?: BlockedFetch[];
+      domainListHits?: DomainListHits;
     },
     partialResultsToStore?: import('../types').DiscoveryResult[]
   ): Promise<RunResult> {
@@ -348,6 +556,12 @@ export class DailyDiscoveryRunner {
     const stats: DiscoveryRunStats = {
       channelResults: partialDiscoveryResults?.channelResults || {},
       channelErrors,
+      searchQueries: partialDiscoveryResults?.searchQueries,
+      searchProviderCounts: this.countSearchProviders(partialDiscoveryResults?.searchQueries),
+      searchCache: this.summarizeSearchCache(partialDiscoveryResults?.searchQueries),
+      blockedUrls: partialDiscoveryResults?.blockedUrls?.slice(0, 100),
+      blockedUrlCounts: countBlockedFetches(partialDiscoveryResults?.blockedUrls),
+      domainListHits: partialDiscoveryResults?.domainListHits,
       totalDiscovered: partialDiscoveryResults?.totalBeforeDedupe || 0,
       totalAfterDedupe: partialDiscoveryResults?.totalAfterDedupe || 0,
       companiesCreated: 0,
@@ -385,15 +599,171 @@ export class DailyDiscoveryRunner {
     };
   }
 
+  /**
+   * Finish a run that today's remaining quota cannot cover (status skipped_budget)
+   */
+  private async refuseRun(
+    runId: string,
+    dryRun: boolean,
+    startTime: number,
+    limitsUsed: RunLimitsUsed,
+    intentConfig: IntentConfigSnapshot | undefined,
+    quota: RunQuotaPlan,
+    resumeFromRunId?: string,
+    checkpoint?: DiscoveryRunCheckpoint
+  ): Promise<RunResult> {
+    const reason = quota.reason ?? 'Daily discovery quota exhausted';
+    console.log(`[DiscoveryRunner] Run ${runId} refused: ${reason}`);
+
+    const stats: DiscoveryRunStats = {
+      channelResults: {},
+      channelErrors: {},
+      totalDiscovered: 0,
+      totalAfterDedupe: 0,
+      companiesCreated: 0,
+      companiesSkipped: 0,
+      contactsCreated: 0,
+      contactsSkipped: 0,
+      leadsCreated: 0,
+      leadsSkipped: 0,
+      errors: [{ type: 'quota', message: reason }],
+      durationMs: Date.now() - startTime,
+      stoppedEarly: false,
+      resumedFromRunId: resumeFromRunId,
+      quota,
+      limitsUsed,
+      intentConfig,
+    };
+
+    await prisma.discoveryRun.update({
+      where: { id: runId },
+      data: {
+        status: 'skipped_budget',
+        finishedAt: new Date(),
+        error: reason,
+        stats: stats as object,
+        checkpointJson: checkpoint ? (checkpoint as object) : undefined,
+      },
+    });
+
+    return {
+      success: false,
+      runId,
+      status: 'skipped_budget',
+      dryRun,
+      stats,
+      error: reason,
+    };
+  }
+
+  /**
+   * Check a run against today's remaining quota
+   * The run goes ahead unchecked (logged) if the usage ledger cannot be read.
+   */
+  private async checkQuota(
+    plannedQueries: number,
+    searchProviders: SearchProviderType[],
+    scraping: boolean
+  ): Promise<RunQuotaPlan | undefined> {
+    try {
+      return await checkRunQuota(plannedQueries, searchProviders, scraping);
+    } catch (error) {
+      console.warn(
+        '[DiscoveryRunner] Could not check usage quota:',
+        error instanceof Error ? error.message : error
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Pick the run's queries from the pool by stored query yield
+   * Falls back to the start of the pool if the stats cannot be loaded
+   */
+  private async selectQueries(pool: string, specs: QuerySpec[], maxQueries: number): Promise<QuerySpec[]> {
+    try {
+      return await selectPoolQueries(pool, specs, maxQueries);
+    } catch (error) {
+      console.warn(
+        `[DiscoveryRunner] Could not load query stats for pool ${pool}:`,
+        error instanceof Error ? error.message : error
+      );
+      return specs.slice(0, maxQueries);
+    }
+  }
+
+  /**
+   * Novelty of the run's results (intent runs, for run stats) and the yield of
+   * each executed query (for query rotation)
+   * Failures are logged only - both are informational and must not fail the run
+   */
+  private async trackRunYield(
+    runId: string,
+    intentId: string | undefined,
+    pool: string,
+    queries: QuerySpec[],
+    searchQueries: SearchQueryRecord[] | undefined,
+    results: import('../types').DiscoveryResult[]
+  ): Promise<RunNovelty | undefined> {
+    let novelty: RunNovelty | undefined;
+    try {
+      const seen = await loadSeenResultKeys(intentId ?? null, runId);
+      novelty = intentId ? runNovelty(results, seen.keys, seen.comparedRuns) : undefined;
+      await recordQueryYield(pool, runId, queries, searchQueries, results, seen.keys);
+    } catch (error) {
+      console.warn(
+        `[DiscoveryRunner] Could not record novelty / query yield for run ${runId}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+    return novelty;
+  }
+
+  /**
+   * Count queries served per search provider (for run stats)
+   */
+  private countSearchProviders(
+    searchQueries?: SearchQueryRecord[]
+  ): Record<string, number> | undefined {
+    if (!searchQueries || searchQueries.length === 0) {
+      return undefined;
+    }
+
+    const counts: Record<string, number> = {};
+    for (const record of searchQueries) {
+      const key = record.provider ?? 'failed';
+      counts[key] = (counts[key] || 0) + 1;
+    }
+    return counts;
+  }
+
+  /**
+   * Summarize search cache hits vs. paid API calls (for run stats)
+   */
+  private summarizeSearchCache(
+    searchQueries?: SearchQueryRecord[]
+  ): SearchCacheStats | undefined {
+    if (!searchQueries || searchQueries.length === 0) {
+      return undefined;
+    }
+
+    const cacheHits = searchQueries.filter((record) => record.cached).length;
+    return {
+      cacheHits,
+      cacheMisses: searchQueries.length - cacheHits,
+      paidApiCalls: searchQueries.reduce((sum, record) => sum + (record.apiCalls || 0), 0),
+    };
+  }
+
   /**
    * Execute discovery with safe channel error handling
    * If a channel fails, continue with others and record the error
    */
   private async executeDiscoverySafe(
-    queries: string[],
+    queries: QuerySpec[],
     timeBudget: TimeBudget,
     maxCompanies: number,
-    channels: Array<'google' | 'keyword'>,
+    channels: Array<'google' | 'keyword' | 'tenders' | 'linkedin' | 'social'>,
     channelErrors: Record<string, string>,
     includeKeywords?: string[],
     excludeKeywords?: string[],
@@ -404,7 +774,15 @@ export class DailyDiscoveryRunner {
       relevanceThreshold?: number;
     },
     enableScraping?: boolean,
-    runId?: string
+    runId?: string,
+    searchProviders?: SearchProviderType[],
+    searchCacheTtlHours?: number,
+    linkedInExport?: LinkedInExport,
+    socialPages?: SocialEventPage[],
+    crawlExhibitorLists?: boolean,
+    domainList?: DomainList,
+    skipUrls?: string[],
+    progress?: RunProgressTracker
   ) {
     // Check time budget before starting
     if (timeBudget.isExpired()) {
@@ -427,7 +805,8 @@ export class DailyDiscoveryRunner {
           maxResults: maxCompanies,
         },
       },
-      searchCriteria: queries,
+      // Later result pages keep their offset (first pages stay plain strings for the keyword channel)
+      searchCriteria: queries.map((spec) => (spec.start > 1 ? spec : spec.query)),
       parameters: {
         maxResults: maxCompanies,
         timeout: timeBudget.remainingMs(),
@@ -447,6 +826,16 @@ export class DailyDiscoveryRunner {
         // Pass analysis config for scraping-enabled discovery
         analysisConfig,
         enableScraping,
+        searchProviders,
+        searchCacheTtlHours,
+        linkedInExport,
+        socialPages,
+        crawlExhibitorLists,
+        domainList,
+        // Search channels start no new query once the time budget is used up
+        deadline: Date.now() + timeBudget.remainingMs(),
+        skipUrls,
+        onProgress: progress ? (event) => progress.handle(event) : undefined,
         // Legacy support
         includeKeywords,
         excludeKeywords,
@@ -496,11 +885,12 @@ export class DailyDiscoveryRunner {
     results: import('../types').DiscoveryResult[],
     maxCompanies: number,
     maxLeads: number,
+    domainList: DomainList,
     onStopEarly: (reason: 'company_limit' | 'lead_limit') => void
   ) {
     // For MVP, use existing persistDiscoveryResults
     // TODO: Add incremental persistence with limit checking in Phase 5B
-    const persistResult = await persistDiscoveryResults(results);
+    const persistResult = await persistDiscoveryResults(results, { domainList });
 
     // Check if we hit limits (for logging, not stopping mid-persist in MVP)
     if (persistResult.companiesCreated >= maxCompanies) {
@@ -533,25 +923,40 @@ export class DailyDiscoveryRunner {
    */
   private async createRunRecord(options: {
     dryRun: boolean;
+    reviewMode: boolean;
     mode: string;
     triggeredBy: string;
     triggeredById?: string;
     intentId?: string;
     intentName?: string;
+    resumeFromRunId?: string;
   }) {
     return prisma.discoveryRun.create({
       data: {
         status: 'pending',
         mode: options.mode,
         dryRun: options.dryRun,
+        reviewMode: options.reviewMode,
         triggeredBy: options.triggeredBy,
         triggeredById: options.triggeredById,
         intentId: options.intentId,
         intentName: options.intentName,
+        resumedFromRunId: options.resumeFromRunId,
       },
     });
   }
 
+  /**
+   * Checkpoint stored on a run (null if it has none)
+   */
+  private async loadCheckpoint(runId: string): Promise<DiscoveryRunCheckpoint | null> {
+    const run = await prisma.discoveryRun.findUnique({
+      where: { id: runId },
+      select: { checkpointJson: true },
+    });
+    return parseRunCheckpoint(run?.checkpointJson);
+  }
+
   /**
    * Update run status
    */
@@ -590,6 +995,19 @@ export class DailyDiscoveryRunner {
     return capped;
   }
 
+  /**
+   * Filtered-out sites kept for the run, highest relevance score first
+   * (the sites closest to the threshold are the most useful for tuning)
+   */
+  private capFilteredForStorage(filteredOut?: FilteredOutResult[]): FilteredOutResult[] | undefined {
+    if (!filteredOut || filteredOut.length === 0) {
+      return undefined;
+    }
+    return [...filteredOut]
+      .sort((a, b) => b.relevance.score - a.relevance.score)
+      .slice(0, MAX_FILTERED_RESULTS_STORED);
+  }
+
   /**
    * Mark run as completed with stats
    * NOTE: resultsJson is saved for both dry-run and real-run to enable UI display
@@ -598,7 +1016,9 @@ export class DailyDiscoveryRunner {
     runId: string,
     stats: DiscoveryRunStats,
     status: string = 'completed',
-    resultsJson?: import('../types').DiscoveryResult[]
+    resultsJson?: import('../types').DiscoveryResult[],
+    filteredResultsJson?: FilteredOutResult[],
+    checkpoint?: DiscoveryRunCheckpoint
   ) {
     return prisma.discoveryRun.update({
       where: { id: runId },
@@ -609,6 +1029,8 @@ export class DailyDiscoveryRunner {
         // Always save resultsJson for UI display (both dry-run and real-run)
         // resultsJson contains capped results for display, even if no records were created
         resultsJson: resultsJson ? (resultsJson as object) : undefined,
+        filteredResultsJson: filteredResultsJson ? (filteredResultsJson as object) : undefined,
+        checkpointJson: checkpoint ? (checkpoint as object) : undefined,
         createdCompaniesCount: stats.companiesCreated,
         createdContactsCount: stats.contactsCreated,
         createdLeadsCount: stats.leadsCreated,
@@ -641,6 +1063,38 @@ export class DailyDiscoveryRunner {
     });
   }
 
+  /**
+   * Record a run that was not executed (e.g. scheduler skipped it because
+   * the daily query budget is exhausted). The run is stored with a
+   * terminal status so it shows up in run history.
+   */
+  async recordSkippedRun(options: {
+    status: 'skipped_budget';
+    reason: string;
+    mode?: 'daily' | 'manual' | 'test';
+    dryRun?: boolean;
+    triggeredBy: string;
+    intentId?: string;
+    intentName?: string;
+  }): Promise<string> {
+    const now = new Date();
+    const run = await prisma.discoveryRun.create({
+      data: {
+        status: options.status,
+        mode: options.mode ?? 'daily',
+        dryRun: options.dryRun ?? false,
+        triggeredBy: options.triggeredBy,
+        intentId: options.intentId,
+        intentName: options.intentName,
+        startedAt: now,
+        finishedAt: now,
+        error: options.reason,
+      },
+    });
+
+    return run.id;
+  }
+
   /**
    * Get recent runs for observability
    */
@@ -0,0 +1,128 @@
+/**
+ * Unit Tests for discovery run checkpoints
+ *
+ * Simple test runner compatible with repo conventions.
+ * Run with: tsx lib/discovery/runner/checkpoint.test.ts
+ */
+
+import { buildRunCheckpoint, parseRunCheckpoint, canAutoContinue, MAX_AUTO_CONTINUATIONS } from './checkpoint';
+
+// Simple assertion helper
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string): void {
+  if (actual !== expected) {
+    throw new Error(`Assertion failed: ${message}. Expected: ${expected}, Actual: ${actual}`);
+  }
+}
+
+const planned = [
+  { query: 'a', start: 1 },
+  { query: 'b', start: 1 },
+  { query: 'b', start: 11 },
+  { query: 'c', start: 1 },
+];
+
+// Test cases
+function testBuildRunCheckpoint() {
+  console.log('Test 1: Checkpoint holds unreached queries and accumulates along the chain');
+
+  const complete = buildRunCheckpoint(
+    planned,
+    planned.map((spec) => ({ ...spec, resultsCount: 10 })),
+    ['https://a.co.za'],
+    3
+  );
+  assertEqual(complete, undefined, 'No checkpoint when every query ran');
+
+  const first = buildRunCheckpoint(
+    planned,
+    [{ query: 'a', resultsCount: 10 }, { query: 'b', resultsCount: 10 }],
+    ['https://a.co.za', 'https://b.co.za'],
+    2
+  );
+  assert(!!first, 'Checkpoint expected when queries are left');
+  assertEqual(first!.pendingQueries.map((spec) => `${spec.start}:${spec.query}`).join(','), '11:b,1:c', 'Later result page is pending separately');
+  assertEqual(first!.completedQueries.length, 2, 'Completed queries recorded');
+  assertEqual(first!.continuation, 0, 'First run is not a continuation');
+
+  const second = buildRunCheckpoint(
+    first!.pendingQueries,
+    [{ query: 'b', start: 11, resultsCount: 10 }],
+    ['https://b.co.za', 'https://c.co.za'],
+    4,
+    first
+  );
+  assert(!!second, 'Continuation should checkpoint its remaining query');
+  assertEqual(second!.pendingQueries.length, 1, 'One query left');
+  assertEqual(second!.completedQueries.length, 3, 'Completed queries accumulate');
+  assertEqual(second!.scrapedUrls.length, 3, 'Scraped websites are deduplicated across runs');
+  assertEqual(second!.resultsSoFar, 6, 'Results accumulate');
+  assertEqual(second!.continuation, 1, 'Continuation counted');
+
+  console.log('  ✅ Checkpoints built');
+}
+
+function testParseAndAutoContinue() {
+  console.log('Test 2: Stored checkpoints are parsed and auto-continuation is capped');
+
+  assertEqual(parseRunCheckpoint(null), null, 'Missing checkpoint');
+  assertEqual(parseRunCheckpoint({ pendingQueries: [] }), null, 'Nothing pending');
+
+  const parsed = parseRunCheckpoint({ pendingQueries: [{ query: 'c', start: 1 }] });
+  assert(!!parsed, 'Checkpoint with pending queries should parse');
+  assertEqual(parsed!.scrapedUrls.length, 0, 'Missing fields default');
+  assertEqual(parsed!.continuation, 0, 'Missing continuation defaults to 0');
+
+  assert(canAutoContinue(parsed), 'Fresh checkpoint continues');
+  assert(!canAutoContinue({ ...parsed!, continuation: MAX_AUTO_CONTINUATIONS }), 'Chain stops at the cap');
+  assert(!canAutoContinue(null), 'No checkpoint, nothing to continue');
+
+  console.log('  ✅ Checkpoints parsed');
+}
+
+function runTests() {
+  console.log('='.repeat(60));
+  console.log('Discovery Run Checkpoint Unit Tests');
+  console.log('='.repeat(60));
+  console.log('');
+
+  const tests = [
+    testBuildRunCheckpoint,
+    testParseAndAutoContinue,
+  ];
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const test of tests) {
+    try {
+      test();
+      passed++;
+      console.log('');
+    } catch (error) {
+      failed++;
+      console.error(`  ❌ Test failed: ${error instanceof Error ? error.message : String(error)}`);
+      console.log('');
+    }
+  }
+
+  console.log('='.repeat(60));
+  console.log(`Tests: ${passed} passed, ${failed} failed (total: ${tests.length})`);
+  console.log('='.repeat(60));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
@@ -0,0 +1,82 @@
+/**
+ * Phase 5A - Discovery Run Checkpoints
+ *
+ * A run that stops on its time budget records which of its selected queries
+ * it did not reach. A continuation run (resumeFromRunId) executes those and
+ * skips the sites already scraped, until the run's queries are exhausted.
+ */
+
+import type { SearchQueryRecord } from '../search';
+import { querySpecKey, type QuerySpec } from '../queries';
+import type { DiscoveryRunCheckpoint } from './types';
+
+/** Scraped websites carried along a chain of continuation runs */
+export const MAX_CHECKPOINT_SCRAPED_URLS = 2000;
+
+/** Continuations the daily job and scheduler chain automatically per run */
+export const MAX_AUTO_CONTINUATIONS = 10;
+
+/**
+ * Checkpoint for a run that stopped on its time budget
+ *
+ * @param planned - Queries the run set out to execute
+ * @param searchQueries - Queries the search channels executed
+ * @param scrapedUrls - Websites the run scraped
+ * @param resultsCount - Results the run stored
+ * @param previous - Checkpoint of the run this one continues
+ * @returns Undefined when every planned query was executed
+ */
+export function buildRunCheckpoint(
+  planned: QuerySpec[],
+  searchQueries: SearchQueryRecord[] | undefined,
+  scrapedUrls: string[] | undefined,
+  resultsCount: number,
+  previous?: DiscoveryRunCheckpoint | null
+): DiscoveryRunCheckpoint | undefined {
+  const searched = new Set(
+    (searchQueries ?? []).map((record) => querySpecKey({ query: record.query, start: record.start ?? 1 }))
+  );
+  const pendingQueries = planned.filter((spec) => !searched.has(querySpecKey(spec)));
+  if (pendingQueries.length === 0) {
+    return undefined;
+  }
+
+  const completedQueries = planned.filter((spec) => searched.has(querySpecKey(spec)));
+  const scraped = new Set([...(previous?.scrapedUrls ?? []), ...(scrapedUrls ?? [])]);
+
+  return {
+    pendingQueries,
+    completedQueries: [...(previous?.completedQueries ?? []), ...completedQueries],
+    scrapedUrls: [...scraped].slice(-MAX_CHECKPOINT_SCRAPED_URLS),
+    resultsSoFar: (previous?.resultsSoFar ?? 0) + resultsCount,
+    continuation: previous ? previous.continuation + 1 : 0,
+  };
+}
+
+/**
+ * Read a stored checkpoint (null if missing or malformed)
+ */
+export function parseRunCheckpoint(value: unknown): DiscoveryRunCheckpoint | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const checkpoint = value as Partial<DiscoveryRunCheckpoint>;
+  if (!Array.isArray(checkpoint.pendingQueries) || checkpoint.pendingQueries.length === 0) {
+    return null;
+  }
+  return {
+    pendingQueries: checkpoint.pendingQueries,
+    completedQueries: Array.isArray(checkpoint.completedQueries) ? checkpoint.completedQueries : [],
+    scrapedUrls: Array.isArray(checkpoint.scrapedUrls) ? checkpoint.scrapedUrls : [],
+    resultsSoFar: typeof checkpoint.resultsSoFar === 'number' ? checkpoint.resultsSoFar : 0,
+    continuation: typeof checkpoint.continuation === 'number' ? checkpoint.continuation : 0,
+  };
+}
+
+/**
+ * Whether a run's checkpoint should be continued automatically
+ * (the chain is capped; a run beyond the cap can still be resumed by hand)
+ */
+export function canAutoContinue(checkpoint: DiscoveryRunCheckpoint | null | undefined): boolean {
+  return !!checkpoint && checkpoint.continuation < MAX_AUTO_CONTINUATIONS;
+}
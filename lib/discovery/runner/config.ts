@@ -42,6 +42,7 @@ export const DISCOVERY_LIMITS = {
 /**
  * Default discovery queries for MVP
  * These are hardcoded for Phase 5A; will be configurable in Phase 5B
+ * Runs without an intent rotate through them (see lib/discovery/queries)
  */
 export const DEFAULT_DISCOVERY_QUERIES = [
   'corporate clothing suppliers South Africa',
@@ -64,7 +65,9 @@ export function loadConfig(): DiscoveryRunnerConfig {
   const enabledChannels = channelsEnv
     .split(',')
     .map((c) => c.trim().toLowerCase())
-    .filter((c): c is 'google' | 'keyword' => c === 'google' || c === 'keyword');
+    .filter((c): c is 'google' | 'keyword' | 'tenders' | 'social' =>
+      c === 'google' || c === 'keyword' || c === 'tenders' || c === 'social'
+    );
 
   return {
     enabled: process.env.DISCOVERY_RUNNER_ENABLED === 'true',
@@ -108,13 +111,6 @@ export function getLimitsForMode(mode: 'daily' | 'manual' | 'test'): {
   return DISCOVERY_LIMITS.daily;
 }
 
-/**
- * Get discovery queries (up to maxQueries)
- */
-export function getDiscoveryQueries(maxQueries: number): string[] {
-  return DEFAULT_DISCOVERY_QUERIES.slice(0, maxQueries);
-}
-
 /**
  * Get default intent IDs for daily runs
  * Can be overridden via DISCOVERY_DAILY_INTENTS env var (comma-separated)
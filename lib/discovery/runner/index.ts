@@ -3,9 +3,30 @@
  */
 
 export { DailyDiscoveryRunner, discoveryRunner } from './DailyDiscoveryRunner';
+export { runIntentDiscovery, getPlannedQueryCount } from './runIntentDiscovery';
+export { resumeDiscoveryRun, getRunResumeState } from './resumeDiscoveryRun';
+export type { RunResumeState, ResumeRunResult } from './resumeDiscoveryRun';
+export {
+  MAX_CHECKPOINT_SCRAPED_URLS,
+  MAX_AUTO_CONTINUATIONS,
+  buildRunCheckpoint,
+  parseRunCheckpoint,
+  canAutoContinue,
+} from './checkpoint';
+export {
+  MAX_PROGRESS_LOG_ENTRIES,
+  PROGRESS_WRITE_INTERVAL_MS,
+  RunProgressTracker,
+  createRunProgress,
+  setRunPhase,
+  applyProgressEvent,
+  parseRunProgress,
+  isRunActive,
+  getRunProgressSnapshot,
+} from './progress';
+export type { RunProgressSnapshot } from './progress';
 export { 
   loadConfig, 
-  getDiscoveryQueries, 
   TimeBudget, 
   DEFAULT_DISCOVERY_QUERIES,
   getLimitsForMode,
@@ -16,6 +37,10 @@ export type {
   RunOptions,
   RunResult,
   DiscoveryRunStats,
+  DiscoveryRunCheckpoint,
+  DiscoveryRunPhase,
+  DiscoveryRunLogEntry,
+  DiscoveryRunProgress,
   DiscoveryJobRequest,
   DiscoveryJobResponse,
   DiscoveryJobErrorResponse,
@@ -0,0 +1,128 @@
+/**
+ * Unit Tests for live discovery run progress
+ *
+ * Simple test runner compatible with repo conventions.
+ * Run with: tsx lib/discovery/runner/progress.test.ts
+ */
+
+import {
+  createRunProgress,
+  setRunPhase,
+  applyProgressEvent,
+  parseRunProgress,
+  MAX_PROGRESS_LOG_ENTRIES,
+} from './progress';
+
+// Simple assertion helper
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string): void {
+  if (actual !== expected) {
+    throw new Error(`Assertion failed: ${message}. Expected: ${expected}, Actual: ${actual}`);
+  }
+}
+
+const now = new Date('2026-10-20T08:00:00Z');
+
+// Test cases
+function testApplyProgressEvents() {
+  console.log('Test 1: Phases and query events update counters and the log');
+
+  let progress = setRunPhase(createRunProgress(now), 'searching', 'Searching 2 queries', now, 2);
+  assertEqual(progress.queriesTotal, 2, 'Query total set when searching starts');
+
+  progress = applyProgressEvent(
+    progress,
+    { type: 'query_started', channel: 'google', query: 'branding agency', start: 11, index: 0, total: 2 },
+    now
+  );
+  assertEqual(progress.currentQuery, 'branding agency', 'Current query tracked');
+  assertEqual(progress.log[progress.log.length - 1].message, 'Query 1/2: "branding agency" (from result 11)', 'Start logged');
+
+  progress = applyProgressEvent(
+    progress,
+    { type: 'query_completed', channel: 'google', query: 'branding agency', urlsScraped: 8, resultsKept: 3, resultsFiltered: 5 },
+    now
+  );
+  progress = applyProgressEvent(
+    progress,
+    { type: 'query_completed', channel: 'google', query: 'print shop', urlsScraped: 4, resultsKept: 1, resultsFiltered: 3 },
+    now
+  );
+  assertEqual(progress.queriesCompleted, 2, 'Completed queries counted');
+  assertEqual(progress.urlsScraped, 12, 'Scraped sites summed');
+  assertEqual(progress.resultsKept, 4, 'Kept results summed');
+  assertEqual(progress.resultsFiltered, 8, 'Filtered results summed');
+
+  progress = setRunPhase(progress, 'finished', 'Run completed', now);
+  assertEqual(progress.currentQuery, undefined, 'Current query cleared after searching');
+  assertEqual(progress.log.length, 5, 'Every phase and event logged');
+
+  console.log('  ✅ Progress tracked');
+}
+
+function testLogCapAndParse() {
+  console.log('Test 2: Log is capped and stored progress is parsed');
+
+  let progress = createRunProgress(now);
+  for (let i = 0; i < MAX_PROGRESS_LOG_ENTRIES + 5; i++) {
+    progress = applyProgressEvent(progress, { type: 'message', channel: 'google', message: `line ${i}` }, now);
+  }
+  assertEqual(progress.log.length, MAX_PROGRESS_LOG_ENTRIES, 'Log capped');
+  assertEqual(progress.log[0].message, 'line 5', 'Oldest lines dropped first');
+
+  assertEqual(parseRunProgress(null), null, 'Missing progress');
+  assertEqual(parseRunProgress({ queriesTotal: 3 }), null, 'Progress without a phase');
+  const parsed = parseRunProgress({ phase: 'searching', queriesTotal: 3 });
+  assert(!!parsed, 'Partial progress should parse');
+  assertEqual(parsed!.queriesCompleted, 0, 'Missing counters default to 0');
+  assertEqual(parsed!.log.length, 0, 'Missing log defaults to empty');
+
+  console.log('  ✅ Log capped and parsed');
+}
+
+function runTests() {
+  console.log('='.repeat(60));
+  console.log('Discovery Run Progress Unit Tests');
+  console.log('='.repeat(60));
+  console.log('');
+
+  const tests = [
+    testApplyProgressEvents,
+    testLogCapAndParse,
+  ];
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const test of tests) {
+    try {
+      test();
+      passed++;
+      console.log('');
+    } catch (error) {
+      failed++;
+      console.error(`  ❌ Test failed: ${error instanceof Error ? error.message : String(error)}`);
+      console.log('');
+    }
+  }
+
+  console.log('='.repeat(60));
+  console.log(`Tests: ${passed} passed, ${failed} failed (total: ${tests.length})`);
+  console.log('='.repeat(60));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
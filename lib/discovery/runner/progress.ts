@@ -0,0 +1,227 @@
+/**
+ * Phase 5A - Live Discovery Run Progress
+ *
+ * The runner records what a run is doing (phase, queries done, URLs scraped,
+ * results kept and filtered, a short event log) in DiscoveryRun.progressJson
+ * while it executes. The run events stream reads it back for the dashboard.
+ */
+
+import { prisma } from '../../prisma';
+import type { DiscoveryProgressEvent } from '../types';
+import type { DiscoveryRunPhase, DiscoveryRunProgress } from './types';
+
+/** Log lines kept on the run (oldest dropped first) */
+export const MAX_PROGRESS_LOG_ENTRIES = 100;
+
+/** Minimum time between progress writes for channel events */
+export const PROGRESS_WRITE_INTERVAL_MS = 1000;
+
+/**
+ * Progress of a run that has just been created
+ */
+export function createRunProgress(now: Date = new Date()): DiscoveryRunProgress {
+  return {
+    phase: 'starting',
+    queriesTotal: 0,
+    queriesCompleted: 0,
+    urlsScraped: 0,
+    resultsKept: 0,
+    resultsFiltered: 0,
+    log: [],
+    updatedAt: now.toISOString(),
+  };
+}
+
+function withLogEntry(progress: DiscoveryRunProgress, message: string, now: Date): DiscoveryRunProgress {
+  return {
+    ...progress,
+    log: [...progress.log, { at: now.toISOString(), message }].slice(-MAX_PROGRESS_LOG_ENTRIES),
+    updatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Move a run to its next phase, with a log line
+ *
+ * @param queriesTotal - Queries the run will execute (set when searching starts)
+ */
+export function setRunPhase(
+  progress: DiscoveryRunProgress,
+  phase: DiscoveryRunPhase,
+  message: string,
+  now: Date = new Date(),
+  queriesTotal?: number
+): DiscoveryRunProgress {
+  return withLogEntry(
+    {
+      ...progress,
+      phase,
+      queriesTotal: queriesTotal ?? progress.queriesTotal,
+      currentQuery: phase === 'searching' ? progress.currentQuery : undefined,
+    },
+    message,
+    now
+  );
+}
+
+/**
+ * Apply a channel progress event
+ */
+export function applyProgressEvent(
+  progress: DiscoveryRunProgress,
+  event: DiscoveryProgressEvent,
+  now: Date = new Date()
+): DiscoveryRunProgress {
+  const page = 'start' in event && event.start && event.start > 1 ? ` (from result ${event.start})` : '';
+
+  switch (event.type) {
+    case 'query_started':
+      return withLogEntry(
+        {
+          ...progress,
+          currentQuery: event.query,
+          queriesTotal: Math.max(progress.queriesTotal, event.total),
+        },
+        `Query ${event.index + 1}/${event.total}: "${event.query}"${page}`,
+        now
+      );
+    case 'query_completed':
+      return withLogEntry(
+        {
+          ...progress,
+          queriesCompleted: progress.queriesCompleted + 1,
+          urlsScraped: progress.urlsScraped + event.urlsScraped,
+          resultsKept: progress.resultsKept + event.resultsKept,
+          resultsFiltered: progress.resultsFiltered + event.resultsFiltered,
+        },
+        `"${event.query}"${page}: ${event.urlsScraped} sites scraped, ${event.resultsKept} kept, ${event.resultsFiltered} filtered out`,
+        now
+      );
+    case 'message':
+      return withLogEntry(progress, event.message, now);
+  }
+}
+
+/**
+ * Read stored progress (null if missing or malformed)
+ */
+export function parseRunProgress(value: unknown): DiscoveryRunProgress | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const progress = value as Partial<DiscoveryRunProgress>;
+  if (typeof progress.phase !== 'string') {
+    return null;
+  }
+  return {
+    ...createRunProgress(),
+    ...progress,
+    log: Array.isArray(progress.log) ? progress.log : [],
+  } as DiscoveryRunProgress;
+}
+
+/**
+ * Whether a run status means the run is still executing
+ */
+export function isRunActive(status: string): boolean {
+  return status === 'pending' || status === 'running';
+}
+
+/**
+ * Progress of one run, written to the run record
+ *
+ * Phase changes are written straight away; channel events at most once per
+ * PROGRESS_WRITE_INTERVAL_MS (the latest state is written when the interval
+ * ends). A failed write is logged and never fails the run.
+ */
+export class RunProgressTracker {
+  private runId: string;
+  private progress: DiscoveryRunProgress;
+  private lastWriteAt = 0;
+  private pendingWrite: ReturnType<typeof setTimeout> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(runId: string) {
+    this.runId = runId;
+    this.progress = createRunProgress();
+  }
+
+  /**
+   * Move to the next phase and save
+   */
+  async phase(phase: DiscoveryRunPhase, message: string, queriesTotal?: number): Promise<void> {
+    this.progress = setRunPhase(this.progress, phase, message, new Date(), queriesTotal);
+    await this.write();
+  }
+
+  /**
+   * Record a channel event (saved within PROGRESS_WRITE_INTERVAL_MS)
+   */
+  handle(event: DiscoveryProgressEvent): void {
+    this.progress = applyProgressEvent(this.progress, event);
+    if (this.pendingWrite) {
+      return;
+    }
+    const wait = this.lastWriteAt + PROGRESS_WRITE_INTERVAL_MS - Date.now();
+    if (wait <= 0) {
+      void this.write();
+      return;
+    }
+    this.pendingWrite = setTimeout(() => void this.write(), wait);
+    this.pendingWrite.unref?.();
+  }
+
+  private write(): Promise<void> {
+    if (this.pendingWrite) {
+      clearTimeout(this.pendingWrite);
+      this.pendingWrite = null;
+    }
+    this.lastWriteAt = Date.now();
+    const progress = this.progress;
+
+    // Writes are chained so an older snapshot never lands after a newer one
+    this.writes = this.writes.then(async () => {
+      try {
+        await prisma.discoveryRun.update({
+          where: { id: this.runId },
+          data: { progressJson: progress as object },
+        });
+      } catch (error) {
+        console.warn(
+          `[DiscoveryRunner] Could not save progress for run ${this.runId}:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    });
+    return this.writes;
+  }
+}
+
+/**
+ * Run status and live progress, as streamed to the dashboard
+ */
+export interface RunProgressSnapshot {
+  runId: string;
+  status: string;
+  cancelRequested: boolean;
+  progress: DiscoveryRunProgress | null;
+}
+
+/**
+ * Load a run's status and progress (null if the run does not exist)
+ */
+export async function getRunProgressSnapshot(runId: string): Promise<RunProgressSnapshot | null> {
+  const run = await prisma.discoveryRun.findUnique({
+    where: { id: runId },
+    select: { id: true, status: true, cancelRequestedAt: true, progressJson: true },
+  });
+  if (!run) {
+    return null;
+  }
+  return {
+    runId: run.id,
+    status: run.status,
+    cancelRequested: !!run.cancelRequestedAt,
+    progress: parseRunProgress(run.progressJson),
+  };
+}
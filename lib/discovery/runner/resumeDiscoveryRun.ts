@@ -0,0 +1,118 @@
+/**
+ * Phase 5A - Resume a Discovery Run
+ *
+ * Starts a continuation of a run that stopped on its time budget. Intent
+ * runs are continued with the intent's current configuration; the
+ * continuation keeps the original run's dry-run and review settings.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../prisma';
+import { getIntentById } from '../intents/intentStore';
+import { discoveryRunner } from './DailyDiscoveryRunner';
+import { runIntentDiscovery } from './runIntentDiscovery';
+import { parseRunCheckpoint } from './checkpoint';
+import { loadConfig } from './config';
+import type { DiscoveryRunCheckpoint, RunResult } from './types';
+
+/**
+ * Whether a run can be resumed, and the continuation if it already was
+ */
+export interface RunResumeState {
+  checkpoint: DiscoveryRunCheckpoint | null;
+  /** Continuation run, if the run was resumed */
+  continuationRunId: string | null;
+  resumable: boolean;
+}
+
+export type ResumeRunResult =
+  | { success: true; result: RunResult }
+  | { success: false; error: string };
+
+/**
+ * Load a run's checkpoint and continuation
+ */
+export async function getRunResumeState(runId: string): Promise<RunResumeState | null> {
+  const run = await prisma.discoveryRun.findUnique({
+    where: { id: runId },
+    select: { checkpointJson: true },
+  });
+  if (!run) {
+    return null;
+  }
+
+  const checkpoint = parseRunCheckpoint(run.checkpointJson);
+  const continuation = checkpoint
+    ? await prisma.discoveryRun.findUnique({ where: { resumedFromRunId: runId }, select: { id: true } })
+    : null;
+
+  return {
+    checkpoint,
+    continuationRunId: continuation?.id ?? null,
+    resumable: !!checkpoint && !continuation,
+  };
+}
+
+/**
+ * Run the continuation of a checkpointed run
+ *
+ * @param options.timeBudgetMs - Cap on the continuation's time budget (e.g. the time left in a job chunk)
+ */
+export async function resumeDiscoveryRun(
+  runId: string,
+  options: { triggeredBy: string; triggeredById?: string; timeBudgetMs?: number }
+): Promise<ResumeRunResult> {
+  const run = await prisma.discoveryRun.findUnique({
+    where: { id: runId },
+    select: { id: true, mode: true, dryRun: true, reviewMode: true, intentId: true },
+  });
+  if (!run) {
+    return { success: false, error: 'Discovery run not found' };
+  }
+
+  const state = await getRunResumeState(runId);
+  if (!state?.checkpoint) {
+    return { success: false, error: 'Run has no queries left to resume' };
+  }
+  if (state.continuationRunId) {
+    return { success: false, error: `Run was already resumed as ${state.continuationRunId}` };
+  }
+
+  try {
+    if (run.intentId) {
+      const intent = await getIntentById(run.intentId);
+      if (!intent) {
+        return { success: false, error: `Intent not found: ${run.intentId}` };
+      }
+      const result = await runIntentDiscovery(intent, {
+        dryRun: run.dryRun,
+        reviewMode: run.reviewMode,
+        triggeredBy: options.triggeredBy,
+        triggeredById: options.triggeredById,
+        resumeFromRunId: run.id,
+        timeBudgetMs: options.timeBudgetMs,
+      });
+      return { success: true, result };
+    }
+
+    const result = await discoveryRunner.run({
+      dryRun: run.dryRun,
+      reviewMode: run.reviewMode,
+      mode: run.mode as 'daily' | 'manual' | 'test',
+      triggeredBy: options.triggeredBy,
+      triggeredById: options.triggeredById,
+      resumeFromRunId: run.id,
+      timeBudgetMs:
+        options.timeBudgetMs !== undefined
+          ? Math.min(options.timeBudgetMs, loadConfig().maxRuntimeSeconds * 1000)
+          : undefined,
+    });
+    return { success: true, result };
+  } catch (error) {
+    // Lost a race with another continuation of the same run
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { success: false, error: 'Run was already resumed' };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Phase 5A - Run Discovery for a Single Intent (automated runs)
+ *
+ * Shared by the daily job (/api/jobs/discovery/run) and the scheduler tick
+ * (/api/jobs/discovery/tick). Applies per-intent daily limits.
+ */
+
+import type { DiscoveryIntent } from '../intents/types';
+import { applyIntent } from '../intents/applyIntent';
+import { getAnalysisConfigForIntent } from '../intents/catalog';
+import { buildQueryPool } from '../queries';
+import { discoveryRunner } from './DailyDiscoveryRunner';
+import { getDailyPerIntentLimits, loadConfig } from './config';
+import type { RunResult } from './types';
+
+/** Time budget of an automated intent run */
+const INTENT_RUN_TIME_BUDGET_MS = 60000;
+
+/**
+ * Number of queries an automated run of this intent will issue
+ * (rotated through the seed queries and their variants)
+ */
+export function getPlannedQueryCount(
+  intent: DiscoveryIntent,
+  perIntentLimits: ReturnType<typeof getDailyPerIntentLimits> = getDailyPerIntentLimits()
+): number {
+  const resolved = applyIntent(intent);
+  const pool = buildQueryPool(resolved.queries, {
+    priorityRegions: resolved.priorityRegions,
+    maxPages: loadConfig().maxPagesPerQuery,
+  });
+  return Math.min(pool.length, perIntentLimits.maxQueries);
+}
+
+/**
+ * Run discovery for a single intent
+ *
+ * @param options.resumeFromRunId - Continue a run of the intent that stopped on its time budget
+ * @param options.reviewMode - Override the intent's requireReview (resumed runs keep the original's)
+ * @param options.timeBudgetMs - Cap on the run's time budget (e.g. the time left in a job chunk)
+ */
+export async function runIntentDiscovery(
+  intent: DiscoveryIntent,
+  options: {
+    dryRun: boolean;
+    triggeredBy: string;
+    triggeredById?: string;
+    perIntentLimits?: ReturnType<typeof getDailyPerIntentLimits>;
+    resumeFromRunId?: string;
+    reviewMode?: boolean;
+    timeBudgetMs?: number;
+  }
+): Promise<RunResult> {
+  const { dryRun, triggeredBy } = options;
+  const perIntentLimits = options.perIntentLimits ?? getDailyPerIntentLimits();
+  const resolved = applyIntent(intent);
+  const analysisConfig = getAnalysisConfigForIntent(intent);
+
+  console.log(
+    JSON.stringify({
+      event: 'discovery_intent_started',
+      intentId: intent.id,
+      intentName: resolved.intentName,
+      queriesCount: getPlannedQueryCount(intent, perIntentLimits),
+      dryRun,
+      triggeredBy,
+      resumeFromRunId: options.resumeFromRunId,
+      timestamp: new Date().toISOString(),
+    })
+  );
+
+  const result = await discoveryRunner.run({
+    dryRun,
+    reviewMode: options.reviewMode ?? resolved.requireReview,
+    mode: 'daily',
+    triggeredBy,
+    triggeredById: options.triggeredById,
+    resumeFromRunId: options.resumeFromRunId,
+    intentId: resolved.intentId,
+    intentName: resolved.intentName,
+    queries: resolved.queries,
+    maxQueries: perIntentLimits.maxQueries,
+    priorityRegions: resolved.priorityRegions,
+    channels: resolved.channels,
+    searchProviders: resolved.searchProviders,
+    searchCacheTtlHours: resolved.searchCacheTtlHours,
+    crawlExhibitorLists: resolved.crawlExhibitorLists,
+    maxCompanies: perIntentLimits.maxCompanies,
+    maxLeads: perIntentLimits.maxLeads,
+    timeBudgetMs: Math.min(INTENT_RUN_TIME_BUDGET_MS, options.timeBudgetMs ?? INTENT_RUN_TIME_BUDGET_MS),
+    enableScraping: true,
+    analysisConfig,
+    includeKeywords: resolved.includeKeywords,
+    excludeKeywords: resolved.excludeKeywords,
+    intentConfig: {
+      intentId: resolved.intentId,
+      intentVersion: resolved.intentVersion,
+      intentName: resolved.intentName,
+      targetCountries: resolved.targetCountries,
+      queriesCount: resolved.queries.length,
+      includeKeywordsCount: resolved.includeKeywords.length,
+      excludeKeywordsCount: resolved.excludeKeywords.length,
+    },
+  });
+
+  console.log(
+    JSON.stringify({
+      event: 'discovery_intent_completed',
+      intentId: intent.id,
+      runId: result.runId,
+      success: result.success,
+      companiesCreated: result.stats.companiesCreated,
+      leadsCreated: result.stats.leadsCreated,
+      durationMs: result.stats.durationMs,
+      queriesPending: result.stats.queriesPending,
+      timestamp: new Date().toISOString(),
+    })
+  );
+
+  return result;
+}
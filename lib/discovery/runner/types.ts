@@ -4,6 +4,15 @@
  * Type definitions for the autonomous daily discovery runner.
  */
 
+import type { SearchProviderType, SearchQueryRecord, SearchCacheStats } from '../search';
+import type { LinkedInExport } from '../channels/linkedin';
+import type { SocialEventPage } from '../channels/social';
+import type { BlockedFetch, BlockedReason } from '../fetch';
+import type { DomainListHits } from '../domains';
+import type { RunNovelty } from '../diff';
+import type { QuerySpec } from '../queries';
+import type { RunQuotaPlan } from '../usage';
+
 /**
  * Configuration for discovery runner
  */
@@ -21,7 +30,7 @@ export interface DiscoveryRunnerConfig {
   /** Maximum runtime in seconds */
   maxRuntimeSeconds: number;
   /** Enabled discovery channels */
-  enabledChannels: Array<'google' | 'keyword'>;
+  enabledChannels: Array<'google' | 'keyword' | 'tenders' | 'social'>;
 }
 
 /**
@@ -34,6 +43,7 @@ export interface RunLimitsUsed {
   maxPagesPerQuery: number;
   maxRuntimeSeconds: number;
   channels: string[];
+  searchProviders?: string[];
 }
 
 /**
@@ -42,6 +52,7 @@ export interface RunLimitsUsed {
 export interface IntentConfigSnapshot {
   intentId: string;
   intentName: string;
+  intentVersion?: number;
   targetCountries: string[];
   queriesCount: number;
   includeKeywords?: string[];
@@ -57,6 +68,8 @@ export interface IntentConfigSnapshot {
 export interface RunOptions {
   /** If true, no database writes will be made */
   dryRun?: boolean;
+  /** If true, results are held for the review queue instead of creating records */
+  reviewMode?: boolean;
   /** Run mode */
   mode?: 'daily' | 'manual' | 'test';
   /** Override max companies limit */
@@ -71,10 +84,14 @@ export interface RunOptions {
   intentId?: string;
   /** Intent name for display */
   intentName?: string;
-  /** Custom queries (from intent) */
+  /** Seed queries (from intent); runs rotate through them and their variants */
   queries?: string[];
-  /** Custom channels (from intent) */
-  channels?: Array<'google' | 'keyword'>;
+  /** Override max queries limit (capped by the mode limit) */
+  maxQueries?: number;
+  /** Regions combined with the seed queries into query variants (from intent geography) */
+  priorityRegions?: string[];
+  /** Custom channels (from intent, or ['linkedin'] / ['social'] for uploads) */
+  channels?: Array<'google' | 'keyword' | 'tenders' | 'linkedin' | 'social'>;
   /** Max runtime in milliseconds (from intent) */
   timeBudgetMs?: number;
   /** Intent configuration snapshot for recording */
@@ -92,6 +109,70 @@ export interface RunOptions {
   };
   /** Whether to enable web scraping (default: true if analysisConfig provided) */
   enableScraping?: boolean;
+  /** Search providers in fallback order (from intent, default: env/global order) */
+  searchProviders?: SearchProviderType[];
+  /** Search result cache TTL in hours (from intent, default: DISCOVERY_SEARCH_CACHE_TTL_HOURS) */
+  searchCacheTtlHours?: number;
+  /** Crawl exhibitor / sponsor lists on event sites found by search (from intent, default: false) */
+  crawlExhibitorLists?: boolean;
+  /** Uploaded LinkedIn export (linkedin channel) */
+  linkedInExport?: LinkedInExport;
+  /** Saved event / business pages (social channel) */
+  socialPages?: SocialEventPage[];
+  /** Continue a run that stopped on its time budget: run its pending queries, skip the sites it scraped */
+  resumeFromRunId?: string;
+}
+
+/**
+ * Where a run stopped on its time budget (stored in checkpointJson)
+ * Queries, scraped sites and result counts accumulate along a chain of continuation runs.
+ */
+export interface DiscoveryRunCheckpoint {
+  /** Queries selected for the run but not executed */
+  pendingQueries: QuerySpec[];
+  /** Queries executed by this run and the runs it continues */
+  completedQueries: QuerySpec[];
+  /** Websites scraped by this run and the runs it continues (capped) */
+  scrapedUrls: string[];
+  /** Results stored by this run and the runs it continues */
+  resultsSoFar: number;
+  /** Position in the chain: 0 for the original run, 1 for its first continuation, ... */
+  continuation: number;
+}
+
+/**
+ * Stage a running discovery run is in
+ */
+export type DiscoveryRunPhase = 'starting' | 'searching' | 'storing' | 'finished';
+
+/**
+ * Line in a run's live progress log
+ */
+export interface DiscoveryRunLogEntry {
+  /** ISO timestamp */
+  at: string;
+  message: string;
+}
+
+/**
+ * Live progress of a run (stored in progressJson while it executes, kept afterwards)
+ */
+export interface DiscoveryRunProgress {
+  phase: DiscoveryRunPhase;
+  /** Queries the run set out to execute */
+  queriesTotal: number;
+  queriesCompleted: number;
+  /** Query being searched and scraped */
+  currentQuery?: string;
+  urlsScraped: number;
+  /** Results above the relevance threshold */
+  resultsKept: number;
+  /** Results scraped but below the relevance threshold */
+  resultsFiltered: number;
+  /** Most recent events, oldest first (capped) */
+  log: DiscoveryRunLogEntry[];
+  /** ISO timestamp of the last change */
+  updatedAt: string;
 }
 
 /**
@@ -102,6 +183,24 @@ export interface DiscoveryRunStats {
   channelResults: Record<string, number>;
   /** Channel-specific errors (partial failures) */
   channelErrors: Record<string, string>;
+  /** Search provider that served each query */
+  searchQueries?: SearchQueryRecord[];
+  /** Queries in the run's query pool (seeds plus variants) */
+  queryPoolSize?: number;
+  /** Queries served per search provider */
+  searchProviderCounts?: Record<string, number>;
+  /** Search cache hits vs. paid API calls */
+  searchCache?: SearchCacheStats;
+  /** URLs not fetched - robots.txt disallowed or rate limited (first 100) */
+  blockedUrls?: BlockedFetch[];
+  /** Blocked URLs per reason */
+  blockedUrlCounts?: Partial<Record<BlockedReason, number>>;
+  /** Results matched against the domain list, per listed domain (skipped unless allow-listed) */
+  domainListHits?: DomainListHits;
+  /** Scraped sites below the relevance threshold (stored in filteredResultsJson, capped) */
+  filteredOutCount?: number;
+  /** Share of results no earlier run of the intent returned (intent runs only) */
+  novelty?: RunNovelty;
   /** Total results discovered before deduplication */
   totalDiscovered: number;
   /** Total results after deduplication */
@@ -126,6 +225,12 @@ export interface DiscoveryRunStats {
   stoppedEarly: boolean;
   /** Reason for stopping early */
   stoppedReason?: 'time_budget' | 'company_limit' | 'lead_limit' | 'cancelled';
+  /** Pre-flight check against today's remaining quota (runs using the search channel) */
+  quota?: RunQuotaPlan;
+  /** Selected queries not executed before the time budget ran out (see checkpointJson) */
+  queriesPending?: number;
+  /** Run this one continues (resumed runs) */
+  resumedFromRunId?: string;
   /** Limits used for this run */
   limitsUsed: RunLimitsUsed;
   /** Intent configuration (if applicable) */
@@ -141,13 +246,15 @@ export interface RunResult {
   /** ID of the DiscoveryRun record */
   runId: string;
   /** Final status */
-  status: 'completed' | 'completed_with_errors' | 'failed' | 'cancelled';
+  status: 'completed' | 'completed_with_errors' | 'failed' | 'cancelled' | 'skipped_budget';
   /** Whether this was a dry run */
   dryRun: boolean;
   /** Run statistics */
   stats: DiscoveryRunStats;
   /** Error message if failed */
   error?: string;
+  /** Set when the run stopped on its time budget with queries left (resume with resumeFromRunId) */
+  checkpoint?: DiscoveryRunCheckpoint;
 }
 
 /**
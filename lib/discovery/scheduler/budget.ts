@@ -0,0 +1,61 @@
+/**
+ * Phase 5A - Global Daily Query Budget
+ *
+ * Caps the number of paid search queries the scheduler may spend per day
+ * across all intents. Usage is derived from today's DiscoveryRun stats
+ * (stats.searchCache.paidApiCalls), so cache hits do not count.
+ *
+ * Configure via DISCOVERY_DAILY_QUERY_BUDGET (default 90, leaving headroom
+ * in the Google CSE free tier of 100 queries/day). 0 disables the budget.
+ */
+
+import { prisma } from '../../prisma';
+import type { DiscoveryRunStats } from '../runner/types';
+import { getScheduleTimezone, getStartOfZonedDay } from './schedule';
+
+/**
+ * Default daily query budget
+ */
+export const DEFAULT_DAILY_QUERY_BUDGET = 90;
+
+/**
+ * Get the global daily query budget (0 = unlimited)
+ */
+export function getDailyQueryBudget(): number {
+  const value = parseInt(
+    process.env.DISCOVERY_DAILY_QUERY_BUDGET || String(DEFAULT_DAILY_QUERY_BUDGET),
+    10
+  );
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_DAILY_QUERY_BUDGET;
+}
+
+/**
+ * Count queries spent in a run
+ * Falls back to the number of search queries for runs recorded before cache stats existed.
+ */
+function countRunQueries(stats: Partial<DiscoveryRunStats> | null): number {
+  if (!stats) {
+    return 0;
+  }
+  if (stats.searchCache) {
+    return stats.searchCache.paidApiCalls;
+  }
+  return stats.searchQueries?.length ?? 0;
+}
+
+/**
+ * Get paid search queries used today (in the schedule timezone)
+ */
+export async function getQueriesUsedToday(now: Date = new Date()): Promise<number> {
+  const startOfDay = getStartOfZonedDay(now, getScheduleTimezone());
+
+  const runs = await prisma.discoveryRun.findMany({
+    where: { startedAt: { gte: startOfDay } },
+    select: { stats: true },
+  });
+
+  return runs.reduce(
+    (total, run) => total + countRunQueries(run.stats as Partial<DiscoveryRunStats> | null),
+    0
+  );
+}
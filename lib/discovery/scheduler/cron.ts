@@ -0,0 +1,160 @@
+/**
+ * Phase 5A - Cron Expression Parsing
+ *
+ * Minimal 5-field cron support for intent schedules:
+ *   minute hour day-of-month month day-of-week
+ *
+ * Supports `*`, single values, lists (`1,15`), ranges (`1-5`) and steps
+ * (`*\/15`, `0-30/10`). Day-of-week accepts 0-7 (0 and 7 = Sunday).
+ * Month and weekday names are not supported.
+ *
+ * As in standard cron, when both day-of-month and day-of-week are
+ * restricted, a date matches if EITHER field matches.
+ */
+
+/**
+ * Parsed cron expression (allowed values per field)
+ */
+export interface ParsedCron {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether day-of-month was `*` */
+  anyDayOfMonth: boolean;
+  /** Whether day-of-week was `*` */
+  anyDayOfWeek: boolean;
+}
+
+/**
+ * Calendar fields of a point in time (in the schedule timezone)
+ */
+export interface CronTimeParts {
+  minute: number;
+  hour: number;
+  day: number;
+  /** 1-12 */
+  month: number;
+  /** 0 = Sunday ... 6 = Saturday */
+  weekday: number;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7], // day of week
+];
+
+/**
+ * Parse a single cron field into its allowed values
+ */
+function parseField(field: string, min: number, max: number): Set<number> | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      return null;
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [a, b] = rangePart.split('-');
+      start = Number(a);
+      end = Number(b);
+    } else {
+      start = Number(rangePart);
+      // `5/15` means "from 5 to max every 15"
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (
+      rangePart === '' ||
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      return null;
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a 5-field cron expression
+ * Returns null if the expression is invalid.
+ */
+export function parseCronExpression(expression: string): ParsedCron | null {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    return null;
+  }
+
+  const parsed = fields.map((field, i) => parseField(field, FIELD_RANGES[i][0], FIELD_RANGES[i][1]));
+  if (parsed.some((p) => p === null)) {
+    return null;
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parsed as Set<number>[];
+
+  // Normalise Sunday: 7 -> 0
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  };
+}
+
+/**
+ * Check whether a cron expression is valid
+ */
+export function isValidCronExpression(expression: string): boolean {
+  return parseCronExpression(expression) !== null;
+}
+
+/**
+ * Check whether the given time matches a parsed cron expression
+ */
+export function cronMatches(cron: ParsedCron, parts: CronTimeParts): boolean {
+  if (!cron.minutes.has(parts.minute) || !cron.hours.has(parts.hour) || !cron.months.has(parts.month)) {
+    return false;
+  }
+
+  const dayOfMonthMatch = cron.daysOfMonth.has(parts.day);
+  const dayOfWeekMatch = cron.daysOfWeek.has(parts.weekday);
+
+  if (cron.anyDayOfMonth && cron.anyDayOfWeek) {
+    return true;
+  }
+  if (cron.anyDayOfMonth) {
+    return dayOfWeekMatch;
+  }
+  if (cron.anyDayOfWeek) {
+    return dayOfMonthMatch;
+  }
+  return dayOfMonthMatch || dayOfWeekMatch;
+}
@@ -0,0 +1,31 @@
+/**
+ * Phase 5A - Discovery Scheduler Public Exports
+ */
+
+export {
+  parseCronExpression,
+  isValidCronExpression,
+  cronMatches,
+} from './cron';
+export type { ParsedCron, CronTimeParts } from './cron';
+
+export {
+  DEFAULT_SCHEDULE_TIMEZONE,
+  getScheduleTimezone,
+  getSchedulerLookbackMinutes,
+  getZonedParts,
+  getStartOfZonedDay,
+  isInQuietPeriod,
+  evaluateSchedule,
+  describeSchedule,
+} from './schedule';
+export type { ScheduleEvaluation } from './schedule';
+
+export {
+  DEFAULT_DAILY_QUERY_BUDGET,
+  getDailyQueryBudget,
+  getQueriesUsedToday,
+} from './budget';
+
+export { runSchedulerTick } from './runSchedulerTick';
+export type { SchedulerIntentOutcome, SchedulerTickResult } from './runSchedulerTick';
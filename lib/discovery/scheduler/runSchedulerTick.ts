@@ -0,0 +1,203 @@
+/**
+ * Phase 5A - Discovery Scheduler Tick
+ *
+ * Called frequently (e.g. every 15 minutes by Vercel Cron). Each tick:
+ * 1. Loads active intents that have a schedule
+ * 2. Evaluates which are due (cron, days of week, quiet periods)
+ * 3. Claims each due slot so overlapping ticks cannot double-launch
+ * 4. Checks the global daily query budget; intents that would exceed it
+ *    are recorded as DiscoveryRuns with status "skipped_budget"
+ * 5. Runs the remaining due intents sequentially, or with
+ *    DISCOVERY_USE_JOB_QUEUE=true enqueues a discovery_run job per intent
+ *    for the job worker (see lib/jobs). A run that stops on its time budget
+ *    with queries left gets a continuation job. Jobs are queued before the
+ *    slot is claimed and keyed by the slot, so a tick that fails in between
+ *    is retried by the next tick without losing or duplicating the run.
+ */
+
+import { getScheduledIntents, claimScheduledRun } from '../intents/intentStore';
+import { discoveryRunner } from '../runner/DailyDiscoveryRunner';
+import { runIntentDiscovery, getPlannedQueryCount } from '../runner/runIntentDiscovery';
+import { getDailyPerIntentLimits } from '../runner/config';
+import { evaluateSchedule, type ScheduleEvaluation } from './schedule';
+import { getDailyQueryBudget, getQueriesUsedToday } from './budget';
+import { enqueueJob } from '../../jobs/queue';
+import { enqueueRunContinuation } from '../../jobs/discovery';
+
+/**
+ * Outcome for a single intent in a tick
+ */
+export interface SchedulerIntentOutcome {
+  intentId: string;
+  intentName: string;
+  action: 'launched' | 'queued' | 'skipped_budget' | 'not_due' | 'already_claimed' | 'failed';
+  scheduledFor?: string;
+  reason?: ScheduleEvaluation['reason'];
+  plannedQueries?: number;
+  runId?: string;
+  /** Job that will run the intent (action "queued"), or continue its run (action "launched") */
+  jobId?: string;
+  success?: boolean;
+  error?: string;
+}
+
+/**
+ * Result of a scheduler tick
+ */
+export interface SchedulerTickResult {
+  tickAt: string;
+  dryRun: boolean;
+  queryBudget: number;
+  queriesUsedBefore: number;
+  queriesUsedAfter: number;
+  intents: SchedulerIntentOutcome[];
+}
+
+/**
+ * Run a scheduler tick
+ *
+ * @param options.dryRun - Only evaluate schedules and budget; launch nothing and write nothing
+ * @param options.triggeredBy - Recorded on launched runs (default "scheduler")
+ * @param options.now - Tick time (for testing)
+ * @param options.enqueue - Enqueue due intents as jobs instead of running them in the tick
+ *   (default: DISCOVERY_USE_JOB_QUEUE=true)
+ */
+export async function runSchedulerTick(
+  options: { dryRun?: boolean; triggeredBy?: string; now?: Date; enqueue?: boolean } = {}
+): Promise<SchedulerTickResult> {
+  const dryRun = options.dryRun ?? false;
+  const enqueue = options.enqueue ?? process.env.DISCOVERY_USE_JOB_QUEUE === 'true';
+  const triggeredBy = options.triggeredBy ?? 'scheduler';
+  const now = options.now ?? new Date();
+  const perIntentLimits = getDailyPerIntentLimits();
+  const queryBudget = getDailyQueryBudget();
+
+  const queriesUsedBefore = await getQueriesUsedToday(now);
+  let queriesUsed = queriesUsedBefore;
+
+  const scheduled = await getScheduledIntents();
+  const outcomes: SchedulerIntentOutcome[] = [];
+
+  for (const { intent, lastScheduledRunAt } of scheduled) {
+    const evaluation = evaluateSchedule(intent.schedule, lastScheduledRunAt, now);
+    const base = {
+      intentId: intent.id,
+      intentName: intent.name,
+      scheduledFor: evaluation.scheduledFor?.toISOString(),
+    };
+
+    if (!evaluation.due) {
+      outcomes.push({ ...base, action: 'not_due', reason: evaluation.reason });
+      continue;
+    }
+
+    const plannedQueries = getPlannedQueryCount(intent, perIntentLimits);
+    const overBudget = queryBudget > 0 && queriesUsed + plannedQueries > queryBudget;
+
+    if (dryRun) {
+      outcomes.push({
+        ...base,
+        action: overBudget ? 'skipped_budget' : enqueue ? 'queued' : 'launched',
+        plannedQueries,
+      });
+      if (!overBudget) {
+        queriesUsed += plannedQueries;
+      }
+      continue;
+    }
+
+    if (enqueue && !overBudget) {
+      try {
+        // Keyed by slot: overlapping or retried ticks get the same job back
+        const { job } = await enqueueJob(
+          'discovery_run',
+          { intentIds: [intent.id], triggeredBy },
+          { dedupeKey: `discovery_run:${intent.id}:${base.scheduledFor}` }
+        );
+        if (!(await claimScheduledRun(intent.id, lastScheduledRunAt, now))) {
+          outcomes.push({ ...base, action: 'already_claimed', jobId: job.id });
+          continue;
+        }
+        // Reserve the planned queries; the job records the actual spend on its run
+        queriesUsed += plannedQueries;
+        outcomes.push({ ...base, action: 'queued', plannedQueries, jobId: job.id });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`[DiscoveryScheduler] Intent ${intent.id} could not be queued:`, errorMessage);
+        outcomes.push({ ...base, action: 'failed', plannedQueries, error: errorMessage });
+      }
+      continue;
+    }
+
+    const claimed = await claimScheduledRun(intent.id, lastScheduledRunAt, now);
+    if (!claimed) {
+      outcomes.push({ ...base, action: 'already_claimed' });
+      continue;
+    }
+
+    if (overBudget) {
+      const reason = `Skipped: daily query budget exhausted (used ${queriesUsed} of ${queryBudget}, run needs ${plannedQueries})`;
+      const runId = await discoveryRunner.recordSkippedRun({
+        status: 'skipped_budget',
+        reason,
+        triggeredBy,
+        intentId: intent.id,
+        intentName: intent.name,
+      });
+
+      console.log(
+        JSON.stringify({
+          event: 'discovery_intent_skipped_budget',
+          intentId: intent.id,
+          runId,
+          queriesUsed,
+          queryBudget,
+          plannedQueries,
+          timestamp: new Date().toISOString(),
+        })
+      );
+
+      outcomes.push({ ...base, action: 'skipped_budget', plannedQueries, runId, error: reason });
+      continue;
+    }
+
+    try {
+      const result = await runIntentDiscovery(intent, { dryRun: false, triggeredBy, perIntentLimits });
+      queriesUsed += result.stats.searchCache?.paidApiCalls ?? plannedQueries;
+
+      // Queries left on the time budget are continued by the job worker
+      let continuationJobId: string | null = null;
+      try {
+        continuationJobId = await enqueueRunContinuation(result, triggeredBy);
+      } catch (error) {
+        console.warn(
+          `[DiscoveryScheduler] Could not queue continuation of run ${result.runId}:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+
+      outcomes.push({
+        ...base,
+        action: 'launched',
+        plannedQueries,
+        runId: result.runId,
+        jobId: continuationJobId ?? undefined,
+        success: result.success,
+        error: result.error,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[DiscoveryScheduler] Intent ${intent.id} failed:`, errorMessage);
+      outcomes.push({ ...base, action: 'failed', plannedQueries, error: errorMessage });
+    }
+  }
+
+  return {
+    tickAt: now.toISOString(),
+    dryRun,
+    queryBudget,
+    queriesUsedBefore,
+    queriesUsedAfter: queriesUsed,
+    intents: outcomes,
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * Phase 5A: Unit Tests for intent schedules (cron parsing, quiet periods, due evaluation)
+ *
+ * Simple test runner compatible with repo conventions.
+ * Run with: tsx lib/discovery/scheduler/schedule.test.ts
+ */
+
+import { parseCronExpression, isValidCronExpression, cronMatches } from './cron';
+import { evaluateSchedule, isInQuietPeriod, getZonedParts } from './schedule';
+
+// Simple assertion helper
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string): void {
+  if (actual !== expected) {
+    throw new Error(`Assertion failed: ${message}. Expected: ${expected}, Actual: ${actual}`);
+  }
+}
+
+// Schedules are evaluated in Africa/Johannesburg (UTC+2, no DST)
+const TZ = 'Africa/Johannesburg';
+
+// Test cases
+function testCronParsing() {
+  console.log('Test 1: Cron parsing');
+
+  assert(isValidCronExpression('0 6 * * *'), 'Daily cron should be valid');
+  assert(isValidCronExpression('*/15 7-17 * * 1-5'), 'Steps and ranges should be valid');
+  assert(isValidCronExpression('0 6 1,15 3,6,9 *'), 'Lists should be valid');
+  assert(!isValidCronExpression('0 6 * *'), '4 fields should be invalid');
+  assert(!isValidCronExpression('60 6 * * *'), 'Minute 60 should be invalid');
+  assert(!isValidCronExpression('0 6 * * MON'), 'Weekday names are not supported');
+  assert(!isValidCronExpression('0 6 5-1 * *'), 'Reversed range should be invalid');
+
+  const parsed = parseCronExpression('*/15 * * * 7')!;
+  assertEqual(parsed.minutes.size, 4, '*/15 should give 4 minutes');
+  assert(parsed.daysOfWeek.has(0) && !parsed.daysOfWeek.has(7), '7 should normalise to Sunday (0)');
+
+  console.log('  ✅ Valid and invalid expressions handled');
+}
+
+function testCronMatching() {
+  console.log('Test 2: Cron matching (weekdays, day-of-month OR day-of-week)');
+
+  const weekdays = parseCronExpression('0 7 * * 1-5')!;
+  assert(
+    cronMatches(weekdays, { minute: 0, hour: 7, day: 19, month: 10, weekday: 1 }),
+    'Monday 07:00 should match weekday cron'
+  );
+  assert(
+    !cronMatches(weekdays, { minute: 0, hour: 7, day: 18, month: 10, weekday: 0 }),
+    'Sunday should not match weekday cron'
+  );
+
+  // Standard cron: both restricted -> either matches
+  const either = parseCronExpression('0 6 1 * 1')!;
+  assert(
+    cronMatches(either, { minute: 0, hour: 6, day: 1, month: 10, weekday: 4 }),
+    '1st of month should match even if not Monday'
+  );
+  assert(
+    cronMatches(either, { minute: 0, hour: 6, day: 19, month: 10, weekday: 1 }),
+    'Monday should match even if not the 1st'
+  );
+
+  console.log('  ✅ Matching follows standard cron semantics');
+}
+
+function testQuietPeriods() {
+  console.log('Test 3: Quiet periods (absolute and recurring, year wrap)');
+
+  const festive = { start: '12-15', end: '01-05' };
+  assert(isInQuietPeriod({ year: 2026, month: 12, day: 20 }, festive), 'Dec 20 inside festive period');
+  assert(isInQuietPeriod({ year: 2027, month: 1, day: 3 }, festive), 'Jan 3 inside wrapped period');
+  assert(!isInQuietPeriod({ year: 2027, month: 1, day: 6 }, festive), 'Jan 6 outside festive period');
+
+  const winter = { start: '2026-06-26', end: '2026-07-20' };
+  assert(isInQuietPeriod({ year: 2026, month: 7, day: 1 }, winter), 'Jul 1 2026 inside absolute period');
+  assert(!isInQuietPeriod({ year: 2027, month: 7, day: 1 }, winter), 'Absolute period does not repeat');
+
+  console.log('  ✅ Quiet periods evaluated correctly');
+}
+
+function testDueEvaluation() {
+  console.log('Test 4: Due evaluation and catch-up');
+
+  const schedule = { enabled: true, cron: '0 7 * * 1-5' };
+
+  // Monday 2026-10-19 07:05 SAST = 05:05 UTC
+  const now = new Date('2026-10-19T05:05:00Z');
+  assertEqual(getZonedParts(now, TZ).hour, 7, 'Zoned hour should be 07');
+
+  const due = evaluateSchedule(schedule, null, now);
+  assert(due.due, 'Should be due 5 minutes after the slot');
+  assertEqual(due.scheduledFor?.toISOString(), '2026-10-19T05:00:00.000Z', 'Slot should be 07:00 SAST');
+
+  const afterRun = evaluateSchedule(schedule, new Date('2026-10-19T05:00:30Z'), new Date('2026-10-19T05:15:00Z'));
+  assert(!afterRun.due, 'Should not be due again after the slot was claimed');
+
+  // Missed ticks are caught up once (last run Friday, tick Monday)
+  const caughtUp = evaluateSchedule(schedule, new Date('2026-10-16T05:00:30Z'), now);
+  assert(caughtUp.due, 'Missed slot should be caught up');
+
+  const disabled = evaluateSchedule({ ...schedule, enabled: false }, null, now);
+  assertEqual(disabled.reason, 'disabled', 'Disabled schedule is never due');
+
+  console.log('  ✅ Due evaluation correct');
+}
+
+function testDaysAndQuietPeriodsBlockRuns() {
+  console.log('Test 5: Days of week and quiet periods block due runs');
+
+  const now = new Date('2026-10-19T05:05:00Z'); // Monday 07:05 SAST
+
+  const tuesdaysOnly = evaluateSchedule({ enabled: true, cron: '0 7 * * *', daysOfWeek: [2] }, null, now);
+  assertEqual(tuesdaysOnly.reason, 'day_not_allowed', 'Monday slot should be blocked by daysOfWeek');
+
+  const quiet = evaluateSchedule(
+    { enabled: true, cron: '0 7 * * *', quietPeriods: [{ start: '10-15', end: '10-25', note: 'Exams' }] },
+    null,
+    now
+  );
+  assertEqual(quiet.reason, 'quiet_period', 'Slot inside quiet period should be blocked');
+  assertEqual(quiet.quietPeriod?.note, 'Exams', 'Blocking quiet period should be reported');
+
+  console.log('  ✅ Restrictions applied');
+}
+
+function runTests() {
+  console.log('='.repeat(60));
+  console.log('Phase 5A: Intent Schedule Unit Tests');
+  console.log('='.repeat(60));
+  console.log('');
+
+  const tests = [
+    testCronParsing,
+    testCronMatching,
+    testQuietPeriods,
+    testDueEvaluation,
+    testDaysAndQuietPeriodsBlockRuns,
+  ];
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const test of tests) {
+    try {
+      test();
+      passed++;
+      console.log('');
+    } catch (error) {
+      failed++;
+      console.error(`  ❌ Test failed: ${error instanceof Error ? error.message : String(error)}`);
+      console.log('');
+    }
+  }
+
+  console.log('='.repeat(60));
+  console.log(`Tests: ${passed} passed, ${failed} failed (total: ${tests.length})`);
+  console.log('='.repeat(60));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
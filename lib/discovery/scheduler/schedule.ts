@@ -0,0 +1,205 @@
+/**
+ * Phase 5A - Intent Schedule Evaluation
+ *
+ * Decides whether a scheduled intent is due at a scheduler tick.
+ *
+ * An intent is due when its cron expression matched at some minute after
+ * the last scheduled run (or within the lookback window if it never ran),
+ * that minute falls on an allowed day of week, and it is not inside a
+ * quiet period. Ticks that were missed are caught up at most once.
+ */
+
+import type { IntentSchedule, QuietPeriod } from '../intents/types';
+import { parseCronExpression, cronMatches, type CronTimeParts } from './cron';
+
+/**
+ * Default timezone for schedules (CCS operates in South Africa)
+ */
+export const DEFAULT_SCHEDULE_TIMEZONE = 'Africa/Johannesburg';
+
+/**
+ * Maximum catch-up window (missed ticks older than this are ignored)
+ */
+const MAX_LOOKBACK_MINUTES = 24 * 60;
+
+/**
+ * Get the timezone schedules are evaluated in
+ * Override via DISCOVERY_SCHEDULE_TIMEZONE (IANA name)
+ */
+export function getScheduleTimezone(): string {
+  return process.env.DISCOVERY_SCHEDULE_TIMEZONE || DEFAULT_SCHEDULE_TIMEZONE;
+}
+
+/**
+ * Lookback window for intents that have never been scheduled
+ * Should be at least the tick interval. Override via DISCOVERY_SCHEDULER_LOOKBACK_MINUTES.
+ */
+export function getSchedulerLookbackMinutes(): number {
+  const value = parseInt(process.env.DISCOVERY_SCHEDULER_LOOKBACK_MINUTES || '60', 10);
+  return Number.isFinite(value) && value > 0 ? Math.min(value, MAX_LOOKBACK_MINUTES) : 60;
+}
+
+// Formatters are expensive to create; schedule evaluation formats many minutes
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Get calendar fields for a date in a timezone
+ */
+export function getZonedParts(date: Date, timeZone: string): CronTimeParts & { year: number } {
+  const formatter = getFormatter(timeZone);
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: weekdays.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * Start of the current day in a timezone (as a UTC instant)
+ */
+export function getStartOfZonedDay(date: Date, timeZone: string): Date {
+  const parts = getZonedParts(date, timeZone);
+  const msIntoDay =
+    (parts.hour * 60 + parts.minute) * 60000 + date.getUTCSeconds() * 1000 + date.getUTCMilliseconds();
+  return new Date(date.getTime() - msIntoDay);
+}
+
+/**
+ * Check whether a date (year, month, day) falls inside a quiet period
+ */
+export function isInQuietPeriod(
+  parts: { year: number; month: number; day: number },
+  period: QuietPeriod
+): boolean {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const monthDay = `${pad(parts.month)}-${pad(parts.day)}`;
+  const fullDate = `${parts.year}-${monthDay}`;
+
+  const isAbsolute = period.start.length === 10 || period.end.length === 10;
+  if (isAbsolute) {
+    // Absolute range (YYYY-MM-DD); string comparison works for ISO dates
+    return fullDate >= period.start && fullDate <= period.end;
+  }
+
+  // Recurring range (MM-DD), may wrap the year end
+  if (period.start <= period.end) {
+    return monthDay >= period.start && monthDay <= period.end;
+  }
+  return monthDay >= period.start || monthDay <= period.end;
+}
+
+/**
+ * Why an intent is or is not due
+ */
+export interface ScheduleEvaluation {
+  due: boolean;
+  /** Cron slot that made the intent due */
+  scheduledFor?: Date;
+  reason?: 'disabled' | 'invalid_cron' | 'not_due' | 'day_not_allowed' | 'quiet_period';
+  quietPeriod?: QuietPeriod;
+}
+
+/**
+ * Evaluate an intent schedule at a point in time
+ *
+ * @param schedule - Intent schedule
+ * @param lastScheduledRunAt - When the scheduler last launched this intent
+ * @param now - Tick time
+ */
+export function evaluateSchedule(
+  schedule: IntentSchedule | undefined,
+  lastScheduledRunAt: Date | null,
+  now: Date = new Date()
+): ScheduleEvaluation {
+  if (!schedule || !schedule.enabled) {
+    return { due: false, reason: 'disabled' };
+  }
+
+  const cron = parseCronExpression(schedule.cron);
+  if (!cron) {
+    return { due: false, reason: 'invalid_cron' };
+  }
+
+  const timeZone = getScheduleTimezone();
+  const lookbackStart = now.getTime() - getSchedulerLookbackMinutes() * 60000;
+  const maxLookbackStart = now.getTime() - MAX_LOOKBACK_MINUTES * 60000;
+  const windowStart = lastScheduledRunAt
+    ? Math.max(lastScheduledRunAt.getTime(), maxLookbackStart)
+    : lookbackStart;
+
+  // Walk back minute by minute to find the most recent cron slot in (windowStart, now]
+  const nowMinute = Math.floor(now.getTime() / 60000) * 60000;
+  let scheduledFor: Date | undefined;
+  for (let t = nowMinute; t > windowStart; t -= 60000) {
+    const slot = new Date(t);
+    if (cronMatches(cron, getZonedParts(slot, timeZone))) {
+      scheduledFor = slot;
+      break;
+    }
+  }
+
+  if (!scheduledFor) {
+    return { due: false, reason: 'not_due' };
+  }
+
+  const slotParts = getZonedParts(scheduledFor, timeZone);
+
+  if (schedule.daysOfWeek && schedule.daysOfWeek.length > 0 && !schedule.daysOfWeek.includes(slotParts.weekday)) {
+    return { due: false, reason: 'day_not_allowed', scheduledFor };
+  }
+
+  const quietPeriod = schedule.quietPeriods?.find((period) => isInQuietPeriod(slotParts, period));
+  if (quietPeriod) {
+    return { due: false, reason: 'quiet_period', scheduledFor, quietPeriod };
+  }
+
+  return { due: true, scheduledFor };
+}
+
+/**
+ * Human-readable summary of a schedule (for the dashboard)
+ */
+export function describeSchedule(schedule: IntentSchedule | undefined): string {
+  if (!schedule || !schedule.enabled) {
+    return 'Manual only';
+  }
+
+  const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  let summary = `cron "${schedule.cron}"`;
+  if (schedule.daysOfWeek && schedule.daysOfWeek.length > 0) {
+    summary += ` on ${schedule.daysOfWeek.map((d) => dayNames[d]).join(', ')}`;
+  }
+  if (schedule.quietPeriods && schedule.quietPeriods.length > 0) {
+    summary += ` (${schedule.quietPeriods.length} quiet period${schedule.quietPeriods.length === 1 ? '' : 's'})`;
+  }
+  return summary;
+}
@@ -0,0 +1,115 @@
+/**
+ * Unit Tests for ContentAnalyzer relevance breakdown
+ *
+ * Simple test runner compatible with repo conventions.
+ * Run with: tsx lib/discovery/scraper/ContentAnalyzer.test.ts
+ */
+
+import { ContentAnalyzer, type AnalysisConfig } from './ContentAnalyzer';
+import type { ScrapedContent } from './WebScraper';
+
+// Simple assertion helper
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string): void {
+  if (actual !== expected) {
+    throw new Error(`Assertion failed: ${message}. Expected: ${expected}, Actual: ${actual}`);
+  }
+}
+
+const analyzer = new ContentAnalyzer();
+
+const config: AnalysisConfig = {
+  positiveKeywords: ['branding', 'activations'],
+  negativeKeywords: ['vacancy'],
+  targetBusinessTypes: ['branding agency'],
+  relevanceThreshold: 40,
+  geographyBoost: { priorityRegions: ['Sandton'], boostAmount: 0.15 },
+};
+
+function page(textContent: string, title = 'Acme Creative Agency'): ScrapedContent {
+  return { success: true, url: 'https://acme.co.za/', title, textContent };
+}
+
+// Test cases
+function testRelevanceBreakdown() {
+  console.log('Test 1: Breakdown keeps component scores and keyword snippets');
+
+  const filler = 'We help brands grow. '.repeat(10);
+  const relevance = analyzer.analyze(
+    page(`${filler}Our Branding team runs Activations across Sandton. ${filler}Vacancy: junior designer.`),
+    config
+  );
+
+  assertEqual(relevance.threshold, 40, 'Threshold should be recorded');
+  assert((relevance.breakdown.geographyBoostScore ?? 0) > 0, 'Geography boost should be in the breakdown');
+  assertEqual(relevance.matchedKeywords?.positive.length, 2, 'Both positive keywords should match');
+  assertEqual(relevance.matchedKeywords?.negative[0]?.keyword, 'vacancy', 'Negative keyword should match');
+
+  const branding = relevance.matchedKeywords!.positive.find((match) => match.keyword === 'branding');
+  assert(!!branding?.snippet.includes('Our Branding team'), 'Snippet should keep the original case');
+  assert(branding!.snippet.startsWith('…') && branding!.snippet.endsWith('…'), 'Cut snippets should be marked');
+
+  console.log('  ✅ Breakdown recorded');
+}
+
+function testBelowThreshold() {
+  console.log('Test 2: Sites below the threshold are not relevant');
+
+  const relevance = analyzer.analyze(page('Freight and shipping schedules.', 'Acme Logistics'), config);
+  assert(!relevance.isRelevant, 'Unrelated site should be filtered out');
+  assert(relevance.score < (relevance.threshold ?? 0), 'Score should be below the recorded threshold');
+  assertEqual(relevance.matchedKeywords?.positive.length, 0, 'No keywords should match');
+
+  const failed = analyzer.analyze({ success: false, url: 'https://acme.co.za/', error: 'Timeout' }, config);
+  assertEqual(failed.reasons[0], 'Timeout', 'Scrape errors should be the reason');
+  assertEqual(failed.threshold, 40, 'Threshold should be recorded for failed scrapes');
+
+  console.log('  ✅ Filtered out');
+}
+
+function runTests() {
+  console.log('='.repeat(60));
+  console.log('Content Analyzer Unit Tests');
+  console.log('='.repeat(60));
+  console.log('');
+
+  const tests = [
+    testRelevanceBreakdown,
+    testBelowThreshold,
+  ];
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const test of tests) {
+    try {
+      test();
+      passed++;
+      console.log('');
+    } catch (error) {
+      failed++;
+      console.error(`  ❌ Test failed: ${error instanceof Error ? error.message : String(error)}`);
+      console.log('');
+    }
+  }
+
+  console.log('='.repeat(60));
+  console.log(`Tests: ${passed} passed, ${failed} failed (total: ${tests.length})`);
+  console.log('='.repeat(60));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
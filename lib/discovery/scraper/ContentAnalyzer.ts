@@ -7,6 +7,20 @@
 
 import type { ScrapedContent } from './WebScraper';
 
+/** Characters of page text kept on each side of a keyword match */
+const SNIPPET_CONTEXT = 60;
+
+/** Keyword matches kept per list (positive / negative) */
+const MAX_KEYWORD_MATCHES = 10;
+
+/**
+ * A keyword found on the page, with the text around its first occurrence
+ */
+export interface KeywordMatch {
+  keyword: string;
+  snippet: string;
+}
+
 export interface RelevanceScore {
   /** Overall relevance score (0-100) */
   score: number;
@@ -18,7 +32,15 @@ export interface RelevanceScore {
     serviceScore: number;
     businessTypeScore: number;
     contentQualityScore: number;
+    geographyBoostScore?: number;
+  };
+  /** Intent keywords found on the page (negative keywords subtract from keywordScore) */
+  matchedKeywords?: {
+    positive: KeywordMatch[];
+    negative: KeywordMatch[];
   };
+  /** Threshold the score was compared against */
+  threshold?: number;
   /** Reasons why the company is/isn't relevant */
   reasons: string[];
   /** Extracted company type/industry */
@@ -27,6 +49,22 @@ export interface RelevanceScore {
   confidence: 'low' | 'medium' | 'high';
 }
 
+/**
+ * A scraped site that scored below the relevance threshold (dropped by the
+ * channel, kept on the run so intents can be tuned)
+ */
+export interface FilteredOutResult {
+  name: string;
+  website: string;
+  /** Search query that found the site */
+  query: string;
+  /** Result page offset of the query (omitted for the first page) */
+  start?: number;
+  searchResultTitle?: string;
+  searchResultSnippet?: string;
+  relevance: RelevanceScore;
+}
+
 export interface AnalysisConfig {
   /** Keywords that indicate relevance (positive signals) */
   positiveKeywords: string[];
@@ -68,7 +106,10 @@ export class ContentAnalyzer {
           serviceScore: 0,
           businessTypeScore: 0,
           contentQualityScore: 0,
+          geographyBoostScore: 0,
         },
+        matchedKeywords: { positive: [], negative: [] },
+        threshold,
         reasons: [content.error || 'No content available to analyze'],
         confidence: 'low',
       };
@@ -78,13 +119,18 @@ export class ContentAnalyzer {
     const title = (content.title || '').toLowerCase();
     const description = (content.description || '').toLowerCase();
     const fullText = `${title} ${description} ${text}`;
+    // Same text in its original case, for keyword snippets
+    const displayText = `${content.title || ''} ${content.description || ''} ${content.textContent}`;
+    const matchedKeywords: NonNullable<RelevanceScore['matchedKeywords']> = { positive: [], negative: [] };
 
     // 1. Keyword Score (0-30 points)
     const keywordScore = this.calculateKeywordScore(
       fullText,
       config.positiveKeywords,
       config.negativeKeywords,
-      reasons
+      reasons,
+      displayText,
+      matchedKeywords
     );
 
     // 2. Service Score (0-25 points)
@@ -140,7 +186,10 @@ export class ContentAnalyzer {
         serviceScore,
         businessTypeScore,
         contentQualityScore,
+        geographyBoostScore,
       },
+      matchedKeywords,
+      threshold,
       reasons,
       detectedIndustry,
       confidence,
@@ -149,12 +198,15 @@ export class ContentAnalyzer {
 
   /**
    * Calculate keyword-based relevance score
+   * Matched keywords (with snippets from displayText) are added to matches.
    */
   private calculateKeywordScore(
     text: string,
     positiveKeywords: string[],
     negativeKeywords: string[],
-    reasons: string[]
+    reasons: string[],
+    displayText: string = text,
+    matches: NonNullable<RelevanceScore['matchedKeywords']> = { positive: [], negative: [] }
   ): number {
     let score = 0;
     const matchedPositive: string[] = [];
@@ -177,6 +229,13 @@ export class ContentAnalyzer {
       }
     }
 
+    const snippet = (keyword: string): KeywordMatch => ({
+      keyword,
+      snippet: this.keywordSnippet(text, displayText, keyword),
+    });
+    matches.positive.push(...matchedPositive.slice(0, MAX_KEYWORD_MATCHES).map(snippet));
+    matches.negative.push(...matchedNegative.slice(0, MAX_KEYWORD_MATCHES).map(snippet));
+
     if (matchedPositive.length > 0) {
       reasons.push(`Found relevant keywords: ${matchedPositive.slice(0, 5).join(', ')}`);
     }
@@ -187,6 +246,23 @@ export class ContentAnalyzer {
     return Math.max(0, score);
   }
 
+  /**
+   * Text around the first occurrence of a keyword
+   * text is the lowercased displayText; positions are mapped back when the
+   * lengths agree (they differ only for rare case-folding characters).
+   */
+  private keywordSnippet(text: string, displayText: string, keyword: string): string {
+    const index = text.indexOf(keyword.toLowerCase());
+    if (index < 0) {
+      return '';
+    }
+    const source = displayText.length === text.length ? displayText : text;
+    const start = Math.max(0, index - SNIPPET_CONTEXT);
+    const end = Math.min(source.length, index + keyword.length + SNIPPET_CONTEXT);
+    const snippet = source.substring(start, end).replace(/\s+/g, ' ').trim();
+    return `${start > 0 ? '…' : ''}${snippet}${end < source.length ? '…' : ''}`;
+  }
+
   /**
    * Calculate service-based relevance score
    */
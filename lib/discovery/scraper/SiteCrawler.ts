@@ -0,0 +1,278 @@
+/**
+ * Site Crawler for Discovery
+ *
+ * Bounded same-origin crawl of a company website: the start page first, then
+ * contact / about / services / team pages, within depth, page, byte and time
+ * budgets. Returns the raw HTML of each page; parsing is left to the caller
+ * (WebScraper, WebsiteSignalExtractor). Requests go through politeFetch
+ * (robots.txt, per-host crawl delay); every page fetched is added to the
+ * usage ledger.
+ */
+
+import { politeFetch, type BlockedFetch } from '../fetch/politeFetch';
+import { recordFetchUsage } from '../usage/ledger';
+
+export interface CrawlBudget {
+  /** Link depth followed from the start page (default: 1, 0 = start page only) */
+  maxDepth?: number;
+  /** Maximum pages fetched per site, including the start page (default: 4) */
+  maxPages?: number;
+  /** Maximum HTML bytes fetched per site; reading stops once reached (default: 1MB) */
+  maxBytes?: number;
+  /** Maximum time spent on one site (ms, default: 20000) */
+  maxDurationMs?: number;
+}
+
+export interface SiteCrawlerOptions extends CrawlBudget {
+  /** Timeout per page in milliseconds (default: 10000) */
+  timeout?: number;
+  /** Maximum HTML bytes read per page (default: 500KB) */
+  maxPageBytes?: number;
+  /** Whether to follow redirects (default: true) */
+  followRedirects?: boolean;
+}
+
+export interface CrawledPage {
+  /** Final URL (after redirects) */
+  url: string;
+  html: string;
+  /** Link depth from the start page (0 = start page) */
+  depth: number;
+  /** HTML bytes read (the body is cut off at the remaining byte budget) */
+  bytes: number;
+}
+
+export interface SiteCrawlResult {
+  /** True when the start page was fetched */
+  success: boolean;
+  url: string;
+  /** Fetched pages, start page first */
+  pages: CrawledPage[];
+  /** URLs of the fetched pages, in crawl order */
+  pagesVisited: string[];
+  bytesFetched: number;
+  /** Error for the start page (when success is false) */
+  error?: string;
+  /** Errors for other pages, by URL */
+  pageErrors?: Record<string, string>;
+  /** URLs not fetched (robots.txt disallowed, rate limited) */
+  blocked?: BlockedFetch[];
+}
+
+/**
+ * Paths worth fetching, in priority order (lower index first)
+ */
+const PRIORITY_PATHS: RegExp[] = [
+  /contact|get-in-touch|reach-us|enquir/i,
+  /about|who-we-are|our-story|company|profile/i,
+  /services?|what-we-do|solutions|products|offering|capabilit/i,
+  /team|people|leadership|management|staff/i,
+];
+
+/**
+ * Paths never fetched (legal pages, blogs, shops, logins, assets)
+ */
+const EXCLUDED_PATHS =
+  /privacy|cookie|terms|disclaimer|legal|login|signin|sign-in|register|account|cart|checkout|basket|wp-admin|wp-json|feed|\/tag\/|\/category\/|\/author\/|\/blog\/.+|\/news\/.+|\/\d{4}\/\d{2}\//i;
+
+const ASSET_EXTENSION = /\.(?:pdf|jpe?g|png|gif|svg|webp|ico|zip|rar|docx?|xlsx?|pptx?|mp4|mp3|css|js|xml|json)$/i;
+
+/**
+ * Host without "www." for same-origin checks
+ */
+function siteHost(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^www\./, '');
+}
+
+/**
+ * Crawl priority for a same-origin link (lower is better), or undefined to skip it
+ * Priority paths rank by PRIORITY_PATHS; other pages follow them.
+ */
+function linkPriority(url: URL): number | undefined {
+  const path = url.pathname.toLowerCase();
+  if (path === '/' || ASSET_EXTENSION.test(path) || EXCLUDED_PATHS.test(path)) {
+    return undefined;
+  }
+
+  const index = PRIORITY_PATHS.findIndex((pattern) => pattern.test(path));
+  return index >= 0 ? index : PRIORITY_PATHS.length;
+}
+
+/**
+ * Same-origin links on a page, highest priority first
+ */
+function findCrawlLinks(html: string, page: URL): string[] {
+  const ranked: Array<{ url: string; priority: number }> = [];
+
+  for (const match of html.matchAll(/<a\b[^>]*href\s*=\s*["']([^"'#]+)[^"']*["']/gi)) {
+    let url: URL;
+    try {
+      url = new URL(match[1].trim(), page);
+    } catch {
+      continue;
+    }
+    if (!['http:', 'https:'].includes(url.protocol) || siteHost(url) !== siteHost(page)) continue;
+
+    url.hash = '';
+    url.search = '';
+    const priority = linkPriority(url);
+    if (priority === undefined || ranked.some((link) => link.url === url.toString())) continue;
+    ranked.push({ url: url.toString(), priority });
+  }
+
+  // Stable sort keeps page order within a priority
+  return ranked.sort((a, b) => a.priority - b.priority).map((link) => link.url);
+}
+
+/**
+ * Site Crawler class
+ *
+ * One instance can crawl many sites; budgets apply per site.
+ */
+export class SiteCrawler {
+  private options: Required<SiteCrawlerOptions>;
+
+  constructor(options: SiteCrawlerOptions = {}) {
+    this.options = {
+      maxDepth: 1,
+      maxPages: 4,
+      maxBytes: 1024 * 1024, // 1MB
+      maxDurationMs: 20000,
+      timeout: 10000,
+      maxPageBytes: 500 * 1024, // 500KB
+      followRedirects: true,
+      // Unset budgets keep their defaults
+      ...Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)),
+    };
+  }
+
+  /**
+   * Crawl a site starting at url
+   *
+   * Never throws: a failing start page is returned as success: false with the
+   * error; failing other pages are recorded in pageErrors and skipped.
+   */
+  async crawl(url: string): Promise<SiteCrawlResult> {
+    const startTime = Date.now();
+    const { maxDepth, maxPages, maxBytes, maxDurationMs } = this.options;
+
+    let startUrl: URL;
+    try {
+      startUrl = new URL(url);
+    } catch {
+      return { success: false, url, pages: [], pagesVisited: [], bytesFetched: 0, error: 'Invalid URL' };
+    }
+    if (!['http:', 'https:'].includes(startUrl.protocol)) {
+      return {
+        success: false,
+        url,
+        pages: [],
+        pagesVisited: [],
+        bytesFetched: 0,
+        error: 'Invalid URL protocol - must be http or https',
+      };
+    }
+
+    const pages: CrawledPage[] = [];
+    const pageErrors: Record<string, string> = {};
+    const blocked: BlockedFetch[] = [];
+    const seen = new Set<string>([startUrl.toString()]);
+    let bytesFetched = 0;
+
+    try {
+      const html = await this.fetchHtml(startUrl.toString(), this.options.timeout, Math.min(this.options.maxPageBytes, maxBytes), blocked);
+      pages.push({ url: html.url, html: html.html, depth: 0, bytes: html.bytes });
+      bytesFetched += html.bytes;
+      seen.add(html.url);
+    } catch (error) {
+      return {
+        success: false,
+        url,
+        pages,
+        pagesVisited: [],
+        bytesFetched,
+        error: error instanceof Error ? error.message : 'Unknown scraping error',
+        ...(blocked.length > 0 ? { blocked } : {}),
+      };
+    }
+
+    // Breadth-first by depth, priority paths first within each depth
+    let frontier = [pages[0]];
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const queue = frontier.flatMap((page) => findCrawlLinks(page.html, new URL(page.url)));
+      frontier = [];
+
+      for (const link of queue) {
+        const remainingMs = maxDurationMs - (Date.now() - startTime);
+        if (pages.length >= maxPages || bytesFetched >= maxBytes || remainingMs <= 0) break;
+        if (seen.has(link)) continue;
+        seen.add(link);
+
+        try {
+          const html = await this.fetchHtml(
+            link,
+            Math.min(this.options.timeout, remainingMs),
+            Math.min(this.options.maxPageBytes, maxBytes - bytesFetched),
+            blocked
+          );
+          // Redirects off-site (or back to a visited page) are dropped
+          if (siteHost(new URL(html.url)) !== siteHost(startUrl) || (html.url !== link && seen.has(html.url))) continue;
+          seen.add(html.url);
+
+          const page = { url: html.url, html: html.html, depth, bytes: html.bytes };
+          pages.push(page);
+          frontier.push(page);
+          bytesFetched += page.bytes;
+        } catch (error) {
+          pageErrors[link] = error instanceof Error ? error.message : 'Unknown scraping error';
+        }
+      }
+    }
+
+    return {
+      success: true,
+      url,
+      pages,
+      pagesVisited: pages.map((page) => page.url),
+      bytesFetched,
+      ...(Object.keys(pageErrors).length > 0 ? { pageErrors } : {}),
+      ...(blocked.length > 0 ? { blocked } : {}),
+    };
+  }
+
+  /**
+   * Fetch one HTML page, reading at most maxBytes of it (throws on failure)
+   * URLs refused by the polite fetch layer are also added to blocked.
+   */
+  private async fetchHtml(
+    url: string,
+    timeout: number,
+    maxBytes: number,
+    blocked: BlockedFetch[]
+  ): Promise<{ url: string; html: string; bytes: number }> {
+    const result = await politeFetch(url, { timeout, followRedirects: this.options.followRedirects, maxBytes });
+    if (!result.success) {
+      blocked.push(result.blocked);
+      throw new Error(result.error);
+    }
+
+    const response = result.response;
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    // Check content type
+    const contentType = response.headers.get('content-type') || '';
+    if (!contentType.includes('text/html') && !contentType.includes('application/xhtml')) {
+      throw new Error(`Unexpected content type: ${contentType}`);
+    }
+
+    const { body, truncated } = result;
+    await recordFetchUsage(body.length);
+    if (truncated) {
+      console.warn(`Content truncated for ${url} at ${maxBytes} bytes`);
+    }
+
+    return { url: response.url || url, html: body.toString('utf8'), bytes: body.length };
+  }
+}
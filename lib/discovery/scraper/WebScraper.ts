@@ -3,8 +3,20 @@
  * 
  * Fetches and parses website content to extract company information.
  * Used to analyze potential leads discovered via search.
+ * Structured data (JSON-LD, microdata, OpenGraph) is preferred over regex
+ * matches for the company name, contact details and social links.
  */
 
+import { SiteCrawler } from './SiteCrawler';
+import {
+  extractStructuredData,
+  mergeStructuredData,
+  formatStructuredAddress,
+  socialProfileUrl,
+} from './structuredData';
+import type { BlockedFetch } from '../fetch/politeFetch';
+import type { WebsiteSignalStructuredData } from '../types';
+
 export interface ScrapedContent {
   success: boolean;
   url: string;
@@ -21,6 +33,7 @@ export interface ScrapedContent {
     email?: string;
     phone?: string;
     address?: string;
+    postalCode?: string;
   };
   /** Social media links */
   socialLinks?: {
@@ -31,10 +44,18 @@ export interface ScrapedContent {
   };
   /** Keywords found on the page */
   keywords?: string[];
+  /** Organization details from JSON-LD, microdata and OpenGraph (with provenance) */
+  structuredData?: WebsiteSignalStructuredData;
   /** Error message if scraping failed */
   error?: string;
   /** Time taken to scrape (ms) */
   scrapeDurationMs?: number;
+  /** Pages read on the site, start page first */
+  pagesVisited?: string[];
+  /** HTML bytes fetched across all pages */
+  bytesFetched?: number;
+  /** URLs not fetched (robots.txt disallowed, rate limited) */
+  blockedUrls?: BlockedFetch[];
 }
 
 export interface ScrapeOptions {
@@ -42,8 +63,16 @@ export interface ScrapeOptions {
   timeout?: number;
   /** Whether to follow redirects (default: true) */
   followRedirects?: boolean;
-  /** Maximum content length to process (default: 500KB) */
+  /** Maximum content length to process per page (default: 500KB) */
   maxContentLength?: number;
+  /** Link depth followed from the given URL (default: 1) */
+  maxDepth?: number;
+  /** Maximum pages read per site, including the given URL (default: 4) */
+  maxPages?: number;
+  /** Maximum HTML bytes fetched per site (default: 1MB) */
+  maxBytesPerSite?: number;
+  /** Maximum time spent crawling one site (ms, default: 20000) */
+  maxDurationMs?: number;
 }
 
 /**
@@ -56,121 +85,126 @@ export class WebScraper {
     timeout: 10000,
     followRedirects: true,
     maxContentLength: 500 * 1024, // 500KB
+    maxDepth: 1,
+    maxPages: 4,
+    maxBytesPerSite: 1024 * 1024, // 1MB
+    maxDurationMs: 20000,
   };
 
   /**
-   * Scrape a single URL and extract company information
+   * Scrape a site and extract company information
+   *
+   * Crawls the given URL and its contact / about / services / team pages
+   * (same site, within the crawl budget) and merges what each page yields.
+   * Set maxPages: 1 to read the given URL only.
    */
   async scrape(url: string, options?: ScrapeOptions): Promise<ScrapedContent> {
     const opts = { ...this.defaultOptions, ...options };
     const startTime = Date.now();
 
-    try {
-      // Validate URL
-      const parsedUrl = new URL(url);
-      if (!['http:', 'https:'].includes(parsedUrl.protocol)) {
-        return {
-          success: false,
-          url,
-          error: 'Invalid URL protocol - must be http or https',
-        };
-      }
-
-      // Fetch the page
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), opts.timeout);
-
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-        },
-        redirect: opts.followRedirects ? 'follow' : 'manual',
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        return {
-          success: false,
-          url,
-          error: `HTTP ${response.status}: ${response.statusText}`,
-          scrapeDurationMs: Date.now() - startTime,
-        };
-      }
-
-      // Check content type
-      const contentType = response.headers.get('content-type') || '';
-      if (!contentType.includes('text/html') && !contentType.includes('application/xhtml')) {
-        return {
-          success: false,
-          url,
-          error: `Unexpected content type: ${contentType}`,
-          scrapeDurationMs: Date.now() - startTime,
-        };
-      }
-
-      // Get HTML content
-      const html = await response.text();
-      
-      // Check content length
-      if (html.length > opts.maxContentLength) {
-        // Truncate but still try to process
-        console.warn(`Content truncated for ${url}: ${html.length} bytes`);
-      }
-
-      // Parse and extract content
-      const result = this.parseHtml(html, url);
-      result.scrapeDurationMs = Date.now() - startTime;
-      
-      return result;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown scraping error';
-      
-      // Handle specific errors
-      if (errorMessage.includes('abort')) {
-        return {
-          success: false,
-          url,
-          error: `Timeout after ${opts.timeout}ms`,
-          scrapeDurationMs: Date.now() - startTime,
-        };
-      }
-
+    const crawl = await new SiteCrawler({
+      timeout: opts.timeout,
+      followRedirects: opts.followRedirects,
+      maxPageBytes: opts.maxContentLength,
+      maxDepth: opts.maxDepth,
+      maxPages: opts.maxPages,
+      maxBytes: opts.maxBytesPerSite,
+      maxDurationMs: opts.maxDurationMs,
+    }).crawl(url);
+
+    if (!crawl.success) {
       return {
         success: false,
         url,
-        error: errorMessage,
+        error: crawl.error,
         scrapeDurationMs: Date.now() - startTime,
+        ...(crawl.blocked ? { blockedUrls: crawl.blocked } : {}),
       };
     }
+
+    // Parse and extract content from each page, start page first
+    const pages = crawl.pages.map((page) => this.parseHtml(page.html, page.url));
+    const result = pages.length > 1 ? this.mergePages(url, pages) : { ...pages[0], url };
+    result.pagesVisited = crawl.pagesVisited;
+    result.bytesFetched = crawl.bytesFetched;
+    if (crawl.blocked) {
+      result.blockedUrls = crawl.blocked;
+    }
+    result.scrapeDurationMs = Date.now() - startTime;
+
+    return result;
   }
 
   /**
    * Scrape multiple URLs in parallel (with concurrency limit)
+   *
+   * A fixed pool of workers takes the next URL as soon as one finishes;
+   * per-host spacing is applied by the fetch layer. Results keep URL order.
    */
   async scrapeMany(
     urls: string[],
     options?: ScrapeOptions & { concurrency?: number }
   ): Promise<ScrapedContent[]> {
     const concurrency = options?.concurrency || 3;
-    const results: ScrapedContent[] = [];
-    
-    // Process in batches to respect concurrency
-    for (let i = 0; i < urls.length; i += concurrency) {
-      const batch = urls.slice(i, i + concurrency);
-      const batchResults = await Promise.all(
-        batch.map(url => this.scrape(url, options))
-      );
-      results.push(...batchResults);
-    }
+    const results: ScrapedContent[] = new Array(urls.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < urls.length) {
+        const index = next++;
+        results[index] = await this.scrape(urls[index], options);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, urls.length) }, worker));
 
     return results;
   }
 
+  /**
+   * Merge parsed pages of one site into a single result
+   *
+   * Title, description and company name come from the start page; contact
+   * details and social links from the site's structured data, else the first
+   * page that has them; text, services and keywords are combined.
+   */
+  private mergePages(url: string, pages: ScrapedContent[]): ScrapedContent {
+    const parsed = pages.filter((page) => page.success);
+    const [home] = parsed;
+    if (!home) {
+      return pages[0];
+    }
+
+    const contact: NonNullable<ScrapedContent['contact']> = {};
+    const socialLinks: NonNullable<ScrapedContent['socialLinks']> = {};
+    for (const page of parsed) {
+      for (const [key, value] of Object.entries(page.contact ?? {}) as Array<[keyof typeof contact, string | undefined]>) {
+        if (value && !contact[key]) contact[key] = value;
+      }
+      for (const [key, value] of Object.entries(page.socialLinks ?? {}) as Array<[keyof typeof socialLinks, string | undefined]>) {
+        if (value && !socialLinks[key]) socialLinks[key] = value;
+      }
+    }
+
+    const structuredData = mergeStructuredData(parsed.map((page) => page.structuredData));
+
+    return {
+      success: true,
+      url,
+      title: home.title,
+      description: home.description || parsed.find((page) => page.description)?.description,
+      textContent: parsed.map((page) => page.textContent ?? '').join(' ').substring(0, 15000), // Limit stored text
+      companyName: structuredData?.name?.value ?? home.companyName,
+      services: [...new Set(parsed.flatMap((page) => page.services ?? []))].slice(0, 10),
+      contact: this.applyStructuredContact(Object.keys(contact).length > 0 ? contact : undefined, structuredData),
+      socialLinks: this.applyStructuredSocialLinks(
+        Object.keys(socialLinks).length > 0 ? socialLinks : undefined,
+        structuredData
+      ),
+      keywords: [...new Set(parsed.flatMap((page) => page.keywords ?? []))],
+      structuredData,
+    };
+  }
+
   /**
    * Parse HTML and extract relevant information
    */
@@ -185,6 +219,9 @@ export class WebScraper {
                         html.match(/<meta[^>]*content=["']([^"']*)["'][^>]*name=["']description["']/i);
       const description = descMatch ? this.cleanText(descMatch[1]) : undefined;
 
+      // Extract structured data (JSON-LD, microdata, OpenGraph)
+      const structuredData = extractStructuredData(html, url);
+
       // Extract Open Graph data
       const ogTitleMatch = html.match(/<meta[^>]*property=["']og:title["'][^>]*content=["']([^"']*)["']/i);
       const ogDescMatch = html.match(/<meta[^>]*property=["']og:description["'][^>]*content=["']([^"']*)["']/i);
@@ -192,14 +229,14 @@ export class WebScraper {
       // Extract main text content (remove scripts, styles, etc.)
       const textContent = this.extractTextContent(html);
 
-      // Extract company name from various sources
-      const companyName = this.extractCompanyName(html, title, url);
+      // Extract company name from various sources (structured data first)
+      const companyName = structuredData?.name?.value ?? this.extractCompanyName(html, title, url);
 
-      // Extract contact information
-      const contact = this.extractContactInfo(html, textContent);
+      // Extract contact information (structured data first)
+      const contact = this.applyStructuredContact(this.extractContactInfo(html, textContent), structuredData);
 
-      // Extract social media links
-      const socialLinks = this.extractSocialLinks(html);
+      // Extract social media links (structured sameAs first)
+      const socialLinks = this.applyStructuredSocialLinks(this.extractSocialLinks(html), structuredData);
 
       // Extract keywords/services
       const keywords = this.extractKeywords(textContent, description);
@@ -209,13 +246,14 @@ export class WebScraper {
         success: true,
         url,
         title: title || ogTitleMatch?.[1],
-        description: description || ogDescMatch?.[1],
+        description: description || ogDescMatch?.[1] || structuredData?.description?.value,
         textContent: textContent.substring(0, 5000), // Limit stored text
         companyName,
         services,
         contact,
         socialLinks,
         keywords,
+        structuredData,
       };
     } catch (error) {
       return {
@@ -333,6 +371,47 @@ export class WebScraper {
     return Object.keys(contact).length > 0 ? contact : undefined;
   }
 
+  /**
+   * Contact details with the structured data's telephone, email and address
+   * taking precedence over regex matches
+   */
+  private applyStructuredContact(
+    contact: ScrapedContent['contact'],
+    structuredData?: WebsiteSignalStructuredData
+  ): ScrapedContent['contact'] {
+    if (!structuredData) {
+      return contact;
+    }
+    const address = structuredData.address?.value;
+    const merged: NonNullable<ScrapedContent['contact']> = {
+      ...contact,
+      ...(structuredData.email ? { email: structuredData.email.value.toLowerCase() } : {}),
+      ...(structuredData.telephone ? { phone: structuredData.telephone.value } : {}),
+      ...(address ? { address: formatStructuredAddress(address) } : {}),
+      ...(address?.postalCode ? { postalCode: address.postalCode } : {}),
+    };
+    return Object.keys(merged).length > 0 ? merged : undefined;
+  }
+
+  /**
+   * Social links with the structured data's sameAs profiles taking precedence
+   */
+  private applyStructuredSocialLinks(
+    links: ScrapedContent['socialLinks'],
+    structuredData?: WebsiteSignalStructuredData
+  ): ScrapedContent['socialLinks'] {
+    const sameAs = structuredData?.sameAs?.value;
+    if (!sameAs) {
+      return links;
+    }
+    const merged: NonNullable<ScrapedContent['socialLinks']> = { ...links };
+    for (const network of ['linkedin', 'twitter', 'facebook', 'instagram'] as const) {
+      const url = socialProfileUrl(sameAs, network);
+      if (url) merged[network] = url;
+    }
+    return Object.keys(merged).length > 0 ? merged : undefined;
+  }
+
   /**
    * Extract social media links
    */
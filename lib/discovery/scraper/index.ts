@@ -7,5 +7,16 @@
 export { WebScraper, webScraper } from './WebScraper';
 export type { ScrapedContent, ScrapeOptions } from './WebScraper';
 
+export { SiteCrawler } from './SiteCrawler';
+export type { CrawlBudget, CrawledPage, SiteCrawlerOptions, SiteCrawlResult } from './SiteCrawler';
+
+export {
+  extractStructuredData,
+  mergeStructuredData,
+  formatStructuredAddress,
+  socialProfileUrl,
+  isOrganizationType,
+} from './structuredData';
+
 export { ContentAnalyzer, contentAnalyzer } from './ContentAnalyzer';
-export type { RelevanceScore, AnalysisConfig } from './ContentAnalyzer';
+export type { RelevanceScore, AnalysisConfig, KeywordMatch, FilteredOutResult } from './ContentAnalyzer';
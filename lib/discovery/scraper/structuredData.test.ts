@@ -0,0 +1,161 @@
+/**
+ * Unit Tests for structured data extraction (JSON-LD, microdata, OpenGraph)
+ *
+ * Simple test runner compatible with repo conventions.
+ * Run with: tsx lib/discovery/scraper/structuredData.test.ts
+ */
+
+import { extractStructuredData, mergeStructuredData, socialProfileUrl } from './structuredData';
+
+// Simple assertion helper
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string): void {
+  if (actual !== expected) {
+    throw new Error(`Assertion failed: ${message}. Expected: ${expected}, Actual: ${actual}`);
+  }
+}
+
+const HOME_URL = 'https://acme.co.za/';
+const CONTACT_URL = 'https://acme.co.za/contact';
+
+// Test cases
+function testJsonLd() {
+  console.log('Test 1: JSON-LD organization from an @graph');
+
+  const html = `<html><head>
+    <script type="application/ld+json">{"@context":"https://schema.org","@graph":[
+      {"@type":"WebSite","name":"Acme Site","url":"https://acme.co.za/"},
+      {"@type":["LocalBusiness","ProfessionalService"],"name":"Acme Branding (Pty) Ltd",
+       "telephone":"+27 11 555 0100","email":"mailto:Hello@acme.co.za","logo":{"@type":"ImageObject","url":"/logo.png"},
+       "address":{"@type":"PostalAddress","streetAddress":"12 Main Rd","addressLocality":"Sandton",
+         "addressRegion":"Gauteng","postalCode":"2196","addressCountry":{"@type":"Country","name":"ZA"}},
+       "sameAs":["https://www.linkedin.com/company/acme-branding","https://www.facebook.com/acmebranding"]}
+    ]}</script>
+    <meta property="og:site_name" content="Acme">
+  </head><body></body></html>`;
+
+  const data = extractStructuredData(html, HOME_URL);
+  assert(data !== undefined, 'Structured data should be found');
+  assertEqual(data!.name?.value, 'Acme Branding (Pty) Ltd', 'Name should come from the organization node');
+  assertEqual(data!.name?.source, 'json-ld', 'Name should be attributed to JSON-LD');
+  assertEqual(data!.name?.pageUrl, HOME_URL, 'Name should record its page');
+  assertEqual(data!.address?.value.postalCode, '2196', 'Postal code should be read');
+  assertEqual(data!.address?.value.locality, 'Sandton', 'Locality should be read');
+  assertEqual(data!.email?.value, 'Hello@acme.co.za', 'mailto: prefix should be stripped');
+  assertEqual(data!.logo?.value, 'https://acme.co.za/logo.png', 'Logo should be absolute');
+  assertEqual(
+    socialProfileUrl(data!.sameAs?.value, 'linkedin'),
+    'https://www.linkedin.com/company/acme-branding',
+    'LinkedIn profile should be found in sameAs'
+  );
+
+  console.log('  ✅ JSON-LD extracted');
+}
+
+function testMicrodataAndOpenGraph() {
+  console.log('Test 2: Microdata and OpenGraph fallbacks');
+
+  const microdata = `<div itemscope itemtype="https://schema.org/Organization">
+    <span itemprop="name">Acme Print</span>
+    <div itemprop="address" itemscope itemtype="https://schema.org/PostalAddress">
+      <span itemprop="streetAddress">4 Long St</span>, <span itemprop="addressLocality">Cape Town</span>
+      <span itemprop="postalCode">8001</span>
+    </div>
+    <a itemprop="sameAs" href="https://twitter.com/acmeprint">Twitter</a>
+  </div>`;
+  const fromMicrodata = extractStructuredData(microdata, CONTACT_URL);
+  assertEqual(fromMicrodata?.name?.value, 'Acme Print', 'Microdata name should be read');
+  assertEqual(fromMicrodata?.name?.source, 'microdata', 'Name should be attributed to microdata');
+  assertEqual(fromMicrodata?.address?.value.postalCode, '8001', 'Microdata postal code should be read');
+  assertEqual(
+    socialProfileUrl(fromMicrodata?.sameAs?.value, 'twitter'),
+    'https://twitter.com/acmeprint',
+    'Microdata sameAs links should be read'
+  );
+
+  const openGraph = `<meta property="og:site_name" content="Acme &amp; Co">
+    <meta property="business:contact_data:postal_code" content="0181">
+    <meta property="business:contact_data:locality" content="Pretoria">
+    <meta property="business:contact_data:phone_number" content="012 555 0199">`;
+  const fromOpenGraph = extractStructuredData(openGraph, HOME_URL);
+  assertEqual(fromOpenGraph?.name?.value, 'Acme & Co', 'Entities should be decoded');
+  assertEqual(fromOpenGraph?.address?.value.postalCode, '0181', 'Business contact data should be read');
+  assertEqual(fromOpenGraph?.telephone?.source, 'opengraph', 'Phone should be attributed to OpenGraph');
+
+  assertEqual(extractStructuredData('<p>No markup here</p>', HOME_URL), undefined, 'Pages without markup have no data');
+
+  console.log('  ✅ Fallback sources extracted');
+}
+
+function testMerge() {
+  console.log('Test 3: Merging pages prefers the most reliable source');
+
+  const home = extractStructuredData(
+    `<meta property="og:site_name" content="Acme">
+     <meta property="business:contact_data:postal_code" content="0000">`,
+    HOME_URL
+  );
+  const contact = extractStructuredData(
+    `<script type="application/ld+json">{"@type":"Organization","name":"Acme Branding",
+      "address":{"postalCode":"2196","addressLocality":"Sandton"},
+      "sameAs":"https://www.instagram.com/acme"}</script>`,
+    CONTACT_URL
+  );
+
+  const merged = mergeStructuredData([home, undefined, contact]);
+  assertEqual(merged?.name?.value, 'Acme Branding', 'JSON-LD name should win over OpenGraph');
+  assertEqual(merged?.address?.value.postalCode, '2196', 'JSON-LD address should win');
+  assertEqual(merged?.address?.pageUrl, CONTACT_URL, 'Provenance should point at the contact page');
+  assertEqual(merged?.sameAs?.value.length, 1, 'sameAs should be kept');
+  assertEqual(mergeStructuredData([undefined]), undefined, 'No pages with data merge to undefined');
+
+  console.log('  ✅ Pages merged');
+}
+
+function runTests() {
+  console.log('='.repeat(60));
+  console.log('Structured Data Extraction Unit Tests');
+  console.log('='.repeat(60));
+  console.log('');
+
+  const tests = [
+    testJsonLd,
+    testMicrodataAndOpenGraph,
+    testMerge,
+  ];
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const test of tests) {
+    try {
+      test();
+      passed++;
+      console.log('');
+    } catch (error) {
+      failed++;
+      console.error(`  ❌ Test failed: ${error instanceof Error ? error.message : String(error)}`);
+      console.log('');
+    }
+  }
+
+  console.log('='.repeat(60));
+  console.log(`Tests: ${passed} passed, ${failed} failed (total: ${tests.length})`);
+  console.log('='.repeat(60));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
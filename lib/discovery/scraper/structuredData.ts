@@ -0,0 +1,411 @@
+/**
+ * Structured Data Extraction
+ *
+ * Reads the organization a page describes from the markup sites publish for
+ * search engines, in order of reliability:
+ * 1. schema.org JSON-LD (Organization, LocalBusiness and their subtypes)
+ * 2. schema.org microdata (itemscope / itemprop)
+ * 3. OpenGraph and business:contact_data meta tags
+ *
+ * Each value keeps its source and page URL (provenance). Used by WebScraper
+ * and WebsiteSignalExtractor; regex extraction over the page text remains the
+ * fallback for values the markup does not carry.
+ */
+
+import type {
+  StructuredDataField,
+  StructuredDataSource,
+  StructuredPostalAddress,
+  WebsiteSignalStructuredData,
+} from '../types';
+
+/** Sources from most to least reliable */
+const SOURCE_RANK: StructuredDataSource[] = ['json-ld', 'microdata', 'opengraph'];
+
+/** schema.org types describing an organization (Organization, LocalBusiness, ProfessionalService, ...) */
+const ORGANIZATION_TYPE_PATTERN = /(?:Organization|Corporation|Business|.+Service|Agency|Store)$/;
+
+/** Nesting depth searched for organizations in JSON-LD (publisher, provider, @graph, ...) */
+const MAX_JSON_LD_DEPTH = 4;
+
+/** Characters after an itemscope element searched for its itemprops */
+const MICRODATA_SCOPE_LENGTH = 10000;
+
+type JsonObject = Record<string, unknown>;
+
+type StringField = Exclude<keyof WebsiteSignalStructuredData, 'types' | 'address' | 'sameAs'>;
+
+/**
+ * Organization fields read from one source of one page
+ */
+interface SourceValues {
+  types?: string[];
+  name?: string;
+  description?: string;
+  url?: string;
+  logo?: string;
+  telephone?: string;
+  email?: string;
+  address?: StructuredPostalAddress;
+  sameAs?: string[];
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/&#x27;/g, "'");
+}
+
+function cleanValue(value: unknown): string | undefined {
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const cleaned = decodeEntities(value.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+  return cleaned.length > 0 ? cleaned : undefined;
+}
+
+function absoluteUrl(value: string | undefined, pageUrl: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  try {
+    return new URL(value, pageUrl).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether a schema.org type describes an organization
+ */
+export function isOrganizationType(type: string): boolean {
+  return ORGANIZATION_TYPE_PATTERN.test(type.replace(/^https?:\/\/schema\.org\//i, ''));
+}
+
+function typesOf(node: JsonObject): string[] {
+  const type = node['@type'];
+  const types = Array.isArray(type) ? type : [type];
+  return types.filter((t): t is string => typeof t === 'string');
+}
+
+/**
+ * First string of a JSON-LD value (string, number, array or { name / url / @id })
+ */
+function jsonLdText(value: unknown, key: 'name' | 'url' = 'name'): string | undefined {
+  if (Array.isArray(value)) {
+    return jsonLdText(value[0], key);
+  }
+  if (value && typeof value === 'object') {
+    const object = value as JsonObject;
+    return cleanValue(object[key]) ?? cleanValue(object['@id']);
+  }
+  return cleanValue(value);
+}
+
+function jsonLdAddress(value: unknown): StructuredPostalAddress | undefined {
+  if (Array.isArray(value)) {
+    return jsonLdAddress(value[0]);
+  }
+  if (typeof value === 'string') {
+    const streetAddress = cleanValue(value);
+    return streetAddress ? { streetAddress } : undefined;
+  }
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+  const address = value as JsonObject;
+  return compactAddress({
+    streetAddress: jsonLdText(address.streetAddress),
+    locality: jsonLdText(address.addressLocality),
+    region: jsonLdText(address.addressRegion),
+    postalCode: jsonLdText(address.postalCode),
+    country: jsonLdText(address.addressCountry),
+  });
+}
+
+function compactAddress(address: StructuredPostalAddress): StructuredPostalAddress | undefined {
+  const entries = Object.entries(address).filter(([, value]) => Boolean(value));
+  return entries.length > 0 ? (Object.fromEntries(entries) as StructuredPostalAddress) : undefined;
+}
+
+/**
+ * Organization nodes in a parsed JSON-LD block (including @graph and nested nodes)
+ */
+function collectOrganizations(value: unknown, found: JsonObject[], depth = 0): void {
+  if (depth > MAX_JSON_LD_DEPTH || !value || typeof value !== 'object') {
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectOrganizations(item, found, depth + 1));
+    return;
+  }
+  const node = value as JsonObject;
+  if (typesOf(node).some(isOrganizationType)) {
+    found.push(node);
+  }
+  for (const child of Object.values(node)) {
+    collectOrganizations(child, found, depth + 1);
+  }
+}
+
+function stringList(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values.map((item) => jsonLdText(item, 'url')).filter((item): item is string => Boolean(item));
+}
+
+function fromJsonLdNode(node: JsonObject, pageUrl: string): SourceValues {
+  const sameAs = stringList(node.sameAs)
+    .map((url) => absoluteUrl(url, pageUrl))
+    .filter((url): url is string => Boolean(url));
+  return {
+    types: typesOf(node),
+    name: jsonLdText(node.name) ?? jsonLdText(node.legalName),
+    description: jsonLdText(node.description),
+    url: absoluteUrl(jsonLdText(node.url, 'url'), pageUrl),
+    logo: absoluteUrl(jsonLdText(node.logo, 'url') ?? jsonLdText(node.image, 'url'), pageUrl),
+    telephone: jsonLdText(node.telephone),
+    email: jsonLdText(node.email)?.replace(/^mailto:/i, ''),
+    address: jsonLdAddress(node.address ?? node.location),
+    sameAs: sameAs.length > 0 ? [...new Set(sameAs)] : undefined,
+  };
+}
+
+function valueCount(values: SourceValues): number {
+  return Object.entries(values).filter(([key, value]) => key !== 'types' && value !== undefined).length;
+}
+
+/**
+ * Organization from the page's JSON-LD blocks (the node with the most details)
+ */
+function extractJsonLd(html: string, pageUrl: string): SourceValues | undefined {
+  const found: JsonObject[] = [];
+  const blocks = html.matchAll(/<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi);
+  for (const block of blocks) {
+    const json = block[1]
+      .replace(/^\s*<!--/, '')
+      .replace(/-->\s*$/, '')
+      .replace(/\/\*\s*<!\[CDATA\[\s*\*\//g, '')
+      .replace(/\/\*\s*\]\]>\s*\*\//g, '')
+      .trim();
+    try {
+      collectOrganizations(JSON.parse(json), found);
+    } catch {
+      // Skip malformed blocks
+    }
+  }
+
+  const candidates = found.map((node) => fromJsonLdNode(node, pageUrl));
+  return candidates.sort((a, b) => valueCount(b) - valueCount(a))[0];
+}
+
+/**
+ * Attributes of an HTML start tag
+ */
+function tagAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([a-zA-Z_:][-\w:.]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3];
+  }
+  return attributes;
+}
+
+/**
+ * Organization from the first organization itemscope on the page
+ */
+function extractMicrodata(html: string, pageUrl: string): SourceValues | undefined {
+  const scopes = html.matchAll(/<[a-z0-9]+\b[^>]*\bitemtype=["']([^"']+)["'][^>]*>/gi);
+  const scope = [...scopes].find(
+    (match) => /\bitemscope\b/i.test(match[0]) && match[1].split(/\s+/).some(isOrganizationType)
+  );
+  if (!scope || scope.index === undefined) {
+    return undefined;
+  }
+
+  const section = html.substring(scope.index + scope[0].length, scope.index + scope[0].length + MICRODATA_SCOPE_LENGTH);
+  const props: Record<string, string> = {};
+  const sameAs: string[] = [];
+
+  for (const match of section.matchAll(/<([a-z0-9]+)\b([^>]*\bitemprop=["']([^"']+)["'][^>]*)>/gi)) {
+    const [tag, element, , names] = match;
+    const attributes = tagAttributes(tag);
+    let value: string | undefined = attributes.content ?? attributes.href ?? attributes.src;
+    if (value === undefined && match.index !== undefined) {
+      const rest = section.substring(match.index + tag.length);
+      const end = rest.search(new RegExp(`</${element}>`, 'i'));
+      value = end >= 0 ? rest.substring(0, end) : undefined;
+    }
+    const cleaned = cleanValue(value);
+    if (!cleaned) {
+      continue;
+    }
+    for (const name of names.split(/\s+/)) {
+      if (name === 'sameAs') {
+        sameAs.push(cleaned);
+      } else if (!props[name]) {
+        props[name] = cleaned;
+      }
+    }
+  }
+
+  const values: SourceValues = {
+    types: scope[1].split(/\s+/).map((type) => type.replace(/^https?:\/\/schema\.org\//i, '')),
+    name: props.name ?? props.legalName,
+    description: props.description,
+    url: absoluteUrl(props.url, pageUrl),
+    logo: absoluteUrl(props.logo, pageUrl),
+    telephone: props.telephone,
+    email: props.email?.replace(/^mailto:/i, ''),
+    address: compactAddress({
+      streetAddress: props.streetAddress,
+      locality: props.addressLocality,
+      region: props.addressRegion,
+      postalCode: props.postalCode,
+      country: props.addressCountry,
+    }),
+    sameAs: sameAs.length > 0
+      ? [...new Set(sameAs.map((url) => absoluteUrl(url, pageUrl)).filter((url): url is string => Boolean(url)))]
+      : undefined,
+  };
+  return valueCount(values) > 0 ? values : undefined;
+}
+
+/**
+ * Organization from OpenGraph and business:contact_data meta tags
+ */
+function extractOpenGraph(html: string, pageUrl: string): SourceValues | undefined {
+  const meta: Record<string, string> = {};
+  for (const match of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = tagAttributes(match[0]);
+    const property = (attributes.property ?? attributes.name)?.toLowerCase();
+    const content = cleanValue(attributes.content);
+    if (property && content && !meta[property]) {
+      meta[property] = content;
+    }
+  }
+
+  const contact = (key: string, ogKey: string) => meta[`business:contact_data:${key}`] ?? meta[`og:${ogKey}`];
+  const values: SourceValues = {
+    name: meta['og:site_name'],
+    description: meta['og:description'],
+    url: absoluteUrl(contact('website', 'url'), pageUrl),
+    telephone: contact('phone_number', 'phone_number'),
+    email: contact('email', 'email'),
+    address: compactAddress({
+      streetAddress: contact('street_address', 'street-address'),
+      locality: contact('locality', 'locality'),
+      region: contact('region', 'region'),
+      postalCode: contact('postal_code', 'postal-code'),
+      country: contact('country_name', 'country-name'),
+    }),
+  };
+  return valueCount(values) > 0 ? values : undefined;
+}
+
+/**
+ * Structured organization details of one page (undefined if the page has none)
+ */
+export function extractStructuredData(html: string, pageUrl: string): WebsiteSignalStructuredData | undefined {
+  const sources: Array<[StructuredDataSource, SourceValues | undefined]> = [
+    ['json-ld', extractJsonLd(html, pageUrl)],
+    ['microdata', extractMicrodata(html, pageUrl)],
+    ['opengraph', extractOpenGraph(html, pageUrl)],
+  ];
+
+  const data: WebsiteSignalStructuredData = {};
+  const stringFields: StringField[] = ['name', 'description', 'url', 'logo', 'telephone', 'email'];
+
+  for (const [source, values] of sources) {
+    if (!values) continue;
+    if (!data.types && values.types && values.types.length > 0) {
+      data.types = values.types;
+    }
+    for (const field of stringFields) {
+      const value = values[field];
+      if (value && !data[field]) {
+        data[field] = { value, source, pageUrl };
+      }
+    }
+    if (values.address && !data.address) {
+      data.address = { value: values.address, source, pageUrl };
+    }
+    if (values.sameAs && !data.sameAs) {
+      data.sameAs = { value: values.sameAs, source, pageUrl };
+    }
+  }
+
+  return Object.keys(data).length > 0 ? data : undefined;
+}
+
+/**
+ * Merge the structured data of several pages of one site
+ *
+ * Each field comes from the most reliable source; between pages of the same
+ * source the earlier page (start page first) wins. Social profiles are combined.
+ */
+export function mergeStructuredData(
+  pages: Array<WebsiteSignalStructuredData | undefined>
+): WebsiteSignalStructuredData | undefined {
+  const present = pages.filter((page): page is WebsiteSignalStructuredData => Boolean(page));
+  if (present.length === 0) {
+    return undefined;
+  }
+
+  const best = <T>(fields: Array<StructuredDataField<T> | undefined>): StructuredDataField<T> | undefined =>
+    fields
+      .filter((field): field is StructuredDataField<T> => Boolean(field))
+      .sort((a, b) => SOURCE_RANK.indexOf(a.source) - SOURCE_RANK.indexOf(b.source))[0];
+
+  const merged: WebsiteSignalStructuredData = {};
+  const types = present.find((page) => page.types)?.types;
+  if (types) merged.types = types;
+
+  const stringFields: StringField[] = ['name', 'description', 'url', 'logo', 'telephone', 'email'];
+  for (const field of stringFields) {
+    const value = best(present.map((page) => page[field]));
+    if (value) merged[field] = value;
+  }
+
+  const address = best(present.map((page) => page.address));
+  if (address) merged.address = address;
+
+  const sameAs = best(present.map((page) => page.sameAs));
+  if (sameAs) {
+    const urls = [...new Set(present.flatMap((page) => page.sameAs?.value ?? []))];
+    merged.sameAs = { ...sameAs, value: urls };
+  }
+
+  return merged;
+}
+
+/**
+ * One-line address ("12 Main Rd, Sandton, Gauteng, 2196, ZA")
+ */
+export function formatStructuredAddress(address: StructuredPostalAddress): string {
+  return [address.streetAddress, address.locality, address.region, address.postalCode, address.country]
+    .filter(Boolean)
+    .join(', ');
+}
+
+/**
+ * Social network profile among sameAs URLs
+ */
+export function socialProfileUrl(
+  urls: string[] | undefined,
+  network: 'linkedin' | 'twitter' | 'facebook' | 'instagram'
+): string | undefined {
+  const patterns = {
+    linkedin: /linkedin\.com\/(?:company|in|school)\//i,
+    twitter: /(?:^|\/\/|\.)(?:twitter|x)\.com\//i,
+    facebook: /facebook\.com\//i,
+    instagram: /instagram\.com\//i,
+  };
+  return urls?.find((url) => patterns[network].test(url));
+}
@@ -0,0 +1,44 @@
+/**
+ * Discovery Search Providers - Search Provider Interface
+ *
+ * Contract for web search APIs used by discovery and enrichment.
+ * Each adapter normalizes its API response to SearchItem[] and classifies
+ * failures so the provider chain can fall back on quota/auth errors.
+ */
+
+import type {
+  SearchProviderType,
+  SearchRequest,
+  SearchProviderResult,
+} from './types';
+
+/**
+ * Search Provider Interface
+ *
+ * Implementations:
+ * - GoogleCseSearchProvider (GOOGLE_CSE_API_KEY + GOOGLE_CSE_ID)
+ * - BingSearchProvider (BING_SEARCH_API_KEY)
+ * - BraveSearchProvider (BRAVE_SEARCH_API_KEY)
+ * - SerpApiSearchProvider (SERPAPI_API_KEY)
+ */
+export interface ISearchProvider {
+  /**
+   * Get provider type identifier
+   */
+  getProviderType(): SearchProviderType;
+
+  /**
+   * Check if provider credentials are configured
+   */
+  isConfigured(): boolean;
+
+  /**
+   * Execute a search
+   *
+   * Never throws - failures are returned with an errorType.
+   *
+   * @param request - Query text and paging
+   * @returns Normalized provider result
+   */
+  search(request: SearchRequest): Promise<SearchProviderResult>;
+}
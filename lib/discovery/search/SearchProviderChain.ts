@@ -0,0 +1,216 @@
+/**
+ * Discovery Search Providers - Provider Chain
+ *
+ * Executes searches against an ordered list of providers.
+ * - Unconfigured providers are skipped
+ * - Quota and auth errors fall back to the next provider
+ * - Providers that failed with quota/auth are not retried for the lifetime of the chain
+ *   (one chain is created per channel run, so a run stops hitting an exhausted API)
+ * - Any other error is returned without fallback
+ * - Results are read from / written to the search result cache (TTL per intent)
+ * - Every request sent and every cache hit is added to the usage ledger
+ */
+
+import type { ISearchProvider } from './ISearchProvider';
+import type {
+  SearchProviderType,
+  SearchErrorType,
+  SearchRequest,
+  SearchAttempt,
+  SearchExecutionResult,
+} from './types';
+import { getSearchProviderOrder, SEARCH_PROVIDER_TYPES } from './config';
+import { GoogleCseSearchProvider } from './providers/GoogleCseSearchProvider';
+import { BingSearchProvider } from './providers/BingSearchProvider';
+import { BraveSearchProvider } from './providers/BraveSearchProvider';
+import { SerpApiSearchProvider } from './providers/SerpApiSearchProvider';
+import { getCachedSearch, storeSearchResult, getDefaultCacheTtlHours } from './SearchResultCache';
+import { recordUsage } from '../usage/ledger';
+
+/**
+ * Provider chain options
+ */
+export interface SearchProviderChainOptions {
+  /** Provider order (default: DISCOVERY_SEARCH_PROVIDERS env var, then default order) */
+  providers?: SearchProviderType[];
+
+  /**
+   * Cache TTL in hours (e.g. per-intent)
+   * Default: DISCOVERY_SEARCH_CACHE_TTL_HOURS (168). 0 disables the cache.
+   */
+  cacheTtlHours?: number;
+}
+
+/**
+ * Create a provider instance by type
+ */
+export function createSearchProvider(type: SearchProviderType): ISearchProvider {
+  switch (type) {
+    case 'google_cse':
+      return new GoogleCseSearchProvider();
+    case 'bing':
+      return new BingSearchProvider();
+    case 'brave':
+      return new BraveSearchProvider();
+    case 'serpapi':
+      return new SerpApiSearchProvider();
+  }
+}
+
+export class SearchProviderChain {
+  private providers: ISearchProvider[];
+  private cacheTtlHours: number;
+  private failedProviders = new Map<SearchProviderType, SearchErrorType>();
+
+  constructor(options: SearchProviderChainOptions = {}) {
+    this.providers = getSearchProviderOrder(options.providers).map(createSearchProvider);
+    this.cacheTtlHours = options.cacheTtlHours ?? getDefaultCacheTtlHours();
+  }
+
+  /**
+   * Get the resolved provider order
+   */
+  getProviderOrder(): SearchProviderType[] {
+    return this.providers.map((provider) => provider.getProviderType());
+  }
+
+  /**
+   * Check if at least one provider in the chain is configured
+   */
+  hasConfiguredProvider(): boolean {
+    return this.providers.some((provider) => provider.isConfigured());
+  }
+
+  /**
+   * Execute a search, falling back on quota/auth errors
+   * Cached results (any provider in the chain) are returned without an API call.
+   */
+  async search(request: SearchRequest): Promise<SearchExecutionResult> {
+    const attempts: SearchAttempt[] = [];
+
+    if (this.cacheTtlHours > 0) {
+      const cached = await getCachedSearch(this.getProviderOrder(), request);
+      if (cached) {
+        await recordUsage(cached.provider, { cacheHits: 1 });
+        return {
+          success: true,
+          provider: cached.provider,
+          items: cached.items,
+          attempts,
+          metadata: cached.metadata,
+          cached: true,
+          apiCalls: 0,
+        };
+      }
+    }
+
+    for (const provider of this.providers) {
+      const providerType = provider.getProviderType();
+
+      if (!provider.isConfigured()) {
+        continue;
+      }
+
+      const previousFailure = this.failedProviders.get(providerType);
+      if (previousFailure) {
+        attempts.push({
+          provider: providerType,
+          success: false,
+          errorType: previousFailure,
+          error: `Skipped after earlier ${previousFailure} error`,
+          skipped: true,
+        });
+        continue;
+      }
+
+      const result = await provider.search(request);
+      await recordUsage(providerType, { apiCalls: 1 });
+
+      attempts.push({
+        provider: providerType,
+        success: result.success,
+        errorType: result.errorType,
+        error: result.error,
+      });
+
+      if (result.success) {
+        await storeSearchResult(result, request, this.cacheTtlHours);
+        return {
+          success: true,
+          provider: providerType,
+          items: result.items,
+          attempts,
+          metadata: result.metadata,
+          cached: false,
+          apiCalls: countApiCalls(attempts),
+        };
+      }
+
+      if (result.errorType === 'quota' || result.errorType === 'auth') {
+        this.failedProviders.set(providerType, result.errorType);
+        console.warn(`[SearchProviders] ${providerType} ${result.errorType} error, falling back: ${result.error}`);
+        continue;
+      }
+
+      // Non-recoverable error: do not spend other providers' quota on it
+      return {
+        success: false,
+        items: [],
+        attempts,
+        error: result.error,
+        cached: false,
+        apiCalls: countApiCalls(attempts),
+      };
+    }
+
+    if (attempts.length === 0) {
+      return {
+        success: false,
+        items: [],
+        attempts,
+        error: `No search provider is configured (tried: ${this.getProviderOrder().join(', ')})`,
+        cached: false,
+        apiCalls: 0,
+      };
+    }
+
+    return {
+      success: false,
+      items: [],
+      attempts,
+      error: `All search providers failed: ${attempts.map((a) => `${a.provider} (${a.errorType})`).join(', ')}`,
+      cached: false,
+      apiCalls: countApiCalls(attempts),
+    };
+  }
+}
+
+/**
+ * Count provider requests actually sent (skipped providers cost nothing)
+ */
+function countApiCalls(attempts: SearchAttempt[]): number {
+  return attempts.filter((attempt) => !attempt.skipped).length;
+}
+
+/**
+ * Get configuration status for all providers (safe, never returns secrets)
+ */
+export function getSearchProvidersStatus(): {
+  order: SearchProviderType[];
+  providers: Array<{ provider: SearchProviderType; configured: boolean }>;
+} {
+  return {
+    order: getSearchProviderOrder(),
+    providers: SEARCH_PROVIDER_TYPES.map((type) => ({
+      provider: type,
+      configured: createSearchProvider(type).isConfigured(),
+    })),
+  };
+}
+
+/**
+ * Check if any provider in the resolved order is configured
+ */
+export function isAnySearchProviderConfigured(preferred?: SearchProviderType[]): boolean {
+  return new SearchProviderChain({ providers: preferred }).hasConfiguredProvider();
+}
@@ -0,0 +1,170 @@
+/**
+ * Discovery Search Providers - Search Result Cache
+ *
+ * Database-backed cache of raw provider results (SearchResultCache table),
+ * keyed by provider + normalized query + page. Shared by discovery runs and
+ * company enrichment so repeated queries do not spend provider quota.
+ *
+ * Cache failures never break a search - they are logged and treated as misses.
+ */
+
+import { prisma } from '../../prisma';
+import type {
+  SearchProviderType,
+  SearchRequest,
+  SearchItem,
+  SearchProviderResult,
+} from './types';
+
+/**
+ * Default cache TTL in hours (DISCOVERY_SEARCH_CACHE_TTL_HOURS, 0 disables caching)
+ */
+export function getDefaultCacheTtlHours(): number {
+  const ttl = parseInt(process.env.DISCOVERY_SEARCH_CACHE_TTL_HOURS || '168', 10);
+  return Number.isNaN(ttl) || ttl < 0 ? 168 : ttl;
+}
+
+/**
+ * Normalize query text so trivially different queries share a cache entry
+ */
+export function normalizeCacheQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Cached search entry
+ */
+export interface CachedSearch {
+  provider: SearchProviderType;
+  items: SearchItem[];
+  metadata?: SearchProviderResult['metadata'];
+  cachedAt: Date;
+}
+
+/**
+ * Look up an unexpired cache entry for any of the given providers
+ *
+ * @param providers - Providers in preference order (first match wins)
+ * @param request - Search request (query, num, start)
+ * @returns Cached entry or null on miss
+ */
+export async function getCachedSearch(
+  providers: SearchProviderType[],
+  request: SearchRequest
+): Promise<CachedSearch | null> {
+  if (providers.length === 0) {
+    return null;
+  }
+
+  try {
+    const entries = await prisma.searchResultCache.findMany({
+      where: {
+        provider: { in: providers },
+        query: normalizeCacheQuery(request.query),
+        start: request.start || 1,
+        num: request.num || 10,
+        expiresAt: { gt: new Date() },
+      },
+    });
+
+    if (entries.length === 0) {
+      return null;
+    }
+
+    // Prefer the entry from the highest-priority provider
+    const entry = [...entries].sort(
+      (a, b) =>
+        providers.indexOf(a.provider as SearchProviderType) -
+        providers.indexOf(b.provider as SearchProviderType)
+    )[0];
+
+    await prisma.searchResultCache.update({
+      where: { id: entry.id },
+      data: {
+        hitCount: { increment: 1 },
+        lastHitAt: new Date(),
+      },
+    });
+
+    return {
+      provider: entry.provider as SearchProviderType,
+      items: (entry.itemsJson as unknown as SearchItem[]) || [],
+      metadata: (entry.metadata as SearchProviderResult['metadata']) || undefined,
+      cachedAt: entry.updatedAt,
+    };
+  } catch (error) {
+    console.warn(
+      '[SearchCache] Lookup failed, treating as miss:',
+      error instanceof Error ? error.message : error
+    );
+    return null;
+  }
+}
+
+/**
+ * Store a successful provider result
+ *
+ * @param result - Successful provider result
+ * @param request - Search request (query, num, start)
+ * @param ttlHours - Time to live in hours (0 = do not store)
+ */
+export async function storeSearchResult(
+  result: SearchProviderResult,
+  request: SearchRequest,
+  ttlHours: number
+): Promise<void> {
+  if (!result.success || ttlHours <= 0) {
+    return;
+  }
+
+  const query = normalizeCacheQuery(request.query);
+  const start = request.start || 1;
+  const num = request.num || 10;
+  const expiresAt = new Date(Date.now() + ttlHours * 60 * 60 * 1000);
+  const itemsJson = result.items as unknown as object;
+  const metadata = result.metadata ? (result.metadata as object) : undefined;
+
+  try {
+    await prisma.searchResultCache.upsert({
+      where: {
+        provider_query_start_num: {
+          provider: result.provider,
+          query,
+          start,
+          num,
+        },
+      },
+      create: {
+        provider: result.provider,
+        query,
+        start,
+        num,
+        itemsJson,
+        metadata,
+        expiresAt,
+      },
+      update: {
+        itemsJson,
+        metadata,
+        expiresAt,
+      },
+    });
+  } catch (error) {
+    console.warn(
+      '[SearchCache] Store failed:',
+      error instanceof Error ? error.message : error
+    );
+  }
+}
+
+/**
+ * Delete expired cache entries
+ *
+ * @returns Number of entries deleted
+ */
+export async function purgeExpiredSearchResults(): Promise<number> {
+  const result = await prisma.searchResultCache.deleteMany({
+    where: { expiresAt: { lte: new Date() } },
+  });
+  return result.count;
+}
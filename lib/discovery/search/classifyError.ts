@@ -0,0 +1,55 @@
+/**
+ * Discovery Search Providers - Error Classification
+ *
+ * Maps HTTP status codes and provider error messages to SearchErrorType.
+ * Quota and auth errors trigger fallback to the next configured provider.
+ */
+
+import type { SearchErrorType } from './types';
+
+/**
+ * Patterns indicating an exhausted quota or rate limit
+ * (Google: dailyLimitExceeded / rateLimitExceeded, Bing: OutOfCallVolumeQuota,
+ * SerpAPI: "run out of searches")
+ */
+const QUOTA_PATTERNS = [
+  /quota/i,
+  /limit exceeded/i,
+  /ratelimitexceeded/i,
+  /dailylimitexceeded/i,
+  /outofcallvolumequota/i,
+  /run out of searches/i,
+  /too many requests/i,
+];
+
+/**
+ * Patterns indicating invalid or rejected credentials
+ */
+const AUTH_PATTERNS = [
+  /api key not valid/i,
+  /invalid api key/i,
+  /keyinvalid/i,
+  /invalid.*subscription/i,
+  /unauthorized/i,
+  /access denied/i,
+  /forbidden/i,
+];
+
+/**
+ * Classify a provider failure
+ *
+ * @param status - HTTP status code (0 if the request did not complete)
+ * @param message - Response body or error message
+ * @returns Error classification used by the provider chain
+ */
+export function classifySearchError(status: number, message: string): SearchErrorType {
+  if (status === 429 || QUOTA_PATTERNS.some((pattern) => pattern.test(message))) {
+    return 'quota';
+  }
+
+  if (status === 401 || status === 403 || AUTH_PATTERNS.some((pattern) => pattern.test(message))) {
+    return 'auth';
+  }
+
+  return 'error';
+}
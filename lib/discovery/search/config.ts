@@ -0,0 +1,78 @@
+/**
+ * Discovery Search Providers - Configuration
+ *
+ * Provider order is resolved from (highest priority first):
+ * 1. Intent `searchProviders` (per-intent selection)
+ * 2. DISCOVERY_SEARCH_PROVIDERS env var (comma-separated, e.g. "google_cse,brave")
+ * 3. Default order: google_cse, bing, brave, serpapi
+ *
+ * Providers without credentials are skipped at search time.
+ */
+
+import type { SearchProviderType } from './types';
+
+/**
+ * All supported search providers
+ */
+export const SEARCH_PROVIDER_TYPES: SearchProviderType[] = [
+  'google_cse',
+  'bing',
+  'brave',
+  'serpapi',
+];
+
+/**
+ * Default provider order (Google CSE first for backward compatibility)
+ */
+export const DEFAULT_SEARCH_PROVIDER_ORDER: SearchProviderType[] = [
+  'google_cse',
+  'bing',
+  'brave',
+  'serpapi',
+];
+
+/**
+ * Check if a string is a valid search provider type
+ */
+export function isSearchProviderType(value: string): value is SearchProviderType {
+  return (SEARCH_PROVIDER_TYPES as string[]).includes(value);
+}
+
+/**
+ * Parse a comma-separated provider list, dropping unknown and duplicate entries
+ */
+export function parseSearchProviders(value: string | undefined): SearchProviderType[] {
+  if (!value) {
+    return [];
+  }
+
+  const providers: SearchProviderType[] = [];
+  for (const entry of value.split(',')) {
+    const provider = entry.trim().toLowerCase();
+    if (isSearchProviderType(provider) && !providers.includes(provider)) {
+      providers.push(provider);
+    }
+  }
+  return providers;
+}
+
+/**
+ * Resolve the provider order for a search
+ *
+ * @param preferred - Per-intent provider selection (optional)
+ * @returns Ordered provider list (first = primary, rest = fallbacks)
+ */
+export function getSearchProviderOrder(preferred?: SearchProviderType[]): SearchProviderType[] {
+  if (preferred && preferred.length > 0) {
+    return preferred.filter((provider, index) =>
+      isSearchProviderType(provider) && preferred.indexOf(provider) === index
+    );
+  }
+
+  const fromEnv = parseSearchProviders(process.env.DISCOVERY_SEARCH_PROVIDERS);
+  if (fromEnv.length > 0) {
+    return fromEnv;
+  }
+
+  return [...DEFAULT_SEARCH_PROVIDER_ORDER];
+}
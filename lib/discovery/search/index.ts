@@ -0,0 +1,42 @@
+/**
+ * Discovery Search Providers Module
+ *
+ * Pluggable web search providers (Google CSE, Bing, Brave, SerpAPI)
+ * with automatic fallback on quota/auth errors.
+ */
+
+export {
+  SearchProviderChain,
+  createSearchProvider,
+  getSearchProvidersStatus,
+  isAnySearchProviderConfigured,
+} from './SearchProviderChain';
+export {
+  SEARCH_PROVIDER_TYPES,
+  DEFAULT_SEARCH_PROVIDER_ORDER,
+  isSearchProviderType,
+  parseSearchProviders,
+  getSearchProviderOrder,
+} from './config';
+export {
+  getCachedSearch,
+  storeSearchResult,
+  purgeExpiredSearchResults,
+  normalizeCacheQuery,
+  getDefaultCacheTtlHours,
+} from './SearchResultCache';
+export type { CachedSearch } from './SearchResultCache';
+export type { SearchProviderChainOptions } from './SearchProviderChain';
+export { classifySearchError } from './classifyError';
+export type { ISearchProvider } from './ISearchProvider';
+export type {
+  SearchProviderType,
+  SearchErrorType,
+  SearchItem,
+  SearchRequest,
+  SearchProviderResult,
+  SearchAttempt,
+  SearchExecutionResult,
+  SearchQueryRecord,
+  SearchCacheStats,
+} from './types';
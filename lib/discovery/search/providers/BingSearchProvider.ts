@@ -0,0 +1,114 @@
+/**
+ * Discovery Search Providers - Bing Web Search Provider
+ *
+ * Bing Web Search API (v7) adapter.
+ * Requires BING_SEARCH_API_KEY. BING_SEARCH_ENDPOINT overrides the default endpoint.
+ */
+
+import type { ISearchProvider } from '../ISearchProvider';
+import type { SearchRequest, SearchProviderResult } from '../types';
+import { classifySearchError } from '../classifyError';
+
+const DEFAULT_BING_ENDPOINT = 'https://api.bing.microsoft.com/v7.0/search';
+
+/**
+ * Bing Web Search API Response Structure
+ */
+interface BingSearchResponse {
+  webPages?: {
+    totalEstimatedMatches?: number;
+    value?: Array<{
+      name: string;
+      url: string;
+      snippet: string;
+      displayUrl?: string;
+    }>;
+  };
+}
+
+export class BingSearchProvider implements ISearchProvider {
+  getProviderType(): 'bing' {
+    return 'bing';
+  }
+
+  isConfigured(): boolean {
+    return !!process.env.BING_SEARCH_API_KEY;
+  }
+
+  async search(request: SearchRequest): Promise<SearchProviderResult> {
+    const apiKey = process.env.BING_SEARCH_API_KEY;
+    if (!apiKey) {
+      return {
+        provider: 'bing',
+        success: false,
+        items: [],
+        errorType: 'not_configured',
+        error: 'Bing Web Search is not configured',
+      };
+    }
+
+    const num = Math.min(request.num || 10, 50);
+
+    const url = new URL(process.env.BING_SEARCH_ENDPOINT || DEFAULT_BING_ENDPOINT);
+    url.searchParams.set('q', request.query.trim());
+    url.searchParams.set('count', num.toString());
+    url.searchParams.set('responseFilter', 'Webpages');
+    if (request.start && request.start > 1) {
+      url.searchParams.set('offset', (request.start - 1).toString());
+    }
+
+    try {
+      const response = await fetch(url.toString(), {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+          'Ocp-Apim-Subscription-Key': apiKey,
+        },
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        return {
+          provider: 'bing',
+          success: false,
+          items: [],
+          errorType: classifySearchError(response.status, errorText),
+          error: `Bing Search API error: ${response.status} - ${errorText}`,
+        };
+      }
+
+      const data: BingSearchResponse = await response.json();
+
+      return {
+        provider: 'bing',
+        success: true,
+        items: (data.webPages?.value || []).map((item) => ({
+          title: item.name,
+          link: item.url,
+          snippet: item.snippet,
+          displayLink: extractHostname(item.url),
+        })),
+        metadata: {
+          totalResults: data.webPages?.totalEstimatedMatches?.toString(),
+        },
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        provider: 'bing',
+        success: false,
+        items: [],
+        errorType: 'error',
+        error: `Bing Search request failed: ${errorMessage}`,
+      };
+    }
+  }
+}
+
+function extractHostname(url: string): string | undefined {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Discovery Search Providers - Brave Search Provider
+ *
+ * Brave Search API (web search) adapter.
+ * Requires BRAVE_SEARCH_API_KEY.
+ */
+
+import type { ISearchProvider } from '../ISearchProvider';
+import type { SearchRequest, SearchProviderResult } from '../types';
+import { classifySearchError } from '../classifyError';
+
+/**
+ * Brave Search API Response Structure
+ */
+interface BraveSearchResponse {
+  web?: {
+    results?: Array<{
+      title: string;
+      url: string;
+      description?: string;
+      meta_url?: {
+        hostname?: string;
+      };
+    }>;
+  };
+}
+
+export class BraveSearchProvider implements ISearchProvider {
+  getProviderType(): 'brave' {
+    return 'brave';
+  }
+
+  isConfigured(): boolean {
+    return !!process.env.BRAVE_SEARCH_API_KEY;
+  }
+
+  async search(request: SearchRequest): Promise<SearchProviderResult> {
+    const apiKey = process.env.BRAVE_SEARCH_API_KEY;
+    if (!apiKey) {
+      return {
+        provider: 'brave',
+        success: false,
+        items: [],
+        errorType: 'not_configured',
+        error: 'Brave Search is not configured',
+      };
+    }
+
+    const num = Math.min(request.num || 10, 20);
+
+    const url = new URL('https://api.search.brave.com/res/v1/web/search');
+    url.searchParams.set('q', request.query.trim());
+    url.searchParams.set('count', num.toString());
+    // Brave paginates by page index (0-9), not by result offset
+    if (request.start && request.start > 1) {
+      const page = Math.min(Math.floor((request.start - 1) / num), 9);
+      url.searchParams.set('offset', page.toString());
+    }
+
+    try {
+      const response = await fetch(url.toString(), {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+          'X-Subscription-Token': apiKey,
+        },
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        return {
+          provider: 'brave',
+          success: false,
+          items: [],
+          // Brave rejects invalid tokens with 422
+          errorType: response.status === 422 ? 'auth' : classifySearchError(response.status, errorText),
+          error: `Brave Search API error: ${response.status} - ${errorText}`,
+        };
+      }
+
+      const data: BraveSearchResponse = await response.json();
+
+      return {
+        provider: 'brave',
+        success: true,
+        items: (data.web?.results || []).map((item) => ({
+          title: item.title,
+          link: item.url,
+          snippet: item.description || '',
+          displayLink: item.meta_url?.hostname,
+        })),
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        provider: 'brave',
+        success: false,
+        items: [],
+        errorType: 'error',
+        error: `Brave Search request failed: ${errorMessage}`,
+      };
+    }
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Discovery Search Providers - Google Custom Search Provider
+ *
+ * Google Custom Search JSON API adapter.
+ * Requires GOOGLE_CSE_API_KEY and GOOGLE_CSE_ID.
+ */
+
+import type { ISearchProvider } from '../ISearchProvider';
+import type { SearchRequest, SearchProviderResult } from '../types';
+import { classifySearchError } from '../classifyError';
+import { isConfigured, getConfig } from '../../google/googleConfig';
+
+/**
+ * Google CSE API Response Structure
+ */
+interface GoogleCSEResponse {
+  searchInformation?: {
+    totalResults?: string;
+    searchTime?: number;
+    formattedSearchTime?: string;
+  };
+  items?: Array<{
+    title: string;
+    link: string;
+    snippet: string;
+    displayLink?: string;
+    formattedUrl?: string;
+  }>;
+}
+
+export class GoogleCseSearchProvider implements ISearchProvider {
+  getProviderType(): 'google_cse' {
+    return 'google_cse';
+  }
+
+  isConfigured(): boolean {
+    return isConfigured();
+  }
+
+  async search(request: SearchRequest): Promise<SearchProviderResult> {
+    const config = getConfig();
+    if (!config) {
+      return {
+        provider: 'google_cse',
+        success: false,
+        items: [],
+        errorType: 'not_configured',
+        error: 'Google Custom Search is not configured',
+      };
+    }
+
+    // CSE returns at most 10 results per request
+    const num = Math.min(request.num || 10, 10);
+
+    const url = new URL('https://www.googleapis.com/customsearch/v1');
+    url.searchParams.set('key', config.apiKey);
+    url.searchParams.set('cx', config.cseId);
+    url.searchParams.set('q', request.query.trim());
+    url.searchParams.set('num', num.toString());
+    if (request.start && request.start > 1) {
+      url.searchParams.set('start', request.start.toString());
+    }
+
+    try {
+      const response = await fetch(url.toString(), {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        return {
+          provider: 'google_cse',
+          success: false,
+          items: [],
+          errorType: classifySearchError(response.status, errorText),
+          error: `Google CSE API error: ${response.status} - ${errorText}`,
+        };
+      }
+
+      const data: GoogleCSEResponse = await response.json();
+
+      return {
+        provider: 'google_cse',
+        success: true,
+        items: (data.items || []).map((item) => ({
+          title: item.title,
+          link: item.link,
+          snippet: item.snippet,
+          displayLink: item.displayLink,
+        })),
+        metadata: data.searchInformation,
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        provider: 'google_cse',
+        success: false,
+        items: [],
+        errorType: 'error',
+        error: `Google CSE request failed: ${errorMessage}`,
+      };
+    }
+  }
+}
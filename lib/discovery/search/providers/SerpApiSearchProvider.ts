@@ -0,0 +1,125 @@
+/**
+ * Discovery Search Providers - SerpAPI Provider
+ *
+ * SerpAPI adapter. Also works with SerpAPI-compatible services via SERPAPI_BASE_URL.
+ * Requires SERPAPI_API_KEY. SERPAPI_ENGINE selects the engine (default: google).
+ */
+
+import type { ISearchProvider } from '../ISearchProvider';
+import type { SearchRequest, SearchProviderResult } from '../types';
+import { classifySearchError } from '../classifyError';
+
+const DEFAULT_SERPAPI_BASE_URL = 'https://serpapi.com/search.json';
+
+/**
+ * SerpAPI Response Structure
+ */
+interface SerpApiResponse {
+  error?: string;
+  search_information?: {
+    total_results?: number;
+    time_taken_displayed?: number;
+  };
+  organic_results?: Array<{
+    title: string;
+    link: string;
+    snippet?: string;
+    displayed_link?: string;
+  }>;
+}
+
+export class SerpApiSearchProvider implements ISearchProvider {
+  getProviderType(): 'serpapi' {
+    return 'serpapi';
+  }
+
+  isConfigured(): boolean {
+    return !!process.env.SERPAPI_API_KEY;
+  }
+
+  async search(request: SearchRequest): Promise<SearchProviderResult> {
+    const apiKey = process.env.SERPAPI_API_KEY;
+    if (!apiKey) {
+      return {
+        provider: 'serpapi',
+        success: false,
+        items: [],
+        errorType: 'not_configured',
+        error: 'SerpAPI is not configured',
+      };
+    }
+
+    const num = Math.min(request.num || 10, 100);
+
+    const url = new URL(process.env.SERPAPI_BASE_URL || DEFAULT_SERPAPI_BASE_URL);
+    url.searchParams.set('engine', process.env.SERPAPI_ENGINE || 'google');
+    url.searchParams.set('api_key', apiKey);
+    url.searchParams.set('q', request.query.trim());
+    url.searchParams.set('num', num.toString());
+    if (request.start && request.start > 1) {
+      url.searchParams.set('start', (request.start - 1).toString());
+    }
+
+    try {
+      const response = await fetch(url.toString(), {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        return {
+          provider: 'serpapi',
+          success: false,
+          items: [],
+          errorType: classifySearchError(response.status, errorText),
+          error: `SerpAPI error: ${response.status} - ${errorText}`,
+        };
+      }
+
+      const data: SerpApiResponse = await response.json();
+
+      // SerpAPI can report errors (e.g. exhausted searches) with a 200 status
+      if (data.error && !data.organic_results) {
+        // "Google hasn't returned any results" is an empty result, not a failure
+        if (/hasn't returned any results/i.test(data.error)) {
+          return { provider: 'serpapi', success: true, items: [] };
+        }
+
+        return {
+          provider: 'serpapi',
+          success: false,
+          items: [],
+          errorType: classifySearchError(200, data.error),
+          error: `SerpAPI error: ${data.error}`,
+        };
+      }
+
+      return {
+        provider: 'serpapi',
+        success: true,
+        items: (data.organic_results || []).map((item) => ({
+          title: item.title,
+          link: item.link,
+          snippet: item.snippet || '',
+          displayLink: item.displayed_link,
+        })),
+        metadata: {
+          totalResults: data.search_information?.total_results?.toString(),
+          searchTime: data.search_information?.time_taken_displayed,
+        },
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        provider: 'serpapi',
+        success: false,
+        items: [],
+        errorType: 'error',
+        error: `SerpAPI request failed: ${errorMessage}`,
+      };
+    }
+  }
+}
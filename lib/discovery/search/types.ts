@@ -0,0 +1,126 @@
+/**
+ * Discovery Search Providers - Type Definitions
+ *
+ * Contracts shared by all web search providers (Google CSE, Bing, Brave, SerpAPI).
+ * No implementations - only contracts.
+ */
+
+/**
+ * Search Provider Type
+ * Identifies which search API served a query
+ */
+export type SearchProviderType =
+  | 'google_cse'   // Google Custom Search JSON API
+  | 'bing'         // Bing Web Search API
+  | 'brave'        // Brave Search API
+  | 'serpapi';     // SerpAPI (or any SerpAPI-compatible endpoint)
+
+/**
+ * Search Error Type
+ * Used to decide whether the next provider should be tried
+ */
+export type SearchErrorType =
+  | 'quota'            // Daily quota / rate limit exhausted (fallback)
+  | 'auth'             // Invalid or missing credentials (fallback)
+  | 'not_configured'   // Provider has no credentials set (skipped)
+  | 'error';           // Any other failure (no fallback)
+
+/**
+ * Normalized search result item (same shape as Google CSE items)
+ */
+export interface SearchItem {
+  title: string;
+  link: string;
+  snippet: string;
+  displayLink?: string;
+}
+
+/**
+ * Search request
+ */
+export interface SearchRequest {
+  /** Query text */
+  query: string;
+
+  /** Number of results to return (default: 10) */
+  num?: number;
+
+  /** 1-based index of the first result (Google CSE convention, default: 1) */
+  start?: number;
+}
+
+/**
+ * Result of a single provider call
+ */
+export interface SearchProviderResult {
+  provider: SearchProviderType;
+  success: boolean;
+  items: SearchItem[];
+  errorType?: SearchErrorType;
+  error?: string;
+  metadata?: {
+    totalResults?: string;
+    searchTime?: number;
+    formattedSearchTime?: string;
+  };
+}
+
+/**
+ * One provider attempt within a fallback chain
+ */
+export interface SearchAttempt {
+  provider: SearchProviderType;
+  success: boolean;
+  errorType?: SearchErrorType;
+  error?: string;
+  /** True if the provider was not called (failed earlier in this chain) */
+  skipped?: boolean;
+}
+
+/**
+ * Result of a search executed through the fallback chain
+ */
+export interface SearchExecutionResult {
+  success: boolean;
+  /** Provider that served the query (undefined if all failed) */
+  provider?: SearchProviderType;
+  items: SearchItem[];
+  /** Every provider tried, in order */
+  attempts: SearchAttempt[];
+  error?: string;
+  metadata?: SearchProviderResult['metadata'];
+  /** True if served from the search result cache */
+  cached: boolean;
+  /** Provider API requests sent for this search (0 on cache hit) */
+  apiCalls: number;
+}
+
+/**
+ * Per-query provider record (stored in DiscoveryRun stats)
+ */
+export interface SearchQueryRecord {
+  query: string;
+  /** 1-based index of the first result (set for later result pages) */
+  start?: number;
+  /** Provider that served the query (undefined if all providers failed) */
+  provider?: SearchProviderType;
+  /** Providers that failed before the serving provider */
+  fallbackFrom?: Array<{ provider: SearchProviderType; errorType?: SearchErrorType }>;
+  resultsCount: number;
+  /** True if served from the search result cache */
+  cached?: boolean;
+  /** Provider API requests sent for this query (0 on cache hit) */
+  apiCalls?: number;
+}
+
+/**
+ * Search cache usage for a run (stored in DiscoveryRun stats)
+ */
+export interface SearchCacheStats {
+  /** Queries served from the cache */
+  cacheHits: number;
+  /** Queries that required a live provider call */
+  cacheMisses: number;
+  /** Provider API requests sent (counts against paid/free-tier quota) */
+  paidApiCalls: number;
+}
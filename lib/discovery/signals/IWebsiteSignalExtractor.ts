@@ -26,8 +26,8 @@ import type {
  * 
  * Note:
  * - Raw website content storage is UNDEFINED (only structured signals extracted)
- * - Crawl depth is UNDEFINED (homepage only vs multiple pages)
- * - Full-site crawling approach is UNDEFINED
+ * - Crawl is bounded (depth, page, byte and time budgets per site), same site only,
+ *   contact / about / services / team pages first; full-site crawling is out of scope
  */
 export interface IWebsiteSignalExtractor {
   /**
@@ -36,12 +36,13 @@ export interface IWebsiteSignalExtractor {
    * Input:
    * - Website URL
    * - Company name (optional, may help extraction)
-   * - Extraction parameters (UNDEFINED - depth, pages, etc.)
+   * - Crawl budget parameters (maxDepth, maxPages, maxBytes, timeout)
    * 
    * Output:
    * - Structured signals (services, industries, locations, contact channels)
    * - Success status
    * - Error information (if extraction failed)
+   * - Metadata with the pages visited
    * 
    * @param input - Website signal extraction input
    * @returns Structured signals extracted from the website
@@ -6,9 +6,11 @@
  * 2. Industries Served
  * 3. Locations
  * 4. Contact Channels (email, phone, contact forms)
+ * 5. Structured Data (JSON-LD, microdata, OpenGraph organization details)
  * 
- * Note: Crawl depth is UNDEFINED - this is a basic implementation
- * focusing on structured signal extraction only (not raw content storage)
+ * Reads a bounded set of pages per site (start page, then contact / about /
+ * services / team pages) and extracts structured signals only (not raw
+ * content storage)
  * 
  * Based on PHASE_1_Discovery_MVP_Definition.md
  */
@@ -23,52 +25,62 @@ import type {
   WebsiteSignalLocations,
   WebsiteSignalContactChannels,
 } from '../types';
+import { SiteCrawler } from '../scraper/SiteCrawler';
+import {
+  extractStructuredData,
+  mergeStructuredData,
+  formatStructuredAddress,
+} from '../scraper/structuredData';
 
 /**
  * Website Signal Extractor Implementation
  * 
  * Extracts structured signals from company websites.
- * This is a basic implementation - full crawling depth is UNDEFINED.
+ * Reads the given page and its contact / about / services / team pages
+ * (bounded same-site crawl, see SiteCrawler).
  */
 export class WebsiteSignalExtractor implements IWebsiteSignalExtractor {
   /**
    * Extract structured signals from a company website
    * 
-   * This method fetches the website and extracts structured signals.
-   * Note: Crawl depth is UNDEFINED - current implementation focuses on homepage.
+   * Signals from each crawled page are merged. Crawl budget can be set with
+   * input.parameters (maxDepth, maxPages, maxBytes, timeout); metadata
+   * records the pages visited.
    */
   async extractSignals(
     input: WebsiteSignalExtractionInput
   ): Promise<WebsiteSignalExtractionOutput> {
     try {
-      // Fetch website content
-      const response = await fetch(input.url, {
-        method: 'GET',
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; CCS Lead Agent Discovery Bot)',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-        },
-        // UNDEFINED: timeout, retry strategy, etc.
-      });
+      const parameters = input.parameters ?? {};
+      const budget = (key: string) => (typeof parameters[key] === 'number' ? (parameters[key] as number) : undefined);
 
-      if (!response.ok) {
+      // Fetch website content
+      const crawl = await new SiteCrawler({
+        maxDepth: budget('maxDepth'),
+        maxPages: budget('maxPages'),
+        maxBytes: budget('maxBytes'),
+        timeout: budget('timeout'),
+      }).crawl(input.url);
+
+      if (!crawl.success) {
         return {
           sourceUrl: input.url,
           signals: {},
           success: false,
-          error: `HTTP ${response.status}: ${response.statusText}`,
+          error: crawl.error,
         };
       }
 
-      const html = await response.text();
-
-      // Extract all signals from HTML
-      const signals: WebsiteSignals = {
-        services: this.extractServicesFromHTML(html),
-        industries: this.extractIndustriesFromHTML(html),
-        locations: this.extractLocationsFromHTML(html),
-        contactChannels: this.extractContactChannelsFromHTML(html),
-      };
+      // Extract all signals from each page and merge them
+      const signals = this.mergeSignals(
+        crawl.pages.map((page): WebsiteSignals => ({
+          services: this.extractServicesFromHTML(page.html),
+          industries: this.extractIndustriesFromHTML(page.html),
+          locations: this.extractLocationsFromHTML(page.html),
+          contactChannels: this.extractContactChannelsFromHTML(page.html),
+          structuredData: extractStructuredData(page.html, page.url),
+        }))
+      );
 
       // Remove empty signal categories
       const cleanedSignals: WebsiteSignals = {};
@@ -89,11 +101,20 @@ export class WebsiteSignalExtractor implements IWebsiteSignalExtractor {
       ) {
         cleanedSignals.contactChannels = signals.contactChannels;
       }
+      if (signals.structuredData) {
+        cleanedSignals.structuredData = signals.structuredData;
+      }
 
       return {
         sourceUrl: input.url,
         signals: cleanedSignals,
         success: true,
+        metadata: {
+          pagesVisited: crawl.pagesVisited,
+          bytesFetched: crawl.bytesFetched,
+          ...(crawl.pageErrors ? { pageErrors: crawl.pageErrors } : {}),
+          ...(crawl.blocked ? { blockedUrls: crawl.blocked } : {}),
+        },
       };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred during signal extraction';
@@ -424,6 +445,55 @@ export class WebsiteSignalExtractor implements IWebsiteSignalExtractor {
     };
   }
 
+  /**
+   * Merge signals extracted from several pages of one site
+   * Lists are combined without duplicates, keeping the per-page limits.
+   * Structured data values (address, telephone, email, sameAs profiles) are
+   * listed before regex matches.
+   */
+  private mergeSignals(pages: WebsiteSignals[]): WebsiteSignals {
+    const unique = <T>(values: T[], limit?: number) => Array.from(new Set(values)).slice(0, limit);
+    const structuredData = mergeStructuredData(pages.map((page) => page.structuredData));
+    const structuredAddress = structuredData?.address?.value;
+    const forms = pages.flatMap((page) => page.contactChannels?.contactForms ?? []);
+    const addresses = [
+      ...(structuredAddress ? [formatStructuredAddress(structuredAddress)] : []),
+      ...pages.flatMap((page) => page.locations?.addresses ?? []),
+    ];
+    const structuredLocations = [structuredAddress?.locality, structuredAddress?.region].filter(
+      (value): value is string => Boolean(value)
+    );
+    const profiles = structuredData?.sameAs?.value ?? [];
+
+    return {
+      services: { services: unique(pages.flatMap((page) => page.services?.services ?? []), 10) },
+      industries: { industries: unique(pages.flatMap((page) => page.industries?.industries ?? [])) },
+      locations: {
+        locations: unique([...structuredLocations, ...pages.flatMap((page) => page.locations?.locations ?? [])]),
+        addresses: addresses.length > 0 ? unique(addresses) : undefined,
+      },
+      contactChannels: {
+        emails: unique(
+          [
+            ...(structuredData?.email ? [structuredData.email.value.toLowerCase()] : []),
+            ...pages.flatMap((page) => page.contactChannels?.emails ?? []),
+          ],
+          5
+        ),
+        phones: unique(
+          [
+            ...(structuredData?.telephone ? [structuredData.telephone.value] : []),
+            ...pages.flatMap((page) => page.contactChannels?.phones ?? []),
+          ],
+          5
+        ),
+        contactForms: forms.length > 0 ? forms.slice(0, 1) : undefined,
+        other: profiles.length > 0 ? profiles : undefined,
+      },
+      structuredData,
+    };
+  }
+
   /**
    * Strip HTML tags from text
    */
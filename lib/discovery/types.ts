@@ -19,7 +19,8 @@ export type DiscoveryChannelType =
   | 'google'           // Google Search Discovery
   | 'linkedin'         // LinkedIn Profile Discovery (GATED)
   | 'social'           // Social Platform Monitoring (GATED)
-  | 'keyword';         // Industry Keyword-Based Prospecting
+  | 'keyword'          // Industry Keyword-Based Prospecting
+  | 'tenders';         // Tender Portal Notices
 
 /**
  * Discovery Channel Status
@@ -44,6 +45,15 @@ export interface DiscoveryChannelConfig {
   channelConfig?: Record<string, unknown>;
 }
 
+/**
+ * Search query with a result page offset
+ */
+export interface DiscoverySearchQuery {
+  query: string;
+  /** 1-based index of the first result (11 = second page) */
+  start?: number;
+}
+
 /**
  * Discovery Channel Input
  * Input contract for discovery channel execution
@@ -52,16 +62,46 @@ export interface DiscoveryChannelInput {
   /** Configuration for this discovery run */
   config: DiscoveryChannelConfig;
   
-  /** Search queries or keywords to use (UNDEFINED format - depends on channel) */
-  searchCriteria?: string | string[];
+  /**
+   * Search queries or keywords to use (UNDEFINED format - depends on channel)
+   * Later result pages of a query are passed as DiscoverySearchQuery objects
+   * (google channel only)
+   */
+  searchCriteria?: string | Array<string | DiscoverySearchQuery>;
   
   /** Additional parameters (UNDEFINED - channel-specific) */
   parameters?: Record<string, unknown>;
   
   /** Optional cancel check function - if returns true, discovery should stop gracefully */
   cancelCheck?: () => Promise<boolean>;
+
+  /** Epoch ms after which no new search query is started (run time budget) */
+  deadline?: number;
+
+  /** Websites already scraped by the run this one resumes (not scraped again) */
+  skipUrls?: string[];
+
+  /** Called as the channel works through its queries (live run progress) */
+  onProgress?: (event: DiscoveryProgressEvent) => void;
 }
 
+/**
+ * Progress reported by a discovery channel while it runs
+ * (search channels only; counts are per query)
+ */
+export type DiscoveryProgressEvent =
+  | { type: 'query_started'; channel: DiscoveryChannelType; query: string; start?: number; index: number; total: number }
+  | {
+      type: 'query_completed';
+      channel: DiscoveryChannelType;
+      query: string;
+      start?: number;
+      urlsScraped: number;
+      resultsKept: number;
+      resultsFiltered: number;
+    }
+  | { type: 'message'; channel: DiscoveryChannelType; message: string };
+
 /**
  * Discovery Channel Output
  * Output contract from discovery channel execution
@@ -147,6 +187,53 @@ export interface WebsiteSignalContactChannels {
   other?: string[];
 }
 
+/**
+ * Where a structured data value was read
+ * - json-ld: schema.org JSON-LD (<script type="application/ld+json">)
+ * - microdata: schema.org microdata (itemscope / itemprop)
+ * - opengraph: OpenGraph / business:contact_data meta tags
+ */
+export type StructuredDataSource = 'json-ld' | 'microdata' | 'opengraph';
+
+/**
+ * A structured data value with its provenance
+ */
+export interface StructuredDataField<T = string> {
+  value: T;
+  source: StructuredDataSource;
+  /** Page the value was read from */
+  pageUrl: string;
+}
+
+/**
+ * Postal address from structured data (schema.org PostalAddress)
+ */
+export interface StructuredPostalAddress {
+  streetAddress?: string;
+  locality?: string;
+  region?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+/**
+ * Website Signal - Structured Data
+ * Organization / LocalBusiness details published by the website itself
+ */
+export interface WebsiteSignalStructuredData {
+  /** schema.org types of the organization (e.g. Organization, LocalBusiness) */
+  types?: string[];
+  name?: StructuredDataField;
+  description?: StructuredDataField;
+  url?: StructuredDataField;
+  logo?: StructuredDataField;
+  telephone?: StructuredDataField;
+  email?: StructuredDataField;
+  address?: StructuredDataField<StructuredPostalAddress>;
+  /** Social profile and directory URLs (schema.org sameAs) */
+  sameAs?: StructuredDataField<string[]>;
+}
+
 /**
  * Website Signals
  * Complete structured signals extracted from a company website
@@ -163,6 +250,9 @@ export interface WebsiteSignals {
   
   /** Contact channels available */
   contactChannels?: WebsiteSignalContactChannels;
+
+  /** Organization details from JSON-LD, microdata and OpenGraph */
+  structuredData?: WebsiteSignalStructuredData;
 }
 
 /**
@@ -176,7 +266,7 @@ export interface WebsiteSignalExtractionInput {
   /** Company name (if known, may help extraction) */
   companyName?: string;
   
-  /** Extraction parameters (UNDEFINED - depth, pages, etc.) */
+  /** Crawl budget parameters (maxDepth, maxPages, maxBytes, timeout) */
   parameters?: Record<string, unknown>;
 }
 
@@ -197,7 +287,7 @@ export interface WebsiteSignalExtractionOutput {
   /** Error message if extraction failed */
   error?: string;
   
-  /** Extraction metadata (UNDEFINED structure) */
+  /** Extraction metadata (pagesVisited, bytesFetched, pageErrors) */
   metadata?: Record<string, unknown>;
 }
 
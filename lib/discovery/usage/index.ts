@@ -0,0 +1,26 @@
+/**
+ * Discovery Usage Module
+ *
+ * Daily ledger of search API requests and website fetches per provider,
+ * and the quotas checked against it before a run starts.
+ */
+
+export {
+  SCRAPER_USAGE_PROVIDER,
+  getUsageDay,
+  emptyUsageTotals,
+  recordUsage,
+  recordFetchUsage,
+  getDailyUsage,
+  listUsageHistory,
+} from './ledger';
+export type { UsageProvider, UsageDelta, UsageTotals, UsageRecord } from './ledger';
+export {
+  DEFAULT_SEARCH_QUOTAS,
+  ESTIMATED_PAGES_PER_QUERY,
+  ESTIMATED_BYTES_PER_PAGE,
+  getUsageQuotas,
+  planRunQuota,
+  checkRunQuota,
+} from './quota';
+export type { UsageQuotas, RunQuotaPlan } from './quota';
@@ -0,0 +1,149 @@
+/**
+ * Phase 5A - Discovery Usage Ledger
+ *
+ * Daily totals per provider of what discovery and enrichment consume: search
+ * API requests and cache hits per search provider, and website pages / bytes
+ * fetched (provider "scraper"). Days are calendar days in the schedule timezone.
+ *
+ * Recording never fails the caller: a ledger write that fails is logged.
+ */
+
+import { prisma } from '../../prisma';
+import { getScheduleTimezone, getZonedParts } from '../scheduler/schedule';
+import type { SearchProviderType } from '../search/types';
+
+/** Ledger provider for website fetches (scraping, exhibitor and notice pages) */
+export const SCRAPER_USAGE_PROVIDER = 'scraper';
+
+export type UsageProvider = SearchProviderType | typeof SCRAPER_USAGE_PROVIDER;
+
+/**
+ * Amounts added to a provider's daily totals
+ */
+export interface UsageDelta {
+  apiCalls?: number;
+  cacheHits?: number;
+  pagesFetched?: number;
+  bytesFetched?: number;
+}
+
+/**
+ * Daily totals of one provider
+ */
+export interface UsageTotals {
+  apiCalls: number;
+  cacheHits: number;
+  pagesFetched: number;
+  bytesFetched: number;
+}
+
+/**
+ * Ledger row (one provider on one day)
+ */
+export interface UsageRecord extends UsageTotals {
+  provider: string;
+  day: string;
+}
+
+/**
+ * Ledger day of a date (YYYY-MM-DD in the schedule timezone)
+ */
+export function getUsageDay(date: Date = new Date()): string {
+  const parts = getZonedParts(date, getScheduleTimezone());
+  return `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+}
+
+/**
+ * Empty totals
+ */
+export function emptyUsageTotals(): UsageTotals {
+  return { apiCalls: 0, cacheHits: 0, pagesFetched: 0, bytesFetched: 0 };
+}
+
+/**
+ * Add usage to today's totals of a provider
+ * Concurrent writers are safe (single INSERT ... ON CONFLICT statement).
+ */
+export async function recordUsage(provider: UsageProvider, delta: UsageDelta, now: Date = new Date()): Promise<void> {
+  const day = getUsageDay(now);
+  try {
+    await prisma.$executeRaw`
+      INSERT INTO "discovery_usage" ("provider", "day", "apiCalls", "cacheHits", "pagesFetched", "bytesFetched", "updatedAt")
+      VALUES (
+        ${provider},
+        ${day},
+        ${delta.apiCalls ?? 0},
+        ${delta.cacheHits ?? 0},
+        ${delta.pagesFetched ?? 0},
+        ${BigInt(delta.bytesFetched ?? 0)},
+        ${now}
+      )
+      ON CONFLICT ("provider", "day") DO UPDATE SET
+        "apiCalls" = "discovery_usage"."apiCalls" + EXCLUDED."apiCalls",
+        "cacheHits" = "discovery_usage"."cacheHits" + EXCLUDED."cacheHits",
+        "pagesFetched" = "discovery_usage"."pagesFetched" + EXCLUDED."pagesFetched",
+        "bytesFetched" = "discovery_usage"."bytesFetched" + EXCLUDED."bytesFetched",
+        "updatedAt" = EXCLUDED."updatedAt"
+    `;
+  } catch (error) {
+    console.warn(
+      `[DiscoveryUsage] Could not record usage for ${provider}:`,
+      error instanceof Error ? error.message : error
+    );
+  }
+}
+
+/**
+ * Record one website page fetch
+ */
+export async function recordFetchUsage(bytes: number): Promise<void> {
+  await recordUsage(SCRAPER_USAGE_PROVIDER, { pagesFetched: 1, bytesFetched: bytes });
+}
+
+function toUsageRecord(row: {
+  provider: string;
+  day: string;
+  apiCalls: number;
+  cacheHits: number;
+  pagesFetched: number;
+  bytesFetched: bigint;
+}): UsageRecord {
+  return {
+    provider: row.provider,
+    day: row.day,
+    apiCalls: row.apiCalls,
+    cacheHits: row.cacheHits,
+    pagesFetched: row.pagesFetched,
+    bytesFetched: Number(row.bytesFetched),
+  };
+}
+
+/**
+ * Totals per provider for one day (providers without usage are missing)
+ */
+export async function getDailyUsage(day: string = getUsageDay()): Promise<Record<string, UsageTotals>> {
+  const rows = await prisma.discoveryUsage.findMany({ where: { day } });
+  return Object.fromEntries(
+    rows.map(toUsageRecord).map((record) => [
+      record.provider,
+      {
+        apiCalls: record.apiCalls,
+        cacheHits: record.cacheHits,
+        pagesFetched: record.pagesFetched,
+        bytesFetched: record.bytesFetched,
+      },
+    ])
+  );
+}
+
+/**
+ * Ledger rows of the last `days` days (today included), newest first
+ */
+export async function listUsageHistory(days: number, now: Date = new Date()): Promise<UsageRecord[]> {
+  const since = getUsageDay(new Date(now.getTime() - (days - 1) * 24 * 60 * 60 * 1000));
+  const rows = await prisma.discoveryUsage.findMany({
+    where: { day: { gte: since } },
+    orderBy: [{ day: 'desc' }, { provider: 'asc' }],
+  });
+  return rows.map(toUsageRecord);
+}
@@ -0,0 +1,130 @@
+/**
+ * Unit Tests for discovery usage quotas
+ *
+ * Simple test runner compatible with repo conventions.
+ * Run with: tsx lib/discovery/usage/quota.test.ts
+ */
+
+import { planRunQuota, ESTIMATED_PAGES_PER_QUERY, type UsageQuotas } from './quota';
+import { SCRAPER_USAGE_PROVIDER, emptyUsageTotals } from './ledger';
+
+// Simple assertion helper
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string): void {
+  if (actual !== expected) {
+    throw new Error(`Assertion failed: ${message}. Expected: ${expected}, Actual: ${actual}`);
+  }
+}
+
+const quotas: UsageQuotas = {
+  search: { google_cse: 100, bing: 50, brave: 0, serpapi: 0 },
+  scrapePages: 0,
+  scrapeBytes: 0,
+};
+
+// Test cases
+function testSearchQuota() {
+  console.log('Test 1: Runs are downsized or refused by the search quota of their providers');
+
+  const fresh = planRunQuota({ plannedQueries: 20, providers: ['google_cse'], scraping: true, usage: {}, quotas });
+  assertEqual(fresh.allowedQueries, 20, 'Run within quota keeps its queries');
+  assertEqual(fresh.searchRemaining, 100, 'Full quota left');
+  assertEqual(fresh.reason, undefined, 'No reason when nothing changes');
+
+  const usage = { google_cse: { ...emptyUsageTotals(), apiCalls: 95 } };
+  const downsized = planRunQuota({ plannedQueries: 20, providers: ['google_cse'], scraping: true, usage, quotas });
+  assertEqual(downsized.allowedQueries, 5, 'Downsized to the remaining requests');
+  assert(downsized.reason?.startsWith('Downsized from 20 to 5 queries') ?? false, 'Downsize reason');
+
+  const withFallback = planRunQuota({ plannedQueries: 20, providers: ['google_cse', 'bing'], scraping: true, usage, quotas });
+  assertEqual(withFallback.allowedQueries, 20, 'Fallback provider quota adds up');
+  assertEqual(withFallback.searchRemaining, 55, 'Remaining summed over providers');
+
+  const spent = { google_cse: { ...emptyUsageTotals(), apiCalls: 120 } };
+  const refused = planRunQuota({ plannedQueries: 20, providers: ['google_cse'], scraping: true, usage: spent, quotas });
+  assertEqual(refused.allowedQueries, 0, 'Exhausted quota refuses the run');
+  assertEqual(refused.searchRemaining, 0, 'Overspent quota counts as nothing left');
+  assert(refused.reason?.startsWith('Daily discovery quota exhausted') ?? false, 'Refusal reason');
+
+  console.log('  ✅ Search quota applied');
+}
+
+function testUnlimitedAndFetchQuota() {
+  console.log('Test 2: Unlimited providers and website fetch quotas');
+
+  const usage = { google_cse: { ...emptyUsageTotals(), apiCalls: 100 } };
+  const unlimited = planRunQuota({ plannedQueries: 20, providers: ['google_cse', 'brave'], scraping: true, usage, quotas });
+  assertEqual(unlimited.searchRemaining, null, 'Unlimited provider makes search unlimited');
+  assertEqual(unlimited.allowedQueries, 20, 'Unlimited run keeps its queries');
+
+  const noProviders = planRunQuota({ plannedQueries: 20, providers: [], scraping: true, usage, quotas });
+  assertEqual(noProviders.searchRemaining, null, 'No configured provider is not limited here');
+
+  const fetchQuotas: UsageQuotas = { ...quotas, scrapePages: 1000, scrapeBytes: 50 * 1024 * 1024 };
+  const scraped = { [SCRAPER_USAGE_PROVIDER]: { ...emptyUsageTotals(), pagesFetched: 950, bytesFetched: 10 * 1024 * 1024 } };
+  const pages = planRunQuota({ plannedQueries: 20, providers: ['brave'], scraping: true, usage: scraped, quotas: fetchQuotas });
+  assertEqual(pages.pagesRemaining, 50, 'Pages left');
+  assertEqual(pages.allowedQueries, 50 / ESTIMATED_PAGES_PER_QUERY, 'Downsized by the page estimate');
+
+  const bytes = planRunQuota({
+    plannedQueries: 20,
+    providers: ['brave'],
+    scraping: true,
+    usage: { [SCRAPER_USAGE_PROVIDER]: { ...emptyUsageTotals(), bytesFetched: 48 * 1024 * 1024 } },
+    quotas: fetchQuotas,
+  });
+  assertEqual(bytes.allowedQueries, 2, 'Downsized by the byte estimate (2 MB at ~1 MB per query)');
+
+  const noScraping = planRunQuota({ plannedQueries: 20, providers: ['brave'], scraping: false, usage: scraped, quotas: fetchQuotas });
+  assertEqual(noScraping.pagesRemaining, null, 'Fetch quota ignored when the run does not scrape');
+  assertEqual(noScraping.allowedQueries, 20, 'Run without scraping keeps its queries');
+
+  console.log('  ✅ Unlimited and fetch quotas applied');
+}
+
+function runTests() {
+  console.log('='.repeat(60));
+  console.log('Discovery Usage Quota Unit Tests');
+  console.log('='.repeat(60));
+  console.log('');
+
+  const tests = [
+    testSearchQuota,
+    testUnlimitedAndFetchQuota,
+  ];
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const test of tests) {
+    try {
+      test();
+      passed++;
+      console.log('');
+    } catch (error) {
+      failed++;
+      console.error(`  ❌ Test failed: ${error instanceof Error ? error.message : String(error)}`);
+      console.log('');
+    }
+  }
+
+  console.log('='.repeat(60));
+  console.log(`Tests: ${passed} passed, ${failed} failed (total: ${tests.length})`);
+  console.log('='.repeat(60));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
@@ -0,0 +1,169 @@
+/**
+ * Phase 5A - Discovery Usage Quotas
+ *
+ * Daily quotas per search provider and for website fetches, checked against
+ * the usage ledger before a run starts (DailyDiscoveryRunner pre-flight).
+ * A run the remaining quota cannot cover is downsized to the queries it can
+ * afford; with nothing left it is refused.
+ *
+ * Configure (0 = unlimited):
+ * - DISCOVERY_QUOTA_GOOGLE_CSE (default 100, the Google CSE free tier)
+ * - DISCOVERY_QUOTA_BING, DISCOVERY_QUOTA_BRAVE, DISCOVERY_QUOTA_SERPAPI (default 0)
+ * - DISCOVERY_QUOTA_SCRAPE_PAGES, DISCOVERY_QUOTA_SCRAPE_MB (default 0)
+ */
+
+import { SEARCH_PROVIDER_TYPES, getSearchProviderOrder } from '../search/config';
+import { createSearchProvider } from '../search/SearchProviderChain';
+import type { SearchProviderType } from '../search/types';
+import { getDailyUsage, emptyUsageTotals, SCRAPER_USAGE_PROVIDER, type UsageTotals } from './ledger';
+
+/**
+ * Default daily search requests per provider (0 = unlimited)
+ */
+export const DEFAULT_SEARCH_QUOTAS: Record<SearchProviderType, number> = {
+  google_cse: 100,
+  bing: 0,
+  brave: 0,
+  serpapi: 0,
+};
+
+/** Sites scraped per query (GoogleDiscoveryChannel maxSitesToScrape), for the page estimate */
+export const ESTIMATED_PAGES_PER_QUERY = 10;
+
+/** Average page size, for the byte estimate */
+export const ESTIMATED_BYTES_PER_PAGE = 100 * 1024;
+
+/**
+ * Daily quotas (0 = unlimited)
+ */
+export interface UsageQuotas {
+  /** Search requests per provider */
+  search: Record<SearchProviderType, number>;
+  /** Website pages fetched */
+  scrapePages: number;
+  /** Website bytes fetched */
+  scrapeBytes: number;
+}
+
+/**
+ * Outcome of the pre-flight quota check (stored in run stats)
+ */
+export interface RunQuotaPlan {
+  plannedQueries: number;
+  /** Queries the remaining quota covers (0 = refuse the run) */
+  allowedQueries: number;
+  /** Search requests left today across the run's providers (null = unlimited) */
+  searchRemaining: number | null;
+  /** Website pages left today (null = unlimited or not scraping) */
+  pagesRemaining: number | null;
+  /** Website bytes left today (null = unlimited or not scraping) */
+  bytesRemaining: number | null;
+  /** Why the run was downsized or refused */
+  reason?: string;
+}
+
+function readQuota(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || String(fallback), 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Get the configured daily quotas
+ */
+export function getUsageQuotas(): UsageQuotas {
+  return {
+    search: Object.fromEntries(
+      SEARCH_PROVIDER_TYPES.map((type) => [
+        type,
+        readQuota(`DISCOVERY_QUOTA_${type.toUpperCase()}`, DEFAULT_SEARCH_QUOTAS[type]),
+      ])
+    ) as Record<SearchProviderType, number>,
+    scrapePages: readQuota('DISCOVERY_QUOTA_SCRAPE_PAGES', 0),
+    scrapeBytes: readQuota('DISCOVERY_QUOTA_SCRAPE_MB', 0) * 1024 * 1024,
+  };
+}
+
+/**
+ * Queries today's remaining quota covers
+ *
+ * Search requests left are summed over the run's providers (the chain falls
+ * back to the next provider when one is exhausted); any unlimited provider
+ * makes search unlimited. Pages and bytes are estimated per query.
+ * Every query is assumed to miss the search cache.
+ *
+ * @param params.providers - Configured search providers of the run, in chain order
+ * @param params.usage - Today's ledger totals per provider
+ */
+export function planRunQuota(params: {
+  plannedQueries: number;
+  providers: SearchProviderType[];
+  scraping: boolean;
+  usage: Record<string, UsageTotals>;
+  quotas: UsageQuotas;
+}): RunQuotaPlan {
+  const { plannedQueries, providers, scraping, usage, quotas } = params;
+  const limits: string[] = [];
+  let allowedQueries = plannedQueries;
+
+  const unlimitedSearch = providers.length === 0 || providers.some((provider) => quotas.search[provider] === 0);
+  const searchRemaining = unlimitedSearch
+    ? null
+    : providers.reduce(
+        (total, provider) => total + Math.max(0, quotas.search[provider] - (usage[provider]?.apiCalls ?? 0)),
+        0
+      );
+  if (searchRemaining !== null && searchRemaining < allowedQueries) {
+    allowedQueries = searchRemaining;
+    limits.push(
+      `${searchRemaining} search requests left (${providers
+        .map((provider) => `${provider} ${usage[provider]?.apiCalls ?? 0}/${quotas.search[provider]}`)
+        .join(', ')})`
+    );
+  }
+
+  const scraped = usage[SCRAPER_USAGE_PROVIDER] ?? emptyUsageTotals();
+  const pagesRemaining = scraping && quotas.scrapePages > 0
+    ? Math.max(0, quotas.scrapePages - scraped.pagesFetched)
+    : null;
+  if (pagesRemaining !== null && Math.floor(pagesRemaining / ESTIMATED_PAGES_PER_QUERY) < allowedQueries) {
+    allowedQueries = Math.floor(pagesRemaining / ESTIMATED_PAGES_PER_QUERY);
+    limits.push(`${pagesRemaining} pages left (${scraped.pagesFetched}/${quotas.scrapePages})`);
+  }
+
+  const bytesRemaining = scraping && quotas.scrapeBytes > 0
+    ? Math.max(0, quotas.scrapeBytes - scraped.bytesFetched)
+    : null;
+  const bytesPerQuery = ESTIMATED_PAGES_PER_QUERY * ESTIMATED_BYTES_PER_PAGE;
+  if (bytesRemaining !== null && Math.floor(bytesRemaining / bytesPerQuery) < allowedQueries) {
+    allowedQueries = Math.floor(bytesRemaining / bytesPerQuery);
+    limits.push(`${(bytesRemaining / (1024 * 1024)).toFixed(1)} MB left`);
+  }
+
+  const plan: RunQuotaPlan = { plannedQueries, allowedQueries, searchRemaining, pagesRemaining, bytesRemaining };
+  if (allowedQueries === 0 && plannedQueries > 0) {
+    plan.reason = `Daily discovery quota exhausted: ${limits.join('; ')}`;
+  } else if (allowedQueries < plannedQueries) {
+    plan.reason = `Downsized from ${plannedQueries} to ${allowedQueries} queries: ${limits.join('; ')}`;
+  }
+  return plan;
+}
+
+/**
+ * Check a run against today's remaining quota (pre-flight)
+ *
+ * @param providers - Run's search provider order (unconfigured providers are ignored)
+ */
+export async function checkRunQuota(
+  plannedQueries: number,
+  providers: SearchProviderType[] | undefined,
+  scraping: boolean
+): Promise<RunQuotaPlan> {
+  const configured = getSearchProviderOrder(providers).filter((type) => createSearchProvider(type).isConfigured());
+  return planRunQuota({
+    plannedQueries,
+    providers: configured,
+    scraping,
+    usage: await getDailyUsage(),
+    quotas: getUsageQuotas(),
+  });
+}
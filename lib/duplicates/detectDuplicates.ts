@@ -0,0 +1,201 @@
+/**
+ * Duplicate Detection Job
+ *
+ * Scans companies, contacts and leads for likely duplicates and writes them to
+ * the review queue (DuplicateCandidate). Called by the
+ * /api/jobs/duplicates/detect cron job and "Scan now" on /dashboard/duplicates.
+ *
+ * - Companies: same canonical domain; similar names in the same location
+ * - Contacts: same email or phone; similar names at the same company
+ * - Leads: same email or phone; similar names in the same location and company
+ *
+ * Location is the city recorded in discovery metadata when there is one,
+ * otherwise the country. Pairs marked "not_duplicate" (or already merged) are
+ * left alone; pending pairs that are no longer detected are removed.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { normalizeCompanyName } from '../companies';
+import { findDuplicatePairs, type DuplicatePair, type DuplicateRecord } from './findDuplicatePairs';
+import { toE164 } from './normalizePhone';
+
+export type DuplicateEntityType = 'company' | 'contact' | 'lead';
+
+export const DUPLICATE_ENTITY_TYPES: DuplicateEntityType[] = ['company', 'contact', 'lead'];
+
+export interface DetectDuplicatesResult {
+  checkedAt: Date;
+  dryRun: boolean;
+  byType: Partial<Record<DuplicateEntityType, {
+    records: number;
+    pairsFound: number;
+    created: number;
+    updated: number;
+    /** Pairs already reviewed (not a duplicate / merged) */
+    skipped: number;
+    /** Pending pairs no longer detected */
+    removed: number;
+  }>>;
+}
+
+/**
+ * Lowercase, accent- and punctuation-free person name
+ */
+function normalizePersonName(...parts: Array<string | null | undefined>): string {
+  return parts
+    .filter(Boolean)
+    .join(' ')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * City from discovery metadata (LinkedIn exports, listings), else the country
+ */
+function recordLocation(discoveryMetadata: Prisma.JsonValue, country?: string | null): string | null {
+  const metadata = (discoveryMetadata ?? {}) as Record<string, unknown>;
+  const city = typeof metadata.city === 'string' ? metadata.city : typeof metadata.location === 'string' ? metadata.location : null;
+  return (city?.split(',')[0] ?? country ?? null)?.trim().toLowerCase() || null;
+}
+
+/**
+ * Load one table as pairing records
+ */
+async function loadRecords(entityType: DuplicateEntityType): Promise<DuplicateRecord[]> {
+  if (entityType === 'company') {
+    const companies = await prisma.company.findMany({
+      select: { id: true, createdAt: true, name: true, canonicalDomain: true, country: true, discoveryMetadata: true },
+    });
+    return companies.map((company) => ({
+      id: company.id,
+      createdAt: company.createdAt,
+      name: normalizeCompanyName(company.name),
+      domain: company.canonicalDomain,
+      location: recordLocation(company.discoveryMetadata, company.country),
+    }));
+  }
+
+  if (entityType === 'contact') {
+    const contacts = await prisma.contact.findMany({
+      select: { id: true, createdAt: true, firstName: true, lastName: true, email: true, phone: true, companyId: true },
+    });
+    return contacts.map((contact) => ({
+      id: contact.id,
+      createdAt: contact.createdAt,
+      // A first name alone is too weak to pair on
+      name: contact.lastName ? normalizePersonName(contact.firstName, contact.lastName) : undefined,
+      emails: contact.email ? [contact.email] : [],
+      phones: [toE164(contact.phone)].filter((phone): phone is string => Boolean(phone)),
+      scope: contact.companyId,
+    }));
+  }
+
+  const leads = await prisma.lead.findMany({
+    select: {
+      id: true,
+      createdAt: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      phone: true,
+      country: true,
+      company: true,
+      companyRel: { select: { name: true } },
+      tenderNumber: true,
+      discoveryMetadata: true,
+    },
+  });
+  return leads.map((lead) => ({
+    id: lead.id,
+    createdAt: lead.createdAt,
+    name: lead.lastName ? normalizePersonName(lead.firstName, lead.lastName) : undefined,
+    // Tender leads share the buyer's contact details by design: one lead per tender
+    emails: lead.tenderNumber ? [] : [lead.email],
+    phones: lead.tenderNumber ? [] : [toE164(lead.phone)].filter((phone): phone is string => Boolean(phone)),
+    location: recordLocation(lead.discoveryMetadata, lead.country),
+    // Company name, linked or free text, so linked and unlinked leads of one company share a scope
+    scope: normalizeCompanyName(lead.companyRel?.name ?? lead.company) || null,
+  }));
+}
+
+/**
+ * Write detected pairs to the review queue
+ */
+async function savePairs(
+  entityType: DuplicateEntityType,
+  pairs: DuplicatePair[],
+  checkedAt: Date
+): Promise<{ created: number; updated: number; skipped: number; removed: number }> {
+  const existing = await prisma.duplicateCandidate.findMany({
+    where: { entityType },
+    select: { id: true, recordAId: true, recordBId: true, status: true },
+  });
+  const existingByPair = new Map(existing.map((candidate) => [`${candidate.recordAId}:${candidate.recordBId}`, candidate]));
+  const detected = new Set<string>();
+  let created = 0;
+  let updated = 0;
+  let skipped = 0;
+
+  for (const pair of pairs) {
+    const key = `${pair.recordAId}:${pair.recordBId}`;
+    detected.add(key);
+    const candidate = existingByPair.get(key);
+    const data = {
+      confidence: pair.confidence,
+      reasons: pair.reasons as unknown as Prisma.InputJsonValue,
+      lastDetectedAt: checkedAt,
+    };
+
+    if (!candidate) {
+      await prisma.duplicateCandidate.create({
+        data: { entityType, recordAId: pair.recordAId, recordBId: pair.recordBId, ...data },
+      });
+      created++;
+    } else if (candidate.status === 'pending') {
+      await prisma.duplicateCandidate.update({ where: { id: candidate.id }, data });
+      updated++;
+    } else {
+      skipped++;
+    }
+  }
+
+  // Pending pairs that no longer look like duplicates (edited, merged or deleted records)
+  const stale = existing
+    .filter((candidate) => candidate.status === 'pending' && !detected.has(`${candidate.recordAId}:${candidate.recordBId}`))
+    .map((candidate) => candidate.id);
+  if (stale.length > 0) {
+    await prisma.duplicateCandidate.deleteMany({ where: { id: { in: stale } } });
+  }
+
+  return { created, updated, skipped, removed: stale.length };
+}
+
+/**
+ * Scan for duplicates and update the review queue
+ *
+ * @param options.dryRun - Count pairs without writing the queue
+ * @param options.entityTypes - Tables to scan (default: all)
+ */
+export async function detectDuplicates(
+  options: { dryRun?: boolean; entityTypes?: DuplicateEntityType[] } = {}
+): Promise<DetectDuplicatesResult> {
+  const checkedAt = new Date();
+  const dryRun = options.dryRun ?? false;
+  const byType = {} as DetectDuplicatesResult['byType'];
+
+  for (const entityType of options.entityTypes ?? DUPLICATE_ENTITY_TYPES) {
+    const records = await loadRecords(entityType);
+    const pairs = findDuplicatePairs(records);
+    const saved = dryRun
+      ? { created: 0, updated: 0, skipped: 0, removed: 0 }
+      : await savePairs(entityType, pairs, checkedAt);
+
+    byType[entityType] = { records: records.length, pairsFound: pairs.length, ...saved };
+  }
+
+  return { checkedAt, dryRun, byType };
+}
@@ -0,0 +1,125 @@
+/**
+ * Unit Tests for duplicate pair finding (E.164 phones, shared values, similar names)
+ *
+ * Simple test runner compatible with repo conventions.
+ * Run with: tsx lib/duplicates/findDuplicatePairs.test.ts
+ */
+
+import { findDuplicatePairs, type DuplicateRecord } from './findDuplicatePairs';
+import { toE164 } from './normalizePhone';
+
+// Simple assertion helper
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string): void {
+  if (actual !== expected) {
+    throw new Error(`Assertion failed: ${message}. Expected: ${expected}, Actual: ${actual}`);
+  }
+}
+
+function record(id: string, day: number, fields: Partial<DuplicateRecord> = {}): DuplicateRecord {
+  return { id, createdAt: new Date(Date.UTC(2026, 0, day)), ...fields };
+}
+
+// Test cases
+function testToE164() {
+  console.log('Test 1: Phone numbers in E.164');
+
+  assertEqual(toE164('082 123 4567'), '+27821234567', 'National number should get the default calling code');
+  assertEqual(toE164('+27 (0)82 123-4567'), '+27821234567', 'Trunk 0 after the calling code should be dropped');
+  assertEqual(toE164('0027821234567'), '+27821234567', '00 prefix should be treated as international');
+  assertEqual(toE164('+44 20 7946 0958'), '+442079460958', 'Foreign numbers should be kept');
+  assertEqual(toE164('+44 (0)20 7946 0958'), '+442079460958', 'Trunk (0) should be dropped for any calling code');
+  assertEqual(toE164('011 555 1234 ext 12'), '+27115551234', 'Extensions should be dropped');
+  assertEqual(toE164('123'), null, 'Too few digits should be rejected');
+  assertEqual(toE164(null), null, 'Missing value should be rejected');
+
+  console.log('  ✅ Phones normalised');
+}
+
+function testSharedValues() {
+  console.log('Test 2: Shared domain, email and phone');
+
+  const pairs = findDuplicatePairs([
+    record('b', 2, { domain: 'acme.co.za', emails: ['Info@Acme.co.za'] }),
+    record('a', 1, { domain: 'acme.co.za', emails: ['info@acme.co.za'] }),
+    record('c', 3, { phones: ['+27821234567'] }),
+    record('d', 4, { phones: ['+27821234567'] }),
+    record('e', 5, { domain: 'other.co.za' }),
+  ]);
+
+  assertEqual(pairs.length, 2, 'Two pairs should be found');
+  assertEqual(pairs[0].recordAId, 'a', 'Older record should come first');
+  assertEqual(pairs[0].recordBId, 'b', 'Newer record should come second');
+  assertEqual(pairs[0].reasons.length, 2, 'Domain and email reasons should both be kept');
+  assert(pairs[0].confidence > 0.99, `Combined reasons should raise the confidence (${pairs[0].confidence})`);
+  assertEqual(pairs[1].confidence, 0.85, 'Phone alone should use the phone confidence');
+
+  console.log('  ✅ Shared values paired, oldest first');
+}
+
+function testSimilarNames() {
+  console.log('Test 3: Similar names within location and scope');
+
+  const pairs = findDuplicatePairs([
+    record('a', 1, { name: 'green leaf catering', location: 'cape town' }),
+    record('b', 2, { name: 'greenleaf catering', location: 'cape town' }),
+    record('c', 3, { name: 'green leaf catering', location: 'durban' }),
+    record('d', 4, { name: 'john smith', scope: 'company-1' }),
+    record('e', 5, { name: 'john smith', scope: 'company-2' }),
+  ]);
+
+  assertEqual(pairs.length, 1, 'Only the same-city pair should be found');
+  assertEqual(`${pairs[0].recordAId}:${pairs[0].recordBId}`, 'a:b', 'Same-city pair should be found');
+  assertEqual(pairs[0].reasons[0].type, 'similar_name', 'Reason should be a similar name');
+  assert(pairs[0].confidence < 0.9, 'A name alone should score below a shared domain');
+
+  console.log('  ✅ Names pair only in the same place and scope');
+}
+
+function runTests() {
+  console.log('='.repeat(60));
+  console.log('Duplicate Pair Unit Tests');
+  console.log('='.repeat(60));
+  console.log('');
+
+  const tests = [
+    testToE164,
+    testSharedValues,
+    testSimilarNames,
+  ];
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const test of tests) {
+    try {
+      test();
+      passed++;
+      console.log('');
+    } catch (error) {
+      failed++;
+      console.error(`  ❌ Test failed: ${error instanceof Error ? error.message : String(error)}`);
+      console.log('');
+    }
+  }
+
+  console.log('='.repeat(60));
+  console.log(`Tests: ${passed} passed, ${failed} failed (total: ${tests.length})`);
+  console.log('='.repeat(60));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
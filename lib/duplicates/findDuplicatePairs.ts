@@ -0,0 +1,152 @@
+/**
+ * Duplicate Pair Finding
+ *
+ * Pure pairing logic used by the duplicate detection job: records sharing a
+ * domain, email or phone (E.164), or with similar names in the same place,
+ * become candidate pairs with a confidence score.
+ */
+
+import { bigramSimilarity } from '@/lib/companies';
+
+export type DuplicateReasonType = 'same_domain' | 'same_email' | 'same_phone' | 'similar_name';
+
+export interface DuplicateReason {
+  type: DuplicateReasonType;
+  /** Shared value (domain, email, phone) or "<name A> / <name B>" */
+  value: string;
+  confidence: number;
+}
+
+/**
+ * Record prepared for pairing (see detectDuplicates for how each table maps)
+ */
+export interface DuplicateRecord {
+  id: string;
+  createdAt: Date;
+  /** Normalised name (company name, or first + last name) */
+  name?: string;
+  domain?: string | null;
+  emails?: string[];
+  /** E.164 numbers */
+  phones?: string[];
+  /** Similar names only pair within the same location (city, else country) */
+  location?: string | null;
+  /** Similar names only pair within the same scope (e.g. company), when both have one */
+  scope?: string | null;
+}
+
+export interface DuplicatePair {
+  /** Older record (kept by default when merging) */
+  recordAId: string;
+  recordBId: string;
+  confidence: number;
+  reasons: DuplicateReason[];
+}
+
+export interface FindDuplicatePairsOptions {
+  /** Name similarity needed for a similar_name reason (default: 0.85) */
+  nameThreshold?: number;
+  /** Pairs below this confidence are dropped (default: 0.6) */
+  minConfidence?: number;
+}
+
+const REASON_CONFIDENCE: Record<Exclude<DuplicateReasonType, 'similar_name'>, number> = {
+  same_domain: 0.9,
+  same_email: 0.95,
+  same_phone: 0.85,
+};
+
+/** Shared values used by more records than this are ignored (switchboards, shared inboxes) */
+const MAX_GROUP_SIZE = 25;
+
+/**
+ * Order a pair: older record first, then by ID
+ */
+function orderPair(a: DuplicateRecord, b: DuplicateRecord): [DuplicateRecord, DuplicateRecord] {
+  const byAge = a.createdAt.getTime() - b.createdAt.getTime();
+  return byAge < 0 || (byAge === 0 && a.id < b.id) ? [a, b] : [b, a];
+}
+
+/**
+ * Combined confidence of independent reasons: 1 - Π(1 - c)
+ */
+function combineConfidence(reasons: DuplicateReason[]): number {
+  const combined = 1 - reasons.reduce((product, reason) => product * (1 - reason.confidence), 1);
+  return Math.round(combined * 100) / 100;
+}
+
+/**
+ * Find candidate duplicate pairs among records
+ */
+export function findDuplicatePairs(
+  records: DuplicateRecord[],
+  options: FindDuplicatePairsOptions = {}
+): DuplicatePair[] {
+  const nameThreshold = options.nameThreshold ?? 0.85;
+  const minConfidence = options.minConfidence ?? 0.6;
+  const pairs = new Map<string, { a: DuplicateRecord; b: DuplicateRecord; reasons: DuplicateReason[] }>();
+
+  const addReason = (first: DuplicateRecord, second: DuplicateRecord, reason: DuplicateReason) => {
+    const [a, b] = orderPair(first, second);
+    const key = `${a.id}:${b.id}`;
+    const pair = pairs.get(key) ?? { a, b, reasons: [] };
+    if (!pair.reasons.some((existing) => existing.type === reason.type)) {
+      pair.reasons.push(reason);
+    }
+    pairs.set(key, pair);
+  };
+
+  // Exact shared values
+  const groupBy = (type: Exclude<DuplicateReasonType, 'similar_name'>, values: (record: DuplicateRecord) => Array<string | null | undefined>) => {
+    const groups = new Map<string, DuplicateRecord[]>();
+    for (const record of records) {
+      for (const value of new Set(values(record))) {
+        if (!value) continue;
+        groups.set(value, [...(groups.get(value) ?? []), record]);
+      }
+    }
+    for (const [value, group] of groups) {
+      if (group.length < 2 || group.length > MAX_GROUP_SIZE) continue;
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) {
+          addReason(group[i], group[j], { type, value, confidence: REASON_CONFIDENCE[type] });
+        }
+      }
+    }
+  };
+
+  groupBy('same_domain', (record) => [record.domain]);
+  groupBy('same_email', (record) => (record.emails ?? []).map((email) => email.trim().toLowerCase()));
+  groupBy('same_phone', (record) => record.phones ?? []);
+
+  // Similar names, compared within blocks sharing the first 3 letters and the location
+  const blocks = new Map<string, DuplicateRecord[]>();
+  for (const record of records) {
+    const compact = record.name?.replace(/ /g, '');
+    if (!compact || compact.length < 3) continue;
+    const key = `${compact.slice(0, 3)}|${record.location?.trim().toLowerCase() ?? ''}`;
+    blocks.set(key, [...(blocks.get(key) ?? []), record]);
+  }
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [first, second] = [block[i], block[j]];
+        if (first.scope && second.scope && first.scope !== second.scope) continue;
+
+        const similarity = bigramSimilarity(first.name!, second.name!);
+        if (similarity >= nameThreshold) {
+          addReason(first, second, {
+            type: 'similar_name',
+            value: `${first.name} / ${second.name}`,
+            confidence: Math.round(similarity * 0.8 * 100) / 100,
+          });
+        }
+      }
+    }
+  }
+
+  return [...pairs.values()]
+    .map(({ a, b, reasons }) => ({ recordAId: a.id, recordBId: b.id, confidence: combineConfidence(reasons), reasons }))
+    .filter((pair) => pair.confidence >= minConfidence)
+    .sort((x, y) => y.confidence - x.confidence);
+}
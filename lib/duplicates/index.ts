@@ -0,0 +1,22 @@
+/**
+ * Duplicate Detection - Main Export
+ *
+ * Periodic scan for likely duplicate companies, contacts and leads, and the
+ * review queue where they are merged or dismissed (DuplicateCandidate).
+ */
+
+export { detectDuplicates, DUPLICATE_ENTITY_TYPES } from './detectDuplicates';
+export type { DuplicateEntityType, DetectDuplicatesResult } from './detectDuplicates';
+export { findDuplicatePairs } from './findDuplicatePairs';
+export type {
+  DuplicateReasonType,
+  DuplicateReason,
+  DuplicateRecord,
+  DuplicatePair,
+  FindDuplicatePairsOptions,
+} from './findDuplicatePairs';
+export { toE164 } from './normalizePhone';
+export { resolveMergedDuplicates } from './resolveMergedDuplicates';
+export { reviewDuplicate } from './reviewDuplicate';
+export type { DuplicateReviewAction, DuplicateReviewResult } from './reviewDuplicate';
+export { duplicateReviewSchema, duplicateScanSchema } from './validation';
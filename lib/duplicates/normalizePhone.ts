@@ -0,0 +1,41 @@
+/**
+ * Phone normalisation to E.164 for duplicate detection
+ */
+
+/** Country calling code assumed for national numbers (South Africa) */
+const DEFAULT_CALLING_CODE = '27';
+
+/**
+ * Phone number in E.164 form ("082 123 4567" -> "+27821234567")
+ *
+ * Handles "+" and "00" international prefixes and national numbers with a
+ * leading 0 (assumed to be in the default country). Extensions are dropped.
+ * A trunk 0 written as "(0)" is dropped for any country ("+44 (0)20 ...");
+ * a bare 0 after the calling code is only dropped for the default country,
+ * as other calling codes vary in length.
+ * Returns null when the result is not 8-15 digits.
+ */
+export function toE164(phone: string | null | undefined, callingCode = DEFAULT_CALLING_CODE): string | null {
+  const value = phone?.split(/\s*(?:ext\.?|x|#)\s*\d+$/i)[0].trim();
+  if (!value) {
+    return null;
+  }
+
+  let digits = value.replace(/\(\s*0\s*\)/g, '').replace(/[^\d+]/g, '');
+  if (digits.startsWith('+')) {
+    digits = digits.slice(1).replace(/\+/g, '');
+  } else if (digits.startsWith('00')) {
+    digits = digits.slice(2);
+  } else if (digits.startsWith('0')) {
+    digits = callingCode + digits.slice(1);
+  } else if (!digits.startsWith(callingCode)) {
+    digits = callingCode + digits;
+  }
+
+  // "+27 082 ..." keeps a trunk 0 after the calling code
+  if (digits.startsWith(`${callingCode}0`)) {
+    digits = callingCode + digits.slice(callingCode.length + 1);
+  }
+
+  return /^\d{8,15}$/.test(digits) ? `+${digits}` : null;
+}
@@ -0,0 +1,40 @@
+/**
+ * Duplicate queue bookkeeping for merges
+ *
+ * Called inside the merge transaction (lib/merge) so the review queue follows
+ * merges made from the queue or from the merge pages.
+ */
+
+import type { Prisma } from '@prisma/client';
+
+/**
+ * Mark the merged pair as "merged" and drop other pending pairs that point at
+ * the deleted record (the next scan re-detects them against the survivor)
+ */
+export async function resolveMergedDuplicates(
+  tx: Prisma.TransactionClient,
+  entityType: string,
+  survivorId: string,
+  mergedId: string,
+  reviewedById?: string | null
+): Promise<void> {
+  const pair = {
+    entityType,
+    OR: [
+      { recordAId: survivorId, recordBId: mergedId },
+      { recordAId: mergedId, recordBId: survivorId },
+    ],
+  };
+
+  await tx.duplicateCandidate.updateMany({
+    where: pair,
+    data: { status: 'merged', reviewedById: reviewedById ?? null, reviewedAt: new Date() },
+  });
+  await tx.duplicateCandidate.deleteMany({
+    where: {
+      entityType,
+      status: 'pending',
+      OR: [{ recordAId: mergedId }, { recordBId: mergedId }],
+    },
+  });
+}
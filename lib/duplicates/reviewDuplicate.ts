@@ -0,0 +1,101 @@
+/**
+ * Duplicate Review Actions
+ *
+ * Reviewer decisions on the duplicate queue (/dashboard/duplicates):
+ * - "not_duplicate": the pair is never suggested again
+ * - "merge": the newer record (B) is merged into the older one (A), keeping A's
+ *   values unless A has none (see defaultFieldChoices)
+ */
+
+import { prisma } from '../prisma';
+import {
+  COMPANY_MERGE_FIELDS,
+  CONTACT_MERGE_FIELDS,
+  LEAD_MERGE_FIELDS,
+  defaultFieldChoices,
+  mergeCompanies,
+  mergeContacts,
+  mergeLeads,
+  type MergeResult,
+} from '../merge';
+
+export type DuplicateReviewAction = 'not_duplicate' | 'merge';
+
+export type DuplicateReviewResult =
+  | { success: true; status: 'not_duplicate' | 'merged'; survivorId?: string }
+  | { success: false; error: string; notFound?: boolean; alreadyReviewed?: boolean };
+
+/**
+ * Merge a candidate pair, keeping record A
+ */
+async function mergePair(
+  entityType: string,
+  recordAId: string,
+  recordBId: string,
+  reviewedById?: string | null
+): Promise<MergeResult | null> {
+  if (entityType === 'company') {
+    const [survivor, merged] = await Promise.all([
+      prisma.company.findUnique({ where: { id: recordAId } }),
+      prisma.company.findUnique({ where: { id: recordBId } }),
+    ]);
+    if (!survivor || !merged) return null;
+    const choices = defaultFieldChoices(COMPANY_MERGE_FIELDS, survivor, merged);
+    return mergeCompanies(survivor, merged, choices, reviewedById);
+  }
+
+  if (entityType === 'contact') {
+    const [survivor, merged] = await Promise.all([
+      prisma.contact.findUnique({ where: { id: recordAId } }),
+      prisma.contact.findUnique({ where: { id: recordBId } }),
+    ]);
+    if (!survivor || !merged) return null;
+    const choices = defaultFieldChoices(CONTACT_MERGE_FIELDS, survivor, merged);
+    return mergeContacts(survivor, merged, choices, reviewedById);
+  }
+
+  const [survivor, merged] = await Promise.all([
+    prisma.lead.findUnique({ where: { id: recordAId } }),
+    prisma.lead.findUnique({ where: { id: recordBId } }),
+  ]);
+  if (!survivor || !merged) return null;
+  const choices = defaultFieldChoices(LEAD_MERGE_FIELDS, survivor, merged);
+  return mergeLeads(survivor, merged, choices, reviewedById);
+}
+
+/**
+ * Apply a reviewer's decision to a pending candidate
+ */
+export async function reviewDuplicate(
+  candidateId: string,
+  action: DuplicateReviewAction,
+  reviewedById?: string | null
+): Promise<DuplicateReviewResult> {
+  const candidate = await prisma.duplicateCandidate.findUnique({ where: { id: candidateId } });
+  if (!candidate) {
+    return { success: false, error: 'Duplicate candidate not found', notFound: true };
+  }
+  if (candidate.status !== 'pending') {
+    return { success: false, error: `Candidate already reviewed (${candidate.status})`, alreadyReviewed: true };
+  }
+
+  if (action === 'not_duplicate') {
+    await prisma.duplicateCandidate.update({
+      where: { id: candidate.id },
+      data: { status: 'not_duplicate', reviewedById: reviewedById ?? null, reviewedAt: new Date() },
+    });
+    return { success: true, status: 'not_duplicate' };
+  }
+
+  const result = await mergePair(candidate.entityType, candidate.recordAId, candidate.recordBId, reviewedById);
+  if (!result) {
+    // One side was deleted since the scan
+    await prisma.duplicateCandidate.delete({ where: { id: candidate.id } });
+    return { success: false, error: 'One of the records no longer exists', notFound: true };
+  }
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+
+  return { success: true, status: 'merged', survivorId: result.survivorId };
+}
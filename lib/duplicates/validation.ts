@@ -0,0 +1,19 @@
+/**
+ * Duplicate Detection - Request validation
+ */
+
+import { z } from 'zod';
+
+/**
+ * Body of PATCH /api/duplicates/[id]
+ */
+export const duplicateReviewSchema = z.object({
+  action: z.enum(['not_duplicate', 'merge']),
+});
+
+/**
+ * Body of POST /api/duplicates/scan
+ */
+export const duplicateScanSchema = z.object({
+  entityTypes: z.array(z.enum(['company', 'contact', 'lead'])).min(1).optional(),
+});
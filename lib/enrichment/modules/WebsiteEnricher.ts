@@ -11,6 +11,8 @@ import type {
   CompanyEnrichmentInput,
   EnrichmentResult,
 } from '../types';
+import { politeFetch } from '@/lib/discovery/fetch';
+import { recordFetchUsage } from '@/lib/discovery/usage';
 
 /**
  * Website Enricher
@@ -55,13 +57,14 @@ export class WebsiteEnricher implements ICompanyEnricher {
       }
 
       // Fetch website with timeout
-      const response = await this.fetchWithTimeout(url, this.timeoutMs);
+      const { response, body } = await this.fetchWithTimeout(url, this.timeoutMs);
       const statusCode = response.status;
       const contentType = response.headers.get('content-type') || undefined;
 
       // Only parse HTML responses (status 200-299)
       if (response.ok && contentType?.includes('text/html')) {
-        const html = await response.text();
+        const html = body.toString('utf8');
+        await recordFetchUsage(body.length);
         const metadata = this.extractMetadata(html);
 
         // Return EnrichmentResult format (runner will convert to WebsiteEnrichmentResult)
@@ -124,31 +127,17 @@ export class WebsiteEnricher implements ICompanyEnricher {
   }
 
   /**
-   * Fetch URL with timeout
+   * Fetch URL with timeout (polite fetch layer: robots.txt, per-host crawl delay)
    */
-  private async fetchWithTimeout(url: string, timeoutMs: number): Promise<Response> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-
-    try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; CompanyEnricher/1.0)',
-          'Accept': 'text/html,application/xhtml+xml',
-        },
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-      return response;
-    } catch (error: unknown) {
-      clearTimeout(timeoutId);
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error(`Request timeout after ${timeoutMs}ms`);
-      }
-      throw error;
+  private async fetchWithTimeout(url: string, timeoutMs: number): Promise<{ response: Response; body: Buffer }> {
+    const result = await politeFetch(url, {
+      timeout: timeoutMs,
+      accept: 'text/html,application/xhtml+xml',
+    });
+    if (!result.success) {
+      throw new Error(result.error);
     }
+    return { response: result.response, body: result.body };
   }
 
   /**
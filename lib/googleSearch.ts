@@ -10,11 +10,18 @@
  * - Advanced scoring using enrichment signals
  */
 
-import { isConfigured, getConfigOrThrow } from './discovery/google/googleConfig';
+import {
+  SearchProviderChain,
+  type SearchProviderType,
+} from './discovery/search';
 
 interface GoogleSearchResult {
   success: boolean;
   configured: boolean;
+  /** Search provider that served the query (Google CSE or a fallback) */
+  provider?: SearchProviderType;
+  /** True if served from the search result cache (no API quota used) */
+  cached?: boolean;
   primaryUrl?: string;
   snippet?: string;
   rawItems?: Array<{
@@ -31,24 +38,15 @@ interface GoogleSearchResult {
   };
 }
 
-interface GoogleCSEResponse {
-  searchInformation?: {
-    totalResults?: string;
-    searchTime?: number;
-    formattedSearchTime?: string;
-  };
-  items?: Array<{
-    title: string;
-    link: string;
-    snippet: string;
-    displayLink?: string;
-    formattedUrl?: string;
-  }>;
-}
-
 /**
  * Search for a company using Google Custom Search Engine
  * 
+ * Uses the search provider chain (DISCOVERY_SEARCH_PROVIDERS), so Bing, Brave or
+ * SerpAPI are used when Google CSE is not configured or out of quota.
+ * Results are cached in the database (DISCOVERY_SEARCH_CACHE_TTL_HOURS).
+ * The chain records each request and cache hit in the discovery usage ledger,
+ * so enrichment searches count against the same daily quotas as discovery runs.
+ * 
  * @param name - Company name to search for
  * @param country - Optional country to refine search
  * @returns Normalized search result with primary URL, snippet, and raw items
@@ -56,56 +54,39 @@ interface GoogleCSEResponse {
  * FUTURE EXTENSION POINTS:
  * - Add industry-specific search refinements
  * - Integrate with social media APIs for richer data
- * - Cache results to reduce API quota usage
  * - Extract structured data (phone, address, employee count)
  */
 export async function searchCompany(
   name: string,
   country?: string
 ): Promise<GoogleSearchResult> {
-  // Check if Google CSE is configured (using centralized validation)
-  if (!isConfigured()) {
+  const searchChain = new SearchProviderChain();
+
+  // Check if any search provider is configured
+  if (!searchChain.hasConfiguredProvider()) {
     return {
       success: false,
       configured: false,
-      error: 'Google Custom Search not configured. Please set GOOGLE_CSE_API_KEY and GOOGLE_CSE_ID environment variables.',
+      error: 'Google Custom Search not configured. Please set GOOGLE_CSE_API_KEY and GOOGLE_CSE_ID environment variables (or BING_SEARCH_API_KEY, BRAVE_SEARCH_API_KEY, SERPAPI_API_KEY).',
     };
   }
 
   try {
-    // Get config (will not throw since we checked above)
-    const config = getConfigOrThrow();
-
     // Build search query
     let searchQuery = `${name} company`;
     if (country) {
       searchQuery += ` ${country}`;
     }
 
-    // Construct Google CSE API URL
-    const url = new URL('https://www.googleapis.com/customsearch/v1');
-    url.searchParams.set('key', config.apiKey);
-    url.searchParams.set('cx', config.cseId);
-    url.searchParams.set('q', searchQuery);
-    url.searchParams.set('num', '5'); // Limit to 5 results to save quota
-
-    // Make API request
-    const response = await fetch(url.toString(), {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Google CSE API error: ${response.status} - ${errorText}`);
-    }
+    // Limit to 5 results to save quota
+    const search = await searchChain.search({ query: searchQuery, num: 5 });
 
-    const data: GoogleCSEResponse = await response.json();
+    if (!search.success) {
+      throw new Error(search.error || 'Search failed');
+    }
 
     // Extract and normalize results
-    const items = data.items || [];
+    const items = search.items;
     
     // Try to find the best primary URL (usually the first result)
     const primaryUrl = items.length > 0 ? items[0].link : undefined;
@@ -122,14 +103,16 @@ export async function searchCompany(
     return {
       success: true,
       configured: true,
+      provider: search.provider,
+      cached: search.cached,
       primaryUrl,
       snippet,
       rawItems,
-      metadata: data.searchInformation
+      metadata: search.metadata
         ? {
-            totalResults: data.searchInformation.totalResults,
-            searchTime: data.searchInformation.searchTime,
-            formattedSearchTime: data.searchInformation.formattedSearchTime,
+            totalResults: search.metadata.totalResults,
+            searchTime: search.metadata.searchTime,
+            formattedSearchTime: search.metadata.formattedSearchTime,
           }
         : undefined,
     };
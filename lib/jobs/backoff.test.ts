@@ -0,0 +1,91 @@
+/**
+ * Unit Tests for job retry backoff and dead-lettering
+ *
+ * Simple test runner compatible with repo conventions.
+ * Run with: tsx lib/jobs/backoff.test.ts
+ */
+
+import { retryDelayMs, planRetry, BASE_RETRY_DELAY_MS, MAX_RETRY_DELAY_MS } from './backoff';
+
+// Simple assertion helper
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string): void {
+  if (actual !== expected) {
+    throw new Error(`Assertion failed: ${message}. Expected: ${expected}, Actual: ${actual}`);
+  }
+}
+
+// Test cases
+function testRetryDelay() {
+  console.log('Test 1: Retry delay doubles per attempt up to the cap');
+
+  assertEqual(retryDelayMs(1), BASE_RETRY_DELAY_MS, 'First retry should wait the base delay');
+  assertEqual(retryDelayMs(2), BASE_RETRY_DELAY_MS * 2, 'Second retry should wait twice as long');
+  assertEqual(retryDelayMs(4), BASE_RETRY_DELAY_MS * 8, 'Fourth retry should wait eight times as long');
+  assertEqual(retryDelayMs(20), MAX_RETRY_DELAY_MS, 'Delay should be capped');
+
+  console.log('  ✅ Delays computed');
+}
+
+function testPlanRetry() {
+  console.log('Test 2: Failed attempts are retried, then dead-lettered');
+
+  const now = new Date('2026-10-20T08:00:00Z');
+  const retry = planRetry(2, 5, now);
+  assert(retry.status === 'pending', 'Job with attempts left should be retried');
+  if (retry.status === 'pending') {
+    assertEqual(retry.runAt.getTime(), now.getTime() + BASE_RETRY_DELAY_MS * 2, 'Retry should be scheduled after the backoff');
+  }
+
+  assertEqual(planRetry(5, 5, now).status, 'dead', 'Job out of attempts should be dead-lettered');
+  assertEqual(planRetry(1, 1, now).status, 'dead', 'Single-attempt job should be dead-lettered on failure');
+
+  console.log('  ✅ Retries planned');
+}
+
+function runTests() {
+  console.log('='.repeat(60));
+  console.log('Job Backoff Unit Tests');
+  console.log('='.repeat(60));
+  console.log('');
+
+  const tests = [
+    testRetryDelay,
+    testPlanRetry,
+  ];
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const test of tests) {
+    try {
+      test();
+      passed++;
+      console.log('');
+    } catch (error) {
+      failed++;
+      console.error(`  ❌ Test failed: ${error instanceof Error ? error.message : String(error)}`);
+      console.log('');
+    }
+  }
+
+  console.log('='.repeat(60));
+  console.log(`Tests: ${passed} passed, ${failed} failed (total: ${tests.length})`);
+  console.log('='.repeat(60));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
@@ -0,0 +1,33 @@
+/**
+ * Job Queue - Retry backoff
+ */
+
+/** Delay before the first retry */
+export const BASE_RETRY_DELAY_MS = 30 * 1000;
+
+/** Longest delay between retries */
+export const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Delay before retrying after the given number of failed attempts
+ * (30s, 1m, 2m, 4m, ... capped at one hour)
+ */
+export function retryDelayMs(attempts: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** exponent, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * What to do with a job whose attempt failed: retry it later, or move it to
+ * the dead-letter state once it has used up its attempts
+ */
+export function planRetry(
+  attempts: number,
+  maxAttempts: number,
+  now: Date = new Date()
+): { status: 'pending'; runAt: Date } | { status: 'dead' } {
+  if (attempts >= maxAttempts) {
+    return { status: 'dead' };
+  }
+  return { status: 'pending', runAt: new Date(now.getTime() + retryDelayMs(attempts)) };
+}
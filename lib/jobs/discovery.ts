@@ -0,0 +1,58 @@
+/**
+ * Job Queue - Discovery run continuations
+ *
+ * Continuing a run that stopped on its time budget is queued as a
+ * discovery_run job rather than run inline, keyed by the run so it is
+ * queued at most once however many callers ask. A keyed job that is dead,
+ * or completed without continuing the run, is queued again.
+ */
+
+import { canAutoContinue } from '../discovery/runner/checkpoint';
+import type { RunResult } from '../discovery/runner/types';
+import { enqueueJob, requeueJob } from './queue';
+import type { JobRecord } from './types';
+
+export interface RunResumeJob {
+  job: JobRecord;
+  /** False when a resume job for the run is already pending or running */
+  queued: boolean;
+}
+
+/**
+ * Queue the continuation of a run
+ *
+ * Callers check that the run has not been continued yet (getRunResumeState).
+ */
+export async function enqueueRunResume(
+  runId: string,
+  options: { triggeredBy: string; createdById?: string }
+): Promise<RunResumeJob> {
+  const { job, created } = await enqueueJob(
+    'discovery_run',
+    { resumeRunId: runId, triggeredBy: options.triggeredBy },
+    { dedupeKey: `discovery_resume:${runId}`, createdById: options.createdById }
+  );
+  if (created) {
+    return { job, queued: true };
+  }
+
+  // An earlier resume that finished without a continuation (runner disabled, resume failed)
+  if (await requeueJob(job.id)) {
+    return { job: { ...job, status: 'pending' }, queued: true };
+  }
+  return { job, queued: false };
+}
+
+/**
+ * Queue the continuation of a run that just stopped on its time budget, if
+ * it left queries and the chain is below MAX_AUTO_CONTINUATIONS
+ *
+ * @returns The job id, or null if no continuation is needed
+ */
+export async function enqueueRunContinuation(result: RunResult, triggeredBy: string): Promise<string | null> {
+  if (!result.success || !canAutoContinue(result.checkpoint)) {
+    return null;
+  }
+  const { job } = await enqueueRunResume(result.runId, { triggeredBy });
+  return job.id;
+}
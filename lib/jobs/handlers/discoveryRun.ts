@@ -0,0 +1,166 @@
+/**
+ * Job Handler - discovery_run
+ *
+ * Payload: { intentIds?: string[], mode?: 'daily' | 'manual' | 'test', dryRun?: boolean, triggeredBy?: string, resumeRunId?: string }
+ *
+ * With intent ids (or daily mode without them, which uses the configured
+ * daily intents) each chunk runs one intent, so a multi-intent run never
+ * has to fit in a single request. A run that stops on its time budget with
+ * queries left is continued in the next chunk (see runner/checkpoint), up
+ * to MAX_AUTO_CONTINUATIONS times. With resumeRunId the job continues that
+ * run. Otherwise the whole run is one chunk.
+ *
+ * Each run's time budget is capped to the time left before the chunk
+ * deadline; with too little left the chunk hands back without starting one.
+ */
+
+import {
+  discoveryRunner,
+  runIntentDiscovery,
+  resumeDiscoveryRun,
+  canAutoContinue,
+  type RunResult,
+} from '../../discovery/runner';
+import { getDailyIntentIds, getDailyPerIntentLimits, loadConfig } from '../../discovery/runner/config';
+import { getIntentById } from '../../discovery/intents';
+import type { JobContext, JobHandler } from '../types';
+
+/** Time kept after a run's budget for finishing in-flight work and recording the run */
+const RUN_FINISH_MARGIN_MS = 15000;
+
+/** Smallest time budget worth starting a run with */
+const MIN_RUN_TIME_BUDGET_MS = 20000;
+
+interface DiscoveryRunPayload {
+  intentIds?: string[];
+  mode?: 'daily' | 'manual' | 'test';
+  dryRun?: boolean;
+  triggeredBy?: string;
+  resumeRunId?: string;
+}
+
+interface DiscoveryRunCheckpoint {
+  intentIds: string[];
+  /** Next intent to run */
+  index: number;
+  /** Run to continue before moving on to the next intent */
+  resumeRunId: string | null;
+  runIds: string[];
+  errors: string[];
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Time budget for a run started now, or null if too little of the chunk is left
+ */
+function getChunkTimeBudget(context: JobContext): number | null {
+  const timeBudgetMs = context.deadline - Date.now() - RUN_FINISH_MARGIN_MS;
+  return timeBudgetMs >= MIN_RUN_TIME_BUDGET_MS ? timeBudgetMs : null;
+}
+
+/**
+ * Hand the chunk back without running. Waits out the deadline first, so
+ * this worker does not lease the job straight back.
+ */
+async function deferChunk(context: JobContext, checkpoint: Record<string, unknown>) {
+  await sleep(Math.max(0, context.deadline - Date.now()));
+  return { done: false as const, checkpoint };
+}
+
+/**
+ * Record a run and whether it needs a continuation
+ */
+function recordRun(checkpoint: DiscoveryRunCheckpoint, label: string, result: RunResult): void {
+  checkpoint.runIds.push(result.runId);
+  if (!result.success) {
+    checkpoint.errors.push(`${label}: ${result.error || 'run failed'}`);
+  }
+  checkpoint.resumeRunId = canAutoContinue(result.checkpoint) ? result.runId : null;
+}
+
+export const discoveryRunHandler: JobHandler = async (job, context) => {
+  if (!discoveryRunner.isEnabled()) {
+    throw new Error('Discovery runner is disabled. Set DISCOVERY_RUNNER_ENABLED=true to enable.');
+  }
+
+  const payload = (job.payload ?? {}) as DiscoveryRunPayload;
+  const dryRun = payload.dryRun ?? false;
+  const triggeredBy = payload.triggeredBy ?? 'job';
+  const mode = payload.mode ?? 'daily';
+
+  if (!payload.intentIds?.length && !payload.resumeRunId && mode !== 'daily') {
+    const timeBudgetMs = getChunkTimeBudget(context);
+    if (timeBudgetMs === null) {
+      return deferChunk(context, {});
+    }
+    const result = await discoveryRunner.run({
+      dryRun,
+      mode,
+      triggeredBy,
+      timeBudgetMs: Math.min(timeBudgetMs, loadConfig().maxRuntimeSeconds * 1000),
+    });
+    if (!result.success) {
+      throw new Error(result.error || 'Discovery run failed');
+    }
+    return { done: true, result: { runIds: [result.runId] } };
+  }
+
+  const checkpoint: DiscoveryRunCheckpoint = (job.checkpoint as unknown as DiscoveryRunCheckpoint | null) ?? {
+    intentIds: payload.resumeRunId ? [] : payload.intentIds?.length ? payload.intentIds : getDailyIntentIds(),
+    index: 0,
+    resumeRunId: payload.resumeRunId ?? null,
+    runIds: [],
+    errors: [],
+  };
+
+  const hasRun = !!checkpoint.resumeRunId || checkpoint.index < checkpoint.intentIds.length;
+  const timeBudgetMs = getChunkTimeBudget(context);
+  if (hasRun && timeBudgetMs === null) {
+    return deferChunk(context, { ...checkpoint });
+  }
+
+  // One run per chunk: a continuation first, then the next intent
+  if (checkpoint.resumeRunId) {
+    const resumeRunId = checkpoint.resumeRunId;
+    const resumed = await resumeDiscoveryRun(resumeRunId, { triggeredBy, timeBudgetMs: timeBudgetMs ?? undefined });
+    if (resumed.success) {
+      recordRun(checkpoint, `continuation of ${resumeRunId}`, resumed.result);
+    } else {
+      checkpoint.errors.push(`${resumeRunId}: ${resumed.error}`);
+      checkpoint.resumeRunId = null;
+    }
+  } else if (checkpoint.index < checkpoint.intentIds.length) {
+    // A run that fails is recorded (not retried, its queries are spent)
+    const intentId = checkpoint.intentIds[checkpoint.index];
+    const intent = await getIntentById(intentId);
+    checkpoint.index++;
+
+    if (!intent || !intent.active) {
+      checkpoint.errors.push(`${intentId}: ${intent ? 'intent is inactive' : 'intent not found'}`);
+    } else {
+      const result = await runIntentDiscovery(intent, {
+        dryRun,
+        triggeredBy,
+        perIntentLimits: getDailyPerIntentLimits(),
+        timeBudgetMs: timeBudgetMs ?? undefined,
+      });
+      recordRun(checkpoint, intentId, result);
+    }
+  }
+
+  if (checkpoint.resumeRunId || checkpoint.index < checkpoint.intentIds.length) {
+    return { done: false, checkpoint: { ...checkpoint } };
+  }
+
+  return {
+    done: true,
+    result: {
+      intents: checkpoint.intentIds.length,
+      runIds: checkpoint.runIds,
+      errors: checkpoint.errors,
+    },
+  };
+};
@@ -0,0 +1,117 @@
+/**
+ * Job Handler - enrichment_batch
+ *
+ * Payload: { companyIds?: string[], limit?: number, forceRefresh?: boolean, onlyMissing?: boolean, delayMs?: number }
+ *
+ * Enriches a batch of companies (explicit ids, or selected the same way as
+ * scripts/bulk-enrich-companies.ts). The batch is fixed on the first chunk;
+ * each chunk then enriches companies until the worker's deadline and
+ * checkpoints its position.
+ */
+
+import { prisma } from '../../prisma';
+import { CompanyEnrichmentRunner } from '../../enrichment/CompanyEnrichmentRunner';
+import type { JobHandler } from '../types';
+
+interface EnrichmentBatchPayload {
+  companyIds?: string[];
+  limit?: number;
+  forceRefresh?: boolean;
+  onlyMissing?: boolean;
+  delayMs?: number;
+}
+
+interface EnrichmentBatchCheckpoint {
+  companyIds: string[];
+  /** Next company to enrich */
+  index: number;
+  succeeded: number;
+  failed: number;
+  errors: string[];
+}
+
+/** Error messages kept in the checkpoint/result */
+const MAX_ERRORS_KEPT = 50;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Companies to enrich when the payload has no explicit ids
+ */
+async function selectCompanyIds(payload: EnrichmentBatchPayload): Promise<string[]> {
+  const onlyMissing = payload.onlyMissing ?? true;
+  const companies = await prisma.company.findMany({
+    where:
+      onlyMissing && !payload.forceRefresh
+        ? {
+            OR: [
+              { enrichmentStatus: null },
+              { enrichmentLastRun: null },
+              { enrichmentStatus: { not: 'success' } },
+            ],
+          }
+        : undefined,
+    orderBy: { updatedAt: 'desc' },
+    take: payload.limit ?? 25,
+    select: { id: true },
+  });
+  return companies.map((company) => company.id);
+}
+
+export const enrichmentBatchHandler: JobHandler = async (job, context) => {
+  const payload = (job.payload ?? {}) as EnrichmentBatchPayload;
+  const delayMs = payload.delayMs ?? 500;
+
+  const checkpoint: EnrichmentBatchCheckpoint = (job.checkpoint as unknown as EnrichmentBatchCheckpoint | null) ?? {
+    companyIds: payload.companyIds?.length ? payload.companyIds : await selectCompanyIds(payload),
+    index: 0,
+    succeeded: 0,
+    failed: 0,
+    errors: [],
+  };
+
+  const runner = new CompanyEnrichmentRunner();
+
+  // At least one company per chunk, so a chunk leased close to the deadline still progresses
+  while (checkpoint.index < checkpoint.companyIds.length) {
+    const companyId = checkpoint.companyIds[checkpoint.index];
+    try {
+      const summary = await runner.enrichCompany(companyId, { forceRefresh: payload.forceRefresh ?? false });
+      if (summary.status === 'success') {
+        checkpoint.succeeded++;
+      } else {
+        checkpoint.failed++;
+        if (checkpoint.errors.length < MAX_ERRORS_KEPT) {
+          checkpoint.errors.push(`${companyId}: sources failed: ${summary.sourcesFailed.join(', ')}`);
+        }
+      }
+    } catch (error) {
+      checkpoint.failed++;
+      if (checkpoint.errors.length < MAX_ERRORS_KEPT) {
+        checkpoint.errors.push(`${companyId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+    checkpoint.index++;
+
+    if (checkpoint.index < checkpoint.companyIds.length) {
+      if (Date.now() >= context.deadline) {
+        return { done: false, checkpoint: { ...checkpoint } };
+      }
+      if (delayMs > 0) {
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  return {
+    done: true,
+    result: {
+      attempted: checkpoint.companyIds.length,
+      succeeded: checkpoint.succeeded,
+      failed: checkpoint.failed,
+      errors: checkpoint.errors,
+    },
+  };
+};
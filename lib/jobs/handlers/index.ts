@@ -0,0 +1,14 @@
+/**
+ * Job Handlers - one per job type
+ */
+
+import type { JobHandler, JobType } from '../types';
+import { discoveryRunHandler } from './discoveryRun';
+import { enrichmentBatchHandler } from './enrichmentBatch';
+import { rescoreHandler } from './rescore';
+
+export const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  discovery_run: discoveryRunHandler,
+  enrichment_batch: enrichmentBatchHandler,
+  rescore: rescoreHandler,
+};
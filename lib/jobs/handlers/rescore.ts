@@ -0,0 +1,144 @@
+/**
+ * Job Handler - rescore
+ *
+ * Payload: { scope?: 'all' | 'leads' | 'companies' }
+ *
+ * Recalculates lead and/or company scores (same rules as
+ * POST /api/scoring/recalculate) in id-ordered batches, checkpointing the
+ * last id so a large table is rescored across several chunks.
+ */
+
+import { prisma } from '../../prisma';
+import { scoreLead, scoreCompany } from '../../scoring';
+import type { JobHandler } from '../types';
+
+/** Records scored per batch */
+const RESCORE_BATCH_SIZE = 200;
+
+/** Error messages kept in the checkpoint/result */
+const MAX_ERRORS_KEPT = 50;
+
+type RescoreScope = 'all' | 'leads' | 'companies';
+
+interface RescoreCheckpoint {
+  phase: 'leads' | 'companies';
+  /** Last id scored in the current phase */
+  cursor: string | null;
+  leadsUpdated: number;
+  companiesUpdated: number;
+  errors: string[];
+}
+
+async function rescoreLeadBatch(checkpoint: RescoreCheckpoint): Promise<number> {
+  const leads = await prisma.lead.findMany({
+    where: checkpoint.cursor ? { id: { gt: checkpoint.cursor } } : undefined,
+    orderBy: { id: 'asc' },
+    take: RESCORE_BATCH_SIZE,
+    include: {
+      companyRel: {
+        select: {
+          size: true,
+        },
+      },
+    },
+  });
+
+  for (const lead of leads) {
+    try {
+      const { score, reasons } = scoreLead(lead);
+      await prisma.lead.update({
+        where: { id: lead.id },
+        data: {
+          score,
+          scoreFactors: { reasons },
+        },
+      });
+      checkpoint.leadsUpdated++;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      if (checkpoint.errors.length < MAX_ERRORS_KEPT) {
+        checkpoint.errors.push(`Lead ${lead.id}: ${errorMessage}`);
+      }
+    }
+    checkpoint.cursor = lead.id;
+  }
+
+  return leads.length;
+}
+
+async function rescoreCompanyBatch(checkpoint: RescoreCheckpoint): Promise<number> {
+  const companies = await prisma.company.findMany({
+    where: checkpoint.cursor ? { id: { gt: checkpoint.cursor } } : undefined,
+    orderBy: { id: 'asc' },
+    take: RESCORE_BATCH_SIZE,
+    include: {
+      _count: {
+        select: {
+          leads: true,
+          contacts: true,
+        },
+      },
+    },
+  });
+
+  for (const company of companies) {
+    try {
+      const { score, reasons } = scoreCompany(company);
+      await prisma.company.update({
+        where: { id: company.id },
+        data: {
+          score,
+          scoreFactors: { reasons },
+        },
+      });
+      checkpoint.companiesUpdated++;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      if (checkpoint.errors.length < MAX_ERRORS_KEPT) {
+        checkpoint.errors.push(`Company ${company.id}: ${errorMessage}`);
+      }
+    }
+    checkpoint.cursor = company.id;
+  }
+
+  return companies.length;
+}
+
+export const rescoreHandler: JobHandler = async (job, context) => {
+  const scope = ((job.payload ?? {}) as { scope?: RescoreScope }).scope ?? 'all';
+
+  const checkpoint: RescoreCheckpoint = (job.checkpoint as unknown as RescoreCheckpoint | null) ?? {
+    phase: scope === 'companies' ? 'companies' : 'leads',
+    cursor: null,
+    leadsUpdated: 0,
+    companiesUpdated: 0,
+    errors: [],
+  };
+
+  // At least one batch per chunk
+  do {
+    const scored =
+      checkpoint.phase === 'leads'
+        ? await rescoreLeadBatch(checkpoint)
+        : await rescoreCompanyBatch(checkpoint);
+
+    if (scored < RESCORE_BATCH_SIZE) {
+      if (checkpoint.phase === 'leads' && scope === 'all') {
+        checkpoint.phase = 'companies';
+        checkpoint.cursor = null;
+        continue;
+      }
+      return {
+        done: true,
+        result: {
+          scope,
+          leadsUpdated: checkpoint.leadsUpdated,
+          companiesUpdated: checkpoint.companiesUpdated,
+          errors: checkpoint.errors,
+        },
+      };
+    }
+  } while (Date.now() < context.deadline);
+
+  return { done: false, checkpoint: { ...checkpoint } };
+};
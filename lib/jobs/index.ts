@@ -0,0 +1,54 @@
+/**
+ * Job Queue Module
+ *
+ * Postgres-backed queue for work that does not fit in a request: discovery
+ * runs, enrichment batches and rescoring are enqueued and processed by
+ * workers in resumable chunks, with retries and a dead-letter state.
+ */
+
+export { JOB_TYPES, JOB_STATUSES } from './types';
+export type {
+  JobType,
+  JobStatus,
+  JobRecord,
+  JobContext,
+  JobStepResult,
+  JobHandler,
+  EnqueueJobOptions,
+  EnqueueJobResult,
+  WorkerOptions,
+  WorkerSummary,
+} from './types';
+
+export { BASE_RETRY_DELAY_MS, MAX_RETRY_DELAY_MS, retryDelayMs, planRetry } from './backoff';
+
+export {
+  DEFAULT_JOB_LEASE_SECONDS,
+  DEFAULT_JOB_MAX_ATTEMPTS,
+  getJobLeaseSeconds,
+  enqueueJob,
+  leaseJobs,
+  reapExpiredJobs,
+  completeJob,
+  continueJob,
+  failJob,
+  retryJob,
+  requeueJob,
+  listJobs,
+  countJobsByStatus,
+} from './queue';
+
+export {
+  DEFAULT_JOB_WORKER_MAX_RUNTIME_SECONDS,
+  getJobWorkerMaxRuntimeSeconds,
+  processJob,
+  runWorker,
+} from './worker';
+
+export { JOB_HANDLERS } from './handlers';
+
+export { enqueueRunResume, enqueueRunContinuation } from './discovery';
+export type { RunResumeJob } from './discovery';
+
+export { jobEnqueueSchema } from './validation';
+export type { JobEnqueueRequest } from './validation';
@@ -0,0 +1,309 @@
+/**
+ * Job Queue - Postgres-backed queue
+ *
+ * Jobs live in the "jobs" table. Workers lease due jobs with
+ * FOR UPDATE SKIP LOCKED, so several workers (cron invocations, the worker
+ * script) never pick up the same job. A lease expires after
+ * JOB_LEASE_SECONDS (default 300); a job whose worker died is then leased
+ * again. Every lease counts as an attempt; failed attempts are retried with
+ * exponential backoff and dead-lettered after maxAttempts. A chunk that
+ * completes successfully resets the attempt count.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { planRetry } from './backoff';
+import type {
+  EnqueueJobOptions,
+  EnqueueJobResult,
+  JobRecord,
+  JobStatus,
+  JobType,
+} from './types';
+
+/**
+ * Default lease duration
+ */
+export const DEFAULT_JOB_LEASE_SECONDS = 300;
+
+/**
+ * Default attempts before a job is dead-lettered
+ */
+export const DEFAULT_JOB_MAX_ATTEMPTS = 5;
+
+/**
+ * Get the lease duration in seconds
+ */
+export function getJobLeaseSeconds(): number {
+  const value = parseInt(process.env.JOB_LEASE_SECONDS || String(DEFAULT_JOB_LEASE_SECONDS), 10);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_JOB_LEASE_SECONDS;
+}
+
+function toJson(value: Record<string, unknown> | undefined): Prisma.InputJsonValue | undefined {
+  return value === undefined ? undefined : (value as Prisma.InputJsonValue);
+}
+
+/**
+ * Add a job to the queue
+ */
+export async function enqueueJob(
+  type: JobType,
+  payload: Record<string, unknown> = {},
+  options: EnqueueJobOptions = {}
+): Promise<EnqueueJobResult> {
+  if (options.dedupeKey) {
+    const existing = await prisma.job.findUnique({ where: { dedupeKey: options.dedupeKey } });
+    if (existing) {
+      return { job: existing, created: false };
+    }
+  }
+
+  try {
+    const job = await prisma.job.create({
+      data: {
+        type,
+        payload: toJson(payload),
+        runAt: options.runAt ?? new Date(),
+        maxAttempts: options.maxAttempts ?? DEFAULT_JOB_MAX_ATTEMPTS,
+        dedupeKey: options.dedupeKey,
+        createdById: options.createdById,
+      },
+    });
+
+    console.log(
+      JSON.stringify({
+        event: 'job_enqueued',
+        jobId: job.id,
+        type,
+        dedupeKey: options.dedupeKey,
+        timestamp: new Date().toISOString(),
+      })
+    );
+
+    return { job, created: true };
+  } catch (error) {
+    // Lost a race with another enqueue of the same dedupeKey
+    if (
+      options.dedupeKey &&
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    ) {
+      const existing = await prisma.job.findUnique({ where: { dedupeKey: options.dedupeKey } });
+      if (existing) {
+        return { job: existing, created: false };
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Lease due jobs for a worker
+ *
+ * Picks pending jobs whose runAt has passed, and running jobs whose lease
+ * expired with attempts left, oldest runAt first. Rows locked by another
+ * worker's lease query are skipped rather than waited on.
+ */
+export async function leaseJobs(
+  workerId: string,
+  options: { types?: JobType[]; limit?: number; leaseSeconds?: number } = {}
+): Promise<JobRecord[]> {
+  const limit = options.limit ?? 1;
+  const now = new Date();
+  const lockedUntil = new Date(now.getTime() + (options.leaseSeconds ?? getJobLeaseSeconds()) * 1000);
+  const typeFilter =
+    options.types && options.types.length > 0
+      ? Prisma.sql`AND "type" IN (${Prisma.join(options.types)})`
+      : Prisma.empty;
+
+  return prisma.$queryRaw<JobRecord[]>`
+    UPDATE "jobs"
+    SET "status" = 'running',
+        "lockedBy" = ${workerId},
+        "lockedUntil" = ${lockedUntil},
+        "attempts" = "attempts" + 1,
+        "startedAt" = COALESCE("startedAt", ${now}),
+        "updatedAt" = ${now}
+    WHERE "id" IN (
+      SELECT "id" FROM "jobs"
+      WHERE (
+        ("status" = 'pending' AND "runAt" <= ${now})
+        OR ("status" = 'running' AND "lockedUntil" < ${now} AND "attempts" < "maxAttempts")
+      )
+      ${typeFilter}
+      ORDER BY "runAt" ASC
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+}
+
+/**
+ * Dead-letter running jobs whose lease expired after their last attempt
+ * (the worker died on every attempt)
+ *
+ * @returns Number of jobs moved to "dead"
+ */
+export async function reapExpiredJobs(now: Date = new Date()): Promise<number> {
+  const result = await prisma.$executeRaw`
+    UPDATE "jobs"
+    SET "status" = 'dead',
+        "lockedBy" = NULL,
+        "lockedUntil" = NULL,
+        "lastError" = COALESCE("lastError", 'Lease expired on the last attempt'),
+        "finishedAt" = ${now},
+        "updatedAt" = ${now}
+    WHERE "status" = 'running' AND "lockedUntil" < ${now} AND "attempts" >= "maxAttempts"
+  `;
+  return result;
+}
+
+/**
+ * Mark a leased job completed
+ *
+ * All lease-holder updates are guarded by lockedBy: a worker whose lease
+ * expired and was taken over cannot overwrite the new holder's state.
+ *
+ * @returns False if the worker no longer holds the lease
+ */
+export async function completeJob(
+  job: JobRecord,
+  workerId: string,
+  result?: Record<string, unknown>
+): Promise<boolean> {
+  const updated = await prisma.job.updateMany({
+    where: { id: job.id, lockedBy: workerId, status: 'running' },
+    data: {
+      status: 'completed',
+      result: toJson(result),
+      lockedBy: null,
+      lockedUntil: null,
+      finishedAt: new Date(),
+    },
+  });
+  return updated.count === 1;
+}
+
+/**
+ * Save a chunk's checkpoint and hand the job back to the queue for its next
+ * chunk (due immediately, attempts reset)
+ *
+ * @returns False if the worker no longer holds the lease
+ */
+export async function continueJob(
+  job: JobRecord,
+  workerId: string,
+  checkpoint: Record<string, unknown>
+): Promise<boolean> {
+  const updated = await prisma.job.updateMany({
+    where: { id: job.id, lockedBy: workerId, status: 'running' },
+    data: {
+      status: 'pending',
+      checkpoint: toJson(checkpoint),
+      attempts: 0,
+      runAt: new Date(),
+      lockedBy: null,
+      lockedUntil: null,
+    },
+  });
+  return updated.count === 1;
+}
+
+/**
+ * Record a failed attempt: retry with backoff, or dead-letter the job once
+ * it has used up its attempts (immediately when permanent)
+ *
+ * @returns The job's new status, or null if the worker no longer holds the lease
+ */
+export async function failJob(
+  job: JobRecord,
+  workerId: string,
+  error: string,
+  options: { permanent?: boolean } = {}
+): Promise<JobStatus | null> {
+  const now = new Date();
+  const plan = options.permanent ? { status: 'dead' as const } : planRetry(job.attempts, job.maxAttempts, now);
+
+  const updated = await prisma.job.updateMany({
+    where: { id: job.id, lockedBy: workerId, status: 'running' },
+    data: {
+      status: plan.status,
+      lastError: error,
+      lockedBy: null,
+      lockedUntil: null,
+      ...(plan.status === 'pending' ? { runAt: plan.runAt } : { finishedAt: now }),
+    },
+  });
+  return updated.count === 1 ? plan.status : null;
+}
+
+/**
+ * Requeue a dead job with a fresh set of attempts, keeping its checkpoint
+ *
+ * @returns False if the job does not exist or is not dead
+ */
+export async function retryJob(id: string): Promise<boolean> {
+  const updated = await prisma.job.updateMany({
+    where: { id, status: 'dead' },
+    data: {
+      status: 'pending',
+      attempts: 0,
+      runAt: new Date(),
+      finishedAt: null,
+    },
+  });
+  return updated.count === 1;
+}
+
+/**
+ * Run a dead or completed job again from the start (fresh attempts, no
+ * checkpoint or result), e.g. a keyed job whose work has to be redone
+ *
+ * @returns False if the job does not exist or is pending or running
+ */
+export async function requeueJob(id: string): Promise<boolean> {
+  const updated = await prisma.job.updateMany({
+    where: { id, status: { in: ['dead', 'completed'] } },
+    data: {
+      status: 'pending',
+      checkpoint: Prisma.DbNull,
+      result: Prisma.DbNull,
+      attempts: 0,
+      lastError: null,
+      runAt: new Date(),
+      finishedAt: null,
+    },
+  });
+  return updated.count === 1;
+}
+
+/**
+ * List jobs, newest first
+ */
+export async function listJobs(
+  filter: { status?: JobStatus; type?: JobType; limit?: number } = {}
+): Promise<JobRecord[]> {
+  return prisma.job.findMany({
+    where: {
+      ...(filter.status ? { status: filter.status } : {}),
+      ...(filter.type ? { type: filter.type } : {}),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: filter.limit ?? 100,
+  });
+}
+
+/**
+ * Count jobs per status
+ */
+export async function countJobsByStatus(): Promise<Record<JobStatus, number>> {
+  const groups = await prisma.job.groupBy({ by: ['status'], _count: { _all: true } });
+  const counts: Record<JobStatus, number> = { pending: 0, running: 0, completed: 0, dead: 0 };
+  for (const group of groups) {
+    if (group.status in counts) {
+      counts[group.status as JobStatus] = group._count._all;
+    }
+  }
+  return counts;
+}
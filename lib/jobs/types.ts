@@ -0,0 +1,86 @@
+/**
+ * Job Queue - Types
+ */
+
+import type { Job } from '@prisma/client';
+
+/**
+ * Job types a worker can process (see handlers/)
+ */
+export const JOB_TYPES = ['discovery_run', 'enrichment_batch', 'rescore'] as const;
+export type JobType = (typeof JOB_TYPES)[number];
+
+/**
+ * Job lifecycle
+ * - pending: waiting to be leased (new, between chunks, or waiting to retry)
+ * - running: leased by a worker until lockedUntil
+ * - completed: finished; result holds the output
+ * - dead: gave up after maxAttempts (or the job cannot run); lastError holds why
+ */
+export const JOB_STATUSES = ['pending', 'running', 'completed', 'dead'] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+export type JobRecord = Job;
+
+/**
+ * Passed to a handler for each chunk
+ */
+export interface JobContext {
+  workerId: string;
+  /** Epoch ms by which the chunk should return (checkpoint and hand back) */
+  deadline: number;
+}
+
+/**
+ * Outcome of one chunk: either the job is done, or it has more work and
+ * returns a checkpoint the next chunk resumes from
+ */
+export type JobStepResult =
+  | { done: true; result?: Record<string, unknown> }
+  | { done: false; checkpoint: Record<string, unknown> };
+
+/**
+ * Processes one chunk of a job. Throwing fails the attempt (retried with
+ * backoff, dead-lettered after maxAttempts); the checkpoint from the last
+ * successful chunk is kept, so a retry resumes where it left off.
+ */
+export type JobHandler = (job: JobRecord, context: JobContext) => Promise<JobStepResult>;
+
+export interface EnqueueJobOptions {
+  /** Not leased before this time (default: now) */
+  runAt?: Date;
+  maxAttempts?: number;
+  /** A second job with the same key is not created; the existing one is returned */
+  dedupeKey?: string;
+  createdById?: string;
+}
+
+export interface EnqueueJobResult {
+  job: JobRecord;
+  /** False when an existing job with the same dedupeKey was returned */
+  created: boolean;
+}
+
+export interface WorkerOptions {
+  /** Recorded as lockedBy on leased jobs */
+  workerId: string;
+  /** Stop leasing new chunks after this long */
+  maxRuntimeMs: number;
+  /** Only process these job types (default: all) */
+  types?: JobType[];
+  /** Return as soon as no job is due instead of polling until maxRuntimeMs */
+  stopWhenIdle?: boolean;
+  /** Wait between polls when no job is due (default 5000) */
+  pollIntervalMs?: number;
+}
+
+export interface WorkerSummary {
+  workerId: string;
+  chunks: number;
+  completed: number;
+  continued: number;
+  retried: number;
+  dead: number;
+  reaped: number;
+  durationMs: number;
+}
@@ -0,0 +1,34 @@
+/**
+ * Job Queue - Request validation
+ */
+
+import { z } from 'zod';
+
+const discoveryRunPayloadSchema = z.object({
+  intentIds: z.array(z.string().min(1)).max(50).optional(),
+  mode: z.enum(['daily', 'manual', 'test']).optional(),
+  dryRun: z.boolean().optional(),
+});
+
+const enrichmentBatchPayloadSchema = z.object({
+  companyIds: z.array(z.string().min(1)).max(1000).optional(),
+  limit: z.number().int().min(1).max(1000).optional(),
+  forceRefresh: z.boolean().optional(),
+  onlyMissing: z.boolean().optional(),
+  delayMs: z.number().int().min(0).max(10000).optional(),
+});
+
+const rescorePayloadSchema = z.object({
+  scope: z.enum(['all', 'leads', 'companies']).default('all'),
+});
+
+/**
+ * Body of POST /api/admin/jobs
+ */
+export const jobEnqueueSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('discovery_run'), payload: discoveryRunPayloadSchema.default({}) }),
+  z.object({ type: z.literal('enrichment_batch'), payload: enrichmentBatchPayloadSchema.default({}) }),
+  z.object({ type: z.literal('rescore'), payload: rescorePayloadSchema.default({ scope: 'all' }) }),
+]);
+
+export type JobEnqueueRequest = z.infer<typeof jobEnqueueSchema>;
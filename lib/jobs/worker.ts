@@ -0,0 +1,129 @@
+/**
+ * Job Queue - Worker
+ *
+ * Leases one job at a time and runs one chunk of it. A job with more work
+ * goes back to the queue with its checkpoint and is usually leased again by
+ * the same worker straight away; when the worker stops (runtime used up,
+ * request timeout, crash) the next worker resumes from the checkpoint.
+ *
+ * Entry points: /api/jobs/worker (Vercel Cron) and scripts/job-worker.ts.
+ */
+
+import { JOB_HANDLERS } from './handlers';
+import { completeJob, continueJob, failJob, leaseJobs, reapExpiredJobs } from './queue';
+import { JOB_TYPES, type JobRecord, type JobType, type WorkerOptions, type WorkerSummary } from './types';
+
+/**
+ * Default worker runtime, below the Vercel function timeout
+ */
+export const DEFAULT_JOB_WORKER_MAX_RUNTIME_SECONDS = 240;
+
+/**
+ * Get the worker runtime in seconds
+ */
+export function getJobWorkerMaxRuntimeSeconds(): number {
+  const value = parseInt(
+    process.env.JOB_WORKER_MAX_RUNTIME_SECONDS || String(DEFAULT_JOB_WORKER_MAX_RUNTIME_SECONDS),
+    10
+  );
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_JOB_WORKER_MAX_RUNTIME_SECONDS;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+type ChunkOutcome = 'completed' | 'continued' | 'retried' | 'dead' | 'lease_lost';
+
+/**
+ * Run one chunk of a leased job and record the outcome
+ */
+export async function processJob(
+  job: JobRecord,
+  context: { workerId: string; deadline: number }
+): Promise<ChunkOutcome> {
+  const startedAt = Date.now();
+  const handler = (JOB_TYPES as readonly string[]).includes(job.type) ? JOB_HANDLERS[job.type as JobType] : undefined;
+
+  if (!handler) {
+    const status = await failJob(job, context.workerId, `Unknown job type: ${job.type}`, { permanent: true });
+    return status ? 'dead' : 'lease_lost';
+  }
+
+  let outcome: ChunkOutcome;
+  let errorMessage: string | undefined;
+
+  try {
+    const step = await handler(job, context);
+    const held = step.done
+      ? await completeJob(job, context.workerId, step.result)
+      : await continueJob(job, context.workerId, step.checkpoint);
+    outcome = held ? (step.done ? 'completed' : 'continued') : 'lease_lost';
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const status = await failJob(job, context.workerId, errorMessage);
+    outcome = status === 'dead' ? 'dead' : status === 'pending' ? 'retried' : 'lease_lost';
+  }
+
+  const log = {
+    event: 'job_chunk_processed',
+    jobId: job.id,
+    type: job.type,
+    workerId: context.workerId,
+    attempt: job.attempts,
+    outcome,
+    error: errorMessage,
+    durationMs: Date.now() - startedAt,
+    timestamp: new Date().toISOString(),
+  };
+  if (outcome === 'completed' || outcome === 'continued') {
+    console.log(JSON.stringify(log));
+  } else {
+    console.error(JSON.stringify(log));
+  }
+
+  return outcome;
+}
+
+/**
+ * Process jobs until maxRuntimeMs is used up (or the queue is empty, with stopWhenIdle)
+ */
+export async function runWorker(options: WorkerOptions): Promise<WorkerSummary> {
+  const startedAt = Date.now();
+  const deadline = startedAt + options.maxRuntimeMs;
+  const pollIntervalMs = options.pollIntervalMs ?? 5000;
+
+  const summary: WorkerSummary = {
+    workerId: options.workerId,
+    chunks: 0,
+    completed: 0,
+    continued: 0,
+    retried: 0,
+    dead: 0,
+    reaped: 0,
+    durationMs: 0,
+  };
+
+  summary.reaped = await reapExpiredJobs();
+
+  while (Date.now() < deadline) {
+    const [job] = await leaseJobs(options.workerId, { types: options.types, limit: 1 });
+
+    if (!job) {
+      if (options.stopWhenIdle) {
+        break;
+      }
+      await sleep(Math.min(pollIntervalMs, Math.max(0, deadline - Date.now())));
+      continue;
+    }
+
+    const outcome = await processJob(job, { workerId: options.workerId, deadline });
+    summary.chunks++;
+    if (outcome !== 'lease_lost') {
+      summary[outcome]++;
+    }
+  }
+
+  summary.durationMs = Date.now() - startedAt;
+  return summary;
+}
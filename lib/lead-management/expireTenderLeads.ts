@@ -0,0 +1,72 @@
+/**
+ * Lead Management - Expire Closed Tender Leads
+ *
+ * Moves tender leads to 'lost' once their closing date has passed without
+ * the lead reaching 'proposal' (status still new/contacted/qualified).
+ * Called by the /api/jobs/leads/expire-tenders cron job.
+ */
+
+import { prisma } from '../prisma';
+import { PRE_PROPOSAL_STATUSES } from './tenders';
+
+export interface ExpireTenderLeadsResult {
+  checkedAt: Date;
+  dryRun: boolean;
+  expired: Array<{
+    id: string;
+    tenderNumber: string | null;
+    tenderClosingDate: Date | null;
+    previousStatus: string;
+  }>;
+}
+
+/**
+ * Move tender leads past their closing date to 'lost'
+ *
+ * @param options.dryRun - Report the leads that would be moved without updating them
+ * @param options.now - Reference time (default: now)
+ */
+export async function expireClosedTenderLeads(
+  options: { dryRun?: boolean; now?: Date } = {}
+): Promise<ExpireTenderLeadsResult> {
+  const now = options.now ?? new Date();
+  const dryRun = options.dryRun ?? false;
+
+  const where = {
+    tenderClosingDate: { lt: now },
+    status: { in: PRE_PROPOSAL_STATUSES as string[] },
+  };
+
+  const leads = await prisma.lead.findMany({
+    where,
+    select: {
+      id: true,
+      tenderNumber: true,
+      tenderClosingDate: true,
+      status: true,
+    },
+    orderBy: { tenderClosingDate: 'asc' },
+  });
+
+  if (!dryRun && leads.length > 0) {
+    // Re-check status in the update so a lead moved to 'proposal' meanwhile is left alone
+    await prisma.lead.updateMany({
+      where: {
+        ...where,
+        id: { in: leads.map((lead) => lead.id) },
+      },
+      data: { status: 'lost' },
+    });
+  }
+
+  return {
+    checkedAt: now,
+    dryRun,
+    expired: leads.map((lead) => ({
+      id: lead.id,
+      tenderNumber: lead.tenderNumber,
+      tenderClosingDate: lead.tenderClosingDate,
+      previousStatus: lead.status,
+    })),
+  };
+}
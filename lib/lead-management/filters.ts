@@ -6,6 +6,13 @@
  */
 
 import type { Prisma } from '@prisma/client';
+import { TENDER_CLOSING_SOON_DAYS } from './tenders';
+
+/**
+ * Statuses shown in the "Closing soon" view when no status filter is set
+ * (tenders already won or lost need no deadline reminder)
+ */
+const CLOSING_SOON_STATUSES = ['new', 'contacted', 'qualified', 'proposal', 'negotiation'];
 
 /**
  * Parsed lead filters from URL query params
@@ -24,13 +31,15 @@ export interface LeadFilters {
   companyCountry?: string[];
   companyIndustry?: string[];
   companySize?: string[];
+  /** "Closing soon" view: tender closing date within this many days from now */
+  closingWithinDays?: number;
 }
 
 /**
  * Sort configuration
  */
 export interface LeadSort {
-  sortBy: 'score' | 'updatedAt' | 'createdAt';
+  sortBy: 'score' | 'updatedAt' | 'createdAt' | 'tenderClosingDate';
   sortOrder: 'asc' | 'desc';
 }
 
@@ -43,6 +52,7 @@ export interface LeadSort {
  * - ?minScore=50&maxScore=100
  * - ?createdAfter=2024-01-01&createdBefore=2024-12-31
  * - ?companyCountry=US&companyCountry=CA
+ * - ?closingWithinDays=14 ("Closing soon" view; empty value uses the default window)
  * 
  * Invalid values are silently ignored (resilient parsing)
  */
@@ -143,6 +153,12 @@ export function parseLeadFilters(searchParams: URLSearchParams): LeadFilters {
     filters.companySize = companySizeValues;
   }
 
+  // Closing soon (tender leads)
+  if (searchParams.has('closingWithinDays')) {
+    const days = parseInt(searchParams.get('closingWithinDays') || '', 10);
+    filters.closingWithinDays = !isNaN(days) && days > 0 && days <= 365 ? days : TENDER_CLOSING_SOON_DAYS;
+  }
+
   return filters;
 }
 
@@ -154,16 +170,20 @@ export function parseLeadFilters(searchParams: URLSearchParams): LeadFilters {
  * - Single filters (assignedToId)
  * - Range filters (score, dates)
  * - Company relation filters (via companyRel)
+ * - Closing soon (tender closing date between now and now + closingWithinDays)
  */
 export function buildLeadWhere(
   filters: LeadFilters,
-  options?: { includeArchived?: boolean }
+  options?: { includeArchived?: boolean; now?: Date }
 ): Prisma.LeadWhereInput {
   const where: Prisma.LeadWhereInput = {};
 
   // Status (multi-select: OR condition)
   if (filters.status && filters.status.length > 0) {
     where.status = { in: filters.status };
+  } else if (filters.closingWithinDays !== undefined) {
+    // Closing soon: only tenders still being worked
+    where.status = { in: CLOSING_SOON_STATUSES };
   } else if (!options?.includeArchived) {
     // Default: exclude archived unless explicitly included
     where.status = { not: 'archived' };
@@ -246,6 +266,15 @@ export function buildLeadWhere(
     where.companyRel = companyWhere;
   }
 
+  // Closing soon (tender leads)
+  if (filters.closingWithinDays !== undefined) {
+    const now = options?.now ?? new Date();
+    where.tenderClosingDate = {
+      gte: now,
+      lte: new Date(now.getTime() + filters.closingWithinDays * 24 * 60 * 60 * 1000),
+    };
+  }
+
   return where;
 }
 
@@ -265,6 +294,10 @@ export function buildLeadOrderBy(sort: LeadSort): Prisma.LeadOrderByWithRelation
     case 'createdAt':
       orderBy.createdAt = sort.sortOrder;
       break;
+    case 'tenderClosingDate':
+      // Leads without a closing date go last
+      orderBy.tenderClosingDate = { sort: sort.sortOrder, nulls: 'last' };
+      break;
     default:
       // Fallback to createdAt desc
       orderBy.createdAt = 'desc';
@@ -280,11 +313,11 @@ export function parseLeadSort(searchParams: URLSearchParams): LeadSort {
   const sortBy = searchParams.get('sortBy');
   const sortOrder = searchParams.get('sortOrder');
 
-  const validSortBy = ['score', 'updatedAt', 'createdAt'] as const;
+  const validSortBy = ['score', 'updatedAt', 'createdAt', 'tenderClosingDate'] as const;
   const validSortOrder = ['asc', 'desc'] as const;
 
   return {
-    sortBy: (sortBy && validSortBy.includes(sortBy as 'score' | 'updatedAt' | 'createdAt')) ? (sortBy as 'score' | 'updatedAt' | 'createdAt') : 'createdAt',
+    sortBy: (sortBy && validSortBy.includes(sortBy as LeadSort['sortBy'])) ? (sortBy as LeadSort['sortBy']) : 'createdAt',
     sortOrder: (sortOrder && validSortOrder.includes(sortOrder as 'asc' | 'desc')) ? (sortOrder as 'asc' | 'desc') : 'desc',
   };
 }
@@ -0,0 +1,128 @@
+/**
+ * Lead Management - Tender Deadline Tracking
+ *
+ * Structured tender fields for leads produced by tender discovery
+ * (tender number, closing/briefing dates, issuing body, document links).
+ * Pure helpers - safe to import from client components.
+ */
+
+import { getScheduleTimezone, getZonedParts } from '../discovery/scheduler/schedule';
+import type { LeadStatus } from './types';
+
+/**
+ * Default window for the "Closing soon" view (days)
+ */
+export const TENDER_CLOSING_SOON_DAYS = 14;
+
+/**
+ * Statuses that have not reached 'proposal'
+ * Tender leads still in one of these when the closing date passes are moved to 'lost'.
+ */
+export const PRE_PROPOSAL_STATUSES: LeadStatus[] = ['new', 'contacted', 'qualified'];
+
+/**
+ * Structured tender fields stored on Lead
+ */
+export interface LeadTenderFields {
+  tenderNumber: string | null;
+  tenderClosingDate: Date | null;
+  tenderBriefingDate: Date | null;
+  tenderIssuingBody: string | null;
+  tenderDocumentUrls: string[] | null;
+}
+
+/**
+ * Convert a wall-clock time in a timezone to a UTC instant
+ */
+function zonedTimeToUtc(
+  parts: { year: number; month: number; day: number; hour: number; minute: number },
+  timeZone: string
+): Date {
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  const zoned = getZonedParts(new Date(asUtc), timeZone);
+  const zonedAsUtc = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute);
+  return new Date(asUtc - (zonedAsUtc - asUtc));
+}
+
+/**
+ * Parse a normalised tender date (YYYY-MM-DD or YYYY-MM-DDTHH:mm, portal local time)
+ *
+ * A closing date without a time is treated as closing at the end of that day.
+ *
+ * @returns UTC instant, or null if the value is not a tender date
+ */
+export function parseTenderDate(
+  value: unknown,
+  kind: 'closing' | 'briefing',
+  timeZone: string = getScheduleTimezone()
+): Date | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?/);
+  if (!match) {
+    return null;
+  }
+
+  const hasTime = match[4] !== undefined;
+  const date = zonedTimeToUtc(
+    {
+      year: Number(match[1]),
+      month: Number(match[2]),
+      day: Number(match[3]),
+      hour: hasTime ? Number(match[4]) : kind === 'closing' ? 23 : 0,
+      minute: hasTime ? Number(match[5]) : kind === 'closing' ? 59 : 0,
+    },
+    timeZone
+  );
+
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Map tender discovery metadata onto structured Lead fields
+ * Returns null when the metadata does not describe a tender.
+ */
+export function getLeadTenderFields(metadata: Record<string, unknown> | undefined): LeadTenderFields | null {
+  if (!metadata || (typeof metadata.tenderNumber !== 'string' && typeof metadata.closingDate !== 'string')) {
+    return null;
+  }
+
+  const asString = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+  const documentUrls = [
+    asString(metadata.noticeUrl),
+    ...(Array.isArray(metadata.documentUrls) ? metadata.documentUrls.map(asString) : []),
+  ].filter((url): url is string => url !== null);
+
+  return {
+    tenderNumber: asString(metadata.tenderNumber),
+    tenderClosingDate: parseTenderDate(metadata.closingDate, 'closing'),
+    tenderBriefingDate: parseTenderDate(metadata.briefingDate, 'briefing'),
+    tenderIssuingBody: asString(metadata.issuingOrgan),
+    tenderDocumentUrls: documentUrls.length > 0 ? Array.from(new Set(documentUrls)) : null,
+  };
+}
+
+/**
+ * Urgency of a tender closing date, for highlighting in the UI
+ * - closed: closing date has passed
+ * - urgent: closes within 3 days
+ * - soon: closes within 7 days
+ */
+export function getTenderUrgency(
+  closingDate: Date | string | null,
+  now: Date = new Date()
+): 'closed' | 'urgent' | 'soon' | 'open' | null {
+  if (!closingDate) {
+    return null;
+  }
+
+  const msLeft = new Date(closingDate).getTime() - now.getTime();
+  const day = 24 * 60 * 60 * 1000;
+  if (msLeft < 0) return 'closed';
+  if (msLeft <= 3 * day) return 'urgent';
+  if (msLeft <= 7 * day) return 'soon';
+  return 'open';
+}
@@ -0,0 +1,100 @@
+/**
+ * Record Merge - Mergeable Fields
+ *
+ * Fields the user picks a surviving value for when merging duplicates.
+ * Pure definitions (safe to import from client components).
+ */
+
+export type MergeEntityType = 'company' | 'contact' | 'lead';
+
+/** Which record's value survives */
+export type FieldChoice = 'survivor' | 'merged';
+
+export type MergeFieldChoices = Record<string, FieldChoice>;
+
+export interface MergeField {
+  key: string;
+  label: string;
+  /**
+   * value: the chosen record's value is kept
+   * json: both objects are combined, the chosen record wins conflicting keys
+   */
+  kind: 'value' | 'json';
+}
+
+export const COMPANY_MERGE_FIELDS: MergeField[] = [
+  { key: 'name', label: 'Name', kind: 'value' },
+  { key: 'website', label: 'Website', kind: 'value' },
+  { key: 'industry', label: 'Industry', kind: 'value' },
+  { key: 'country', label: 'Country', kind: 'value' },
+  { key: 'size', label: 'Size', kind: 'value' },
+  { key: 'enrichmentData', label: 'Enrichment data', kind: 'json' },
+  { key: 'discoveryMetadata', label: 'Discovery metadata', kind: 'json' },
+];
+
+export const CONTACT_MERGE_FIELDS: MergeField[] = [
+  { key: 'firstName', label: 'First name', kind: 'value' },
+  { key: 'lastName', label: 'Last name', kind: 'value' },
+  { key: 'email', label: 'Email', kind: 'value' },
+  { key: 'phone', label: 'Phone', kind: 'value' },
+  { key: 'role', label: 'Role', kind: 'value' },
+  { key: 'linkedInUrl', label: 'LinkedIn URL', kind: 'value' },
+  { key: 'companyId', label: 'Company', kind: 'value' },
+  { key: 'discoveryMetadata', label: 'Discovery metadata', kind: 'json' },
+];
+
+export const LEAD_MERGE_FIELDS: MergeField[] = [
+  { key: 'firstName', label: 'First name', kind: 'value' },
+  { key: 'lastName', label: 'Last name', kind: 'value' },
+  { key: 'email', label: 'Email', kind: 'value' },
+  { key: 'phone', label: 'Phone', kind: 'value' },
+  { key: 'country', label: 'Country', kind: 'value' },
+  { key: 'status', label: 'Status', kind: 'value' },
+  { key: 'businessSource', label: 'Business source', kind: 'value' },
+  { key: 'assignedToId', label: 'Owner', kind: 'value' },
+  { key: 'companyId', label: 'Company', kind: 'value' },
+  { key: 'contactId', label: 'Contact', kind: 'value' },
+  { key: 'discoveryMetadata', label: 'Discovery metadata', kind: 'json' },
+];
+
+export function getMergeFields(entityType: MergeEntityType): MergeField[] {
+  if (entityType === 'lead') {
+    return LEAD_MERGE_FIELDS;
+  }
+  return entityType === 'company' ? COMPANY_MERGE_FIELDS : CONTACT_MERGE_FIELDS;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '' ||
+    (typeof value === 'object' && Object.keys(value as object).length === 0);
+}
+
+/**
+ * Default choices: keep the survivor's value unless it is empty and the merged record has one
+ */
+export function defaultFieldChoices(
+  fields: MergeField[],
+  survivor: Record<string, unknown>,
+  merged: Record<string, unknown>
+): MergeFieldChoices {
+  return Object.fromEntries(
+    fields.map((field) => [
+      field.key,
+      isEmpty(survivor[field.key]) && !isEmpty(merged[field.key]) ? 'merged' : 'survivor',
+    ])
+  );
+}
+
+/**
+ * Display value for the side-by-side view
+ */
+export function formatMergeValue(value: unknown, kind: MergeField['kind']): string {
+  if (isEmpty(value)) {
+    return '';
+  }
+  if (kind === 'json') {
+    const keys = Object.keys(value as object);
+    return `${keys.length} ${keys.length === 1 ? 'entry' : 'entries'} (${keys.slice(0, 4).join(', ')}${keys.length > 4 ? ', …' : ''})`;
+  }
+  return value instanceof Date ? value.toISOString() : String(value);
+}
@@ -0,0 +1,54 @@
+/**
+ * Contact duplicate candidates (merge UI)
+ */
+
+import type { Contact, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+export interface ContactMatch {
+  contact: Contact & { company: { id: string; name: string } | null };
+  matchedBy: 'email' | 'linkedin' | 'name';
+}
+
+/**
+ * Contacts that look like the same person: same email (any case), same
+ * LinkedIn URL, or same first and last name. The contact itself is left out.
+ */
+export async function findSimilarContacts(contact: Contact, limit = 10): Promise<ContactMatch[]> {
+  const conditions: Array<{ matchedBy: ContactMatch['matchedBy']; where: Prisma.ContactWhereInput }> = [];
+
+  if (contact.email) {
+    conditions.push({ matchedBy: 'email', where: { email: { equals: contact.email, mode: 'insensitive' } } });
+  }
+  if (contact.linkedInUrl) {
+    conditions.push({ matchedBy: 'linkedin', where: { linkedInUrl: contact.linkedInUrl } });
+  }
+  if (contact.firstName && contact.lastName) {
+    conditions.push({
+      matchedBy: 'name',
+      where: {
+        firstName: { equals: contact.firstName.trim(), mode: 'insensitive' },
+        lastName: { equals: contact.lastName.trim(), mode: 'insensitive' },
+      },
+    });
+  }
+
+  const matches: ContactMatch[] = [];
+  const seen = new Set([contact.id]);
+
+  for (const condition of conditions) {
+    const found = await prisma.contact.findMany({
+      where: { AND: [condition.where, { id: { not: contact.id } }] },
+      include: { company: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+    for (const match of found) {
+      if (seen.has(match.id)) continue;
+      seen.add(match.id);
+      matches.push({ contact: match, matchedBy: condition.matchedBy });
+    }
+  }
+
+  return matches.slice(0, limit);
+}
@@ -0,0 +1,25 @@
+/**
+ * Record Merge - Main Export
+ *
+ * Merging duplicate companies, contacts and leads with field-level choices
+ * and an audit trail (MergeAudit).
+ */
+
+export {
+  COMPANY_MERGE_FIELDS,
+  CONTACT_MERGE_FIELDS,
+  LEAD_MERGE_FIELDS,
+  getMergeFields,
+  defaultFieldChoices,
+  formatMergeValue,
+} from './fields';
+export type { MergeEntityType, FieldChoice, MergeFieldChoices, MergeField } from './fields';
+export { mergeJsonValues } from './mergeJson';
+export { mergeCompanies, buildCompanyMergeData } from './mergeCompanies';
+export { mergeContacts, buildContactMergeData } from './mergeContacts';
+export { mergeLeads, buildLeadMergeData } from './mergeLeads';
+export { findSimilarContacts } from './findSimilarContacts';
+export type { ContactMatch } from './findSimilarContacts';
+export { mergeRequestSchema } from './validation';
+export type { MergeRequest } from './validation';
+export type { MergeResult, MergeMovedCounts } from './types';
@@ -0,0 +1,126 @@
+/**
+ * Company Merge
+ *
+ * Folds a duplicate company into the one that is kept: field values per the
+ * user's choices, JSON fields combined, contacts and leads re-parented (lead
+ * notes and outreach drafts move with their leads), the duplicate deleted, a
+ * MergeAudit row written and the duplicate review queue updated - all in one
+ * transaction.
+ */
+
+import type { Company, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { canonicalDomain } from '@/lib/companies';
+import { COMPANY_MERGE_FIELDS, type MergeFieldChoices } from './fields';
+import { mergeJsonValues, toJsonInput, toSnapshot } from './mergeJson';
+import type { MergeResult } from './types';
+import { resolveMergedDuplicates } from '../duplicates/resolveMergedDuplicates';
+
+/**
+ * Build the kept company's new values from the field choices
+ */
+export function buildCompanyMergeData(
+  survivor: Company,
+  merged: Company,
+  choices: MergeFieldChoices
+): Prisma.CompanyUpdateInput {
+  const pick = <K extends keyof Company>(key: K): Company[K] =>
+    choices[key] === 'merged' ? merged[key] : survivor[key];
+  const combine = (key: 'enrichmentData' | 'discoveryMetadata') =>
+    toJsonInput(
+      choices[key] === 'merged'
+        ? mergeJsonValues(merged[key], survivor[key])
+        : mergeJsonValues(survivor[key], merged[key])
+    );
+
+  // Enrichment status follows the most recent enrichment run
+  const enrichedLast =
+    (merged.enrichmentLastRun?.getTime() ?? 0) > (survivor.enrichmentLastRun?.getTime() ?? 0) ? merged : survivor;
+  const scoredHigher = merged.score > survivor.score ? merged : survivor;
+
+  return {
+    name: pick('name'),
+    website: pick('website'),
+    canonicalDomain: canonicalDomain(pick('website')),
+    industry: pick('industry'),
+    country: pick('country'),
+    size: pick('size'),
+    score: scoredHigher.score,
+    scoreFactors: toJsonInput(scoredHigher.scoreFactors),
+    enrichmentStatus: enrichedLast.enrichmentStatus,
+    enrichmentLastRun: enrichedLast.enrichmentLastRun,
+    enrichmentData: combine('enrichmentData'),
+    discoveryMetadata: combine('discoveryMetadata'),
+  };
+}
+
+/**
+ * Merge `merged` into `survivor`
+ *
+ * Unknown fields in choices are ignored; fields without a choice keep the
+ * survivor's value.
+ */
+export async function mergeCompanies(
+  survivor: Company,
+  merged: Company,
+  choices: MergeFieldChoices,
+  mergedById?: string | null
+): Promise<MergeResult> {
+  if (survivor.id === merged.id) {
+    return { success: false, error: 'Cannot merge a company into itself' };
+  }
+
+  const fieldChoices: MergeFieldChoices = Object.fromEntries(
+    COMPANY_MERGE_FIELDS.map((field) => [field.key, choices[field.key] === 'merged' ? 'merged' : 'survivor'])
+  );
+  const data = buildCompanyMergeData(survivor, merged, fieldChoices);
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const leadIds = (
+        await tx.lead.findMany({ where: { companyId: merged.id }, select: { id: true } })
+      ).map((lead) => lead.id);
+      const leadNotes = await tx.leadNote.count({ where: { leadId: { in: leadIds } } });
+      const outreachDrafts = await tx.outreachDraft.count({ where: { leadId: { in: leadIds } } });
+
+      const contacts = await tx.contact.updateMany({
+        where: { companyId: merged.id },
+        data: { companyId: survivor.id },
+      });
+      const leads = await tx.lead.updateMany({
+        where: { companyId: merged.id },
+        data: { companyId: survivor.id },
+      });
+      // Legacy company name on moved leads
+      await tx.lead.updateMany({
+        where: { id: { in: leadIds }, company: merged.name },
+        data: { company: data.name as string },
+      });
+
+      await tx.company.delete({ where: { id: merged.id } });
+      await tx.company.update({ where: { id: survivor.id }, data });
+
+      const moved = { contacts: contacts.count, leads: leads.count, leadNotes, outreachDrafts };
+      await resolveMergedDuplicates(tx, 'company', survivor.id, merged.id, mergedById);
+
+      const audit = await tx.mergeAudit.create({
+        data: {
+          entityType: 'company',
+          survivorId: survivor.id,
+          mergedId: merged.id,
+          survivorSnapshot: toSnapshot(survivor),
+          mergedSnapshot: toSnapshot(merged),
+          fieldChoices: fieldChoices,
+          movedCounts: moved,
+          mergedById: mergedById ?? null,
+        },
+      });
+
+      return { auditId: audit.id, moved };
+    });
+
+    return { success: true, survivorId: survivor.id, ...result };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Merge failed' };
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Contact Merge
+ *
+ * Folds a duplicate contact into the one that is kept: field values per the
+ * user's choices, discoveryMetadata combined, leads re-parented (lead notes and
+ * outreach drafts move with their leads), the duplicate deleted, a MergeAudit
+ * row written and the duplicate review queue updated - all in one transaction.
+ */
+
+import type { Contact, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { CONTACT_MERGE_FIELDS, type MergeFieldChoices } from './fields';
+import { mergeJsonValues, toJsonInput, toSnapshot } from './mergeJson';
+import type { MergeResult } from './types';
+import { resolveMergedDuplicates } from '../duplicates/resolveMergedDuplicates';
+
+/**
+ * Build the kept contact's new values from the field choices
+ */
+export function buildContactMergeData(
+  survivor: Contact,
+  merged: Contact,
+  choices: MergeFieldChoices
+): Prisma.ContactUncheckedUpdateInput {
+  const pick = <K extends keyof Contact>(key: K): Contact[K] =>
+    choices[key] === 'merged' ? merged[key] : survivor[key];
+
+  return {
+    firstName: pick('firstName'),
+    lastName: pick('lastName'),
+    email: pick('email'),
+    phone: pick('phone'),
+    role: pick('role'),
+    linkedInUrl: pick('linkedInUrl'),
+    companyId: pick('companyId'),
+    discoveryMetadata: toJsonInput(
+      choices.discoveryMetadata === 'merged'
+        ? mergeJsonValues(merged.discoveryMetadata, survivor.discoveryMetadata)
+        : mergeJsonValues(survivor.discoveryMetadata, merged.discoveryMetadata)
+    ),
+  };
+}
+
+/**
+ * Merge `merged` into `survivor`
+ *
+ * Unknown fields in choices are ignored; fields without a choice keep the
+ * survivor's value.
+ */
+export async function mergeContacts(
+  survivor: Contact,
+  merged: Contact,
+  choices: MergeFieldChoices,
+  mergedById?: string | null
+): Promise<MergeResult> {
+  if (survivor.id === merged.id) {
+    return { success: false, error: 'Cannot merge a contact into itself' };
+  }
+
+  const fieldChoices: MergeFieldChoices = Object.fromEntries(
+    CONTACT_MERGE_FIELDS.map((field) => [field.key, choices[field.key] === 'merged' ? 'merged' : 'survivor'])
+  );
+  const data = buildContactMergeData(survivor, merged, fieldChoices);
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const leadIds = (
+        await tx.lead.findMany({ where: { contactId: merged.id }, select: { id: true } })
+      ).map((lead) => lead.id);
+      const leadNotes = await tx.leadNote.count({ where: { leadId: { in: leadIds } } });
+      const outreachDrafts = await tx.outreachDraft.count({ where: { leadId: { in: leadIds } } });
+
+      const leads = await tx.lead.updateMany({
+        where: { contactId: merged.id },
+        data: { contactId: survivor.id },
+      });
+
+      await tx.contact.delete({ where: { id: merged.id } });
+      await tx.contact.update({ where: { id: survivor.id }, data });
+
+      const moved = { contacts: 0, leads: leads.count, leadNotes, outreachDrafts };
+      await resolveMergedDuplicates(tx, 'contact', survivor.id, merged.id, mergedById);
+
+      const audit = await tx.mergeAudit.create({
+        data: {
+          entityType: 'contact',
+          survivorId: survivor.id,
+          mergedId: merged.id,
+          survivorSnapshot: toSnapshot(survivor),
+          mergedSnapshot: toSnapshot(merged),
+          fieldChoices: fieldChoices,
+          movedCounts: moved,
+          mergedById: mergedById ?? null,
+        },
+      });
+
+      return { auditId: audit.id, moved };
+    });
+
+    return { success: true, survivorId: survivor.id, ...result };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Merge failed' };
+  }
+}
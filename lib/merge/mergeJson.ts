@@ -0,0 +1,54 @@
+/**
+ * Record Merge - JSON field merging (enrichmentData, discoveryMetadata)
+ */
+
+import { Prisma } from '@prisma/client';
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Combine two JSON values
+ *
+ * Objects are merged key by key (recursively), arrays are concatenated without
+ * duplicates, and for anything else the primary value wins unless it is
+ * null / undefined.
+ */
+export function mergeJsonValues(primary: unknown, secondary: unknown): unknown {
+  if (primary === null || primary === undefined) {
+    return secondary ?? null;
+  }
+  if (secondary === null || secondary === undefined) {
+    return primary;
+  }
+
+  if (isPlainObject(primary) && isPlainObject(secondary)) {
+    const result: Record<string, unknown> = { ...secondary };
+    for (const [key, value] of Object.entries(primary)) {
+      result[key] = key in secondary ? mergeJsonValues(value, secondary[key]) : value;
+    }
+    return result;
+  }
+
+  if (Array.isArray(primary) && Array.isArray(secondary)) {
+    const seen = new Set(primary.map((item) => JSON.stringify(item)));
+    return [...primary, ...secondary.filter((item) => !seen.has(JSON.stringify(item)))];
+  }
+
+  return primary;
+}
+
+/**
+ * JSON column value for Prisma (null becomes JsonNull)
+ */
+export function toJsonInput(value: unknown): Prisma.InputJsonValue | typeof Prisma.JsonNull {
+  return value === null || value === undefined ? Prisma.JsonNull : (value as Prisma.InputJsonValue);
+}
+
+/**
+ * Record as plain JSON for the audit trail (dates as ISO strings)
+ */
+export function toSnapshot(record: object): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(record)) as Prisma.InputJsonValue;
+}
@@ -0,0 +1,106 @@
+/**
+ * Lead Merge
+ *
+ * Folds a duplicate lead into the one that is kept: field values per the
+ * user's choices, discoveryMetadata combined, notes and outreach drafts moved
+ * to the kept lead, the duplicate deleted, a MergeAudit row written and the
+ * duplicate review queue updated - all in one transaction.
+ * Score, tender fields and the legacy company name stay with the kept lead.
+ */
+
+import type { Lead, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { LEAD_MERGE_FIELDS, type MergeFieldChoices } from './fields';
+import { mergeJsonValues, toJsonInput, toSnapshot } from './mergeJson';
+import type { MergeResult } from './types';
+import { resolveMergedDuplicates } from '../duplicates/resolveMergedDuplicates';
+
+/**
+ * Build the kept lead's new values from the field choices
+ */
+export function buildLeadMergeData(
+  survivor: Lead,
+  merged: Lead,
+  choices: MergeFieldChoices
+): Prisma.LeadUncheckedUpdateInput {
+  const pick = <K extends keyof Lead>(key: K): Lead[K] =>
+    choices[key] === 'merged' ? merged[key] : survivor[key];
+
+  return {
+    firstName: pick('firstName'),
+    lastName: pick('lastName'),
+    email: pick('email'),
+    phone: pick('phone'),
+    country: pick('country'),
+    status: pick('status'),
+    businessSource: pick('businessSource'),
+    assignedToId: pick('assignedToId'),
+    companyId: pick('companyId'),
+    contactId: pick('contactId'),
+    discoveryMetadata: toJsonInput(
+      choices.discoveryMetadata === 'merged'
+        ? mergeJsonValues(merged.discoveryMetadata, survivor.discoveryMetadata)
+        : mergeJsonValues(survivor.discoveryMetadata, merged.discoveryMetadata)
+    ),
+  };
+}
+
+/**
+ * Merge `merged` into `survivor`
+ *
+ * Unknown fields in choices are ignored; fields without a choice keep the
+ * survivor's value.
+ */
+export async function mergeLeads(
+  survivor: Lead,
+  merged: Lead,
+  choices: MergeFieldChoices,
+  mergedById?: string | null
+): Promise<MergeResult> {
+  if (survivor.id === merged.id) {
+    return { success: false, error: 'Cannot merge a lead into itself' };
+  }
+
+  const fieldChoices: MergeFieldChoices = Object.fromEntries(
+    LEAD_MERGE_FIELDS.map((field) => [field.key, choices[field.key] === 'merged' ? 'merged' : 'survivor'])
+  );
+  const data = buildLeadMergeData(survivor, merged, fieldChoices);
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const notes = await tx.leadNote.updateMany({
+        where: { leadId: merged.id },
+        data: { leadId: survivor.id },
+      });
+      const drafts = await tx.outreachDraft.updateMany({
+        where: { leadId: merged.id },
+        data: { leadId: survivor.id },
+      });
+
+      await tx.lead.delete({ where: { id: merged.id } });
+      await tx.lead.update({ where: { id: survivor.id }, data });
+
+      const moved = { contacts: 0, leads: 0, leadNotes: notes.count, outreachDrafts: drafts.count };
+      await resolveMergedDuplicates(tx, 'lead', survivor.id, merged.id, mergedById);
+
+      const audit = await tx.mergeAudit.create({
+        data: {
+          entityType: 'lead',
+          survivorId: survivor.id,
+          mergedId: merged.id,
+          survivorSnapshot: toSnapshot(survivor),
+          mergedSnapshot: toSnapshot(merged),
+          fieldChoices: fieldChoices,
+          movedCounts: moved,
+          mergedById: mergedById ?? null,
+        },
+      });
+
+      return { auditId: audit.id, moved };
+    });
+
+    return { success: true, survivorId: survivor.id, ...result };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Merge failed' };
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Record Merge - Types
+ */
+
+/** Records re-parented to the survivor */
+export interface MergeMovedCounts {
+  contacts: number;
+  leads: number;
+  /** Notes on moved leads (they stay on their lead) */
+  leadNotes: number;
+  /** Outreach drafts on moved leads (they stay on their lead) */
+  outreachDrafts: number;
+}
+
+export type MergeResult =
+  | { success: true; survivorId: string; auditId: string; moved: MergeMovedCounts }
+  | { success: false; error: string };
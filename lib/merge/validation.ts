@@ -0,0 +1,16 @@
+/**
+ * Record Merge - Request validation
+ */
+
+import { z } from 'zod';
+
+/**
+ * Body of POST /api/companies/[id]/merge and /api/contacts/[id]/merge
+ * ([id] is the record that is kept)
+ */
+export const mergeRequestSchema = z.object({
+  mergedId: z.string().min(1, 'mergedId is required'),
+  fields: z.record(z.string(), z.enum(['survivor', 'merged'])).default({}),
+});
+
+export type MergeRequest = z.infer<typeof mergeRequestSchema>;
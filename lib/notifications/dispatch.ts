@@ -0,0 +1,128 @@
+/**
+ * Notifications - Alert Dispatch
+ *
+ * Records each alert in notification_alerts and delivers it through the sinks.
+ * An alert whose dedupeKey was already sent inside the de-duplication window
+ * (ALERT_DEDUPE_HOURS, default 12) is not sent again: the earlier alert counts
+ * the repeat in `occurrences` instead.
+ *
+ * Dispatching never fails the caller: errors are logged.
+ */
+
+import type { NotificationAlert } from '@prisma/client';
+import { prisma } from '../prisma';
+import { createNotificationSink } from './sinks';
+import { resolveAlertDestinations } from './preferences';
+import type { AlertInput, AlertDispatchResult, NotificationDelivery, NotificationDestination } from './types';
+
+/** Default de-duplication window */
+export const DEFAULT_ALERT_DEDUPE_HOURS = 12;
+
+/**
+ * Hours during which repeats of an alert are not sent again
+ */
+export function getAlertDedupeHours(): number {
+  const hours = parseFloat(process.env.ALERT_DEDUPE_HOURS || String(DEFAULT_ALERT_DEDUPE_HOURS));
+  return Number.isFinite(hours) && hours >= 0 ? hours : DEFAULT_ALERT_DEDUPE_HOURS;
+}
+
+/**
+ * Destination as stored with the alert: email address, or only the origin of
+ * a webhook URL (the path usually holds its secret)
+ */
+export function describeDestination(destination: NotificationDestination): string {
+  if (destination.sink === 'email') {
+    return destination.address;
+  }
+  try {
+    return `${new URL(destination.address).origin}/…`;
+  } catch {
+    return 'invalid URL';
+  }
+}
+
+/**
+ * Deliver an alert to its destinations, unless it repeats a recent one
+ */
+export async function dispatchAlert(alert: AlertInput, now: Date = new Date()): Promise<AlertDispatchResult | null> {
+  try {
+    const windowStart = new Date(now.getTime() - getAlertDedupeHours() * 60 * 60 * 1000);
+    const recent = await prisma.notificationAlert.findFirst({
+      where: { dedupeKey: alert.dedupeKey, createdAt: { gte: windowStart } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (recent) {
+      const repeated = await prisma.notificationAlert.update({
+        where: { id: recent.id },
+        data: {
+          occurrences: { increment: 1 },
+          lastSeenAt: now,
+          ...(alert.runId ? { runId: alert.runId } : {}),
+        },
+      });
+      console.log(
+        `[Notifications] Suppressed repeated alert ${alert.dedupeKey} (${repeated.occurrences} times since ${recent.createdAt.toISOString()})`
+      );
+      return { alertId: recent.id, suppressed: true, occurrences: repeated.occurrences, deliveries: [] };
+    }
+
+    const record = await prisma.notificationAlert.create({
+      data: {
+        type: alert.type,
+        severity: alert.severity,
+        dedupeKey: alert.dedupeKey,
+        title: alert.title,
+        message: alert.message,
+        url: alert.url,
+        runId: alert.runId,
+        createdAt: now,
+        lastSeenAt: now,
+      },
+    });
+
+    const destinations = await resolveAlertDestinations(alert.type);
+    const deliveries: NotificationDelivery[] = await Promise.all(
+      destinations.map(async (destination) => {
+        const result = await createNotificationSink(destination.sink).send(alert, destination.address);
+        return {
+          sink: destination.sink,
+          destination: describeDestination(destination),
+          success: result.success,
+          ...(result.error ? { error: result.error } : {}),
+        };
+      })
+    );
+
+    await prisma.notificationAlert.update({
+      where: { id: record.id },
+      data: { deliveries: deliveries as object[] },
+    });
+
+    const failed = deliveries.filter((delivery) => !delivery.success);
+    console.log(
+      `[Notifications] Sent alert ${alert.dedupeKey} to ${deliveries.length - failed.length} of ${deliveries.length} destinations`
+    );
+    for (const delivery of failed) {
+      console.warn(`[Notifications] ${delivery.sink} delivery to ${delivery.destination} failed: ${delivery.error}`);
+    }
+
+    return { alertId: record.id, suppressed: false, occurrences: 1, deliveries };
+  } catch (error) {
+    console.error(
+      `[Notifications] Could not dispatch alert ${alert.dedupeKey}:`,
+      error instanceof Error ? error.message : error
+    );
+    return null;
+  }
+}
+
+/**
+ * Alerts raised recently, newest first
+ */
+export async function listRecentAlerts(limit = 50): Promise<NotificationAlert[]> {
+  return prisma.notificationAlert.findMany({
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+}
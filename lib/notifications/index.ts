@@ -0,0 +1,44 @@
+/**
+ * Notifications Module
+ *
+ * Alerts delivered through pluggable sinks (SMTP email, generic webhook,
+ * Slack-compatible webhook) to team-wide destinations and subscribed users,
+ * with de-duplication of repeated alerts.
+ */
+
+export { NOTIFICATION_SINK_TYPES } from './types';
+export type {
+  AlertSeverity,
+  AlertInput,
+  NotificationSinkType,
+  NotificationDestination,
+  NotificationDelivery,
+  INotificationSink,
+  AlertDispatchResult,
+} from './types';
+
+export {
+  createNotificationSink,
+  EmailNotificationSink,
+  WebhookNotificationSink,
+  SlackNotificationSink,
+  formatAlertText,
+} from './sinks';
+export { getSmtpConfig, sendSmtpMail, formatSmtpMessage } from './smtp';
+export type { SmtpConfig, SmtpMessage } from './smtp';
+
+export {
+  getTeamDestinations,
+  resolveAlertDestinations,
+  getNotificationPreference,
+  saveNotificationPreference,
+} from './preferences';
+export type { NotificationPreferenceInput } from './preferences';
+
+export {
+  DEFAULT_ALERT_DEDUPE_HOURS,
+  getAlertDedupeHours,
+  describeDestination,
+  dispatchAlert,
+  listRecentAlerts,
+} from './dispatch';
@@ -0,0 +1,102 @@
+/**
+ * Notifications - Destinations and Subscriptions
+ *
+ * An alert goes to the team-wide destinations (all alert types) and to every
+ * user subscribed to its type:
+ * - ALERT_EMAIL_TO - comma-separated addresses
+ * - ALERT_WEBHOOK_URL - generic JSON webhook
+ * - ALERT_SLACK_WEBHOOK_URL - Slack-compatible incoming webhook
+ * - per user: their email address, personal webhook and Slack webhook
+ */
+
+import type { NotificationPreference } from '@prisma/client';
+import { prisma } from '../prisma';
+import type { NotificationDestination } from './types';
+
+/**
+ * Subscription settings of one user
+ */
+export interface NotificationPreferenceInput {
+  alertTypes: string[];
+  emailEnabled: boolean;
+  webhookUrl?: string | null;
+  slackWebhookUrl?: string | null;
+}
+
+/**
+ * Team-wide destinations from the environment
+ */
+export function getTeamDestinations(): NotificationDestination[] {
+  const destinations: NotificationDestination[] = (process.env.ALERT_EMAIL_TO || '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean)
+    .map((address) => ({ sink: 'email', address }));
+
+  if (process.env.ALERT_WEBHOOK_URL) {
+    destinations.push({ sink: 'webhook', address: process.env.ALERT_WEBHOOK_URL });
+  }
+  if (process.env.ALERT_SLACK_WEBHOOK_URL) {
+    destinations.push({ sink: 'slack', address: process.env.ALERT_SLACK_WEBHOOK_URL });
+  }
+  return destinations;
+}
+
+/**
+ * Destinations of an alert type: team-wide plus subscribed users (each once)
+ */
+export async function resolveAlertDestinations(alertType: string): Promise<NotificationDestination[]> {
+  const subscribers = await prisma.notificationPreference.findMany({
+    where: { alertTypes: { has: alertType } },
+    include: { user: { select: { email: true } } },
+  });
+
+  const destinations = [...getTeamDestinations()];
+  for (const preference of subscribers) {
+    if (preference.emailEnabled) {
+      destinations.push({ sink: 'email', address: preference.user.email });
+    }
+    if (preference.webhookUrl) {
+      destinations.push({ sink: 'webhook', address: preference.webhookUrl });
+    }
+    if (preference.slackWebhookUrl) {
+      destinations.push({ sink: 'slack', address: preference.slackWebhookUrl });
+    }
+  }
+
+  const seen = new Set<string>();
+  return destinations.filter((destination) => {
+    const key = `${destination.sink}:${destination.address.toLowerCase()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * A user's subscription settings (null if the user never saved any)
+ */
+export async function getNotificationPreference(userId: string): Promise<NotificationPreference | null> {
+  return prisma.notificationPreference.findUnique({ where: { userId } });
+}
+
+/**
+ * Save a user's subscription settings
+ */
+export async function saveNotificationPreference(
+  userId: string,
+  input: NotificationPreferenceInput
+): Promise<NotificationPreference> {
+  const data = {
+    alertTypes: Array.from(new Set(input.alertTypes)),
+    emailEnabled: input.emailEnabled,
+    webhookUrl: input.webhookUrl || null,
+    slackWebhookUrl: input.slackWebhookUrl || null,
+  };
+
+  return prisma.notificationPreference.upsert({
+    where: { userId },
+    create: { userId, ...data },
+    update: data,
+  });
+}
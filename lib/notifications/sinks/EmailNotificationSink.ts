@@ -0,0 +1,38 @@
+/**
+ * Notifications - Email Sink
+ *
+ * Plain-text alert email over SMTP.
+ * Requires SMTP_HOST and SMTP_FROM (see ../smtp).
+ */
+
+import type { INotificationSink, AlertInput } from '../types';
+import { getSmtpConfig, sendSmtpMail } from '../smtp';
+import { formatAlertText } from './alertText';
+
+export class EmailNotificationSink implements INotificationSink {
+  getSinkType(): 'email' {
+    return 'email';
+  }
+
+  isConfigured(): boolean {
+    return getSmtpConfig() !== null;
+  }
+
+  async send(alert: AlertInput, address: string): Promise<{ success: boolean; error?: string }> {
+    const config = getSmtpConfig();
+    if (!config) {
+      return { success: false, error: 'Email is not configured (SMTP_HOST, SMTP_FROM)' };
+    }
+
+    try {
+      await sendSmtpMail(config, {
+        to: [address],
+        subject: `[${alert.severity === 'critical' ? 'Critical' : 'Warning'}] ${alert.title}`,
+        text: formatAlertText(alert),
+      });
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+}
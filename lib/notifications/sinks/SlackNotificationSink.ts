@@ -0,0 +1,30 @@
+/**
+ * Notifications - Slack Sink
+ *
+ * Slack-compatible incoming webhook ({ text } with mrkdwn); also accepted by
+ * Mattermost, Rocket.Chat and Teams workflow webhooks.
+ */
+
+import type { INotificationSink, AlertInput } from '../types';
+import { postJson } from './WebhookNotificationSink';
+
+export class SlackNotificationSink implements INotificationSink {
+  getSinkType(): 'slack' {
+    return 'slack';
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async send(alert: AlertInput, address: string): Promise<{ success: boolean; error?: string }> {
+    const icon = alert.severity === 'critical' ? ':red_circle:' : ':warning:';
+    const details = Object.entries(alert.details ?? {}).map(([key, value]) => `• ${key}: ${value}`);
+    const lines = [`${icon} *${alert.title}*`, alert.message, ...details];
+    if (alert.url) {
+      lines.push(`<${alert.url}|Open in CCS Lead Agent>`);
+    }
+
+    return postJson(address, { text: lines.join('\n') });
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Notifications - Generic Webhook Sink
+ *
+ * POSTs the alert as JSON:
+ * { type, severity, title, message, url, runId, details, occurredAt }
+ */
+
+import type { INotificationSink, AlertInput } from '../types';
+
+/** Time allowed for the webhook to answer */
+export const WEBHOOK_TIMEOUT_MS = 10000;
+
+/**
+ * POST a JSON body, treating any non-2xx answer as a failure
+ */
+export async function postJson(url: string, body: unknown): Promise<{ success: boolean; error?: string }> {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      return { success: false, error: `Webhook returned ${response.status}` };
+    }
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+export class WebhookNotificationSink implements INotificationSink {
+  getSinkType(): 'webhook' {
+    return 'webhook';
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async send(alert: AlertInput, address: string): Promise<{ success: boolean; error?: string }> {
+    return postJson(address, {
+      type: alert.type,
+      severity: alert.severity,
+      title: alert.title,
+      message: alert.message,
+      url: alert.url ?? null,
+      runId: alert.runId ?? null,
+      details: alert.details ?? {},
+      occurredAt: new Date().toISOString(),
+    });
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Notifications - Plain-text alert body (email and Slack)
+ */
+
+import type { AlertInput } from '../types';
+
+/**
+ * Message, details and link, one per line
+ */
+export function formatAlertText(alert: AlertInput): string {
+  const lines = [alert.message];
+  const details = Object.entries(alert.details ?? {});
+  if (details.length > 0) {
+    lines.push('', ...details.map(([key, value]) => `${key}: ${value}`));
+  }
+  if (alert.url) {
+    lines.push('', alert.url);
+  }
+  return lines.join('\n');
+}
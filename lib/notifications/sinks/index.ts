@@ -0,0 +1,25 @@
+/**
+ * Notifications - Sinks
+ */
+
+import type { INotificationSink, NotificationSinkType } from '../types';
+import { EmailNotificationSink } from './EmailNotificationSink';
+import { WebhookNotificationSink } from './WebhookNotificationSink';
+import { SlackNotificationSink } from './SlackNotificationSink';
+
+export { EmailNotificationSink, WebhookNotificationSink, SlackNotificationSink };
+export { formatAlertText } from './alertText';
+
+/**
+ * Create a sink instance by type
+ */
+export function createNotificationSink(type: NotificationSinkType): INotificationSink {
+  switch (type) {
+    case 'email':
+      return new EmailNotificationSink();
+    case 'webhook':
+      return new WebhookNotificationSink();
+    case 'slack':
+      return new SlackNotificationSink();
+  }
+}
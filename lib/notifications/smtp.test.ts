@@ -0,0 +1,211 @@
+/**
+ * Unit Tests for the SMTP client
+ *
+ * Mail is sent to a local SMTP server (no external network access).
+ * Simple test runner compatible with repo conventions.
+ * Run with: tsx lib/notifications/smtp.test.ts
+ */
+
+import { createServer, type Server, type AddressInfo } from 'net';
+import { formatSmtpMessage, sendSmtpMail, type SmtpConfig } from './smtp';
+
+// Simple assertion helper
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string): void {
+  if (actual !== expected) {
+    throw new Error(`Assertion failed: ${message}. Expected: ${expected}, Actual: ${actual}`);
+  }
+}
+
+/**
+ * Start a local SMTP server recording commands and message data;
+ * rejectRecipients answers RCPT with 550
+ */
+async function startSmtpServer(options: { rejectRecipients?: boolean } = {}): Promise<{
+  server: Server;
+  port: number;
+  commands: string[];
+  messages: string[];
+}> {
+  const commands: string[] = [];
+  const messages: string[] = [];
+
+  const server = createServer((socket) => {
+    let buffer = '';
+    let data: string[] | null = null;
+    socket.write('220 localhost ESMTP test\r\n');
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        if (data) {
+          if (line === '.') {
+            messages.push(data.join('\r\n'));
+            data = null;
+            socket.write('250 queued\r\n');
+          } else {
+            data.push(line);
+          }
+          continue;
+        }
+
+        commands.push(line);
+        const verb = line.split(' ')[0].toUpperCase();
+        if (verb === 'EHLO') {
+          socket.write('250-localhost\r\n250-SIZE 1000000\r\n250 AUTH PLAIN LOGIN\r\n');
+        } else if (verb === 'AUTH') {
+          socket.write('235 authenticated\r\n');
+        } else if (verb === 'MAIL') {
+          socket.write('250 ok\r\n');
+        } else if (verb === 'RCPT') {
+          socket.write(options.rejectRecipients ? '550 no such user\r\n' : '250 ok\r\n');
+        } else if (verb === 'DATA') {
+          data = [];
+          socket.write('354 go ahead\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else {
+          socket.write('502 not implemented\r\n');
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return { server, port: (server.address() as AddressInfo).port, commands, messages };
+}
+
+function config(port: number): SmtpConfig {
+  return {
+    host: '127.0.0.1',
+    port,
+    secure: false,
+    user: 'alerts',
+    password: 'secret',
+    from: 'CCS Lead Agent <alerts@example.com>',
+    timeoutMs: 5000,
+  };
+}
+
+// Test cases
+function testFormatMessage() {
+  console.log('Test 1: Message headers, CRLF line endings and dot-stuffing');
+
+  const formatted = formatSmtpMessage(
+    'CCS Lead Agent <alerts@example.com>',
+    { to: ['admin@example.com'], subject: 'Run failed – Tenders', text: 'First line\n.hidden dot\nLast line' },
+    new Date('2026-10-19T08:00:00Z')
+  );
+  const [headers, body] = formatted.split('\r\n\r\n');
+  assert(headers.includes('From: CCS Lead Agent <alerts@example.com>'), 'From header');
+  assert(headers.includes('To: admin@example.com'), 'To header');
+  assert(headers.includes('Subject: =?UTF-8?B?'), 'Non-ASCII subject encoded');
+  assert(/Message-ID: <[^>]+@example\.com>/.test(headers), 'Message-ID uses the sender domain');
+  assertEqual(body, 'First line\r\n..hidden dot\r\nLast line', 'Body uses CRLF and escapes leading dots');
+
+  console.log('  ✅ Message formatted');
+}
+
+async function testSendMail() {
+  console.log('Test 2: Mail is sent with AUTH PLAIN, envelope and data');
+
+  const { server, port, commands, messages } = await startSmtpServer();
+  try {
+    await sendSmtpMail(config(port), {
+      to: ['admin@example.com'],
+      subject: 'Discovery run failed',
+      text: 'The run failed',
+    });
+
+    assertEqual(commands[0].startsWith('EHLO '), true, 'EHLO first');
+    assertEqual(
+      commands[1],
+      `AUTH PLAIN ${Buffer.from('\0alerts\0secret').toString('base64')}`,
+      'AUTH PLAIN with user and password'
+    );
+    assertEqual(commands[2], 'MAIL FROM:<alerts@example.com>', 'Envelope sender is the bare address');
+    assertEqual(commands[3], 'RCPT TO:<admin@example.com>', 'Recipient');
+    assertEqual(commands[4], 'DATA', 'DATA after the envelope');
+    assertEqual(messages.length, 1, 'One message received');
+    assert(messages[0].includes('Subject: Discovery run failed'), 'Subject received');
+    assert(messages[0].endsWith('The run failed'), 'Body received');
+  } finally {
+    server.close();
+  }
+
+  console.log('  ✅ Mail sent');
+}
+
+async function testRejectedRecipient() {
+  console.log('Test 3: A rejected recipient fails with the server reply');
+
+  const { server, port, messages } = await startSmtpServer({ rejectRecipients: true });
+  try {
+    let error: Error | null = null;
+    try {
+      await sendSmtpMail(config(port), { to: ['nobody@example.com'], subject: 'Test', text: 'Test' });
+    } catch (e) {
+      error = e as Error;
+    }
+    assert(error !== null, 'Rejected recipient should throw');
+    assertEqual(error!.message, 'SMTP RCPT TO failed: 550 no such user', 'Error names the step and reply');
+    assert(!error!.message.includes('secret'), 'Credentials never appear in errors');
+    assertEqual(messages.length, 0, 'No message data sent');
+  } finally {
+    server.close();
+  }
+
+  console.log('  ✅ Rejection reported');
+}
+
+async function runTests() {
+  console.log('='.repeat(60));
+  console.log('Notifications: SMTP Client Unit Tests');
+  console.log('='.repeat(60));
+  console.log('');
+
+  const tests: Array<() => void | Promise<void>> = [
+    testFormatMessage,
+    testSendMail,
+    testRejectedRecipient,
+  ];
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const test of tests) {
+    try {
+      await test();
+      passed++;
+      console.log('');
+    } catch (error) {
+      failed++;
+      console.error(`  ❌ Test failed: ${error instanceof Error ? error.message : String(error)}`);
+      console.log('');
+    }
+  }
+
+  console.log('='.repeat(60));
+  console.log(`Tests: ${passed} passed, ${failed} failed (total: ${tests.length})`);
+  console.log('='.repeat(60));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTests();
+}
+
+export { runTests };
@@ -0,0 +1,257 @@
+/**
+ * Notifications - SMTP Client
+ *
+ * Minimal SMTP client for plain-text alert emails, one message per connection:
+ * EHLO, STARTTLS when the server offers it (or implicit TLS on port 465 /
+ * SMTP_SECURE=true), AUTH PLAIN or LOGIN, then MAIL / RCPT / DATA.
+ *
+ * Configure:
+ * - SMTP_HOST, SMTP_PORT (default 587)
+ * - SMTP_USER, SMTP_PASSWORD (optional)
+ * - SMTP_FROM (e.g. "CCS Lead Agent <alerts@example.com>")
+ * - SMTP_SECURE=true for implicit TLS
+ */
+
+import net from 'node:net';
+import tls from 'node:tls';
+import os from 'node:os';
+import { randomUUID } from 'node:crypto';
+
+/** Time allowed for connecting and for each server reply */
+const SMTP_TIMEOUT_MS = 15000;
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Implicit TLS from the first byte (port 465) */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  /** From header, with or without a display name */
+  from: string;
+  timeoutMs: number;
+}
+
+export interface SmtpMessage {
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * SMTP settings from the environment (null if SMTP_HOST or SMTP_FROM is missing)
+ */
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  const from = process.env.SMTP_FROM;
+  if (!host || !from) {
+    return null;
+  }
+
+  const port = parseInt(process.env.SMTP_PORT || '587', 10) || 587;
+  return {
+    host,
+    port,
+    secure: process.env.SMTP_SECURE === 'true' || port === 465,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    from,
+    timeoutMs: SMTP_TIMEOUT_MS,
+  };
+}
+
+/**
+ * Bare address of a From value ("Name <a@b.com>" -> "a@b.com")
+ */
+function envelopeAddress(value: string): string {
+  return value.match(/<([^>]+)>/)?.[1]?.trim() ?? value.trim();
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Message as sent after DATA: headers, CRLF line endings, dot-stuffed body
+ * (without the terminating "." line)
+ */
+export function formatSmtpMessage(from: string, message: SmtpMessage, date: Date = new Date()): string {
+  const domain = envelopeAddress(from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject.replace(/[\r\n]+/g, ' '))}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  const body = message.text
+    .replace(/\r?\n/g, '\r\n')
+    .split('\r\n')
+    .map((line) => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n');
+
+  return `${headers.join('\r\n')}\r\n\r\n${body}`;
+}
+
+/**
+ * One SMTP connection: sends commands and reads (multi-line) replies
+ */
+class SmtpSession {
+  private buffer = '';
+  private replyLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket, private timeoutMs: number) {
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error('SMTP server timed out')));
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  private onData = (chunk: Buffer | string) => {
+    this.buffer += chunk.toString();
+    let end: number;
+    while ((end = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      this.replyLines.push(line.slice(4));
+      // "250-..." continues a reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.replies.push({ code: parseInt(line.slice(0, 3), 10), lines: this.replyLines });
+        this.replyLines = [];
+        this.deliver();
+      }
+    }
+  };
+
+  private onError = (error: Error) => {
+    this.failure = error;
+    this.deliver();
+  };
+
+  private onClose = () => {
+    this.failure = this.failure ?? new Error('SMTP connection closed');
+    this.deliver();
+  };
+
+  private deliver() {
+    if (!this.waiter) return;
+    const reply = this.replies.shift();
+    if (reply) {
+      this.waiter.resolve(reply);
+      this.waiter = null;
+    } else if (this.failure) {
+      this.waiter.reject(this.failure);
+      this.waiter = null;
+    }
+  }
+
+  private read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+      this.deliver();
+    });
+  }
+
+  /**
+   * Read the next reply and check its code
+   */
+  async expect(codes: number[], step: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP ${step} failed: ${reply.code} ${reply.lines.join(' ')}`.trim());
+    }
+    return reply;
+  }
+
+  /**
+   * Send a command and check the reply code
+   */
+  async command(line: string, codes: number[], step: string = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes, step);
+  }
+
+  /**
+   * Switch the connection to TLS (after STARTTLS was accepted)
+   */
+  async upgrade(host: string): Promise<SmtpSession> {
+    this.socket.off('data', this.onData);
+    this.socket.off('error', this.onError);
+    this.socket.off('close', this.onClose);
+    this.socket.setTimeout(0);
+
+    const secure = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const socket = tls.connect({ socket: this.socket, servername: host }, () => resolve(socket));
+      socket.once('error', reject);
+    });
+    return new SmtpSession(secure, this.timeoutMs);
+  }
+
+  close() {
+    this.socket.destroy();
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.setTimeout(config.timeoutMs, () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.once('error', reject);
+  });
+}
+
+/**
+ * Send a plain-text email
+ *
+ * @throws Error with the failing step and server reply
+ */
+export async function sendSmtpMail(config: SmtpConfig, message: SmtpMessage): Promise<void> {
+  let session = new SmtpSession(await connect(config), config.timeoutMs);
+  const helo = `EHLO ${os.hostname() || 'localhost'}`;
+
+  try {
+    await session.expect([220], 'greeting');
+    let ehlo = await session.command(helo, [250]);
+
+    if (!config.secure && ehlo.lines.some((line) => /^STARTTLS\b/i.test(line))) {
+      await session.command('STARTTLS', [220]);
+      session = await session.upgrade(config.host);
+      ehlo = await session.command(helo, [250]);
+    }
+
+    if (config.user && config.password) {
+      const mechanisms = ehlo.lines.find((line) => /^AUTH\b/i.test(line)) ?? '';
+      if (/\bLOGIN\b/i.test(mechanisms) && !/\bPLAIN\b/i.test(mechanisms)) {
+        await session.command('AUTH LOGIN', [334]);
+        await session.command(Buffer.from(config.user).toString('base64'), [334], 'AUTH LOGIN user');
+        await session.command(Buffer.from(config.password).toString('base64'), [235], 'AUTH LOGIN password');
+      } else {
+        const credentials = Buffer.from(`\0${config.user}\0${config.password}`).toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH PLAIN');
+      }
+    }
+
+    await session.command(`MAIL FROM:<${envelopeAddress(config.from)}>`, [250], 'MAIL FROM');
+    for (const recipient of message.to) {
+      await session.command(`RCPT TO:<${envelopeAddress(recipient)}>`, [250, 251], 'RCPT TO');
+    }
+    await session.command('DATA', [354]);
+    await session.command(`${formatSmtpMessage(config.from, message)}\r\n.`, [250], 'message');
+    await session.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    session.close();
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Notifications - Types
+ *
+ * Alerts are delivered to destinations through pluggable sinks
+ * (SMTP email, generic webhook, Slack-compatible webhook).
+ */
+
+export type AlertSeverity = 'critical' | 'warning';
+
+export const NOTIFICATION_SINK_TYPES = ['email', 'webhook', 'slack'] as const;
+
+export type NotificationSinkType = (typeof NOTIFICATION_SINK_TYPES)[number];
+
+/**
+ * Alert to deliver
+ */
+export interface AlertInput {
+  /** Alert type subscribers choose from (e.g. "run_failed") */
+  type: string;
+  severity: AlertSeverity;
+  /** Repeats with the same key inside the de-duplication window are not sent again */
+  dedupeKey: string;
+  title: string;
+  message: string;
+  /** Link to the run or page the alert is about */
+  url?: string;
+  runId?: string;
+  /** Extra fields shown in the alert (webhooks get them as `details`) */
+  details?: Record<string, string | number>;
+}
+
+/**
+ * Where an alert goes: an email address or a webhook URL
+ */
+export interface NotificationDestination {
+  sink: NotificationSinkType;
+  address: string;
+}
+
+/**
+ * Outcome of delivering an alert to one destination (stored with the alert)
+ */
+export interface NotificationDelivery {
+  sink: NotificationSinkType;
+  /** Email address, or the webhook's origin (webhook paths carry secrets) */
+  destination: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Notification Sink Interface
+ *
+ * Implementations:
+ * - EmailNotificationSink (SMTP_HOST + SMTP_FROM)
+ * - WebhookNotificationSink (JSON POST to any URL)
+ * - SlackNotificationSink (Slack-compatible incoming webhook)
+ */
+export interface INotificationSink {
+  /**
+   * Get sink type identifier
+   */
+  getSinkType(): NotificationSinkType;
+
+  /**
+   * Check if the sink can deliver (e.g. SMTP configured)
+   */
+  isConfigured(): boolean;
+
+  /**
+   * Deliver an alert to one destination
+   *
+   * Never throws - failures are returned with an error.
+   */
+  send(alert: AlertInput, address: string): Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * Outcome of dispatching an alert
+ */
+export interface AlertDispatchResult {
+  alertId: string;
+  /** True if an earlier alert with the same key is still inside the window (nothing sent) */
+  suppressed: boolean;
+  /** Times the alert was raised in the window */
+  occurrences: number;
+  deliveries: NotificationDelivery[];
+}
@@ -148,6 +148,15 @@ export async function buildVariableContext(
     },
   };
 
+  // Event details recorded when the company was found on an exhibitor list
+  const discoveryMetadata = lead.companyRel?.discoveryMetadata as Record<string, unknown> | null | undefined;
+  if (typeof discoveryMetadata?.eventContext === 'string') {
+    context.eventContext = discoveryMetadata.eventContext;
+  }
+  if (typeof discoveryMetadata?.exhibitorRole === 'string') {
+    context.exhibitorRole = discoveryMetadata.exhibitorRole;
+  }
+
   // Merge additional context (e.g., eventContext, exhibitorRole)
   if (additionalContext) {
     Object.assign(context, additionalContext);
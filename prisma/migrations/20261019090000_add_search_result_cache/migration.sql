@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "search_result_cache" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "start" INTEGER NOT NULL DEFAULT 1,
+    "num" INTEGER NOT NULL DEFAULT 10,
+    "itemsJson" JSONB NOT NULL,
+    "metadata" JSONB,
+    "hitCount" INTEGER NOT NULL DEFAULT 0,
+    "lastHitAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "search_result_cache_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "search_result_cache_query_idx" ON "search_result_cache"("query");
+
+-- CreateIndex
+CREATE INDEX "search_result_cache_expiresAt_idx" ON "search_result_cache"("expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "search_result_cache_provider_query_start_num_key" ON "search_result_cache"("provider", "query", "start", "num");
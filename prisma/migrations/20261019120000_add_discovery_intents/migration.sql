@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "discovery_intents" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "targetCountries" JSONB NOT NULL,
+    "seedQueries" JSONB NOT NULL,
+    "includeKeywords" JSONB NOT NULL,
+    "excludeKeywords" JSONB NOT NULL,
+    "channels" JSONB NOT NULL,
+    "limits" JSONB,
+    "geography" JSONB,
+    "searchProviders" JSONB,
+    "searchCacheTtlHours" INTEGER,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdById" TEXT,
+    "updatedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "discovery_intents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "discovery_intent_versions" (
+    "id" TEXT NOT NULL,
+    "intentId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "changeNote" TEXT,
+    "changedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "discovery_intent_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "discovery_intents_active_idx" ON "discovery_intents"("active");
+
+-- CreateIndex
+CREATE INDEX "discovery_intents_category_idx" ON "discovery_intents"("category");
+
+-- CreateIndex
+CREATE INDEX "discovery_intent_versions_intentId_idx" ON "discovery_intent_versions"("intentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discovery_intent_versions_intentId_version_key" ON "discovery_intent_versions"("intentId", "version");
+
+-- AddForeignKey
+ALTER TABLE "discovery_intent_versions" ADD CONSTRAINT "discovery_intent_versions_intentId_fkey" FOREIGN KEY ("intentId") REFERENCES "discovery_intents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "discovery_intents" ADD COLUMN     "schedule" JSONB,
+ADD COLUMN     "lastScheduledRunAt" TIMESTAMP(3);
+
+-- Backfill schedules for intents already seeded from the catalog
+-- (previously run by the single 06:00 daily cron)
+UPDATE "discovery_intents" SET "schedule" = '{"enabled": true, "cron": "0 6 * * *"}'
+WHERE "id" IN ('agencies_all', 'businesses_sme_ceo_and_corporate_marketing') AND "schedule" IS NULL;
+
+UPDATE "discovery_intents" SET "schedule" = '{"enabled": true, "cron": "0 7 * * 1-5"}'
+WHERE "id" = 'tenders_uniforms_merch' AND "schedule" IS NULL;
+
+UPDATE "discovery_intents" SET "schedule" = '{"enabled": true, "cron": "0 6 * 3,6,9,11,12 1", "quietPeriods": [{"start": "12-15", "end": "01-05", "note": "Festive season shutdown"}]}'
+WHERE "id" = 'schools_all' AND "schedule" IS NULL;
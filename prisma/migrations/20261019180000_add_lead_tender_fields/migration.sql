@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "leads" ADD COLUMN     "tenderNumber" TEXT,
+ADD COLUMN     "tenderClosingDate" TIMESTAMP(3),
+ADD COLUMN     "tenderBriefingDate" TIMESTAMP(3),
+ADD COLUMN     "tenderIssuingBody" TEXT,
+ADD COLUMN     "tenderDocumentUrls" JSONB;
+
+-- CreateIndex
+CREATE INDEX "leads_tenderNumber_idx" ON "leads"("tenderNumber");
+
+-- CreateIndex
+CREATE INDEX "leads_tenderClosingDate_idx" ON "leads"("tenderClosingDate");
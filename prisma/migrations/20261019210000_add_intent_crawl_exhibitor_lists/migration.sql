@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "discovery_intents" ADD COLUMN     "crawlExhibitorLists" BOOLEAN NOT NULL DEFAULT false;
+
+-- Events intents already seeded from the catalog crawl the exhibitor lists of event sites they find
+UPDATE "discovery_intents" SET "crawlExhibitorLists" = true
+WHERE "id" IN ('events_exhibitions_sa', 'events_conferences_expos');
+
+-- Leave room for the listed exhibitors (was 10)
+UPDATE "discovery_intents" SET "limits" = jsonb_set("limits", '{maxCompanies}', '50')
+WHERE "id" IN ('events_exhibitions_sa', 'events_conferences_expos') AND ("limits"->>'maxCompanies')::int = 10;
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN     "canonicalDomain" TEXT;
+
+-- CreateIndex
+CREATE INDEX "companies_canonicalDomain_idx" ON "companies"("canonicalDomain");
+
+-- Backfill: host without scheme, "www.", port, path or query (IDNs keep their Unicode form
+-- here; they are rewritten as punycode the next time the company is saved)
+UPDATE "companies"
+SET "canonicalDomain" = NULLIF(
+  rtrim(
+    regexp_replace(
+      regexp_replace(
+        regexp_replace(lower(trim("website")), '^[a-z][a-z0-9+.-]*://', ''),
+        '[/?#:].*$', ''
+      ),
+      '^www[0-9]*\.', ''
+    ),
+    '.'
+  ),
+  ''
+)
+WHERE "website" IS NOT NULL AND trim("website") <> '';
+
+UPDATE "companies" SET "canonicalDomain" = NULL
+WHERE "canonicalDomain" IS NOT NULL AND position('.' in "canonicalDomain") = 0;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "merge_audits" (
+    "id" TEXT NOT NULL,
+    "entityType" TEXT NOT NULL,
+    "survivorId" TEXT NOT NULL,
+    "mergedId" TEXT NOT NULL,
+    "survivorSnapshot" JSONB NOT NULL,
+    "mergedSnapshot" JSONB NOT NULL,
+    "fieldChoices" JSONB NOT NULL,
+    "movedCounts" JSONB NOT NULL,
+    "mergedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "merge_audits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "merge_audits_entityType_idx" ON "merge_audits"("entityType");
+
+-- CreateIndex
+CREATE INDEX "merge_audits_survivorId_idx" ON "merge_audits"("survivorId");
+
+-- CreateIndex
+CREATE INDEX "merge_audits_mergedId_idx" ON "merge_audits"("mergedId");
+
+-- CreateIndex
+CREATE INDEX "merge_audits_createdAt_idx" ON "merge_audits"("createdAt");
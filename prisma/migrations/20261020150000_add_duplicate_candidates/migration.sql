@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "duplicate_candidates" (
+    "id" TEXT NOT NULL,
+    "entityType" TEXT NOT NULL,
+    "recordAId" TEXT NOT NULL,
+    "recordBId" TEXT NOT NULL,
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "reasons" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "reviewedById" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "lastDetectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "duplicate_candidates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "duplicate_candidates_entityType_recordAId_recordBId_key" ON "duplicate_candidates"("entityType", "recordAId", "recordBId");
+
+-- CreateIndex
+CREATE INDEX "duplicate_candidates_status_idx" ON "duplicate_candidates"("status");
+
+-- CreateIndex
+CREATE INDEX "duplicate_candidates_entityType_idx" ON "duplicate_candidates"("entityType");
+
+-- CreateIndex
+CREATE INDEX "duplicate_candidates_confidence_idx" ON "duplicate_candidates"("confidence");
@@ -0,0 +1,58 @@
+-- AlterTable
+ALTER TABLE "discovery_runs" ADD COLUMN "reviewMode" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "discovery_intents" ADD COLUMN "requireReview" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "discovery_result_reviews" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "resultIndex" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "reason" TEXT,
+    "domain" TEXT,
+    "edits" JSONB,
+    "feedback" JSONB,
+    "snoozedUntil" TIMESTAMP(3),
+    "companyId" TEXT,
+    "reviewedById" TEXT,
+    "reviewedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "discovery_result_reviews_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "discovery_domain_list" (
+    "id" TEXT NOT NULL,
+    "domain" TEXT NOT NULL,
+    "listType" TEXT NOT NULL DEFAULT 'block',
+    "reason" TEXT,
+    "source" TEXT,
+    "runId" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "discovery_domain_list_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discovery_result_reviews_runId_resultIndex_key" ON "discovery_result_reviews"("runId", "resultIndex");
+
+-- CreateIndex
+CREATE INDEX "discovery_result_reviews_status_idx" ON "discovery_result_reviews"("status");
+
+-- CreateIndex
+CREATE INDEX "discovery_result_reviews_domain_idx" ON "discovery_result_reviews"("domain");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discovery_domain_list_domain_key" ON "discovery_domain_list"("domain");
+
+-- CreateIndex
+CREATE INDEX "discovery_domain_list_listType_idx" ON "discovery_domain_list"("listType");
+
+-- AddForeignKey
+ALTER TABLE "discovery_result_reviews" ADD CONSTRAINT "discovery_result_reviews_runId_fkey" FOREIGN KEY ("runId") REFERENCES "discovery_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "discovery_domain_list" ADD COLUMN     "hitCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastHitAt" TIMESTAMP(3);
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "discovery_query_stats" (
+    "id" TEXT NOT NULL,
+    "pool" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "start" INTEGER NOT NULL DEFAULT 1,
+    "runs" INTEGER NOT NULL DEFAULT 0,
+    "lastRunAt" TIMESTAMP(3),
+    "lastRunId" TEXT,
+    "resultsFound" INTEGER NOT NULL DEFAULT 0,
+    "resultsKept" INTEGER NOT NULL DEFAULT 0,
+    "newResults" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "discovery_query_stats_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "discovery_query_stats_pool_idx" ON "discovery_query_stats"("pool");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discovery_query_stats_pool_query_start_key" ON "discovery_query_stats"("pool", "query", "start");
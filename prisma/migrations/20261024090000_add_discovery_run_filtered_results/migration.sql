@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "discovery_runs" ADD COLUMN     "filteredResultsJson" JSONB;
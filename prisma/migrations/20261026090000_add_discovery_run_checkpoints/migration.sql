@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "discovery_runs" ADD COLUMN "checkpointJson" JSONB,
+ADD COLUMN "resumedFromRunId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discovery_runs_resumedFromRunId_key" ON "discovery_runs"("resumedFromRunId");
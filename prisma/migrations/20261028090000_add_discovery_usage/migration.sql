@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "discovery_usage" (
+    "provider" TEXT NOT NULL,
+    "day" TEXT NOT NULL,
+    "apiCalls" INTEGER NOT NULL DEFAULT 0,
+    "cacheHits" INTEGER NOT NULL DEFAULT 0,
+    "pagesFetched" INTEGER NOT NULL DEFAULT 0,
+    "bytesFetched" BIGINT NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "discovery_usage_pkey" PRIMARY KEY ("provider","day")
+);
+
+-- CreateIndex
+CREATE INDEX "discovery_usage_day_idx" ON "discovery_usage"("day");
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "notification_alerts" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "dedupeKey" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "url" TEXT,
+    "runId" TEXT,
+    "occurrences" INTEGER NOT NULL DEFAULT 1,
+    "deliveries" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notification_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "notification_preferences" (
+    "userId" TEXT NOT NULL,
+    "alertTypes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "emailEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "webhookUrl" TEXT,
+    "slackWebhookUrl" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_preferences_pkey" PRIMARY KEY ("userId")
+);
+
+-- CreateIndex
+CREATE INDEX "notification_alerts_dedupeKey_createdAt_idx" ON "notification_alerts"("dedupeKey", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "notification_alerts_createdAt_idx" ON "notification_alerts"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -2,6 +2,7 @@
 import { PrismaClient } from "@prisma/client";
 import bcrypt from "bcryptjs";
 import { seedPlaybooksByName } from "../lib/outreach/playbooks";
+import { seedIntentsFromCatalog } from "../lib/discovery/intents/seedIntents";
 
 const prisma = new PrismaClient();
 
@@ -51,6 +52,10 @@ async function main() {
   // Phase 5B: Seed outreach playbooks
   await seedPlaybooksByName(prisma);
 
+  // Phase 5A: Seed discovery intents (missing catalog intents only)
+  const intentsCreated = await seedIntentsFromCatalog(prisma);
+  console.log("✅ Discovery intents seeded:", intentsCreated);
+
   console.log("🎉 Seeding completed!");
 }
 
@@ -0,0 +1,104 @@
+/**
+ * Job Worker Script
+ *
+ * Long-running worker for the job queue (lib/jobs). Polls for due jobs and
+ * processes them chunk by chunk. Safe to run alongside the /api/jobs/worker
+ * cron and other workers: jobs are leased with FOR UPDATE SKIP LOCKED.
+ *
+ * Usage:
+ *   npx tsx scripts/job-worker.ts [--once] [--maxRuntimeSeconds=3600] [--types=rescore,enrichment_batch]
+ *
+ * Options:
+ *   --once                   Exit when no job is due instead of polling
+ *   --maxRuntimeSeconds=<n>  Stop after this long (default: run until interrupted)
+ *   --types=<list>           Only process these job types
+ *
+ * Examples:
+ *   npx tsx scripts/job-worker.ts --once
+ *   npx tsx scripts/job-worker.ts --types=enrichment_batch
+ */
+
+import { hostname } from 'os';
+import { prisma } from '../lib/prisma';
+import { JOB_TYPES, runWorker, type JobType } from '../lib/jobs';
+
+interface ScriptOptions {
+  once: boolean;
+  maxRuntimeSeconds?: number;
+  types?: JobType[];
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(): ScriptOptions {
+  const args = process.argv.slice(2);
+  const options: ScriptOptions = { once: false };
+
+  for (const arg of args) {
+    if (arg === '--once') {
+      options.once = true;
+    } else if (arg.startsWith('--maxRuntimeSeconds=')) {
+      const value = parseInt(arg.split('=')[1], 10);
+      if (isNaN(value) || value < 1) {
+        console.error('Error: --maxRuntimeSeconds must be a positive number');
+        process.exit(1);
+      }
+      options.maxRuntimeSeconds = value;
+    } else if (arg.startsWith('--types=')) {
+      const types = arg.split('=')[1].split(',').map((type) => type.trim());
+      const unknown = types.filter((type) => !(JOB_TYPES as readonly string[]).includes(type));
+      if (unknown.length > 0) {
+        console.error(`Error: Unknown job type(s): ${unknown.join(', ')} (expected ${JOB_TYPES.join(', ')})`);
+        process.exit(1);
+      }
+      options.types = types as JobType[];
+    } else {
+      console.error(`Error: Unknown option ${arg}`);
+      console.error('Usage: npx tsx scripts/job-worker.ts [--once] [--maxRuntimeSeconds=<n>] [--types=<list>]');
+      process.exit(1);
+    }
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs();
+  const workerId = `script-${hostname()}-${process.pid}`;
+
+  console.log('='.repeat(60));
+  console.log('Job Worker');
+  console.log('='.repeat(60));
+  console.log(`Worker: ${workerId}`);
+  console.log(`Types: ${options.types?.join(', ') ?? 'all'}`);
+  console.log(`Mode: ${options.once ? 'until idle' : 'polling'}`);
+  console.log('');
+
+  try {
+    const summary = await runWorker({
+      workerId,
+      maxRuntimeMs: (options.maxRuntimeSeconds ?? Number.MAX_SAFE_INTEGER / 1000) * 1000,
+      types: options.types,
+      stopWhenIdle: options.once,
+    });
+
+    console.log('');
+    console.log('='.repeat(60));
+    console.log('Worker Summary');
+    console.log('='.repeat(60));
+    console.log(`Chunks processed: ${summary.chunks}`);
+    console.log(`Jobs completed: ${summary.completed}`);
+    console.log(`Chunks continued: ${summary.continued}`);
+    console.log(`Attempts retried: ${summary.retried}`);
+    console.log(`Jobs dead-lettered: ${summary.dead + summary.reaped}`);
+    console.log('='.repeat(60));
+  } catch (error: unknown) {
+    console.error('Fatal error in job worker:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -17,7 +17,7 @@ import 'dotenv/config';
 import { prisma } from '../lib/prisma';
 import { loadConfig } from '../lib/discovery/runner/config';
 import {
-  getIntentById,
+  getCatalogIntentById,
   GLOBAL_NEGATIVE_KEYWORDS,
 } from '../lib/discovery/intents';
 import * as fs from 'fs';
@@ -197,7 +197,7 @@ async function main() {
   ];
 
   for (const intentId of requiredIntents) {
-    const intent = getIntentById(intentId);
+    const intent = getCatalogIntentById(intentId);
     check(
       'intents',
       `Intent "${intentId}" exists`,
@@ -226,7 +226,7 @@ async function main() {
   );
 
   // Check tender intent has site constraint
-  const tenderIntent = getIntentById('tenders_uniforms_merch');
+  const tenderIntent = getCatalogIntentById('tenders_uniforms_merch');
   if (tenderIntent) {
     const hasSiteQuery = tenderIntent.seedQueries.some((q) =>
       q.toLowerCase().includes('site:etenders.gov.za')
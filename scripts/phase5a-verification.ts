@@ -94,20 +94,20 @@ async function main() {
 
   await test(
     'Active intents are loaded',
-    () => getActiveIntents().length >= 4,
-    `Expected at least 4 active intents, got ${getActiveIntents().length}`
+    async () => (await getActiveIntents()).length >= 4,
+    'Expected at least 4 active intents'
   )();
 
   await test(
     'agencies_marketing_branding intent exists',
-    () => getIntentById('agencies_marketing_branding') !== undefined,
+    async () => (await getIntentById('agencies_marketing_branding')) !== undefined,
     'agencies_marketing_branding intent should exist'
   )();
 
   await test(
     'Intent limits are conservative',
-    () => {
-      const intent = getIntentById('agencies_marketing_branding');
+    async () => {
+      const intent = await getIntentById('agencies_marketing_branding');
       return intent?.limits?.maxCompanies === 10 && intent?.limits?.maxLeads === 10;
     },
     'Intent should have maxCompanies=10, maxLeads=10'
@@ -115,8 +115,8 @@ async function main() {
 
   await test(
     'applyIntentById resolves correctly',
-    () => {
-      const resolved = applyIntentById('agencies_marketing_branding');
+    async () => {
+      const resolved = await applyIntentById('agencies_marketing_branding');
       return resolved !== null && 
              resolved.queries.length > 0 && 
              resolved.limits.maxCompanies === 10;
@@ -235,7 +235,7 @@ async function main() {
   console.log('  🚀 Running a dry-run discovery test...');
   
   try {
-    const resolved = applyIntentById('agencies_marketing_branding');
+    const resolved = await applyIntentById('agencies_marketing_branding');
     if (!resolved) throw new Error('Failed to resolve intent');
 
     const result = await runner.run({
@@ -20,7 +20,7 @@ async function main() {
 
   // Step 1: Validate intent exists
   console.log('Step 1: Validating intent...');
-  const intent = getIntentById(intentId);
+  const intent = await getIntentById(intentId);
   if (!intent) {
     console.error(`❌ Intent "${intentId}" not found`);
     process.exit(1);
@@ -32,7 +32,7 @@ async function main() {
 
   // Step 2: Apply intent
   console.log('Step 2: Applying intent configuration...');
-  const resolvedConfig = applyIntentById(intentId);
+  const resolvedConfig = await applyIntentById(intentId);
   if (!resolvedConfig) {
     console.error(`❌ Failed to resolve intent: ${intentId}`);
     process.exit(1);
@@ -37,7 +37,7 @@ async function main() {
   // ─────────────────────────────────────────────────────────────────────
   console.log('📋 Available Intents\n');
 
-  const intents = getActiveIntents();
+  const intents = await getActiveIntents();
   console.log(`  Found ${intents.length} active intent(s):\n`);
 
   for (const intent of intents) {
@@ -80,7 +80,7 @@ async function main() {
   if (intentId) {
     console.log('📋 Running Intent Discovery\n');
 
-    const intent = getIntentById(intentId);
+    const intent = await getIntentById(intentId);
     if (!intent) {
       console.error(`  ❌ Intent "${intentId}" not found`);
       console.log('\n  Available intents:');
@@ -98,7 +98,7 @@ async function main() {
     console.log('');
 
     // Resolve intent configuration
-    const resolved = applyIntentById(intentId);
+    const resolved = await applyIntentById(intentId);
     if (!resolved) {
       console.error(`  ❌ Failed to resolve intent: ${intentId}`);
       process.exit(1);
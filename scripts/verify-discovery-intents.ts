@@ -14,7 +14,7 @@
 
 import 'dotenv/config';
 import {
-  getIntentById,
+  getCatalogIntentById,
   GLOBAL_NEGATIVE_KEYWORDS,
 } from '../lib/discovery/intents';
 
@@ -64,14 +64,14 @@ async function main() {
   for (const intentId of requiredIntents) {
     await test(
       `Intent "${intentId}" exists`,
-      () => getIntentById(intentId) !== undefined,
+      () => getCatalogIntentById(intentId) !== undefined,
       `Intent ${intentId} should be defined in catalog`
     )();
 
     await test(
       `Intent "${intentId}" is active`,
       () => {
-        const intent = getIntentById(intentId);
+        const intent = getCatalogIntentById(intentId);
         return intent?.active === true;
       },
       `Intent ${intentId} should be active`
@@ -86,7 +86,7 @@ async function main() {
   console.log('📋 2. Intent Configuration\n');
 
   for (const intentId of requiredIntents) {
-    const intent = getIntentById(intentId);
+    const intent = getCatalogIntentById(intentId);
     if (!intent) continue;
 
     await test(
@@ -184,7 +184,7 @@ async function main() {
 
   // Verify all intents apply global negative keywords
   for (const intentId of requiredIntents) {
-    const intent = getIntentById(intentId);
+    const intent = getCatalogIntentById(intentId);
     if (!intent) continue;
 
     await test(
@@ -209,7 +209,7 @@ async function main() {
   // ─────────────────────────────────────────────────────────────────────
   console.log('📋 4. Tender Site Constraint\n');
 
-  const tenderIntent = getIntentById('tenders_uniforms_merch');
+  const tenderIntent = getCatalogIntentById('tenders_uniforms_merch');
   if (tenderIntent) {
     await test(
       'Tender intent has site:etenders.gov.za queries',
@@ -248,7 +248,7 @@ async function main() {
   // ─────────────────────────────────────────────────────────────────────
   console.log('📋 5. Events Intent Configuration\n');
 
-  const eventsIntent = getIntentById('events_exhibitions_sa');
+  const eventsIntent = getCatalogIntentById('events_exhibitions_sa');
   if (eventsIntent) {
     await test(
       'Events intent targets exhibitors/organizers/sponsors',